@@ -0,0 +1,42 @@
+import { readFileSync, existsSync } from "node:fs";
+import { createClient } from "@supabase/supabase-js";
+
+// Runs the overdue remittance sweep once, for projects without pg_cron or a scheduler
+// calling the remittance-overdue-sweep edge function:
+//   node scripts/markOverdueRemittances.mjs
+
+function loadDotEnvIfPresent() {
+  const envPath = ".env";
+  if (!existsSync(envPath)) return;
+  const raw = readFileSync(envPath, "utf8");
+  for (const line of raw.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (trimmed.startsWith("#")) continue;
+    const idx = trimmed.indexOf("=");
+    if (idx < 0) continue;
+    const key = trimmed.slice(0, idx).trim();
+    let value = trimmed.slice(idx + 1).trim();
+    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+      value = value.slice(1, -1);
+    }
+    if (!process.env[key]) process.env[key] = value;
+  }
+}
+
+loadDotEnvIfPresent();
+
+const SUPABASE_URL = (process.env.SUPABASE_URL ?? "").trim();
+const SUPABASE_SERVICE_ROLE_KEY = (process.env.SUPABASE_SERVICE_ROLE_KEY ?? "").trim();
+
+if (!SUPABASE_URL) throw new Error("Missing SUPABASE_URL");
+if (!SUPABASE_SERVICE_ROLE_KEY) throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+});
+
+const { data, error } = await supabase.rpc("mark_overdue_contract_remittances");
+if (error) throw new Error(error.message);
+
+console.log(`Marked ${Number(data ?? 0) || 0} remittance(s) overdue`);
@@ -1,7 +1,13 @@
 import { AppRouter } from "./app/AppRouter";
+import { ImpersonationBanner } from "./components/impersonation/ImpersonationBanner";
 
 function App() {
-  return <AppRouter />;
+  return (
+    <>
+      <ImpersonationBanner />
+      <AppRouter />
+    </>
+  );
 }
 
 export default App;
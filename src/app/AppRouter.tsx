@@ -40,6 +40,8 @@ import { ProfilePage } from "../pages/ProfilePage";
 import { RemittancesPage } from "../pages/RemittancesPage";
 import { SupportPage } from "../pages/SupportPage";
 import { AdminSupportInboxPage } from "../pages/AdminSupportInboxPage";
+import { CustomerWarrantyPage } from "../pages/CustomerWarrantyPage";
+import { VerifyContractPage } from "../pages/VerifyContractPage";
 
 // --- New V2 stub pages ---
 import AdminOverviewPage from "../pages/admin/AdminOverviewPage";
@@ -51,6 +53,7 @@ import ProviderOverviewPage from "../pages/provider/ProviderOverviewPage";
 import ProviderProductsPage2 from "../pages/provider/ProviderProductsPage2";
 import ProviderProductEditorPage from "../pages/provider/ProviderProductEditorPage";
 import ProviderContractsPage2 from "../pages/provider/ProviderContractsPage2";
+import ProviderContractDetailPage2 from "../pages/provider/ProviderContractDetailPage2";
 import ProviderRemittancesPage2 from "../pages/provider/ProviderRemittancesPage2";
 import ProviderAnalyticsPage from "../pages/provider/ProviderAnalyticsPage";
 import ProviderSettingsPage from "../pages/provider/ProviderSettingsPage";
@@ -141,9 +144,11 @@ export function AppRouter() {
             <Route path="dealer-marketplace" element={<Navigate to="/dealership/find-products" replace />} />
             <Route path="dealer-marketplace/compare" element={<Navigate to="/dealership/compare" replace />} />
             <Route path="dealer-marketplace/products/:id" element={<Navigate to="/dealership/find-products" replace />} />
-            <Route path="dealer-contracts" element={<DealerContractsPage />} />
-            <Route path="dealer-contracts/:id" element={<DealerContractDetailPage />} />
-            <Route path="dealer-contracts/:id/print/:copyType" element={<DealerContractPrintPage />} />
+            <Route element={<ProtectedRoute requiredPermissions={["contracts.view"]} />}>
+              <Route path="dealer-contracts" element={<DealerContractsPage />} />
+              <Route path="dealer-contracts/:id" element={<DealerContractDetailPage />} />
+              <Route path="dealer-contracts/:id/print/:copyType" element={<DealerContractPrintPage />} />
+            </Route>
           </Route>
 
           <Route element={<ProtectedRoute allowedRoles={["DEALER_ADMIN"]} />}>
@@ -243,7 +248,7 @@ export function AppRouter() {
       <Route
         path="/provider/products/new"
         element={
-          <ProtectedRouteV2 allowedRoles={["provider"]}>
+          <ProtectedRouteV2 allowedRoles={["provider"]} requiredPermissions={["products.manage"]}>
             <ProviderProductEditorPage />
           </ProtectedRouteV2>
         }
@@ -251,7 +256,7 @@ export function AppRouter() {
       <Route
         path="/provider/products/:id"
         element={
-          <ProtectedRouteV2 allowedRoles={["provider"]}>
+          <ProtectedRouteV2 allowedRoles={["provider"]} requiredPermissions={["products.manage"]}>
             <ProviderProductEditorPage />
           </ProtectedRouteV2>
         }
@@ -259,15 +264,23 @@ export function AppRouter() {
       <Route
         path="/provider/contracts"
         element={
-          <ProtectedRouteV2 allowedRoles={["provider"]}>
+          <ProtectedRouteV2 allowedRoles={["provider"]} requiredPermissions={["contracts.view"]}>
             <ProviderContractsPage2 />
           </ProtectedRouteV2>
         }
       />
+      <Route
+        path="/provider/contracts/:id"
+        element={
+          <ProtectedRouteV2 allowedRoles={["provider"]} requiredPermissions={["contracts.view"]}>
+            <ProviderContractDetailPage2 />
+          </ProtectedRouteV2>
+        }
+      />
       <Route
         path="/provider/remittances"
         element={
-          <ProtectedRouteV2 allowedRoles={["provider"]}>
+          <ProtectedRouteV2 allowedRoles={["provider"]} requiredPermissions={["remittances.view"]}>
             <ProviderRemittancesPage2 />
           </ProtectedRouteV2>
         }
@@ -275,7 +288,7 @@ export function AppRouter() {
       <Route
         path="/provider/analytics"
         element={
-          <ProtectedRouteV2 allowedRoles={["provider"]}>
+          <ProtectedRouteV2 allowedRoles={["provider"]} requiredPermissions={["reports.view"]}>
             <ProviderAnalyticsPage />
           </ProtectedRouteV2>
         }
@@ -309,7 +322,7 @@ export function AppRouter() {
       <Route
         path="/dealership/contracts"
         element={
-          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]}>
+          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]} requiredPermissions={["contracts.view"]}>
             <DealershipContractsPage />
           </ProtectedRouteV2>
         }
@@ -317,7 +330,7 @@ export function AppRouter() {
       <Route
         path="/dealership/contracts/new"
         element={
-          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]}>
+          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]} requiredPermissions={["contracts.create"]}>
             <NewContractPage />
           </ProtectedRouteV2>
         }
@@ -325,7 +338,7 @@ export function AppRouter() {
       <Route
         path="/dealership/contracts/:id"
         element={
-          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]}>
+          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]} requiredPermissions={["contracts.view"]}>
             <ContractDetailPage />
           </ProtectedRouteV2>
         }
@@ -357,7 +370,7 @@ export function AppRouter() {
       <Route
         path="/dealership/remittances"
         element={
-          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]}>
+          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]} requiredPermissions={["remittances.view"]}>
             <DealershipRemittancesPage />
           </ProtectedRouteV2>
         }
@@ -365,7 +378,7 @@ export function AppRouter() {
       <Route
         path="/dealership/reporting"
         element={
-          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]}>
+          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]} requiredPermissions={["reports.view"]}>
             <DealershipReportingPage />
           </ProtectedRouteV2>
         }
@@ -389,7 +402,7 @@ export function AppRouter() {
       <Route
         path="/dealership/settings/team"
         element={
-          <ProtectedRouteV2 allowedRoles={["dealership_admin"]}>
+          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]} requiredPermissions={["team.manage"]}>
             <DealershipTeamManagementPage />
           </ProtectedRouteV2>
         }
@@ -397,7 +410,7 @@ export function AppRouter() {
       <Route
         path="/dealership/settings/configuration"
         element={
-          <ProtectedRouteV2 allowedRoles={["dealership_admin"]}>
+          <ProtectedRouteV2 allowedRoles={["dealership_admin", "dealership_employee"]} requiredPermissions={["pricing.manage"]}>
             <DealershipConfigurationPage />
           </ProtectedRouteV2>
         }
@@ -411,6 +424,10 @@ export function AppRouter() {
       <Route path="/brochure/tire-rim" element={<BrochureTireRimPage />} />
       <Route path="/brochure/:productId" element={<BrochureProductDetailPage />} />
 
+      {/* ===== Public customer portal ===== */}
+      <Route path="/my-warranty" element={<CustomerWarrantyPage />} />
+      <Route path="/verify" element={<VerifyContractPage />} />
+
       {/* Catch-all */}
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
@@ -0,0 +1,37 @@
+import { CheckCircle2, HelpCircle, XCircle } from "lucide-react";
+
+import type { EligibilityCheckStatus, EligibilityResult } from "../lib/products/eligibility";
+import { cn } from "../lib/utils";
+
+const STATUS_ICONS: Record<EligibilityCheckStatus, typeof CheckCircle2> = {
+  pass: CheckCircle2,
+  fail: XCircle,
+  unknown: HelpCircle,
+};
+
+const STATUS_CLASSES: Record<EligibilityCheckStatus, string> = {
+  pass: "text-emerald-700",
+  fail: "text-destructive",
+  unknown: "text-muted-foreground",
+};
+
+// Renders the engine's checks the same way on every screen: failures first, then unchecked rules, then passes.
+export function EligibilityChecks(props: { result: EligibilityResult; showPassed?: boolean; className?: string }) {
+  const order: EligibilityCheckStatus[] = props.showPassed ? ["fail", "unknown", "pass"] : ["fail", "unknown"];
+  const checks = order.flatMap((status) => props.result.checks.filter((c) => c.status === status));
+  if (checks.length === 0) return null;
+
+  return (
+    <ul className={cn("space-y-1", props.className)}>
+      {checks.map((check) => {
+        const Icon = STATUS_ICONS[check.status];
+        return (
+          <li key={`${check.rule}-${check.status}`} className={cn("flex items-start gap-1.5 text-xs", STATUS_CLASSES[check.status])}>
+            <Icon className="w-3.5 h-3.5 shrink-0 mt-px" />
+            <span>{check.message}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
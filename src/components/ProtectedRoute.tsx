@@ -1,6 +1,8 @@
 import { Navigate, Outlet } from "react-router-dom";
 
 import type { Role } from "../lib/auth/types";
+import { hasAllPermissions } from "../lib/permissions/catalog";
+import type { Permission } from "../lib/permissions/types";
 import { useAuth } from "../providers/AuthProvider";
 
 function roleToDashboardPath(role: string): string {
@@ -11,7 +13,7 @@ function roleToDashboardPath(role: string): string {
   return "/";
 }
 
-export function ProtectedRoute({ allowedRoles }: { allowedRoles?: Role[] }) {
+export function ProtectedRoute({ allowedRoles, requiredPermissions }: { allowedRoles?: Role[]; requiredPermissions?: Permission[] }) {
   const { user, isLoading } = useAuth();
 
   if (isLoading && !user) {
@@ -28,5 +30,9 @@ export function ProtectedRoute({ allowedRoles }: { allowedRoles?: Role[] }) {
     return <Navigate to={roleToDashboardPath(user.role)} replace />;
   }
 
+  if (requiredPermissions && !hasAllPermissions(user, requiredPermissions)) {
+    return <Navigate to={roleToDashboardPath(user.role)} replace />;
+  }
+
   return <Outlet />;
 }
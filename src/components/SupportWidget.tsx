@@ -5,8 +5,19 @@ import { MessageCircle } from "lucide-react";
 
 import { Button } from "./ui/button";
 import { SupportFaqs } from "./SupportFaqs";
+import { SupportAttachmentList } from "./support/SupportAttachmentList";
+import { SupportAttachmentPicker } from "./support/SupportAttachmentPicker";
+import { SupportReferenceCard } from "./support/SupportReferenceCard";
+import { SupportReferencePicker } from "./support/SupportReferencePicker";
 import { getAppMode } from "../lib/runtime";
 import { getSupabaseClient } from "../lib/supabase/client";
+import {
+  assertSupportAttachments,
+  groupSupportAttachments,
+  listSupportAttachments,
+  uploadSupportAttachments,
+} from "../lib/support/attachments";
+import { toSupportReference, type SupportReference } from "../lib/support/references";
 import { useAuth } from "../providers/AuthProvider";
 
 type ConversationStatus = "OPEN" | "PENDING" | "CLOSED";
@@ -29,6 +40,8 @@ type MessageRow = {
   sender_user_id: string;
   sender_type: "USER" | "ADMIN";
   body: string;
+  ref_type?: string | null;
+  ref_id?: string | null;
   created_at: string;
 };
 
@@ -58,6 +71,8 @@ export function SupportWidget() {
   const [open, setOpen] = useState(false);
   const [tab, setTab] = useState<"chat" | "faqs">("chat");
   const [draft, setDraft] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [reference, setReference] = useState<SupportReference | null>(null);
 
   const canUseSupport =
     user?.role === "DEALER_ADMIN" ||
@@ -75,6 +90,8 @@ export function SupportWidget() {
     location.pathname.startsWith("/provider/") ||
     location.pathname.startsWith("/admin/");
 
+  const canLinkRecords = user?.role === "DEALER_ADMIN" || user?.role === "DEALER_EMPLOYEE";
+
   const shouldRender = Boolean(userId) && canUseSupport && isDashboardPath;
   const supabaseEnabled = shouldRender && open && mode === "supabase";
 
@@ -119,7 +136,7 @@ export function SupportWidget() {
 
       const { data, error } = await supabase
         .from("support_messages")
-        .select("id, conversation_id, sender_user_id, sender_type, body, created_at")
+        .select("id, conversation_id, sender_user_id, sender_type, body, ref_type, ref_id, created_at")
         .eq("conversation_id", conversationId)
         .order("created_at", { ascending: true });
 
@@ -128,13 +145,22 @@ export function SupportWidget() {
     },
   });
 
+  const attachmentsQuery = useQuery({
+    queryKey: ["support-widget-attachments", mode, conversationId],
+    enabled: supabaseEnabled && Boolean(conversationId),
+    queryFn: () => listSupportAttachments(conversationId),
+  });
+
+  const attachmentsByMessage = useMemo(() => groupSupportAttachments(attachmentsQuery.data ?? []), [attachmentsQuery.data]);
+
   const sendMutation = useMutation({
     mutationFn: async () => {
       if (mode !== "supabase") throw new Error("Support chat requires Supabase configuration");
       if (!userId) throw new Error("You must be signed in to send support messages");
 
       const text = draft.trim();
-      if (!text) throw new Error("Message is required");
+      if (!text && files.length === 0 && !reference) throw new Error("Message is required");
+      assertSupportAttachments(files);
 
       const supabase = getSupabaseClient();
       if (!supabase) throw new Error("Supabase is not configured");
@@ -179,15 +205,28 @@ export function SupportWidget() {
         }
       }
 
-      const insertMsg = await supabase.from("support_messages").insert({
-        conversation_id: convId,
-        sender_user_id: userId,
-        sender_type: "USER",
-        body: text,
-      });
+      const insertMsg = await supabase
+        .from("support_messages")
+        .insert({
+          conversation_id: convId,
+          sender_user_id: userId,
+          sender_type: "USER",
+          body: text,
+          ref_type: reference?.type ?? null,
+          ref_id: reference?.id ?? null,
+        })
+        .select("id")
+        .single();
 
       if (insertMsg.error) throw insertMsg.error;
 
+      await uploadSupportAttachments({
+        conversationId: convId,
+        messageId: (insertMsg.data as any).id as string,
+        userId,
+        files,
+      });
+
       const now = new Date().toISOString();
       const bump = await supabase
         .from("support_conversations")
@@ -207,7 +246,10 @@ export function SupportWidget() {
     },
     onSuccess: async () => {
       setDraft("");
+      setFiles([]);
+      setReference(null);
       await qc.invalidateQueries({ queryKey: ["support-widget-messages", mode] });
+      await qc.invalidateQueries({ queryKey: ["support-widget-attachments", mode] });
       await qc.invalidateQueries({ queryKey: ["support-widget-conversation", mode, userId] });
     },
   });
@@ -312,6 +354,7 @@ export function SupportWidget() {
                 <div className="space-y-2 pr-1 mt-4">
                   {(messagesQuery.data ?? []).map((m) => {
                     const mine = m.sender_type === "USER";
+                    const ref = toSupportReference(m.ref_type, m.ref_id);
                     return (
                       <div key={m.id} className={mine ? "flex justify-end" : "flex justify-start"}>
                         <div
@@ -324,7 +367,9 @@ export function SupportWidget() {
                           <div className={mine ? "text-white/80 text-[11px]" : "text-muted-foreground text-[11px]"}>
                             {mine ? "You" : "Support"} • {new Date(m.created_at).toLocaleTimeString()}
                           </div>
-                          <div className="mt-1 whitespace-pre-wrap break-words text-sm">{m.body}</div>
+                          {m.body ? <div className="mt-1 whitespace-pre-wrap break-words text-sm">{m.body}</div> : null}
+                          {ref ? <SupportReferenceCard reference={ref} audience="dealer" /> : null}
+                          <SupportAttachmentList attachments={attachmentsByMessage.get(m.id) ?? []} inverted={mine} />
                         </div>
                       </div>
                     );
@@ -362,6 +407,15 @@ export function SupportWidget() {
                   placeholder="Type your message…"
                   disabled={busy || mode !== "supabase"}
                 />
+                {canLinkRecords ? (
+                  <SupportReferencePicker
+                    value={reference}
+                    onChange={setReference}
+                    disabled={busy || mode !== "supabase"}
+                    enabled={supabaseEnabled}
+                  />
+                ) : null}
+                <SupportAttachmentPicker files={files} onChange={setFiles} disabled={busy || mode !== "supabase"} />
                 <div className="flex items-center justify-between">
                   <div className="text-xs text-muted-foreground">We typically reply within 1 business day.</div>
                   <Button
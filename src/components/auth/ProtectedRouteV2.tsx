@@ -1,6 +1,8 @@
 import { Navigate } from "react-router-dom";
 
 import type { Role } from "../../lib/auth/types";
+import { hasAllPermissions } from "../../lib/permissions/catalog";
+import type { Permission } from "../../lib/permissions/types";
 import { useAuth } from "../../providers/AuthProvider";
 
 type AppRoleCompat = Role | "super_admin" | "dealership_admin" | "dealership_employee" | "provider";
@@ -34,9 +36,11 @@ function roleToDashboardPath(role: string): string {
 
 export function ProtectedRouteV2({
   allowedRoles,
+  requiredPermissions,
   children,
 }: {
   allowedRoles?: string[];
+  requiredPermissions?: Permission[];
   children: React.ReactNode;
 }) {
   const { user, isLoading } = useAuth();
@@ -55,5 +59,9 @@ export function ProtectedRouteV2({
     return <Navigate to={roleToDashboardPath(user.role)} replace />;
   }
 
+  if (requiredPermissions && !hasAllPermissions(user, requiredPermissions)) {
+    return <Navigate to={roleToDashboardPath(user.role)} replace />;
+  }
+
   return <>{children}</>;
 }
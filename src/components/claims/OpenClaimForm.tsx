@@ -0,0 +1,223 @@
+import { useState } from "react";
+
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { claimLineCoverage } from "../../lib/claims/adjudication";
+import type { ClaimLineCoverage, CreateClaimLineInput } from "../../lib/claims/types";
+import type { CoverageItem } from "../../lib/products/types";
+import { alertMissing, sanitizeDigitsOnly, sanitizeMoney } from "../../lib/utils";
+
+export type OpenClaimDraft = {
+  lossDate: string;
+  odometerKm: number;
+  complaint: string;
+  vehicleValueCents?: number;
+  lines: CreateClaimLineInput[];
+};
+
+type LineDraft = {
+  key: string;
+  description: string;
+  coverageItemId: string;
+  parts: string;
+  labor: string;
+};
+
+const COVERAGE_LABELS: Record<ClaimLineCoverage, string> = {
+  included: "Covered",
+  not_included: "Not covered",
+  term_specific: "Term specific",
+  unlisted: "Not on coverage list",
+};
+
+const COVERAGE_CLASSES: Record<ClaimLineCoverage, string> = {
+  included: "bg-emerald-100 text-emerald-700",
+  not_included: "bg-red-100 text-red-700",
+  term_specific: "bg-amber-100 text-amber-700",
+  unlisted: "bg-slate-100 text-slate-700",
+};
+
+function moneyToCents(raw: string) {
+  const cleaned = raw.trim();
+  if (!cleaned) return 0;
+  const n = Number(cleaned);
+  if (!Number.isFinite(n) || n < 0) return null;
+  return Math.round(n * 100);
+}
+
+function emptyLine(): LineDraft {
+  return { key: crypto.randomUUID(), description: "", coverageItemId: "", parts: "", labor: "" };
+}
+
+export function ClaimCoverageBadge({ coverage }: { coverage: ClaimLineCoverage }) {
+  return (
+    <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${COVERAGE_CLASSES[coverage]}`}>
+      {COVERAGE_LABELS[coverage]}
+    </span>
+  );
+}
+
+export function OpenClaimForm({
+  coverageItems,
+  minOdometerKm,
+  minLossDate,
+  askVehicleValue,
+  isSubmitting,
+  onSubmit,
+}: {
+  coverageItems: CoverageItem[];
+  minOdometerKm?: number;
+  minLossDate?: string;
+  askVehicleValue?: boolean;
+  isSubmitting?: boolean;
+  onSubmit: (draft: OpenClaimDraft) => Promise<void>;
+}) {
+  const [lossDate, setLossDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [odometerKm, setOdometerKm] = useState("");
+  const [complaint, setComplaint] = useState("");
+  const [vehicleValue, setVehicleValue] = useState("");
+  const [lines, setLines] = useState<LineDraft[]>(() => [emptyLine()]);
+
+  const updateLine = (key: string, patch: Partial<LineDraft>) => {
+    setLines((prev) => prev.map((l) => (l.key === key ? { ...l, ...patch } : l)));
+  };
+
+  const submit = async () => {
+    const odo = Number(odometerKm);
+    if (!odometerKm.trim() || !Number.isFinite(odo)) return alertMissing("Enter the odometer reading at the time of loss.");
+    if (typeof minOdometerKm === "number" && odo < minOdometerKm) {
+      return alertMissing("Odometer at loss cannot be lower than at sale.");
+    }
+    if (minLossDate && lossDate < minLossDate) return alertMissing("Loss date cannot be before the contract was sold.");
+    if (!complaint.trim()) return alertMissing("Describe the customer complaint.");
+
+    const vehicleValueCents = askVehicleValue ? moneyToCents(vehicleValue) : undefined;
+    if (askVehicleValue && !vehicleValueCents) return alertMissing("Enter the vehicle's fair market value.");
+
+    const parsed: CreateClaimLineInput[] = [];
+    for (const l of lines) {
+      if (!l.description.trim() && !l.parts.trim() && !l.labor.trim()) continue;
+      const partsCents = moneyToCents(l.parts);
+      const laborCents = moneyToCents(l.labor);
+      if (!l.description.trim()) return alertMissing("Each repair line needs a description.");
+      if (partsCents === null || laborCents === null || partsCents + laborCents <= 0) {
+        return alertMissing(`Enter parts and/or labour for "${l.description.trim()}".`);
+      }
+      const item = coverageItems.find((i) => i.id === l.coverageItemId);
+      parsed.push({
+        description: l.description.trim(),
+        coverageItemId: item?.id,
+        coverageItemName: item?.name,
+        coverage: claimLineCoverage(coverageItems, item?.id),
+        partsCents,
+        laborCents,
+      });
+    }
+    if (parsed.length === 0) return alertMissing("Add at least one repair line.");
+
+    try {
+      await onSubmit({
+        lossDate,
+        odometerKm: odo,
+        complaint: complaint.trim(),
+        vehicleValueCents: vehicleValueCents ?? undefined,
+        lines: parsed,
+      });
+    } catch {
+      // The caller reports the error; keep the draft so it can be retried.
+      return;
+    }
+
+    setOdometerKm("");
+    setComplaint("");
+    setVehicleValue("");
+    setLines([emptyLine()]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <Input type="date" value={lossDate} onChange={(e) => setLossDate(e.target.value)} />
+        <Input
+          value={odometerKm}
+          onChange={(e) => setOdometerKm(sanitizeDigitsOnly(e.target.value))}
+          placeholder="Odometer at loss (km)"
+          inputMode="numeric"
+        />
+        {askVehicleValue ? (
+          <Input
+            value={vehicleValue}
+            onChange={(e) => setVehicleValue(sanitizeMoney(e.target.value))}
+            placeholder="Vehicle fair market value ($)"
+            inputMode="decimal"
+          />
+        ) : null}
+      </div>
+      <Input value={complaint} onChange={(e) => setComplaint(e.target.value)} placeholder="Customer complaint / cause of failure" />
+
+      <div className="space-y-2">
+        {lines.map((l) => {
+          const coverage = claimLineCoverage(coverageItems, l.coverageItemId);
+          return (
+            <div key={l.key} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center">
+              <Input
+                className="md:col-span-3"
+                value={l.description}
+                onChange={(e) => updateLine(l.key, { description: e.target.value })}
+                placeholder="Repair description"
+              />
+              <select
+                className="md:col-span-3 w-full rounded-xl border bg-background px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-600/20"
+                value={l.coverageItemId}
+                onChange={(e) => updateLine(l.key, { coverageItemId: e.target.value })}
+              >
+                <option value="">Component…</option>
+                {coverageItems.map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.name}
+                  </option>
+                ))}
+              </select>
+              <Input
+                className="md:col-span-2"
+                value={l.parts}
+                onChange={(e) => updateLine(l.key, { parts: sanitizeMoney(e.target.value) })}
+                placeholder="Parts ($)"
+                inputMode="decimal"
+              />
+              <Input
+                className="md:col-span-2"
+                value={l.labor}
+                onChange={(e) => updateLine(l.key, { labor: sanitizeMoney(e.target.value) })}
+                placeholder="Labour ($)"
+                inputMode="decimal"
+              />
+              <div className="md:col-span-2 flex items-center justify-end gap-2">
+                <ClaimCoverageBadge coverage={coverage} />
+                {lines.length > 1 ? (
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground hover:text-foreground"
+                    onClick={() => setLines((prev) => prev.filter((x) => x.key !== l.key))}
+                    aria-label="Remove repair line"
+                  >
+                    ✕
+                  </button>
+                ) : null}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={() => setLines((prev) => [...prev, emptyLine()])}>
+          Add repair line
+        </Button>
+        <Button size="sm" onClick={() => void submit()} disabled={isSubmitting}>
+          Open claim
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import type { ReactNode } from "react";
 
+import type { ContractSignature } from "../../lib/signatures/types";
+
 type CustomerInfo = {
   firstName?: string;
   lastName?: string;
@@ -60,6 +62,12 @@ export type BridgeWarrantyApplicationContractProps = {
   coverage: CoverageInfo;
   termsSections?: Array<{ title: string; content: string }>;
   exclusions?: string[];
+  // On-screen signatures captured for this contract, printed in place of the wet-ink lines.
+  signatures?: {
+    customer?: ContractSignature;
+    dealer?: ContractSignature;
+    contentHash: string;
+  };
 };
 
 function value(text?: string | number | null): string {
@@ -225,17 +233,42 @@ export function BridgeWarrantyApplicationContract(props: BridgeWarrantyApplicati
                 <span>SELLING DEALER:</span>
                 <span className="min-w-[150px] border-b border-slate-800 px-2 pb-0.5 font-semibold">{value(props.dealer.name)}</span>
               </div>
+              {props.signatures?.dealer ? (
+                <div className="mt-2 flex items-end gap-2">
+                  <span>DEALER SIGNATURE:</span>
+                  <span className="inline-block w-36 border-b border-slate-800">
+                    <img src={props.signatures.dealer.imageDataUrl} alt="" className="h-8 w-auto max-w-full object-contain" />
+                  </span>
+                </div>
+              ) : null}
             </div>
             <div className="text-right">
               <div>EXPIRY DATE: <span className="font-semibold">{value(props.expiryDate)}</span></div>
               <div className="mt-3 flex items-end justify-end gap-2">
                 <span>APPLICANT:</span>
-                <span className="inline-block w-36 border-b border-slate-800">&nbsp;</span>
+                <span className="inline-block w-36 border-b border-slate-800">
+                  {props.signatures?.customer ? (
+                    <img src={props.signatures.customer.imageDataUrl} alt="" className="ml-auto h-8 w-auto max-w-full object-contain" />
+                  ) : (
+                    <>&nbsp;</>
+                  )}
+                </span>
               </div>
               <div className="mt-1 text-[7px]">Print Name: {value(customerName)}</div>
             </div>
           </div>
 
+          {props.signatures?.customer || props.signatures?.dealer ? (
+            <div className="mt-2 text-[7px] text-slate-700">
+              Signed electronically by{" "}
+              {[props.signatures.customer, props.signatures.dealer]
+                .filter((s): s is ContractSignature => Boolean(s))
+                .map((s) => `${s.signerName} (${new Date(s.signedAt).toLocaleString()})`)
+                .join(" and ")}
+              . Content hash (SHA-256): <span className="font-mono break-all">{props.signatures.contentHash}</span>
+            </div>
+          ) : null}
+
           <div className="mt-2 text-[7px] text-slate-700">
             This application is issued through {props.brandName}. Product obligations, claims decisions, and benefit payments remain subject to the provider terms and conditions.
           </div>
@@ -0,0 +1,43 @@
+import { contractFieldLabel, formatContractFieldValue, isPricingField } from "../../lib/contractHistory/diff";
+import type { ContractChange } from "../../lib/contractHistory/types";
+
+// Newest first; each entry is one saved edit with every field it touched.
+export function ContractHistoryList({ changes, isLoading }: { changes: ContractChange[]; isLoading?: boolean }) {
+  if (isLoading) return <div className="text-sm text-muted-foreground">Loading history…</div>;
+  if (changes.length === 0) return <div className="text-sm text-muted-foreground">No edits have been recorded for this contract.</div>;
+
+  return (
+    <div className="divide-y rounded-xl border">
+      {changes.map((c) => (
+        <div key={c.id} className="p-4">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <div className="text-sm font-medium">{c.actorEmail ?? c.actorUserId ?? "System"}</div>
+            <div className="text-xs text-muted-foreground">{new Date(c.changedAt).toLocaleString()}</div>
+          </div>
+          {c.reason ? <div className="text-xs mt-1">Reason: {c.reason}</div> : null}
+          <table className="w-full text-xs mt-3">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-1 pr-3 font-medium">Field</th>
+                <th className="py-1 pr-3 font-medium">Before</th>
+                <th className="py-1 font-medium">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {c.changes.map((f) => (
+                <tr key={f.field} className="align-top">
+                  <td className="py-1 pr-3">
+                    {contractFieldLabel(f.field)}
+                    {isPricingField(f.field) ? <span className="ml-1.5 text-[10px] font-semibold uppercase text-amber-700">Pricing</span> : null}
+                  </td>
+                  <td className="py-1 pr-3 text-muted-foreground line-through decoration-slate-300 break-all">{formatContractFieldValue(f.field, f.before)}</td>
+                  <td className="py-1 break-all">{formatContractFieldValue(f.field, f.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
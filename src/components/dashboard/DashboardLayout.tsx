@@ -17,6 +17,8 @@ import {
   BarChart3,
   UserCircle,
 } from "lucide-react";
+import { hasAllPermissions } from "../../lib/permissions/catalog";
+import type { Permission } from "../../lib/permissions/types";
 import { cn } from "../../lib/utils";
 import { Button } from "../ui/button";
 import { SupportWidget } from "../SupportWidget";
@@ -27,6 +29,7 @@ export interface NavItem {
   icon: React.ElementType;
   children?: NavItem[];
   allowedRoles?: string[];
+  requiredPermissions?: Permission[];
 }
 
 interface DashboardLayoutProps {
@@ -51,13 +54,15 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children, navItems, t
     };
     return allowedRoles.some((allowed) => role === allowed || aliases[allowed]?.includes(role));
   };
+  const canSee = (item: NavItem) =>
+    roleMatches(item.allowedRoles) && (!item.requiredPermissions || hasAllPermissions(user, item.requiredPermissions));
   const visibleNavItems = navItems
-    .filter((item) => roleMatches(item.allowedRoles))
+    .filter(canSee)
     .map((item) => {
       if (!item.children) return item;
       return {
         ...item,
-        children: item.children.filter((child) => roleMatches(child.allowedRoles)),
+        children: item.children.filter(canSee),
       };
     })
     .filter((item) => !item.children || item.children.length > 0);
@@ -258,18 +263,17 @@ export const adminNavItems: NavItem[] = [
 export const dealershipNavItems: NavItem[] = [
   { label: "Dashboard", href: "/dealership/overview", icon: LayoutDashboard },
   { label: "Find Products", href: "/dealership/find-products", icon: Package },
-  { label: "Contracts", href: "/dealership/contracts", icon: FileText },
-  { label: "Remittances", href: "/dealership/remittances", icon: DollarSign },
-  { label: "Reporting", href: "/dealership/reporting", icon: BarChart3 },
+  { label: "Contracts", href: "/dealership/contracts", icon: FileText, requiredPermissions: ["contracts.view"] },
+  { label: "Remittances", href: "/dealership/remittances", icon: DollarSign, requiredPermissions: ["remittances.view"] },
+  { label: "Reporting", href: "/dealership/reporting", icon: BarChart3, requiredPermissions: ["reports.view"] },
   { label: "Profile", href: "/dealership/profile", icon: UserCircle },
   {
     label: "Settings",
     href: "#",
     icon: Settings,
-    allowedRoles: ["dealership_admin"],
     children: [
-      { label: "Configuration", href: "/dealership/settings/configuration", icon: Settings },
-      { label: "Team", href: "/dealership/settings/team", icon: Users },
+      { label: "Configuration", href: "/dealership/settings/configuration", icon: Settings, requiredPermissions: ["pricing.manage"] },
+      { label: "Team", href: "/dealership/settings/team", icon: Users, requiredPermissions: ["team.manage"] },
     ],
   },
 ];
@@ -277,8 +281,8 @@ export const dealershipNavItems: NavItem[] = [
 export const providerNavItems: NavItem[] = [
   { label: "Overview", href: "/provider/overview", icon: LayoutDashboard },
   { label: "Products", href: "/provider/products", icon: Package },
-  { label: "Contracts", href: "/provider/contracts", icon: FileText },
-  { label: "Remittances", href: "/provider/remittances", icon: DollarSign },
-  { label: "Analytics", href: "/provider/analytics", icon: BarChart3 },
+  { label: "Contracts", href: "/provider/contracts", icon: FileText, requiredPermissions: ["contracts.view"] },
+  { label: "Remittances", href: "/provider/remittances", icon: DollarSign, requiredPermissions: ["remittances.view"] },
+  { label: "Analytics", href: "/provider/analytics", icon: BarChart3, requiredPermissions: ["reports.view"] },
   { label: "Settings", href: "/provider/settings", icon: Settings },
 ];
@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Eye } from "lucide-react";
+
+import { Button } from "../ui/button";
+import { useAuth } from "../../providers/AuthProvider";
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Shown on every page while an admin is viewing the portal as another user.
+export function ImpersonationBanner() {
+  const { impersonation, realUser, stopImpersonation } = useAuth();
+  const navigate = useNavigate();
+  const [now, setNow] = useState(() => Date.now());
+  const [stopping, setStopping] = useState(false);
+
+  useEffect(() => {
+    if (!impersonation) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [impersonation]);
+
+  if (!impersonation) return null;
+
+  const remaining = new Date(impersonation.expiresAt).getTime() - now;
+
+  const stop = async () => {
+    setStopping(true);
+    try {
+      await stopImpersonation();
+      navigate("/admin-users");
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  return (
+    <div role="status" className="sticky top-0 z-[60] border-b border-amber-300 bg-amber-100 text-amber-950 dark:bg-amber-950 dark:text-amber-100">
+      <div className="mx-auto flex max-w-7xl flex-wrap items-center justify-between gap-3 px-4 py-2 text-sm">
+        <div className="flex items-center gap-2 min-w-0">
+          <Eye className="h-4 w-4 shrink-0" />
+          <span className="truncate">
+            Viewing as <strong>{impersonation.targetEmail ?? impersonation.targetUserId}</strong> — read-only
+            {realUser?.email ? <span className="opacity-75"> • signed in as {realUser.email}</span> : null}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="tabular-nums text-xs">Ends in {formatRemaining(remaining)}</span>
+          <Button size="sm" variant="outline" className="h-7 bg-background" disabled={stopping} onClick={() => void stop()}>
+            {stopping ? "Stopping…" : "Stop viewing"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Eye } from "lucide-react";
+
+import { Button } from "../ui/button";
+import type { Role } from "../../lib/auth/types";
+import { DEFAULT_IMPERSONATION_MINUTES } from "../../lib/impersonation/session";
+import { alertMissing } from "../../lib/utils";
+import { useAuth } from "../../providers/AuthProvider";
+
+function portalPath(role: Role) {
+  return role === "PROVIDER" ? "/provider/overview" : "/dealership/overview";
+}
+
+// Starts a read-only "view as" session for a dealer or provider user.
+export function ViewAsButton({ userId, email, disabled }: { userId: string; email?: string; disabled?: boolean }) {
+  const { startImpersonation } = useAuth();
+  const navigate = useNavigate();
+  const [busy, setBusy] = useState(false);
+
+  const start = async () => {
+    const reason = window.prompt(
+      `Why are you viewing as ${email ?? "this user"}? The session is read-only, ends after ${DEFAULT_IMPERSONATION_MINUTES} minutes and is recorded in the audit log.`,
+    );
+    if (reason === null) return;
+
+    setBusy(true);
+    try {
+      const viewed = await startImpersonation({ targetUserId: userId, reason });
+      navigate(portalPath(viewed.role));
+    } catch (err) {
+      alertMissing(err instanceof Error ? err.message : "Failed to start view-as session", "View as");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Button type="button" variant="ghost" size="sm" className="h-7 gap-1 text-xs" disabled={disabled || busy} onClick={() => void start()}>
+      <Eye className="h-3.5 w-3.5" />
+      {busy ? "Starting…" : "View as"}
+    </Button>
+  );
+}
@@ -0,0 +1,142 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle } from "lucide-react";
+
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { OnboardingStatusBadge } from "./OnboardingStatusBadge";
+import { onboardingProgress } from "../../lib/onboarding/checklist";
+import { getOnboardingApi } from "../../lib/onboarding/onboarding";
+import type { OnboardingItemKey } from "../../lib/onboarding/types";
+import { getAppMode } from "../../lib/runtime";
+
+type RowDraft = { value?: string; file?: File | null };
+
+// Dealer-facing checklist: upload each verification item and follow its review.
+export function OnboardingChecklist({
+  province,
+  initialValues,
+}: {
+  province?: string | null;
+  initialValues?: Partial<Record<OnboardingItemKey, string>>;
+}) {
+  const mode = useMemo(() => getAppMode(), []);
+  const api = useMemo(() => getOnboardingApi(), []);
+  const qc = useQueryClient();
+  const [drafts, setDrafts] = useState<Partial<Record<OnboardingItemKey, RowDraft>>>({});
+  const [errorByKey, setErrorByKey] = useState<Partial<Record<OnboardingItemKey, string>>>({});
+
+  const itemsQuery = useQuery({
+    queryKey: ["onboarding-items", "mine", mode],
+    queryFn: () => api.listMine(),
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async (key: OnboardingItemKey) => {
+      const draft = drafts[key] ?? {};
+      const item = progress.rows.find((r) => r.definition.key === key)?.item;
+      return api.submit({ key, value: draft.value ?? item?.value ?? initialValues?.[key] ?? "", file: draft.file ?? null });
+    },
+    onMutate: (key) => setErrorByKey((prev) => ({ ...prev, [key]: undefined })),
+    onError: (err, key) => setErrorByKey((prev) => ({ ...prev, [key]: err instanceof Error ? err.message : "Upload failed" })),
+    onSuccess: async (_item, key) => {
+      setDrafts((prev) => ({ ...prev, [key]: undefined }));
+      await qc.invalidateQueries({ queryKey: ["onboarding-items"] });
+    },
+  });
+
+  const progress = onboardingProgress(itemsQuery.data ?? [], { province });
+  const percent = Math.round((progress.verified / progress.total) * 100);
+
+  return (
+    <div className="rounded-xl border bg-card p-5">
+      <div className="flex items-start justify-between gap-3 flex-wrap">
+        <div>
+          <div className="font-semibold">Dealer verification</div>
+          <div className="text-sm text-muted-foreground mt-1">
+            Upload these documents so our team can verify your dealership. Your account is activated once every item is verified.
+          </div>
+        </div>
+        <div className="text-sm font-medium tabular-nums">
+          {progress.verified} of {progress.total} verified
+        </div>
+      </div>
+
+      <div className="mt-3 h-2 rounded-full bg-muted overflow-hidden">
+        <div className="h-full bg-emerald-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+
+      {itemsQuery.isError ? <div className="mt-3 text-sm text-destructive">Failed to load your verification items.</div> : null}
+
+      {progress.licenceExpired ? (
+        <div className="mt-3 rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          Your dealer registration has expired. Upload your renewed certificate to restore access.
+        </div>
+      ) : null}
+
+      <div className="mt-4 divide-y rounded-lg border">
+        {progress.rows.map(({ definition, item, state, expiringSoon }) => {
+          const key = definition.key;
+          const draft = drafts[key] ?? {};
+          const canEdit = state !== "VERIFIED" || expiringSoon;
+          const busy = submitMutation.isPending && submitMutation.variables === key;
+          const fileOnly = !definition.valueLabel;
+          const needsFile = key !== "BUSINESS_NUMBER";
+
+          return (
+            <div key={key} className="px-4 py-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium flex items-center gap-2">
+                    {state === "VERIFIED" ? <CheckCircle className="h-4 w-4 text-emerald-600" /> : null}
+                    {definition.label}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-0.5">{definition.description}</div>
+                  {item?.value || item?.fileName ? (
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {[item.value, item.fileName].filter(Boolean).join(" • ")}
+                      {item.expiresOn ? ` • Expires ${item.expiresOn}` : ""}
+                    </div>
+                  ) : null}
+                  {expiringSoon ? <div className="text-xs text-amber-700 mt-1">Expires soon — upload the renewal when you have it.</div> : null}
+                  {state === "REJECTED" && item?.reviewNote ? (
+                    <div className="text-xs text-rose-700 mt-1">Reviewer note: {item.reviewNote}</div>
+                  ) : null}
+                </div>
+                <OnboardingStatusBadge state={state} />
+              </div>
+
+              {canEdit ? (
+                <div className="mt-3 grid grid-cols-1 sm:grid-cols-12 gap-2 items-center">
+                  {!fileOnly ? (
+                    <Input
+                      className={needsFile ? "sm:col-span-4" : "sm:col-span-9"}
+                      value={draft.value ?? item?.value ?? initialValues?.[key] ?? ""}
+                      onChange={(e) => setDrafts((prev) => ({ ...prev, [key]: { ...draft, value: e.target.value } }))}
+                      placeholder={definition.valueLabel}
+                      disabled={busy}
+                    />
+                  ) : null}
+                  {needsFile ? (
+                    <input
+                      type="file"
+                      accept=".pdf,.png,.jpg,.jpeg,.heic"
+                      className={(fileOnly ? "sm:col-span-9" : "sm:col-span-5") + " text-xs"}
+                      onChange={(e) => setDrafts((prev) => ({ ...prev, [key]: { ...draft, file: e.target.files?.[0] ?? null } }))}
+                      disabled={busy}
+                    />
+                  ) : null}
+                  <Button size="sm" className="sm:col-span-3" disabled={busy} onClick={() => submitMutation.mutate(key)}>
+                    {busy ? "Uploading…" : item ? "Resubmit" : "Submit"}
+                  </Button>
+                </div>
+              ) : null}
+
+              {errorByKey[key] ? <div className="mt-2 text-xs text-destructive">{errorByKey[key]}</div> : null}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { OnboardingStatusBadge } from "./OnboardingStatusBadge";
+import { onboardingProgress } from "../../lib/onboarding/checklist";
+import { getOnboardingApi } from "../../lib/onboarding/onboarding";
+import type { OnboardingItem, ReviewOnboardingItemInput } from "../../lib/onboarding/types";
+import { getAppMode } from "../../lib/runtime";
+
+type ReviewDraft = { expiresOn?: string; note?: string };
+
+// Admin view of an applicant's verification items with per-item verify / reject.
+export function OnboardingReviewPanel({
+  applicantUserId,
+  province,
+  reviewerEmail,
+}: {
+  applicantUserId: string;
+  province?: string | null;
+  reviewerEmail?: string;
+}) {
+  const mode = useMemo(() => getAppMode(), []);
+  const api = useMemo(() => getOnboardingApi(), []);
+  const qc = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, ReviewDraft>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const itemsQuery = useQuery({
+    queryKey: ["onboarding-items", "applicant", applicantUserId, mode],
+    queryFn: () => api.listForApplicant(applicantUserId),
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, input }: { id: string; input: ReviewOnboardingItemInput }) => api.review(id, input),
+    onMutate: () => setError(null),
+    onError: (err) => setError(err instanceof Error ? err.message : "Review failed"),
+    onSuccess: async (item) => {
+      setDrafts((prev) => ({ ...prev, [item.id]: {} }));
+      await qc.invalidateQueries({ queryKey: ["onboarding-items"] });
+    },
+  });
+
+  const openDocument = async (item: OnboardingItem) => {
+    try {
+      const url = await api.getDownloadUrl(item);
+      window.open(url, "_blank", "noopener,noreferrer");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open document");
+    }
+  };
+
+  const progress = onboardingProgress(itemsQuery.data ?? [], { province });
+  const busy = reviewMutation.isPending;
+
+  return (
+    <div className="rounded-xl border bg-background/60 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-xs font-medium text-muted-foreground">Dealer verification</div>
+        <div className={`text-xs font-semibold ${progress.complete ? "text-emerald-700" : "text-muted-foreground"}`}>
+          {progress.verified}/{progress.total} verified
+          {progress.licenceExpired ? " • licence expired" : ""}
+        </div>
+      </div>
+
+      {itemsQuery.isLoading ? <div className="mt-3 text-xs text-muted-foreground">Loading documents…</div> : null}
+      {itemsQuery.isError ? <div className="mt-3 text-xs text-destructive">Failed to load verification items.</div> : null}
+
+      <div className="mt-3 space-y-3">
+        {progress.rows.map(({ definition, item, state, expiringSoon }) => {
+          const draft = item ? drafts[item.id] ?? {} : {};
+          return (
+            <div key={definition.key} className="rounded-lg border bg-card px-3 py-2">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium">{definition.label}</div>
+                  {item ? (
+                    <div className="text-xs text-muted-foreground mt-0.5 break-words">
+                      {[item.value, item.fileName, `Submitted ${new Date(item.submittedAt).toLocaleDateString()}`].filter(Boolean).join(" • ")}
+                      {item.expiresOn ? ` • Expires ${item.expiresOn}` : ""}
+                      {expiringSoon ? " (soon)" : ""}
+                    </div>
+                  ) : (
+                    <div className="text-xs text-muted-foreground mt-0.5">Not uploaded yet</div>
+                  )}
+                  {item?.reviewedByEmail ? <div className="text-[11px] text-muted-foreground mt-0.5">Reviewed by {item.reviewedByEmail}</div> : null}
+                  {item?.reviewNote ? <div className="text-xs text-rose-700 mt-0.5">Note: {item.reviewNote}</div> : null}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {item?.fileName ? (
+                    <Button size="sm" variant="outline" onClick={() => void openDocument(item)}>
+                      View
+                    </Button>
+                  ) : null}
+                  <OnboardingStatusBadge state={state} />
+                </div>
+              </div>
+
+              {item ? (
+                <div className="mt-2 grid grid-cols-1 sm:grid-cols-12 gap-2 items-center">
+                  {definition.expires ? (
+                    <Input
+                      type="date"
+                      className="sm:col-span-4 h-9"
+                      value={draft.expiresOn ?? item.expiresOn ?? ""}
+                      disabled={busy}
+                      onChange={(e) => setDrafts((prev) => ({ ...prev, [item.id]: { ...draft, expiresOn: e.target.value } }))}
+                    />
+                  ) : null}
+                  <Input
+                    className={(definition.expires ? "sm:col-span-4" : "sm:col-span-8") + " h-9"}
+                    value={draft.note ?? ""}
+                    disabled={busy}
+                    placeholder="Note (required to reject)"
+                    onChange={(e) => setDrafts((prev) => ({ ...prev, [item.id]: { ...draft, note: e.target.value } }))}
+                  />
+                  <div className="sm:col-span-4 flex gap-2">
+                    <Button
+                      size="sm"
+                      className="flex-1"
+                      disabled={busy}
+                      onClick={() =>
+                        reviewMutation.mutate({
+                          id: item.id,
+                          input: { status: "VERIFIED", expiresOn: draft.expiresOn ?? item.expiresOn, note: draft.note, reviewerEmail },
+                        })
+                      }
+                    >
+                      Verify
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-1"
+                      disabled={busy}
+                      onClick={() =>
+                        reviewMutation.mutate({ id: item.id, input: { status: "REJECTED", note: draft.note, reviewerEmail } })
+                      }
+                    >
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+
+      {error ? <div className="mt-3 text-xs text-destructive">{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import type { OnboardingItemState } from "../../lib/onboarding/types";
+
+const STATE_CLASSES: Record<OnboardingItemState, string> = {
+  MISSING: "bg-muted text-muted-foreground border-border",
+  SUBMITTED: "bg-amber-50 text-amber-800 border-amber-200",
+  VERIFIED: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  REJECTED: "bg-rose-50 text-rose-700 border-rose-200",
+  EXPIRED: "bg-rose-50 text-rose-700 border-rose-200",
+};
+
+const STATE_LABELS: Record<OnboardingItemState, string> = {
+  MISSING: "Not uploaded",
+  SUBMITTED: "In review",
+  VERIFIED: "Verified",
+  REJECTED: "Needs changes",
+  EXPIRED: "Expired",
+};
+
+export function OnboardingStatusBadge({ state }: { state: OnboardingItemState }) {
+  return (
+    <span className={`inline-flex items-center text-[11px] px-2 py-0.5 rounded-md border font-medium ${STATE_CLASSES[state]}`}>
+      {STATE_LABELS[state]}
+    </span>
+  );
+}
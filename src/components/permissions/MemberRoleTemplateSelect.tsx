@@ -0,0 +1,70 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { getPermissionsApi } from "../../lib/permissions/permissions";
+import type { PermissionScope } from "../../lib/permissions/types";
+import { getAppMode } from "../../lib/runtime";
+
+const DEFAULT_VALUE = "__default__";
+
+// Picks the role template for one team member; "Default" clears the assignment.
+export function MemberRoleTemplateSelect({
+  scope,
+  ownerId,
+  userId,
+  disabled,
+}: {
+  scope: PermissionScope;
+  ownerId: string;
+  userId: string;
+  disabled?: boolean;
+}) {
+  const mode = useMemo(() => getAppMode(), []);
+  const api = useMemo(() => getPermissionsApi(), []);
+  const qc = useQueryClient();
+  const [error, setError] = useState<string | null>(null);
+
+  const templatesQuery = useQuery({
+    queryKey: ["role-templates", scope, ownerId, mode],
+    queryFn: () => api.listTemplates(scope, ownerId),
+  });
+
+  const assignmentsQuery = useQuery({
+    queryKey: ["role-template-assignments", scope, ownerId, mode],
+    queryFn: () => api.listAssignments(scope, ownerId),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async (templateId: string | null) => api.assignTemplate({ scope, ownerId, userId, templateId }),
+    onMutate: () => setError(null),
+    onError: (err) => setError(err instanceof Error ? err.message : "Failed to assign template"),
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["role-template-assignments"] });
+    },
+  });
+
+  // Admin templates are implied by the admin role, so they are not offered here.
+  const options = (templatesQuery.data ?? []).filter((t) => t.key !== "dealership_admin" && t.key !== "provider_admin");
+  const labels = Object.fromEntries([[DEFAULT_VALUE, "Default"], ...options.map((t) => [t.id, t.name])]);
+  const current = (assignmentsQuery.data ?? []).find((a) => a.userId === userId)?.templateId ?? null;
+
+  return (
+    <div className="space-y-1">
+      <Select value={current ?? DEFAULT_VALUE} onValueChange={(v) => assignMutation.mutate(v === DEFAULT_VALUE ? null : v)}>
+        <SelectTrigger className="h-9 w-[180px] bg-background" disabled={disabled || assignMutation.isPending}>
+          <SelectValue labels={labels} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_VALUE}>Default</SelectItem>
+          {options.map((t) => (
+            <SelectItem key={t.id} value={t.id}>
+              {t.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {error ? <div className="text-xs text-destructive">{error}</div> : null}
+    </div>
+  );
+}
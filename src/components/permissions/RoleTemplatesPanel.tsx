@@ -0,0 +1,162 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import { Checkbox } from "../ui/checkbox";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { PERMISSION_DEFINITIONS, permissionLabel, roleTemplateProblem } from "../../lib/permissions/catalog";
+import { getPermissionsApi } from "../../lib/permissions/permissions";
+import type { Permission, PermissionScope, RoleTemplate } from "../../lib/permissions/types";
+import { getAppMode } from "../../lib/runtime";
+
+type Draft = { id?: string; name: string; description: string; permissions: Permission[] };
+
+const EMPTY_DRAFT: Draft = { name: "", description: "", permissions: [] };
+
+// Lists built-in and custom role templates for a team and lets managers edit the custom ones.
+export function RoleTemplatesPanel({ scope, ownerId, canManage }: { scope: PermissionScope; ownerId: string; canManage: boolean }) {
+  const mode = useMemo(() => getAppMode(), []);
+  const api = useMemo(() => getPermissionsApi(), []);
+  const qc = useQueryClient();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const templatesQuery = useQuery({
+    queryKey: ["role-templates", scope, ownerId, mode],
+    queryFn: () => api.listTemplates(scope, ownerId),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (d: Draft) =>
+      api.saveTemplate({ id: d.id, scope, ownerId, name: d.name, description: d.description, permissions: d.permissions }),
+    onMutate: () => setError(null),
+    onError: (err) => setError(err instanceof Error ? err.message : "Failed to save template"),
+    onSuccess: async () => {
+      setDraft(null);
+      await qc.invalidateQueries({ queryKey: ["role-templates"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => api.deleteTemplate(id),
+    onMutate: () => setError(null),
+    onError: (err) => setError(err instanceof Error ? err.message : "Failed to delete template"),
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["role-templates"] });
+    },
+  });
+
+  const available = PERMISSION_DEFINITIONS.filter((d) => d.scopes.includes(scope));
+  const problem = draft ? roleTemplateProblem(draft, scope) : null;
+  const busy = saveMutation.isPending || deleteMutation.isPending;
+
+  const toggle = (p: Permission) => {
+    if (!draft) return;
+    const has = draft.permissions.includes(p);
+    setDraft({ ...draft, permissions: has ? draft.permissions.filter((x) => x !== p) : [...draft.permissions, p] });
+  };
+
+  const edit = (t: RoleTemplate) => setDraft({ id: t.id, name: t.name, description: t.description ?? "", permissions: [...t.permissions] });
+
+  return (
+    <Card className="rounded-lg">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 border-b px-6 py-5">
+        <div className="space-y-1">
+          <CardTitle className="text-base">Role templates</CardTitle>
+          <p className="text-sm text-muted-foreground">Bundles of permissions you can assign to team members.</p>
+        </div>
+        {canManage && !draft ? (
+          <Button size="sm" className="shrink-0 gap-2" onClick={() => setDraft({ ...EMPTY_DRAFT })}>
+            <Plus className="w-4 h-4" /> New template
+          </Button>
+        ) : null}
+      </CardHeader>
+      <CardContent className="px-6 py-5 space-y-4">
+        {error ? <div className="text-sm text-destructive">{error}</div> : null}
+
+        {draft ? (
+          <div className="rounded-lg border p-4 space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div>
+                <Label>Name</Label>
+                <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Finance manager" />
+              </div>
+              <div>
+                <Label>Description</Label>
+                <Input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Optional" />
+              </div>
+            </div>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {available.map((d) => (
+                <label key={d.key} className="flex items-start gap-2 rounded-md border p-2 text-sm cursor-pointer">
+                  <Checkbox checked={draft.permissions.includes(d.key)} onCheckedChange={() => toggle(d.key)} />
+                  <span>
+                    <span className="font-medium">{d.label}</span>
+                    <span className="block text-xs text-muted-foreground">{d.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" disabled={busy} onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" disabled={busy || Boolean(problem)} title={problem ?? undefined} onClick={() => saveMutation.mutate(draft)}>
+                {saveMutation.isPending ? "Saving..." : "Save template"}
+              </Button>
+            </div>
+          </div>
+        ) : null}
+
+        {templatesQuery.isLoading ? <div className="text-sm text-muted-foreground">Loading…</div> : null}
+        {templatesQuery.isError ? <div className="text-sm text-destructive">Failed to load role templates.</div> : null}
+
+        <div className="space-y-2">
+          {(templatesQuery.data ?? []).map((t) => (
+            <div key={t.id} className="rounded-lg border p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{t.name}</span>
+                    {t.builtIn ? <Badge variant="secondary">Built-in</Badge> : null}
+                  </div>
+                  {t.description ? <div className="text-xs text-muted-foreground mt-0.5">{t.description}</div> : null}
+                </div>
+                {canManage && !t.builtIn ? (
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" className="gap-1" disabled={busy} onClick={() => edit(t)}>
+                      <Pencil className="h-3.5 w-3.5" /> Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1 text-destructive hover:text-destructive"
+                      disabled={busy}
+                      onClick={() => {
+                        if (!window.confirm(`Delete the "${t.name}" template?`)) return;
+                        deleteMutation.mutate(t.id);
+                      }}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" /> Delete
+                    </Button>
+                  </div>
+                ) : null}
+              </div>
+              <div className="mt-2 flex flex-wrap gap-1">
+                {t.permissions.map((p) => (
+                  <Badge key={p} variant="outline" className="text-[11px] font-normal">
+                    {permissionLabel(p)}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,291 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import { getBankReconciliationApi } from "../../lib/bankReconciliation/bankReconciliation";
+import { depositAllocationProblem, depositShortfallCents, proposeReconciliationMatches } from "../../lib/bankReconciliation/matching";
+import { readBankStatementFile } from "../../lib/bankReconciliation/statement";
+import type { BankStatement, BankStatementLine, ReconciliationProposal } from "../../lib/bankReconciliation/types";
+import { remittanceBalanceCents } from "../../lib/batches/payments";
+import type { Batch } from "../../lib/batches/types";
+import { getAppMode } from "../../lib/runtime";
+import { confirmProceed } from "../../lib/utils";
+import { useAuth } from "../../providers/AuthProvider";
+
+function money(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function confidenceClass(p: ReconciliationProposal) {
+  if (p.kind === "SHORT") return "border-amber-200 bg-amber-50 text-amber-800";
+  if (p.confidence === "HIGH") return "border-emerald-200 bg-emerald-50 text-emerald-700";
+  if (p.confidence === "MEDIUM") return "border-sky-200 bg-sky-50 text-sky-800";
+  return "border-slate-200 bg-slate-50 text-slate-600";
+}
+
+function kindLabel(p: ReconciliationProposal) {
+  if (p.kind === "SHORT") return "Short payment";
+  if (p.kind === "COMBINED") return `Covers ${p.batchIds.length} remittances`;
+  return "Exact match";
+}
+
+function LineSummary({ line }: { line: BankStatementLine }) {
+  return (
+    <div className="min-w-0">
+      <div className="text-sm font-medium">
+        {money(line.amountCents)} <span className="text-muted-foreground font-normal">on {line.postedDate}</span>
+      </div>
+      <div className="text-xs text-muted-foreground break-words">
+        {[line.description, line.reference ? `Ref ${line.reference}` : "", line.checkNumber ? `Cheque ${line.checkNumber}` : ""].filter(Boolean).join(" • ") || "—"}
+      </div>
+    </div>
+  );
+}
+
+// Upload a bank statement export, review the proposed deposit-to-remittance matches and record
+// them as payments. Deposits nothing matched can be assigned by hand.
+export function BankReconciliationPanel({ remittances }: { remittances: Batch[] }) {
+  const mode = useMemo(() => getAppMode(), []);
+  const api = useMemo(() => getBankReconciliationApi(), []);
+  const qc = useQueryClient();
+  const { user } = useAuth();
+
+  const [statement, setStatement] = useState<BankStatement | null>(null);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [manual, setManual] = useState<Record<string, string[]>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const depositsQuery = useQuery({
+    queryKey: ["bank-deposits", mode],
+    queryFn: () => api.listDeposits(),
+  });
+
+  const byId = useMemo(() => new Map(remittances.map((b) => [b.id, b] as const)), [remittances]);
+
+  const { proposals, unmatched } = useMemo(() => {
+    if (!statement) return { proposals: [] as ReconciliationProposal[], unmatched: [] as BankStatementLine[] };
+    return proposeReconciliationMatches(statement.lines, remittances, {
+      appliedLineKeys: (depositsQuery.data ?? []).map((d) => d.line.key),
+    });
+  }, [depositsQuery.data, remittances, statement]);
+
+  const proposedBatchIds = useMemo(() => new Set(proposals.flatMap((p) => p.batchIds)), [proposals]);
+  const unassigned = useMemo(
+    () => remittances.filter((b) => !proposedBatchIds.has(b.id) && !Object.values(manual).some((ids) => ids.includes(b.id))),
+    [manual, proposedBatchIds, remittances],
+  );
+
+  const loadStatement = (file: File) => {
+    setError(null);
+    setNotice(null);
+    void readBankStatementFile(file)
+      .then((parsed) => {
+        setStatement(parsed);
+        setManual({});
+        setSelected({});
+      })
+      .catch((e) => {
+        setStatement(null);
+        setError(e instanceof Error ? e.message : "Failed to read the statement");
+      });
+  };
+
+  const isSelected = (p: ReconciliationProposal) => selected[p.line.key] ?? (p.kind !== "SHORT" && p.confidence !== "LOW");
+
+  const applyMutation = useMutation({
+    mutationFn: async (matches: { line: BankStatementLine; batchIds: string[] }[]) => {
+      if (!statement) throw new Error("Upload a statement first");
+      const failures: string[] = [];
+      let applied = 0;
+      for (const m of matches) {
+        try {
+          await api.applyDeposit(
+            { statementFileName: statement.fileName, statementFormat: statement.format, line: m.line, batchIds: m.batchIds },
+            user ?? undefined,
+          );
+          applied += 1;
+        } catch (e) {
+          failures.push(`${money(m.line.amountCents)} on ${m.line.postedDate}: ${e instanceof Error ? e.message : "failed"}`);
+        }
+      }
+      return { applied, failures };
+    },
+    onMutate: () => {
+      setError(null);
+      setNotice(null);
+    },
+    onSuccess: async ({ applied, failures }) => {
+      if (applied > 0) setNotice(`${applied} deposit(s) applied.`);
+      if (failures.length > 0) setError(failures.join("\n"));
+      setManual({});
+      setSelected({});
+      await qc.invalidateQueries({ queryKey: ["bank-deposits"] });
+      await qc.invalidateQueries({ queryKey: ["remittance-payments"] });
+      await qc.invalidateQueries({ queryKey: ["provider-remittances"] });
+      await qc.invalidateQueries({ queryKey: ["batches"] });
+      await qc.invalidateQueries({ queryKey: ["contracts"] });
+    },
+  });
+
+  const manualMatches = unmatched
+    .filter((line) => (manual[line.key] ?? []).length > 0)
+    .map((line) => ({ line, batchIds: manual[line.key]! }));
+  const manualProblems = new Map(
+    manualMatches.map((m) => [m.line.key, depositAllocationProblem(m.line, m.batchIds.map((id) => byId.get(id)).filter((b): b is Batch => Boolean(b)))] as const),
+  );
+  const toApply = [
+    ...proposals.filter(isSelected).map((p) => ({ line: p.line, batchIds: p.batchIds })),
+    ...manualMatches.filter((m) => !manualProblems.get(m.line.key)),
+  ];
+  const busy = applyMutation.isPending;
+
+  const batchLabel = (id: string) => {
+    const b = byId.get(id);
+    return b ? `${b.batchNumber} (${money(remittanceBalanceCents(b))})` : id.slice(0, 8);
+  };
+
+  return (
+    <div className="mt-8 rounded-2xl border bg-card shadow-card overflow-hidden">
+      <div className="px-6 py-4 border-b flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <div className="font-semibold">Bank reconciliation</div>
+          <div className="text-sm text-muted-foreground mt-1">
+            Upload a statement export (CSV, OFX or QFX) to match deposits to remittances awaiting payment.
+          </div>
+        </div>
+        <label className="text-sm">
+          <input
+            type="file"
+            accept=".csv,text/csv,.ofx,.qfx,application/x-ofx"
+            disabled={busy}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (!file) return;
+              loadStatement(file);
+            }}
+            className="hidden"
+          />
+          <Button type="button" variant="outline" size="sm" disabled={busy} asChild>
+            <span>Upload statement</span>
+          </Button>
+        </label>
+      </div>
+
+      {error ? <div className="px-6 py-3 text-sm text-destructive whitespace-pre-line">{error}</div> : null}
+      {notice ? <div className="px-6 py-3 text-sm text-emerald-700">{notice}</div> : null}
+
+      {statement ? (
+        <div className="px-6 py-4 space-y-4">
+          <div className="text-xs text-muted-foreground">
+            {statement.fileName} • {statement.lines.length} transaction(s) • {proposals.length} proposed match(es) • {unmatched.length} unmatched deposit(s)
+          </div>
+
+          {statement.issues.length > 0 ? (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 space-y-1">
+              {statement.issues.map((issue, idx) => (
+                <div key={`${issue.row}-${idx}`}>
+                  {issue.row > 0 ? `Row ${issue.row}: ` : ""}
+                  {issue.message}
+                </div>
+              ))}
+            </div>
+          ) : null}
+
+          {proposals.map((p) => (
+            <div key={p.line.key} className="rounded-lg border px-3 py-3">
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  checked={isSelected(p)}
+                  onCheckedChange={(checked) => setSelected((s) => ({ ...s, [p.line.key]: checked }))}
+                  disabled={busy}
+                  className="mt-1"
+                />
+                <div className="flex-1 min-w-0 grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <LineSummary line={p.line} />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className={`inline-flex items-center text-xs px-2 py-0.5 rounded-md border ${confidenceClass(p)}`}>{kindLabel(p)}</span>
+                      <span className="text-xs text-muted-foreground">{p.confidence.toLowerCase()} confidence</span>
+                    </div>
+                    <div className="text-sm mt-1">{p.batchIds.map(batchLabel).join(", ")}</div>
+                    <div className="text-xs text-muted-foreground mt-1">{p.reasons.join(" • ")}</div>
+                    {p.shortfallCents > 0 ? (
+                      <div className="text-xs text-amber-700 mt-1">
+                        Applying leaves {money(p.shortfallCents)} outstanding; the remittance stays partially paid until the rest arrives.
+                      </div>
+                    ) : null}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {unmatched.map((line) => {
+            const picked = manual[line.key] ?? [];
+            const problem = picked.length > 0 ? manualProblems.get(line.key) : null;
+            const pickedBatches = picked.map((id) => byId.get(id)).filter((b): b is Batch => Boolean(b));
+            const shortfall = picked.length > 0 && !problem ? depositShortfallCents(line, pickedBatches) : 0;
+            return (
+              <div key={line.key} className="rounded-lg border border-dashed px-3 py-3">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <LineSummary line={line} />
+                  <div className="min-w-0 space-y-1">
+                    <div className="text-xs text-muted-foreground">No match proposed. Assign remittances by hand:</div>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      {picked.map((id) => (
+                        <button
+                          key={id}
+                          type="button"
+                          className="text-xs rounded-md border px-2 py-0.5 hover:bg-muted"
+                          disabled={busy}
+                          onClick={() => setManual((m) => ({ ...m, [line.key]: picked.filter((x) => x !== id) }))}
+                        >
+                          {batchLabel(id)} ×
+                        </button>
+                      ))}
+                      <select
+                        className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+                        value=""
+                        disabled={busy || unassigned.length === 0}
+                        onChange={(e) => {
+                          const id = e.target.value;
+                          if (id) setManual((m) => ({ ...m, [line.key]: [...picked, id] }));
+                        }}
+                      >
+                        <option value="">Add remittance…</option>
+                        {unassigned.map((b) => (
+                          <option key={b.id} value={b.id}>
+                            {b.batchNumber} — {money(remittanceBalanceCents(b))}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {problem ? <div className="text-xs text-destructive">{problem}</div> : null}
+                    {shortfall > 0 ? <div className="text-xs text-amber-700">Leaves {money(shortfall)} outstanding.</div> : null}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex justify-end">
+            <Button
+              disabled={busy || toApply.length === 0}
+              onClick={() => {
+                void (async () => {
+                  if (!(await confirmProceed(`Apply ${toApply.length} deposit(s) as payments against the matched remittances?`))) return;
+                  applyMutation.mutate(toApply);
+                })();
+              }}
+            >
+              {busy ? "Applying…" : `Apply ${toApply.length} match(es)`}
+            </Button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table";
+import { AGING_BUCKETS, agingByDealership, agingTotals } from "../../lib/contractRemittances/aging";
+import { getContractRemittancesApi } from "../../lib/contractRemittances/contractRemittances";
+import { getAppMode } from "../../lib/runtime";
+import { localDateString } from "../../lib/utils";
+
+function money(cents: number) {
+  return `$${(cents / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Unpaid contract remittances per dealership, bucketed by days past due. Row security
+// limits providers to their own contracts; admins see every dealership and can run the
+// overdue sweep on demand. Contract remittances only exist in Supabase mode.
+export function RemittanceAgingReport({ canRunSweep = false }: { canRunSweep?: boolean }) {
+  if (getAppMode() !== "supabase") return null;
+  return <AgingReport canRunSweep={canRunSweep} />;
+}
+
+function AgingReport({ canRunSweep }: { canRunSweep: boolean }) {
+  const api = useMemo(() => getContractRemittancesApi(), []);
+  const qc = useQueryClient();
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const outstandingQuery = useQuery({
+    queryKey: ["contract-remittances-outstanding"],
+    queryFn: () => api.listOutstanding(),
+  });
+
+  const sweepMutation = useMutation({
+    mutationFn: () => api.markOverdue(),
+    onSuccess: async (marked) => {
+      setNotice(marked === 0 ? "No remittances became overdue." : `${marked} remittance(s) marked overdue.`);
+      await qc.invalidateQueries({ queryKey: ["contract-remittances-outstanding"] });
+    },
+  });
+
+  const today = localDateString();
+  const rows = useMemo(() => agingByDealership(outstandingQuery.data ?? [], today), [outstandingQuery.data, today]);
+  const totals = agingTotals(rows);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-base">Remittance Aging</CardTitle>
+          <CardDescription>Unpaid remittances by dealership and days past due.</CardDescription>
+        </div>
+        {canRunSweep ? (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={sweepMutation.isPending}
+            onClick={() => {
+              setNotice(null);
+              sweepMutation.mutate();
+            }}
+          >
+            {sweepMutation.isPending ? "Checking…" : "Mark Overdue Now"}
+          </Button>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {notice ? <div className="text-sm text-muted-foreground">{notice}</div> : null}
+        {sweepMutation.isError ? <div className="text-sm text-destructive">{(sweepMutation.error as Error).message}</div> : null}
+        {outstandingQuery.isError ? <div className="text-sm text-destructive">{(outstandingQuery.error as Error).message}</div> : null}
+
+        {outstandingQuery.isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No unpaid remittances.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Dealership</TableHead>
+                {AGING_BUCKETS.map((b) => (
+                  <TableHead key={b} className="text-right">
+                    {b} days
+                  </TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Oldest</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((r) => (
+                <TableRow key={r.dealershipId}>
+                  <TableCell className="font-medium">
+                    {r.dealershipName}
+                    <span className="ml-2 text-xs text-muted-foreground">{r.remittanceCount} unpaid</span>
+                  </TableCell>
+                  {AGING_BUCKETS.map((b) => (
+                    <TableCell key={b} className="text-right">
+                      {r.bucketCents[b] ? money(r.bucketCents[b]) : "—"}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium">{money(r.totalCents)}</TableCell>
+                  <TableCell className="text-right">
+                    {r.oldestDaysPastDue > 0 ? (
+                      <Badge variant="secondary" className={r.oldestDaysPastDue > 60 ? "bg-red-100 text-red-800" : "bg-amber-100 text-amber-800"}>
+                        {r.oldestDaysPastDue} days
+                      </Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Current</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell className="font-semibold">Total</TableCell>
+                {AGING_BUCKETS.map((b) => (
+                  <TableCell key={b} className="text-right font-semibold">
+                    {money(totals.bucketCents[b])}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right font-semibold">{money(totals.totalCents)}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+import { creditNotesAppliedTo, creditNotesIssuedAgainst } from "../../lib/batches/creditNotes";
+import type { Batch, RemittanceCreditNote } from "../../lib/batches/types";
+
+function money(cents: number) {
+  return `${cents < 0 ? "-" : ""}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+function CreditNoteTable({ title, notes, status }: { title: string; notes: RemittanceCreditNote[]; status: (n: RemittanceCreditNote) => string }) {
+  const totalCents = notes.reduce((sum, n) => sum + n.totalCents, 0);
+  return (
+    <div className="mt-6 border rounded-xl overflow-hidden">
+      <div className="px-4 py-3 border-b text-xs font-semibold uppercase tracking-wide text-slate-600">{title}</div>
+      <div className="grid grid-cols-12 gap-2 px-4 py-3 border-b text-[11px] uppercase tracking-wide text-slate-500">
+        <div className="col-span-2">Credit Note #</div>
+        <div className="col-span-2">Contract #</div>
+        <div className="col-span-3">Reason</div>
+        <div className="col-span-2">Status</div>
+        <div className="col-span-1 text-right">Tax</div>
+        <div className="col-span-2 text-right">Amount</div>
+      </div>
+
+      <div className="divide-y">
+        {notes.map((n) => (
+          <div key={n.id} className="grid grid-cols-12 gap-2 px-4 py-3 text-sm items-center">
+            <div className="col-span-2 font-medium">{n.creditNoteNumber}</div>
+            <div className="col-span-2">{n.contractNumber ?? "—"}</div>
+            <div className="col-span-3 text-slate-600">{n.reason}</div>
+            <div className="col-span-2 text-slate-600">{status(n)}</div>
+            <div className="col-span-1 text-right">{money(n.taxCents)}</div>
+            <div className="col-span-2 text-right font-medium">{money(n.totalCents)}</div>
+          </div>
+        ))}
+        <div className="grid grid-cols-12 gap-2 px-4 py-3 text-sm items-center">
+          <div className="col-span-10 text-slate-600">Total credited</div>
+          <div className="col-span-2 text-right font-semibold">{money(totalCents)}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Credit notes a remittance deducts (already in its totals) and those issued against its
+// contracts, for the printed copies. Renders nothing when there are none.
+export function RemittanceCreditNotesPrint({
+  batch,
+  batches,
+  notes,
+}: {
+  batch: Pick<Batch, "id">;
+  batches: Pick<Batch, "id" | "batchNumber">[];
+  notes: RemittanceCreditNote[];
+}) {
+  const applied = creditNotesAppliedTo(notes, batch.id);
+  const issued = creditNotesIssuedAgainst(notes, batch.id);
+  return (
+    <>
+      {applied.length > 0 ? (
+        <CreditNoteTable
+          title="Credit notes applied to this remittance"
+          notes={applied}
+          status={(n) => `Credits ${n.originalBatchNumber}`}
+        />
+      ) : null}
+      {issued.length > 0 ? (
+        <CreditNoteTable
+          title="Credit notes issued against this remittance"
+          notes={issued}
+          status={(n) => {
+            if (!n.appliedBatchId) return "Open";
+            const applyingBatch = batches.find((b) => b.id === n.appliedBatchId);
+            return applyingBatch ? `Applied to ${applyingBatch.batchNumber}` : "Applied";
+          }}
+        />
+      ) : null}
+    </>
+  );
+}
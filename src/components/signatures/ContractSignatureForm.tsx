@@ -0,0 +1,68 @@
+import { useState } from "react";
+
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { SignaturePad } from "./SignaturePad";
+import { signatureCaptureProblem } from "../../lib/signatures/content";
+import type { SignatureCapture } from "../../lib/signatures/types";
+import { alertMissing } from "../../lib/utils";
+
+// Customer and dealer sign the contract on screen; both signatures are submitted together.
+export function ContractSignatureForm({
+  defaultCustomerName,
+  defaultDealerName,
+  submitLabel = "Save signatures",
+  isSubmitting,
+  onSubmit,
+}: {
+  defaultCustomerName?: string;
+  defaultDealerName?: string;
+  submitLabel?: string;
+  isSubmitting?: boolean;
+  onSubmit: (signatures: SignatureCapture[]) => Promise<void>;
+}) {
+  const [customerName, setCustomerName] = useState(defaultCustomerName ?? "");
+  const [dealerName, setDealerName] = useState(defaultDealerName ?? "");
+  const [customerImage, setCustomerImage] = useState<string | null>(null);
+  const [dealerImage, setDealerImage] = useState<string | null>(null);
+
+  const submit = async () => {
+    const signatures: SignatureCapture[] = [
+      { role: "CUSTOMER", signerName: customerName.trim(), imageDataUrl: customerImage ?? "" },
+      { role: "DEALER", signerName: dealerName.trim(), imageDataUrl: dealerImage ?? "" },
+    ];
+    const problem = signatureCaptureProblem(signatures);
+    if (problem) return alertMissing(`${problem}.`);
+    await onSubmit(signatures);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        <div className="space-y-2">
+          <div>
+            <div className="text-xs text-muted-foreground">Customer name</div>
+            <Input value={customerName} onChange={(e) => setCustomerName(e.target.value)} disabled={isSubmitting} />
+          </div>
+          <SignaturePad label="Customer signature" value={customerImage} onChange={setCustomerImage} disabled={isSubmitting} />
+        </div>
+        <div className="space-y-2">
+          <div>
+            <div className="text-xs text-muted-foreground">Dealer representative</div>
+            <Input value={dealerName} onChange={(e) => setDealerName(e.target.value)} disabled={isSubmitting} />
+          </div>
+          <SignaturePad label="Dealer signature" value={dealerImage} onChange={setDealerImage} disabled={isSubmitting} />
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        By signing, both parties agree to the contract exactly as displayed. The signing time, IP address and device are recorded with each
+        signature.
+      </div>
+      <div className="flex justify-end">
+        <Button onClick={() => void submit()} disabled={isSubmitting}>
+          {isSubmitting ? "Saving…" : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
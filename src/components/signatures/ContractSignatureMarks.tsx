@@ -0,0 +1,35 @@
+import type { ContractSignature, ContractSignatureState } from "../../lib/signatures/types";
+
+function signedOn(iso: string) {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+// A captured signature as it appears on a printed copy, in place of the wet-ink line.
+export function SignatureMark({ signature, className }: { signature: ContractSignature | undefined; className?: string }) {
+  if (!signature) return null;
+  return (
+    <div className={className}>
+      <img src={signature.imageDataUrl} alt={`Signature of ${signature.signerName}`} className="h-12 w-auto max-w-full object-contain" />
+      <div className="text-[10px] leading-tight text-slate-500">
+        {signature.signerName} • {signedOn(signature.signedAt)}
+      </div>
+    </div>
+  );
+}
+
+// Footnote tying the printed signatures to the content hash they were captured against.
+export function ElectronicSignatureNote({ state, contentHash, className }: { state: ContractSignatureState; contentHash: string; className?: string }) {
+  if (state === "UNSIGNED") return null;
+  return (
+    <div className={className}>
+      {state === "OUTDATED" ? (
+        <span>The contract changed after it was signed electronically; signatures on file cover an earlier version and are not reproduced here.</span>
+      ) : (
+        <span>
+          Signed electronically. Content hash (SHA-256): <span className="font-mono break-all">{contentHash}</span>
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useRef } from "react";
+
+import { Button } from "../ui/button";
+
+const WIDTH = 600;
+const HEIGHT = 180;
+
+// Canvas that captures a handwritten signature from mouse, pen or touch and reports it as a PNG data URL.
+export function SignaturePad({
+  label,
+  value,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  value: string | null;
+  disabled?: boolean;
+  onChange: (dataUrl: string | null) => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const drawingRef = useRef(false);
+  const drewRef = useRef(false);
+
+  useEffect(() => {
+    if (value) return;
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    drewRef.current = false;
+  }, [value]);
+
+  const point = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * HEIGHT,
+    };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const p = point(e);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.strokeStyle = "#0f172a";
+    ctx.beginPath();
+    ctx.moveTo(p.x, p.y);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const p = point(e);
+    ctx.lineTo(p.x, p.y);
+    ctx.stroke();
+    drewRef.current = true;
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    if (drewRef.current) onChange(e.currentTarget.toDataURL("image/png"));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm font-medium">{label}</div>
+        <Button type="button" size="sm" variant="ghost" disabled={disabled || !value} onClick={() => onChange(null)}>
+          Clear
+        </Button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        aria-label={label}
+        className="mt-1 w-full rounded-md border border-dashed bg-white touch-none"
+        style={{ aspectRatio: `${WIDTH} / ${HEIGHT}` }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      />
+      <div className="mt-1 text-[11px] text-muted-foreground">{value ? "Signed" : "Sign above with a finger, pen or mouse"}</div>
+    </div>
+  );
+}
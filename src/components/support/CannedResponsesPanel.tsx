@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { CANNED_RESPONSE_VARIABLES, type SupportCannedResponse } from "../../lib/support/cannedResponses";
+import { parseSupportTags } from "../../lib/support/tags";
+import { getSupabaseClient } from "../../lib/supabase/client";
+import { confirmProceed } from "../../lib/utils";
+
+type Draft = { id: string | null; title: string; body: string; tags: string };
+
+const EMPTY_DRAFT: Draft = { id: null, title: "", body: "", tags: "" };
+
+// Create, edit and delete the shared canned responses. The list itself is loaded by the inbox.
+export function CannedResponsesPanel({
+  responses,
+  queryKey,
+  userId,
+}: {
+  responses: SupportCannedResponse[];
+  queryKey: readonly unknown[];
+  userId?: string;
+}) {
+  const qc = useQueryClient();
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+
+  const saveMutation = useMutation({
+    mutationFn: async (d: Draft) => {
+      const title = d.title.trim();
+      const body = d.body.trim();
+      if (!title) throw new Error("Title is required");
+      if (!body) throw new Error("Response text is required");
+
+      const supabase = getSupabaseClient();
+      if (!supabase) throw new Error("Supabase is not configured");
+
+      const row = { title, body, tags: parseSupportTags(d.tags), updated_at: new Date().toISOString() };
+      const res = d.id
+        ? await supabase.from("support_canned_responses").update(row).eq("id", d.id)
+        : await supabase.from("support_canned_responses").insert({ ...row, created_by_user_id: userId ?? null });
+      if (res.error) throw res.error;
+    },
+    onSuccess: async () => {
+      setDraft(EMPTY_DRAFT);
+      await qc.invalidateQueries({ queryKey });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const supabase = getSupabaseClient();
+      if (!supabase) throw new Error("Supabase is not configured");
+      const res = await supabase.from("support_canned_responses").delete().eq("id", id);
+      if (res.error) throw res.error;
+    },
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey });
+    },
+  });
+
+  const busy = saveMutation.isPending || deleteMutation.isPending;
+  const error = saveMutation.error ?? deleteMutation.error;
+
+  return (
+    <div className="rounded-xl border bg-background p-4">
+      <div className="font-semibold text-sm">Canned responses</div>
+      <div className="text-xs text-muted-foreground mt-1">
+        Variables: {CANNED_RESPONSE_VARIABLES.map((v) => `{{${v.key}}}`).join(", ")}
+      </div>
+
+      <div className="mt-3 divide-y rounded-lg border">
+        {responses.map((r) => (
+          <div key={r.id} className="px-3 py-2 flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <div className="text-sm font-medium truncate">{r.title}</div>
+              <div className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-wrap">{r.body}</div>
+              {r.tags.length > 0 ? <div className="text-[11px] text-muted-foreground mt-1">#{r.tags.join(" #")}</div> : null}
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busy}
+                onClick={() => setDraft({ id: r.id, title: r.title, body: r.body, tags: r.tags.join(", ") })}
+              >
+                Edit
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busy}
+                onClick={() => {
+                  void (async () => {
+                    if (!(await confirmProceed(`Delete the canned response "${r.title}"?`))) return;
+                    deleteMutation.mutate(r.id);
+                  })();
+                }}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+        {responses.length === 0 ? <div className="px-3 py-4 text-sm text-muted-foreground">No canned responses yet.</div> : null}
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 gap-2">
+        <Input value={draft.title} onChange={(e) => setDraft((d) => ({ ...d, title: e.target.value }))} placeholder="Title" disabled={busy} />
+        <textarea
+          className="min-h-[90px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          value={draft.body}
+          onChange={(e) => setDraft((d) => ({ ...d, body: e.target.value }))}
+          placeholder="Hi {{user_name}}, thanks for reaching out about contract {{contract_number}}…"
+          disabled={busy}
+        />
+        <Input value={draft.tags} onChange={(e) => setDraft((d) => ({ ...d, tags: e.target.value }))} placeholder="Tags (comma separated)" disabled={busy} />
+        <div className="flex justify-end gap-2">
+          {draft.id ? (
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => setDraft(EMPTY_DRAFT)}>
+              Cancel
+            </Button>
+          ) : null}
+          <Button size="sm" disabled={busy} onClick={() => saveMutation.mutate(draft)}>
+            {draft.id ? "Save changes" : "Add response"}
+          </Button>
+        </div>
+        {error ? <div className="text-sm text-destructive">{(error as { message?: string }).message ?? "Failed to save"}</div> : null}
+      </div>
+    </div>
+  );
+}
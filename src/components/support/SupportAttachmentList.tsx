@@ -0,0 +1,50 @@
+import { useQuery } from "@tanstack/react-query";
+import { Paperclip } from "lucide-react";
+
+import { formatAttachmentSize, getSupportAttachmentUrls, isImageAttachment, type SupportAttachment } from "../../lib/support/attachments";
+
+// Signed URLs are short-lived, so they are fetched per message list rather than stored.
+export function SupportAttachmentList({ attachments, inverted }: { attachments: SupportAttachment[]; inverted?: boolean }) {
+  const paths = attachments.map((a) => a.storagePath);
+  const urlsQuery = useQuery({
+    queryKey: ["support-attachment-urls", paths],
+    enabled: paths.length > 0,
+    queryFn: () => getSupportAttachmentUrls(paths),
+    staleTime: 4 * 60 * 1000,
+  });
+
+  if (attachments.length === 0) return null;
+  const urls = urlsQuery.data ?? {};
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-2">
+      {attachments.map((a) => {
+        const url = urls[a.storagePath];
+        if (url && isImageAttachment(a)) {
+          return (
+            <a key={a.id} href={url} target="_blank" rel="noreferrer" title={a.fileName}>
+              <img src={url} alt={a.fileName} className="h-20 w-20 rounded-md border object-cover bg-white" />
+            </a>
+          );
+        }
+        return (
+          <a
+            key={a.id}
+            href={url}
+            target="_blank"
+            rel="noreferrer"
+            className={
+              inverted
+                ? "inline-flex max-w-full items-center gap-1.5 rounded-md bg-white/15 px-2 py-1 text-xs text-white hover:bg-white/25"
+                : "inline-flex max-w-full items-center gap-1.5 rounded-md border bg-white px-2 py-1 text-xs hover:bg-accent/10"
+            }
+          >
+            <Paperclip className="h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">{a.fileName}</span>
+            {a.sizeBytes ? <span className="opacity-70">{formatAttachmentSize(a.sizeBytes)}</span> : null}
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useRef, useState } from "react";
+import { Paperclip, X } from "lucide-react";
+
+import { Button } from "../ui/button";
+import {
+  formatAttachmentSize,
+  SUPPORT_ATTACHMENT_MAX_FILES,
+  supportAttachmentProblem,
+} from "../../lib/support/attachments";
+
+export function SupportAttachmentPicker({
+  files,
+  onChange,
+  disabled,
+}: {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const addFiles = (list: FileList | null) => {
+    const picked = Array.from(list ?? []);
+    const rejected = picked.map(supportAttachmentProblem).filter((p): p is string => Boolean(p));
+    const accepted = picked.filter((f) => !supportAttachmentProblem(f));
+    const next = [...files, ...accepted].slice(0, SUPPORT_ATTACHMENT_MAX_FILES);
+    if (files.length + accepted.length > SUPPORT_ATTACHMENT_MAX_FILES) {
+      rejected.push(`Attach up to ${SUPPORT_ATTACHMENT_MAX_FILES} files per message`);
+    }
+    setProblem(rejected.length > 0 ? rejected.join("; ") : null);
+    onChange(next);
+  };
+
+  return (
+    <div className="grid gap-1.5">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = "";
+          }}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="h-8 gap-1.5 px-2"
+          disabled={disabled || files.length >= SUPPORT_ATTACHMENT_MAX_FILES}
+          onClick={() => inputRef.current?.click()}
+        >
+          <Paperclip className="h-4 w-4" />
+          Attach
+        </Button>
+        {files.map((f, i) => (
+          <span key={`${f.name}-${i}`} className="inline-flex max-w-[220px] items-center gap-1 rounded-md border bg-background px-2 py-0.5 text-xs">
+            <span className="truncate">{f.name}</span>
+            <span className="text-muted-foreground">{formatAttachmentSize(f.size)}</span>
+            <button
+              type="button"
+              className="text-muted-foreground hover:text-foreground"
+              disabled={disabled}
+              onClick={() => onChange(files.filter((_, j) => j !== i))}
+              aria-label={`Remove ${f.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      {problem ? <div className="text-xs text-destructive">{problem}</div> : null}
+    </div>
+  );
+}
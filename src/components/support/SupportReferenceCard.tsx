@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { FileText, Receipt } from "lucide-react";
+
+import { remittanceWorkflowStatus } from "../../lib/batches/workflow";
+import { getSupabaseClient } from "../../lib/supabase/client";
+import { SUPPORT_REFERENCE_LABELS, supportReferenceHref, type SupportReference } from "../../lib/support/references";
+
+type ReferenceSummary = {
+  title: string;
+  status: string;
+  details: string[];
+};
+
+async function loadReference(ref: SupportReference): Promise<ReferenceSummary | null> {
+  const supabase = getSupabaseClient();
+  if (!supabase) throw new Error("Supabase is not configured");
+
+  if (ref.type === "CONTRACT") {
+    const { data, error } = await supabase
+      .from("contracts")
+      .select("id, contract_number, customer_name, status, vehicle_year, vehicle_make, vehicle_model, updated_at")
+      .eq("id", ref.id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+    const r = data as any;
+    const vehicle = [r.vehicle_year, r.vehicle_make, r.vehicle_model].filter(Boolean).join(" ");
+    return {
+      title: `Contract ${r.contract_number ?? ""}`.trim(),
+      status: (r.status ?? "—").toString(),
+      details: [r.customer_name, vehicle, r.updated_at ? `Updated ${new Date(r.updated_at).toLocaleString()}` : ""].filter(Boolean),
+    };
+  }
+
+  const { data, error } = await supabase
+    .from("batches")
+    .select("id, batch_number, status, payment_status, remittance_status, total_cents, contract_ids, paid_at")
+    .eq("id", ref.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const r = data as any;
+  const contracts = Array.isArray(r.contract_ids) ? r.contract_ids.length : 0;
+  return {
+    title: `Remittance ${r.batch_number ?? ""}`.trim(),
+    status: remittanceWorkflowStatus({ remittanceStatus: r.remittance_status ?? undefined, paymentStatus: r.payment_status, status: r.status }),
+    details: [
+      `${contracts} contract(s)`,
+      typeof r.total_cents === "number" ? `Total $${(r.total_cents / 100).toFixed(2)}` : "",
+      r.paid_at ? `Paid ${new Date(r.paid_at).toLocaleDateString()}` : "",
+    ].filter(Boolean),
+  };
+}
+
+// Live view of a contract or remittance mentioned in a support message; refetches so the
+// admin sees the current status rather than what it was when the message was sent.
+export function SupportReferenceCard({ reference, audience }: { reference: SupportReference; audience: "admin" | "dealer" }) {
+  const query = useQuery({
+    queryKey: ["support-reference", reference.type, reference.id],
+    queryFn: () => loadReference(reference),
+    refetchInterval: 30_000,
+  });
+
+  const Icon = reference.type === "CONTRACT" ? FileText : Receipt;
+  const summary = query.data;
+
+  return (
+    <Link
+      to={supportReferenceHref(reference, audience)}
+      className="mt-2 flex items-start gap-2 rounded-lg border bg-white px-3 py-2 text-left text-foreground shadow-sm hover:bg-accent/10"
+    >
+      <Icon className="h-4 w-4 mt-0.5 shrink-0 text-blue-700" />
+      <div className="min-w-0">
+        {query.isLoading ? (
+          <div className="text-xs text-muted-foreground">Loading {SUPPORT_REFERENCE_LABELS[reference.type].toLowerCase()}…</div>
+        ) : query.isError || !summary ? (
+          <div className="text-xs text-muted-foreground">{SUPPORT_REFERENCE_LABELS[reference.type]} unavailable</div>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-semibold truncate">{summary.title}</span>
+              <span className="text-[10px] rounded-md border px-1.5 py-0.5 text-muted-foreground">{summary.status}</span>
+            </div>
+            {summary.details.length > 0 ? <div className="text-[11px] text-muted-foreground truncate">{summary.details.join(" • ")}</div> : null}
+          </>
+        )}
+      </div>
+    </Link>
+  );
+}
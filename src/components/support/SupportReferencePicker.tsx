@@ -0,0 +1,83 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { getSupabaseClient } from "../../lib/supabase/client";
+import { toSupportReference, type SupportReference } from "../../lib/support/references";
+
+type Option = { value: string; label: string };
+
+// Lists the caller's recent contracts and remittances (RLS scopes them to the dealership).
+export function SupportReferencePicker({
+  value,
+  onChange,
+  disabled,
+  enabled,
+}: {
+  value: SupportReference | null;
+  onChange: (ref: SupportReference | null) => void;
+  disabled?: boolean;
+  enabled: boolean;
+}) {
+  const optionsQuery = useQuery({
+    queryKey: ["support-reference-options"],
+    enabled,
+    queryFn: async (): Promise<{ contracts: Option[]; batches: Option[] }> => {
+      const supabase = getSupabaseClient();
+      if (!supabase) throw new Error("Supabase is not configured");
+
+      const [contracts, batches] = await Promise.all([
+        supabase.from("contracts").select("id, contract_number, customer_name, status").order("created_at", { ascending: false }).limit(50),
+        supabase.from("batches").select("id, batch_number, created_at").order("created_at", { ascending: false }).limit(25),
+      ]);
+      if (contracts.error) throw contracts.error;
+      if (batches.error) throw batches.error;
+
+      return {
+        contracts: ((contracts.data ?? []) as any[]).map((c) => ({
+          value: `CONTRACT:${c.id}`,
+          label: `${c.contract_number} • ${c.customer_name ?? ""} (${c.status})`,
+        })),
+        batches: ((batches.data ?? []) as any[]).map((b) => ({
+          value: `REMITTANCE_BATCH:${b.id}`,
+          label: `Remittance ${b.batch_number} • ${new Date(b.created_at).toLocaleDateString()}`,
+        })),
+      };
+    },
+  });
+
+  const options = optionsQuery.data;
+
+  return (
+    <select
+      className="h-8 w-full rounded-md border border-input bg-background px-2 text-xs"
+      value={value ? `${value.type}:${value.id}` : ""}
+      disabled={disabled || !options}
+      onChange={(e) => {
+        const [type, id] = e.target.value.split(":");
+        onChange(toSupportReference(type, id));
+      }}
+      aria-label="Link a contract or remittance"
+    >
+      <option value="">
+        {optionsQuery.isError ? "Couldn't load your records" : optionsQuery.isLoading ? "Loading records…" : "Link a contract or remittance (optional)"}
+      </option>
+      {options && options.contracts.length > 0 ? (
+        <optgroup label="Contracts">
+          {options.contracts.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </optgroup>
+      ) : null}
+      {options && options.batches.length > 0 ? (
+        <optgroup label="Remittances">
+          {options.batches.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </optgroup>
+      ) : null}
+    </select>
+  );
+}
@@ -0,0 +1,111 @@
+import type { Contract } from "../../lib/contracts/types";
+import { TRANSFER_SALE_TYPE_LABELS } from "../../lib/transfers/policy";
+import type { ContractOwner, ContractTransfer } from "../../lib/transfers/types";
+
+function money(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function addressLine(o: ContractOwner) {
+  return [o.address, o.city, o.province, o.postalCode].filter(Boolean).join(", ");
+}
+
+function OwnerBlock(props: { title: string; owner: ContractOwner }) {
+  return (
+    <div className="rounded-lg border p-4">
+      <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">{props.title}</div>
+      <div className="mt-3 space-y-2 text-sm">
+        <div>
+          <div className="text-[11px] text-slate-500">Name</div>
+          <div className="font-medium">{props.owner.name || "—"}</div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <div className="text-[11px] text-slate-500">Email</div>
+            <div className="font-medium">{props.owner.email || "—"}</div>
+          </div>
+          <div>
+            <div className="text-[11px] text-slate-500">Phone</div>
+            <div className="font-medium">{props.owner.phone || "—"}</div>
+          </div>
+        </div>
+        <div>
+          <div className="text-[11px] text-slate-500">Address</div>
+          <div className="font-medium">{addressLine(props.owner) || "—"}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Printed on its own page after the contract, or alone when a print route is opened with ?endorsement=<id>.
+export function TransferEndorsement(props: { contract: Contract; transfer: ContractTransfer; productName: string; providerName: string }) {
+  const { contract, transfer } = props;
+  const vehicleLine = [contract.vehicleYear, contract.vehicleMake, contract.vehicleModel, contract.vehicleTrim].filter(Boolean).join(" ");
+
+  return (
+    <div className="print-break-before print-avoid-break border border-slate-200 p-6">
+      <div className="flex items-start justify-between gap-6">
+        <div>
+          <div className="text-[11px] font-bold uppercase tracking-widest text-slate-700">Transfer Endorsement</div>
+          <div className="text-sm text-slate-600 mt-1">
+            {props.productName} • {props.providerName}
+          </div>
+        </div>
+        <div className="text-right text-sm">
+          <div className="text-[11px] uppercase tracking-widest text-slate-500">Warranty ID</div>
+          <div className="font-semibold">{contract.warrantyId}</div>
+          <div className="text-[11px] text-slate-500 mt-1">Contract #{contract.contractNumber}</div>
+        </div>
+      </div>
+
+      <div className="mt-4 text-sm leading-relaxed text-slate-700">
+        Effective {new Date(`${transfer.transferDate}T00:00:00`).toLocaleDateString()}, all remaining rights under this Contract are
+        transferred from the Previous Owner to the New Owner named below. The Term, Mileage limits, Deductible and coverage are unchanged
+        and continue to run from the original sale date.
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 print-grid-2">
+        <OwnerBlock title="Previous Owner" owner={transfer.previousOwner} />
+        <OwnerBlock title="New Owner" owner={transfer.newOwner} />
+      </div>
+
+      <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div>
+          <div className="text-[11px] text-slate-500">VIN</div>
+          <div className="font-medium">{contract.vin || "—"}</div>
+        </div>
+        <div>
+          <div className="text-[11px] text-slate-500">Vehicle</div>
+          <div className="font-medium">{vehicleLine || "—"}</div>
+        </div>
+        <div>
+          <div className="text-[11px] text-slate-500">Odometer at transfer</div>
+          <div className="font-medium">{typeof transfer.odometerKm === "number" ? `${transfer.odometerKm.toLocaleString()} km` : "—"}</div>
+        </div>
+        <div>
+          <div className="text-[11px] text-slate-500">Transfer type / fee</div>
+          <div className="font-medium">
+            {TRANSFER_SALE_TYPE_LABELS[transfer.saleType]} • {money(transfer.transferFeeCents)}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-8 text-sm text-slate-600">
+        <div className="flex items-center gap-3">
+          <div className="w-40">New Owner Signature:</div>
+          <div className="flex-1 border-b border-slate-300" />
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="w-40">Administrator:</div>
+          <div className="flex-1 border-b border-slate-300" />
+        </div>
+      </div>
+
+      <div className="mt-4 text-[11px] text-slate-500">
+        Recorded {new Date(transfer.createdAt).toLocaleString()}
+        {transfer.createdByEmail ? ` by ${transfer.createdByEmail}` : ""} • Endorsement {transfer.id.slice(0, 8).toUpperCase()}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { TRANSFER_SALE_TYPE_LABELS } from "../../lib/transfers/policy";
+import type { ContractTransfer } from "../../lib/transfers/types";
+
+function money(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+// Oldest first, so the list reads as the chain of owners from the original purchaser.
+export function TransferHistoryList({
+  transfers,
+  onPrintEndorsement,
+}: {
+  transfers: ContractTransfer[];
+  onPrintEndorsement?: (transfer: ContractTransfer) => void;
+}) {
+  if (transfers.length === 0) return null;
+
+  return (
+    <div className="divide-y rounded-xl border">
+      {transfers.map((t) => (
+        <div key={t.id} className="p-4 flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <div className="text-sm font-medium">
+              {t.previousOwner.name || "—"} → {t.newOwner.name}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {new Date(`${t.transferDate}T00:00:00`).toLocaleDateString()} · {TRANSFER_SALE_TYPE_LABELS[t.saleType]}
+              {typeof t.odometerKm === "number" ? ` · ${t.odometerKm.toLocaleString()} km` : ""} · Fee {money(t.transferFeeCents)}
+            </div>
+            {t.notes ? <div className="text-xs mt-1">{t.notes}</div> : null}
+          </div>
+          {onPrintEndorsement ? (
+            <button type="button" className="text-xs font-medium text-blue-700 hover:underline" onClick={() => onPrintEndorsement(t)}>
+              Print endorsement
+            </button>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
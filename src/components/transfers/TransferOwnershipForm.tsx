@@ -0,0 +1,159 @@
+import { useMemo, useState } from "react";
+import { XCircle } from "lucide-react";
+
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { TRANSFER_POLICY_LABELS, TRANSFER_SALE_TYPE_LABELS, checkTransferEligibility, type TransferCheckInput } from "../../lib/transfers/policy";
+import type { ContractOwner, TransferSaleType } from "../../lib/transfers/types";
+import { alertMissing, sanitizeDigitsOnly, sanitizeLettersOnly } from "../../lib/utils";
+
+export type TransferOwnershipDraft = {
+  transferDate: string;
+  odometerKm?: number;
+  saleType: TransferSaleType;
+  newOwner: ContractOwner;
+  notes?: string;
+};
+
+type TransferRules = Omit<TransferCheckInput, "saleType" | "transferDate" | "transferOdometerKm">;
+
+function money(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function optional(value: string) {
+  const v = value.trim();
+  return v ? v : undefined;
+}
+
+export function TransferOwnershipForm({
+  rules,
+  transferFeeCents,
+  isSubmitting,
+  onSubmit,
+}: {
+  rules: TransferRules;
+  transferFeeCents: number;
+  isSubmitting?: boolean;
+  onSubmit: (draft: TransferOwnershipDraft) => Promise<void>;
+}) {
+  const [transferDate, setTransferDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [odometerKm, setOdometerKm] = useState("");
+  const [saleType, setSaleType] = useState<TransferSaleType>("PRIVATE_SALE");
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [address, setAddress] = useState("");
+  const [city, setCity] = useState("");
+  const [province, setProvince] = useState("");
+  const [postalCode, setPostalCode] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const parsedOdometerKm = odometerKm.trim() ? Number(odometerKm) : undefined;
+
+  const check = useMemo(
+    () => checkTransferEligibility({ ...rules, saleType, transferDate, transferOdometerKm: parsedOdometerKm }),
+    [parsedOdometerKm, rules, saleType, transferDate],
+  );
+
+  const submit = async () => {
+    if (!name.trim()) return alertMissing("Enter the new owner's name.");
+    if (typeof parsedOdometerKm !== "number") return alertMissing("Enter the odometer reading at transfer.");
+    if (!check.allowed) return alertMissing(check.reasons.join("\n"), "Transfer not allowed");
+
+    try {
+      await onSubmit({
+        transferDate,
+        odometerKm: parsedOdometerKm,
+        saleType,
+        newOwner: {
+          name: name.trim(),
+          email: optional(email),
+          phone: optional(phone),
+          address: optional(address),
+          city: optional(city),
+          province: optional(province),
+          postalCode: optional(postalCode)?.toUpperCase(),
+        },
+        notes: optional(notes),
+      });
+    } catch {
+      // The caller reports the error; keep the draft so it can be retried.
+      return;
+    }
+
+    setOdometerKm("");
+    setName("");
+    setEmail("");
+    setPhone("");
+    setAddress("");
+    setCity("");
+    setProvince("");
+    setPostalCode("");
+    setNotes("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-muted-foreground">
+        {TRANSFER_POLICY_LABELS[rules.policy ?? "ORIGINAL_OWNER_PRIVATE_SALE"]} · Transfer fee {money(transferFeeCents)}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <Input type="date" value={transferDate} onChange={(e) => setTransferDate(e.target.value)} />
+        <Input
+          value={odometerKm}
+          onChange={(e) => setOdometerKm(sanitizeDigitsOnly(e.target.value))}
+          placeholder="Odometer at transfer (km)"
+          inputMode="numeric"
+        />
+        <select
+          className="w-full rounded-xl border bg-background px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-600/20"
+          value={saleType}
+          onChange={(e) => setSaleType(e.target.value as TransferSaleType)}
+        >
+          {(Object.keys(TRANSFER_SALE_TYPE_LABELS) as TransferSaleType[]).map((t) => (
+            <option key={t} value={t}>
+              {TRANSFER_SALE_TYPE_LABELS[t]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-2">
+        <Input className="md:col-span-2" value={name} onChange={(e) => setName(sanitizeLettersOnly(e.target.value))} placeholder="New owner full name" />
+        <Input className="md:col-span-2" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" type="email" />
+        <Input
+          className="md:col-span-2"
+          value={phone}
+          onChange={(e) => setPhone(sanitizeDigitsOnly(e.target.value))}
+          placeholder="Phone"
+          inputMode="tel"
+        />
+        <Input className="md:col-span-3" value={address} onChange={(e) => setAddress(e.target.value)} placeholder="Street address" />
+        <Input value={city} onChange={(e) => setCity(sanitizeLettersOnly(e.target.value))} placeholder="City" />
+        <Input value={province} onChange={(e) => setProvince(sanitizeLettersOnly(e.target.value))} placeholder="Province" />
+        <Input value={postalCode} onChange={(e) => setPostalCode(e.target.value)} placeholder="Postal code" />
+      </div>
+
+      <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes (optional)" />
+
+      {check.reasons.length > 0 ? (
+        <ul className="space-y-1">
+          {check.reasons.map((reason) => (
+            <li key={reason} className="flex items-start gap-1.5 text-xs text-destructive">
+              <XCircle className="w-3.5 h-3.5 shrink-0 mt-px" />
+              <span>{reason}</span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      <div>
+        <Button variant="outline" onClick={() => void submit()} disabled={isSubmitting || !check.allowed}>
+          Transfer contract
+        </Button>
+      </div>
+    </div>
+  );
+}
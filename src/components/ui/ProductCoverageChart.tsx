@@ -2,6 +2,7 @@ import React from "react";
 import { Check, Circle, Info } from "lucide-react";
 import { cn } from "../../lib/utils";
 import type { CoverageDetails, CoverageItem, CoverageStatus } from "../../lib/products/types";
+import { EV_COVERAGE_CATEGORY, isEvCoverageItem } from "../../lib/products/evCoverage";
 
 interface ProductCoverageChartProps {
   productName: string;
@@ -47,11 +48,12 @@ function normalizeCoverageDetails(raw: CoverageDetails | Record<string, any> | n
     const items: CoverageItem[] = [];
     for (const cat of obj.categories) {
       if (!cat.name && (!cat.parts || cat.parts.length === 0)) continue;
+      const ev = cat.name === EV_COVERAGE_CATEGORY;
       for (const part of cat.parts || []) {
         if (typeof part === "string" && part.trim()) {
-          items.push({ id: `${cat.name}-${part}`, name: part.trim(), status: "included" });
+          items.push({ id: `${cat.name}-${part}`, name: part.trim(), status: "included", ...(ev ? { ev } : {}) });
         } else if (typeof part === "object" && part.name) {
-          items.push({ id: part.id || `${cat.name}-${part.name}`, name: part.name, status: part.status || "included" });
+          items.push({ id: part.id || `${cat.name}-${part.name}`, name: part.name, status: part.status || "included", ...(ev ? { ev } : {}) });
         }
       }
       if ((!cat.parts || cat.parts.length === 0) && cat.name) {
@@ -118,7 +120,8 @@ const ProductCoverageChart: React.FC<ProductCoverageChartProps> = ({
   coverageDetails: rawCoverageDetails,
 }) => {
   const coverageDetails = normalizeCoverageDetails(rawCoverageDetails);
-  const powertrainItems = coverageDetails?.items?.filter((i) => i.status === "included" || i.status === "term_specific") || [];
+  const powertrainItems = coverageDetails?.items?.filter((i) => !isEvCoverageItem(i) && (i.status === "included" || i.status === "term_specific")) || [];
+  const evItems = coverageDetails?.items?.filter((i) => isEvCoverageItem(i) && i.status !== "not_included") || [];
   const additionalItems = coverageDetails?.items?.filter((i) => i.status === "not_included") || [];
 
   const hasCoverage = (coverageDetails?.items?.length || 0) > 0;
@@ -165,6 +168,12 @@ const ProductCoverageChart: React.FC<ProductCoverageChartProps> = ({
             </div>
           )}
 
+          {evItems.length > 0 && (
+            <div className="px-5 pb-2">
+              <CoverageSection title="Electric Vehicle Components" items={evItems} />
+            </div>
+          )}
+
           {additionalItems.length > 0 && (
             <div className="px-5 pb-5">
               <CoverageSection title="Not Included" items={additionalItems} />
@@ -0,0 +1,32 @@
+import { useMemo } from "react";
+
+import { encodeQrCode } from "../../lib/verification/qrCode";
+import { verificationUrl } from "../../lib/verification/token";
+
+// QR code that resolves to /verify with a signed token; repair shops scan it to check a printed copy.
+export function ContractVerificationStamp({ token, className }: { token: string | null | undefined; className?: string }) {
+  const url = token ? verificationUrl(window.location.origin, token) : "";
+  const qr = useMemo(() => (url ? encodeQrCode(url) : null), [url]);
+
+  if (!qr) return null;
+
+  // Four-module quiet zone around the symbol, as readers expect.
+  const quiet = 4;
+  const dim = qr.size + quiet * 2;
+  let path = "";
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path += `M${x + quiet} ${y + quiet}h1v1h-1z`;
+    });
+  });
+
+  return (
+    <div className={className}>
+      <svg viewBox={`0 0 ${dim} ${dim}`} className="h-24 w-24" shapeRendering="crispEdges" role="img" aria-label="Contract verification QR code">
+        <rect width={dim} height={dim} fill="#fff" />
+        <path d={path} fill="#000" />
+      </svg>
+      <div className="mt-1 text-[10px] leading-tight text-slate-500">Scan to verify this contract</div>
+    </div>
+  );
+}
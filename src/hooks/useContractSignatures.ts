@@ -0,0 +1,36 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+import type { Contract } from "../lib/contracts/types";
+import { contractSignatureState, hashContractContent, latestSignatures } from "../lib/signatures/content";
+import { getContractSignaturesApi } from "../lib/signatures/signatures";
+
+// Signatures on a contract and whether they still cover its current content.
+export function useContractSignatures(contract: Contract | null | undefined) {
+  const api = useMemo(() => getContractSignaturesApi(), []);
+  const contractId = contract?.id ?? "";
+
+  const signaturesQuery = useQuery({
+    queryKey: ["contract-signatures", contractId],
+    enabled: !!contractId,
+    queryFn: () => api.listByContract(contractId),
+  });
+
+  const hashQuery = useQuery({
+    queryKey: ["contract-content-hash", contractId, contract?.updatedAt],
+    enabled: !!contract,
+    queryFn: () => hashContractContent(contract as Contract),
+  });
+
+  const signatures = signaturesQuery.data ?? [];
+  const contentHash = hashQuery.data ?? "";
+
+  return {
+    signatures,
+    latest: latestSignatures(signatures),
+    contentHash,
+    state: contentHash ? contractSignatureState(signatures, contentHash) : "UNSIGNED",
+    isLoaded: !signaturesQuery.isLoading && !hashQuery.isLoading,
+    error: signaturesQuery.error,
+  } as const;
+}
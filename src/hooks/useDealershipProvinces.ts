@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { getDealershipsApi } from "../lib/dealerships/dealerships";
+import { getAppMode } from "../lib/runtime";
+
+const NO_PROVINCES = new Map<string, string>();
+
+// Province of each selling dealership, keyed by dealership id. Contract sales tax
+// falls back to it when the customer's province is not on the contract.
+export function useDealershipProvinces(dealershipIds: (string | undefined)[]) {
+  const ids = [...new Set(dealershipIds.map((id) => (id ?? "").trim()).filter(Boolean))].sort();
+
+  const query = useQuery({
+    queryKey: ["dealership-provinces", ids],
+    enabled: getAppMode() === "supabase" && ids.length > 0,
+    queryFn: async () => {
+      const api = getDealershipsApi();
+      const dealerships = await Promise.all(ids.map((id) => api.get(id)));
+      const provinces = new Map<string, string>();
+      for (const d of dealerships) if (d?.province) provinces.set(d.id, d.province);
+      return provinces;
+    },
+  });
+
+  return query.data ?? NO_PROVINCES;
+}
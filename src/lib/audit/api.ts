@@ -0,0 +1,9 @@
+import type { AuditChainVerification, AuditEvent, AuditEventPage, ListAuditEventsOptions, LogAuditEventInput } from "./types";
+
+export type AuditApi = {
+  // Fire-and-forget: callers log after a mutation succeeds and never wait on the audit write.
+  log(input: LogAuditEventInput): AuditEvent;
+  list(options?: ListAuditEventsOptions): Promise<AuditEventPage>;
+  // null when the backend keeps no hash chain (local mode).
+  verifyChain(): Promise<AuditChainVerification | null>;
+};
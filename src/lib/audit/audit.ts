@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { AuditApi } from "./api";
+import { localAuditApi } from "./localAudit";
+import { supabaseAuditApi } from "./supabaseAudit";
+
+export function getAuditApi(): AuditApi {
+  return getAppMode() === "supabase" ? supabaseAuditApi : localAuditApi;
+}
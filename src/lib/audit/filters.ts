@@ -0,0 +1,42 @@
+import type { AuditEvent, ListAuditEventsOptions } from "./types";
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 200;
+
+function bound(value: string | undefined, end: boolean) {
+  const v = (value ?? "").trim();
+  if (!v) return null;
+  // A bare date covers the whole local day.
+  const d = /^\d{4}-\d{2}-\d{2}$/.test(v) ? new Date(`${v}T${end ? "23:59:59.999" : "00:00:00"}`) : new Date(v);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+export function auditDateBounds(options: Pick<ListAuditEventsOptions, "from" | "to">) {
+  return { from: bound(options.from, false), to: bound(options.to, true) };
+}
+
+export function auditPageRange(options: Pick<ListAuditEventsOptions, "offset" | "limit">) {
+  const offset = Math.max(0, Math.floor(options.offset ?? 0));
+  const limit = Math.max(0, Math.floor(options.limit ?? DEFAULT_AUDIT_PAGE_SIZE));
+  return { offset, limit };
+}
+
+export function matchesAuditFilters(e: AuditEvent, options: ListAuditEventsOptions) {
+  const eq = (filter: string | undefined, value: string | undefined) => {
+    const f = (filter ?? "").trim();
+    return !f || (value ?? "").trim() === f;
+  };
+  const { from, to } = auditDateBounds(options);
+  const actorEmail = (options.actorEmail ?? "").trim().toLowerCase();
+
+  return (
+    eq(options.dealerId, e.dealerId) &&
+    eq(options.providerId, e.providerId) &&
+    eq(options.actorUserId, e.actorUserId) &&
+    eq(options.entityType, e.entityType) &&
+    eq(options.entityId, e.entityId) &&
+    eq(options.kind, e.kind) &&
+    (!actorEmail || (e.actorEmail ?? "").toLowerCase().includes(actorEmail)) &&
+    (!from || e.createdAt >= from) &&
+    (!to || e.createdAt <= to)
+  );
+}
@@ -0,0 +1,75 @@
+import type { AuditApi } from "./api";
+import { auditPageRange, matchesAuditFilters } from "./filters";
+import type { AuditEvent, ListAuditEventsOptions, LogAuditEventInput } from "./types";
+
+const STORAGE_KEY = "warrantyhub.local.audit_events";
+
+function read(): AuditEvent[] {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<AuditEvent>[];
+    return (Array.isArray(parsed) ? parsed : [])
+      .map((e): AuditEvent => {
+        const createdAt = typeof e.createdAt === "string" ? e.createdAt : new Date().toISOString();
+        return {
+          id: typeof e.id === "string" ? e.id : crypto.randomUUID(),
+          createdAt,
+          kind: typeof e.kind === "string" ? e.kind : "UNKNOWN",
+          actorUserId: typeof e.actorUserId === "string" ? e.actorUserId : undefined,
+          actorEmail: typeof e.actorEmail === "string" ? e.actorEmail : undefined,
+          actorRole: typeof e.actorRole === "string" ? e.actorRole : undefined,
+          dealerId: typeof e.dealerId === "string" ? e.dealerId : undefined,
+          providerId: typeof e.providerId === "string" ? e.providerId : undefined,
+          entityType: typeof e.entityType === "string" ? e.entityType : undefined,
+          entityId: typeof e.entityId === "string" ? e.entityId : undefined,
+          message: typeof e.message === "string" ? e.message : undefined,
+          meta: e.meta && typeof e.meta === "object" ? (e.meta as Record<string, unknown>) : undefined,
+        };
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch {
+    return [];
+  }
+}
+
+function write(items: AuditEvent[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch {
+  }
+}
+
+export const localAuditApi: AuditApi = {
+  log(input: LogAuditEventInput) {
+    const evt: AuditEvent = {
+      id: crypto.randomUUID(),
+      createdAt: input.createdAt ?? new Date().toISOString(),
+      kind: input.kind,
+      actorUserId: input.actorUserId,
+      actorEmail: input.actorEmail,
+      actorRole: input.actorRole,
+      dealerId: input.dealerId,
+      providerId: input.providerId,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      message: input.message,
+      meta: input.meta,
+    };
+
+    const existing = read();
+    const next = [evt, ...existing].slice(0, 5000);
+    write(next);
+    return evt;
+  },
+
+  async list(options: ListAuditEventsOptions = {}) {
+    const { offset, limit } = auditPageRange(options);
+    const matched = read().filter((e) => matchesAuditFilters(e, options));
+    return { data: matched.slice(offset, offset + limit), total: matched.length };
+  },
+
+  async verifyChain() {
+    return null;
+  },
+};
@@ -0,0 +1,119 @@
+import { getSupabaseClient } from "../supabase/client";
+
+import type { AuditApi } from "./api";
+import { auditDateBounds, auditPageRange } from "./filters";
+import type { AuditEvent, AuditEventSource, ListAuditEventsOptions, LogAuditEventInput } from "./types";
+
+type AuditEventsRow = {
+  id: string;
+  seq: number;
+  created_at: string;
+  kind: string;
+  actor_user_id?: string | null;
+  actor_email?: string | null;
+  actor_role?: string | null;
+  dealer_id?: string | null;
+  provider_id?: string | null;
+  entity_type?: string | null;
+  entity_id?: string | null;
+  message?: string | null;
+  meta?: Record<string, unknown> | null;
+  source: string;
+  prev_hash: string;
+  hash: string;
+};
+
+function toAuditEvent(r: AuditEventsRow): AuditEvent {
+  return {
+    id: r.id,
+    createdAt: r.created_at,
+    kind: r.kind,
+    actorUserId: r.actor_user_id ?? undefined,
+    actorEmail: r.actor_email ?? undefined,
+    actorRole: r.actor_role ?? undefined,
+    dealerId: r.dealer_id ?? undefined,
+    providerId: r.provider_id ?? undefined,
+    entityType: r.entity_type ?? undefined,
+    entityId: r.entity_id ?? undefined,
+    message: r.message ?? undefined,
+    meta: r.meta && typeof r.meta === "object" ? r.meta : undefined,
+    seq: Number(r.seq),
+    source: r.source as AuditEventSource,
+    prevHash: r.prev_hash,
+    hash: r.hash,
+  };
+}
+
+export const supabaseAuditApi: AuditApi = {
+  log(input: LogAuditEventInput) {
+    const evt: AuditEvent = {
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      ...input,
+    };
+
+    // The server stamps the actor and role from the session, checks the caller belongs to the dealer or
+    // provider, and chains the row; the timestamp and id here are provisional.
+    const supabase = getSupabaseClient();
+    if (!supabase) return evt;
+    void supabase
+      .rpc("log_audit_event", {
+        p_kind: input.kind,
+        p_dealer_id: input.dealerId ?? null,
+        p_provider_id: input.providerId ?? null,
+        p_entity_type: input.entityType ?? null,
+        p_entity_id: input.entityId ?? null,
+        p_message: input.message ?? null,
+        p_meta: input.meta ?? null,
+      })
+      .then(({ error }) => {
+        if (error) console.error("audit_event_log_failed", { kind: input.kind, message: error.message });
+      });
+    return evt;
+  },
+
+  async list(options: ListAuditEventsOptions = {}) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { offset, limit } = auditPageRange(options);
+    if (limit === 0) return { data: [], total: null };
+    const { from, to } = auditDateBounds(options);
+
+    let q = supabase.from("audit_events").select("*", { count: "exact", head: false });
+    const dealerId = (options.dealerId ?? "").trim();
+    const providerId = (options.providerId ?? "").trim();
+    const actorUserId = (options.actorUserId ?? "").trim();
+    const actorEmail = (options.actorEmail ?? "").trim();
+    const entityType = (options.entityType ?? "").trim();
+    const entityId = (options.entityId ?? "").trim();
+    const kind = (options.kind ?? "").trim();
+    if (dealerId) q = q.eq("dealer_id", dealerId);
+    if (providerId) q = q.eq("provider_id", providerId);
+    if (actorUserId) q = q.eq("actor_user_id", actorUserId);
+    if (actorEmail) q = q.ilike("actor_email", `%${actorEmail}%`);
+    if (entityType) q = q.eq("entity_type", entityType);
+    if (entityId) q = q.eq("entity_id", entityId);
+    if (kind) q = q.eq("kind", kind);
+    if (from) q = q.gte("created_at", from);
+    if (to) q = q.lte("created_at", to);
+
+    const { data, error, count } = await q.order("seq", { ascending: false }).range(offset, offset + limit - 1);
+
+    if (error) throw error;
+    return { data: (data as AuditEventsRow[]).map(toAuditEvent), total: count };
+  },
+
+  async verifyChain() {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase.rpc("verify_audit_chain");
+    if (error) throw error;
+    const row = (Array.isArray(data) ? data[0] : data) as { checked?: number | string; first_broken_seq?: number | string | null } | null;
+    return {
+      checked: Number(row?.checked ?? 0),
+      firstBrokenSeq: row?.first_broken_seq === null || row?.first_broken_seq === undefined ? null : Number(row.first_broken_seq),
+    };
+  },
+};
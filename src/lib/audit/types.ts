@@ -0,0 +1,48 @@
+export type AuditEventSource = "app" | "edge" | "db";
+
+export type AuditEvent = {
+  id: string;
+  createdAt: string;
+  kind: string;
+  actorUserId?: string;
+  actorEmail?: string;
+  actorRole?: string;
+  dealerId?: string;
+  providerId?: string;
+  entityType?: string;
+  entityId?: string;
+  message?: string;
+  meta?: Record<string, unknown>;
+  // Server-side rows only: position in the hash chain and the hashes that link it to the previous row.
+  seq?: number;
+  source?: AuditEventSource;
+  prevHash?: string;
+  hash?: string;
+};
+
+export type LogAuditEventInput = Omit<AuditEvent, "id" | "createdAt" | "seq" | "source" | "prevHash" | "hash"> & { createdAt?: string };
+
+export type ListAuditEventsOptions = {
+  dealerId?: string;
+  providerId?: string;
+  actorUserId?: string;
+  actorEmail?: string;
+  entityType?: string;
+  entityId?: string;
+  kind?: string;
+  // Inclusive ISO dates or timestamps.
+  from?: string;
+  to?: string;
+  offset?: number;
+  limit?: number;
+};
+
+export type AuditEventPage = {
+  data: AuditEvent[];
+  total: number | null;
+};
+
+export type AuditChainVerification = {
+  checked: number;
+  firstBrokenSeq: number | null;
+};
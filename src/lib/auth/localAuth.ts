@@ -1,6 +1,8 @@
 import type { AuthApi } from "./api";
 import type { AuthUser, Role } from "./types";
 
+import { resolveLocalPermissions } from "../permissions/localPermissions";
+
 const STORAGE_USERS = "warrantyhub.local.users";
 const STORAGE_SESSION = "warrantyhub.local.session";
 const STORAGE_DEALER_MEMBERSHIPS = "warrantyhub.local.dealer_memberships";
@@ -127,7 +129,20 @@ function toAuthUser(u: LocalUserRecord): AuthUser {
     }
   }
 
-  return { id: u.id, email: u.email, role: effectiveRole, dealerId: effectiveDealerId, companyName: u.companyName };
+  return {
+    id: u.id,
+    email: u.email,
+    role: effectiveRole,
+    dealerId: effectiveDealerId,
+    companyName: u.companyName,
+    permissions: resolveLocalPermissions(u.id, effectiveRole),
+  };
+}
+
+// Used by admin impersonation to render the portal as another local user.
+export function getLocalAuthUserById(userId: string): AuthUser | null {
+  const u = readUsers().find((x) => x.id === userId);
+  return u ? toAuthUser(u) : null;
 }
 
 const listeners = new Set<() => void>();
@@ -1,6 +1,8 @@
 import type { AuthApi } from "./api";
 import type { Role } from "./types";
 
+import { isPermission } from "../permissions/catalog";
+import type { Permission } from "../permissions/types";
 import { getSupabaseClient } from "../supabase/client";
 
 const AUTH_NOTICE_KEY = "warrantyhub.local.auth_notice";
@@ -76,6 +78,16 @@ async function getActiveDealerMembershipInfo(userId: string): Promise<DealerMemb
   };
 }
 
+async function getCurrentUserPermissions(): Promise<Permission[] | undefined> {
+  const supabase = getSupabaseClient();
+  if (!supabase) return undefined;
+
+  // Before the permissions migration is applied the RPC is missing; role defaults apply then.
+  const { data, error } = await supabase.rpc("current_user_permissions");
+  if (error) return undefined;
+  return ((data ?? []) as unknown[]).filter(isPermission);
+}
+
 const V2_TO_V1_ROLE: Record<string, Role> = {
   super_admin: "SUPER_ADMIN",
   dealership_admin: "DEALER_ADMIN",
@@ -158,7 +170,9 @@ export const supabaseAuthApi: AuthApi = {
       return null;
     }
 
-    const base = { id: user.id, email: user.email, role: state.effectiveRole };
+    const permissions =
+      state.effectiveRole === "DEALER_EMPLOYEE" || state.effectiveRole === "PROVIDER" ? await getCurrentUserPermissions() : undefined;
+    const base = { id: user.id, email: user.email, role: state.effectiveRole, permissions };
     if (state.effectiveRole !== "DEALER_ADMIN" && state.effectiveRole !== "DEALER_EMPLOYEE") return base;
 
     const membership = await getActiveDealerMembershipInfo(user.id);
@@ -216,7 +230,9 @@ export const supabaseAuthApi: AuthApi = {
       throw new Error("Access revoked");
     }
 
-    const base = { id: user.id, email: user.email, role: state.effectiveRole };
+    const permissions =
+      state.effectiveRole === "DEALER_EMPLOYEE" || state.effectiveRole === "PROVIDER" ? await getCurrentUserPermissions() : undefined;
+    const base = { id: user.id, email: user.email, role: state.effectiveRole, permissions };
     if (state.effectiveRole !== "DEALER_ADMIN" && state.effectiveRole !== "DEALER_EMPLOYEE") return base;
 
     const membership = await getActiveDealerMembershipInfo(user.id);
@@ -1,3 +1,5 @@
+import type { Permission } from "../permissions/types";
+
 export type Role = "UNASSIGNED" | "ADMIN" | "SUPER_ADMIN" | "DEALER_ADMIN" | "DEALER_EMPLOYEE" | "PROVIDER";
 
 export type AuthUser = {
@@ -11,6 +13,8 @@ export type AuthUser = {
   dealerSubscriptionCurrentPeriodEnd?: string | null;
   dealerSubscriptionTrialEnd?: string | null;
   dealerContractFeeCents?: number | null;
+  // Resolved from the member's role template; falls back to the role defaults when absent.
+  permissions?: Permission[];
 };
 
 export type AuthState = {
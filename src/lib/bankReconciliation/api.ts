@@ -0,0 +1,10 @@
+import type { RemittanceActor } from "../batches/workflow";
+
+import type { ApplyBankDepositInput, BankDepositMatch } from "./types";
+
+export type BankReconciliationApi = {
+  listDeposits(): Promise<BankDepositMatch[]>;
+  // Marks every remittance in the match PAID from the statement line and stores the line as
+  // evidence. The actor is used in local mode only; Supabase takes it from the session.
+  applyDeposit(input: ApplyBankDepositInput, actor?: RemittanceActor): Promise<BankDepositMatch>;
+};
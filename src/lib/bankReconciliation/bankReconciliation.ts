@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { BankReconciliationApi } from "./api";
+import { localBankReconciliationApi } from "./localBankReconciliation";
+import { supabaseBankReconciliationApi } from "./supabaseBankReconciliation";
+
+export function getBankReconciliationApi(): BankReconciliationApi {
+  return getAppMode() === "supabase" ? supabaseBankReconciliationApi : localBankReconciliationApi;
+}
@@ -0,0 +1,108 @@
+import { logAuditEvent } from "../auditLog";
+import { localBatchesApi } from "../batches/localBatches";
+import { allocatePayment } from "../batches/payments";
+
+import type { BankReconciliationApi } from "./api";
+import { depositAllocationProblem, depositShortfallCents, statementPaymentMethod, statementPaymentReference } from "./matching";
+import type { ApplyBankDepositInput, BankDepositMatch, BankStatementLine } from "./types";
+
+const STORAGE_KEY = "warrantyhub.local.bank_deposit_matches";
+
+function read(): BankDepositMatch[] {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<BankDepositMatch>[];
+    return (Array.isArray(parsed) ? parsed : [])
+      .map((m): BankDepositMatch => ({
+        id: typeof m.id === "string" ? m.id : crypto.randomUUID(),
+        providerId: typeof m.providerId === "string" ? m.providerId : undefined,
+        statementFileName: typeof m.statementFileName === "string" ? m.statementFileName : "",
+        statementFormat: m.statementFormat === "OFX" ? "OFX" : "CSV",
+        line: (m.line ?? {}) as BankStatementLine,
+        batchIds: Array.isArray(m.batchIds) ? m.batchIds : [],
+        paymentMethod: m.paymentMethod === "CHEQUE" ? "CHEQUE" : "EFT",
+        shortfallCents: typeof m.shortfallCents === "number" ? m.shortfallCents : 0,
+        matchedByUserId: typeof m.matchedByUserId === "string" ? m.matchedByUserId : undefined,
+        matchedByEmail: typeof m.matchedByEmail === "string" ? m.matchedByEmail : undefined,
+        matchedAt: typeof m.matchedAt === "string" ? m.matchedAt : new Date().toISOString(),
+      }))
+      .filter((m) => typeof m.line.key === "string" && m.batchIds.length > 0);
+  } catch {
+    return [];
+  }
+}
+
+function write(items: BankDepositMatch[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+export const localBankReconciliationApi: BankReconciliationApi = {
+  async listDeposits() {
+    return read().sort((a, b) => b.matchedAt.localeCompare(a.matchedAt));
+  },
+
+  async applyDeposit(input: ApplyBankDepositInput, actor) {
+    if (!actor) throw new Error("Not authenticated");
+
+    const existing = read();
+    const providerIds = new Set<string>();
+    const all = await localBatchesApi.list();
+    const batches = input.batchIds.map((id) => {
+      const b = all.find((x) => x.id === id);
+      if (!b) throw new Error("Batch not found");
+      providerIds.add((b.providerId ?? "").trim());
+      return b;
+    });
+
+    const problem = depositAllocationProblem(input.line, batches);
+    if (problem) throw new Error(problem);
+    const providerId = Array.from(providerIds)[0] || undefined;
+    if (existing.some((m) => m.line.key === input.line.key && m.providerId === providerId)) {
+      throw new Error("This statement line has already been applied");
+    }
+
+    // A short deposit settles the oldest approvals first and leaves the rest partially paid.
+    const paymentMethod = statementPaymentMethod(input.line);
+    const depositId = crypto.randomUUID();
+    await localBatchesApi.recordPayment(
+      {
+        method: paymentMethod,
+        reference: statementPaymentReference(input.line),
+        paymentDate: input.line.postedDate,
+        allocations: allocatePayment(input.line.amountCents, batches).allocations,
+        bankDepositId: depositId,
+      },
+      actor,
+    );
+
+    const match: BankDepositMatch = {
+      id: depositId,
+      providerId,
+      statementFileName: input.statementFileName,
+      statementFormat: input.statementFormat,
+      line: input.line,
+      batchIds: batches.map((b) => b.id),
+      paymentMethod,
+      shortfallCents: depositShortfallCents(input.line, batches),
+      matchedByUserId: actor.id,
+      matchedByEmail: actor.email,
+      matchedAt: new Date().toISOString(),
+    };
+    write([match, ...existing]);
+
+    logAuditEvent({
+      kind: "REMITTANCE_DEPOSIT_MATCHED",
+      actorUserId: actor.id,
+      actorEmail: actor.email,
+      actorRole: actor.role,
+      providerId,
+      entityType: "remittance",
+      entityId: match.batchIds[0],
+      message: `Matched deposit of $${(input.line.amountCents / 100).toFixed(2)} on ${input.line.postedDate} to ${batches.map((b) => b.batchNumber).join(", ")}`,
+      meta: { depositMatchId: match.id, batchIds: match.batchIds, shortfallCents: match.shortfallCents, lineKey: input.line.key },
+    });
+
+    return match;
+  },
+};
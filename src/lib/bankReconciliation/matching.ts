@@ -0,0 +1,197 @@
+import { isAwaitingPayment, remittanceBalanceCents } from "../batches/payments";
+import type { Batch, PaymentMethod } from "../batches/types";
+
+import type { BankStatementLine, ReconciliationProposal } from "./types";
+
+// Deposits are expected shortly after a remittance is approved; a few days' slack before
+// covers providers who pay on submission.
+export const RECONCILIATION_WINDOW = { daysBefore: 5, daysAfter: 45 };
+
+// A single deposit is only matched to combinations of up to this many remittances.
+const MAX_COMBINED_BATCHES = 4;
+const MAX_COMBINATION_CANDIDATES = 12;
+
+function money(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function dayNumber(isoDate: string) {
+  return Math.floor(Date.parse(`${isoDate.slice(0, 10)}T00:00:00Z`) / 86_400_000);
+}
+
+function approvedOn(b: Batch) {
+  return (b.reviewedAt ?? b.submittedAt ?? b.createdAt).slice(0, 10);
+}
+
+// Days from approval to deposit; negative when the money arrived first.
+function daysAfterApproval(line: BankStatementLine, b: Batch) {
+  return dayNumber(line.postedDate) - dayNumber(approvedOn(b));
+}
+
+function inWindow(line: BankStatementLine, b: Batch, window = RECONCILIATION_WINDOW) {
+  const d = daysAfterApproval(line, b);
+  return d >= -window.daysBefore && d <= window.daysAfter;
+}
+
+function normalizedText(v: string) {
+  return ` ${v.toUpperCase().replace(/[^A-Z0-9]+/g, " ").trim()} `;
+}
+
+// Remittances whose number appears in the line's reference, cheque number or description.
+export function referencedBatches(line: BankStatementLine, batches: Batch[]) {
+  const text = normalizedText([line.reference, line.checkNumber, line.description].filter(Boolean).join(" "));
+  return batches.filter((b) => {
+    const number = normalizedText(b.batchNumber).trim();
+    return number.length >= 3 && text.includes(` ${number} `);
+  });
+}
+
+export function statementPaymentMethod(line: Pick<BankStatementLine, "description" | "checkNumber">): PaymentMethod {
+  if ((line.checkNumber ?? "").trim()) return "CHEQUE";
+  return /\b(cheque|check|chq|chk)\b/i.test(line.description) ? "CHEQUE" : "EFT";
+}
+
+export function statementPaymentReference(line: BankStatementLine) {
+  return (line.reference ?? "").trim() || (line.checkNumber ?? "").trim() || line.description.trim() || line.key;
+}
+
+// Deposits are matched against what is still owing, so a later instalment can settle a
+// partially paid remittance.
+function sum(batches: Batch[]) {
+  return batches.reduce((s, b) => s + remittanceBalanceCents(b), 0);
+}
+
+function combinationsSummingTo(candidates: Batch[], target: number) {
+  const found: Batch[][] = [];
+  const walk = (start: number, picked: Batch[], total: number) => {
+    if (found.length > 1) return;
+    if (picked.length >= 2 && total === target) {
+      found.push(picked);
+      return;
+    }
+    if (picked.length === MAX_COMBINED_BATCHES) return;
+    for (let i = start; i < candidates.length; i += 1) {
+      const next = total + remittanceBalanceCents(candidates[i]!);
+      if (next > target) continue;
+      walk(i + 1, [...picked, candidates[i]!], next);
+    }
+  };
+  walk(0, [], 0);
+  return found;
+}
+
+// Why a deposit can't be applied to these remittances, if anything. A deposit short of the
+// outstanding balance is allowed (the remittances stay partially paid); one larger is not.
+export function depositAllocationProblem(line: BankStatementLine, batches: Batch[]) {
+  if (line.amountCents <= 0) return "Only deposits can be matched to remittances";
+  if (batches.length === 0) return "Choose at least one remittance";
+  const notApproved = batches.find((b) => !isAwaitingPayment(b));
+  if (notApproved) return `Remittance ${notApproved.batchNumber} is not awaiting payment`;
+  const providers = new Set(batches.map((b) => (b.providerId ?? "").trim()));
+  if (providers.size > 1) return "A deposit can only pay remittances for one provider";
+  if (line.amountCents > sum(batches)) return `Deposit of ${money(line.amountCents)} is more than the ${money(sum(batches))} outstanding`;
+  return null;
+}
+
+export function depositShortfallCents(line: BankStatementLine, batches: Batch[]) {
+  return Math.max(0, sum(batches) - line.amountCents);
+}
+
+// Proposes which remittances awaiting payment each deposit pays, strongest evidence first: the
+// remittance number on the deposit, then a unique exact amount, then several remittances
+// adding up to the deposit. Each remittance is proposed at most once. Lines already applied
+// (appliedLineKeys) and withdrawals are skipped.
+export function proposeReconciliationMatches(
+  lines: BankStatementLine[],
+  batches: Batch[],
+  options: { appliedLineKeys?: Iterable<string>; window?: typeof RECONCILIATION_WINDOW } = {},
+) {
+  const window = options.window ?? RECONCILIATION_WINDOW;
+  const applied = new Set(options.appliedLineKeys ?? []);
+  const awaiting = batches.filter(isAwaitingPayment);
+  const used = new Set<string>();
+  const proposals: ReconciliationProposal[] = [];
+  const open = () => awaiting.filter((b) => !used.has(b.id));
+
+  let remaining = lines.filter((l) => l.amountCents > 0 && !applied.has(l.key));
+  const propose = (p: ReconciliationProposal) => {
+    proposals.push(p);
+    for (const id of p.batchIds) used.add(id);
+    remaining = remaining.filter((l) => l.key !== p.line.key);
+  };
+
+  for (const line of remaining) {
+    const refs = referencedBatches(line, open());
+    if (refs.length === 0) continue;
+    if (new Set(refs.map((b) => (b.providerId ?? "").trim())).size > 1) continue;
+    const total = sum(refs);
+    const numbers = refs.map((b) => b.batchNumber).join(", ");
+    if (total === line.amountCents) {
+      propose({
+        line,
+        batchIds: refs.map((b) => b.id),
+        kind: refs.length === 1 ? "EXACT" : "COMBINED",
+        confidence: "HIGH",
+        shortfallCents: 0,
+        reasons: [`Deposit references ${numbers}`, "Amount matches the balance exactly"],
+      });
+    } else if (line.amountCents < total) {
+      propose({
+        line,
+        batchIds: refs.map((b) => b.id),
+        kind: "SHORT",
+        confidence: "MEDIUM",
+        shortfallCents: total - line.amountCents,
+        reasons: [`Deposit references ${numbers}`, `Short by ${money(total - line.amountCents)}`],
+      });
+    }
+  }
+
+  for (const line of [...remaining]) {
+    const sameAmount = open()
+      .filter((b) => remittanceBalanceCents(b) === line.amountCents && inWindow(line, b, window))
+      .sort((a, b) => Math.abs(daysAfterApproval(line, a)) - Math.abs(daysAfterApproval(line, b)));
+    if (sameAmount.length === 0) continue;
+    const best = sameAmount[0]!;
+    propose({
+      line,
+      batchIds: [best.id],
+      kind: "EXACT",
+      confidence: sameAmount.length === 1 ? "MEDIUM" : "LOW",
+      shortfallCents: 0,
+      reasons: [
+        "Amount matches exactly",
+        `Deposited ${daysAfterApproval(line, best)} day(s) after approval`,
+        ...(sameAmount.length > 1 ? [`${sameAmount.length} remittances owe this amount`] : []),
+      ],
+    });
+  }
+
+  for (const line of [...remaining]) {
+    const candidates = open()
+      .filter((b) => remittanceBalanceCents(b) < line.amountCents && inWindow(line, b, window))
+      .sort((a, b) => Math.abs(daysAfterApproval(line, a)) - Math.abs(daysAfterApproval(line, b)))
+      .slice(0, MAX_COMBINATION_CANDIDATES);
+    const byProvider = new Map<string, Batch[]>();
+    for (const b of candidates) {
+      const pid = (b.providerId ?? "").trim();
+      byProvider.set(pid, [...(byProvider.get(pid) ?? []), b]);
+    }
+    const combos = Array.from(byProvider.values()).flatMap((group) => combinationsSummingTo(group, line.amountCents));
+    if (combos.length === 0) continue;
+    const combo = combos[0]!;
+    propose({
+      line,
+      batchIds: combo.map((b) => b.id),
+      kind: "COMBINED",
+      confidence: combos.length === 1 ? "MEDIUM" : "LOW",
+      shortfallCents: 0,
+      reasons: [
+        `${combo.length} remittances add up to the deposit`,
+        ...(combos.length > 1 ? ["Other combinations also add up; check the remittance numbers"] : []),
+      ],
+    });
+  }
+
+  return { proposals, unmatched: remaining };
+}
@@ -0,0 +1,207 @@
+import { parseCsv, type SheetRows } from "../spreadsheet";
+
+import type { BankStatement, BankStatementIssue, BankStatementLine } from "./types";
+
+function headerKey(h: string) {
+  return (h ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+const STATEMENT_COLUMNS: Record<string, string[]> = {
+  date: ["date", "posteddate", "dateposted", "postingdate", "transactiondate", "valuedate"],
+  amount: ["amount", "transactionamount", "amt", "cad", "cadamount"],
+  credit: ["credit", "credits", "creditamount", "deposit", "deposits", "moneyin", "paidin"],
+  debit: ["debit", "debits", "debitamount", "withdrawal", "withdrawals", "moneyout", "paidout"],
+  description: ["description", "transactiondescription", "details", "narrative", "payee", "name", "description1"],
+  memo: ["memo", "description2", "notes", "additionalinformation"],
+  reference: ["reference", "referencenumber", "ref", "refnumber", "transactionid", "fitid", "confirmation", "confirmationnumber"],
+  checkNumber: ["chequenumber", "checknumber", "chequeno", "checkno", "chqno", "cheque", "check"],
+};
+
+function columnMap(header: string[]) {
+  const keys = header.map(headerKey);
+  const out: Record<string, number> = {};
+  for (const [field, names] of Object.entries(STATEMENT_COLUMNS)) {
+    const idx = keys.findIndex((k) => names.includes(k));
+    if (idx >= 0) out[field] = idx;
+  }
+  return out;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function isoDate(y: number, m: number, d: number) {
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCMonth() !== m - 1) return null;
+  return `${String(y).padStart(4, "0")}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+// Banks export ISO, compact (OFX style) or slash dates. Slash dates are read month-first
+// unless the first part can only be a day.
+export function parseStatementDate(v: string): string | null {
+  const t = (v ?? "").trim();
+  let m = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/.exec(t);
+  if (m) return isoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+  m = /^(\d{4})(\d{2})(\d{2})/.exec(t);
+  if (m) return isoDate(Number(m[1]), Number(m[2]), Number(m[3]));
+  m = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/.exec(t);
+  if (m) {
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    const y = m[3]!.length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+    return a > 12 ? isoDate(y, b, a) : isoDate(y, a, b);
+  }
+  m = /^(\d{1,2})[-\s]([a-z]{3})[a-z]*[-\s,]+(\d{4})$/i.exec(t);
+  if (m) return isoDate(Number(m[3]), MONTHS.indexOf(m[2]!.toLowerCase()) + 1, Number(m[1]));
+  m = /^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})$/i.exec(t);
+  if (m) return isoDate(Number(m[3]), MONTHS.indexOf(m[1]!.toLowerCase()) + 1, Number(m[2]));
+  return null;
+}
+
+// "$1,234.56", "(1,234.56)", "-1234.56", "1,234.56 CR" and "1,234.56 DR" all occur in the wild.
+export function parseStatementAmount(v: string): number | null {
+  let t = (v ?? "").trim().toUpperCase();
+  if (!t) return null;
+  let sign = 1;
+  if (/^\(.*\)$/.test(t)) {
+    sign = -1;
+    t = t.slice(1, -1);
+  }
+  if (t.endsWith("DR")) {
+    sign = -sign;
+    t = t.slice(0, -2);
+  } else if (t.endsWith("CR")) {
+    t = t.slice(0, -2);
+  }
+  t = t.replace(/[\s$,]/g, "");
+  if (t.startsWith("-")) {
+    sign = -sign;
+    t = t.slice(1);
+  } else if (t.startsWith("+")) {
+    t = t.slice(1);
+  }
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(t)) return null;
+  return sign * Math.round(Number(t) * 100);
+}
+
+function contentKey(prefix: string, line: Omit<BankStatementLine, "key" | "row">, seen: Map<string, number>) {
+  const base = [line.postedDate, line.amountCents, line.description.toLowerCase(), (line.reference ?? "").toLowerCase(), line.checkNumber ?? ""].join("|");
+  const n = (seen.get(base) ?? 0) + 1;
+  seen.set(base, n);
+  // Two identical deposits on the same day are still two deposits.
+  return `${prefix}:${base}#${n}`;
+}
+
+function isBlankRow(cells: string[] | undefined) {
+  return !cells || cells.every((c) => !(c ?? "").trim());
+}
+
+export function parseStatementCsv(sheet: SheetRows, fileName = "statement.csv"): BankStatement {
+  const issues: BankStatementIssue[] = [];
+  const lines: BankStatementLine[] = [];
+
+  // Some banks put account details above the header; use the first row that looks like one.
+  const headerIdx = sheet.findIndex((r) => {
+    const cols = columnMap(r ?? []);
+    return cols.date !== undefined && (cols.amount !== undefined || cols.credit !== undefined);
+  });
+  if (headerIdx < 0) {
+    issues.push({ row: 0, message: "Couldn't find a header row with a date and an amount or credit column." });
+    return { fileName, format: "CSV", lines, issues };
+  }
+
+  const cols = columnMap(sheet[headerIdx]!);
+  const cell = (r: string[], field: string) => (cols[field] === undefined ? "" : (r[cols[field]!] ?? "").trim());
+  const seen = new Map<string, number>();
+
+  for (let i = headerIdx + 1; i < sheet.length; i += 1) {
+    const r = sheet[i]!;
+    if (isBlankRow(r)) continue;
+    const row = i + 1;
+
+    const postedDate = parseStatementDate(cell(r, "date"));
+    if (!postedDate) {
+      issues.push({ row, message: `Unrecognised date "${cell(r, "date")}".` });
+      continue;
+    }
+
+    let amountCents: number | null;
+    if (cols.amount !== undefined) {
+      amountCents = parseStatementAmount(cell(r, "amount"));
+    } else {
+      const credit = parseStatementAmount(cell(r, "credit"));
+      const debit = parseStatementAmount(cell(r, "debit"));
+      amountCents = credit !== null && credit !== 0 ? Math.abs(credit) : debit !== null ? -Math.abs(debit) : null;
+    }
+    if (amountCents === null) {
+      issues.push({ row, message: "Missing or unrecognised amount." });
+      continue;
+    }
+
+    const line = {
+      postedDate,
+      amountCents,
+      description: [cell(r, "description"), cell(r, "memo")].filter(Boolean).join(" "),
+      reference: cell(r, "reference") || undefined,
+      checkNumber: cell(r, "checkNumber") || undefined,
+    };
+    lines.push({ ...line, row, key: contentKey("csv", line, seen) });
+  }
+
+  return { fileName, format: "CSV", lines, issues };
+}
+
+function ofxField(block: string, tag: string) {
+  // OFX 1.x (SGML) leaves leaf elements unclosed; OFX 2.x closes them. Either way the value runs to the next tag.
+  const m = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return m ? m[1]!.trim().replace(/&amp;/g, "&").replace(/&lt;/g, "<").replace(/&gt;/g, ">") : "";
+}
+
+// OFX and QFX (Quicken's OFX) bank statement downloads.
+export function parseStatementOfx(text: string, fileName = "statement.ofx"): BankStatement {
+  const issues: BankStatementIssue[] = [];
+  const lines: BankStatementLine[] = [];
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+  if (blocks.length === 0) {
+    issues.push({ row: 0, message: "No transactions found in the OFX file." });
+    return { fileName, format: "OFX", lines, issues };
+  }
+
+  const seen = new Map<string, number>();
+  blocks.forEach((block, idx) => {
+    const row = idx + 1;
+    const postedDate = parseStatementDate(ofxField(block, "DTPOSTED"));
+    const amountCents = parseStatementAmount(ofxField(block, "TRNAMT"));
+    if (!postedDate || amountCents === null) {
+      issues.push({ row, message: "Transaction is missing a posted date or amount." });
+      return;
+    }
+    const name = ofxField(block, "NAME");
+    const memo = ofxField(block, "MEMO");
+    const line = {
+      postedDate,
+      amountCents,
+      description: [name, memo && memo !== name ? memo : ""].filter(Boolean).join(" "),
+      reference: ofxField(block, "REFNUM") || undefined,
+      checkNumber: ofxField(block, "CHECKNUM") || undefined,
+    };
+    const fitId = ofxField(block, "FITID");
+    lines.push({ ...line, row, key: fitId ? `ofx:${fitId}` : contentKey("ofx", line, seen) });
+  });
+
+  return { fileName, format: "OFX", lines, issues };
+}
+
+export function isOfxStatement(fileName: string, text: string) {
+  return /\.(ofx|qfx)$/i.test(fileName) || /^\s*(OFXHEADER|<\?xml[^>]*>\s*<\?OFX|<OFX>)/i.test(text);
+}
+
+export function parseBankStatement(fileName: string, text: string): BankStatement {
+  return isOfxStatement(fileName, text) ? parseStatementOfx(text, fileName) : parseStatementCsv(parseCsv(text), fileName);
+}
+
+export async function readBankStatementFile(file: File): Promise<BankStatement> {
+  const name = file.name ?? "";
+  if (/\.(xlsx?|pdf)$/i.test(name)) throw new Error("Export the statement from your bank as CSV, OFX or QFX.");
+  return parseBankStatement(name, await file.text());
+}
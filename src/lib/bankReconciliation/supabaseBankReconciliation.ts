@@ -0,0 +1,68 @@
+import type { PaymentMethod } from "../batches/types";
+import { getSupabaseClient } from "../supabase/client";
+
+import type { BankReconciliationApi } from "./api";
+import { statementPaymentMethod, statementPaymentReference } from "./matching";
+import type { ApplyBankDepositInput, BankDepositMatch, BankStatementFormat, BankStatementLine } from "./types";
+
+type RemittanceBankDepositsRow = {
+  id: string;
+  provider_id?: string | null;
+  statement_file_name: string;
+  statement_format: BankStatementFormat;
+  line: BankStatementLine;
+  batch_ids?: string[] | null;
+  payment_method: PaymentMethod;
+  shortfall_cents?: number | null;
+  matched_by_user_id?: string | null;
+  matched_by_email?: string | null;
+  matched_at: string;
+};
+
+function toDepositMatch(r: RemittanceBankDepositsRow): BankDepositMatch {
+  return {
+    id: r.id,
+    providerId: r.provider_id ?? undefined,
+    statementFileName: r.statement_file_name,
+    statementFormat: r.statement_format,
+    line: r.line,
+    batchIds: (r.batch_ids ?? []) as string[],
+    paymentMethod: r.payment_method,
+    shortfallCents: typeof r.shortfall_cents === "number" ? r.shortfall_cents : 0,
+    matchedByUserId: r.matched_by_user_id ?? undefined,
+    matchedByEmail: r.matched_by_email ?? undefined,
+    matchedAt: r.matched_at,
+  };
+}
+
+export const supabaseBankReconciliationApi: BankReconciliationApi = {
+  async listDeposits() {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("remittance_bank_deposits")
+      .select("*")
+      .order("matched_at", { ascending: false });
+
+    if (error) throw error;
+    return (data as RemittanceBankDepositsRow[]).map(toDepositMatch);
+  },
+
+  // apply_bank_deposit re-checks the allocation and pays every remittance in one transaction.
+  async applyDeposit(input: ApplyBankDepositInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase.rpc("apply_bank_deposit", {
+      _statement_file_name: input.statementFileName,
+      _statement_format: input.statementFormat,
+      _line: input.line,
+      _batch_ids: input.batchIds,
+      _payment_method: statementPaymentMethod(input.line),
+      _payment_reference: statementPaymentReference(input.line),
+    });
+    if (error) throw error;
+    return toDepositMatch((Array.isArray(data) ? data[0] : data) as RemittanceBankDepositsRow);
+  },
+};
@@ -0,0 +1,67 @@
+import type { PaymentMethod } from "../batches/types";
+
+export type BankStatementFormat = "CSV" | "OFX";
+
+export type BankStatementLine = {
+  // OFX FITID when the bank sends one, otherwise derived from the line itself; a line can
+  // only ever be applied once.
+  key: string;
+  // 1-based CSV row, or the transaction's position in an OFX file.
+  row: number;
+  // YYYY-MM-DD
+  postedDate: string;
+  // Positive for money in.
+  amountCents: number;
+  description: string;
+  reference?: string;
+  checkNumber?: string;
+};
+
+export type BankStatementIssue = {
+  // 0 for problems with the file as a whole.
+  row: number;
+  message: string;
+};
+
+export type BankStatement = {
+  fileName: string;
+  format: BankStatementFormat;
+  lines: BankStatementLine[];
+  issues: BankStatementIssue[];
+};
+
+export type ReconciliationMatchKind = "EXACT" | "COMBINED" | "SHORT";
+
+export type ReconciliationConfidence = "HIGH" | "MEDIUM" | "LOW";
+
+export type ReconciliationProposal = {
+  line: BankStatementLine;
+  batchIds: string[];
+  kind: ReconciliationMatchKind;
+  confidence: ReconciliationConfidence;
+  // Remittance total not covered by the deposit; 0 unless kind is SHORT.
+  shortfallCents: number;
+  reasons: string[];
+};
+
+// A statement line applied to one or more remittances, kept as evidence of payment.
+export type BankDepositMatch = {
+  id: string;
+  providerId?: string;
+  statementFileName: string;
+  statementFormat: BankStatementFormat;
+  line: BankStatementLine;
+  batchIds: string[];
+  paymentMethod: PaymentMethod;
+  shortfallCents: number;
+  matchedByUserId?: string;
+  matchedByEmail?: string;
+  matchedAt: string;
+};
+
+export type ApplyBankDepositInput = {
+  statementFileName: string;
+  statementFormat: BankStatementFormat;
+  line: BankStatementLine;
+  batchIds: string[];
+};
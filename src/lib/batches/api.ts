@@ -1,35 +1,47 @@
-import type { Batch, CreateBatchInput, CreateRemittanceBatchInput } from "./types";
+import type {
+  Batch,
+  CreateBatchInput,
+  CreateRemittanceBatchInput,
+  IssueCreditNoteInput,
+  RecordRemittancePaymentInput,
+  RemittanceCreditNote,
+  RemittancePayment,
+  RemittanceTransitionInput,
+} from "./types";
+import type { RemittanceActor } from "./workflow";
 
 export type BatchesApi = {
   list(): Promise<Batch[]>;
   create(input: CreateBatchInput): Promise<Batch>;
   createRemittanceBatch(input: CreateRemittanceBatchInput): Promise<Batch>;
+  // Contents and totals can only change while the remittance is a draft or rejected.
   update(
     id: string,
     patch: Partial<
       Pick<
         Batch,
-        | "status"
         | "contractIds"
+        | "creditNoteIds"
+        | "subtotalCents"
+        | "taxRate"
+        | "taxCents"
+        | "taxBreakdown"
         | "totalCents"
-        | "paymentStatus"
-        | "paidAt"
-        | "remittanceStatus"
         | "dealerUserId"
         | "dealerEmail"
         | "providerId"
-        | "submittedAt"
-        | "reviewedAt"
-        | "reviewedByUserId"
-        | "reviewedByEmail"
-        | "rejectionReason"
-        | "adminNotes"
-        | "paymentMethod"
-        | "paymentReference"
-        | "paymentDate"
-        | "paidByUserId"
-        | "paidByEmail"
       >
     >,
   ): Promise<Batch>;
+  // Moves the remittance through its workflow and its contracts with it. The actor is
+  // used in local mode only; Supabase takes the actor from the session.
+  transition(id: string, input: RemittanceTransitionInput, actor?: RemittanceActor): Promise<Batch>;
+  listPayments(): Promise<RemittancePayment[]>;
+  // Adds one payment to the ledger, split across one or more remittances. Each remittance is
+  // partially paid until its balance reaches zero, when it and its contracts become paid.
+  recordPayment(input: RecordRemittancePaymentInput, actor?: RemittanceActor): Promise<RemittancePayment[]>;
+  listCreditNotes(): Promise<RemittanceCreditNote[]>;
+  // Credits a contract in a submitted, approved or paid remittance. The note stays open until a
+  // later draft remittance carries it in creditNoteIds.
+  issueCreditNote(input: IssueCreditNoteInput, actor?: RemittanceActor): Promise<RemittanceCreditNote>;
 };
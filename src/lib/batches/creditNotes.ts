@@ -0,0 +1,156 @@
+import type { ContractCancellation } from "../cancellations/types";
+import type { Contract } from "../contracts/types";
+import type { ProductType } from "../products/types";
+import { contractTaxableLines } from "../tax/contractTax";
+import { calculateSalesTax, resolveTaxProvince } from "../tax/salesTax";
+import type { SalesTaxBreakdown, SalesTaxTotals } from "../tax/types";
+
+import type { BatchesApi } from "./api";
+import type { Batch, IssueCreditNoteInput, RemittanceCreditNote } from "./types";
+import { canIssueCreditNote, isRemittanceEditable, remittanceWorkflowStatus, type RemittanceActor } from "./workflow";
+
+function money(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+// The credited amount as a negative line, taxed at the contract's own province and product
+// rates so the reversal matches the tax charged on the original remittance.
+export function creditNoteTax(input: {
+  contract: Pick<Contract, "customerProvince">;
+  amountCents: number;
+  label: string;
+  productType?: ProductType;
+  dealershipProvince?: string | null;
+}): SalesTaxBreakdown {
+  return calculateSalesTax({
+    province: resolveTaxProvince(input.contract.customerProvince, input.dealershipProvince),
+    productType: input.productType,
+    lines: [{ label: input.label, amountCents: -Math.abs(input.amountCents) }],
+  });
+}
+
+type CreditedContract = Pick<
+  Contract,
+  "customerProvince" | "pricingBasePriceCents" | "pricingDealerCostCents" | "addonSnapshot" | "addonTotalRetailCents" | "addonTotalCostCents"
+>;
+
+// What the dealer remitted for a contract: its cost taxed at the contract's rates, the same way
+// issue_remittance_credit_note works it out.
+export function contractRemittedCents(contract: CreditedContract, productType?: ProductType) {
+  const costCents = contractTaxableLines(contract, "cost").reduce((sum, l) => sum + l.amountCents, 0);
+  return calculateSalesTax({
+    province: resolveTaxProvince(contract.customerProvince),
+    productType,
+    lines: [{ label: "Remitted", amountCents: Math.max(0, costCents) }],
+  }).totalCents;
+}
+
+// A credit note in the shape combineSalesTax expects, so it can be summed with contract lines.
+export function creditNoteSalesTax(n: Pick<RemittanceCreditNote, "subtotalCents" | "taxCents" | "taxBreakdown" | "totalCents">): SalesTaxTotals {
+  return { subtotalCents: n.subtotalCents, taxes: n.taxBreakdown, taxCents: n.taxCents, totalCents: n.totalCents };
+}
+
+export function nextCreditNoteNumber(batch: Pick<Batch, "id" | "batchNumber">, notes: RemittanceCreditNote[]) {
+  const issued = notes.filter((n) => n.originalBatchId === batch.id).length;
+  return `CN-${batch.batchNumber}-${issued + 1}`;
+}
+
+export function creditNotesAppliedTo(notes: RemittanceCreditNote[], batchId: string) {
+  return notes.filter((n) => n.appliedBatchId === batchId);
+}
+
+export function creditNotesIssuedAgainst(notes: RemittanceCreditNote[], batchId: string) {
+  return notes.filter((n) => n.originalBatchId === batchId);
+}
+
+// Credit notes not yet pulled into a remittance, optionally for one provider.
+export function openCreditNotes(notes: RemittanceCreditNote[], providerId?: string) {
+  const pid = (providerId ?? "").trim();
+  return notes.filter((n) => !n.appliedBatchId && (!pid || (n.providerId ?? "").trim() === pid));
+}
+
+// Credit notes are only for remittances that can no longer be edited. Together they can't credit
+// more than the remittance was for, nor more for one contract than was remitted for it.
+export function creditNoteProblem(
+  batches: Batch[],
+  notes: RemittanceCreditNote[],
+  input: IssueCreditNoteInput,
+  actor: RemittanceActor | null | undefined,
+  contract: CreditedContract | null | undefined,
+  productType?: ProductType,
+): string | null {
+  if (!actor) return "Not authenticated";
+  if (!canIssueCreditNote(actor)) return "Not authorized to issue credit notes";
+
+  const batch = batches.find((b) => b.id === input.originalBatchId);
+  if (!batch) return "Batch not found";
+  if (!batch.contractIds.includes(input.contractId)) return `Contract is not in remittance ${batch.batchNumber}`;
+  if (!contract) return "Contract not found";
+  if (isRemittanceEditable(remittanceWorkflowStatus(batch))) {
+    return `Remittance ${batch.batchNumber} can still be edited; change it instead of issuing a credit note`;
+  }
+  if (!input.reason.trim()) return "Reason is required";
+  if (!(input.subtotalCents < 0)) return "Credit amount must be greater than zero";
+
+  const creditCents = -creditNoteTax({ contract, amountCents: input.subtotalCents, label: "Credit", productType }).totalCents;
+  const issued = creditNotesIssuedAgainst(notes, batch.id);
+  const credited = issued.reduce((sum, n) => sum - n.totalCents, 0);
+  if (credited + creditCents > batch.totalCents) {
+    return `Credit notes on ${batch.batchNumber} can't exceed its ${money(batch.totalCents)} total`;
+  }
+
+  const remittedCents = contractRemittedCents(contract, productType);
+  const contractCredited = issued.filter((n) => n.contractId === input.contractId).reduce((sum, n) => sum - n.totalCents, 0);
+  if (contractCredited + creditCents > remittedCents) {
+    return `Credit notes for this contract on ${batch.batchNumber} can't exceed the ${money(remittedCents)} it was remitted for`;
+  }
+  return null;
+}
+
+// Checks the credit notes a draft remittance is about to carry. totalCents is the remittance
+// total with the credits included.
+export function creditNoteApplicationProblem(
+  batch: Pick<Batch, "id" | "providerId" | "totalCents">,
+  notes: RemittanceCreditNote[],
+  creditNoteIds: string[],
+): string | null {
+  if (new Set(creditNoteIds).size !== creditNoteIds.length) return "A credit note can only be applied once";
+  for (const id of creditNoteIds) {
+    const note = notes.find((n) => n.id === id);
+    if (!note) return "Credit note not found";
+    if (note.appliedBatchId && note.appliedBatchId !== batch.id) return `${note.creditNoteNumber} is already applied to another remittance`;
+    if (note.originalBatchId === batch.id) return `${note.creditNoteNumber} cannot be applied to the remittance it credits`;
+    if ((note.providerId ?? "").trim() && (batch.providerId ?? "").trim() && note.providerId !== batch.providerId) {
+      return `${note.creditNoteNumber} is for a different provider`;
+    }
+  }
+  if (creditNoteIds.length > 0 && batch.totalCents < 0) return "Credit notes can't exceed the remittance's contracts";
+  return null;
+}
+
+// A cancelled contract already on a locked remittance can't be edited off it, so the
+// provider's refund is credited back on the dealer's next remittance instead. This runs
+// after the cancellation has been recorded, so a failure here leaves the contract
+// cancelled without its credit note; callers report that so it can be issued by hand.
+export async function creditCancellationOnLockedRemittance(
+  batchesApi: BatchesApi,
+  cancellation: ContractCancellation,
+  actor: RemittanceActor,
+) {
+  if (cancellation.providerRefundCents <= 0 || !canIssueCreditNote(actor)) return null;
+
+  const batches = await batchesApi.list();
+  const locked = batches.find((b) => b.contractIds.includes(cancellation.contractId) && !isRemittanceEditable(remittanceWorkflowStatus(b)));
+  if (!locked) return null;
+
+  return batchesApi.issueCreditNote(
+    {
+      contractId: cancellation.contractId,
+      originalBatchId: locked.id,
+      reason: "Cancellation",
+      subtotalCents: -cancellation.providerRefundCents,
+      cancellationId: cancellation.id,
+    },
+    actor,
+  );
+}
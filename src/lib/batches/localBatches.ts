@@ -1,7 +1,34 @@
+import { localContractsApi, moveLocalContractStatuses } from "../contracts/localContracts";
+import { localMarketplaceApi } from "../marketplace/localMarketplace";
+import { effectiveTaxRate } from "../tax/salesTax";
+
 import type { BatchesApi } from "./api";
-import type { Batch, CreateBatchInput, CreateRemittanceBatchInput } from "./types";
+import { creditNoteApplicationProblem, creditNoteProblem, creditNoteTax, nextCreditNoteNumber } from "./creditNotes";
+import { applyRemittancePayment, remittanceBalanceCents, remittancePaymentProblem } from "./payments";
+import type {
+  Batch,
+  CreateBatchInput,
+  CreateRemittanceBatchInput,
+  IssueCreditNoteInput,
+  RecordRemittancePaymentInput,
+  RemittanceCreditNote,
+  RemittancePayment,
+  RemittanceTransitionInput,
+} from "./types";
+import {
+  CONTRACT_STATUS_ON_TRANSITION,
+  LOCKED_BATCH_FIELDS,
+  applyRemittanceTransition,
+  contractStatusStamp,
+  isRemittanceEditable,
+  remittanceTransitionProblem,
+  remittanceWorkflowStatus,
+  type RemittanceActor,
+} from "./workflow";
 
 const STORAGE_KEY = "warrantyhub.local.batches";
+const PAYMENTS_KEY = "warrantyhub.local.remittance_payments";
+const CREDIT_NOTES_KEY = "warrantyhub.local.remittance_credit_notes";
 
 function read(): Batch[] {
   const raw = localStorage.getItem(STORAGE_KEY);
@@ -15,8 +42,11 @@ function read(): Batch[] {
         const derivedPaymentStatus = (b.paymentStatus ?? "UNPAID") as Batch["paymentStatus"];
         const derivedRemittanceStatus = (() => {
           const s = (b.remittanceStatus ?? "").toString();
-          if (s === "DRAFT" || s === "SUBMITTED" || s === "APPROVED" || s === "REJECTED" || s === "PAID") return s as Batch["remittanceStatus"];
+          if (s === "DRAFT" || s === "SUBMITTED" || s === "APPROVED" || s === "REJECTED" || s === "PARTIALLY_PAID" || s === "PAID") {
+            return s as Batch["remittanceStatus"];
+          }
           if (derivedPaymentStatus === "PAID") return "PAID";
+          if (derivedPaymentStatus === "PARTIALLY_PAID") return "PARTIALLY_PAID";
           if (derivedStatus === "CLOSED") return "SUBMITTED";
           return "DRAFT";
         })();
@@ -27,10 +57,15 @@ function read(): Batch[] {
           paymentStatus: derivedPaymentStatus,
           remittanceStatus: derivedRemittanceStatus,
           contractIds: Array.isArray(b.contractIds) ? (b.contractIds as string[]) : [],
+          creditNoteIds: Array.isArray(b.creditNoteIds) ? (b.creditNoteIds as string[]) : [],
           subtotalCents: typeof b.subtotalCents === "number" ? b.subtotalCents : 0,
           taxRate: typeof b.taxRate === "number" ? b.taxRate : 0,
           taxCents: typeof b.taxCents === "number" ? b.taxCents : 0,
+          taxBreakdown: Array.isArray(b.taxBreakdown) ? b.taxBreakdown : [],
           totalCents: typeof b.totalCents === "number" ? b.totalCents : 0,
+          // Batches paid before the ledger existed were paid in full.
+          paidCents:
+            typeof b.paidCents === "number" ? b.paidCents : derivedPaymentStatus === "PAID" && typeof b.totalCents === "number" ? b.totalCents : 0,
           paidAt: typeof b.paidAt === "string" ? b.paidAt : undefined,
           dealerUserId: typeof b.dealerUserId === "string" ? b.dealerUserId : undefined,
           dealerEmail: typeof b.dealerEmail === "string" ? b.dealerEmail : undefined,
@@ -59,6 +94,95 @@ function write(items: Batch[]) {
   localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
 }
 
+function readPayments(): RemittancePayment[] {
+  const raw = localStorage.getItem(PAYMENTS_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<RemittancePayment>[];
+    return parsed
+      .map(
+        (p): RemittancePayment => ({
+          id: p.id ?? crypto.randomUUID(),
+          paymentId: p.paymentId ?? p.id ?? "",
+          batchId: p.batchId ?? "",
+          amountCents: typeof p.amountCents === "number" ? p.amountCents : 0,
+          method: p.method === "CHEQUE" ? "CHEQUE" : "EFT",
+          reference: typeof p.reference === "string" ? p.reference : undefined,
+          paymentDate: p.paymentDate ?? "",
+          bankDepositId: typeof p.bankDepositId === "string" ? p.bankDepositId : undefined,
+          recordedByUserId: typeof p.recordedByUserId === "string" ? p.recordedByUserId : undefined,
+          recordedByEmail: typeof p.recordedByEmail === "string" ? p.recordedByEmail : undefined,
+          recordedAt: p.recordedAt ?? new Date().toISOString(),
+        }),
+      )
+      .filter((p) => p.batchId && p.amountCents > 0);
+  } catch {
+    return [];
+  }
+}
+
+function writePayments(items: RemittancePayment[]) {
+  localStorage.setItem(PAYMENTS_KEY, JSON.stringify(items));
+}
+
+function readCreditNotes(): RemittanceCreditNote[] {
+  const raw = localStorage.getItem(CREDIT_NOTES_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<RemittanceCreditNote>[];
+    return parsed
+      .map(
+        (n): RemittanceCreditNote => ({
+          id: n.id ?? crypto.randomUUID(),
+          creditNoteNumber: n.creditNoteNumber ?? "",
+          contractId: n.contractId ?? "",
+          contractNumber: typeof n.contractNumber === "string" ? n.contractNumber : undefined,
+          originalBatchId: n.originalBatchId ?? "",
+          originalBatchNumber: n.originalBatchNumber ?? "",
+          providerId: typeof n.providerId === "string" ? n.providerId : undefined,
+          reason: n.reason ?? "",
+          subtotalCents: typeof n.subtotalCents === "number" ? n.subtotalCents : 0,
+          taxCents: typeof n.taxCents === "number" ? n.taxCents : 0,
+          taxBreakdown: Array.isArray(n.taxBreakdown) ? n.taxBreakdown : [],
+          totalCents: typeof n.totalCents === "number" ? n.totalCents : 0,
+          appliedBatchId: typeof n.appliedBatchId === "string" ? n.appliedBatchId : undefined,
+          cancellationId: typeof n.cancellationId === "string" ? n.cancellationId : undefined,
+          createdByUserId: typeof n.createdByUserId === "string" ? n.createdByUserId : undefined,
+          createdByEmail: typeof n.createdByEmail === "string" ? n.createdByEmail : undefined,
+          createdAt: n.createdAt ?? new Date().toISOString(),
+        }),
+      )
+      .filter((n) => n.contractId && n.originalBatchId && n.totalCents < 0);
+  } catch {
+    return [];
+  }
+}
+
+function writeCreditNotes(items: RemittanceCreditNote[]) {
+  localStorage.setItem(CREDIT_NOTES_KEY, JSON.stringify(items));
+}
+
+// Points each credit note at the remittance now carrying it, releasing any it dropped.
+function applyCreditNotes(batch: Batch) {
+  const notes = readCreditNotes();
+  const problem = creditNoteApplicationProblem(batch, notes, batch.creditNoteIds);
+  if (problem) throw new Error(problem);
+  writeCreditNotes(
+    notes.map((n) => {
+      if (batch.creditNoteIds.includes(n.id)) return { ...n, appliedBatchId: batch.id };
+      return n.appliedBatchId === batch.id ? { ...n, appliedBatchId: undefined } : n;
+    }),
+  );
+}
+
+function payContracts(batch: Batch, actor: RemittanceActor, now: string) {
+  const move = CONTRACT_STATUS_ON_TRANSITION.PAID!;
+  moveLocalContractStatuses(batch.contractIds, move.from, contractStatusStamp(move.to, actor, now), {
+    actorUserId: actor.id,
+    actorEmail: actor.email,
+  });
+}
+
 export const localBatchesApi: BatchesApi = {
   async list() {
     return read().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
@@ -73,10 +197,13 @@ export const localBatchesApi: BatchesApi = {
       paymentStatus: "UNPAID",
       remittanceStatus: "DRAFT",
       contractIds: [],
+      creditNoteIds: [],
       subtotalCents: 0,
       taxRate: 0,
       taxCents: 0,
+      taxBreakdown: [],
       totalCents: 0,
+      paidCents: 0,
       createdAt: now,
     };
 
@@ -107,18 +234,21 @@ export const localBatchesApi: BatchesApi = {
     const item: Batch = {
       id: crypto.randomUUID(),
       batchNumber: input.batchNumber,
-      status: "CLOSED",
+      status: "OPEN",
       paymentStatus: "UNPAID",
-      remittanceStatus: "SUBMITTED",
-      submittedAt: now,
+      remittanceStatus: "DRAFT",
       contractIds: input.contractIds,
+      creditNoteIds: input.creditNoteIds ?? [],
       subtotalCents: input.subtotalCents,
-      taxRate: input.taxRate,
+      taxRate: effectiveTaxRate(input),
       taxCents: input.taxCents,
+      taxBreakdown: input.taxBreakdown,
       totalCents: input.totalCents,
+      paidCents: 0,
       createdAt: now,
     };
 
+    if (item.creditNoteIds.length > 0) applyCreditNotes(item);
     const next = [item, ...read()];
     write(next);
     return item;
@@ -130,26 +260,144 @@ export const localBatchesApi: BatchesApi = {
     if (idx === -1) throw new Error("Batch not found");
 
     const existing = current[idx]!;
-    const nonEditableWhenSubmitted = new Set(["contractIds", "totalCents", "taxRate", "taxCents", "subtotalCents"]);
-    const hasDealerEdits = Object.keys(patch).some((k) => nonEditableWhenSubmitted.has(k));
-    const currentWorkflow = (existing.remittanceStatus ?? (existing.status === "CLOSED" ? "SUBMITTED" : "DRAFT")) as string;
-    if (hasDealerEdits && (currentWorkflow === "SUBMITTED" || currentWorkflow === "APPROVED" || currentWorkflow === "PAID")) {
+    const locksContents = Object.keys(patch).some((k) => (LOCKED_BATCH_FIELDS as readonly string[]).includes(k));
+    if (locksContents && !isRemittanceEditable(remittanceWorkflowStatus(existing))) {
       throw new Error("Remittance is locked (submitted remittances cannot be edited)");
     }
 
-    const hasPaymentEdits = Object.keys(patch).some((k) => k === "paymentMethod" || k === "paymentReference" || k === "paymentDate" || k === "paidAt");
-    if (hasPaymentEdits && currentWorkflow === "PAID") {
-      throw new Error("Remittance is locked (paid remittances cannot be edited)");
-    }
-
     const nextItem: Batch = {
       ...existing,
       ...patch,
     };
+    if (patch.creditNoteIds || typeof patch.totalCents === "number") applyCreditNotes(nextItem);
 
     const next = [...current];
     next[idx] = nextItem;
     write(next);
     return nextItem;
   },
+
+  async transition(id: string, input: RemittanceTransitionInput, actor?: RemittanceActor) {
+    const current = read();
+    const idx = current.findIndex((b) => b.id === id);
+    if (idx === -1) throw new Error("Batch not found");
+
+    const existing = current[idx]!;
+    const problem = remittanceTransitionProblem(existing, input, actor);
+    if (problem || !actor) throw new Error(problem ?? "Not authenticated");
+
+    const now = new Date().toISOString();
+    const nextItem = applyRemittanceTransition(existing, input, actor, now);
+    const next = [...current];
+    next[idx] = nextItem;
+    write(next);
+
+    // Marking paid records whatever is still owing as the final payment.
+    const balance = input.to === "PAID" ? remittanceBalanceCents(existing) : 0;
+    if (balance > 0 && input.paymentMethod) {
+      const id = crypto.randomUUID();
+      writePayments([
+        ...readPayments(),
+        {
+          id,
+          paymentId: id,
+          batchId: existing.id,
+          amountCents: balance,
+          method: input.paymentMethod,
+          reference: nextItem.paymentReference,
+          paymentDate: nextItem.paymentDate ?? "",
+          recordedByUserId: actor.id,
+          recordedByEmail: actor.email,
+          recordedAt: now,
+        },
+      ]);
+    }
+
+    const move = CONTRACT_STATUS_ON_TRANSITION[input.to];
+    if (move) {
+      moveLocalContractStatuses(existing.contractIds, move.from, contractStatusStamp(move.to, actor, now), {
+        actorUserId: actor.id,
+        actorEmail: actor.email,
+      });
+    }
+    return nextItem;
+  },
+
+  async listPayments() {
+    return readPayments().sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+  },
+
+  async recordPayment(input: RecordRemittancePaymentInput, actor?: RemittanceActor) {
+    const current = read();
+    const problem = remittancePaymentProblem(current, input, actor);
+    if (problem || !actor) throw new Error(problem ?? "Not authenticated");
+
+    const now = new Date().toISOString();
+    const paymentId = crypto.randomUUID();
+    const entries = input.allocations.map(
+      (a): RemittancePayment => ({
+        id: crypto.randomUUID(),
+        paymentId,
+        batchId: a.batchId,
+        amountCents: a.amountCents,
+        method: input.method,
+        reference: (input.reference ?? "").trim() || undefined,
+        paymentDate: input.paymentDate.trim(),
+        bankDepositId: input.bankDepositId,
+        recordedByUserId: actor.id,
+        recordedByEmail: actor.email,
+        recordedAt: now,
+      }),
+    );
+
+    const settled: Batch[] = [];
+    const next = current.map((b) => {
+      const entry = entries.find((e) => e.batchId === b.id);
+      if (!entry) return b;
+      const paid = applyRemittancePayment(b, entry, actor, now);
+      if (paid.paymentStatus === "PAID") settled.push(paid);
+      return paid;
+    });
+    write(next);
+    writePayments([...readPayments(), ...entries]);
+
+    for (const b of settled) payContracts(b, actor, now);
+    return entries;
+  },
+
+  async listCreditNotes() {
+    return readCreditNotes().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  async issueCreditNote(input: IssueCreditNoteInput, actor?: RemittanceActor) {
+    const contract = await localContractsApi.get(input.contractId);
+    const product = contract ? (await localMarketplaceApi.listPublishedProducts()).find((p) => p.id === contract.productId) : undefined;
+    const batches = read();
+    const notes = readCreditNotes();
+    const problem = creditNoteProblem(batches, notes, input, actor, contract, product?.productType);
+    if (problem || !actor || !contract) throw new Error(problem ?? "Not authenticated");
+
+    const batch = batches.find((b) => b.id === input.originalBatchId)!;
+    const tax = creditNoteTax({ contract, amountCents: input.subtotalCents, label: input.reason.trim(), productType: product?.productType });
+    const note: RemittanceCreditNote = {
+      id: crypto.randomUUID(),
+      creditNoteNumber: nextCreditNoteNumber(batch, notes),
+      contractId: input.contractId,
+      contractNumber: contract.contractNumber || contract.warrantyId,
+      originalBatchId: batch.id,
+      originalBatchNumber: batch.batchNumber,
+      providerId: batch.providerId,
+      reason: input.reason.trim(),
+      subtotalCents: tax.subtotalCents,
+      taxCents: tax.taxCents,
+      taxBreakdown: tax.taxes,
+      totalCents: tax.totalCents,
+      cancellationId: input.cancellationId,
+      createdByUserId: actor.id,
+      createdByEmail: actor.email,
+      createdAt: new Date().toISOString(),
+    };
+    writeCreditNotes([note, ...notes]);
+    return note;
+  },
 };
@@ -0,0 +1,99 @@
+import type { Batch, BatchPaymentStatus, PaymentAllocation, RecordRemittancePaymentInput, RemittancePayment } from "./types";
+import { canRecordRemittancePayment, remittanceWorkflowStatus, type RemittanceActor } from "./workflow";
+
+function money(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export function remittanceBalanceCents(b: Pick<Batch, "totalCents" | "paidCents">) {
+  return Math.max(0, b.totalCents - b.paidCents);
+}
+
+// Approved remittances with money still owing; partially paid ones stay open for further payments.
+export function isAwaitingPayment(b: Pick<Batch, "remittanceStatus" | "paymentStatus" | "status">) {
+  const status = remittanceWorkflowStatus(b);
+  return status === "APPROVED" || status === "PARTIALLY_PAID";
+}
+
+export function paymentStatusFor(totalCents: number, paidCents: number): BatchPaymentStatus {
+  if (paidCents <= 0) return "UNPAID";
+  return paidCents >= totalCents ? "PAID" : "PARTIALLY_PAID";
+}
+
+function approvedOn(b: Batch) {
+  return b.reviewedAt ?? b.submittedAt ?? b.createdAt;
+}
+
+// Splits one payment across remittances, settling the oldest approval first. Whatever the
+// remittances can't absorb is returned as unallocatedCents.
+export function allocatePayment(amountCents: number, batches: Batch[]) {
+  const ordered = batches
+    .map((b, idx) => ({ b, idx }))
+    .sort((x, y) => approvedOn(x.b).localeCompare(approvedOn(y.b)) || x.idx - y.idx)
+    .map((x) => x.b);
+  const allocations: PaymentAllocation[] = [];
+  let left = Math.max(0, amountCents);
+  for (const b of ordered) {
+    if (left <= 0) break;
+    const amount = Math.min(left, remittanceBalanceCents(b));
+    if (amount <= 0) continue;
+    allocations.push({ batchId: b.id, amountCents: amount });
+    left -= amount;
+  }
+  return { allocations, unallocatedCents: left };
+}
+
+// Why a payment can't be recorded against these remittances, if anything. Each allocation
+// must fit inside its remittance's outstanding balance.
+export function remittancePaymentProblem(
+  batches: Batch[],
+  input: RecordRemittancePaymentInput,
+  actor: RemittanceActor | null | undefined,
+): string | null {
+  if (!actor) return "Not authenticated";
+  if (!input.method) return "Payment method is required";
+  if (!(input.paymentDate ?? "").trim()) return "Payment date is required";
+  if (input.allocations.length === 0) return "Choose at least one remittance";
+  if (new Set(input.allocations.map((a) => a.batchId)).size !== input.allocations.length) return "Each remittance can only appear once in a payment";
+
+  const byId = new Map(batches.map((b) => [b.id, b] as const));
+  const providers = new Set<string>();
+  for (const a of input.allocations) {
+    const b = byId.get(a.batchId);
+    if (!b) return "Batch not found";
+    if (!isAwaitingPayment(b)) return `Remittance ${b.batchNumber} is not awaiting payment`;
+    if (!canRecordRemittancePayment(b, actor)) return "Only the remittance's provider can record payments";
+    if (!Number.isInteger(a.amountCents) || a.amountCents <= 0) return `Payment amount for ${b.batchNumber} must be greater than zero`;
+    const balance = remittanceBalanceCents(b);
+    if (a.amountCents > balance) return `Payment of ${money(a.amountCents)} is more than the ${money(balance)} outstanding on ${b.batchNumber}`;
+    providers.add((b.providerId ?? "").trim());
+  }
+  if (providers.size > 1) return "A payment can only cover remittances for one provider";
+  return null;
+}
+
+// The batch after a checked payment is added to its ledger. The latest payment's details are
+// kept on the batch; paid stamps are only set once the balance is settled.
+export function applyRemittancePayment(batch: Batch, payment: RemittancePayment, actor: RemittanceActor, now: string): Batch {
+  const paidCents = batch.paidCents + payment.amountCents;
+  const paymentStatus = paymentStatusFor(batch.totalCents, paidCents);
+  const settled = paymentStatus === "PAID";
+  return {
+    ...batch,
+    paidCents,
+    paymentStatus,
+    remittanceStatus: settled ? "PAID" : "PARTIALLY_PAID",
+    paymentMethod: payment.method,
+    paymentReference: payment.reference,
+    paymentDate: payment.paymentDate,
+    paidAt: settled ? now : batch.paidAt,
+    paidByUserId: settled ? actor.id : batch.paidByUserId,
+    paidByEmail: settled ? actor.email : batch.paidByEmail,
+  };
+}
+
+export function paymentsForBatch(payments: RemittancePayment[], batchId: string) {
+  return payments
+    .filter((p) => p.batchId === batchId)
+    .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate) || a.recordedAt.localeCompare(b.recordedAt));
+}
@@ -1,7 +1,23 @@
 import { getSupabaseClient } from "../supabase/client";
+import { effectiveTaxRate } from "../tax/salesTax";
+import type { SalesTaxLine } from "../tax/types";
 
 import type { BatchesApi } from "./api";
-import type { Batch, CreateBatchInput, CreateRemittanceBatchInput, BatchPaymentStatus, BatchStatus } from "./types";
+import { LOCKED_BATCH_FIELDS, isRemittanceEditable, remittanceWorkflowStatus } from "./workflow";
+import type {
+  Batch,
+  CreateBatchInput,
+  CreateRemittanceBatchInput,
+  BatchPaymentStatus,
+  BatchStatus,
+  IssueCreditNoteInput,
+  PaymentMethod,
+  RecordRemittancePaymentInput,
+  RemittanceCreditNote,
+  RemittancePayment,
+  RemittanceTransitionInput,
+  RemittanceWorkflowStatus,
+} from "./types";
 
 type BatchesRow = {
   id: string;
@@ -9,11 +25,29 @@ type BatchesRow = {
   status: BatchStatus;
   payment_status?: BatchPaymentStatus | null;
   contract_ids?: string[] | null;
+  credit_note_ids?: string[] | null;
   subtotal_cents?: number | null;
   tax_rate?: number | null;
   tax_cents?: number | null;
+  tax_breakdown?: SalesTaxLine[] | null;
   total_cents?: number | null;
+  paid_cents?: number | null;
   paid_at?: string | null;
+  remittance_status?: RemittanceWorkflowStatus | null;
+  dealer_user_id?: string | null;
+  dealer_email?: string | null;
+  provider_id?: string | null;
+  submitted_at?: string | null;
+  reviewed_at?: string | null;
+  reviewed_by_user_id?: string | null;
+  reviewed_by_email?: string | null;
+  rejection_reason?: string | null;
+  admin_notes?: string | null;
+  payment_method?: PaymentMethod | null;
+  payment_reference?: string | null;
+  payment_date?: string | null;
+  paid_by_user_id?: string | null;
+  paid_by_email?: string | null;
   created_at: string;
 };
 
@@ -24,11 +58,101 @@ function toBatch(r: BatchesRow): Batch {
     status: r.status,
     paymentStatus: (r.payment_status ?? "UNPAID") as BatchPaymentStatus,
     contractIds: (r.contract_ids ?? []) as string[],
+    creditNoteIds: (r.credit_note_ids ?? []) as string[],
     subtotalCents: typeof r.subtotal_cents === "number" ? r.subtotal_cents : 0,
     taxRate: typeof r.tax_rate === "number" ? r.tax_rate : 0,
     taxCents: typeof r.tax_cents === "number" ? r.tax_cents : 0,
+    taxBreakdown: Array.isArray(r.tax_breakdown) ? r.tax_breakdown : [],
     totalCents: typeof r.total_cents === "number" ? r.total_cents : 0,
+    paidCents: typeof r.paid_cents === "number" ? r.paid_cents : 0,
     paidAt: r.paid_at ?? undefined,
+    remittanceStatus: r.remittance_status ?? undefined,
+    dealerUserId: r.dealer_user_id ?? undefined,
+    dealerEmail: r.dealer_email ?? undefined,
+    providerId: r.provider_id ?? undefined,
+    submittedAt: r.submitted_at ?? undefined,
+    reviewedAt: r.reviewed_at ?? undefined,
+    reviewedByUserId: r.reviewed_by_user_id ?? undefined,
+    reviewedByEmail: r.reviewed_by_email ?? undefined,
+    rejectionReason: r.rejection_reason ?? undefined,
+    adminNotes: r.admin_notes ?? undefined,
+    paymentMethod: r.payment_method ?? undefined,
+    paymentReference: r.payment_reference ?? undefined,
+    paymentDate: r.payment_date ?? undefined,
+    paidByUserId: r.paid_by_user_id ?? undefined,
+    paidByEmail: r.paid_by_email ?? undefined,
+    createdAt: r.created_at,
+  };
+}
+
+type RemittancePaymentsRow = {
+  id: string;
+  payment_id: string;
+  batch_id: string;
+  amount_cents: number;
+  method: PaymentMethod;
+  reference?: string | null;
+  payment_date: string;
+  bank_deposit_id?: string | null;
+  recorded_by_user_id?: string | null;
+  recorded_by_email?: string | null;
+  recorded_at: string;
+};
+
+function toPayment(r: RemittancePaymentsRow): RemittancePayment {
+  return {
+    id: r.id,
+    paymentId: r.payment_id,
+    batchId: r.batch_id,
+    amountCents: r.amount_cents,
+    method: r.method,
+    reference: r.reference ?? undefined,
+    paymentDate: r.payment_date,
+    bankDepositId: r.bank_deposit_id ?? undefined,
+    recordedByUserId: r.recorded_by_user_id ?? undefined,
+    recordedByEmail: r.recorded_by_email ?? undefined,
+    recordedAt: r.recorded_at,
+  };
+}
+
+type RemittanceCreditNotesRow = {
+  id: string;
+  credit_note_number: string;
+  contract_id: string;
+  contract_number?: string | null;
+  original_batch_id: string;
+  original_batch_number: string;
+  provider_id?: string | null;
+  reason: string;
+  subtotal_cents: number;
+  tax_cents: number;
+  tax_breakdown?: SalesTaxLine[] | null;
+  total_cents: number;
+  applied_batch_id?: string | null;
+  cancellation_id?: string | null;
+  created_by_user_id?: string | null;
+  created_by_email?: string | null;
+  created_at: string;
+};
+
+function toCreditNote(r: RemittanceCreditNotesRow): RemittanceCreditNote {
+  return {
+    id: r.id,
+    creditNoteNumber: r.credit_note_number,
+    contractId: r.contract_id,
+    contractNumber: r.contract_number ?? undefined,
+    originalBatchId: r.original_batch_id,
+    originalBatchNumber: r.original_batch_number,
+    providerId: r.provider_id ?? undefined,
+    reason: r.reason,
+    subtotalCents: r.subtotal_cents,
+    taxCents: r.tax_cents,
+    taxBreakdown: Array.isArray(r.tax_breakdown) ? r.tax_breakdown : [],
+    totalCents: r.total_cents,
+    appliedBatchId: r.applied_batch_id ?? undefined,
+    cancellationId: r.cancellation_id ?? undefined,
+    createdByUserId: r.created_by_user_id ?? undefined,
+    createdByEmail: r.created_by_email ?? undefined,
     createdAt: r.created_at,
   };
 }
@@ -78,12 +202,14 @@ export const supabaseBatchesApi: BatchesApi = {
       .from("batches")
       .insert({
         batch_number: input.batchNumber,
-        status: "CLOSED" satisfies BatchStatus,
+        status: "OPEN" satisfies BatchStatus,
         payment_status: "UNPAID" satisfies BatchPaymentStatus,
         contract_ids: input.contractIds,
+        credit_note_ids: input.creditNoteIds ?? [],
         subtotal_cents: input.subtotalCents,
-        tax_rate: input.taxRate,
+        tax_rate: effectiveTaxRate(input),
         tax_cents: input.taxCents,
+        tax_breakdown: input.taxBreakdown,
         total_cents: input.totalCents,
       })
       .select("*")
@@ -107,23 +233,103 @@ export const supabaseBatchesApi: BatchesApi = {
     if (!currentRes.data) throw new Error("Batch not found");
     const current = toBatch(currentRes.data as BatchesRow);
 
-    const hasNonStatusEdits = Object.keys(patch).some((k) => k !== "status");
-    if (hasNonStatusEdits && current.status === "CLOSED") {
+    const locksContents = Object.keys(patch).some((k) => (LOCKED_BATCH_FIELDS as readonly string[]).includes(k));
+    if (locksContents && !isRemittanceEditable(remittanceWorkflowStatus(current))) {
       throw new Error("Remittance is locked (submitted remittances cannot be edited)");
     }
 
     const updateRow: Record<string, unknown> = {};
-    if (typeof patch.status === "string") updateRow.status = patch.status;
     if (Array.isArray(patch.contractIds)) updateRow.contract_ids = patch.contractIds;
+    if (Array.isArray(patch.creditNoteIds)) updateRow.credit_note_ids = patch.creditNoteIds;
+    if (typeof patch.subtotalCents === "number") updateRow.subtotal_cents = patch.subtotalCents;
+    if (typeof patch.taxRate === "number") updateRow.tax_rate = patch.taxRate;
+    if (typeof patch.taxCents === "number") updateRow.tax_cents = patch.taxCents;
+    if (Array.isArray(patch.taxBreakdown)) updateRow.tax_breakdown = patch.taxBreakdown;
     if (typeof patch.totalCents === "number") updateRow.total_cents = patch.totalCents;
-    if (typeof patch.paymentStatus === "string") updateRow.payment_status = patch.paymentStatus;
-    if (Object.prototype.hasOwnProperty.call(patch, "paidAt")) {
-      if (typeof patch.paidAt === "string") updateRow.paid_at = patch.paidAt;
-      else updateRow.paid_at = null;
-    }
+    if (typeof patch.dealerUserId === "string") updateRow.dealer_user_id = patch.dealerUserId;
+    if (typeof patch.dealerEmail === "string") updateRow.dealer_email = patch.dealerEmail;
+    if (typeof patch.providerId === "string") updateRow.provider_id = patch.providerId;
 
     const { data, error } = await supabase.from("batches").update(updateRow).eq("id", id).select("*").single();
     if (error) throw error;
     return toBatch(data as BatchesRow);
   },
+
+  // transition_remittance_batch checks the caller's role and moves the contracts in the same transaction.
+  async transition(id: string, input: RemittanceTransitionInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase.rpc("transition_remittance_batch", {
+      _batch_id: id,
+      _to: input.to,
+      _rejection_reason: input.rejectionReason ?? null,
+      _admin_notes: input.adminNotes ?? null,
+      _payment_method: input.paymentMethod ?? null,
+      _payment_reference: input.paymentReference ?? null,
+      _payment_date: input.paymentDate ?? null,
+    });
+    if (error) throw error;
+    return toBatch((Array.isArray(data) ? data[0] : data) as BatchesRow);
+  },
+
+  async listPayments() {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("remittance_payments")
+      .select("*")
+      .order("recorded_at", { ascending: false });
+
+    if (error) throw error;
+    return (data as RemittancePaymentsRow[]).map(toPayment);
+  },
+
+  // record_remittance_payment checks every allocation against its balance and pays settled
+  // remittances' contracts in one transaction.
+  async recordPayment(input: RecordRemittancePaymentInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase.rpc("record_remittance_payment", {
+      _method: input.method,
+      _reference: input.reference ?? null,
+      _payment_date: input.paymentDate,
+      _allocations: input.allocations,
+      _bank_deposit_id: input.bankDepositId ?? null,
+    });
+    if (error) throw error;
+    return ((data ?? []) as RemittancePaymentsRow[]).map(toPayment);
+  },
+
+  async listCreditNotes() {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("remittance_credit_notes")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data as RemittanceCreditNotesRow[]).map(toCreditNote);
+  },
+
+  // issue_remittance_credit_note checks the remittance is locked, works out the tax reversal and
+  // caps the credit at what was remitted.
+  async issueCreditNote(input: IssueCreditNoteInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase.rpc("issue_remittance_credit_note", {
+      _contract_id: input.contractId,
+      _original_batch_id: input.originalBatchId,
+      _reason: input.reason,
+      _subtotal_cents: input.subtotalCents,
+      _cancellation_id: input.cancellationId ?? null,
+    });
+    if (error) throw error;
+    return toCreditNote((Array.isArray(data) ? data[0] : data) as RemittanceCreditNotesRow);
+  },
 };
@@ -1,8 +1,10 @@
+import type { SalesTaxLine } from "../tax/types";
+
 export type BatchStatus = "OPEN" | "CLOSED";
 
-export type BatchPaymentStatus = "UNPAID" | "PAID";
+export type BatchPaymentStatus = "UNPAID" | "PARTIALLY_PAID" | "PAID";
 
-export type RemittanceWorkflowStatus = "DRAFT" | "SUBMITTED" | "APPROVED" | "REJECTED" | "PAID";
+export type RemittanceWorkflowStatus = "DRAFT" | "SUBMITTED" | "APPROVED" | "REJECTED" | "PARTIALLY_PAID" | "PAID";
 
 export type PaymentMethod = "EFT" | "CHEQUE";
 
@@ -13,10 +15,15 @@ export type Batch = {
   paymentStatus: BatchPaymentStatus;
   remittanceStatus?: RemittanceWorkflowStatus;
   contractIds: string[];
+  // Credit notes pulled into this remittance as negative lines; they are included in the totals.
+  creditNoteIds: string[];
   subtotalCents: number;
   taxRate: number;
   taxCents: number;
+  taxBreakdown: SalesTaxLine[];
   totalCents: number;
+  // Sum of the payment ledger; the outstanding balance is totalCents - paidCents.
+  paidCents: number;
   paidAt?: string;
   dealerUserId?: string;
   dealerEmail?: string;
@@ -35,6 +42,80 @@ export type Batch = {
   createdAt: string;
 };
 
+export type RemittanceTransitionInput = {
+  to: RemittanceWorkflowStatus;
+  // Required when rejecting.
+  rejectionReason?: string;
+  adminNotes?: string;
+  // Required when marking paid; records a payment of the outstanding balance.
+  paymentMethod?: PaymentMethod;
+  paymentReference?: string;
+  paymentDate?: string;
+};
+
+// One entry in a remittance's payment ledger. A single payment spread across several
+// remittances shares a paymentId.
+export type RemittancePayment = {
+  id: string;
+  paymentId: string;
+  batchId: string;
+  amountCents: number;
+  method: PaymentMethod;
+  reference?: string;
+  paymentDate: string;
+  bankDepositId?: string;
+  recordedByUserId?: string;
+  recordedByEmail?: string;
+  recordedAt: string;
+};
+
+export type PaymentAllocation = {
+  batchId: string;
+  amountCents: number;
+};
+
+export type RecordRemittancePaymentInput = {
+  method: PaymentMethod;
+  reference?: string;
+  paymentDate: string;
+  allocations: PaymentAllocation[];
+  // Set when the payment comes from a reconciled bank statement line.
+  bankDepositId?: string;
+};
+
+// Reverses (part of) a contract in a remittance that can no longer be edited. Amounts are
+// negative and carry their own tax reversal; the credit is settled by pulling the note into
+// a later remittance for the same provider, where it reduces the total.
+export type RemittanceCreditNote = {
+  id: string;
+  creditNoteNumber: string;
+  contractId: string;
+  // Contract number as printed when the note was issued.
+  contractNumber?: string;
+  originalBatchId: string;
+  originalBatchNumber: string;
+  providerId?: string;
+  reason: string;
+  subtotalCents: number;
+  taxCents: number;
+  taxBreakdown: SalesTaxLine[];
+  totalCents: number;
+  appliedBatchId?: string;
+  cancellationId?: string;
+  createdByUserId?: string;
+  createdByEmail?: string;
+  createdAt: string;
+};
+
+export type IssueCreditNoteInput = {
+  contractId: string;
+  originalBatchId: string;
+  reason: string;
+  // Negative. The tax reversal is worked out from the contract when the note is issued.
+  subtotalCents: number;
+  cancellationId?: string;
+};
+
 export type CreateBatchInput = {
   batchNumber: string;
 };
@@ -42,8 +123,9 @@ export type CreateBatchInput = {
 export type CreateRemittanceBatchInput = {
   batchNumber: string;
   contractIds: string[];
+  creditNoteIds?: string[];
   subtotalCents: number;
-  taxRate: number;
   taxCents: number;
+  taxBreakdown: SalesTaxLine[];
   totalCents: number;
 };
@@ -0,0 +1,145 @@
+import type { AuthUser } from "../auth/types";
+import type { Contract, ContractStatus } from "../contracts/types";
+import { hasPermission } from "../permissions/catalog";
+
+import type { Batch, RemittanceTransitionInput, RemittanceWorkflowStatus } from "./types";
+
+export type RemittanceActor = Pick<AuthUser, "id" | "email" | "role" | "permissions">;
+
+// The only moves a remittance can make. A rejected remittance goes back to the dealer,
+// who may correct it and submit again; a paid one is final. Payment moves are driven by
+// the payment ledger (see payments.ts): part-payments leave it partially paid until the
+// balance reaches zero.
+export const REMITTANCE_TRANSITIONS: Record<RemittanceWorkflowStatus, RemittanceWorkflowStatus[]> = {
+  DRAFT: ["SUBMITTED"],
+  SUBMITTED: ["APPROVED", "REJECTED"],
+  APPROVED: ["PARTIALLY_PAID", "PAID"],
+  REJECTED: ["SUBMITTED"],
+  PARTIALLY_PAID: ["PAID"],
+  PAID: [],
+};
+
+// Contract status each transition moves the remittance's contracts from and to. Rejection
+// hands contracts back as sold so they can be corrected or remitted in another batch;
+// contracts only count as paid once the whole remittance is.
+export const CONTRACT_STATUS_ON_TRANSITION: Partial<Record<RemittanceWorkflowStatus, { from: ContractStatus; to: ContractStatus }>> = {
+  SUBMITTED: { from: "SOLD", to: "REMITTED" },
+  REJECTED: { from: "REMITTED", to: "SOLD" },
+  PAID: { from: "REMITTED", to: "PAID" },
+};
+
+// Contents and totals are frozen from submission on; see isRemittanceEditable.
+export const LOCKED_BATCH_FIELDS = [
+  "contractIds",
+  "creditNoteIds",
+  "subtotalCents",
+  "taxRate",
+  "taxCents",
+  "taxBreakdown",
+  "totalCents",
+  "providerId",
+] as const;
+
+export function remittanceWorkflowStatus(b: Pick<Batch, "remittanceStatus" | "paymentStatus" | "status">): RemittanceWorkflowStatus {
+  if (b.remittanceStatus) return b.remittanceStatus;
+  if (b.paymentStatus === "PAID") return "PAID";
+  if (b.paymentStatus === "PARTIALLY_PAID") return "PARTIALLY_PAID";
+  if (b.status === "CLOSED") return "SUBMITTED";
+  return "DRAFT";
+}
+
+export function isRemittanceEditable(status: RemittanceWorkflowStatus) {
+  return status === "DRAFT" || status === "REJECTED";
+}
+
+function isPlatformAdmin(actor: RemittanceActor) {
+  return actor.role === "ADMIN" || actor.role === "SUPER_ADMIN";
+}
+
+export function canRecordRemittancePayment(batch: Pick<Batch, "providerId">, actor: RemittanceActor) {
+  return isPlatformAdmin(actor) || (actor.role === "PROVIDER" && (batch.providerId ?? "").trim() === actor.id);
+}
+
+// Whoever can submit the dealer's remittances can credit them once they are locked.
+export function canIssueCreditNote(actor: RemittanceActor) {
+  return isPlatformAdmin(actor) || hasPermission(actor, "remittances.submit");
+}
+
+// Dealers submit, platform admins review, and the remittance's provider (or an admin) records payment.
+export function remittanceTransitionProblem(batch: Batch, input: RemittanceTransitionInput, actor: RemittanceActor | null | undefined): string | null {
+  const from = remittanceWorkflowStatus(batch);
+  if (!REMITTANCE_TRANSITIONS[from].includes(input.to)) return `A ${from.toLowerCase()} remittance cannot be moved to ${input.to.toLowerCase()}`;
+  if (!actor) return "Not authenticated";
+
+  switch (input.to) {
+    case "SUBMITTED":
+      if (!hasPermission(actor, "remittances.submit")) return "Not authorized to submit remittances";
+      if (batch.contractIds.length === 0) return "No contracts linked";
+      return null;
+    case "APPROVED":
+      return isPlatformAdmin(actor) ? null : "Only an administrator can approve remittances";
+    case "REJECTED":
+      if (!isPlatformAdmin(actor)) return "Only an administrator can reject remittances";
+      return (input.rejectionReason ?? "").trim() ? null : "Rejection reason is required";
+    case "PARTIALLY_PAID":
+      return "Record a payment to part-pay a remittance";
+    case "PAID":
+      if (!canRecordRemittancePayment(batch, actor)) return "Only the remittance's provider can mark it paid";
+      if (!input.paymentMethod) return "Payment method is required";
+      return (input.paymentDate ?? "").trim() ? null : "Payment date is required";
+    default:
+      return "Unknown remittance status";
+  }
+}
+
+// The batch after a transition has been checked; stamps who moved it and when. Marking a
+// remittance paid settles whatever balance is left.
+export function applyRemittanceTransition(batch: Batch, input: RemittanceTransitionInput, actor: RemittanceActor, now: string): Batch {
+  const adminNotes = (input.adminNotes ?? "").trim() || batch.adminNotes;
+  switch (input.to) {
+    case "SUBMITTED":
+      return {
+        ...batch,
+        status: "CLOSED",
+        remittanceStatus: "SUBMITTED",
+        submittedAt: now,
+        dealerUserId: batch.dealerUserId ?? actor.id,
+        dealerEmail: batch.dealerEmail ?? actor.email,
+      };
+    case "APPROVED":
+    case "REJECTED":
+      return {
+        ...batch,
+        remittanceStatus: input.to,
+        // A rejected remittance is open for corrections again.
+        status: input.to === "REJECTED" ? "OPEN" : batch.status,
+        reviewedAt: now,
+        reviewedByUserId: actor.id,
+        reviewedByEmail: actor.email,
+        rejectionReason: input.to === "REJECTED" ? (input.rejectionReason ?? "").trim() : undefined,
+        adminNotes,
+      };
+    case "PAID":
+      return {
+        ...batch,
+        remittanceStatus: "PAID",
+        paymentStatus: "PAID",
+        paidCents: Math.max(batch.paidCents, batch.totalCents),
+        paidAt: now,
+        paymentMethod: input.paymentMethod,
+        paymentReference: (input.paymentReference ?? "").trim() || undefined,
+        paymentDate: (input.paymentDate ?? "").trim(),
+        paidByUserId: actor.id,
+        paidByEmail: actor.email,
+      };
+    default:
+      return batch;
+  }
+}
+
+// Stamps written on each contract when a transition moves its status.
+export function contractStatusStamp(to: ContractStatus, actor: RemittanceActor, now: string): Partial<Contract> & { status: ContractStatus } {
+  if (to === "REMITTED") return { status: to, remittedByUserId: actor.id, remittedByEmail: actor.email, remittedAt: now };
+  if (to === "PAID") return { status: to, paidByUserId: actor.id, paidByEmail: actor.email, paidAt: now };
+  return { status: to, remittedByUserId: undefined, remittedByEmail: undefined, remittedAt: undefined };
+}
@@ -0,0 +1,9 @@
+import type { CancelContractInput, CancellationActor, ContractCancellation } from "./types";
+
+export type ContractCancellationsApi = {
+  list(): Promise<ContractCancellation[]>;
+  getByContract(contractId: string): Promise<ContractCancellation | null>;
+  // Records the cancellation and marks the contract cancelled. A dealership contract's
+  // remittance lines get the provider's refund as a negative line.
+  cancel(input: CancelContractInput, actor: CancellationActor): Promise<ContractCancellation>;
+};
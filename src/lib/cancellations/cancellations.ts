@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { ContractCancellationsApi } from "./api";
+import { localContractCancellationsApi } from "./localCancellations";
+import { supabaseContractCancellationsApi } from "./supabaseCancellations";
+
+export function getContractCancellationsApi(): ContractCancellationsApi {
+  return getAppMode() === "supabase" ? supabaseContractCancellationsApi : localContractCancellationsApi;
+}
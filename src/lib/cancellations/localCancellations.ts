@@ -0,0 +1,108 @@
+import { localContractsApi, markLocalContractCancelled } from "../contracts/localContracts";
+import { localMarketplaceApi } from "../marketplace/localMarketplace";
+
+import type { ContractCancellationsApi } from "./api";
+import { cancellationAmounts, cancellationProblem, contractCancellationRefund } from "./refund";
+import type { CancellationRefundMethod, ContractCancellation } from "./types";
+
+const STORAGE_KEY = "warrantyhub.local.contract_cancellations";
+
+function asNumber(v: unknown, fallback = 0) {
+  return typeof v === "number" && Number.isFinite(v) ? v : fallback;
+}
+
+function asFractionOrNull(v: unknown) {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function read(): ContractCancellation[] {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<ContractCancellation>[];
+    return (Array.isArray(parsed) ? parsed : [])
+      .map((c): ContractCancellation => {
+        const createdAt = typeof c.createdAt === "string" ? c.createdAt : new Date().toISOString();
+        return {
+          id: typeof c.id === "string" ? c.id : crypto.randomUUID(),
+          contractId: typeof c.contractId === "string" ? c.contractId : "",
+          cancellationDate: typeof c.cancellationDate === "string" ? c.cancellationDate : createdAt.slice(0, 10),
+          odometerKm: asNumber(c.odometerKm),
+          refundMethod: (c.refundMethod ?? "PRO_RATA_TIME") as CancellationRefundMethod,
+          timeUsedFraction: asFractionOrNull(c.timeUsedFraction),
+          kmUsedFraction: asFractionOrNull(c.kmUsedFraction),
+          refundFraction: asNumber(c.refundFraction),
+          retailCents: asNumber(c.retailCents),
+          providerCostCents: asNumber(c.providerCostCents),
+          cancellationFeeCents: asNumber(c.cancellationFeeCents),
+          customerRefundCents: asNumber(c.customerRefundCents),
+          dealerRefundCents: asNumber(c.dealerRefundCents),
+          providerRefundCents: asNumber(c.providerRefundCents),
+          reason: typeof c.reason === "string" ? c.reason : undefined,
+          reversalRemittanceId: typeof c.reversalRemittanceId === "string" ? c.reversalRemittanceId : undefined,
+          createdByUserId: typeof c.createdByUserId === "string" ? c.createdByUserId : undefined,
+          createdByEmail: typeof c.createdByEmail === "string" ? c.createdByEmail : undefined,
+          createdAt,
+        };
+      })
+      .filter((c) => c.contractId.trim());
+  } catch {
+    return [];
+  }
+}
+
+function write(items: ContractCancellation[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+export const localContractCancellationsApi: ContractCancellationsApi = {
+  async list() {
+    return read().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  async getByContract(contractId: string) {
+    return read().find((c) => c.contractId === contractId) ?? null;
+  },
+
+  async cancel(input, actor) {
+    const items = read();
+    if (items.some((c) => c.contractId === input.contractId)) {
+      throw new Error("Contract is already cancelled");
+    }
+
+    const contract = await localContractsApi.get(input.contractId);
+    if (!contract) throw new Error("Contract not found");
+    const problem = cancellationProblem(contract, input);
+    if (problem) throw new Error(problem);
+
+    const product = (await localMarketplaceApi.listPublishedProducts()).find((p) => p.id === contract.productId);
+    const refund = contractCancellationRefund(contract, product, input);
+    const amounts = cancellationAmounts(contract);
+    const retailCents = Math.max(0, amounts.retailCents);
+    const now = new Date().toISOString();
+    const item: ContractCancellation = {
+      id: crypto.randomUUID(),
+      contractId: contract.id,
+      cancellationDate: input.cancellationDate,
+      odometerKm: input.odometerKm,
+      refundMethod: refund.refundMethod,
+      timeUsedFraction: refund.timeUsedFraction,
+      kmUsedFraction: refund.kmUsedFraction,
+      refundFraction: refund.refundFraction,
+      retailCents,
+      providerCostCents: Math.min(Math.max(0, amounts.providerCostCents), retailCents),
+      cancellationFeeCents: refund.cancellationFeeCents,
+      customerRefundCents: refund.customerRefundCents,
+      dealerRefundCents: refund.dealerRefundCents,
+      providerRefundCents: refund.providerRefundCents,
+      reason: (input.reason ?? "").trim() || undefined,
+      createdByUserId: actor.id,
+      createdByEmail: actor.email,
+      createdAt: now,
+    };
+
+    write([item, ...items]);
+    markLocalContractCancelled(contract.id, now);
+    return item;
+  },
+};
@@ -0,0 +1,150 @@
+import { addMonths, differenceInCalendarDays } from "date-fns";
+
+import type { Contract } from "../contracts/types";
+import type { Product } from "../products/types";
+
+import type { CancelContractInput, CancellationRefundMethod } from "./types";
+
+export type CancellationRefundInput = {
+  refundMethod: CancellationRefundMethod;
+  cancellationFeeCents?: number;
+  startDate: string;
+  cancellationDate: string;
+  termMonths: number | null | undefined;
+  termKm: number | null | undefined;
+  startOdometerKm: number | null | undefined;
+  cancellationOdometerKm: number;
+  retailCents: number;
+  providerCostCents: number;
+};
+
+export type CancellationRefundBreakdown = {
+  refundMethod: CancellationRefundMethod;
+  timeUsedFraction: number | null;
+  kmUsedFraction: number | null;
+  refundFraction: number;
+  grossRefundCents: number;
+  cancellationFeeCents: number;
+  customerRefundCents: number;
+  dealerRefundCents: number;
+  providerRefundCents: number;
+};
+
+export const CANCELLATION_REFUND_METHOD_LABELS: Record<CancellationRefundMethod, string> = {
+  PRO_RATA_TIME: "Pro-rata (time)",
+  PRO_RATA_KM: "Pro-rata (km)",
+  PRO_RATA_LESSER: "Pro-rata (whichever is less)",
+  SHORT_RATE: "Short-rate",
+};
+
+function clampFraction(v: number) {
+  if (!Number.isFinite(v)) return 0;
+  return Math.min(1, Math.max(0, v));
+}
+
+function nonNegativeCents(v: number | null | undefined) {
+  return typeof v === "number" && Number.isFinite(v) && v > 0 ? Math.round(v) : 0;
+}
+
+export function timeUsedFraction(input: { startDate: string; cancellationDate: string; termMonths: number | null | undefined }) {
+  if (typeof input.termMonths !== "number" || input.termMonths <= 0) return null;
+  const start = new Date(input.startDate);
+  const cancelled = new Date(input.cancellationDate);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(cancelled.getTime())) return null;
+
+  const termDays = differenceInCalendarDays(addMonths(start, input.termMonths), start);
+  if (termDays <= 0) return null;
+  return clampFraction(differenceInCalendarDays(cancelled, start) / termDays);
+}
+
+export function kmUsedFraction(input: {
+  termKm: number | null | undefined;
+  startOdometerKm: number | null | undefined;
+  cancellationOdometerKm: number;
+}) {
+  if (typeof input.termKm !== "number" || input.termKm <= 0) return null;
+  const startKm = typeof input.startOdometerKm === "number" && Number.isFinite(input.startOdometerKm) ? input.startOdometerKm : 0;
+  return clampFraction((input.cancellationOdometerKm - startKm) / input.termKm);
+}
+
+export function calculateCancellationRefund(input: CancellationRefundInput): CancellationRefundBreakdown {
+  const retailCents = nonNegativeCents(input.retailCents);
+  const providerCostCents = Math.min(nonNegativeCents(input.providerCostCents), retailCents);
+
+  const timeUsed = timeUsedFraction(input);
+  const kmUsed = kmUsedFraction(input);
+
+  // Unlimited terms have no denominator; fall back to whichever axis is measurable.
+  const refundFraction = (() => {
+    if (input.refundMethod === "PRO_RATA_KM") return 1 - (kmUsed ?? timeUsed ?? 0);
+    if (input.refundMethod === "PRO_RATA_LESSER") return 1 - Math.max(timeUsed ?? 0, kmUsed ?? 0);
+    return 1 - (timeUsed ?? kmUsed ?? 0);
+  })();
+
+  const fraction = clampFraction(refundFraction);
+  const grossRefundCents = Math.round(retailCents * fraction);
+  const grossProviderRefundCents = Math.round(providerCostCents * fraction);
+  const grossDealerRefundCents = grossRefundCents - grossProviderRefundCents;
+
+  // A short-rate cancellation refunds the unexpired time like pro-rata; its penalty is the
+  // product's cancellation fee and nothing else.
+  const feeRequested = input.refundMethod === "SHORT_RATE" ? nonNegativeCents(input.cancellationFeeCents) : 0;
+  const cancellationFeeCents = Math.min(feeRequested, grossRefundCents);
+
+  // The fee is retained by the dealer first; only the excess reduces the provider's share.
+  const feeFromDealer = Math.min(cancellationFeeCents, grossDealerRefundCents);
+  const feeFromProvider = cancellationFeeCents - feeFromDealer;
+
+  const dealerRefundCents = grossDealerRefundCents - feeFromDealer;
+  const providerRefundCents = grossProviderRefundCents - feeFromProvider;
+
+  return {
+    refundMethod: input.refundMethod,
+    timeUsedFraction: timeUsed,
+    kmUsedFraction: kmUsed,
+    refundFraction: fraction,
+    grossRefundCents,
+    cancellationFeeCents,
+    customerRefundCents: dealerRefundCents + providerRefundCents,
+    dealerRefundCents,
+    providerRefundCents,
+  };
+}
+
+// What the customer paid and what the provider was paid for the contract.
+export function cancellationAmounts(contract: Contract) {
+  const retailCents = (contract.pricingBasePriceCents ?? 0) + (contract.addonTotalRetailCents ?? 0);
+  const providerCostCents =
+    (typeof contract.pricingDealerCostCents === "number" ? contract.pricingDealerCostCents : (contract.pricingBasePriceCents ?? 0)) +
+    (contract.addonTotalCostCents ?? 0);
+  return { retailCents, providerCostCents };
+}
+
+export function cancellationProblem(contract: Contract, input: Pick<CancelContractInput, "cancellationDate" | "odometerKm">): string | null {
+  if (contract.status === "DRAFT") return "Only a sold contract can be cancelled";
+  if (!Number.isFinite(input.odometerKm) || input.odometerKm < 0) return "Enter the odometer reading at cancellation";
+  if (input.cancellationDate < (contract.soldAt ?? contract.createdAt).slice(0, 10)) return "Cancellation date cannot be before the contract was sold";
+  if (typeof contract.vehicleMileageKm === "number" && input.odometerKm < contract.vehicleMileageKm) {
+    return "Odometer at cancellation cannot be lower than at sale";
+  }
+  return null;
+}
+
+// The refund for cancelling a contract under its product's cancellation terms.
+export function contractCancellationRefund(
+  contract: Contract,
+  product: Pick<Product, "cancellationRefundMethod" | "cancellationFeeCents"> | null | undefined,
+  input: Pick<CancelContractInput, "cancellationDate" | "odometerKm">,
+) {
+  return calculateCancellationRefund({
+    refundMethod: product?.cancellationRefundMethod ?? "PRO_RATA_TIME",
+    cancellationFeeCents: product?.cancellationFeeCents,
+    startDate: contract.soldAt ?? contract.createdAt,
+    cancellationDate: input.cancellationDate,
+    termMonths: contract.pricingTermMonths,
+    termKm: contract.pricingTermKm,
+    startOdometerKm: contract.vehicleMileageKm,
+    cancellationOdometerKm: input.odometerKm,
+    ...cancellationAmounts(contract),
+  });
+}
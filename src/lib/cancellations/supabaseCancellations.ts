@@ -0,0 +1,102 @@
+import { getSupabaseClient } from "../supabase/client";
+
+import type { ContractCancellationsApi } from "./api";
+import type { CancellationRefundMethod, ContractCancellation } from "./types";
+
+type ContractCancellationsRow = {
+  id: string;
+  contract_id: string;
+  cancellation_date: string;
+  odometer_km: number;
+  refund_method: string;
+  time_used_fraction?: number | string | null;
+  km_used_fraction?: number | string | null;
+  refund_fraction: number | string;
+  retail_cents: number;
+  provider_cost_cents: number;
+  cancellation_fee_cents: number;
+  customer_refund_cents: number;
+  dealer_refund_cents: number;
+  provider_refund_cents: number;
+  reason?: string | null;
+  reversal_remittance_id?: string | null;
+  created_by_user_id?: string | null;
+  created_by_email?: string | null;
+  created_at: string;
+};
+
+function fractionOrNull(v: number | string | null | undefined) {
+  if (v === null || v === undefined) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toCancellation(r: ContractCancellationsRow): ContractCancellation {
+  return {
+    id: r.id,
+    contractId: r.contract_id,
+    cancellationDate: r.cancellation_date,
+    odometerKm: r.odometer_km,
+    refundMethod: r.refund_method as CancellationRefundMethod,
+    timeUsedFraction: fractionOrNull(r.time_used_fraction),
+    kmUsedFraction: fractionOrNull(r.km_used_fraction),
+    refundFraction: Number(r.refund_fraction),
+    retailCents: r.retail_cents,
+    providerCostCents: r.provider_cost_cents,
+    cancellationFeeCents: r.cancellation_fee_cents,
+    customerRefundCents: r.customer_refund_cents,
+    dealerRefundCents: r.dealer_refund_cents,
+    providerRefundCents: r.provider_refund_cents,
+    reason: r.reason ?? undefined,
+    reversalRemittanceId: r.reversal_remittance_id ?? undefined,
+    createdByUserId: r.created_by_user_id ?? undefined,
+    createdByEmail: r.created_by_email ?? undefined,
+    createdAt: r.created_at,
+  };
+}
+
+export const supabaseContractCancellationsApi: ContractCancellationsApi = {
+  async list() {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("contract_cancellations")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data as ContractCancellationsRow[]).map(toCancellation);
+  },
+
+  async getByContract(contractId: string) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("contract_cancellations")
+      .select("*")
+      .eq("contract_id", contractId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toCancellation(data as ContractCancellationsRow) : null;
+  },
+
+  async cancel(input) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    // cancel_contract works out the refund and writes the cancellation, the contract's
+    // status and its negative remittance line in one transaction.
+    const { data, error } = await supabase.rpc("cancel_contract", {
+      _contract_id: input.contractId,
+      _cancellation_date: input.cancellationDate,
+      _odometer_km: input.odometerKm,
+      _reason: input.reason ?? null,
+    });
+
+    if (error) throw error;
+    return toCancellation(data as ContractCancellationsRow);
+  },
+};
@@ -0,0 +1,36 @@
+import type { AuthUser } from "../auth/types";
+import type { CancellationRefundMethod } from "../products/types";
+
+export type { CancellationRefundMethod };
+
+export type ContractCancellation = {
+  id: string;
+  contractId: string;
+  cancellationDate: string;
+  odometerKm: number;
+  refundMethod: CancellationRefundMethod;
+  timeUsedFraction: number | null;
+  kmUsedFraction: number | null;
+  refundFraction: number;
+  retailCents: number;
+  providerCostCents: number;
+  cancellationFeeCents: number;
+  customerRefundCents: number;
+  dealerRefundCents: number;
+  providerRefundCents: number;
+  reason?: string;
+  reversalRemittanceId?: string;
+  createdByUserId?: string;
+  createdByEmail?: string;
+  createdAt: string;
+};
+
+export type CancellationActor = Pick<AuthUser, "id" | "email">;
+
+// The refund itself is worked out from the contract and its product when cancelling.
+export type CancelContractInput = {
+  contractId: string;
+  cancellationDate: string;
+  odometerKm: number;
+  reason?: string;
+};
@@ -0,0 +1,123 @@
+import type { ClaimLimitType, ProductPricing } from "../productPricing/types";
+import type { CoverageItem } from "../products/types";
+
+import type { Claim, ClaimLine, ClaimLineCoverage, ClaimLineDecision, ClaimStatus } from "./types";
+
+export const CLAIM_LIMIT_TYPE_LABELS: Record<ClaimLimitType, string> = {
+  PER_CLAIM: "Per claim",
+  TOTAL_COVERAGE: "Total coverage",
+  FMV: "Fair market value",
+  MAX_RETAIL: "Max retail",
+};
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  SUBMITTED: "Submitted",
+  APPROVED: "Approved",
+  PARTIALLY_APPROVED: "Partially approved",
+  DENIED: "Denied",
+};
+
+// PER_CLAIM and FMV cap each claim on its own; TOTAL_COVERAGE and MAX_RETAIL cap
+// everything paid out over the life of the contract.
+export function isAggregateClaimLimit(type: ClaimLimitType | undefined) {
+  return type === "TOTAL_COVERAGE" || type === "MAX_RETAIL";
+}
+
+export function claimLineCoverage(items: CoverageItem[] | undefined, coverageItemId: string | undefined): ClaimLineCoverage {
+  const id = (coverageItemId ?? "").trim();
+  if (!id) return "unlisted";
+  const item = (items ?? []).find((i) => i.id === id);
+  return item ? item.status : "unlisted";
+}
+
+// Included items start approved and excluded items start denied; term-specific and
+// unlisted repairs need a person to look at them.
+export function defaultLineDecision(coverage: ClaimLineCoverage): ClaimLineDecision {
+  if (coverage === "included") return "APPROVED";
+  if (coverage === "not_included") return "DENIED";
+  return "PENDING";
+}
+
+export function claimLineRequestedCents(line: Pick<ClaimLine, "partsCents" | "laborCents">) {
+  return Math.max(0, line.partsCents) + Math.max(0, line.laborCents);
+}
+
+export function resolveClaimLimit(input: {
+  pricing?: Pick<ProductPricing, "claimLimitType" | "claimLimitCents" | "claimLimitAmountCents"> | null;
+  contractRetailCents?: number;
+  vehicleValueCents?: number;
+}): { claimLimitType?: ClaimLimitType; claimLimitCents?: number } {
+  const amount = input.pricing?.claimLimitAmountCents ?? input.pricing?.claimLimitCents;
+  const type = input.pricing?.claimLimitType ?? (typeof amount === "number" ? "PER_CLAIM" : undefined);
+  if (!type) return {};
+
+  if (type === "FMV") {
+    const fmv = input.vehicleValueCents;
+    const cents = typeof amount === "number" && typeof fmv === "number" ? Math.min(amount, fmv) : (fmv ?? amount);
+    return { claimLimitType: type, claimLimitCents: cents };
+  }
+  if (type === "MAX_RETAIL") {
+    return { claimLimitType: type, claimLimitCents: amount ?? input.contractRetailCents };
+  }
+  return { claimLimitType: type, claimLimitCents: amount };
+}
+
+// What has already been paid on the contract by other adjudicated claims.
+export function priorPaidCents(claims: Claim[], excludeClaimId?: string) {
+  return claims
+    .filter((c) => c.id !== excludeClaimId && (c.status === "APPROVED" || c.status === "PARTIALLY_APPROVED"))
+    .reduce((sum, c) => sum + c.payableCents, 0);
+}
+
+export type ClaimTotals = {
+  requestedCents: number;
+  approvedCents: number;
+  deductibleAppliedCents: number;
+  limitCents: number | null;
+  limitUsedBeforeCents: number;
+  limitRemainingCents: number | null;
+  payableCents: number;
+  overLimitCents: number;
+};
+
+export function calculateClaimTotals(input: {
+  lines: Pick<ClaimLine, "partsCents" | "laborCents" | "decision" | "approvedCents">[];
+  deductibleCents: number;
+  claimLimitType?: ClaimLimitType;
+  claimLimitCents?: number;
+  priorPaidCents?: number;
+}): ClaimTotals {
+  let requestedCents = 0;
+  let approvedCents = 0;
+  for (const line of input.lines) {
+    const requested = claimLineRequestedCents(line);
+    requestedCents += requested;
+    if (line.decision === "APPROVED") approvedCents += Math.min(requested, Math.max(0, line.approvedCents));
+  }
+
+  const deductibleAppliedCents = Math.min(approvedCents, Math.max(0, input.deductibleCents));
+  const afterDeductible = approvedCents - deductibleAppliedCents;
+
+  const limitCents = typeof input.claimLimitCents === "number" ? Math.max(0, input.claimLimitCents) : null;
+  const limitUsedBeforeCents = isAggregateClaimLimit(input.claimLimitType) ? Math.max(0, input.priorPaidCents ?? 0) : 0;
+  const availableCents = limitCents === null ? null : Math.max(0, limitCents - limitUsedBeforeCents);
+  const payableCents = availableCents === null ? afterDeductible : Math.min(afterDeductible, availableCents);
+
+  return {
+    requestedCents,
+    approvedCents,
+    deductibleAppliedCents,
+    limitCents,
+    limitUsedBeforeCents,
+    limitRemainingCents: availableCents === null ? null : availableCents - payableCents,
+    payableCents,
+    overLimitCents: afterDeductible - payableCents,
+  };
+}
+
+export function claimStatusFromLines(lines: Pick<ClaimLine, "partsCents" | "laborCents" | "decision" | "approvedCents">[]): ClaimStatus {
+  if (lines.length === 0 || lines.some((l) => l.decision === "PENDING")) return "SUBMITTED";
+  if (lines.every((l) => l.decision === "DENIED")) return "DENIED";
+  const fullyApproved = lines.every((l) => l.decision === "APPROVED" && l.approvedCents >= claimLineRequestedCents(l));
+  return fullyApproved ? "APPROVED" : "PARTIALLY_APPROVED";
+}
@@ -0,0 +1,8 @@
+import type { AdjudicateClaimInput, Claim, CreateClaimInput } from "./types";
+
+export type ClaimsApi = {
+  list(): Promise<Claim[]>;
+  listByContract(contractId: string): Promise<Claim[]>;
+  create(input: CreateClaimInput): Promise<Claim>;
+  adjudicate(id: string, input: AdjudicateClaimInput): Promise<Claim>;
+};
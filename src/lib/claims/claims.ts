@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { ClaimsApi } from "./api";
+import { localClaimsApi } from "./localClaims";
+import { supabaseClaimsApi } from "./supabaseClaims";
+
+export function getClaimsApi(): ClaimsApi {
+  return getAppMode() === "supabase" ? supabaseClaimsApi : localClaimsApi;
+}
@@ -0,0 +1,188 @@
+import type { ClaimLimitType } from "../productPricing/types";
+
+import type { ClaimsApi } from "./api";
+import { calculateClaimTotals, claimLineRequestedCents, claimStatusFromLines, defaultLineDecision, priorPaidCents } from "./adjudication";
+import type { AdjudicateClaimInput, Claim, ClaimLine, ClaimLineCoverage, ClaimLineDecision, ClaimStatus, CreateClaimInput } from "./types";
+
+const STORAGE_KEY = "warrantyhub.local.claims";
+
+const CLAIM_NUMBER_PREFIX = "CLM";
+
+function asNumber(v: unknown, fallback = 0) {
+  return typeof v === "number" && Number.isFinite(v) ? v : fallback;
+}
+
+function asString(v: unknown) {
+  return typeof v === "string" ? v : undefined;
+}
+
+function isClaimStatus(v: unknown): v is ClaimStatus {
+  return v === "SUBMITTED" || v === "APPROVED" || v === "PARTIALLY_APPROVED" || v === "DENIED";
+}
+
+function isDecision(v: unknown): v is ClaimLineDecision {
+  return v === "PENDING" || v === "APPROVED" || v === "DENIED";
+}
+
+function isCoverage(v: unknown): v is ClaimLineCoverage {
+  return v === "included" || v === "not_included" || v === "term_specific" || v === "unlisted";
+}
+
+function normalizeLine(l: Partial<ClaimLine>): ClaimLine {
+  const coverage = isCoverage(l.coverage) ? l.coverage : "unlisted";
+  return {
+    id: typeof l.id === "string" ? l.id : crypto.randomUUID(),
+    description: typeof l.description === "string" ? l.description : "",
+    coverageItemId: asString(l.coverageItemId),
+    coverageItemName: asString(l.coverageItemName),
+    coverage,
+    partsCents: asNumber(l.partsCents),
+    laborCents: asNumber(l.laborCents),
+    decision: isDecision(l.decision) ? l.decision : defaultLineDecision(coverage),
+    approvedCents: asNumber(l.approvedCents),
+    denialReason: asString(l.denialReason),
+  };
+}
+
+function read(): Claim[] {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<Claim>[];
+    return (Array.isArray(parsed) ? parsed : [])
+      .map((c): Claim => {
+        const createdAt = typeof c.createdAt === "string" ? c.createdAt : new Date().toISOString();
+        return {
+          id: typeof c.id === "string" ? c.id : crypto.randomUUID(),
+          claimNumber: typeof c.claimNumber === "string" ? c.claimNumber : "",
+          contractId: typeof c.contractId === "string" ? c.contractId : "",
+          productId: asString(c.productId),
+          status: isClaimStatus(c.status) ? c.status : "SUBMITTED",
+          lossDate: typeof c.lossDate === "string" ? c.lossDate : createdAt.slice(0, 10),
+          odometerKm: asNumber(c.odometerKm),
+          complaint: typeof c.complaint === "string" ? c.complaint : "",
+          lines: (Array.isArray(c.lines) ? c.lines : []).map((l) => normalizeLine(l as Partial<ClaimLine>)),
+          deductibleCents: asNumber(c.deductibleCents),
+          claimLimitType: asString(c.claimLimitType) as ClaimLimitType | undefined,
+          claimLimitCents: typeof c.claimLimitCents === "number" ? c.claimLimitCents : undefined,
+          requestedCents: asNumber(c.requestedCents),
+          approvedCents: asNumber(c.approvedCents),
+          payableCents: asNumber(c.payableCents),
+          openedByRole: c.openedByRole === "PROVIDER" ? "PROVIDER" : "DEALER",
+          openedByUserId: asString(c.openedByUserId),
+          openedByEmail: asString(c.openedByEmail),
+          adjudicatedByUserId: asString(c.adjudicatedByUserId),
+          adjudicatedByEmail: asString(c.adjudicatedByEmail),
+          adjudicatedAt: asString(c.adjudicatedAt),
+          adjudicationNotes: asString(c.adjudicationNotes),
+          createdAt,
+          updatedAt: typeof c.updatedAt === "string" ? c.updatedAt : createdAt,
+        };
+      })
+      .filter((c) => c.contractId.trim());
+  } catch {
+    return [];
+  }
+}
+
+function write(items: Claim[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+export const localClaimsApi: ClaimsApi = {
+  async list() {
+    return read().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  async listByContract(contractId: string) {
+    return read()
+      .filter((c) => c.contractId === contractId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  async create(input: CreateClaimInput) {
+    if (input.lines.length === 0) throw new Error("A claim needs at least one repair line");
+
+    const now = new Date().toISOString();
+    const lines = input.lines.map(
+      (l): ClaimLine => ({
+        id: crypto.randomUUID(),
+        ...l,
+        decision: "PENDING",
+        approvedCents: 0,
+      }),
+    );
+
+    const item: Claim = {
+      id: crypto.randomUUID(),
+      claimNumber: `${CLAIM_NUMBER_PREFIX}-${Date.now().toString(36).toUpperCase()}`,
+      contractId: input.contractId,
+      productId: input.productId,
+      status: "SUBMITTED",
+      lossDate: input.lossDate,
+      odometerKm: input.odometerKm,
+      complaint: input.complaint,
+      lines,
+      deductibleCents: input.deductibleCents,
+      claimLimitType: input.claimLimitType,
+      claimLimitCents: input.claimLimitCents,
+      requestedCents: lines.reduce((sum, l) => sum + claimLineRequestedCents(l), 0),
+      approvedCents: 0,
+      payableCents: 0,
+      openedByRole: input.openedByRole,
+      openedByUserId: input.openedByUserId,
+      openedByEmail: input.openedByEmail,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    write([item, ...read()]);
+    return item;
+  },
+
+  async adjudicate(id: string, input: AdjudicateClaimInput) {
+    const items = read();
+    const idx = items.findIndex((c) => c.id === id);
+    if (idx < 0) throw new Error("Claim not found");
+
+    const current = items[idx]!;
+    const now = new Date().toISOString();
+    // Same as the adjudicate_claim_totals trigger: only line decisions are taken from the input.
+    const decided = new Map(input.lines.map((l) => [l.id, l]));
+    const lines = current.lines.map((line): ClaimLine => {
+      const d = decided.get(line.id) ?? line;
+      return {
+        ...line,
+        decision: d.decision === "APPROVED" || d.decision === "DENIED" ? d.decision : "PENDING",
+        approvedCents: Math.max(0, Math.round(d.approvedCents)),
+        denialReason: d.denialReason,
+      };
+    });
+    const totals = calculateClaimTotals({
+      lines,
+      deductibleCents: current.deductibleCents,
+      claimLimitType: current.claimLimitType,
+      claimLimitCents: current.claimLimitCents,
+      priorPaidCents: priorPaidCents(
+        items.filter((c) => c.contractId === current.contractId),
+        current.id,
+      ),
+    });
+    const next: Claim = {
+      ...current,
+      lines,
+      status: claimStatusFromLines(lines),
+      approvedCents: totals.approvedCents,
+      payableCents: totals.payableCents,
+      adjudicationNotes: input.adjudicationNotes,
+      adjudicatedByUserId: input.adjudicatedByUserId,
+      adjudicatedByEmail: input.adjudicatedByEmail,
+      adjudicatedAt: now,
+      updatedAt: now,
+    };
+
+    items[idx] = next;
+    write(items);
+    return next;
+  },
+};
@@ -0,0 +1,160 @@
+import type { ClaimLimitType } from "../productPricing/types";
+import { getSupabaseClient } from "../supabase/client";
+
+import type { ClaimsApi } from "./api";
+import { claimLineRequestedCents } from "./adjudication";
+import type { AdjudicateClaimInput, Claim, ClaimLine, ClaimStatus, CreateClaimInput } from "./types";
+
+const CLAIM_NUMBER_PREFIX = "CLM";
+
+type ClaimsRow = {
+  id: string;
+  claim_number: string;
+  contract_id: string;
+  product_id?: string | null;
+  status: string;
+  loss_date: string;
+  odometer_km: number;
+  complaint: string;
+  lines?: unknown;
+  deductible_cents: number;
+  claim_limit_type?: string | null;
+  claim_limit_cents?: number | null;
+  requested_cents: number;
+  approved_cents: number;
+  payable_cents: number;
+  opened_by_role: string;
+  opened_by_user_id?: string | null;
+  opened_by_email?: string | null;
+  adjudicated_by_user_id?: string | null;
+  adjudicated_by_email?: string | null;
+  adjudicated_at?: string | null;
+  adjudication_notes?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function toClaim(r: ClaimsRow): Claim {
+  return {
+    id: r.id,
+    claimNumber: r.claim_number,
+    contractId: r.contract_id,
+    productId: r.product_id ?? undefined,
+    status: r.status as ClaimStatus,
+    lossDate: r.loss_date,
+    odometerKm: r.odometer_km,
+    complaint: r.complaint,
+    lines: Array.isArray(r.lines) ? (r.lines as ClaimLine[]) : [],
+    deductibleCents: r.deductible_cents,
+    claimLimitType: (r.claim_limit_type ?? undefined) as ClaimLimitType | undefined,
+    claimLimitCents: r.claim_limit_cents ?? undefined,
+    requestedCents: r.requested_cents,
+    approvedCents: r.approved_cents,
+    payableCents: r.payable_cents,
+    openedByRole: r.opened_by_role === "PROVIDER" ? "PROVIDER" : "DEALER",
+    openedByUserId: r.opened_by_user_id ?? undefined,
+    openedByEmail: r.opened_by_email ?? undefined,
+    adjudicatedByUserId: r.adjudicated_by_user_id ?? undefined,
+    adjudicatedByEmail: r.adjudicated_by_email ?? undefined,
+    adjudicatedAt: r.adjudicated_at ?? undefined,
+    adjudicationNotes: r.adjudication_notes ?? undefined,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+export const supabaseClaimsApi: ClaimsApi = {
+  async list() {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase.from("claims").select("*").order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data as ClaimsRow[]).map(toClaim);
+  },
+
+  async listByContract(contractId: string) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("claims")
+      .select("*")
+      .eq("contract_id", contractId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data as ClaimsRow[]).map(toClaim);
+  },
+
+  async create(input: CreateClaimInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+    if (input.lines.length === 0) throw new Error("A claim needs at least one repair line");
+
+    const lines = input.lines.map(
+      (l): ClaimLine => ({
+        id: crypto.randomUUID(),
+        ...l,
+        decision: "PENDING",
+        approvedCents: 0,
+      }),
+    );
+
+    const { data, error } = await supabase
+      .from("claims")
+      .insert({
+        claim_number: `${CLAIM_NUMBER_PREFIX}-${Date.now().toString(36).toUpperCase()}`,
+        contract_id: input.contractId,
+        product_id: input.productId ?? null,
+        status: "SUBMITTED",
+        loss_date: input.lossDate,
+        odometer_km: input.odometerKm,
+        complaint: input.complaint,
+        lines,
+        deductible_cents: input.deductibleCents,
+        claim_limit_type: input.claimLimitType ?? null,
+        claim_limit_cents: input.claimLimitCents ?? null,
+        requested_cents: lines.reduce((sum, l) => sum + claimLineRequestedCents(l), 0),
+        approved_cents: 0,
+        payable_cents: 0,
+        opened_by_role: input.openedByRole,
+        opened_by_user_id: input.openedByUserId ?? null,
+        opened_by_email: input.openedByEmail ?? null,
+      })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return toClaim(data as ClaimsRow);
+  },
+
+  async adjudicate(id: string, input: AdjudicateClaimInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    // The adjudicate_claim_totals trigger keeps the opened lines and terms and recomputes
+    // status, approved_cents and payable_cents; the values sent here are not trusted.
+
+    const { data, error } = await supabase
+      .from("claims")
+      .update({
+        lines: input.lines,
+        status: input.status,
+        approved_cents: input.approvedCents,
+        payable_cents: input.payableCents,
+        adjudication_notes: input.adjudicationNotes ?? null,
+        adjudicated_by_user_id: input.adjudicatedByUserId ?? null,
+        adjudicated_by_email: input.adjudicatedByEmail ?? null,
+        adjudicated_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return toClaim(data as ClaimsRow);
+  },
+};
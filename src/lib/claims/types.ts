@@ -0,0 +1,85 @@
+import type { ClaimLimitType } from "../productPricing/types";
+import type { CoverageStatus } from "../products/types";
+
+export type ClaimStatus = "SUBMITTED" | "APPROVED" | "PARTIALLY_APPROVED" | "DENIED";
+
+export type ClaimLineDecision = "PENDING" | "APPROVED" | "DENIED";
+
+// "unlisted" means the repair did not map to any item on the product's coverage list.
+export type ClaimLineCoverage = CoverageStatus | "unlisted";
+
+export type ClaimOpenedByRole = "DEALER" | "PROVIDER";
+
+export type ClaimLine = {
+  id: string;
+  description: string;
+  coverageItemId?: string;
+  coverageItemName?: string;
+  coverage: ClaimLineCoverage;
+  partsCents: number;
+  laborCents: number;
+  decision: ClaimLineDecision;
+  approvedCents: number;
+  denialReason?: string;
+};
+
+export type Claim = {
+  id: string;
+  claimNumber: string;
+  contractId: string;
+  productId?: string;
+  status: ClaimStatus;
+  lossDate: string;
+  odometerKm: number;
+  complaint: string;
+  lines: ClaimLine[];
+  deductibleCents: number;
+  claimLimitType?: ClaimLimitType;
+  claimLimitCents?: number;
+  requestedCents: number;
+  approvedCents: number;
+  payableCents: number;
+  openedByRole: ClaimOpenedByRole;
+  openedByUserId?: string;
+  openedByEmail?: string;
+  adjudicatedByUserId?: string;
+  adjudicatedByEmail?: string;
+  adjudicatedAt?: string;
+  adjudicationNotes?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CreateClaimLineInput = {
+  description: string;
+  coverageItemId?: string;
+  coverageItemName?: string;
+  coverage: ClaimLineCoverage;
+  partsCents: number;
+  laborCents: number;
+};
+
+export type CreateClaimInput = {
+  contractId: string;
+  productId?: string;
+  lossDate: string;
+  odometerKm: number;
+  complaint: string;
+  lines: CreateClaimLineInput[];
+  deductibleCents: number;
+  claimLimitType?: ClaimLimitType;
+  claimLimitCents?: number;
+  openedByRole: ClaimOpenedByRole;
+  openedByUserId?: string;
+  openedByEmail?: string;
+};
+
+export type AdjudicateClaimInput = {
+  lines: ClaimLine[];
+  status: ClaimStatus;
+  approvedCents: number;
+  payableCents: number;
+  adjudicationNotes?: string;
+  adjudicatedByUserId?: string;
+  adjudicatedByEmail?: string;
+};
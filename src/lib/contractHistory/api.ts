@@ -0,0 +1,6 @@
+import type { ContractChange } from "./types";
+
+// Supabase rows are written by a contracts trigger; local rows by localContractsApi.update.
+export type ContractHistoryApi = {
+  listByContract(contractId: string): Promise<ContractChange[]>;
+};
@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { ContractHistoryApi } from "./api";
+import { localContractHistoryApi } from "./localContractHistory";
+import { supabaseContractHistoryApi } from "./supabaseContractHistory";
+
+export function getContractHistoryApi(): ContractHistoryApi {
+  return getAppMode() === "supabase" ? supabaseContractHistoryApi : localContractHistoryApi;
+}
@@ -0,0 +1,112 @@
+import type { Contract, ContractStatus } from "../contracts/types";
+
+import type { ContractFieldChange } from "./types";
+
+type HistoryField = { field: keyof Contract; label: string; pricing?: boolean; cents?: boolean };
+
+// Fields whose edits are recorded, in the order the History tab lists them.
+export const CONTRACT_HISTORY_FIELDS: HistoryField[] = [
+  { field: "status", label: "Status" },
+  { field: "customerName", label: "Customer name" },
+  { field: "customerEmail", label: "Customer email" },
+  { field: "customerPhone", label: "Customer phone" },
+  { field: "customerAddress", label: "Customer address" },
+  { field: "customerCity", label: "Customer city" },
+  { field: "customerProvince", label: "Customer province" },
+  { field: "customerPostalCode", label: "Customer postal code" },
+  { field: "vin", label: "VIN" },
+  { field: "vehicleYear", label: "Vehicle year" },
+  { field: "vehicleMake", label: "Vehicle make" },
+  { field: "vehicleModel", label: "Vehicle model" },
+  { field: "vehicleTrim", label: "Vehicle trim" },
+  { field: "vehicleMileageKm", label: "Mileage (km)" },
+  { field: "vehicleBodyClass", label: "Body class" },
+  { field: "vehicleEngine", label: "Engine" },
+  { field: "vehicleTransmission", label: "Transmission" },
+  { field: "vehiclePowertrain", label: "Powertrain" },
+  { field: "providerId", label: "Provider", pricing: true },
+  { field: "productId", label: "Product", pricing: true },
+  { field: "productPricingId", label: "Pricing row", pricing: true },
+  { field: "productPricingVersionId", label: "Pricing version", pricing: true },
+  { field: "pricingTermMonths", label: "Term (months)", pricing: true },
+  { field: "pricingTermKm", label: "Term (km)", pricing: true },
+  { field: "pricingVehicleMileageMinKm", label: "Mileage band min (km)", pricing: true },
+  { field: "pricingVehicleMileageMaxKm", label: "Mileage band max (km)", pricing: true },
+  { field: "pricingVehicleClass", label: "Vehicle class", pricing: true },
+  { field: "pricingDeductibleCents", label: "Deductible", pricing: true, cents: true },
+  { field: "pricingBasePriceCents", label: "Retail price", pricing: true, cents: true },
+  { field: "pricingDealerCostCents", label: "Dealer cost", pricing: true, cents: true },
+  { field: "addonSnapshot", label: "Add-ons", pricing: true },
+  { field: "addonTotalRetailCents", label: "Add-on retail", pricing: true, cents: true },
+  { field: "addonTotalCostCents", label: "Add-on cost", pricing: true, cents: true },
+];
+
+// Columns the database trigger also tracks that the V1 Contract type does not carry.
+const SERVER_FIELDS: Array<Omit<HistoryField, "field"> & { field: string }> = [
+  { field: "contractPrice", label: "Contract price", pricing: true },
+  { field: "dealerCostDollars", label: "Dealer cost ($)", pricing: true },
+];
+
+const FIELD_BY_NAME = new Map<string, Omit<HistoryField, "field">>(
+  [...CONTRACT_HISTORY_FIELDS, ...SERVER_FIELDS].map((f) => [f.field, f]),
+);
+
+// Stamps written alongside status transitions; they are never edits in their own right.
+const WORKFLOW_FIELDS = new Set<string>([
+  "status",
+  "createdByUserId",
+  "createdByEmail",
+  "soldByUserId",
+  "soldByEmail",
+  "soldAt",
+  "remittedByUserId",
+  "remittedByEmail",
+  "remittedAt",
+  "paidByUserId",
+  "paidByEmail",
+  "paidAt",
+]);
+
+export function isPricingField(field: string) {
+  return FIELD_BY_NAME.get(field)?.pricing === true;
+}
+
+export function contractFieldLabel(field: string) {
+  return FIELD_BY_NAME.get(field)?.label ?? field;
+}
+
+function normalized(value: unknown) {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string" && !value.trim()) return null;
+  return value;
+}
+
+function same(a: unknown, b: unknown) {
+  return JSON.stringify(normalized(a)) === JSON.stringify(normalized(b));
+}
+
+export function diffContracts(before: Contract, after: Contract): ContractFieldChange[] {
+  return CONTRACT_HISTORY_FIELDS.filter(({ field }) => !same(before[field], after[field])).map(({ field }) => ({
+    field,
+    before: normalized(before[field]),
+    after: normalized(after[field]),
+  }));
+}
+
+// Drafts are freely editable. Once sold, an edit is a correction and needs a reason on record;
+// without one, pricing edits get their own error so the UI can ask for it.
+export function assertContractEditAllowed(status: ContractStatus, patchFields: string[], reason?: string) {
+  const edits = patchFields.filter((f) => !WORKFLOW_FIELDS.has(f));
+  if (edits.length === 0 || status === "DRAFT" || (reason ?? "").trim()) return;
+  if (edits.some(isPricingField)) {
+    throw new Error("Pricing on a sold contract can only be changed with a recorded reason");
+  }
+  throw new Error("Contract is locked (only Draft contracts are editable)");
+}
+
+export function formatContractFieldValue(field: string, value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (FIELD_BY_NAME.get(field)?.cents && typeof value === "number") return `$${(value / 100).toFixed(2)}`;
+  if (typeof value === "object") return Array.isArray(value) ? `${value.length} item${value.length === 1 ? "" : "s"}` : "Updated";
+  return String(value);
+}
@@ -0,0 +1,54 @@
+import type { ContractHistoryApi } from "./api";
+import type { ContractChange, ContractFieldChange, RecordContractChangeInput } from "./types";
+
+const STORAGE_KEY = "warrantyhub.local.contract_changes";
+
+function asString(v: unknown) {
+  return typeof v === "string" && v.trim() ? v : undefined;
+}
+
+function read(): ContractChange[] {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<ContractChange>[];
+    return (Array.isArray(parsed) ? parsed : [])
+      .map((c): ContractChange => ({
+        id: typeof c.id === "string" ? c.id : crypto.randomUUID(),
+        contractId: typeof c.contractId === "string" ? c.contractId : "",
+        changedAt: typeof c.changedAt === "string" ? c.changedAt : new Date().toISOString(),
+        actorUserId: asString(c.actorUserId),
+        actorEmail: asString(c.actorEmail),
+        reason: asString(c.reason),
+        changes: (Array.isArray(c.changes) ? c.changes : []).filter(
+          (f): f is ContractFieldChange => typeof f === "object" && f !== null && typeof (f as ContractFieldChange).field === "string",
+        ),
+      }))
+      .filter((c) => c.contractId.trim() && c.changes.length > 0);
+  } catch {
+    return [];
+  }
+}
+
+function write(items: ContractChange[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+export function recordLocalContractChange(input: RecordContractChangeInput): ContractChange | null {
+  if (input.changes.length === 0) return null;
+  const change: ContractChange = {
+    ...input,
+    id: crypto.randomUUID(),
+    changedAt: input.changedAt ?? new Date().toISOString(),
+  };
+  write([change, ...read()]);
+  return change;
+}
+
+export const localContractHistoryApi: ContractHistoryApi = {
+  async listByContract(contractId: string) {
+    return read()
+      .filter((c) => c.contractId === contractId)
+      .sort((a, b) => b.changedAt.localeCompare(a.changedAt));
+  },
+};
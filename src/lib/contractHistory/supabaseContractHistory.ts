@@ -0,0 +1,43 @@
+import { getSupabaseClient } from "../supabase/client";
+
+import type { ContractHistoryApi } from "./api";
+import type { ContractChange, ContractFieldChange } from "./types";
+
+type ContractChangesRow = {
+  id: string;
+  contract_id: string;
+  changed_at: string;
+  actor_user_id?: string | null;
+  actor_email?: string | null;
+  reason?: string | null;
+  changes?: unknown;
+};
+
+function toContractChange(r: ContractChangesRow): ContractChange {
+  return {
+    id: r.id,
+    contractId: r.contract_id,
+    changedAt: r.changed_at,
+    actorUserId: r.actor_user_id ?? undefined,
+    actorEmail: r.actor_email ?? undefined,
+    reason: r.reason ?? undefined,
+    changes: (Array.isArray(r.changes) ? r.changes : []).filter(
+      (f): f is ContractFieldChange => typeof f === "object" && f !== null && typeof (f as ContractFieldChange).field === "string",
+    ),
+  };
+}
+
+export const supabaseContractHistoryApi: ContractHistoryApi = {
+  async listByContract(contractId: string) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("contract_changes")
+      .select("*")
+      .eq("contract_id", contractId)
+      .order("changed_at", { ascending: false });
+    if (error) throw error;
+    return ((data ?? []) as ContractChangesRow[]).map(toContractChange);
+  },
+};
@@ -0,0 +1,18 @@
+export type ContractFieldChange = {
+  // Contract field name (camelCase), e.g. "vin" or "pricingVehicleClass".
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type ContractChange = {
+  id: string;
+  contractId: string;
+  changedAt: string;
+  actorUserId?: string;
+  actorEmail?: string;
+  reason?: string;
+  changes: ContractFieldChange[];
+};
+
+export type RecordContractChangeInput = Omit<ContractChange, "id" | "changedAt"> & { changedAt?: string };
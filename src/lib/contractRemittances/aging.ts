@@ -0,0 +1,81 @@
+import { localDateString } from "../utils";
+
+import type { ContractRemittance, OutstandingContractRemittance } from "./types";
+
+export const AGING_BUCKETS = ["0-30", "31-60", "61-90", "90+"] as const;
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+export type DealershipAging = {
+  dealershipId: string;
+  dealershipName: string;
+  bucketCents: Record<AgingBucket, number>;
+  totalCents: number;
+  remittanceCount: number;
+  oldestDaysPastDue: number;
+};
+
+function dayNumber(isoDate: string) {
+  return Math.floor(Date.parse(`${isoDate.slice(0, 10)}T00:00:00Z`) / 86_400_000);
+}
+
+// Remittances that are not yet due count as 0 days.
+export function daysPastDue(r: Pick<ContractRemittance, "dueDate">, today: string = localDateString()) {
+  return Math.max(0, dayNumber(today) - dayNumber(r.dueDate));
+}
+
+export function agingBucket(days: number): AgingBucket {
+  if (days <= 30) return "0-30";
+  if (days <= 60) return "31-60";
+  if (days <= 90) return "61-90";
+  return "90+";
+}
+
+// Mirrors mark_overdue_contract_remittances: a pending charge is overdue the day after it is due.
+// Credit lines (the reversals written on cancellation) never are.
+export function isOverdue(r: Pick<ContractRemittance, "status" | "dueDate" | "amount">, today: string = localDateString()) {
+  if (r.amount <= 0) return false;
+  if (r.status === "overdue") return true;
+  return r.status === "pending" && r.dueDate.slice(0, 10) < today;
+}
+
+// One row per dealership, worst first: oldest past-due remittance, then largest balance.
+// Only charges are aged; credit lines (amount <= 0) are left out of the buckets, matching
+// dealership_overdue_days.
+export function agingByDealership(rows: OutstandingContractRemittance[], today: string = localDateString()) {
+  const byDealership = new Map<string, DealershipAging>();
+  for (const r of rows) {
+    if (r.status === "paid" || r.amount <= 0) continue;
+    let row = byDealership.get(r.dealershipId);
+    if (!row) {
+      row = {
+        dealershipId: r.dealershipId,
+        dealershipName: r.dealershipName,
+        bucketCents: { "0-30": 0, "31-60": 0, "61-90": 0, "90+": 0 },
+        totalCents: 0,
+        remittanceCount: 0,
+        oldestDaysPastDue: 0,
+      };
+      byDealership.set(r.dealershipId, row);
+    }
+    const days = daysPastDue(r, today);
+    const cents = Math.round(r.amount * 100);
+    row.bucketCents[agingBucket(days)] += cents;
+    row.totalCents += cents;
+    row.remittanceCount += 1;
+    row.oldestDaysPastDue = Math.max(row.oldestDaysPastDue, days);
+  }
+  return [...byDealership.values()].sort(
+    (a, b) => b.oldestDaysPastDue - a.oldestDaysPastDue || b.totalCents - a.totalCents || a.dealershipName.localeCompare(b.dealershipName),
+  );
+}
+
+export function agingTotals(rows: DealershipAging[]) {
+  const bucketCents: Record<AgingBucket, number> = { "0-30": 0, "31-60": 0, "61-90": 0, "90+": 0 };
+  let totalCents = 0;
+  for (const row of rows) {
+    for (const bucket of AGING_BUCKETS) bucketCents[bucket] += row.bucketCents[bucket];
+    totalCents += row.totalCents;
+  }
+  return { bucketCents, totalCents };
+}
+
@@ -1,9 +1,18 @@
-import type { ContractRemittance, ContractRemittanceStatus, CreateContractRemittanceInput } from "./types";
+import type {
+  ContractRemittance,
+  ContractRemittanceStatus,
+  CreateContractRemittanceInput,
+  OutstandingContractRemittance,
+} from "./types";
 
 export type ContractRemittancesApi = {
   listByContract(contractId: string): Promise<ContractRemittance[]>;
   listByDealership(dealershipId: string): Promise<ContractRemittance[]>;
   listByProvider(providerEntityId: string): Promise<ContractRemittance[]>;
+  // Every unpaid remittance row security lets the caller see, with the dealership that owes it.
+  listOutstanding(): Promise<OutstandingContractRemittance[]>;
+  // Runs the overdue sweep now (super admins only); returns how many remittances became overdue.
+  markOverdue(): Promise<number>;
   create(input: CreateContractRemittanceInput): Promise<ContractRemittance>;
   updateStatus(id: string, status: ContractRemittanceStatus, paidDate?: string): Promise<ContractRemittance>;
 };
@@ -1,7 +1,13 @@
 import { getSupabaseClient } from "../supabase/client";
+import { invokeEdgeFunction } from "../supabase/functions";
 
 import type { ContractRemittancesApi } from "./api";
-import type { ContractRemittance, ContractRemittanceStatus, CreateContractRemittanceInput } from "./types";
+import type {
+  ContractRemittance,
+  ContractRemittanceStatus,
+  CreateContractRemittanceInput,
+  OutstandingContractRemittance,
+} from "./types";
 
 function toRemittance(r: any): ContractRemittance {
   return {
@@ -77,6 +83,31 @@ export const supabaseContractRemittancesApi: ContractRemittancesApi = {
     return (data ?? []).map(toRemittance);
   },
 
+  async listOutstanding() {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("contract_remittances")
+      .select("*, contracts!inner(dealership_id, dealerships(name))")
+      .in("status", ["pending", "overdue"] satisfies ContractRemittanceStatus[])
+      .order("due_date");
+
+    if (error) throw error;
+    return (data ?? []).map(
+      (r: any): OutstandingContractRemittance => ({
+        ...toRemittance(r),
+        dealershipId: r.contracts?.dealership_id ?? "",
+        dealershipName: r.contracts?.dealerships?.name ?? "Unknown Dealership",
+      }),
+    );
+  },
+
+  async markOverdue() {
+    const res = await invokeEdgeFunction<{ marked: number }>("remittance-overdue-sweep", {});
+    return res.marked;
+  },
+
   async create(input: CreateContractRemittanceInput) {
     const supabase = getSupabaseClient();
     if (!supabase) throw new Error("Supabase is not configured");
@@ -16,3 +16,9 @@ export type CreateContractRemittanceInput = {
   amount: number;
   dueDate: string;
 };
+
+// A pending or overdue remittance with the dealership that owes it, for the aging report.
+export type OutstandingContractRemittance = ContractRemittance & {
+  dealershipId: string;
+  dealershipName: string;
+};
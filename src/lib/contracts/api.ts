@@ -1,5 +1,13 @@
 import type { Contract, CreateContractInput } from "./types";
 
+export type ContractUpdateOptions = {
+  // Required to edit a contract that is no longer a draft; stored with the change history.
+  reason?: string;
+  // Local mode only; Supabase takes the actor from the session.
+  actorUserId?: string;
+  actorEmail?: string;
+};
+
 export type ContractsApi = {
   list(): Promise<Contract[]>;
   listWithRange(from: number, to: number): Promise<{ data: Contract[]; total: number | null }>;
@@ -41,9 +49,11 @@ export type ContractsApi = {
         | "vehicleBodyClass"
         | "vehicleEngine"
         | "vehicleTransmission"
+        | "vehiclePowertrain"
       >
     > & {
       productPricingId?: string | null;
+      productPricingVersionId?: string | null;
       pricingTermMonths?: number | null;
       pricingTermKm?: number | null;
       pricingVehicleMileageMinKm?: number | null;
@@ -56,5 +66,6 @@ export type ContractsApi = {
       addonTotalRetailCents?: number | null;
       addonTotalCostCents?: number | null;
     },
+    options?: ContractUpdateOptions,
   ): Promise<Contract>;
 };
@@ -0,0 +1,16 @@
+// Dealer cost lives in contract_dealer_costs, which RLS only returns to members
+// holding pricing.view_cost. Contract reads embed it and fold it back onto the row.
+export const CONTRACT_WITH_DEALER_COST_SELECT =
+  "*, contract_dealer_costs(pricing_dealer_cost_cents, addon_total_cost_cents, dealer_cost_dollars)";
+
+type DealerCostColumns = {
+  pricing_dealer_cost_cents?: number | null;
+  addon_total_cost_cents?: number | null;
+  dealer_cost_dollars?: number | null;
+};
+
+export function withDealerCost<T extends object>(row: T): Omit<T, "contract_dealer_costs"> & DealerCostColumns {
+  const { contract_dealer_costs: embedded, ...rest } = row as T & { contract_dealer_costs?: unknown };
+  const cost = Array.isArray(embedded) ? embedded[0] : embedded;
+  return { ...rest, ...(cost && typeof cost === "object" ? (cost as DealerCostColumns) : {}) };
+}
@@ -1,4 +1,7 @@
-import type { ContractsApi } from "./api";
+import { assertContractEditAllowed, diffContracts } from "../contractHistory/diff";
+import { recordLocalContractChange } from "../contractHistory/localContractHistory";
+
+import type { ContractsApi, ContractUpdateOptions } from "./api";
 import type { Contract, ContractStatus, CreateContractInput } from "./types";
 import { warrantyIdFromContractId } from "./types";
 
@@ -24,6 +27,7 @@ function read(): Contract[] {
           providerId: c.providerId,
           productId: c.productId,
           productPricingId: c.productPricingId,
+          productPricingVersionId: typeof c.productPricingVersionId === "string" ? c.productPricingVersionId : undefined,
           pricingTermMonths: typeof c.pricingTermMonths === "number" ? c.pricingTermMonths : c.pricingTermMonths === null ? null : undefined,
           pricingTermKm: typeof c.pricingTermKm === "number" ? c.pricingTermKm : c.pricingTermKm === null ? null : undefined,
           pricingVehicleMileageMinKm: typeof (c as any).pricingVehicleMileageMinKm === "number" ? (c as any).pricingVehicleMileageMinKm : undefined,
@@ -66,6 +70,8 @@ function read(): Contract[] {
           vehicleBodyClass: c.vehicleBodyClass,
           vehicleEngine: c.vehicleEngine,
           vehicleTransmission: c.vehicleTransmission,
+          vehiclePowertrain: c.vehiclePowertrain,
+          cancelledAt: typeof c.cancelledAt === "string" ? c.cancelledAt : undefined,
           createdAt,
           status,
           updatedAt,
@@ -90,6 +96,39 @@ function nextStatus(current: ContractStatus): ContractStatus | null {
 
 type ContractPatch = Parameters<ContractsApi["update"]>[1];
 
+// Remittance transitions move contracts in bulk, including back from REMITTED to SOLD on
+// rejection, which ordinary updates refuse. Contracts not in `from` are left alone.
+export function moveLocalContractStatuses(
+  ids: string[],
+  from: ContractStatus,
+  patch: Partial<Contract> & { status: ContractStatus },
+  options?: Pick<ContractUpdateOptions, "actorUserId" | "actorEmail">,
+) {
+  const now = new Date().toISOString();
+  const wanted = new Set(ids);
+  const items = read();
+  const moved: Contract[] = [];
+  const updated = items.map((c) => {
+    if (!wanted.has(c.id) || c.status !== from) return c;
+    const next: Contract = { ...c, ...patch, updatedAt: now };
+    recordLocalContractChange({
+      contractId: c.id,
+      changedAt: now,
+      actorUserId: options?.actorUserId,
+      actorEmail: options?.actorEmail,
+      changes: diffContracts(c, next),
+    });
+    moved.push(next);
+    return next;
+  });
+  write(updated);
+  return moved;
+}
+
+export function markLocalContractCancelled(id: string, cancelledAt: string) {
+  write(read().map((c) => (c.id === id ? { ...c, cancelledAt, updatedAt: cancelledAt } : c)));
+}
+
 export const localContractsApi: ContractsApi = {
   async list() {
     return read().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
@@ -117,6 +156,7 @@ export const localContractsApi: ContractsApi = {
       providerId: input.providerId,
       productId: input.productId,
       productPricingId: input.productPricingId,
+      productPricingVersionId: input.productPricingVersionId,
       pricingTermMonths: typeof input.pricingTermMonths === "number" ? input.pricingTermMonths : input.pricingTermMonths === null ? null : undefined,
       pricingTermKm: typeof input.pricingTermKm === "number" ? input.pricingTermKm : input.pricingTermKm === null ? null : undefined,
       pricingVehicleMileageMinKm: typeof (input as any).pricingVehicleMileageMinKm === "number" ? (input as any).pricingVehicleMileageMinKm : undefined,
@@ -150,6 +190,7 @@ export const localContractsApi: ContractsApi = {
       vehicleBodyClass: input.vehicleBodyClass,
       vehicleEngine: input.vehicleEngine,
       vehicleTransmission: input.vehicleTransmission,
+      vehiclePowertrain: input.vehiclePowertrain,
       createdAt: now,
       status: "DRAFT",
       updatedAt: now,
@@ -166,7 +207,7 @@ export const localContractsApi: ContractsApi = {
     write(next);
   },
 
-  async update(id: string, patch: ContractPatch) {
+  async update(id: string, patch: ContractPatch, options?: ContractUpdateOptions) {
     const now = new Date().toISOString();
     const items = read();
     const idx = items.findIndex((c) => c.id === id);
@@ -174,10 +215,7 @@ export const localContractsApi: ContractsApi = {
 
     const current = items[idx]!;
 
-    const hasNonStatusEdits = Object.keys(patch).some((k) => k !== "status");
-    if (hasNonStatusEdits && current.status !== "DRAFT") {
-      throw new Error("Contract is locked (only Draft contracts are editable)");
-    }
+    assertContractEditAllowed(current.status, Object.keys(patch), options?.reason);
 
     if (typeof patch.status === "string") {
       const desired = patch.status as ContractStatus;
@@ -194,6 +232,10 @@ export const localContractsApi: ContractsApi = {
       const v = (patch as any).productPricingId as string | null | undefined;
       normalizedPatch.productPricingId = typeof v === "string" ? v : undefined;
     }
+    if ("productPricingVersionId" in patch) {
+      const v = (patch as any).productPricingVersionId as string | null | undefined;
+      normalizedPatch.productPricingVersionId = typeof v === "string" ? v : undefined;
+    }
     if ("pricingTermMonths" in patch) {
       const v = (patch as any).pricingTermMonths as number | null | undefined;
       if (typeof v === "number" || v === null) normalizedPatch.pricingTermMonths = v;
@@ -248,6 +290,14 @@ export const localContractsApi: ContractsApi = {
     const updated = [...items];
     updated[idx] = next;
     write(updated);
+    recordLocalContractChange({
+      contractId: id,
+      changedAt: now,
+      actorUserId: options?.actorUserId,
+      actorEmail: options?.actorEmail,
+      reason: options?.reason?.trim() || undefined,
+      changes: diffContracts(current, next),
+    });
     return next;
   },
 };
@@ -1,7 +1,9 @@
+import { assertContractEditAllowed } from "../contractHistory/diff";
 import { getSupabaseClient } from "../supabase/client";
 import { invokeEdgeFunction } from "../supabase/functions";
 
-import type { ContractsApi } from "./api";
+import type { ContractsApi, ContractUpdateOptions } from "./api";
+import { CONTRACT_WITH_DEALER_COST_SELECT, withDealerCost } from "./dealerCost";
 import type { Contract, CreateContractInput } from "./types";
 import { warrantyIdFromContractId } from "./types";
 
@@ -9,9 +11,11 @@ type ContractsRow = {
   id: string;
   contract_number: string;
   customer_name: string;
+  dealership_id?: string | null;
   provider_id?: string | null;
   product_id?: string | null;
   product_pricing_id?: string | null;
+  product_pricing_version_id?: string | null;
   pricing_term_months?: number | null;
   pricing_term_km?: number | null;
   pricing_vehicle_mileage_min_km?: number | null;
@@ -49,26 +53,31 @@ type ContractsRow = {
   vehicle_body_class?: string | null;
   vehicle_engine?: string | null;
   vehicle_transmission?: string | null;
+  vehicle_powertrain?: string | null;
   contract_processing_fee_cents?: number | null;
   stripe_payment_intent_id?: string | null;
   stripe_payment_intent_status?: string | null;
   processing_fee_paid_at?: string | null;
+  cancelled_at?: string | null;
   created_at: string;
   status?: string | null;
   updated_at?: string | null;
   warranty_id?: string | null;
 };
 
-function toContract(r: ContractsRow): Contract {
+function toContract(row: ContractsRow): Contract {
+  const r = withDealerCost(row);
   const createdAt = r.created_at;
   return {
     id: r.id,
     warrantyId: (r.warranty_id ?? "").trim() || warrantyIdFromContractId(r.id),
     contractNumber: r.contract_number,
     customerName: r.customer_name,
+    dealershipId: r.dealership_id ?? undefined,
     providerId: r.provider_id ?? undefined,
     productId: r.product_id ?? undefined,
     productPricingId: r.product_pricing_id ?? undefined,
+    productPricingVersionId: r.product_pricing_version_id ?? undefined,
     pricingTermMonths: typeof r.pricing_term_months === "number" ? r.pricing_term_months : r.pricing_term_months === null ? null : undefined,
     pricingTermKm: typeof r.pricing_term_km === "number" ? r.pricing_term_km : r.pricing_term_km === null ? null : undefined,
     pricingVehicleMileageMinKm: typeof r.pricing_vehicle_mileage_min_km === "number" ? r.pricing_vehicle_mileage_min_km : undefined,
@@ -111,11 +120,13 @@ function toContract(r: ContractsRow): Contract {
     vehicleBodyClass: r.vehicle_body_class ?? undefined,
     vehicleEngine: r.vehicle_engine ?? undefined,
     vehicleTransmission: r.vehicle_transmission ?? undefined,
+    vehiclePowertrain: r.vehicle_powertrain ?? undefined,
     contractProcessingFeeCents:
       typeof r.contract_processing_fee_cents === "number" ? r.contract_processing_fee_cents : undefined,
     stripePaymentIntentId: r.stripe_payment_intent_id ?? undefined,
     stripePaymentIntentStatus: r.stripe_payment_intent_status ?? undefined,
     processingFeePaidAt: r.processing_fee_paid_at ?? undefined,
+    cancelledAt: r.cancelled_at ?? undefined,
     createdAt,
     status: (r.status ?? "DRAFT") as Contract["status"],
     updatedAt: r.updated_at ?? createdAt,
@@ -136,7 +147,7 @@ export const supabaseContractsApi: ContractsApi = {
 
     const { data, error } = await supabase
       .from("contracts")
-      .select("*")
+      .select(CONTRACT_WITH_DEALER_COST_SELECT)
       .order("created_at", { ascending: false });
 
     if (error) throw error;
@@ -149,7 +160,7 @@ export const supabaseContractsApi: ContractsApi = {
 
     const { data, error, count } = await supabase
       .from("contracts")
-      .select("*", { count: "exact", head: false })
+      .select(CONTRACT_WITH_DEALER_COST_SELECT, { count: "exact", head: false })
       .order("created_at", { ascending: false })
       .range(from, to);
 
@@ -163,7 +174,7 @@ export const supabaseContractsApi: ContractsApi = {
 
     const { data, error } = await supabase
       .from("contracts")
-      .select("*")
+      .select(CONTRACT_WITH_DEALER_COST_SELECT)
       .eq("id", id)
       .maybeSingle();
 
@@ -192,7 +203,7 @@ export const supabaseContractsApi: ContractsApi = {
     if (error) throw error;
   },
 
-  async update(id: string, patch: Parameters<ContractsApi["update"]>[1]) {
+  async update(id: string, patch: Parameters<ContractsApi["update"]>[1], options?: ContractUpdateOptions) {
     const supabase = getSupabaseClient();
     if (!supabase) throw new Error("Supabase is not configured");
 
@@ -200,10 +211,8 @@ export const supabaseContractsApi: ContractsApi = {
     const current = await supabaseContractsApi.get(id);
     if (!current) throw new Error("Contract not found");
 
-    const hasNonStatusEdits = Object.keys(patch).some((k) => k !== "status");
-    if (hasNonStatusEdits && current.status !== "DRAFT") {
-      throw new Error("Contract is locked (only Draft contracts are editable)");
-    }
+    assertContractEditAllowed(current.status, Object.keys(patch), options?.reason);
+    const changeReason = options?.reason?.trim() || null;
 
     if (typeof patch.status === "string") {
       const desired = patch.status as Contract["status"];
@@ -225,6 +234,11 @@ export const supabaseContractsApi: ContractsApi = {
       if (typeof v === "string") updateRowBase.product_pricing_id = v.trim() ? v : null;
       if (v === null) updateRowBase.product_pricing_id = null;
     }
+    if ("productPricingVersionId" in patch) {
+      const v = (patch as any).productPricingVersionId as string | null | undefined;
+      if (typeof v === "string") updateRowBase.product_pricing_version_id = v.trim() ? v : null;
+      if (v === null) updateRowBase.product_pricing_version_id = null;
+    }
     if ("pricingTermMonths" in patch) {
       const v = (patch as any).pricingTermMonths as number | null | undefined;
       if (typeof v === "number") updateRowBase.pricing_term_months = v;
@@ -309,12 +323,15 @@ export const supabaseContractsApi: ContractsApi = {
     if (typeof patch.vehicleBodyClass === "string") updateRowBase.vehicle_body_class = patch.vehicleBodyClass;
     if (typeof patch.vehicleEngine === "string") updateRowBase.vehicle_engine = patch.vehicleEngine;
     if (typeof patch.vehicleTransmission === "string") updateRowBase.vehicle_transmission = patch.vehicleTransmission;
+    if (typeof patch.vehiclePowertrain === "string") updateRowBase.vehicle_powertrain = patch.vehiclePowertrain;
 
     if (typeof patch.status === "string") {
       updateRowBase.status = patch.status;
     }
 
     updateRowBase.updated_at = now;
+    // Read by the contract_changes trigger, which stores it with the diff and clears the column.
+    if (changeReason) updateRowBase.change_reason = changeReason;
 
     const baseOnly: Record<string, unknown> = {};
     if (typeof patch.providerId === "string") baseOnly.provider_id = patch.providerId.trim() ? patch.providerId : null;
@@ -325,6 +342,11 @@ export const supabaseContractsApi: ContractsApi = {
       if (typeof v === "string") baseOnly.product_pricing_id = v.trim() ? v : null;
       if (v === null) baseOnly.product_pricing_id = null;
     }
+    if ("productPricingVersionId" in patch) {
+      const v = (patch as any).productPricingVersionId as string | null | undefined;
+      if (typeof v === "string") baseOnly.product_pricing_version_id = v.trim() ? v : null;
+      if (v === null) baseOnly.product_pricing_version_id = null;
+    }
     if ("pricingTermMonths" in patch) {
       const v = (patch as any).pricingTermMonths as number | null | undefined;
       if (typeof v === "number") baseOnly.pricing_term_months = v;
@@ -407,14 +429,16 @@ export const supabaseContractsApi: ContractsApi = {
     if (typeof patch.vehicleEngine === "string") baseOnly.vehicle_engine = patch.vehicleEngine;
     if (typeof patch.vehicleTransmission === "string") baseOnly.vehicle_transmission = patch.vehicleTransmission;
 
-    const attempt = await supabase.from("contracts").update(updateRowBase).eq("id", id).select("*").single();
+    if (changeReason) baseOnly.change_reason = changeReason;
+
+    const attempt = await supabase.from("contracts").update(updateRowBase).eq("id", id).select(CONTRACT_WITH_DEALER_COST_SELECT).single();
     if (!attempt.error) return toContract(attempt.data as ContractsRow);
 
     if (Object.keys(baseOnly).length === 0) {
       return { ...current, status: patch.status ?? current.status, updatedAt: now };
     }
 
-    const fallback = await supabase.from("contracts").update(baseOnly).eq("id", id).select("*").single();
+    const fallback = await supabase.from("contracts").update(baseOnly).eq("id", id).select(CONTRACT_WITH_DEALER_COST_SELECT).single();
     if (fallback.error) throw fallback.error;
 
     const mapped = toContract(fallback.data as ContractsRow);
@@ -1,6 +1,7 @@
 import { getSupabaseClient } from "../supabase/client";
 
 import type { ContractsV2Api } from "./apiV2";
+import { CONTRACT_WITH_DEALER_COST_SELECT, withDealerCost } from "./dealerCost";
 import type { ContractV2, ContractStatusV2, CreateContractV2Input } from "./typesV2";
 
 const CONTRACT_NUMBER_PREFIX = "BW";
@@ -13,7 +14,8 @@ function isMissingContractDateColumnError(error: any): boolean {
   );
 }
 
-function toContract(r: any): ContractV2 {
+function toContract(row: any): ContractV2 {
+  const r = withDealerCost(row);
   return {
     id: r.id,
     dealershipId: r.dealership_id,
@@ -31,6 +33,8 @@ function toContract(r: any): ContractV2 {
     vehicleMileage: r.vehicle_mileage_km ?? undefined,
     contractPrice: r.contract_price != null ? Number(r.contract_price) : undefined,
     dealerCost: r.dealer_cost_dollars != null ? Number(r.dealer_cost_dollars) : undefined,
+    productPricingId: r.product_pricing_id ?? undefined,
+    productPricingVersionId: r.product_pricing_version_id ?? undefined,
     pricingVehicleClass: r.pricing_vehicle_class ?? undefined,
     pricingTermMonths: r.pricing_term_months ?? undefined,
     pricingTermKm: r.pricing_term_km ?? undefined,
@@ -64,7 +68,7 @@ export const supabaseContractsV2Api: ContractsV2Api = {
 
     const { data, error } = await supabase
       .from("contracts")
-      .select("*")
+      .select(CONTRACT_WITH_DEALER_COST_SELECT)
       .not("dealership_id", "is", null)
       .order("created_at", { ascending: false });
 
@@ -78,7 +82,7 @@ export const supabaseContractsV2Api: ContractsV2Api = {
 
     const { data, error } = await supabase
       .from("contracts")
-      .select("*")
+      .select(CONTRACT_WITH_DEALER_COST_SELECT)
       .eq("dealership_id", dealershipId)
       .order("created_at", { ascending: false });
 
@@ -92,7 +96,7 @@ export const supabaseContractsV2Api: ContractsV2Api = {
 
     const { data, error } = await supabase
       .from("contracts")
-      .select("*")
+      .select(CONTRACT_WITH_DEALER_COST_SELECT)
       .eq("provider_entity_id", providerEntityId)
       .order("created_at", { ascending: false });
 
@@ -106,7 +110,7 @@ export const supabaseContractsV2Api: ContractsV2Api = {
 
     const { data, error } = await supabase
       .from("contracts")
-      .select("*")
+      .select(CONTRACT_WITH_DEALER_COST_SELECT)
       .eq("id", id)
       .maybeSingle();
 
@@ -138,6 +142,8 @@ export const supabaseContractsV2Api: ContractsV2Api = {
       vehicle_mileage_km: input.vehicleMileage ?? null,
       contract_price: input.contractPrice ?? null,
       dealer_cost_dollars: input.dealerCost ?? null,
+      product_pricing_id: input.productPricingId ?? null,
+      product_pricing_version_id: input.productPricingVersionId ?? null,
       pricing_vehicle_class: input.pricingVehicleClass ?? null,
       pricing_term_months: input.pricingTermMonths ?? null,
       pricing_term_km: input.pricingTermKm ?? null,
@@ -163,7 +169,7 @@ export const supabaseContractsV2Api: ContractsV2Api = {
       supabase
         .from("contracts")
         .insert(row)
-        .select("*")
+        .select(CONTRACT_WITH_DEALER_COST_SELECT)
         .single();
 
     const { data, error } = await insertContract(insertRow);
@@ -201,7 +207,7 @@ export const supabaseContractsV2Api: ContractsV2Api = {
         status: legacyMap[status],
       })
       .eq("id", id)
-      .select("*")
+      .select(CONTRACT_WITH_DEALER_COST_SELECT)
       .single();
 
     if (error) throw error;
@@ -11,9 +11,12 @@ export type Contract = {
   contractNumber: string;
   customerName: string;
   dealerId?: string;
+  // The selling dealership; its province is the tax fallback when the customer's is unknown.
+  dealershipId?: string;
   providerId?: string;
   productId?: string;
   productPricingId?: string;
+  productPricingVersionId?: string;
   pricingTermMonths?: number | null;
   pricingTermKm?: number | null;
   pricingVehicleMileageMinKm?: number;
@@ -51,10 +54,14 @@ export type Contract = {
   vehicleBodyClass?: string;
   vehicleEngine?: string;
   vehicleTransmission?: string;
+  // Decoded powertrain ("ICE", "HEV", "PHEV", "BEV"); checked against the product's powertrain eligibility.
+  vehiclePowertrain?: string;
   contractProcessingFeeCents?: number;
   stripePaymentIntentId?: string;
   stripePaymentIntentStatus?: string;
   processingFeePaidAt?: string;
+  // Set when the contract is cancelled; the refund is on its ContractCancellation.
+  cancelledAt?: string;
   createdAt: string;
   status: ContractStatus;
   updatedAt: string;
@@ -67,6 +74,7 @@ export type CreateContractInput = {
   providerId?: string;
   productId?: string;
   productPricingId?: string;
+  productPricingVersionId?: string;
   pricingTermMonths?: number | null;
   pricingTermKm?: number | null;
   pricingVehicleMileageMinKm?: number;
@@ -95,4 +103,5 @@ export type CreateContractInput = {
   vehicleBodyClass?: string;
   vehicleEngine?: string;
   vehicleTransmission?: string;
+  vehiclePowertrain?: string;
 };
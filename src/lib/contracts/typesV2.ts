@@ -27,6 +27,8 @@ export type ContractV2 = {
   vehicleMileage?: number;
   contractPrice?: number;
   dealerCost?: number;
+  productPricingId?: string;
+  productPricingVersionId?: string;
   pricingVehicleClass?: string;
   pricingTermMonths?: number;
   pricingTermKm?: number | null;
@@ -57,6 +59,8 @@ export type CreateContractV2Input = {
   vehicleMileage?: number;
   contractPrice?: number;
   dealerCost?: number;
+  productPricingId?: string;
+  productPricingVersionId?: string;
   pricingVehicleClass?: string;
   pricingTermMonths?: number;
   pricingTermKm?: number | null;
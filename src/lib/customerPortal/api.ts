@@ -0,0 +1,5 @@
+import type { CustomerContractLookupInput, CustomerContractSummary } from "./types";
+
+export type CustomerPortalApi = {
+  lookup(input: CustomerContractLookupInput): Promise<CustomerContractSummary>;
+};
@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { CustomerPortalApi } from "./api";
+import { localCustomerPortalApi } from "./localCustomerPortal";
+import { supabaseCustomerPortalApi } from "./supabaseCustomerPortal";
+
+export function getCustomerPortalApi(): CustomerPortalApi {
+  return getAppMode() === "supabase" ? supabaseCustomerPortalApi : localCustomerPortalApi;
+}
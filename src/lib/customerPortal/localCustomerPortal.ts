@@ -0,0 +1,79 @@
+import { localContractCancellationsApi } from "../cancellations/localCancellations";
+import { localContractsApi } from "../contracts/localContracts";
+import { localProvidersApi } from "../providers/localProviders";
+import { localContractTransfersApi } from "../transfers/localTransfers";
+
+import type { CustomerPortalApi } from "./api";
+import {
+  CUSTOMER_LOOKUP_NOT_FOUND,
+  buildCustomerContractSummary,
+  isCustomerVisibleStatus,
+  lookupInputProblem,
+  normalizeWarrantyId,
+  verifierMatches,
+} from "./summary";
+
+const PRODUCTS_KEY = "warrantyhub.local.products";
+
+// The products API is scoped to the signed-in provider; the portal is public, so read the store directly.
+function readProduct(productId: string | undefined): Record<string, unknown> | null {
+  if (!productId) return null;
+  const raw = localStorage.getItem(PRODUCTS_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>[];
+    return (Array.isArray(parsed) ? parsed : []).find((p) => p?.id === productId) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export const localCustomerPortalApi: CustomerPortalApi = {
+  async lookup(input) {
+    const problem = lookupInputProblem(input);
+    if (problem) throw new Error(problem);
+
+    const warrantyId = normalizeWarrantyId(input.warrantyId);
+    const contracts = await localContractsApi.list();
+    const contract = contracts.find((c) => normalizeWarrantyId(c.warrantyId) === warrantyId);
+    if (!contract || !isCustomerVisibleStatus(contract.status) || !verifierMatches(contract, input.verifier)) {
+      throw new Error(CUSTOMER_LOOKUP_NOT_FOUND);
+    }
+
+    const product = readProduct(contract.productId);
+    const [provider] = contract.providerId ? await localProvidersApi.listByIds([contract.providerId]) : [];
+    const transfers = await localContractTransfersApi.listByContract(contract.id);
+    const cancellation = await localContractCancellationsApi.getByContract(contract.id);
+
+    return buildCustomerContractSummary({
+      contractId: contract.id,
+      warrantyId: contract.warrantyId,
+      contractNumber: contract.contractNumber,
+      customerName: contract.customerName,
+      status: contract.status,
+      soldAt: contract.soldAt,
+      createdAt: contract.createdAt,
+      vin: contract.vin,
+      vehicleYear: contract.vehicleYear,
+      vehicleMake: contract.vehicleMake,
+      vehicleModel: contract.vehicleModel,
+      vehicleTrim: contract.vehicleTrim,
+      vehicleMileageKm: contract.vehicleMileageKm,
+      termMonths: contract.pricingTermMonths,
+      termKm: contract.pricingTermKm,
+      deductibleCents: contract.pricingDeductibleCents,
+      providerName: provider?.companyName ?? provider?.displayName,
+      productName: typeof product?.name === "string" ? product.name : undefined,
+      productType: typeof product?.productType === "string" ? product.productType : undefined,
+      coverageDetails: product?.coverageDetails,
+      transferPolicy: typeof product?.transferPolicy === "string" ? product.transferPolicy : undefined,
+      transferFeeCents: typeof product?.transferFeeCents === "number" ? product.transferFeeCents : undefined,
+      cancellationRefundMethod: typeof product?.cancellationRefundMethod === "string" ? product.cancellationRefundMethod : undefined,
+      cancellationFeeCents: typeof product?.cancellationFeeCents === "number" ? product.cancellationFeeCents : undefined,
+      termsText: provider?.termsConditionsText ?? provider?.termsText,
+      claimsText: provider?.claimsRepairsText,
+      transferCount: transfers.length,
+      cancelledOn: cancellation?.cancellationDate,
+    });
+  },
+};
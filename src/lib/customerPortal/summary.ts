@@ -0,0 +1,145 @@
+import { addMonths, format } from "date-fns";
+
+import { DEFAULT_TRANSFER_POLICY, checkTransferEligibility } from "../transfers/policy";
+import { generateCoverageWording } from "../contracts/coverageWording";
+import type { CancellationRefundMethod, CoverageDetails, TransferPolicy } from "../products/types";
+
+import type { CustomerContractLookupInput, CustomerContractRecord, CustomerContractSummary, CustomerCoverageStatus } from "./types";
+
+// Deliberately the same message for an unknown ID and a wrong verifier, so the form can't be used to probe IDs.
+export const CUSTOMER_LOOKUP_NOT_FOUND = "We couldn't find a warranty matching those details";
+
+function compact(v: string | null | undefined) {
+  return (v ?? "").replace(/[^a-z0-9]/gi, "").toUpperCase();
+}
+
+export function normalizeWarrantyId(v: string) {
+  const c = compact(v);
+  const body = c.startsWith("WH") ? c.slice(2) : c;
+  return body ? `WH-${body}` : "";
+}
+
+export function lookupInputProblem(input: CustomerContractLookupInput) {
+  if (!normalizeWarrantyId(input.warrantyId)) return "Enter your warranty ID";
+  if (compact(input.verifier).length < 5) return "Enter the last 6 characters of your VIN or your postal code";
+  return null;
+}
+
+// A verifier matches on the VIN's last 6 characters or the contract's postal code.
+export function verifierMatches(contract: { vin?: string | null; customerPostalCode?: string | null }, verifier: string) {
+  const v = compact(verifier);
+  if (!v) return false;
+  const vin = compact(contract.vin);
+  if (v.length === 6 && vin.length >= 6 && vin.slice(-6) === v) return true;
+  const postal = compact(contract.customerPostalCode);
+  return postal.length > 0 && postal === v;
+}
+
+// Drafts were never issued to the customer, so they are not visible in the portal.
+export function isCustomerVisibleStatus(status: string) {
+  return status === "SOLD" || status === "REMITTED" || status === "PAID";
+}
+
+export function coverageTermEndDate(startDate: string, termMonths: number | null | undefined) {
+  if (typeof termMonths !== "number" || termMonths <= 0) return null;
+  const start = new Date(startDate);
+  if (Number.isNaN(start.getTime())) return null;
+  return format(addMonths(start, termMonths), "yyyy-MM-dd");
+}
+
+function parseCoverageDetails(raw: unknown): CoverageDetails | null {
+  if (!raw) return null;
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw) as CoverageDetails;
+    } catch {
+      return null;
+    }
+  }
+  return typeof raw === "object" ? (raw as CoverageDetails) : null;
+}
+
+function isTransferPolicy(v: unknown): v is TransferPolicy {
+  return v === "NOT_TRANSFERABLE" || v === "ORIGINAL_OWNER_PRIVATE_SALE" || v === "PRIVATE_SALE" || v === "ANY";
+}
+
+function isCancellationRefundMethod(v: unknown): v is CancellationRefundMethod {
+  return v === "PRO_RATA_TIME" || v === "PRO_RATA_KM" || v === "PRO_RATA_LESSER" || v === "SHORT_RATE";
+}
+
+function numberOrNull(v: unknown) {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function textOrUndefined(v: unknown) {
+  const t = typeof v === "string" ? v.trim() : "";
+  return t || undefined;
+}
+
+export function buildCustomerContractSummary(record: CustomerContractRecord, today = new Date()): CustomerContractSummary {
+  const startDate = (record.soldAt ?? record.createdAt).slice(0, 10);
+  const termMonths = numberOrNull(record.termMonths);
+  const termKm = numberOrNull(record.termKm);
+  const termEndDate = coverageTermEndDate(startDate, termMonths);
+  const todayIso = format(today, "yyyy-MM-dd");
+  const cancelledOn = record.cancelledOn ? record.cancelledOn.slice(0, 10) : null;
+
+  const status: CustomerCoverageStatus = cancelledOn ? "CANCELLED" : termEndDate && termEndDate <= todayIso ? "EXPIRED" : "ACTIVE";
+
+  const policy = isTransferPolicy(record.transferPolicy) ? record.transferPolicy : DEFAULT_TRANSFER_POLICY;
+  // Customers are told whether a private sale today could carry the coverage over; the dealer confirms the odometer.
+  const eligibility = checkTransferEligibility({
+    policy,
+    saleType: "PRIVATE_SALE",
+    priorTransferCount: record.transferCount,
+    contractStatus: record.status,
+    cancelled: Boolean(cancelledOn),
+    startDate,
+    transferDate: todayIso,
+    termMonths,
+    termKm,
+    startOdometerKm: null,
+    transferOdometerKm: null,
+  });
+
+  const vin = compact(record.vin);
+
+  return {
+    contractId: record.contractId,
+    warrantyId: record.warrantyId,
+    contractNumber: record.contractNumber,
+    customerName: record.customerName,
+    status,
+    providerName: textOrUndefined(record.providerName),
+    productName: textOrUndefined(record.productName),
+    productType: textOrUndefined(record.productType),
+    vehicle: {
+      year: textOrUndefined(record.vehicleYear),
+      make: textOrUndefined(record.vehicleMake),
+      model: textOrUndefined(record.vehicleModel),
+      trim: textOrUndefined(record.vehicleTrim),
+      vinLast6: vin.length >= 6 ? vin.slice(-6) : undefined,
+    },
+    startDate,
+    termEndDate,
+    termMonths,
+    termKm,
+    odometerAtSaleKm: numberOrNull(record.vehicleMileageKm),
+    deductibleCents: numberOrNull(record.deductibleCents),
+    coverage: generateCoverageWording(parseCoverageDetails(record.coverageDetails)),
+    termsText: textOrUndefined(record.termsText),
+    claimsText: textOrUndefined(record.claimsText),
+    transfer: {
+      policy,
+      feeCents: numberOrNull(record.transferFeeCents) ?? 0,
+      transferCount: record.transferCount,
+      eligible: eligibility.allowed,
+      reasons: eligibility.reasons,
+    },
+    cancellation: {
+      refundMethod: isCancellationRefundMethod(record.cancellationRefundMethod) ? record.cancellationRefundMethod : "PRO_RATA_TIME",
+      feeCents: numberOrNull(record.cancellationFeeCents) ?? 0,
+      cancelledOn,
+    },
+  };
+}
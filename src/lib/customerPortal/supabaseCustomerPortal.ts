@@ -0,0 +1,85 @@
+import { getSupabaseClient } from "../supabase/client";
+
+import type { CustomerPortalApi } from "./api";
+import { CUSTOMER_LOOKUP_NOT_FOUND, buildCustomerContractSummary, lookupInputProblem, normalizeWarrantyId } from "./summary";
+
+type LookupRow = {
+  contract_id: string;
+  warranty_id: string;
+  contract_number: string;
+  customer_name: string;
+  status: string;
+  sold_at?: string | null;
+  created_at: string;
+  vin_last6?: string | null;
+  vehicle_year?: string | null;
+  vehicle_make?: string | null;
+  vehicle_model?: string | null;
+  vehicle_trim?: string | null;
+  vehicle_mileage_km?: number | null;
+  term_months?: number | null;
+  term_km?: number | null;
+  deductible_cents?: number | null;
+  provider_name?: string | null;
+  product_name?: string | null;
+  product_type?: string | null;
+  coverage_details?: unknown;
+  transfer_policy?: string | null;
+  transfer_fee_cents?: number | null;
+  cancellation_refund_method?: string | null;
+  cancellation_fee_cents?: number | null;
+  terms_text?: string | null;
+  claims_text?: string | null;
+  transfer_count?: number | null;
+  cancelled_on?: string | null;
+};
+
+export const supabaseCustomerPortalApi: CustomerPortalApi = {
+  async lookup(input) {
+    const problem = lookupInputProblem(input);
+    if (problem) throw new Error(problem);
+
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase.rpc("customer_contract_lookup", {
+      _warranty_id: normalizeWarrantyId(input.warrantyId),
+      _verifier: input.verifier,
+    });
+    if (error) throw error;
+
+    const r = (Array.isArray(data) ? data[0] : data) as LookupRow | null | undefined;
+    if (!r) throw new Error(CUSTOMER_LOOKUP_NOT_FOUND);
+
+    return buildCustomerContractSummary({
+      contractId: r.contract_id,
+      warrantyId: r.warranty_id,
+      contractNumber: r.contract_number,
+      customerName: r.customer_name,
+      status: r.status,
+      soldAt: r.sold_at,
+      createdAt: r.created_at,
+      vin: r.vin_last6,
+      vehicleYear: r.vehicle_year,
+      vehicleMake: r.vehicle_make,
+      vehicleModel: r.vehicle_model,
+      vehicleTrim: r.vehicle_trim,
+      vehicleMileageKm: r.vehicle_mileage_km,
+      termMonths: r.term_months,
+      termKm: r.term_km,
+      deductibleCents: r.deductible_cents,
+      providerName: r.provider_name,
+      productName: r.product_name,
+      productType: r.product_type,
+      coverageDetails: r.coverage_details,
+      transferPolicy: r.transfer_policy,
+      transferFeeCents: r.transfer_fee_cents,
+      cancellationRefundMethod: r.cancellation_refund_method,
+      cancellationFeeCents: r.cancellation_fee_cents,
+      termsText: r.terms_text,
+      claimsText: r.claims_text,
+      transferCount: r.transfer_count ?? 0,
+      cancelledOn: r.cancelled_on,
+    });
+  },
+};
@@ -0,0 +1,82 @@
+import type { CoverageWording } from "../contracts/coverageWording";
+import type { CancellationRefundMethod, TransferPolicy } from "../products/types";
+
+export type CustomerContractLookupInput = {
+  warrantyId: string;
+  // Last 6 characters of the VIN or the postal code on the contract.
+  verifier: string;
+};
+
+export type CustomerCoverageStatus = "ACTIVE" | "EXPIRED" | "CANCELLED";
+
+// Only what the customer already has on their printed copy; never dealer cost or other contracts.
+export type CustomerContractSummary = {
+  contractId: string;
+  warrantyId: string;
+  contractNumber: string;
+  customerName: string;
+  status: CustomerCoverageStatus;
+  providerName?: string;
+  productName?: string;
+  productType?: string;
+  vehicle: {
+    year?: string;
+    make?: string;
+    model?: string;
+    trim?: string;
+    vinLast6?: string;
+  };
+  startDate: string;
+  termEndDate: string | null;
+  termMonths: number | null;
+  termKm: number | null;
+  odometerAtSaleKm: number | null;
+  deductibleCents: number | null;
+  coverage: CoverageWording;
+  termsText?: string;
+  claimsText?: string;
+  transfer: {
+    policy: TransferPolicy;
+    feeCents: number;
+    transferCount: number;
+    eligible: boolean;
+    reasons: string[];
+  };
+  cancellation: {
+    refundMethod: CancellationRefundMethod;
+    feeCents: number;
+    cancelledOn: string | null;
+  };
+};
+
+// Raw record the lookup returns before it is shaped for the customer.
+export type CustomerContractRecord = {
+  contractId: string;
+  warrantyId: string;
+  contractNumber: string;
+  customerName: string;
+  status: string;
+  soldAt?: string | null;
+  createdAt: string;
+  vin?: string | null;
+  vehicleYear?: string | null;
+  vehicleMake?: string | null;
+  vehicleModel?: string | null;
+  vehicleTrim?: string | null;
+  vehicleMileageKm?: number | null;
+  termMonths?: number | null;
+  termKm?: number | null;
+  deductibleCents?: number | null;
+  providerName?: string | null;
+  productName?: string | null;
+  productType?: string | null;
+  coverageDetails?: unknown;
+  transferPolicy?: string | null;
+  transferFeeCents?: number | null;
+  cancellationRefundMethod?: string | null;
+  cancellationFeeCents?: number | null;
+  termsText?: string | null;
+  claimsText?: string | null;
+  transferCount: number;
+  cancelledOn?: string | null;
+};
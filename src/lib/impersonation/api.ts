@@ -0,0 +1,6 @@
+import type { ActiveImpersonation, ImpersonationEndReason, ImpersonationSession, StartImpersonationInput } from "./types";
+
+export interface ImpersonationApi {
+  start(input: StartImpersonationInput): Promise<ActiveImpersonation>;
+  stop(session: ImpersonationSession, reason: ImpersonationEndReason): Promise<void>;
+}
@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { ImpersonationApi } from "./api";
+import { localImpersonationApi } from "./localImpersonation";
+import { supabaseImpersonationApi } from "./supabaseImpersonation";
+
+export function getImpersonationApi(): ImpersonationApi {
+  return getAppMode() === "supabase" ? supabaseImpersonationApi : localImpersonationApi;
+}
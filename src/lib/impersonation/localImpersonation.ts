@@ -0,0 +1,68 @@
+import { getLocalAuthUserById } from "../auth/localAuth";
+import { logAuditEvent } from "../auditLog";
+
+import type { ImpersonationApi } from "./api";
+import { impersonationMinutes, impersonationStartProblem } from "./session";
+import type { ImpersonationEndReason, ImpersonationSession, StartImpersonationInput } from "./types";
+
+function readLocalSessionUserId(): string | null {
+  const raw = localStorage.getItem("warrantyhub.local.session");
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as { userId?: string };
+    return typeof parsed.userId === "string" ? parsed.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+export const localImpersonationApi: ImpersonationApi = {
+  async start(input: StartImpersonationInput) {
+    const adminId = readLocalSessionUserId();
+    const admin = adminId ? getLocalAuthUserById(adminId) : null;
+    if (!admin) throw new Error("Not authenticated");
+
+    const target = getLocalAuthUserById(input.targetUserId);
+    const problem = impersonationStartProblem(input, admin, target);
+    if (problem || !target) throw new Error(problem ?? "User not found");
+
+    const now = new Date();
+    const session: ImpersonationSession = {
+      id: crypto.randomUUID(),
+      adminUserId: admin.id,
+      adminEmail: admin.email,
+      targetUserId: target.id,
+      targetEmail: target.email,
+      targetRole: target.role,
+      reason: input.reason.trim(),
+      startedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + impersonationMinutes(input.minutes) * 60_000).toISOString(),
+    };
+
+    logAuditEvent({
+      kind: "IMPERSONATION_STARTED",
+      actorUserId: admin.id,
+      actorEmail: admin.email,
+      actorRole: admin.role,
+      dealerId: target.dealerId,
+      entityType: "user",
+      entityId: target.id,
+      message: `Viewing as ${target.email}`,
+      meta: { sessionId: session.id, reason: session.reason, expiresAt: session.expiresAt },
+    });
+
+    return { session, user: target };
+  },
+
+  async stop(session: ImpersonationSession, reason: ImpersonationEndReason) {
+    logAuditEvent({
+      kind: "IMPERSONATION_ENDED",
+      actorUserId: session.adminUserId,
+      actorEmail: session.adminEmail,
+      entityType: "user",
+      entityId: session.targetUserId,
+      message: reason === "EXPIRED" ? `Session viewing as ${session.targetEmail ?? session.targetUserId} expired` : `Stopped viewing as ${session.targetEmail ?? session.targetUserId}`,
+      meta: { sessionId: session.id, reason },
+    });
+  },
+};
@@ -0,0 +1,122 @@
+import type { Role } from "../auth/types";
+
+import type { ActiveImpersonation, StartImpersonationInput } from "./types";
+
+// Per tab, so closing the tab ends the view; the server still expires the session on its own.
+const STORAGE_KEY = "warrantyhub.impersonation";
+
+export const DEFAULT_IMPERSONATION_MINUTES = 30;
+export const MAX_IMPERSONATION_MINUTES = 60;
+export const READ_ONLY_MESSAGE = "Read-only while viewing as another user";
+
+const IMPERSONATABLE_ROLES: Role[] = ["DEALER_ADMIN", "DEALER_EMPLOYEE", "PROVIDER"];
+
+// Non-GET requests that stay allowed while impersonating: auth refresh, ending the
+// session, read-only RPCs and signed download links.
+const ALLOWED_WRITE_PATHS = [
+  "/auth/v1/",
+  "/functions/v1/admin-impersonation",
+  "/rest/v1/rpc/current_user_permissions",
+  "/rest/v1/rpc/has_permission",
+  "/storage/v1/object/sign/",
+];
+
+// Local keys that keep working so the admin can sign out, start/stop is audited and printed copies are still stamped.
+const ALLOWED_LOCAL_KEYS = [
+  "warrantyhub.local.session",
+  "warrantyhub.local.audit_events",
+  "warrantyhub.local.auth_notice",
+  "warrantyhub.local.verification_keys",
+];
+
+export function readActiveImpersonation(): ActiveImpersonation | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<ActiveImpersonation>;
+    if (!parsed?.session?.id || !parsed.user?.id) return null;
+    return parsed as ActiveImpersonation;
+  } catch {
+    return null;
+  }
+}
+
+export function writeActiveImpersonation(active: ActiveImpersonation | null) {
+  if (active) sessionStorage.setItem(STORAGE_KEY, JSON.stringify(active));
+  else sessionStorage.removeItem(STORAGE_KEY);
+}
+
+export function isImpersonating() {
+  return readActiveImpersonation() !== null;
+}
+
+export function impersonationExpired(active: Pick<ActiveImpersonation, "session">, now = Date.now()) {
+  return new Date(active.session.expiresAt).getTime() <= now;
+}
+
+export function impersonationMinutes(minutes?: number) {
+  if (typeof minutes !== "number" || !Number.isFinite(minutes) || minutes <= 0) return DEFAULT_IMPERSONATION_MINUTES;
+  return Math.min(Math.round(minutes), MAX_IMPERSONATION_MINUTES);
+}
+
+export function impersonationStartProblem(
+  input: StartImpersonationInput,
+  admin: { id: string; role: Role },
+  target: { id: string; role: Role } | null,
+) {
+  if (admin.role !== "ADMIN" && admin.role !== "SUPER_ADMIN") return "Only admins can view as another user";
+  if (!target) return "User not found";
+  if (target.id === admin.id) return "You cannot view as yourself";
+  if (!IMPERSONATABLE_ROLES.includes(target.role)) return "Only dealer and provider users can be viewed";
+  if (!input.reason.trim()) return "A reason is required";
+  return null;
+}
+
+function requestUrl(input: RequestInfo | URL) {
+  if (typeof input === "string") return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+export function isBlockedWhileImpersonating(url: string, method: string) {
+  const m = method.toUpperCase();
+  if (m === "GET" || m === "HEAD" || m === "OPTIONS") return false;
+  return !ALLOWED_WRITE_PATHS.some((p) => url.includes(p));
+}
+
+// Installed as the Supabase client's fetch so every mutation is refused client-side
+// while a session is active. The server refuses them separately: restrictive RLS
+// policies for direct table writes, and an is_impersonating() check in the
+// security definer RPCs and service-role edge functions, which skip RLS.
+export async function readOnlyFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const method = init?.method ?? (input instanceof Request ? input.method : "GET");
+  if (isImpersonating() && isBlockedWhileImpersonating(requestUrl(input), method)) {
+    return new Response(JSON.stringify({ message: READ_ONLY_MESSAGE, error: READ_ONLY_MESSAGE }), {
+      status: 403,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  return fetch(input, init);
+}
+
+let localGuardInstalled = false;
+
+// Local mode has no server to refuse writes, so block writes to the local data keys instead.
+export function installLocalWriteGuard() {
+  if (localGuardInstalled || typeof Storage === "undefined") return;
+  localGuardInstalled = true;
+
+  const setItem = Storage.prototype.setItem;
+  const removeItem = Storage.prototype.removeItem;
+  const blocked = (storage: Storage, key: string) =>
+    storage === window.localStorage && key.startsWith("warrantyhub.local.") && !ALLOWED_LOCAL_KEYS.includes(key) && isImpersonating();
+
+  Storage.prototype.setItem = function (this: Storage, key: string, value: string) {
+    if (blocked(this, key)) throw new Error(READ_ONLY_MESSAGE);
+    setItem.call(this, key, value);
+  };
+  Storage.prototype.removeItem = function (this: Storage, key: string) {
+    if (blocked(this, key)) throw new Error(READ_ONLY_MESSAGE);
+    removeItem.call(this, key);
+  };
+}
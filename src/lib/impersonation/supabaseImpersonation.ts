@@ -0,0 +1,26 @@
+import { invokeEdgeFunction } from "../supabase/functions";
+
+import type { ImpersonationApi } from "./api";
+import { impersonationMinutes } from "./session";
+import type { ActiveImpersonation, ImpersonationEndReason, ImpersonationSession, StartImpersonationInput } from "./types";
+
+// The edge function checks the caller is an admin, records the session and audit
+// event with the service role, and returns the target user as the portal should see them.
+export const supabaseImpersonationApi: ImpersonationApi = {
+  async start(input: StartImpersonationInput) {
+    return invokeEdgeFunction<ActiveImpersonation>("admin-impersonation", {
+      action: "start",
+      targetUserId: input.targetUserId,
+      reason: input.reason.trim(),
+      minutes: impersonationMinutes(input.minutes),
+    });
+  },
+
+  async stop(session: ImpersonationSession, reason: ImpersonationEndReason) {
+    await invokeEdgeFunction<{ ok: true }>("admin-impersonation", {
+      action: "stop",
+      sessionId: session.id,
+      reason,
+    });
+  },
+};
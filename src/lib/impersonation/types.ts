@@ -0,0 +1,27 @@
+import type { AuthUser, Role } from "../auth/types";
+
+export type ImpersonationSession = {
+  id: string;
+  adminUserId: string;
+  adminEmail?: string;
+  targetUserId: string;
+  targetEmail?: string;
+  targetRole: Role;
+  reason: string;
+  startedAt: string;
+  expiresAt: string;
+};
+
+// The session plus the user the portal is rendered as.
+export type ActiveImpersonation = {
+  session: ImpersonationSession;
+  user: AuthUser;
+};
+
+export type StartImpersonationInput = {
+  targetUserId: string;
+  reason: string;
+  minutes?: number;
+};
+
+export type ImpersonationEndReason = "ENDED" | "EXPIRED";
@@ -57,6 +57,10 @@ function readProducts(): Product[] {
           termMonths: typeof p.termMonths === "number" ? p.termMonths : undefined,
           termKm: typeof p.termKm === "number" ? p.termKm : undefined,
           deductibleCents: typeof p.deductibleCents === "number" ? p.deductibleCents : undefined,
+          cancellationRefundMethod: typeof (p as any).cancellationRefundMethod === "string" ? (p as any).cancellationRefundMethod : undefined,
+          cancellationFeeCents: typeof (p as any).cancellationFeeCents === "number" ? (p as any).cancellationFeeCents : undefined,
+          transferPolicy: typeof (p as any).transferPolicy === "string" ? (p as any).transferPolicy : undefined,
+          transferFeeCents: typeof (p as any).transferFeeCents === "number" ? (p as any).transferFeeCents : undefined,
           eligibilityMaxVehicleAgeYears:
             typeof p.eligibilityMaxVehicleAgeYears === "number" ? p.eligibilityMaxVehicleAgeYears : undefined,
           eligibilityMaxMileageKm:
@@ -70,6 +74,17 @@ function readProducts(): Product[] {
           eligibilityTrimAllowlist: Array.isArray(p.eligibilityTrimAllowlist)
             ? (p.eligibilityTrimAllowlist.filter((x) => typeof x === "string") as string[])
             : undefined,
+          eligibilityMakeDenylist: Array.isArray(p.eligibilityMakeDenylist)
+            ? (p.eligibilityMakeDenylist.filter((x) => typeof x === "string") as string[])
+            : undefined,
+          eligibilityModelDenylist: Array.isArray(p.eligibilityModelDenylist)
+            ? (p.eligibilityModelDenylist.filter((x) => typeof x === "string") as string[])
+            : undefined,
+          eligibilityTrimDenylist: Array.isArray(p.eligibilityTrimDenylist)
+            ? (p.eligibilityTrimDenylist.filter((x) => typeof x === "string") as string[])
+            : undefined,
+          eligibilityMaxMonthsInService:
+            typeof p.eligibilityMaxMonthsInService === "number" ? p.eligibilityMaxMonthsInService : undefined,
           basePriceCents: typeof p.basePriceCents === "number" ? p.basePriceCents : undefined,
           dealerCostCents: typeof p.dealerCostCents === "number" ? p.dealerCostCents : undefined,
           published: Boolean(p.published),
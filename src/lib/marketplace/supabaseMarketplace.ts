@@ -2,7 +2,7 @@ import { getSupabaseClient } from "../supabase/client";
 
 import type { MarketplaceApi } from "./api";
 import type { MarketplaceProduct } from "./api";
-import type { PricingStructure, Product, ProductType } from "../products/types";
+import type { CancellationRefundMethod, PricingStructure, Product, ProductType, TransferPolicy } from "../products/types";
 
 type ProductsRow = {
   id: string;
@@ -25,11 +25,19 @@ type ProductsRow = {
   term_months?: number | null;
   term_km?: number | null;
   deductible_cents?: number | null;
+  cancellation_refund_method?: string | null;
+  cancellation_fee_cents?: number | null;
+  transfer_policy?: string | null;
+  transfer_fee_cents?: number | null;
   eligibility_max_vehicle_age_years?: number | null;
   eligibility_max_mileage_km?: number | null;
   eligibility_make_allowlist?: string[] | null;
   eligibility_model_allowlist?: string[] | null;
   eligibility_trim_allowlist?: string[] | null;
+  eligibility_make_denylist?: string[] | null;
+  eligibility_model_denylist?: string[] | null;
+  eligibility_trim_denylist?: string[] | null;
+  eligibility_max_months_in_service?: number | null;
   base_price_cents?: number | null;
   dealer_cost_cents?: number | null;
   published: boolean;
@@ -95,11 +103,19 @@ function toProduct(r: ProductsRow): Product {
     termMonths: r.term_months ?? (pj?.rows?.[0]?.term ? parseInt(String(pj.rows[0].term)) : undefined),
     termKm: r.term_km ?? undefined,
     deductibleCents: r.deductible_cents ?? (pj?.deductible ? Math.round(Number(pj.deductible) * 100) : undefined),
+    cancellationRefundMethod: typeof r.cancellation_refund_method === "string" ? (r.cancellation_refund_method as CancellationRefundMethod) : undefined,
+    cancellationFeeCents: r.cancellation_fee_cents ?? undefined,
+    transferPolicy: typeof r.transfer_policy === "string" ? (r.transfer_policy as TransferPolicy) : undefined,
+    transferFeeCents: r.transfer_fee_cents ?? undefined,
     eligibilityMaxVehicleAgeYears: r.eligibility_max_vehicle_age_years ?? (er?.maxAge ? Number(er.maxAge) : undefined),
     eligibilityMaxMileageKm: r.eligibility_max_mileage_km ?? (er?.maxMileage ? Number(er.maxMileage) : undefined),
     eligibilityMakeAllowlist: r.eligibility_make_allowlist ?? (er?.makes ?? undefined),
     eligibilityModelAllowlist: r.eligibility_model_allowlist ?? undefined,
     eligibilityTrimAllowlist: r.eligibility_trim_allowlist ?? undefined,
+    eligibilityMakeDenylist: r.eligibility_make_denylist ?? (er?.excludedMakes ?? undefined),
+    eligibilityModelDenylist: r.eligibility_model_denylist ?? (er?.excludedModels ?? undefined),
+    eligibilityTrimDenylist: r.eligibility_trim_denylist ?? undefined,
+    eligibilityMaxMonthsInService: r.eligibility_max_months_in_service ?? (er?.maxMonthsInService ? Number(er.maxMonthsInService) : undefined),
     basePriceCents: r.base_price_cents ?? (pj?.rows?.[0]?.dealerCost ? Math.round(Number(pj.rows[0].dealerCost) * 100) : undefined),
     dealerCostCents: r.dealer_cost_cents ?? (pj?.rows?.[0]?.dealerCost ? Math.round(Number(pj.rows[0].dealerCost) * 100) : undefined),
     published: r.published,
@@ -0,0 +1,9 @@
+import type { OnboardingItem, ReviewOnboardingItemInput, SubmitOnboardingItemInput } from "./types";
+
+export type OnboardingApi = {
+  listMine(): Promise<OnboardingItem[]>;
+  listForApplicant(applicantUserId: string): Promise<OnboardingItem[]>;
+  submit(input: SubmitOnboardingItemInput): Promise<OnboardingItem>;
+  review(id: string, input: ReviewOnboardingItemInput): Promise<OnboardingItem>;
+  getDownloadUrl(item: OnboardingItem): Promise<string>;
+};
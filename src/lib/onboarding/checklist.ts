@@ -0,0 +1,154 @@
+import { localDateString } from "../utils";
+
+import type {
+  OnboardingItem,
+  OnboardingItemKey,
+  OnboardingItemState,
+  ReviewOnboardingItemInput,
+  SubmitOnboardingItemInput,
+} from "./types";
+
+export type OnboardingItemDefinition = {
+  key: OnboardingItemKey;
+  label: string;
+  description: string;
+  // Label for the typed value (registration / business number); undefined when the item is file-only.
+  valueLabel?: string;
+  // Verified items of this kind carry an expiry date set by the admin.
+  expires: boolean;
+};
+
+const REGULATORS: Record<string, string> = {
+  ON: "OMVIC",
+  AB: "AMVIC",
+  BC: "VSA",
+  MB: "MPI Dealer Licensing",
+  SK: "FCAA",
+  QC: "OPC",
+};
+
+const PROVINCE_CODES: Record<string, string> = {
+  ONTARIO: "ON",
+  ALBERTA: "AB",
+  "BRITISH COLUMBIA": "BC",
+  MANITOBA: "MB",
+  SASKATCHEWAN: "SK",
+  QUEBEC: "QC",
+  QUÉBEC: "QC",
+};
+
+// Name of the provincial dealer regulator, e.g. "OMVIC" for Ontario.
+export function regulatorForProvince(province?: string | null) {
+  const p = (province ?? "").trim().toUpperCase();
+  const code = PROVINCE_CODES[p] ?? p;
+  return REGULATORS[code] ?? "Provincial regulator";
+}
+
+export function onboardingItemDefinitions(province?: string | null): OnboardingItemDefinition[] {
+  const regulator = regulatorForProvince(province);
+  return [
+    {
+      key: "REGULATOR_REGISTRATION",
+      label: `${regulator} dealer registration`,
+      description: `Your current ${regulator} registration certificate.`,
+      valueLabel: "Registration number",
+      expires: true,
+    },
+    {
+      key: "BUSINESS_NUMBER",
+      label: "Business number",
+      description: "CRA business number or HST/GST account (e.g. 123456789 RT0001).",
+      valueLabel: "Business number",
+      expires: false,
+    },
+    {
+      key: "INSURANCE_CERTIFICATE",
+      label: "Insurance certificate",
+      description: "Certificate of garage / liability insurance.",
+      expires: true,
+    },
+    {
+      key: "VOID_CHEQUE",
+      label: "Banking (void cheque)",
+      description: "Void cheque or bank letter for remittance refunds and payouts.",
+      expires: false,
+    },
+  ];
+}
+
+export function onboardingItemLabel(key: OnboardingItemKey, province?: string | null) {
+  return onboardingItemDefinitions(province).find((d) => d.key === key)?.label ?? key;
+}
+
+// 9-digit BN, optionally followed by a program account such as RT0001.
+export function isValidBusinessNumber(value: string) {
+  return /^\d{9}(\s*[A-Z]{2}\s*\d{4})?$/.test(value.trim().toUpperCase());
+}
+
+export function onboardingSubmissionProblem(input: SubmitOnboardingItemInput, existing?: OnboardingItem) {
+  const value = (input.value ?? "").trim();
+  const hasFile = Boolean(input.file) || Boolean(existing?.storagePath || existing?.dataUrl);
+
+  if (input.key === "BUSINESS_NUMBER") {
+    if (!value) return "Business number is required";
+    if (!isValidBusinessNumber(value)) return "Business number must be 9 digits, optionally followed by a program account (e.g. RT0001)";
+    return null;
+  }
+  if (input.key === "REGULATOR_REGISTRATION" && !value) return "Registration number is required";
+  if (!hasFile) return "Upload a document";
+  return null;
+}
+
+export function onboardingReviewProblem(key: OnboardingItemKey, input: ReviewOnboardingItemInput) {
+  if (input.status === "REJECTED") return (input.note ?? "").trim() ? null : "Add a note explaining what needs to change";
+  const expiresOn = (input.expiresOn ?? "").trim();
+  const expires = onboardingItemDefinitions().find((d) => d.key === key)?.expires ?? false;
+  if (expires && !expiresOn) return "Expiry date is required to verify this item";
+  if (expiresOn && !/^\d{4}-\d{2}-\d{2}$/.test(expiresOn)) return "Expiry date must be YYYY-MM-DD";
+  return null;
+}
+
+function addDays(date: string, days: number) {
+  const d = new Date(`${date}T12:00:00`);
+  d.setDate(d.getDate() + days);
+  return localDateString(d);
+}
+
+export function onboardingItemState(item: OnboardingItem | undefined, today: string = localDateString()): OnboardingItemState {
+  if (!item) return "MISSING";
+  if (item.status === "VERIFIED" && item.expiresOn && item.expiresOn < today) return "EXPIRED";
+  return item.status;
+}
+
+export const EXPIRY_WARNING_DAYS = 30;
+
+export type OnboardingProgressRow = {
+  definition: OnboardingItemDefinition;
+  item?: OnboardingItem;
+  state: OnboardingItemState;
+  expiringSoon: boolean;
+};
+
+export function onboardingProgress(items: OnboardingItem[], options?: { province?: string | null; today?: string }) {
+  const today = options?.today ?? localDateString();
+  const warnBefore = addDays(today, EXPIRY_WARNING_DAYS);
+  const byKey = new Map(items.map((i) => [i.key, i]));
+
+  const rows: OnboardingProgressRow[] = onboardingItemDefinitions(options?.province).map((definition) => {
+    const item = byKey.get(definition.key);
+    const state = onboardingItemState(item, today);
+    const expiringSoon = state === "VERIFIED" && Boolean(item?.expiresOn) && (item?.expiresOn ?? "") <= warnBefore;
+    return { definition, item, state, expiringSoon };
+  });
+
+  const verified = rows.filter((r) => r.state === "VERIFIED").length;
+  return {
+    rows,
+    total: rows.length,
+    verified,
+    submitted: rows.filter((r) => r.state !== "MISSING").length,
+    complete: verified === rows.length,
+    needsAttention: rows.some((r) => r.state === "MISSING" || r.state === "REJECTED" || r.state === "EXPIRED"),
+    licenceExpired: rows.some((r) => r.definition.key === "REGULATOR_REGISTRATION" && r.state === "EXPIRED"),
+  };
+}
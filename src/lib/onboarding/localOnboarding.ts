@@ -0,0 +1,185 @@
+import type { OnboardingApi } from "./api";
+import { onboardingReviewProblem, onboardingSubmissionProblem } from "./checklist";
+import type {
+  OnboardingItem,
+  OnboardingItemKey,
+  OnboardingReviewStatus,
+  ReviewOnboardingItemInput,
+  SubmitOnboardingItemInput,
+} from "./types";
+
+const STORAGE_KEY = "warrantyhub.local.dealer_onboarding_items";
+const USERS_KEY = "warrantyhub.local.users";
+const DEV_BYPASS_KEY = "warrantyhub.dev.bypass_user";
+
+const ITEM_KEYS: OnboardingItemKey[] = ["REGULATOR_REGISTRATION", "BUSINESS_NUMBER", "INSURANCE_CERTIFICATE", "VOID_CHEQUE"];
+
+function readDevBypassUserId(): string | null {
+  if (!import.meta.env.DEV) return null;
+  const raw = localStorage.getItem(DEV_BYPASS_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as { id?: string };
+    return typeof parsed.id === "string" ? parsed.id : null;
+  } catch {
+    return null;
+  }
+}
+
+function readLocalSessionUserId(): string | null {
+  const raw = localStorage.getItem("warrantyhub.local.session");
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as { userId?: string };
+    return typeof parsed.userId === "string" ? parsed.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+function currentUserId(): string {
+  const id = readDevBypassUserId() ?? readLocalSessionUserId();
+  if (!id) throw new Error("Not authenticated");
+  return id;
+}
+
+function currentUserIsAdmin() {
+  const uid = currentUserId();
+  const raw = localStorage.getItem(USERS_KEY);
+  if (!raw) return false;
+  try {
+    const users = JSON.parse(raw) as { id?: string; role?: string }[];
+    const role = users.find((u) => u?.id === uid)?.role;
+    return role === "ADMIN" || role === "SUPER_ADMIN";
+  } catch {
+    return false;
+  }
+}
+
+function asString(v: unknown) {
+  return typeof v === "string" && v.trim() ? v : undefined;
+}
+
+function isStatus(v: unknown): v is OnboardingReviewStatus {
+  return v === "SUBMITTED" || v === "VERIFIED" || v === "REJECTED";
+}
+
+function read(): OnboardingItem[] {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<OnboardingItem>[];
+    return (Array.isArray(parsed) ? parsed : [])
+      .map((i): OnboardingItem => {
+        const submittedAt = asString(i.submittedAt) ?? new Date().toISOString();
+        return {
+          id: asString(i.id) ?? crypto.randomUUID(),
+          applicantUserId: asString(i.applicantUserId) ?? "",
+          key: ITEM_KEYS.includes(i.key as OnboardingItemKey) ? (i.key as OnboardingItemKey) : "REGULATOR_REGISTRATION",
+          value: asString(i.value),
+          fileName: asString(i.fileName),
+          mimeType: asString(i.mimeType),
+          sizeBytes: typeof i.sizeBytes === "number" ? i.sizeBytes : undefined,
+          dataUrl: asString(i.dataUrl),
+          status: isStatus(i.status) ? i.status : "SUBMITTED",
+          expiresOn: asString(i.expiresOn),
+          reviewNote: asString(i.reviewNote),
+          reviewedAt: asString(i.reviewedAt),
+          reviewedByEmail: asString(i.reviewedByEmail),
+          submittedAt,
+          updatedAt: asString(i.updatedAt) ?? submittedAt,
+        };
+      })
+      .filter((i) => i.applicantUserId.trim());
+  } catch {
+    return [];
+  }
+}
+
+function write(items: OnboardingItem[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+function fileToDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.onload = () => {
+      const result = reader.result;
+      if (typeof result !== "string") return reject(new Error("Unexpected file read result"));
+      resolve(result);
+    };
+    reader.readAsDataURL(file);
+  });
+}
+
+export const localOnboardingApi: OnboardingApi = {
+  async listMine() {
+    const uid = currentUserId();
+    return read().filter((i) => i.applicantUserId === uid);
+  },
+
+  async listForApplicant(applicantUserId: string) {
+    if (!currentUserIsAdmin()) throw new Error("Not authorized");
+    return read().filter((i) => i.applicantUserId === applicantUserId);
+  },
+
+  async submit(input: SubmitOnboardingItemInput) {
+    const uid = currentUserId();
+    const items = read();
+    const existing = items.find((i) => i.applicantUserId === uid && i.key === input.key);
+
+    const problem = onboardingSubmissionProblem(input, existing);
+    if (problem) throw new Error(problem);
+
+    const now = new Date().toISOString();
+    const file = input.file ?? null;
+    const dataUrl = file ? await fileToDataUrl(file) : existing?.dataUrl;
+
+    // A resubmission goes back to the review queue.
+    const item: OnboardingItem = {
+      id: existing?.id ?? crypto.randomUUID(),
+      applicantUserId: uid,
+      key: input.key,
+      value: (input.value ?? "").trim() || undefined,
+      fileName: file ? file.name : existing?.fileName,
+      mimeType: file ? file.type || undefined : existing?.mimeType,
+      sizeBytes: file ? file.size : existing?.sizeBytes,
+      dataUrl,
+      status: "SUBMITTED",
+      submittedAt: now,
+      updatedAt: now,
+    };
+
+    write([item, ...items.filter((i) => i.id !== item.id)]);
+    return item;
+  },
+
+  async review(id: string, input: ReviewOnboardingItemInput) {
+    if (!currentUserIsAdmin()) throw new Error("Not authorized");
+    const items = read();
+    const current = items.find((i) => i.id === id);
+    if (!current) throw new Error("Onboarding item not found");
+    const problem = onboardingReviewProblem(current.key, input);
+    if (problem) throw new Error(problem);
+
+    const now = new Date().toISOString();
+    const next: OnboardingItem = {
+      ...current,
+      status: input.status,
+      expiresOn: input.status === "VERIFIED" ? (input.expiresOn ?? "").trim() || undefined : current.expiresOn,
+      reviewNote: (input.note ?? "").trim() || undefined,
+      reviewedAt: now,
+      reviewedByEmail: input.reviewerEmail,
+      updatedAt: now,
+    };
+
+    write(items.map((i) => (i.id === id ? next : i)));
+    return next;
+  },
+
+  async getDownloadUrl(item: OnboardingItem) {
+    if (!item.dataUrl) throw new Error("Document data not available");
+    return item.dataUrl;
+  },
+};
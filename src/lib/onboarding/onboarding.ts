@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { OnboardingApi } from "./api";
+import { localOnboardingApi } from "./localOnboarding";
+import { supabaseOnboardingApi } from "./supabaseOnboarding";
+
+export function getOnboardingApi(): OnboardingApi {
+  return getAppMode() === "supabase" ? supabaseOnboardingApi : localOnboardingApi;
+}
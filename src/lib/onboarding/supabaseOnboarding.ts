@@ -0,0 +1,163 @@
+import { getSupabaseClient } from "../supabase/client";
+
+import type { OnboardingApi } from "./api";
+import { onboardingReviewProblem, onboardingSubmissionProblem } from "./checklist";
+import type {
+  OnboardingItem,
+  OnboardingItemKey,
+  OnboardingReviewStatus,
+  ReviewOnboardingItemInput,
+  SubmitOnboardingItemInput,
+} from "./types";
+
+const BUCKET = "dealer-onboarding";
+
+type OnboardingItemRow = {
+  id: string;
+  applicant_user_id: string;
+  item_key: OnboardingItemKey;
+  value?: string | null;
+  file_name?: string | null;
+  mime_type?: string | null;
+  size_bytes?: number | null;
+  storage_path?: string | null;
+  status: OnboardingReviewStatus;
+  expires_on?: string | null;
+  review_note?: string | null;
+  reviewed_at?: string | null;
+  reviewed_by_email?: string | null;
+  submitted_at: string;
+  updated_at: string;
+};
+
+function toOnboardingItem(r: OnboardingItemRow): OnboardingItem {
+  return {
+    id: r.id,
+    applicantUserId: r.applicant_user_id,
+    key: r.item_key,
+    value: r.value ?? undefined,
+    fileName: r.file_name ?? undefined,
+    mimeType: r.mime_type ?? undefined,
+    sizeBytes: r.size_bytes ?? undefined,
+    storagePath: r.storage_path ?? undefined,
+    status: r.status,
+    expiresOn: r.expires_on ?? undefined,
+    reviewNote: r.review_note ?? undefined,
+    reviewedAt: r.reviewed_at ?? undefined,
+    reviewedByEmail: r.reviewed_by_email ?? undefined,
+    submittedAt: r.submitted_at,
+    updatedAt: r.updated_at,
+  };
+}
+
+async function currentUserId(): Promise<string> {
+  const supabase = getSupabaseClient();
+  if (!supabase) throw new Error("Supabase is not configured");
+
+  const { data, error } = await supabase.auth.getSession();
+  if (error) throw error;
+
+  const id = data.session?.user?.id;
+  if (!id) throw new Error("Not authenticated");
+  return id;
+}
+
+function sanitizeFilename(name: string) {
+  return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+async function listByApplicant(applicantUserId: string) {
+  const supabase = getSupabaseClient();
+  if (!supabase) throw new Error("Supabase is not configured");
+
+  const { data, error } = await supabase
+    .from("dealer_onboarding_items")
+    .select("*")
+    .eq("applicant_user_id", applicantUserId)
+    .order("submitted_at", { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as OnboardingItemRow[]).map(toOnboardingItem);
+}
+
+export const supabaseOnboardingApi: OnboardingApi = {
+  async listMine() {
+    return listByApplicant(await currentUserId());
+  },
+
+  async listForApplicant(applicantUserId: string) {
+    return listByApplicant(applicantUserId);
+  },
+
+  async submit(input: SubmitOnboardingItemInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const uid = await currentUserId();
+    const existing = (await listByApplicant(uid)).find((i) => i.key === input.key);
+
+    const problem = onboardingSubmissionProblem(input, existing);
+    if (problem) throw new Error(problem);
+
+    const row: Record<string, unknown> = {
+      applicant_user_id: uid,
+      item_key: input.key,
+      value: (input.value ?? "").trim() || null,
+    };
+
+    const file = input.file ?? null;
+    if (file) {
+      const objectName = `${uid}/${input.key.toLowerCase()}/${crypto.randomUUID()}-${sanitizeFilename(file.name)}`;
+      const uploadRes = await supabase.storage.from(BUCKET).upload(objectName, file, {
+        upsert: false,
+        contentType: file.type || undefined,
+      });
+      if (uploadRes.error) throw uploadRes.error;
+
+      row.file_name = file.name;
+      row.mime_type = file.type || null;
+      row.size_bytes = file.size;
+      row.storage_path = objectName;
+    }
+
+    // The table trigger puts resubmitted items back to SUBMITTED and clears the previous review.
+    const { data, error } = await supabase
+      .from("dealer_onboarding_items")
+      .upsert(row, { onConflict: "applicant_user_id,item_key" })
+      .select("*")
+      .single();
+    if (error) throw error;
+    return toOnboardingItem(data as OnboardingItemRow);
+  },
+
+  async review(id: string, input: ReviewOnboardingItemInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const lookup = await supabase.from("dealer_onboarding_items").select("item_key").eq("id", id).single();
+    if (lookup.error) throw lookup.error;
+
+    const problem = onboardingReviewProblem((lookup.data as { item_key: OnboardingItemKey }).item_key, input);
+    if (problem) throw new Error(problem);
+
+    const patch: Record<string, unknown> = {
+      status: input.status,
+      review_note: (input.note ?? "").trim() || null,
+    };
+    if (input.status === "VERIFIED") patch.expires_on = (input.expiresOn ?? "").trim() || null;
+
+    const { data, error } = await supabase.from("dealer_onboarding_items").update(patch).eq("id", id).select("*").single();
+    if (error) throw error;
+    return toOnboardingItem(data as OnboardingItemRow);
+  },
+
+  async getDownloadUrl(item: OnboardingItem) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+    if (!item.storagePath) throw new Error("Document storage path missing");
+
+    const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(item.storagePath, 60 * 5);
+    if (error) throw error;
+
+    return data.signedUrl;
+  },
+};
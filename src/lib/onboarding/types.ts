@@ -0,0 +1,41 @@
+export type OnboardingItemKey = "REGULATOR_REGISTRATION" | "BUSINESS_NUMBER" | "INSURANCE_CERTIFICATE" | "VOID_CHEQUE";
+
+export type OnboardingReviewStatus = "SUBMITTED" | "VERIFIED" | "REJECTED";
+
+// What the checklist shows: stored review status plus the derived MISSING / EXPIRED states.
+export type OnboardingItemState = "MISSING" | OnboardingReviewStatus | "EXPIRED";
+
+export type OnboardingItem = {
+  id: string;
+  applicantUserId: string;
+  key: OnboardingItemKey;
+  // Registration / business number typed by the dealer.
+  value?: string;
+  fileName?: string;
+  mimeType?: string;
+  sizeBytes?: number;
+  storagePath?: string;
+  dataUrl?: string;
+  status: OnboardingReviewStatus;
+  // Set by the admin when verifying; YYYY-MM-DD.
+  expiresOn?: string;
+  reviewNote?: string;
+  reviewedAt?: string;
+  reviewedByEmail?: string;
+  submittedAt: string;
+  updatedAt: string;
+};
+
+export type SubmitOnboardingItemInput = {
+  key: OnboardingItemKey;
+  value?: string;
+  file?: File | null;
+};
+
+export type ReviewOnboardingItemInput = {
+  status: "VERIFIED" | "REJECTED";
+  expiresOn?: string | null;
+  note?: string | null;
+  // Local mode only; Supabase takes the reviewer from the session.
+  reviewerEmail?: string;
+};
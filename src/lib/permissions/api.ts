@@ -0,0 +1,17 @@
+import type {
+  AssignRoleTemplateInput,
+  Permission,
+  PermissionScope,
+  RoleTemplate,
+  RoleTemplateAssignment,
+  SaveRoleTemplateInput,
+} from "./types";
+
+export interface PermissionsApi {
+  listTemplates(scope: PermissionScope, ownerId: string): Promise<RoleTemplate[]>;
+  saveTemplate(input: SaveRoleTemplateInput): Promise<RoleTemplate>;
+  deleteTemplate(id: string): Promise<void>;
+  listAssignments(scope: PermissionScope, ownerId: string): Promise<RoleTemplateAssignment[]>;
+  assignTemplate(input: AssignRoleTemplateInput): Promise<void>;
+  getMyPermissions(): Promise<Permission[]>;
+}
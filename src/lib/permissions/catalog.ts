@@ -0,0 +1,147 @@
+import type { AuthUser, Role } from "../auth/types";
+import type { TeamMemberRole } from "../team/types";
+
+import type { Permission, PermissionDefinition, PermissionScope, RoleTemplate } from "./types";
+
+export const PERMISSION_DEFINITIONS: PermissionDefinition[] = [
+  { key: "contracts.view", label: "View contracts", description: "See contracts and their documents.", scopes: ["DEALERSHIP", "PROVIDER"] },
+  { key: "contracts.create", label: "Sell contracts", description: "Start and sell new contracts.", scopes: ["DEALERSHIP"] },
+  { key: "contracts.edit", label: "Edit contracts", description: "Change customer, vehicle and pricing details.", scopes: ["DEALERSHIP"] },
+  { key: "contracts.void", label: "Void & cancel contracts", description: "Delete drafts and cancel sold contracts.", scopes: ["DEALERSHIP"] },
+  { key: "pricing.view_cost", label: "See dealer cost", description: "See dealer cost and margins, not just retail prices.", scopes: ["DEALERSHIP"] },
+  { key: "pricing.manage", label: "Manage pricing", description: "Set markups, retail prices and rate cards.", scopes: ["DEALERSHIP", "PROVIDER"] },
+  { key: "remittances.view", label: "View remittances", description: "See remittance batches and payments.", scopes: ["DEALERSHIP", "PROVIDER"] },
+  { key: "remittances.submit", label: "Submit remittances", description: "Batch sold contracts and submit them for payment.", scopes: ["DEALERSHIP"] },
+  { key: "reports.view", label: "View reports", description: "Open reporting and analytics.", scopes: ["DEALERSHIP", "PROVIDER"] },
+  { key: "team.manage", label: "Manage team", description: "Add staff and assign their roles.", scopes: ["DEALERSHIP", "PROVIDER"] },
+  { key: "products.manage", label: "Manage products", description: "Create, edit and publish products.", scopes: ["PROVIDER"] },
+  { key: "claims.manage", label: "Adjudicate claims", description: "Review and decide claims.", scopes: ["PROVIDER"] },
+];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSION_DEFINITIONS.map((d) => d.key);
+
+export function permissionsForScope(scope: PermissionScope): Permission[] {
+  return PERMISSION_DEFINITIONS.filter((d) => d.scopes.includes(scope)).map((d) => d.key);
+}
+
+export function permissionLabel(p: Permission) {
+  return PERMISSION_DEFINITIONS.find((d) => d.key === p)?.label ?? p;
+}
+
+export function isPermission(v: unknown): v is Permission {
+  return typeof v === "string" && (ALL_PERMISSIONS as string[]).includes(v);
+}
+
+// Keep in step with the role_templates seed in the permissions migration.
+export const BUILT_IN_ROLE_TEMPLATES: RoleTemplate[] = [
+  {
+    id: "builtin:dealership_admin",
+    key: "dealership_admin",
+    scope: "DEALERSHIP",
+    name: "Dealership admin",
+    description: "Full access to the dealership.",
+    permissions: permissionsForScope("DEALERSHIP"),
+    builtIn: true,
+  },
+  {
+    id: "builtin:dealership_employee",
+    key: "dealership_employee",
+    scope: "DEALERSHIP",
+    name: "Employee",
+    description: "Sells and remits contracts; cannot change pricing or the team.",
+    permissions: ["contracts.view", "contracts.create", "contracts.edit", "contracts.void", "pricing.view_cost", "remittances.view", "remittances.submit", "reports.view"],
+    builtIn: true,
+  },
+  {
+    id: "builtin:dealership_salesperson",
+    key: "dealership_salesperson",
+    scope: "DEALERSHIP",
+    name: "Salesperson",
+    description: "Sells contracts at retail without seeing dealer cost.",
+    permissions: ["contracts.view", "contracts.create", "contracts.edit"],
+    builtIn: true,
+  },
+  {
+    id: "builtin:provider_admin",
+    key: "provider_admin",
+    scope: "PROVIDER",
+    name: "Provider admin",
+    description: "Full access to the provider portal.",
+    permissions: permissionsForScope("PROVIDER"),
+    builtIn: true,
+  },
+  {
+    id: "builtin:provider_product_manager",
+    key: "provider_product_manager",
+    scope: "PROVIDER",
+    name: "Product manager",
+    description: "Manages products and pricing.",
+    permissions: ["products.manage", "pricing.manage", "contracts.view", "reports.view"],
+    builtIn: true,
+  },
+  {
+    id: "builtin:provider_support",
+    key: "provider_support",
+    scope: "PROVIDER",
+    name: "Support",
+    description: "Looks up contracts and handles claims.",
+    permissions: ["contracts.view", "claims.manage", "remittances.view"],
+    builtIn: true,
+  },
+];
+
+export const TEAM_MEMBER_ROLE_TEMPLATE_KEYS: Record<TeamMemberRole, string> = {
+  ADMIN: "provider_admin",
+  PRODUCT_MANAGER: "provider_product_manager",
+  SUPPORT: "provider_support",
+};
+
+export function builtInTemplate(key: string) {
+  return BUILT_IN_ROLE_TEMPLATES.find((t) => t.key === key);
+}
+
+function defaultTemplateKeyForRole(role: Role) {
+  if (role === "DEALER_ADMIN") return "dealership_admin";
+  if (role === "DEALER_EMPLOYEE") return "dealership_employee";
+  if (role === "PROVIDER") return "provider_admin";
+  return null;
+}
+
+// Platform admins get everything and dealership admins always keep full access, so a
+// template can only narrow what an employee or provider team member can do.
+export function resolvePermissions(role: Role, template?: Pick<RoleTemplate, "permissions"> | null): Permission[] {
+  if (role === "ADMIN" || role === "SUPER_ADMIN") return [...ALL_PERMISSIONS];
+  if (role === "DEALER_ADMIN") return builtInTemplate("dealership_admin")?.permissions ?? [];
+
+  const fallbackKey = defaultTemplateKeyForRole(role);
+  if (!fallbackKey) return [];
+
+  const scope = role === "PROVIDER" ? "PROVIDER" : "DEALERSHIP";
+  const allowed = permissionsForScope(scope);
+  const source = template?.permissions ?? builtInTemplate(fallbackKey)?.permissions ?? [];
+  return source.filter((p) => allowed.includes(p));
+}
+
+export function userPermissions(user: Pick<AuthUser, "role" | "permissions"> | null | undefined): Permission[] {
+  if (!user) return [];
+  if (user.role === "ADMIN" || user.role === "SUPER_ADMIN") return [...ALL_PERMISSIONS];
+  return user.permissions ?? resolvePermissions(user.role);
+}
+
+export function hasPermission(user: Pick<AuthUser, "role" | "permissions"> | null | undefined, permission: Permission) {
+  return userPermissions(user).includes(permission);
+}
+
+export function hasAllPermissions(user: Pick<AuthUser, "role" | "permissions"> | null | undefined, permissions: Permission[]) {
+  const granted = userPermissions(user);
+  return permissions.every((p) => granted.includes(p));
+}
+
+export function roleTemplateProblem(input: { name: string; permissions: Permission[] }, scope: PermissionScope) {
+  if (!input.name.trim()) return "Template name is required";
+  if (input.permissions.length === 0) return "Choose at least one permission";
+  const allowed = permissionsForScope(scope);
+  const invalid = input.permissions.find((p) => !allowed.includes(p));
+  if (invalid) return `${permissionLabel(invalid)} is not available for this team`;
+  return null;
+}
@@ -0,0 +1,177 @@
+import type { Role } from "../auth/types";
+
+import type { PermissionsApi } from "./api";
+import { BUILT_IN_ROLE_TEMPLATES, isPermission, resolvePermissions, roleTemplateProblem } from "./catalog";
+import type {
+  AssignRoleTemplateInput,
+  PermissionScope,
+  RoleTemplate,
+  RoleTemplateAssignment,
+  SaveRoleTemplateInput,
+} from "./types";
+
+const TEMPLATES_KEY = "warrantyhub.local.role_templates";
+const ASSIGNMENTS_KEY = "warrantyhub.local.role_template_assignments";
+const USERS_KEY = "warrantyhub.local.users";
+const DEV_BYPASS_KEY = "warrantyhub.dev.bypass_user";
+
+type StoredAssignment = RoleTemplateAssignment & { scope: PermissionScope; ownerId: string };
+
+function readDevBypassUser(): { id: string; role: Role } | null {
+  if (!import.meta.env.DEV) return null;
+  const raw = localStorage.getItem(DEV_BYPASS_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as { id?: string; role?: Role };
+    return typeof parsed.id === "string" && typeof parsed.role === "string" ? { id: parsed.id, role: parsed.role } : null;
+  } catch {
+    return null;
+  }
+}
+
+function readLocalSessionUserId(): string | null {
+  const raw = localStorage.getItem("warrantyhub.local.session");
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as { userId?: string };
+    return typeof parsed.userId === "string" ? parsed.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+function readUserRole(userId: string): Role {
+  const raw = localStorage.getItem(USERS_KEY);
+  if (!raw) return "UNASSIGNED";
+  try {
+    const users = JSON.parse(raw) as { id?: string; role?: string }[];
+    const role = users.find((u) => u?.id === userId)?.role;
+    if (role === "DEALER") return "DEALER_ADMIN";
+    return (role ?? "UNASSIGNED") as Role;
+  } catch {
+    return "UNASSIGNED";
+  }
+}
+
+function currentUser(): { id: string; role: Role } {
+  const bypass = readDevBypassUser();
+  if (bypass) return bypass;
+  const id = readLocalSessionUserId();
+  if (!id) throw new Error("Not authenticated");
+  return { id, role: readUserRole(id) };
+}
+
+function readTemplates(): RoleTemplate[] {
+  const raw = localStorage.getItem(TEMPLATES_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<RoleTemplate>[];
+    return (Array.isArray(parsed) ? parsed : [])
+      .filter((t) => typeof t?.id === "string" && typeof t?.name === "string")
+      .map((t) => ({
+        id: t.id as string,
+        scope: t.scope === "PROVIDER" ? "PROVIDER" : "DEALERSHIP",
+        ownerId: typeof t.ownerId === "string" ? t.ownerId : undefined,
+        name: t.name as string,
+        description: typeof t.description === "string" ? t.description : undefined,
+        permissions: (Array.isArray(t.permissions) ? t.permissions : []).filter(isPermission),
+        builtIn: false,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+function writeTemplates(items: RoleTemplate[]) {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(items));
+}
+
+function readAssignments(): StoredAssignment[] {
+  const raw = localStorage.getItem(ASSIGNMENTS_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as StoredAssignment[];
+    return Array.isArray(parsed) ? parsed.filter((a) => typeof a?.userId === "string" && typeof a?.ownerId === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeAssignments(items: StoredAssignment[]) {
+  localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify(items));
+}
+
+function findTemplate(id: string | null | undefined) {
+  if (!id) return undefined;
+  return BUILT_IN_ROLE_TEMPLATES.find((t) => t.id === id) ?? readTemplates().find((t) => t.id === id);
+}
+
+export function resolveLocalPermissions(userId: string, role: Role) {
+  const assignment = readAssignments().find((a) => a.userId === userId);
+  return resolvePermissions(role, findTemplate(assignment?.templateId));
+}
+
+function assertCanManageTeam() {
+  const me = currentUser();
+  if (!resolveLocalPermissions(me.id, me.role).includes("team.manage")) throw new Error("Not authorized");
+}
+
+export const localPermissionsApi: PermissionsApi = {
+  async listTemplates(scope: PermissionScope, ownerId: string) {
+    const custom = readTemplates().filter((t) => t.scope === scope && t.ownerId === ownerId);
+    return [...BUILT_IN_ROLE_TEMPLATES.filter((t) => t.scope === scope), ...custom.sort((a, b) => a.name.localeCompare(b.name))];
+  },
+
+  async saveTemplate(input: SaveRoleTemplateInput) {
+    assertCanManageTeam();
+    const problem = roleTemplateProblem(input, input.scope);
+    if (problem) throw new Error(problem);
+
+    const items = readTemplates();
+    const existing = input.id ? items.find((t) => t.id === input.id) : undefined;
+    if (input.id && !existing) throw new Error("Role template not found");
+
+    const next: RoleTemplate = {
+      id: existing?.id ?? crypto.randomUUID(),
+      scope: input.scope,
+      ownerId: input.ownerId,
+      name: input.name.trim(),
+      description: (input.description ?? "").trim() || undefined,
+      permissions: [...new Set(input.permissions)],
+      builtIn: false,
+    };
+
+    writeTemplates([next, ...items.filter((t) => t.id !== next.id)]);
+    return next;
+  },
+
+  async deleteTemplate(id: string) {
+    assertCanManageTeam();
+    if (BUILT_IN_ROLE_TEMPLATES.some((t) => t.id === id)) throw new Error("Built-in templates cannot be deleted");
+    if (readAssignments().some((a) => a.templateId === id)) throw new Error("Reassign team members before deleting this template");
+    writeTemplates(readTemplates().filter((t) => t.id !== id));
+  },
+
+  async listAssignments(scope: PermissionScope, ownerId: string) {
+    return readAssignments()
+      .filter((a) => a.scope === scope && a.ownerId === ownerId)
+      .map((a) => ({ userId: a.userId, templateId: a.templateId }));
+  },
+
+  async assignTemplate(input: AssignRoleTemplateInput) {
+    assertCanManageTeam();
+    const template = findTemplate(input.templateId);
+    if (input.templateId && !template) throw new Error("Role template not found");
+    if (template && (template.scope !== input.scope || (!template.builtIn && template.ownerId !== input.ownerId))) {
+      throw new Error("Role template belongs to a different team");
+    }
+
+    const rest = readAssignments().filter((a) => !(a.userId === input.userId && a.scope === input.scope && a.ownerId === input.ownerId));
+    writeAssignments(input.templateId ? [...rest, { ...input, templateId: input.templateId }] : rest);
+  },
+
+  async getMyPermissions() {
+    const me = currentUser();
+    return resolveLocalPermissions(me.id, me.role);
+  },
+};
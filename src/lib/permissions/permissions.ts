@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { PermissionsApi } from "./api";
+import { localPermissionsApi } from "./localPermissions";
+import { supabasePermissionsApi } from "./supabasePermissions";
+
+export function getPermissionsApi(): PermissionsApi {
+  return getAppMode() === "supabase" ? supabasePermissionsApi : localPermissionsApi;
+}
@@ -0,0 +1,127 @@
+import { getSupabaseClient } from "../supabase/client";
+
+import type { PermissionsApi } from "./api";
+import { isPermission, roleTemplateProblem } from "./catalog";
+import type {
+  AssignRoleTemplateInput,
+  PermissionScope,
+  RoleTemplate,
+  SaveRoleTemplateInput,
+} from "./types";
+
+type RoleTemplateRow = {
+  id: string;
+  key?: string | null;
+  scope: PermissionScope;
+  dealership_id?: string | null;
+  provider_id?: string | null;
+  name: string;
+  description?: string | null;
+  permissions?: string[] | null;
+};
+
+function toRoleTemplate(r: RoleTemplateRow): RoleTemplate {
+  return {
+    id: r.id,
+    key: r.key ?? undefined,
+    scope: r.scope,
+    ownerId: (r.scope === "PROVIDER" ? r.provider_id : r.dealership_id) ?? undefined,
+    name: r.name,
+    description: r.description ?? undefined,
+    permissions: (r.permissions ?? []).filter(isPermission),
+    builtIn: Boolean(r.key),
+  };
+}
+
+function ownerColumn(scope: PermissionScope) {
+  return scope === "PROVIDER" ? "provider_id" : "dealership_id";
+}
+
+function memberTable(scope: PermissionScope) {
+  return scope === "PROVIDER" ? "provider_members" : "dealership_members";
+}
+
+export const supabasePermissionsApi: PermissionsApi = {
+  async listTemplates(scope: PermissionScope, ownerId: string) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("role_templates")
+      .select("*")
+      .eq("scope", scope)
+      .or(`key.not.is.null,${ownerColumn(scope)}.eq.${ownerId}`)
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+
+    const templates = ((data ?? []) as RoleTemplateRow[]).map(toRoleTemplate);
+    return [...templates.filter((t) => t.builtIn), ...templates.filter((t) => !t.builtIn).sort((a, b) => a.name.localeCompare(b.name))];
+  },
+
+  async saveTemplate(input: SaveRoleTemplateInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const problem = roleTemplateProblem(input, input.scope);
+    if (problem) throw new Error(problem);
+
+    const row = {
+      scope: input.scope,
+      [ownerColumn(input.scope)]: input.ownerId,
+      name: input.name.trim(),
+      description: (input.description ?? "").trim() || null,
+      permissions: [...new Set(input.permissions)],
+    };
+
+    const { data, error } = input.id
+      ? await supabase.from("role_templates").update(row).eq("id", input.id).is("key", null).select("*").single()
+      : await supabase.from("role_templates").insert(row).select("*").single();
+    if (error) throw error;
+    return toRoleTemplate(data as RoleTemplateRow);
+  },
+
+  async deleteTemplate(id: string) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { error } = await supabase.from("role_templates").delete().eq("id", id).is("key", null);
+    if (error) throw error;
+  },
+
+  async listAssignments(scope: PermissionScope, ownerId: string) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from(memberTable(scope))
+      .select("user_id, role_template_id")
+      .eq(ownerColumn(scope), ownerId);
+    if (error) throw error;
+
+    return ((data ?? []) as { user_id: string; role_template_id?: string | null }[]).map((r) => ({
+      userId: r.user_id,
+      templateId: r.role_template_id ?? null,
+    }));
+  },
+
+  async assignTemplate(input: AssignRoleTemplateInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { error } = await supabase
+      .from(memberTable(input.scope))
+      .update({ role_template_id: input.templateId })
+      .eq(ownerColumn(input.scope), input.ownerId)
+      .eq("user_id", input.userId);
+    if (error) throw error;
+  },
+
+  async getMyPermissions() {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase.rpc("current_user_permissions");
+    if (error) throw error;
+    return ((data ?? []) as string[]).filter(isPermission);
+  },
+};
@@ -0,0 +1,55 @@
+export type Permission =
+  | "contracts.view"
+  | "contracts.create"
+  | "contracts.edit"
+  | "contracts.void"
+  | "pricing.view_cost"
+  | "pricing.manage"
+  | "remittances.view"
+  | "remittances.submit"
+  | "reports.view"
+  | "team.manage"
+  | "products.manage"
+  | "claims.manage";
+
+export type PermissionScope = "DEALERSHIP" | "PROVIDER";
+
+export type PermissionDefinition = {
+  key: Permission;
+  label: string;
+  description: string;
+  scopes: PermissionScope[];
+};
+
+export type RoleTemplate = {
+  id: string;
+  scope: PermissionScope;
+  // Dealership or provider the template belongs to; built-in templates have none.
+  ownerId?: string;
+  key?: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  builtIn: boolean;
+};
+
+export type SaveRoleTemplateInput = {
+  id?: string;
+  scope: PermissionScope;
+  ownerId: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+};
+
+export type RoleTemplateAssignment = {
+  userId: string;
+  templateId: string | null;
+};
+
+export type AssignRoleTemplateInput = {
+  scope: PermissionScope;
+  ownerId: string;
+  userId: string;
+  templateId: string | null;
+};
@@ -1,7 +1,17 @@
-import type { CreateProductPricingInput, ProductPricing } from "./types";
+import type {
+  CreateProductPricingInput,
+  CreateProductPricingVersionInput,
+  ProductPricing,
+  ProductPricingVersion,
+} from "./types";
 
 export type ListProductPricingOptions = {
   productId: string;
+  // Rows of one rate card version (null: rows saved before versioning). Omit for the card in effect at `asOf`.
+  versionId?: string | null;
+  asOf?: string;
+  // Every row across versions, for bookkeeping that must not drop older rate cards.
+  allVersions?: boolean;
 };
 
 export interface ProductPricingApi {
@@ -9,6 +19,10 @@ export interface ProductPricingApi {
   listAll(): Promise<ProductPricing[]>;
   create(input: CreateProductPricingInput): Promise<ProductPricing>;
   remove(id: string): Promise<void>;
+  listVersions(productId: string): Promise<ProductPricingVersion[]>;
+  createVersion(input: CreateProductPricingVersionInput): Promise<ProductPricingVersion>;
+  publishVersion(id: string): Promise<ProductPricingVersion>;
+  removeVersion(id: string): Promise<void>;
 }
 
-export type { CreateProductPricingInput, ProductPricing };
+export type { CreateProductPricingInput, CreateProductPricingVersionInput, ProductPricing, ProductPricingVersion };
@@ -1,3 +1,5 @@
+import { sameVehicleClass } from "../products/vehicleClass";
+
 import type { ProductPricing } from "./types";
 
 type VehicleClass = string | null | undefined;
@@ -49,7 +51,7 @@ export function isPricingEligibleForVehicle(input: {
   if (reqClass) {
     const vClass = (input.vehicleClass ?? "").trim();
     if (!vClass) return false;
-    if (vClass !== reqClass) return false;
+    if (!sameVehicleClass(vClass, reqClass)) return false;
   }
 
   return true;
@@ -0,0 +1,82 @@
+import { defaultPricingRow } from "./defaultRow";
+import type { ProductPricing } from "./types";
+
+export function pricingUniqKey(r: {
+  termMonths: number | null;
+  termKm: number | null;
+  vehicleMileageMinKm?: number;
+  vehicleMileageMaxKm?: number | null;
+  vehicleClass?: string;
+  deductibleCents: number;
+  claimLimitCents?: number;
+  loanAmountMinCents?: number;
+  loanAmountMaxCents?: number;
+  financeTermMonths?: number;
+}) {
+  const termMonths = r.termMonths;
+  const termKm = r.termKm;
+  const mileageMin = typeof r.vehicleMileageMinKm === "number" ? r.vehicleMileageMinKm : null;
+  const mileageMax = r.vehicleMileageMaxKm === null ? null : typeof r.vehicleMileageMaxKm === "number" ? r.vehicleMileageMaxKm : null;
+  const vehicleClass = typeof r.vehicleClass === "string" && r.vehicleClass.trim() ? r.vehicleClass.trim() : null;
+  const claimLimit = typeof r.claimLimitCents === "number" ? r.claimLimitCents : null;
+  const loanAmountMin = typeof r.loanAmountMinCents === "number" ? r.loanAmountMinCents : null;
+  const loanAmountMax = typeof r.loanAmountMaxCents === "number" ? r.loanAmountMaxCents : null;
+  const financeTermMonths = typeof r.financeTermMonths === "number" ? r.financeTermMonths : null;
+  return JSON.stringify([
+    termMonths,
+    termKm,
+    mileageMin,
+    mileageMax,
+    vehicleClass,
+    r.deductibleCents,
+    claimLimit,
+    loanAmountMin,
+    loanAmountMax,
+    financeTermMonths,
+  ]);
+}
+
+export function validatePricingHealth(rows: ProductPricing[]) {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return { ok: false, reason: "Published products require at least one valid pricing row.", primary: null as ProductPricing | null };
+  }
+
+  const defaults = rows.filter((r) => r.isDefault);
+  if (defaults.length !== 1) {
+    return { ok: false, reason: "Exactly one default pricing row is required.", primary: defaultPricingRow(rows) };
+  }
+
+  const seen = new Set<string>();
+  for (const r of rows) {
+    const key = pricingUniqKey(r);
+    if (seen.has(key)) {
+      return { ok: false, reason: "Duplicate pricing variants detected.", primary: defaultPricingRow(rows) };
+    }
+    seen.add(key);
+
+    if (r.termMonths !== null && (!Number.isFinite(r.termMonths) || r.termMonths <= 0)) {
+      return { ok: false, reason: "Invalid unlimited usage.", primary: defaultPricingRow(rows) };
+    }
+    if (r.termKm !== null && (!Number.isFinite(r.termKm) || r.termKm <= 0)) {
+      return { ok: false, reason: "Invalid unlimited usage.", primary: defaultPricingRow(rows) };
+    }
+
+    if (!Number.isFinite(r.basePriceCents) || r.basePriceCents <= 0) {
+      return { ok: false, reason: "Missing required fields.", primary: defaultPricingRow(rows) };
+    }
+    if (!Number.isFinite(r.deductibleCents) || r.deductibleCents < 0) {
+      return { ok: false, reason: "Missing required fields.", primary: defaultPricingRow(rows) };
+    }
+    if (typeof r.vehicleMileageMinKm === "number" && r.vehicleMileageMinKm < 0) {
+      return { ok: false, reason: "Invalid mileage bands.", primary: defaultPricingRow(rows) };
+    }
+    if (typeof r.vehicleMileageMaxKm === "number" && r.vehicleMileageMaxKm < 0) {
+      return { ok: false, reason: "Invalid mileage bands.", primary: defaultPricingRow(rows) };
+    }
+    if (typeof r.vehicleMileageMinKm === "number" && typeof r.vehicleMileageMaxKm === "number" && r.vehicleMileageMaxKm < r.vehicleMileageMinKm) {
+      return { ok: false, reason: "Invalid mileage bands.", primary: defaultPricingRow(rows) };
+    }
+  }
+
+  return { ok: true, reason: null as string | null, primary: defaults[0] ?? defaultPricingRow(rows) };
+}
@@ -1,7 +1,9 @@
 import type { ProductPricingApi, ListProductPricingOptions } from "./api";
-import type { CreateProductPricingInput, ProductPricing } from "./types";
+import type { CreateProductPricingInput, CreateProductPricingVersionInput, ProductPricing, ProductPricingVersion } from "./types";
+import { isValidPricingDate, planPricingVersionPublish, pricingDateKey, pricingRowsInEffect } from "./versions";
 
 const STORAGE_KEY = "warrantyhub.local.product_pricing";
+const VERSIONS_KEY = "warrantyhub.local.product_pricing_versions";
 const DEV_BYPASS_KEY = "warrantyhub.dev.bypass_user";
 const USERS_KEY = "warrantyhub.local.users";
 
@@ -67,6 +69,7 @@ function read(): ProductPricing[] {
           id,
           providerId,
           productId,
+          versionId: typeof r.versionId === "string" && r.versionId.trim() ? r.versionId : undefined,
           termMonths: typeof r.termMonths === "number" ? r.termMonths : null,
           termKm: typeof r.termKm === "number" ? r.termKm : null,
           isDefault: (r as any).isDefault === true,
@@ -102,15 +105,74 @@ function write(items: ProductPricing[]) {
   localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
 }
 
+function readVersions(): ProductPricingVersion[] {
+  const raw = localStorage.getItem(VERSIONS_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<ProductPricingVersion>[];
+    return parsed
+      .map((v): ProductPricingVersion => {
+        const createdAt = v.createdAt ?? new Date().toISOString();
+        const effectiveFrom = isValidPricingDate(v.effectiveFrom) ? v.effectiveFrom : createdAt.slice(0, 10);
+        return {
+          id: v.id ?? crypto.randomUUID(),
+          providerId: v.providerId ?? "",
+          productId: v.productId ?? "",
+          label: (v.label ?? "").toString() || `Rate card from ${effectiveFrom}`,
+          status: v.status === "PUBLISHED" ? "PUBLISHED" : "DRAFT",
+          effectiveFrom,
+          effectiveTo: isValidPricingDate(v.effectiveTo) ? v.effectiveTo : null,
+          publishedAt: typeof v.publishedAt === "string" ? v.publishedAt : undefined,
+          createdAt,
+        };
+      })
+      .filter((v) => v.providerId.trim() && v.productId.trim());
+  } catch {
+    return [];
+  }
+}
+
+function writeVersions(items: ProductPricingVersion[]) {
+  localStorage.setItem(VERSIONS_KEY, JSON.stringify(items));
+}
+
+function inEffectForEachProduct(rows: ProductPricing[], asOf?: string) {
+  const versions = readVersions();
+  const productIds = Array.from(new Set(rows.map((r) => r.productId)));
+  return productIds.flatMap((productId) =>
+    pricingRowsInEffect(
+      rows.filter((r) => r.productId === productId),
+      versions.filter((v) => v.productId === productId),
+      asOf,
+    ),
+  );
+}
+
+function assertVersionEditable(versionId: string | undefined, uid: string) {
+  if (!versionId) return;
+  const version = readVersions().find((v) => v.id === versionId);
+  if (!version) throw new Error("Rate card version not found");
+  if (version.providerId !== uid) throw new Error("Not authorized");
+  if (version.status !== "DRAFT") throw new Error("Published rate cards can't be changed. Start a new draft instead.");
+}
+
 export const localProductPricingApi: ProductPricingApi = {
   async list(options: ListProductPricingOptions) {
     const uid = currentUserId();
     const role = (currentUserRole() ?? "").toString().trim().toUpperCase();
     const productId = options.productId;
 
-    return read()
+    const rows = read()
       .filter((r) => r.productId === productId)
-      .filter((r) => (role === "PROVIDER" ? r.providerId === uid : true))
+      .filter((r) => (role === "PROVIDER" ? r.providerId === uid : true));
+
+    const scoped = options.allVersions
+      ? rows
+      : options.versionId !== undefined
+        ? rows.filter((r) => (r.versionId ?? null) === options.versionId)
+        : inEffectForEachProduct(rows, options.asOf);
+
+    return scoped
       .sort((a, b) => {
         const ad = a.isDefault ? 1 : 0;
         const bd = b.isDefault ? 1 : 0;
@@ -124,8 +186,7 @@ export const localProductPricingApi: ProductPricingApi = {
     const uid = currentUserId();
     const role = (currentUserRole() ?? "").toString().trim().toUpperCase();
 
-    return read()
-      .filter((r) => (role === "PROVIDER" ? r.providerId === uid : true))
+    return inEffectForEachProduct(read().filter((r) => (role === "PROVIDER" ? r.providerId === uid : true)))
       .sort((a, b) => {
         const ad = a.isDefault ? 1 : 0;
         const bd = b.isDefault ? 1 : 0;
@@ -140,6 +201,7 @@ export const localProductPricingApi: ProductPricingApi = {
     const now = new Date().toISOString();
 
     if (!input.productId.trim()) throw new Error("productId is required");
+    assertVersionEditable(input.versionId, uid);
     if (input.termMonths !== null && (!Number.isFinite(input.termMonths) || input.termMonths <= 0)) {
       throw new Error("termMonths must be null (Unlimited) or a positive number");
     }
@@ -193,6 +255,7 @@ export const localProductPricingApi: ProductPricingApi = {
       id: crypto.randomUUID(),
       providerId: uid,
       productId: input.productId,
+      versionId: input.versionId,
       termMonths: input.termMonths,
       termKm: input.termKm,
       isDefault: input.isDefault === true,
@@ -221,7 +284,9 @@ export const localProductPricingApi: ProductPricingApi = {
     const existing = read();
     const next =
       item.isDefault === true
-        ? existing.map((r) => (r.productId === item.productId && r.providerId === uid ? { ...r, isDefault: false } : r))
+        ? existing.map((r) =>
+            r.productId === item.productId && r.providerId === uid && r.versionId === item.versionId ? { ...r, isDefault: false } : r,
+          )
         : existing;
 
     write([item, ...next]);
@@ -234,7 +299,92 @@ export const localProductPricingApi: ProductPricingApi = {
     const current = items.find((r) => r.id === id);
     if (!current) return;
     if (current.providerId !== uid) throw new Error("Not authorized");
+    assertVersionEditable(current.versionId, uid);
 
     write(items.filter((r) => r.id !== id));
   },
+
+  async listVersions(productId: string) {
+    const uid = currentUserId();
+    const role = (currentUserRole() ?? "").toString().trim().toUpperCase();
+
+    return readVersions()
+      .filter((v) => v.productId === productId)
+      .filter((v) => (role === "PROVIDER" ? v.providerId === uid : v.status === "PUBLISHED"))
+      .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || b.createdAt.localeCompare(a.createdAt));
+  },
+
+  async createVersion(input: CreateProductPricingVersionInput) {
+    const uid = currentUserId();
+    const now = new Date().toISOString();
+
+    if (!input.productId.trim()) throw new Error("productId is required");
+    if (!isValidPricingDate(input.effectiveFrom)) throw new Error("effectiveFrom must be a date (YYYY-MM-DD)");
+    if (input.effectiveTo !== undefined && input.effectiveTo !== null && !isValidPricingDate(input.effectiveTo)) {
+      throw new Error("effectiveTo must be a date (YYYY-MM-DD) or empty");
+    }
+
+    const version: ProductPricingVersion = {
+      id: crypto.randomUUID(),
+      providerId: uid,
+      productId: input.productId,
+      label: (input.label ?? "").trim() || `Rate card from ${input.effectiveFrom}`,
+      status: "DRAFT",
+      effectiveFrom: input.effectiveFrom,
+      effectiveTo: input.effectiveTo ?? null,
+      createdAt: now,
+    };
+
+    const rows = read().filter((r) => r.productId === input.productId && r.providerId === uid);
+    const source =
+      input.copyFromVersionId === null
+        ? []
+        : input.copyFromVersionId !== undefined
+          ? rows.filter((r) => r.versionId === input.copyFromVersionId)
+          : inEffectForEachProduct(rows);
+    const copies = source.map((r): ProductPricing => ({ ...r, id: crypto.randomUUID(), versionId: version.id, createdAt: now }));
+
+    writeVersions([version, ...readVersions()]);
+    write([...copies, ...read()]);
+    return version;
+  },
+
+  async publishVersion(id: string) {
+    const uid = currentUserId();
+    const versions = readVersions();
+    const target = versions.find((v) => v.id === id);
+    if (!target) throw new Error("Rate card version not found");
+    if (target.providerId !== uid) throw new Error("Not authorized");
+    if (!read().some((r) => r.versionId === id)) throw new Error("Add at least one pricing row before publishing");
+
+    const plan = planPricingVersionPublish(versions, target, pricingDateKey());
+    const truncated = new Map(plan.truncate.map((t) => [t.id, t.effectiveTo] as const));
+    const published: ProductPricingVersion = {
+      ...target,
+      status: "PUBLISHED",
+      effectiveTo: plan.effectiveTo,
+      publishedAt: new Date().toISOString(),
+    };
+
+    writeVersions(
+      versions.map((v) => {
+        if (v.id === id) return published;
+        const effectiveTo = truncated.get(v.id);
+        return effectiveTo ? { ...v, effectiveTo } : v;
+      }),
+    );
+    return published;
+  },
+
+  async removeVersion(id: string) {
+    const uid = currentUserId();
+    const versions = readVersions();
+    const current = versions.find((v) => v.id === id);
+    if (!current) return;
+    if (current.providerId !== uid) throw new Error("Not authorized");
+    if (current.status !== "DRAFT") throw new Error("Published rate cards can't be deleted");
+
+    write(read().filter((r) => r.versionId !== id));
+    writeVersions(versions.filter((v) => v.id !== id));
+  },
 };
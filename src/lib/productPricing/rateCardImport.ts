@@ -0,0 +1,602 @@
+import type { AddonPricingType } from "../productAddons/types";
+import type { SheetRows } from "../spreadsheet";
+
+import { pricingUniqKey, validatePricingHealth } from "./health";
+import type { ClaimLimitType, CreateProductPricingInput, ProductPricing } from "./types";
+
+export type RateCardImportKind = "RATES" | "FINANCE" | "ADDONS";
+
+export type RateCardImportIssue = {
+  // 1-based spreadsheet row; 0 for problems with the sheet as a whole.
+  row: number;
+  severity: "error" | "warning";
+  message: string;
+};
+
+export type ImportedPricingRow = Omit<CreateProductPricingInput, "productId" | "versionId" | "isDefault"> & {
+  row: number;
+  isDefault: boolean;
+};
+
+export type ImportedAddonRow = {
+  row: number;
+  name: string;
+  description: string;
+  pricingType: AddonPricingType;
+  priceCents: number;
+  // Raw scope cells: blank or "ALL" for every term, otherwise months / km ("Unlimited" allowed).
+  termMonths: string;
+  termKm: string;
+};
+
+export type RateCardImport = {
+  kind: RateCardImportKind;
+  rows: ImportedPricingRow[];
+  addons: ImportedAddonRow[];
+  issues: RateCardImportIssue[];
+  health: ReturnType<typeof validatePricingHealth> | null;
+};
+
+export type RateCardDiffStatus = "ADDED" | "CHANGED" | "REMOVED" | "UNCHANGED";
+
+export type RateCardDiffLine = {
+  status: RateCardDiffStatus;
+  key: string;
+  label: string;
+  row: number | null;
+  before: string | null;
+  after: string | null;
+};
+
+export const FINANCE_TERM_MONTHS = [24, 36, 48, 60, 72, 84, 96] as const;
+
+export function normalizeClaimLimitTypeLabel(v: string | undefined): ClaimLimitType | undefined {
+  const t = (v ?? "").trim().toUpperCase();
+  if (!t) return undefined;
+  if (t === "PER_CLAIM" || t === "PER CLAIM") return "PER_CLAIM";
+  if (t === "TOTAL_COVERAGE" || t === "TOTAL COVERAGE") return "TOTAL_COVERAGE";
+  if (t === "FMV" || t === "FAIR MARKET VALUE") return "FMV";
+  if (t === "MAX_RETAIL" || t === "MAX RETAIL") return "MAX_RETAIL";
+  return undefined;
+}
+
+export function normalizeVehicleClassLabel(v: string | undefined): string {
+  const t = (v ?? "").trim().toUpperCase();
+  if (!t || t === "ALL" || t === "ALL CLASSES") return "ALL";
+  if (t === "CLASS_1" || t === "CLASS 1" || t === "1") return "CLASS_1";
+  if (t === "CLASS_2" || t === "CLASS 2" || t === "2") return "CLASS_2";
+  if (t === "CLASS_3" || t === "CLASS 3" || t === "3") return "CLASS_3";
+  if (t === "CLASS_4" || t === "CLASS 4" || t === "4") return "CLASS_4";
+  if (t === "CLASS_5" || t === "CLASS 5" || t === "5") return "CLASS_5";
+  return "ALL";
+}
+
+export function normalizeAddonPricingType(v: string | undefined): AddonPricingType {
+  const t = (v ?? "").trim().toUpperCase();
+  if (!t) return "FIXED";
+  if (t === "FIXED" || t === "1X" || t === "ONE_TIME" || t === "ONE TIME") return "FIXED";
+  if (t === "PER_TERM" || t === "PER TERM") return "PER_TERM";
+  if (t === "PER_CLAIM" || t === "PER CLAIM") return "PER_CLAIM";
+  return "FIXED";
+}
+
+function headerKey(h: string) {
+  return (h ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+const RATE_COLUMNS: Record<string, string[]> = {
+  termMonths: ["termmonths", "term", "months"],
+  termKm: ["termkm", "km", "termkilometers", "termkilometres"],
+  mileageMin: ["vehiclemileageminkm", "mileagemin", "mileageminkm", "minmileage", "odometermin", "kmmin"],
+  mileageMax: ["vehiclemileagemaxkm", "mileagemax", "mileagemaxkm", "maxmileage", "odometermax", "kmmax"],
+  vehicleClass: ["vehicleclass", "class"],
+  claimLimitType: ["claimlimittype"],
+  claimLimitAmount: ["claimlimitamount", "claimlimit"],
+  deductible: ["deductible"],
+  providerCost: ["providercost", "cost", "dealercost", "price"],
+  suggestedRetail: ["suggestedretail", "suggestedretailprice", "retail", "msrp"],
+  isDefault: ["default", "isdefault"],
+};
+
+const ADDON_COLUMNS: Record<string, string[]> = {
+  name: ["name", "addon", "addonname"],
+  description: ["description", "desc"],
+  pricingType: ["pricingtype", "type", "pricing"],
+  price: ["price", "amount", "dealerprice", "dealercost"],
+  termMonths: ["termmonths", "term", "months"],
+  termKm: ["termkm", "km", "termkilometers", "termkilometres"],
+};
+
+function columnMap(header: string[], aliases: Record<string, string[]>) {
+  const keys = header.map(headerKey);
+  const out: Record<string, number> = {};
+  for (const [field, names] of Object.entries(aliases)) {
+    const idx = keys.findIndex((k) => names.includes(k));
+    if (idx >= 0) out[field] = idx;
+  }
+  return out;
+}
+
+export function detectRateCardKind(header: string[]): RateCardImportKind | null {
+  const keys = header.map(headerKey);
+  if (keys.some((k) => k === "loanmin" || k === "loanamountmin")) return "FINANCE";
+  if (keys.some((k) => ADDON_COLUMNS.name!.includes(k))) return "ADDONS";
+  if (keys.some((k) => RATE_COLUMNS.termMonths!.includes(k)) && keys.some((k) => RATE_COLUMNS.providerCost!.includes(k))) {
+    return "RATES";
+  }
+  return null;
+}
+
+function isBlankRow(cells: string[] | undefined) {
+  return !cells || cells.every((c) => !(c ?? "").trim());
+}
+
+function isUnlimited(v: string) {
+  return /^(unlimited|unl)$/i.test(v.trim());
+}
+
+function parseWhole(v: string): number | null {
+  const t = v.replace(/[\s,]/g, "");
+  if (!/^\d+(\.0+)?$/.test(t)) return null;
+  return Math.round(Number(t));
+}
+
+function parseCents(v: string): number | null {
+  const t = v.replace(/[\s,$]/g, "");
+  if (!/^\d+(\.\d+)?$/.test(t)) return null;
+  return Math.round(Number(t) * 100);
+}
+
+function parseFlag(v: string) {
+  return /^(true|yes|y|1|x|default)$/i.test(v.trim());
+}
+
+function parseRatesSheet(sheet: SheetRows, issues: RateCardImportIssue[]): ImportedPricingRow[] {
+  const cols = columnMap(sheet[0] ?? [], RATE_COLUMNS);
+  if (cols.termMonths === undefined || cols.providerCost === undefined) {
+    issues.push({ row: 1, severity: "error", message: "Header must include term months and provider cost columns." });
+    return [];
+  }
+
+  const out: ImportedPricingRow[] = [];
+  for (let i = 1; i < sheet.length; i += 1) {
+    const cells = sheet[i];
+    if (isBlankRow(cells)) continue;
+    const row = i + 1;
+    const get = (field: string) => {
+      const idx = cols[field];
+      return idx === undefined ? "" : (cells![idx] ?? "").trim();
+    };
+    const error = (message: string) => issues.push({ row, severity: "error", message });
+
+    const rawMonths = get("termMonths");
+    const rawKm = get("termKm");
+    const termMonths = isUnlimited(rawMonths) ? null : parseWhole(rawMonths);
+    const termKm = isUnlimited(rawKm) || !rawKm ? null : parseWhole(rawKm);
+    if (!isUnlimited(rawMonths) && !termMonths) {
+      error(`Term months "${rawMonths}" must be a whole number or Unlimited.`);
+      continue;
+    }
+    if (rawKm && !isUnlimited(rawKm) && !termKm) {
+      error(`Term km "${rawKm}" must be a whole number or Unlimited.`);
+      continue;
+    }
+
+    const rawMin = get("mileageMin");
+    const rawMax = get("mileageMax");
+    const mileageMin = rawMin ? parseWhole(rawMin) : undefined;
+    const mileageMax = !rawMax ? undefined : isUnlimited(rawMax) ? null : parseWhole(rawMax);
+    if (mileageMin === null || (rawMax && !isUnlimited(rawMax) && mileageMax === null)) {
+      error("Mileage band bounds must be whole kilometres.");
+      continue;
+    }
+    if (typeof mileageMin === "number" && typeof mileageMax === "number" && mileageMax < mileageMin) {
+      error(`Mileage band ${mileageMin.toLocaleString("en-CA")}–${mileageMax.toLocaleString("en-CA")} km ends before it starts.`);
+      continue;
+    }
+
+    const rawClass = get("vehicleClass");
+    const vehicleClass = normalizeVehicleClassLabel(rawClass);
+    if (rawClass && vehicleClass === "ALL" && !/^all( classes)?$/i.test(rawClass)) {
+      issues.push({ row, severity: "warning", message: `Unknown vehicle class "${rawClass}"; the row applies to all classes.` });
+    }
+
+    const rawClaimType = get("claimLimitType");
+    const claimLimitType = normalizeClaimLimitTypeLabel(rawClaimType);
+    if (rawClaimType && !claimLimitType) {
+      error(`Unknown claim limit type "${rawClaimType}".`);
+      continue;
+    }
+    const rawClaimAmount = get("claimLimitAmount");
+    const claimLimitAmountCents = rawClaimAmount ? parseCents(rawClaimAmount) : undefined;
+    if (claimLimitAmountCents === null) {
+      error(`Claim limit "${rawClaimAmount}" is not an amount.`);
+      continue;
+    }
+    if (claimLimitType && claimLimitType !== "FMV" && !claimLimitAmountCents) {
+      error("Claim limit amount is required for the selected claim limit type.");
+      continue;
+    }
+
+    const rawDeductible = get("deductible");
+    const deductibleCents = rawDeductible ? parseCents(rawDeductible) : 0;
+    if (deductibleCents === null) {
+      error(`Deductible "${rawDeductible}" is not an amount.`);
+      continue;
+    }
+
+    const rawCost = get("providerCost");
+    const costCents = parseCents(rawCost);
+    if (!costCents) {
+      error(rawCost ? `Provider cost "${rawCost}" must be an amount above zero.` : "Provider cost is required.");
+      continue;
+    }
+    const rawRetail = get("suggestedRetail");
+    const retailCents = rawRetail ? parseCents(rawRetail) : undefined;
+    if (retailCents === null) {
+      error(`Suggested retail "${rawRetail}" is not an amount.`);
+      continue;
+    }
+    if (typeof retailCents === "number" && retailCents < costCents) {
+      issues.push({ row, severity: "warning", message: "Suggested retail is below provider cost." });
+    }
+
+    out.push({
+      row,
+      isDefault: parseFlag(get("isDefault")),
+      termMonths,
+      termKm,
+      vehicleMileageMinKm: mileageMin,
+      vehicleMileageMaxKm: mileageMax,
+      vehicleClass: vehicleClass === "ALL" ? undefined : vehicleClass,
+      claimLimitType,
+      claimLimitAmountCents: claimLimitType === "FMV" ? undefined : claimLimitAmountCents,
+      claimLimitCents: claimLimitType && claimLimitType !== "FMV" ? claimLimitAmountCents : undefined,
+      deductibleCents,
+      basePriceCents: costCents,
+      dealerCostCents: costCents,
+      suggestedRetailPriceCents: retailCents,
+    });
+  }
+  return out;
+}
+
+function parseFinanceSheet(sheet: SheetRows, issues: RateCardImportIssue[]): ImportedPricingRow[] {
+  const header = sheet[0] ?? [];
+  const keys = header.map(headerKey);
+  const idxMin = keys.findIndex((k) => k === "loanmin" || k === "loanamountmin");
+  const idxMax = keys.findIndex((k) => k === "loanmax" || k === "loanamountmax");
+  const termCols = header
+    .map((h, idx) => ({ idx, term: parseWhole(h.replace(/months?|mo/i, "")) }))
+    .filter((c) => c.idx !== idxMin && c.idx !== idxMax && c.term !== null);
+  const unknownTerms = termCols.filter((c) => !(FINANCE_TERM_MONTHS as readonly number[]).includes(c.term!));
+  const missingTerms = FINANCE_TERM_MONTHS.filter((t) => !termCols.some((c) => c.term === t));
+
+  if (idxMin < 0 || idxMax < 0) {
+    issues.push({ row: 1, severity: "error", message: "Header must include loan_min and loan_max columns." });
+    return [];
+  }
+  if (unknownTerms.length > 0 || missingTerms.length > 0) {
+    issues.push({ row: 1, severity: "error", message: `Rate sheet header must include finance term columns: ${FINANCE_TERM_MONTHS.join(", ")}` });
+    return [];
+  }
+
+  const out: ImportedPricingRow[] = [];
+  for (let i = 1; i < sheet.length; i += 1) {
+    const cells = sheet[i];
+    if (isBlankRow(cells)) continue;
+    const row = i + 1;
+    const rawMin = (cells![idxMin] ?? "").trim();
+    const rawMax = (cells![idxMax] ?? "").trim();
+    const loanAmountMinCents = parseCents(rawMin);
+    const loanAmountMaxCents = parseCents(rawMax);
+    if (loanAmountMinCents === null || !loanAmountMaxCents) {
+      issues.push({ row, severity: "error", message: "Loan band needs a minimum and maximum amount." });
+      continue;
+    }
+    if (loanAmountMaxCents < loanAmountMinCents) {
+      issues.push({ row, severity: "error", message: "Loan band maximum is below its minimum." });
+      continue;
+    }
+
+    const prices: ImportedPricingRow[] = [];
+    for (const c of termCols) {
+      const raw = (cells![c.idx] ?? "").trim();
+      const cents = parseCents(raw);
+      if (!cents) {
+        issues.push({ row, severity: "error", message: `Missing or invalid price for ${c.term} months.` });
+        continue;
+      }
+      prices.push({
+        row,
+        isDefault: false,
+        termMonths: null,
+        termKm: null,
+        financeTermMonths: c.term!,
+        loanAmountMinCents,
+        loanAmountMaxCents,
+        providerNetCostCents: cents,
+        deductibleCents: 0,
+        basePriceCents: cents,
+        dealerCostCents: cents,
+      });
+    }
+    if (prices.length === termCols.length) out.push(...prices);
+  }
+  return out;
+}
+
+function parseAddonsSheet(sheet: SheetRows, issues: RateCardImportIssue[]): ImportedAddonRow[] {
+  const cols = columnMap(sheet[0] ?? [], ADDON_COLUMNS);
+  if (cols.name === undefined || cols.price === undefined) {
+    issues.push({ row: 1, severity: "error", message: "Header must include name and price columns." });
+    return [];
+  }
+
+  const out: ImportedAddonRow[] = [];
+  const seen = new Map<string, number>();
+  for (let i = 1; i < sheet.length; i += 1) {
+    const cells = sheet[i];
+    if (isBlankRow(cells)) continue;
+    const row = i + 1;
+    const get = (field: string) => {
+      const idx = cols[field];
+      return idx === undefined ? "" : (cells![idx] ?? "").trim();
+    };
+
+    const name = get("name");
+    const rawPrice = get("price");
+    const priceCents = parseCents(rawPrice);
+    if (!name) {
+      issues.push({ row, severity: "error", message: "Add-on name is required." });
+      continue;
+    }
+    if (!priceCents) {
+      issues.push({ row, severity: "error", message: `Price "${rawPrice}" must be an amount above zero.` });
+      continue;
+    }
+
+    const rawType = get("pricingType");
+    const pricingType = normalizeAddonPricingType(rawType);
+    if (rawType && pricingType === "FIXED" && !/^(fixed|1x|one[ _]time)$/i.test(rawType)) {
+      issues.push({ row, severity: "warning", message: `Unknown pricing type "${rawType}"; treated as FIXED.` });
+    }
+
+    const termMonths = get("termMonths");
+    const termKm = get("termKm");
+    const scope = addonScopeKey({ termMonths, termKm });
+    const dupeKey = `${name.toLowerCase()}|${scope}`;
+    const firstRow = seen.get(dupeKey);
+    if (firstRow) {
+      issues.push({ row, severity: "error", message: `"${name}" is listed twice for the same term (first on row ${firstRow}).` });
+      continue;
+    }
+    seen.set(dupeKey, row);
+
+    out.push({ row, name, description: get("description"), pricingType, priceCents, termMonths, termKm });
+  }
+  return out;
+}
+
+type Band = { row: number; min: number; max: number | null };
+
+// Bands are inclusive at both ends, so contiguous bands look like 0–50,000 then 50,001–100,000.
+// `step` is the smallest unit between two contiguous bands (1 km, or 1 dollar for loan amounts).
+function bandIssues(bands: Band[], step: number, describe: (n: number) => string, scope: string): RateCardImportIssue[] {
+  const sorted = bands.slice().sort((a, b) => a.min - b.min || a.row - b.row);
+  const issues: RateCardImportIssue[] = [];
+  for (let i = 1; i < sorted.length; i += 1) {
+    const prev = sorted[i - 1]!;
+    const cur = sorted[i]!;
+    if (prev.max === null || cur.min <= prev.max) {
+      issues.push({
+        row: cur.row,
+        severity: "error",
+        message: `Band starting at ${describe(cur.min)} overlaps row ${prev.row}${scope}.`,
+      });
+    } else if (cur.min > prev.max + step) {
+      issues.push({
+        row: cur.row,
+        severity: "warning",
+        message: `Gap between ${describe(prev.max)} (row ${prev.row}) and ${describe(cur.min)}${scope}; nothing prices in between.`,
+      });
+    }
+  }
+  return issues;
+}
+
+export function mileageBandIssues(rows: ImportedPricingRow[]): RateCardImportIssue[] {
+  const groups = new Map<string, ImportedPricingRow[]>();
+  for (const r of rows) {
+    if (typeof r.vehicleMileageMinKm !== "number") continue;
+    const key = JSON.stringify([r.termMonths, r.termKm, r.vehicleClass ?? "", r.deductibleCents, r.claimLimitCents ?? null]);
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+
+  const km = (n: number) => `${n.toLocaleString("en-CA")} km`;
+  const out: RateCardImportIssue[] = [];
+  for (const group of groups.values()) {
+    const first = group[0]!;
+    const scope = ` for ${termLabel(first)}${first.vehicleClass && first.vehicleClass !== "ALL" ? `, ${first.vehicleClass}` : ""}`;
+    out.push(
+      ...bandIssues(
+        group.map((r) => ({ row: r.row, min: r.vehicleMileageMinKm!, max: r.vehicleMileageMaxKm ?? null })),
+        1,
+        km,
+        scope,
+      ),
+    );
+  }
+  return out;
+}
+
+export function loanBandIssues(rows: ImportedPricingRow[]): RateCardImportIssue[] {
+  // Every finance term shares the same bands, so one term is enough to check them.
+  const term = rows.find((r) => typeof r.financeTermMonths === "number")?.financeTermMonths;
+  const bands = rows
+    .filter((r) => r.financeTermMonths === term)
+    .map((r) => ({ row: r.row, min: r.loanAmountMinCents ?? 0, max: r.loanAmountMaxCents ?? null }));
+  return bandIssues(bands, 100, (n) => money(n), "");
+}
+
+function withDefault(rows: ImportedPricingRow[]) {
+  if (rows.length === 0 || rows.some((r) => r.isDefault)) return rows;
+  return rows.map((r, i) => ({ ...r, isDefault: i === 0 }));
+}
+
+export function parseRateCardSheet(sheet: SheetRows, kind?: RateCardImportKind): RateCardImport {
+  const issues: RateCardImportIssue[] = [];
+  const first = sheet.findIndex((r) => !isBlankRow(r));
+  const resolved = kind ?? (first >= 0 ? detectRateCardKind(sheet[first]!) : null);
+  if (first < 0 || !resolved) {
+    issues.push({
+      row: first < 0 ? 0 : first + 1,
+      severity: "error",
+      message: first < 0 ? "The sheet is empty." : "Couldn't tell which rate sheet this is from the header row.",
+    });
+    return { kind: resolved ?? "RATES", rows: [], addons: [], issues, health: null };
+  }
+
+  // Parsers expect the header on the first row; shift row numbers back to where they sit in the file.
+  const body = sheet.slice(first);
+  const shift = (list: { row: number }[]) => {
+    for (const x of list) if (x.row) x.row += first;
+  };
+
+  if (resolved === "ADDONS") {
+    const addons = parseAddonsSheet(body, issues);
+    shift(addons);
+    shift(issues);
+    if (addons.length === 0 && !issues.some((i) => i.severity === "error")) {
+      issues.push({ row: 0, severity: "error", message: "No add-on rows found." });
+    }
+    return { kind: resolved, rows: [], addons, issues, health: null };
+  }
+
+  const parsed = resolved === "FINANCE" ? parseFinanceSheet(body, issues) : parseRatesSheet(body, issues);
+  shift(parsed);
+  shift(issues);
+  const rows = resolved === "FINANCE" ? parsed.map((r, i) => ({ ...r, isDefault: i === 0 })) : withDefault(parsed);
+  if (rows.length === 0 && !issues.some((i) => i.severity === "error")) {
+    issues.push({ row: 0, severity: "error", message: "No pricing rows found." });
+  }
+
+  issues.push(...(resolved === "FINANCE" ? loanBandIssues(rows) : mileageBandIssues(rows)));
+
+  const health = rows.length > 0 ? validatePricingHealth(rows.map(asPricingRow)) : null;
+  if (health && !health.ok) issues.push({ row: 0, severity: "error", message: health.reason ?? "Pricing failed validation." });
+
+  issues.sort((a, b) => a.row - b.row);
+  return { kind: resolved, rows, addons: [], issues, health };
+}
+
+export function rateCardImportHasErrors(result: Pick<RateCardImport, "issues">) {
+  return result.issues.some((i) => i.severity === "error");
+}
+
+function asPricingRow(r: ImportedPricingRow, idx: number): ProductPricing {
+  return { ...r, id: `import-${idx}`, providerId: "", productId: "", createdAt: "" };
+}
+
+function money(cents: number | undefined) {
+  if (typeof cents !== "number") return "—";
+  return `$${(cents / 100).toLocaleString("en-CA", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function termLabel(r: Pick<ProductPricing, "termMonths" | "termKm">) {
+  const months = r.termMonths === null ? "Unlimited" : `${r.termMonths} mo`;
+  const km = r.termKm === null ? "Unlimited km" : `${r.termKm.toLocaleString("en-CA")} km`;
+  return `${months} / ${km}`;
+}
+
+type DiffablePricingRow = Omit<ProductPricing, "id" | "providerId" | "productId" | "createdAt">;
+
+function pricingRowLabel(r: DiffablePricingRow) {
+  if (typeof r.financeTermMonths === "number") {
+    return `${money(r.loanAmountMinCents)}–${money(r.loanAmountMaxCents)} · ${r.financeTermMonths} mo`;
+  }
+  const parts = [termLabel(r)];
+  if (typeof r.vehicleMileageMinKm === "number" || typeof r.vehicleMileageMaxKm === "number") {
+    const max = typeof r.vehicleMileageMaxKm === "number" ? r.vehicleMileageMaxKm.toLocaleString("en-CA") : "Unlimited";
+    parts.push(`${(r.vehicleMileageMinKm ?? 0).toLocaleString("en-CA")}–${max} km`);
+  }
+  if (r.vehicleClass && r.vehicleClass !== "ALL") parts.push(r.vehicleClass);
+  parts.push(`${money(r.deductibleCents)} deductible`);
+  if (r.claimLimitType) parts.push(`${r.claimLimitType}${r.claimLimitAmountCents ? ` ${money(r.claimLimitAmountCents)}` : ""}`);
+  return parts.join(" · ");
+}
+
+function pricingRowPrice(r: DiffablePricingRow) {
+  const cost = money(r.dealerCostCents ?? r.basePriceCents);
+  const retail = typeof r.suggestedRetailPriceCents === "number" ? ` / ${money(r.suggestedRetailPriceCents)} retail` : "";
+  return `${cost}${retail}${r.isDefault ? " (default)" : ""}`;
+}
+
+function diffLines<T>(
+  current: T[],
+  next: (T & { row: number })[],
+  keyOf: (r: T) => string,
+  labelOf: (r: T) => string,
+  valueOf: (r: T) => string,
+): RateCardDiffLine[] {
+  const before = new Map(current.map((r) => [keyOf(r), r]));
+  const out: RateCardDiffLine[] = [];
+  const matched = new Set<string>();
+  for (const r of next) {
+    const key = keyOf(r);
+    const prev = before.get(key);
+    const after = valueOf(r);
+    if (prev) matched.add(key);
+    const was = prev ? valueOf(prev) : null;
+    out.push({
+      status: !prev ? "ADDED" : was === after ? "UNCHANGED" : "CHANGED",
+      key,
+      label: labelOf(r),
+      row: r.row,
+      before: was,
+      after,
+    });
+  }
+  for (const [key, prev] of before) {
+    if (matched.has(key)) continue;
+    out.push({ status: "REMOVED", key, label: labelOf(prev), row: null, before: valueOf(prev), after: null });
+  }
+  return out;
+}
+
+// Matches rows on the same variant key the health check uses, so a price change reads as CHANGED rather than remove + add.
+export function diffRateCard(current: DiffablePricingRow[], next: ImportedPricingRow[]): RateCardDiffLine[] {
+  return diffLines<DiffablePricingRow>(current, next, pricingUniqKey, pricingRowLabel, pricingRowPrice);
+}
+
+export function addonScopeKey(a: Pick<ImportedAddonRow, "termMonths" | "termKm">) {
+  const m = (a.termMonths ?? "").trim();
+  if (!m || /^all(_?terms)?$/i.test(m)) return "ALL";
+  const part = (v: string) => {
+    if (isUnlimited(v)) return "UNL";
+    const n = parseWhole(v);
+    return n ? String(n) : v.trim().toUpperCase();
+  };
+  return `${part(m)}|${part(a.termKm ?? "") || "UNL"}`;
+}
+
+export type DiffableAddon = { name: string; scopeKey: string; pricingType: AddonPricingType; priceCents: number; description?: string };
+
+function addonScopeLabel(scopeKey: string) {
+  if (scopeKey === "ALL") return "All terms";
+  const [m, k] = scopeKey.split("|");
+  const months = m === "UNL" ? "No Time Limit" : `${m} mo`;
+  const km = !k || k === "UNL" ? "Unlimited km" : `${Number(k).toLocaleString("en-CA")} km`;
+  return `${months} / ${km}`;
+}
+
+export function diffAddonRows(current: DiffableAddon[], next: ImportedAddonRow[]): RateCardDiffLine[] {
+  const asDiffable = next.map((a) => ({ ...a, scopeKey: addonScopeKey(a) }));
+  return diffLines<DiffableAddon>(
+    current,
+    asDiffable,
+    (a) => `${a.name.trim().toLowerCase()}|${a.scopeKey}`,
+    (a) => `${a.name} · ${addonScopeLabel(a.scopeKey)}`,
+    (a) => `${money(a.priceCents)} ${a.pricingType}`,
+  );
+}
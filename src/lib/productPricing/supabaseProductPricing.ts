@@ -1,12 +1,14 @@
 import { getSupabaseClient } from "../supabase/client";
 
 import type { ProductPricingApi, ListProductPricingOptions } from "./api";
-import type { CreateProductPricingInput, ProductPricing } from "./types";
+import type { CreateProductPricingInput, CreateProductPricingVersionInput, ProductPricing, ProductPricingVersion } from "./types";
+import { isValidPricingDate, planPricingVersionPublish, pricingDateKey, pricingRowsInEffect } from "./versions";
 
 type ProductPricingRow = {
   id: string;
   provider_id: string;
   product_id: string;
+  version_id?: string | null;
   term_months: number | null;
   term_km: number | null;
   is_default?: boolean | null;
@@ -44,6 +46,7 @@ function toPricing(r: ProductPricingRow): ProductPricing {
     id: r.id,
     providerId: r.provider_id,
     productId: r.product_id,
+    versionId: typeof r.version_id === "string" ? r.version_id : undefined,
     termMonths: r.term_months,
     termKm: r.term_km,
     isDefault: r.is_default === true,
@@ -66,6 +69,67 @@ function toPricing(r: ProductPricingRow): ProductPricing {
   };
 }
 
+type ProductPricingVersionRow = {
+  id: string;
+  provider_id: string;
+  product_id: string;
+  label: string | null;
+  status: string;
+  effective_from: string;
+  effective_to: string | null;
+  published_at: string | null;
+  created_at: string;
+};
+
+function toVersion(r: ProductPricingVersionRow): ProductPricingVersion {
+  return {
+    id: r.id,
+    providerId: r.provider_id,
+    productId: r.product_id,
+    label: r.label ?? `Rate card from ${r.effective_from}`,
+    status: r.status === "PUBLISHED" ? "PUBLISHED" : "DRAFT",
+    effectiveFrom: r.effective_from,
+    effectiveTo: r.effective_to ?? null,
+    publishedAt: r.published_at ?? undefined,
+    createdAt: r.created_at,
+  };
+}
+
+async function publishedVersions(productIds?: string[]): Promise<ProductPricingVersion[]> {
+  const supabase = getSupabaseClient();
+  if (!supabase) throw new Error("Supabase is not configured");
+
+  let q = supabase.from("product_pricing_versions").select("*").eq("status", "PUBLISHED");
+  if (productIds) q = q.in("product_id", productIds);
+  const { data, error } = await q;
+  if (error) throw error;
+  return ((data ?? []) as ProductPricingVersionRow[]).map(toVersion);
+}
+
+async function inEffectForEachProduct(rows: ProductPricing[], asOf?: string) {
+  const productIds = Array.from(new Set(rows.map((r) => r.productId)));
+  if (productIds.length === 0) return rows;
+  const versions = await publishedVersions(productIds);
+  return productIds.flatMap((productId) =>
+    pricingRowsInEffect(
+      rows.filter((r) => r.productId === productId),
+      versions.filter((v) => v.productId === productId),
+      asOf,
+    ),
+  );
+}
+
+async function assertVersionEditable(versionId: string | null | undefined) {
+  if (!versionId) return;
+  const supabase = getSupabaseClient();
+  if (!supabase) throw new Error("Supabase is not configured");
+
+  const { data, error } = await supabase.from("product_pricing_versions").select("status").eq("id", versionId).maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error("Rate card version not found");
+  if ((data as any).status !== "DRAFT") throw new Error("Published rate cards can't be changed. Start a new draft instead.");
+}
+
 function isAllowedFinanceTermMonths(v: number) {
   return v === 24 || v === 36 || v === 48 || v === 60 || v === 72 || v === 84 || v === 96;
 }
@@ -95,15 +159,16 @@ export const supabaseProductPricingApi: ProductPricingApi = {
     const supabase = getSupabaseClient();
     if (!supabase) throw new Error("Supabase is not configured");
 
-    const { data, error } = await supabase
-      .from("product_pricing")
-      .select("*")
-      .eq("product_id", options.productId)
-      .order("is_default", { ascending: false })
-      .order("created_at", { ascending: false });
+    let q = supabase.from("product_pricing").select("*").eq("product_id", options.productId);
+    if (!options.allVersions && options.versionId !== undefined) {
+      q = options.versionId === null ? q.is("version_id", null) : q.eq("version_id", options.versionId);
+    }
+    const { data, error } = await q.order("is_default", { ascending: false }).order("created_at", { ascending: false });
 
     if (error) throw error;
-    return (data as ProductPricingRow[]).map(toPricing);
+    const rows = (data as ProductPricingRow[]).map(toPricing);
+    if (options.allVersions || options.versionId !== undefined) return rows;
+    return inEffectForEachProduct(rows, options.asOf);
   },
 
   async listAll() {
@@ -118,7 +183,7 @@ export const supabaseProductPricingApi: ProductPricingApi = {
       .order("created_at", { ascending: false });
 
     if (error) throw error;
-    return (data as ProductPricingRow[]).map(toPricing);
+    return inEffectForEachProduct((data as ProductPricingRow[]).map(toPricing));
   },
 
   async create(input: CreateProductPricingInput) {
@@ -179,19 +244,18 @@ export const supabaseProductPricingApi: ProductPricingApi = {
     }
 
     const providerId = await currentUserId();
+    await assertVersionEditable(input.versionId);
 
     if (input.isDefault === true) {
-      const { error: clearError } = await supabase
-        .from("product_pricing")
-        .update({ is_default: false })
-        .eq("product_id", input.productId)
-        .eq("is_default", true);
+      const clear = supabase.from("product_pricing").update({ is_default: false }).eq("product_id", input.productId).eq("is_default", true);
+      const { error: clearError } = await (input.versionId ? clear.eq("version_id", input.versionId) : clear.is("version_id", null));
       if (clearError) throw clearError;
     }
 
     const insertRow: Record<string, unknown> = {
       provider_id: providerId,
       product_id: input.productId,
+      version_id: input.versionId ?? null,
       term_months: input.termMonths,
       term_km: input.termKm,
       is_default: input.isDefault === true,
@@ -244,7 +308,135 @@ export const supabaseProductPricingApi: ProductPricingApi = {
     const supabase = getSupabaseClient();
     if (!supabase) throw new Error("Supabase is not configured");
 
+    const existing = await supabase.from("product_pricing").select("version_id").eq("id", id).maybeSingle();
+    if (existing.error) throw existing.error;
+    await assertVersionEditable((existing.data as any)?.version_id);
+
     const { error } = await supabase.from("product_pricing").delete().eq("id", id);
     if (error) throw error;
   },
+
+  async listVersions(productId: string) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("product_pricing_versions")
+      .select("*")
+      .eq("product_id", productId)
+      .order("effective_from", { ascending: false })
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return ((data ?? []) as ProductPricingVersionRow[]).map(toVersion);
+  },
+
+  async createVersion(input: CreateProductPricingVersionInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    if (!input.productId.trim()) throw new Error("productId is required");
+    if (!isValidPricingDate(input.effectiveFrom)) throw new Error("effectiveFrom must be a date (YYYY-MM-DD)");
+    if (input.effectiveTo !== undefined && input.effectiveTo !== null && !isValidPricingDate(input.effectiveTo)) {
+      throw new Error("effectiveTo must be a date (YYYY-MM-DD) or empty");
+    }
+
+    const providerId = await currentUserId();
+
+    const source =
+      input.copyFromVersionId === null
+        ? []
+        : await supabaseProductPricingApi.list(
+            input.copyFromVersionId !== undefined
+              ? { productId: input.productId, versionId: input.copyFromVersionId }
+              : { productId: input.productId },
+          );
+
+    const { data, error } = await supabase
+      .from("product_pricing_versions")
+      .insert({
+        provider_id: providerId,
+        product_id: input.productId,
+        label: (input.label ?? "").trim() || `Rate card from ${input.effectiveFrom}`,
+        status: "DRAFT",
+        effective_from: input.effectiveFrom,
+        effective_to: input.effectiveTo ?? null,
+      })
+      .select("*")
+      .single();
+    if (error) throw error;
+    const version = toVersion(data as ProductPricingVersionRow);
+
+    if (source.length > 0) {
+      const copies = source.map((r) => ({
+        provider_id: providerId,
+        product_id: r.productId,
+        version_id: version.id,
+        term_months: r.termMonths,
+        term_km: r.termKm,
+        is_default: r.isDefault,
+        vehicle_mileage_min_km: r.vehicleMileageMinKm ?? null,
+        vehicle_mileage_max_km: r.vehicleMileageMaxKm ?? null,
+        vehicle_class: r.vehicleClass ?? null,
+        loan_amount_min_cents: r.loanAmountMinCents ?? null,
+        loan_amount_max_cents: r.loanAmountMaxCents ?? null,
+        finance_term_months: r.financeTermMonths ?? null,
+        provider_net_cost_cents: r.providerNetCostCents ?? null,
+        claim_limit_cents: r.claimLimitCents ?? null,
+        claim_limit_type: r.claimLimitType ?? null,
+        claim_limit_amount_cents: r.claimLimitAmountCents ?? null,
+        deductible_cents: r.deductibleCents,
+        base_price_cents: r.basePriceCents,
+        dealer_cost_cents: r.dealerCostCents ?? null,
+        suggested_retail_price_cents: r.suggestedRetailPriceCents ?? null,
+      }));
+      const { error: copyError } = await supabase.from("product_pricing").insert(copies);
+      if (copyError) {
+        await supabase.from("product_pricing_versions").delete().eq("id", version.id);
+        throw copyError;
+      }
+    }
+
+    return version;
+  },
+
+  async publishVersion(id: string) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data: targetRow, error: targetError } = await supabase.from("product_pricing_versions").select("*").eq("id", id).maybeSingle();
+    if (targetError) throw targetError;
+    if (!targetRow) throw new Error("Rate card version not found");
+    const target = toVersion(targetRow as ProductPricingVersionRow);
+
+    const rows = await supabase.from("product_pricing").select("id", { count: "exact", head: true }).eq("version_id", id);
+    if (rows.error) throw rows.error;
+    if (!rows.count) throw new Error("Add at least one pricing row before publishing");
+
+    const plan = planPricingVersionPublish(await publishedVersions([target.productId]), target, pricingDateKey());
+
+    for (const t of plan.truncate) {
+      const { error } = await supabase.from("product_pricing_versions").update({ effective_to: t.effectiveTo }).eq("id", t.id);
+      if (error) throw error;
+    }
+
+    const { data, error } = await supabase
+      .from("product_pricing_versions")
+      .update({ status: "PUBLISHED", effective_to: plan.effectiveTo, published_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("status", "DRAFT")
+      .select("*")
+      .single();
+    if (error) throw error;
+    return toVersion(data as ProductPricingVersionRow);
+  },
+
+  async removeVersion(id: string) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    await assertVersionEditable(id);
+    const { error } = await supabase.from("product_pricing_versions").delete().eq("id", id).eq("status", "DRAFT");
+    if (error) throw error;
+  },
 };
@@ -2,6 +2,7 @@ export type ProductPricing = {
   id: string;
   providerId: string;
   productId: string;
+  versionId?: string;
   termMonths: number | null;
   termKm: number | null;
   isDefault: boolean;
@@ -26,6 +27,7 @@ export type ClaimLimitType = "PER_CLAIM" | "TOTAL_COVERAGE" | "FMV" | "MAX_RETAI
 
 export type CreateProductPricingInput = {
   productId: string;
+  versionId?: string;
   termMonths: number | null;
   termKm: number | null;
   isDefault?: boolean;
@@ -44,3 +46,27 @@ export type CreateProductPricingInput = {
   dealerCostCents?: number;
   suggestedRetailPriceCents?: number;
 };
+
+export type ProductPricingVersionStatus = "DRAFT" | "PUBLISHED";
+
+// A dated rate card. Rows saved before versioning have no versionId and act as the fallback card.
+export type ProductPricingVersion = {
+  id: string;
+  providerId: string;
+  productId: string;
+  label: string;
+  status: ProductPricingVersionStatus;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  publishedAt?: string;
+  createdAt: string;
+};
+
+export type CreateProductPricingVersionInput = {
+  productId: string;
+  label?: string;
+  effectiveFrom: string;
+  effectiveTo?: string | null;
+  // Rows to start the draft from; omitted copies the card in effect today, null starts empty.
+  copyFromVersionId?: string | null;
+};
@@ -0,0 +1,110 @@
+import { format, parseISO, subDays } from "date-fns";
+
+import { isAddonPricingRow } from "../pricing/dealerPricing";
+
+import type { ProductPricing, ProductPricingVersion } from "./types";
+
+// Effective dates are calendar days (YYYY-MM-DD); effectiveTo is the last day the card applies.
+export function pricingDateKey(d: Date = new Date()) {
+  return format(d, "yyyy-MM-dd");
+}
+
+function dayBefore(dateKey: string) {
+  return pricingDateKey(subDays(parseISO(dateKey), 1));
+}
+
+export function isValidPricingDate(v: unknown): v is string {
+  return typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(parseISO(v).getTime());
+}
+
+export function isPricingVersionInEffect(v: ProductPricingVersion, asOf: string) {
+  if (v.status !== "PUBLISHED") return false;
+  if (v.effectiveFrom > asOf) return false;
+  return v.effectiveTo === null || asOf <= v.effectiveTo;
+}
+
+export function pricingVersionInEffect(versions: ProductPricingVersion[], asOf: string = pricingDateKey()) {
+  return (
+    versions
+      .filter((v) => isPricingVersionInEffect(v, asOf))
+      .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || (b.publishedAt ?? "").localeCompare(a.publishedAt ?? ""))[0] ??
+    null
+  );
+}
+
+// Falls back to unversioned rows when no published card covers the date (before the first one starts, or in a gap).
+export function pricingRowsInEffect<T extends Pick<ProductPricing, "versionId">>(
+  rows: T[],
+  versions: ProductPricingVersion[],
+  asOf: string = pricingDateKey(),
+): T[] {
+  const version = pricingVersionInEffect(versions, asOf);
+  if (version) return rows.filter((r) => r.versionId === version.id);
+  return rows.filter((r) => !r.versionId);
+}
+
+export type PricingVersionPublishPlan = {
+  effectiveTo: string | null;
+  // Published cards whose end date moves so the new card takes over without overlap.
+  truncate: { id: string; effectiveTo: string }[];
+};
+
+export function planPricingVersionPublish(
+  versions: ProductPricingVersion[],
+  target: ProductPricingVersion,
+  today: string = pricingDateKey(),
+): PricingVersionPublishPlan {
+  if (target.status !== "DRAFT") throw new Error("Only draft rate cards can be published");
+  if (target.effectiveFrom < today) throw new Error("Effective date can't be in the past");
+  if (target.effectiveTo !== null && target.effectiveTo < target.effectiveFrom) {
+    throw new Error("Effective end date must be on or after the start date");
+  }
+
+  const published = versions.filter((v) => v.id !== target.id && v.productId === target.productId && v.status === "PUBLISHED");
+  const clash = published.find((v) => v.effectiveFrom === target.effectiveFrom);
+  if (clash) throw new Error(`"${clash.label}" already takes effect on ${clash.effectiveFrom}`);
+
+  const nextStart = published
+    .map((v) => v.effectiveFrom)
+    .filter((d) => d > target.effectiveFrom)
+    .sort()[0];
+  const effectiveTo =
+    nextStart && (target.effectiveTo === null || target.effectiveTo >= nextStart) ? dayBefore(nextStart) : target.effectiveTo;
+
+  const truncate = published
+    .filter((v) => v.effectiveFrom < target.effectiveFrom && (v.effectiveTo === null || v.effectiveTo >= target.effectiveFrom))
+    .map((v) => ({ id: v.id, effectiveTo: dayBefore(target.effectiveFrom) }));
+
+  return { effectiveTo, truncate };
+}
+
+export function pricingVersionStatusLabel(v: ProductPricingVersion, asOf: string = pricingDateKey()) {
+  if (v.status === "DRAFT") return "Draft";
+  if (isPricingVersionInEffect(v, asOf)) return "In effect";
+  return v.effectiveFrom > asOf ? "Scheduled" : "Expired";
+}
+
+function termLabel(r: Pick<ProductPricing, "termMonths" | "termKm">) {
+  const months = r.termMonths === null ? "Unlimited" : `${r.termMonths} Months`;
+  const km = r.termKm === null ? "Unlimited" : r.termKm.toLocaleString("en-CA");
+  return `${months} / ${km} km`;
+}
+
+// Renders rate card rows in the products.pricing_json shape so catalogue pages can quote from a versioned card.
+// Add-on rows stay with the product's own card.
+export function pricingJsonWithRows(pricingJson: any, rows: ProductPricing[]) {
+  const base = pricingJson && typeof pricingJson === "object" ? pricingJson : {};
+  const existing: any[] = Array.isArray(base.rows) ? base.rows : Array.isArray(base.tiers) ? base.tiers : [];
+  const addonRows = existing.filter(isAddonPricingRow);
+  const rateRows = rows
+    .filter((r) => typeof r.financeTermMonths !== "number")
+    .map((r) => ({
+      term: termLabel(r),
+      vehicleClass: r.vehicleClass && r.vehicleClass !== "ALL" ? r.vehicleClass : "",
+      dealerCost: (r.dealerCostCents ?? r.basePriceCents) / 100,
+      suggestedRetail: (r.suggestedRetailPriceCents ?? r.dealerCostCents ?? r.basePriceCents) / 100,
+      deductible: r.deductibleCents / 100,
+      productPricingId: r.id,
+    }));
+  return { ...base, rows: [...rateRows, ...addonRows] };
+}
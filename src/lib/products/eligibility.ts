@@ -0,0 +1,279 @@
+import type { PowertrainEligibility, Product } from "./types";
+import { modelMatches, sameMake } from "./vehicleClass";
+
+export type EligibilityRules = {
+  maxVehicleAgeYears?: number | null;
+  maxMileageKm?: number | null;
+  makeAllowlist?: string[];
+  makeDenylist?: string[];
+  modelAllowlist?: string[];
+  modelDenylist?: string[];
+  trimAllowlist?: string[];
+  trimDenylist?: string[];
+  powertrain?: PowertrainEligibility;
+  maxLtvPercent?: number | null;
+  maxMonthsInService?: number | null;
+};
+
+export type VehiclePowertrain = "BEV" | "PHEV" | "HEV" | "ICE" | "UNKNOWN";
+
+export type EligibilityVehicle = {
+  year?: number | null;
+  make?: string | null;
+  model?: string | null;
+  trim?: string | null;
+  mileageKm?: number | null;
+  powertrain?: VehiclePowertrain | null;
+  loanAmountCents?: number | null;
+  vehicleValueCents?: number | null;
+  inServiceDate?: string | null;
+};
+
+export type EligibilityRuleKey = "MAX_AGE" | "MAX_MILEAGE" | "MAKE" | "MODEL" | "TRIM" | "POWERTRAIN" | "LTV" | "IN_SERVICE";
+
+// "unknown" means the rule is set but the vehicle data it needs is missing; it never blocks on its own.
+export type EligibilityCheckStatus = "pass" | "fail" | "unknown";
+
+export type EligibilityCheck = {
+  rule: EligibilityRuleKey;
+  status: EligibilityCheckStatus;
+  message: string;
+};
+
+export type EligibilityResult = {
+  eligible: boolean;
+  checks: EligibilityCheck[];
+  failures: EligibilityCheck[];
+};
+
+export const POWERTRAIN_ELIGIBILITY_LABELS: Record<PowertrainEligibility, string> = {
+  ALL: "All powertrains",
+  ICE: "Gas / diesel only",
+  ELECTRIFIED: "Hybrid, plug-in hybrid and electric only",
+  HEV: "Hybrid only",
+  PHEV: "Plug-in hybrid only",
+  BEV: "Electric only",
+};
+
+export const VEHICLE_POWERTRAIN_LABELS: Record<VehiclePowertrain, string> = {
+  ICE: "Gas / Diesel",
+  HEV: "Hybrid",
+  PHEV: "Plug-in Hybrid",
+  BEV: "Electric",
+  UNKNOWN: "Unknown",
+};
+
+const POWERTRAIN_LABELS: Record<Exclude<VehiclePowertrain, "UNKNOWN">, string> = {
+  ICE: "gas / diesel",
+  HEV: "hybrid",
+  PHEV: "plug-in hybrid",
+  BEV: "electric",
+};
+
+function positiveNumber(v: unknown): number | null {
+  if (typeof v === "number") return Number.isFinite(v) && v > 0 ? v : null;
+  if (typeof v === "string") {
+    const n = Number.parseFloat(v.replace(/[^0-9.]/g, ""));
+    return Number.isFinite(n) && n > 0 ? n : null;
+  }
+  return null;
+}
+
+function stringList(v: unknown): string[] {
+  if (typeof v === "string") return v.split(",").map((s) => s.trim()).filter(Boolean);
+  if (!Array.isArray(v)) return [];
+  return v.map((s) => (typeof s === "string" ? s.trim() : "")).filter(Boolean);
+}
+
+function isPowertrainEligibility(v: unknown): v is PowertrainEligibility {
+  return v === "ALL" || v === "ICE" || v === "ELECTRIFIED" || v === "HEV" || v === "PHEV" || v === "BEV";
+}
+
+// Contracts store the decoded powertrain as plain text; anything unrecognised is treated as unknown.
+export function toVehiclePowertrain(v: unknown): VehiclePowertrain | null {
+  const t = typeof v === "string" ? v.trim().toUpperCase() : "";
+  return t === "BEV" || t === "PHEV" || t === "HEV" || t === "ICE" ? t : null;
+}
+
+export function eligibilityRulesFromProduct(p: Product): EligibilityRules {
+  return {
+    maxVehicleAgeYears: positiveNumber(p.eligibilityMaxVehicleAgeYears),
+    maxMileageKm: positiveNumber(p.eligibilityMaxMileageKm),
+    makeAllowlist: stringList(p.eligibilityMakeAllowlist),
+    makeDenylist: stringList(p.eligibilityMakeDenylist),
+    modelAllowlist: stringList(p.eligibilityModelAllowlist),
+    modelDenylist: stringList(p.eligibilityModelDenylist),
+    trimAllowlist: stringList(p.eligibilityTrimAllowlist),
+    trimDenylist: stringList(p.eligibilityTrimDenylist),
+    powertrain: p.powertrainEligibility ?? "ALL",
+    maxLtvPercent: positiveNumber(p.coverageMaxLtvPercent),
+    maxMonthsInService: positiveNumber(p.eligibilityMaxMonthsInService),
+  };
+}
+
+// V2 products keep their rules in the `eligibility_rules` jsonb, usually as display strings ("10", "200,000").
+// The `powertrain_eligibility` column, when set, wins over a powertrain key in the jsonb.
+export function eligibilityRulesFromJson(raw: unknown, powertrainEligibility?: unknown): EligibilityRules {
+  let er: any = raw;
+  if (typeof er === "string") {
+    try { er = JSON.parse(er); } catch { er = null; }
+  }
+  const column = isPowertrainEligibility(powertrainEligibility) ? powertrainEligibility : null;
+  if (!er || typeof er !== "object") return column ? { powertrain: column } : {};
+  return {
+    maxVehicleAgeYears: positiveNumber(er.maxAge ?? er.max_age),
+    maxMileageKm: positiveNumber(er.maxMileage ?? er.max_mileage),
+    makeAllowlist: stringList(er.makes),
+    makeDenylist: stringList(er.excludedMakes),
+    modelAllowlist: stringList(er.models),
+    modelDenylist: stringList(er.excludedModels),
+    trimAllowlist: stringList(er.trims),
+    trimDenylist: stringList(er.excludedTrims),
+    powertrain: column ?? (isPowertrainEligibility(er.powertrain) ? er.powertrain : "ALL"),
+    maxLtvPercent: positiveNumber(er.maxLtvPercent),
+    maxMonthsInService: positiveNumber(er.maxMonthsInService),
+  };
+}
+
+function listCheck(input: {
+  rule: EligibilityRuleKey;
+  noun: string;
+  value: string | null | undefined;
+  allow: string[] | undefined;
+  deny: string[] | undefined;
+  matches: (listed: string, value: string) => boolean;
+}): EligibilityCheck | null {
+  const allow = input.allow ?? [];
+  const deny = input.deny ?? [];
+  if (allow.length === 0 && deny.length === 0) return null;
+
+  const value = (input.value ?? "").trim();
+  if (!value) return { rule: input.rule, status: "unknown", message: `Vehicle ${input.noun} unknown; the ${input.noun} list was not checked.` };
+
+  const denied = deny.find((d) => input.matches(d, value));
+  if (denied) return { rule: input.rule, status: "fail", message: `${value} is excluded from this plan.` };
+  if (allow.length > 0 && !allow.some((a) => input.matches(a, value))) {
+    return { rule: input.rule, status: "fail", message: `${value} is not an eligible ${input.noun} (${allow.join(", ")}).` };
+  }
+  return { rule: input.rule, status: "pass", message: `${value} is an eligible ${input.noun}.` };
+}
+
+function powertrainAllowed(rule: PowertrainEligibility, powertrain: Exclude<VehiclePowertrain, "UNKNOWN">) {
+  if (rule === "ALL") return true;
+  if (rule === "ELECTRIFIED") return powertrain !== "ICE";
+  return rule === powertrain;
+}
+
+function monthsBetween(from: Date, to: Date) {
+  let months = (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+  if (to.getDate() < from.getDate()) months -= 1;
+  return months;
+}
+
+export function evaluateEligibility(rules: EligibilityRules, vehicle: EligibilityVehicle, now: Date = new Date()): EligibilityResult {
+  const checks: EligibilityCheck[] = [];
+
+  const maxAge = positiveNumber(rules.maxVehicleAgeYears);
+  if (maxAge !== null) {
+    const year = typeof vehicle.year === "number" && vehicle.year > 0 ? vehicle.year : null;
+    if (year === null) {
+      checks.push({ rule: "MAX_AGE", status: "unknown", message: `Vehicle year unknown; the ${maxAge}-year age limit was not checked.` });
+    } else {
+      const age = now.getFullYear() - year;
+      checks.push(
+        age > maxAge
+          ? { rule: "MAX_AGE", status: "fail", message: `A ${year} vehicle is ${age} years old; this plan covers vehicles up to ${maxAge} years old.` }
+          : { rule: "MAX_AGE", status: "pass", message: `A ${year} vehicle is within the ${maxAge}-year age limit.` },
+      );
+    }
+  }
+
+  const maxMileage = positiveNumber(rules.maxMileageKm);
+  if (maxMileage !== null) {
+    const km = typeof vehicle.mileageKm === "number" && Number.isFinite(vehicle.mileageKm) && vehicle.mileageKm >= 0 ? vehicle.mileageKm : null;
+    if (km === null) {
+      checks.push({ rule: "MAX_MILEAGE", status: "unknown", message: `Mileage not entered; the ${maxMileage.toLocaleString()} km limit was not checked.` });
+    } else {
+      checks.push(
+        km > maxMileage
+          ? { rule: "MAX_MILEAGE", status: "fail", message: `${km.toLocaleString()} km is over this plan's ${maxMileage.toLocaleString()} km limit.` }
+          : { rule: "MAX_MILEAGE", status: "pass", message: `${km.toLocaleString()} km is within the ${maxMileage.toLocaleString()} km limit.` },
+      );
+    }
+  }
+
+  const make = listCheck({ rule: "MAKE", noun: "make", value: vehicle.make, allow: rules.makeAllowlist, deny: rules.makeDenylist, matches: sameMake });
+  if (make) checks.push(make);
+  const model = listCheck({ rule: "MODEL", noun: "model", value: vehicle.model, allow: rules.modelAllowlist, deny: rules.modelDenylist, matches: modelMatches });
+  if (model) checks.push(model);
+  const trim = listCheck({ rule: "TRIM", noun: "trim", value: vehicle.trim, allow: rules.trimAllowlist, deny: rules.trimDenylist, matches: modelMatches });
+  if (trim) checks.push(trim);
+
+  const powertrainRule = rules.powertrain ?? "ALL";
+  if (powertrainRule !== "ALL") {
+    const label = POWERTRAIN_ELIGIBILITY_LABELS[powertrainRule];
+    const powertrain = vehicle.powertrain && vehicle.powertrain !== "UNKNOWN" ? vehicle.powertrain : null;
+    if (!powertrain) {
+      checks.push({ rule: "POWERTRAIN", status: "unknown", message: `Powertrain unknown; this plan is ${label.toLowerCase()}.` });
+    } else {
+      checks.push(
+        powertrainAllowed(powertrainRule, powertrain)
+          ? { rule: "POWERTRAIN", status: "pass", message: `A ${POWERTRAIN_LABELS[powertrain]} vehicle is eligible (${label.toLowerCase()}).` }
+          : { rule: "POWERTRAIN", status: "fail", message: `This plan is ${label.toLowerCase()}; the vehicle is ${POWERTRAIN_LABELS[powertrain]}.` },
+      );
+    }
+  }
+
+  const maxLtv = positiveNumber(rules.maxLtvPercent);
+  if (maxLtv !== null) {
+    const loan = typeof vehicle.loanAmountCents === "number" && vehicle.loanAmountCents > 0 ? vehicle.loanAmountCents : null;
+    const value = typeof vehicle.vehicleValueCents === "number" && vehicle.vehicleValueCents > 0 ? vehicle.vehicleValueCents : null;
+    if (loan === null || value === null) {
+      checks.push({ rule: "LTV", status: "unknown", message: `Loan amount and vehicle value needed to check the ${maxLtv}% LTV limit.` });
+    } else {
+      const ltv = Math.round((loan / value) * 1000) / 10;
+      checks.push(
+        ltv > maxLtv
+          ? { rule: "LTV", status: "fail", message: `Loan-to-value is ${ltv}%; this plan allows up to ${maxLtv}%.` }
+          : { rule: "LTV", status: "pass", message: `Loan-to-value ${ltv}% is within the ${maxLtv}% limit.` },
+      );
+    }
+  }
+
+  const maxMonths = positiveNumber(rules.maxMonthsInService);
+  if (maxMonths !== null) {
+    const raw = (vehicle.inServiceDate ?? "").trim();
+    const inService = /^\d{4}-\d{2}-\d{2}$/.test(raw) ? new Date(`${raw}T12:00:00`) : null;
+    if (!inService || Number.isNaN(inService.getTime())) {
+      checks.push({ rule: "IN_SERVICE", status: "unknown", message: `In-service date not entered; the ${maxMonths}-month limit was not checked.` });
+    } else {
+      const months = monthsBetween(inService, now);
+      checks.push(
+        months > maxMonths
+          ? { rule: "IN_SERVICE", status: "fail", message: `In service since ${raw} (${months} months); this plan must be sold within ${maxMonths} months of the in-service date.` }
+          : { rule: "IN_SERVICE", status: "pass", message: `In service since ${raw}, within the ${maxMonths}-month limit.` },
+      );
+    }
+  }
+
+  const failures = checks.filter((c) => c.status === "fail");
+  return { eligible: failures.length === 0, checks, failures };
+}
+
+// Short rule descriptions for product cards and lists.
+export function describeEligibilityRules(rules: EligibilityRules): string[] {
+  const parts: string[] = [];
+  const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+  if (rules.maxVehicleAgeYears) parts.push(`Up to ${rules.maxVehicleAgeYears} years old`);
+  if (rules.maxMileageKm) parts.push(`Up to ${rules.maxMileageKm.toLocaleString()} km`);
+  if (rules.makeAllowlist?.length) parts.push(count(rules.makeAllowlist.length, "make"));
+  if (rules.makeDenylist?.length) parts.push(`Excludes ${count(rules.makeDenylist.length, "make")}`);
+  if (rules.modelAllowlist?.length) parts.push(count(rules.modelAllowlist.length, "model"));
+  if (rules.modelDenylist?.length) parts.push(`Excludes ${count(rules.modelDenylist.length, "model")}`);
+  if (rules.trimAllowlist?.length) parts.push(count(rules.trimAllowlist.length, "trim"));
+  if (rules.trimDenylist?.length) parts.push(`Excludes ${count(rules.trimDenylist.length, "trim")}`);
+  if (rules.powertrain && rules.powertrain !== "ALL") parts.push(POWERTRAIN_ELIGIBILITY_LABELS[rules.powertrain]);
+  if (rules.maxLtvPercent) parts.push(`LTV up to ${rules.maxLtvPercent}%`);
+  if (rules.maxMonthsInService) parts.push(`Within ${rules.maxMonthsInService} months of in-service`);
+  return parts;
+}
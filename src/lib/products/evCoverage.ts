@@ -0,0 +1,30 @@
+import type { CoverageItem } from "./types";
+import type { CoverageCategory } from "./typesV2";
+
+// Components only electrified vehicles have; ICE-style coverage lists never mention them.
+export const EV_COVERAGE_COMPONENTS = [
+  { id: "ev-battery", name: "High-voltage battery" },
+  { id: "ev-inverter", name: "Inverter" },
+  { id: "ev-charging-port", name: "Charging port" },
+  { id: "ev-onboard-charger", name: "On-board charger" },
+  { id: "ev-drive-motor", name: "Electric drive motor" },
+] as const;
+
+export const EV_COVERAGE_CATEGORY = "Electric Vehicle Components";
+
+export function isEvCoverageItem(item: Pick<CoverageItem, "id" | "ev">) {
+  return item.ev === true || EV_COVERAGE_COMPONENTS.some((c) => c.id === item.id);
+}
+
+// Adds any EV components the list is missing as included items; existing rows keep their status.
+export function withEvCoverageItems(items: CoverageItem[]): CoverageItem[] {
+  const names = new Set(items.map((i) => i.name.trim().toLowerCase()));
+  const ids = new Set(items.map((i) => i.id));
+  const missing = EV_COVERAGE_COMPONENTS.filter((c) => !ids.has(c.id) && !names.has(c.name.toLowerCase()));
+  return [...items, ...missing.map((c): CoverageItem => ({ id: c.id, name: c.name, status: "included", ev: true }))];
+}
+
+export function withEvCoverageCategory(categories: CoverageCategory[]): CoverageCategory[] {
+  if (categories.some((c) => c.name.trim().toLowerCase() === EV_COVERAGE_CATEGORY.toLowerCase())) return categories;
+  return [...categories, { name: EV_COVERAGE_CATEGORY, parts: EV_COVERAGE_COMPONENTS.map((c) => c.name) }];
+}
@@ -1,5 +1,15 @@
 import type { ProductsApi } from "./api";
-import type { CreateProductInput, Product, ProductType, PricingStructure, PowertrainEligibility, CoverageDetails } from "./types";
+import type {
+  CancellationRefundMethod,
+  CoverageDetails,
+  CreateProductInput,
+  PowertrainEligibility,
+  PricingStructure,
+  Product,
+  ProductType,
+  TransferPolicy,
+} from "./types";
+import { parseVehicleClassMap } from "./vehicleClass";
 
 const STORAGE_KEY = "warrantyhub.local.products";
 const DEV_BYPASS_KEY = "warrantyhub.dev.bypass_user";
@@ -37,6 +47,14 @@ function currentUserId(): string {
   throw new Error("Not authenticated");
 }
 
+function isCancellationRefundMethod(v: unknown): v is CancellationRefundMethod {
+  return v === "PRO_RATA_TIME" || v === "PRO_RATA_KM" || v === "PRO_RATA_LESSER" || v === "SHORT_RATE";
+}
+
+function isTransferPolicy(v: unknown): v is TransferPolicy {
+  return v === "NOT_TRANSFERABLE" || v === "ORIGINAL_OWNER_PRIVATE_SALE" || v === "PRIVATE_SALE" || v === "ANY";
+}
+
 function read(): Product[] {
   const raw = localStorage.getItem(STORAGE_KEY);
   if (!raw) return [];
@@ -93,9 +111,14 @@ function read(): Product[] {
           class2VehicleTypes: typeof (p as any).class2VehicleTypes === "string" ? (p as any).class2VehicleTypes : undefined,
           class3VehicleTypes: typeof (p as any).class3VehicleTypes === "string" ? (p as any).class3VehicleTypes : undefined,
           classVehicleTypes,
+          vehicleClassMap: parseVehicleClassMap((p as any).vehicleClassMap),
           termMonths: typeof p.termMonths === "number" ? p.termMonths : undefined,
           termKm: typeof p.termKm === "number" ? p.termKm : undefined,
           deductibleCents: typeof p.deductibleCents === "number" ? p.deductibleCents : undefined,
+          cancellationRefundMethod: isCancellationRefundMethod((p as any).cancellationRefundMethod) ? (p as any).cancellationRefundMethod : undefined,
+          cancellationFeeCents: typeof (p as any).cancellationFeeCents === "number" ? (p as any).cancellationFeeCents : undefined,
+          transferPolicy: isTransferPolicy((p as any).transferPolicy) ? (p as any).transferPolicy : undefined,
+          transferFeeCents: typeof (p as any).transferFeeCents === "number" ? (p as any).transferFeeCents : undefined,
           eligibilityMaxVehicleAgeYears:
             p.eligibilityMaxVehicleAgeYears === null
               ? null
@@ -117,6 +140,21 @@ function read(): Product[] {
           eligibilityTrimAllowlist: Array.isArray(p.eligibilityTrimAllowlist)
             ? (p.eligibilityTrimAllowlist.filter((x) => typeof x === "string") as string[])
             : undefined,
+          eligibilityMakeDenylist: Array.isArray(p.eligibilityMakeDenylist)
+            ? (p.eligibilityMakeDenylist.filter((x) => typeof x === "string") as string[])
+            : undefined,
+          eligibilityModelDenylist: Array.isArray(p.eligibilityModelDenylist)
+            ? (p.eligibilityModelDenylist.filter((x) => typeof x === "string") as string[])
+            : undefined,
+          eligibilityTrimDenylist: Array.isArray(p.eligibilityTrimDenylist)
+            ? (p.eligibilityTrimDenylist.filter((x) => typeof x === "string") as string[])
+            : undefined,
+          eligibilityMaxMonthsInService:
+            p.eligibilityMaxMonthsInService === null
+              ? null
+              : typeof p.eligibilityMaxMonthsInService === "number"
+                ? p.eligibilityMaxMonthsInService
+                : undefined,
           basePriceCents: typeof p.basePriceCents === "number" ? p.basePriceCents : undefined,
           dealerCostCents: typeof p.dealerCostCents === "number" ? p.dealerCostCents : undefined,
           isMostPopular: typeof (p as any).isMostPopular === "boolean" ? (p as any).isMostPopular : undefined,
@@ -169,14 +207,23 @@ export const localProductsApi: ProductsApi = {
       class2VehicleTypes: input.class2VehicleTypes,
       class3VehicleTypes: input.class3VehicleTypes,
       classVehicleTypes: input.classVehicleTypes,
+      vehicleClassMap: input.vehicleClassMap,
       termMonths: input.termMonths,
       termKm: input.termKm,
       deductibleCents: input.deductibleCents,
+      cancellationRefundMethod: input.cancellationRefundMethod,
+      cancellationFeeCents: input.cancellationFeeCents,
+      transferPolicy: input.transferPolicy,
+      transferFeeCents: input.transferFeeCents,
       eligibilityMaxVehicleAgeYears: input.eligibilityMaxVehicleAgeYears,
       eligibilityMaxMileageKm: input.eligibilityMaxMileageKm,
       eligibilityMakeAllowlist: input.eligibilityMakeAllowlist,
       eligibilityModelAllowlist: input.eligibilityModelAllowlist,
       eligibilityTrimAllowlist: input.eligibilityTrimAllowlist,
+      eligibilityMakeDenylist: input.eligibilityMakeDenylist,
+      eligibilityModelDenylist: input.eligibilityModelDenylist,
+      eligibilityTrimDenylist: input.eligibilityTrimDenylist,
+      eligibilityMaxMonthsInService: input.eligibilityMaxMonthsInService,
       basePriceCents: input.basePriceCents,
       dealerCostCents: input.dealerCostCents,
       isMostPopular: input.isMostPopular,
@@ -1,7 +1,16 @@
 import { getSupabaseClient } from "../supabase/client";
 
 import type { ProductsApi } from "./api";
-import type { CreateProductInput, CoverageDetails, Product, ProductType, PricingStructure } from "./types";
+import type {
+  CancellationRefundMethod,
+  CreateProductInput,
+  CoverageDetails,
+  Product,
+  ProductType,
+  PricingStructure,
+  TransferPolicy,
+} from "./types";
+import { parseVehicleClassMap } from "./vehicleClass";
 
 type ProductsRow = {
   id: string;
@@ -13,14 +22,23 @@ type ProductsRow = {
   coverage_details?: CoverageDetails | string | null;
   coverage_details_json?: CoverageDetails | string | null;
   class_vehicle_types?: Record<string, string> | null;
+  vehicle_class_map?: unknown;
   term_months?: number | null;
   term_km?: number | null;
   deductible_cents?: number | null;
+  cancellation_refund_method?: string | null;
+  cancellation_fee_cents?: number | null;
+  transfer_policy?: string | null;
+  transfer_fee_cents?: number | null;
   eligibility_max_vehicle_age_years?: number | null;
   eligibility_max_mileage_km?: number | null;
   eligibility_make_allowlist?: string[] | null;
   eligibility_model_allowlist?: string[] | null;
   eligibility_trim_allowlist?: string[] | null;
+  eligibility_make_denylist?: string[] | null;
+  eligibility_model_denylist?: string[] | null;
+  eligibility_trim_denylist?: string[] | null;
+  eligibility_max_months_in_service?: number | null;
   base_price_cents?: number | null;
   dealer_cost_cents?: number | null;
   is_most_popular?: boolean | null;
@@ -56,14 +74,23 @@ function toProduct(r: ProductsRow): Product {
       r.class_vehicle_types && typeof r.class_vehicle_types === "object" && !Array.isArray(r.class_vehicle_types)
         ? (r.class_vehicle_types as Record<string, string>)
         : undefined,
+    vehicleClassMap: parseVehicleClassMap(r.vehicle_class_map),
     termMonths: r.term_months ?? undefined,
     termKm: r.term_km ?? undefined,
     deductibleCents: r.deductible_cents ?? undefined,
+    cancellationRefundMethod: typeof r.cancellation_refund_method === "string" ? (r.cancellation_refund_method as CancellationRefundMethod) : undefined,
+    cancellationFeeCents: r.cancellation_fee_cents ?? undefined,
+    transferPolicy: typeof r.transfer_policy === "string" ? (r.transfer_policy as TransferPolicy) : undefined,
+    transferFeeCents: r.transfer_fee_cents ?? undefined,
     eligibilityMaxVehicleAgeYears: r.eligibility_max_vehicle_age_years ?? undefined,
     eligibilityMaxMileageKm: r.eligibility_max_mileage_km ?? undefined,
     eligibilityMakeAllowlist: r.eligibility_make_allowlist ?? undefined,
     eligibilityModelAllowlist: r.eligibility_model_allowlist ?? undefined,
     eligibilityTrimAllowlist: r.eligibility_trim_allowlist ?? undefined,
+    eligibilityMakeDenylist: r.eligibility_make_denylist ?? undefined,
+    eligibilityModelDenylist: r.eligibility_model_denylist ?? undefined,
+    eligibilityTrimDenylist: r.eligibility_trim_denylist ?? undefined,
+    eligibilityMaxMonthsInService: r.eligibility_max_months_in_service ?? undefined,
     basePriceCents: r.base_price_cents ?? undefined,
     dealerCostCents: r.dealer_cost_cents ?? undefined,
     isMostPopular: r.is_most_popular ?? undefined,
@@ -138,14 +165,23 @@ export const supabaseProductsApi: ProductsApi = {
       coverage_details: input.coverageDetails ? JSON.stringify(input.coverageDetails) : null,
       coverage_details_json: input.coverageDetails ?? null,
       class_vehicle_types: input.classVehicleTypes,
+      vehicle_class_map: input.vehicleClassMap ?? [],
       term_months: input.termMonths,
       term_km: input.termKm,
       deductible_cents: input.deductibleCents,
+      cancellation_refund_method: input.cancellationRefundMethod ?? null,
+      cancellation_fee_cents: input.cancellationFeeCents ?? null,
+      transfer_policy: input.transferPolicy ?? null,
+      transfer_fee_cents: input.transferFeeCents ?? null,
       eligibility_max_vehicle_age_years: input.eligibilityMaxVehicleAgeYears,
       eligibility_max_mileage_km: input.eligibilityMaxMileageKm,
       eligibility_make_allowlist: input.eligibilityMakeAllowlist,
       eligibility_model_allowlist: input.eligibilityModelAllowlist,
       eligibility_trim_allowlist: input.eligibilityTrimAllowlist,
+      eligibility_make_denylist: input.eligibilityMakeDenylist,
+      eligibility_model_denylist: input.eligibilityModelDenylist,
+      eligibility_trim_denylist: input.eligibilityTrimDenylist,
+      eligibility_max_months_in_service: input.eligibilityMaxMonthsInService,
       base_price_cents: input.basePriceCents,
       dealer_cost_cents: input.dealerCostCents,
       is_most_popular: input.isMostPopular ?? null,
@@ -183,9 +219,14 @@ export const supabaseProductsApi: ProductsApi = {
     if ((patch as any).classVehicleTypes && typeof (patch as any).classVehicleTypes === "object") {
       updateRow.class_vehicle_types = (patch as any).classVehicleTypes;
     }
+    if (Array.isArray(patch.vehicleClassMap)) updateRow.vehicle_class_map = patch.vehicleClassMap;
     if (typeof patch.termMonths === "number") updateRow.term_months = patch.termMonths;
     if (typeof patch.termKm === "number") updateRow.term_km = patch.termKm;
     if (typeof patch.deductibleCents === "number") updateRow.deductible_cents = patch.deductibleCents;
+    if (typeof patch.cancellationRefundMethod === "string") updateRow.cancellation_refund_method = patch.cancellationRefundMethod;
+    if (typeof patch.cancellationFeeCents === "number") updateRow.cancellation_fee_cents = patch.cancellationFeeCents;
+    if (typeof patch.transferPolicy === "string") updateRow.transfer_policy = patch.transferPolicy;
+    if (typeof patch.transferFeeCents === "number") updateRow.transfer_fee_cents = patch.transferFeeCents;
     if (patch.eligibilityMaxVehicleAgeYears === null || typeof patch.eligibilityMaxVehicleAgeYears === "number") {
       updateRow.eligibility_max_vehicle_age_years = patch.eligibilityMaxVehicleAgeYears;
     }
@@ -195,6 +236,12 @@ export const supabaseProductsApi: ProductsApi = {
     if (Array.isArray(patch.eligibilityMakeAllowlist)) updateRow.eligibility_make_allowlist = patch.eligibilityMakeAllowlist;
     if (Array.isArray(patch.eligibilityModelAllowlist)) updateRow.eligibility_model_allowlist = patch.eligibilityModelAllowlist;
     if (Array.isArray(patch.eligibilityTrimAllowlist)) updateRow.eligibility_trim_allowlist = patch.eligibilityTrimAllowlist;
+    if (Array.isArray(patch.eligibilityMakeDenylist)) updateRow.eligibility_make_denylist = patch.eligibilityMakeDenylist;
+    if (Array.isArray(patch.eligibilityModelDenylist)) updateRow.eligibility_model_denylist = patch.eligibilityModelDenylist;
+    if (Array.isArray(patch.eligibilityTrimDenylist)) updateRow.eligibility_trim_denylist = patch.eligibilityTrimDenylist;
+    if (patch.eligibilityMaxMonthsInService === null || typeof patch.eligibilityMaxMonthsInService === "number") {
+      updateRow.eligibility_max_months_in_service = patch.eligibilityMaxMonthsInService;
+    }
     if (typeof patch.basePriceCents === "number") updateRow.base_price_cents = patch.basePriceCents;
     if (typeof patch.dealerCostCents === "number") updateRow.dealer_cost_cents = patch.dealerCostCents;
     if (typeof patch.isMostPopular === "boolean") updateRow.is_most_popular = patch.isMostPopular;
@@ -39,6 +39,7 @@ function toProduct(r: any): ProductV2 {
     coverageDetails: coverage,
     pricing,
     eligibilityRules: eligibility,
+    powertrainEligibility: typeof r.powertrain_eligibility === "string" ? r.powertrain_eligibility : undefined,
     benefits: pricing && (pricing as any).benefits ? (pricing as any).benefits : undefined,
     termsSections: pricing && (pricing as any).termsSections ? (pricing as any).termsSections : undefined,
     exclusions: r.exclusions ?? undefined,
@@ -160,6 +161,7 @@ export const supabaseProductsV2Api: ProductsV2Api = {
         : { description: input.description },
       pricing_json: input.pricing ?? {},
       eligibility_rules: input.eligibilityRules ?? {},
+      powertrain_eligibility: input.powertrainEligibility ?? "ALL",
       published: input.status === "active",
     };
 
@@ -198,6 +200,7 @@ export const supabaseProductsV2Api: ProductsV2Api = {
     }
     if (patch.pricing !== undefined) updateRow.pricing_json = patch.pricing ?? {};
     if (patch.eligibilityRules !== undefined) updateRow.eligibility_rules = patch.eligibilityRules ?? {};
+    if (typeof patch.powertrainEligibility === "string") updateRow.powertrain_eligibility = patch.powertrainEligibility;
     if (typeof patch.exclusions === "string") updateRow.exclusions = patch.exclusions;
     if (typeof patch.status === "string") {
       updateRow.published = patch.status === "active";
@@ -4,18 +4,31 @@ export type PricingStructure = "FLAT" | "MILEAGE" | "CLASS" | "MILEAGE_CLASS" |
 
 export type PowertrainEligibility = "ALL" | "ICE" | "ELECTRIFIED" | "HEV" | "PHEV" | "BEV";
 
+export type CancellationRefundMethod = "PRO_RATA_TIME" | "PRO_RATA_KM" | "PRO_RATA_LESSER" | "SHORT_RATE";
+
+export type TransferPolicy = "NOT_TRANSFERABLE" | "ORIGINAL_OWNER_PRIVATE_SALE" | "PRIVATE_SALE" | "ANY";
+
 export type CoverageStatus = "included" | "not_included" | "term_specific";
 
 export interface CoverageItem {
   id: string;
   name: string;
   status: CoverageStatus;
+  // Battery, inverter, charging port and other parts that only exist on electrified vehicles.
+  ev?: boolean;
 }
 
 export interface CoverageDetails {
   items: CoverageItem[];
 }
 
+// One make/model row of a product's class table. A rule without a model covers every model of the make.
+export type VehicleClassRule = {
+  classCode: string;
+  make: string;
+  model?: string;
+};
+
 export type Product = {
   id: string;
   providerId: string;
@@ -32,14 +45,23 @@ export type Product = {
   class2VehicleTypes?: string;
   class3VehicleTypes?: string;
   classVehicleTypes?: Record<string, string>;
+  vehicleClassMap?: VehicleClassRule[];
   termMonths?: number;
   termKm?: number;
   deductibleCents?: number;
+  cancellationRefundMethod?: CancellationRefundMethod;
+  cancellationFeeCents?: number;
+  transferPolicy?: TransferPolicy;
+  transferFeeCents?: number;
   eligibilityMaxVehicleAgeYears?: number | null;
   eligibilityMaxMileageKm?: number | null;
   eligibilityMakeAllowlist?: string[];
   eligibilityModelAllowlist?: string[];
   eligibilityTrimAllowlist?: string[];
+  eligibilityMakeDenylist?: string[];
+  eligibilityModelDenylist?: string[];
+  eligibilityTrimDenylist?: string[];
+  eligibilityMaxMonthsInService?: number | null;
   basePriceCents?: number;
   dealerCostCents?: number;
   isMostPopular?: boolean;
@@ -63,14 +85,23 @@ export type CreateProductInput = {
   class2VehicleTypes?: string;
   class3VehicleTypes?: string;
   classVehicleTypes?: Record<string, string>;
+  vehicleClassMap?: VehicleClassRule[];
   termMonths?: number;
   termKm?: number;
   deductibleCents?: number;
+  cancellationRefundMethod?: CancellationRefundMethod;
+  cancellationFeeCents?: number;
+  transferPolicy?: TransferPolicy;
+  transferFeeCents?: number;
   eligibilityMaxVehicleAgeYears?: number | null;
   eligibilityMaxMileageKm?: number | null;
   eligibilityMakeAllowlist?: string[];
   eligibilityModelAllowlist?: string[];
   eligibilityTrimAllowlist?: string[];
+  eligibilityMakeDenylist?: string[];
+  eligibilityModelDenylist?: string[];
+  eligibilityTrimDenylist?: string[];
+  eligibilityMaxMonthsInService?: number | null;
   basePriceCents?: number;
   dealerCostCents?: number;
   isMostPopular?: boolean;
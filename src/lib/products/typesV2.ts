@@ -1,3 +1,5 @@
+import type { PowertrainEligibility } from "./types";
+
 export type ProductTypeV2 =
   | "VSC"
   | "GAP"
@@ -60,6 +62,7 @@ export type ProductV2 = {
   coverageDetails?: ProductCoverageDetails;
   pricing?: ProductPricing;
   eligibilityRules?: ProductEligibilityRules;
+  powertrainEligibility?: PowertrainEligibility;
   benefits?: Benefit[];
   termsSections?: TermsSection[];
   exclusions?: string;
@@ -76,6 +79,7 @@ export type CreateProductV2Input = {
   coverageDetails?: ProductCoverageDetails;
   pricing?: ProductPricing;
   eligibilityRules?: ProductEligibilityRules;
+  powertrainEligibility?: PowertrainEligibility;
   benefits?: Benefit[];
   termsSections?: TermsSection[];
   exclusions?: string;
@@ -0,0 +1,186 @@
+import type { Product, VehicleClassRule } from "./types";
+
+export type VehicleClassSource = Pick<
+  Product,
+  "vehicleClassMap" | "classVehicleTypes" | "class1VehicleTypes" | "class2VehicleTypes" | "class3VehicleTypes"
+>;
+
+export type VehicleClassMatch = "MODEL_RULE" | "MAKE_RULE" | "CLASS_LIST";
+
+export type VehicleClassResolution = {
+  classCode: string | null;
+  classLabel: string | null;
+  matchedBy: VehicleClassMatch | null;
+  explanation: string;
+};
+
+// vPIC and provider sheets spell makes differently ("MERCEDES-BENZ", "Mercedes Benz", "Chevy").
+const MAKE_ALIASES: Record<string, string> = {
+  chevy: "chevrolet",
+  mercedes: "mercedesbenz",
+  vw: "volkswagen",
+};
+
+function key(value: string | null | undefined) {
+  return (value ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function makeKey(value: string | null | undefined) {
+  const k = key(value);
+  return MAKE_ALIASES[k] ?? k;
+}
+
+export function sameMake(a: string | null | undefined, b: string | null | undefined) {
+  const ka = makeKey(a);
+  return Boolean(ka) && ka === makeKey(b);
+}
+
+// A rule for "Sprinter" covers "Sprinter 2500"; "X5" does not cover "X50".
+export function modelMatches(ruleModel: string, vehicleModel: string) {
+  const rule = ruleModel.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const vehicle = vehicleModel.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  if (rule.length === 0 || rule.length > vehicle.length) return false;
+  return rule.every((word, i) => vehicle[i] === word);
+}
+
+export function vehicleClassCode(value: string | null | undefined): string | null {
+  const raw = (value ?? "").trim();
+  if (!raw) return null;
+  const code = raw.match(/^CLASS_(\d+)$/i) ?? raw.match(/^class\s*(\d+)\b/i) ?? raw.match(/\bclass\s*(\d+)$/i);
+  return code ? `CLASS_${Number(code[1])}` : null;
+}
+
+export function vehicleClassLabel(classCode: string | null | undefined) {
+  const code = vehicleClassCode(classCode);
+  return code ? `Class ${code.slice("CLASS_".length)}` : (classCode ?? "").trim();
+}
+
+// "CLASS_2", "Class 2" and "class2" are the same class; anything else ("Class 2 · Gold") compares as text.
+export function sameVehicleClass(a: string | null | undefined, b: string | null | undefined) {
+  const bare = (v: string | null | undefined) => (/^class[\s_]*\d+$/i.test((v ?? "").trim()) ? vehicleClassCode(v) : null);
+  const ca = bare(a);
+  const cb = bare(b);
+  if (ca && cb) return ca === cb;
+  return (a ?? "").trim() === (b ?? "").trim();
+}
+
+export function parseVehicleClassMap(raw: unknown): VehicleClassRule[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((r: any): VehicleClassRule | null => {
+      const classCode = vehicleClassCode(typeof r?.classCode === "string" ? r.classCode : "");
+      const make = typeof r?.make === "string" ? r.make.trim() : "";
+      const model = typeof r?.model === "string" ? r.model.trim() : "";
+      if (!classCode || !make) return null;
+      return model ? { classCode, make, model } : { classCode, make };
+    })
+    .filter((r): r is VehicleClassRule => Boolean(r));
+}
+
+// Free-text class lists ("Acura, Cadillac, Lexus and Volvo.") as make or "make model" entries.
+function classListEntries(text: string) {
+  return text
+    .split(/[,;\n]|\band\b/i)
+    .map((s) => s.replace(/[.]+$/, "").trim())
+    .filter(Boolean);
+}
+
+// The model part of a list entry for the given make: "" for a bare make, null when the entry is another make.
+function listEntryModel(entry: string, makeK: string) {
+  const words = entry.split(/\s+/).filter(Boolean);
+  for (let i = 1; i <= words.length; i += 1) {
+    if (makeKey(words.slice(0, i).join(" ")) === makeK) return words.slice(i).join(" ");
+  }
+  return null;
+}
+
+function freeTextClassLists(source: VehicleClassSource): Array<{ classCode: string; text: string }> {
+  const lists = new Map<string, string>();
+  for (const [k, v] of Object.entries(source.classVehicleTypes ?? {})) {
+    const code = vehicleClassCode(k);
+    if (code && typeof v === "string" && v.trim()) lists.set(code, v);
+  }
+  const legacy: Array<[string, string | undefined]> = [
+    ["CLASS_1", source.class1VehicleTypes],
+    ["CLASS_2", source.class2VehicleTypes],
+    ["CLASS_3", source.class3VehicleTypes],
+  ];
+  for (const [code, text] of legacy) {
+    if (!lists.has(code) && text?.trim()) lists.set(code, text);
+  }
+  return [...lists.entries()]
+    .sort(([a], [b]) => Number(a.slice(6)) - Number(b.slice(6)))
+    .map(([classCode, text]) => ({ classCode, text }));
+}
+
+function resolved(classCode: string, matchedBy: VehicleClassMatch, explanation: string): VehicleClassResolution {
+  return { classCode, classLabel: vehicleClassLabel(classCode), matchedBy, explanation };
+}
+
+// Model rules beat make rules, and the structured table beats the free-text class lists.
+export function resolveVehicleClass(
+  vehicle: { make?: string | null; model?: string | null },
+  source: VehicleClassSource,
+): VehicleClassResolution {
+  const make = (vehicle.make ?? "").trim();
+  const model = (vehicle.model ?? "").trim();
+  const vehicleName = [make, model].filter(Boolean).join(" ");
+  if (!make) {
+    return { classCode: null, classLabel: null, matchedBy: null, explanation: "Decode the VIN to resolve the vehicle class." };
+  }
+
+  const rules = parseVehicleClassMap(source.vehicleClassMap).filter((r) => makeKey(r.make) === makeKey(make));
+  const makeRule = rules.find((r) => !r.model) ?? null;
+  const modelRule = model ? rules.find((r) => r.model && modelMatches(r.model, model)) ?? null : null;
+
+  if (modelRule) {
+    const overrides =
+      makeRule && makeRule.classCode !== modelRule.classCode
+        ? `, overriding the ${vehicleClassLabel(makeRule.classCode)} rule for other ${makeRule.make} models`
+        : "";
+    return resolved(
+      modelRule.classCode,
+      "MODEL_RULE",
+      `${vehicleName} is ${vehicleClassLabel(modelRule.classCode)}: the class table lists ${modelRule.make} ${modelRule.model} as ${vehicleClassLabel(modelRule.classCode)}${overrides}.`,
+    );
+  }
+  if (makeRule) {
+    return resolved(
+      makeRule.classCode,
+      "MAKE_RULE",
+      `${vehicleName} is ${vehicleClassLabel(makeRule.classCode)}: the class table puts every ${makeRule.make} model without its own rule in ${vehicleClassLabel(makeRule.classCode)}.`,
+    );
+  }
+
+  const makeK = makeKey(make);
+  let makeListMatch: { classCode: string; entry: string } | null = null;
+  for (const list of freeTextClassLists(source)) {
+    for (const entry of classListEntries(list.text)) {
+      const entryModel = listEntryModel(entry, makeK);
+      if (entryModel === null) continue;
+      if (!entryModel) {
+        makeListMatch ??= { classCode: list.classCode, entry };
+      } else if (model && modelMatches(entryModel, model)) {
+        return resolved(
+          list.classCode,
+          "CLASS_LIST",
+          `${vehicleName} is ${vehicleClassLabel(list.classCode)}: "${entry}" appears in the product's ${vehicleClassLabel(list.classCode)} vehicle list.`,
+        );
+      }
+    }
+  }
+  if (makeListMatch) {
+    return resolved(
+      makeListMatch.classCode,
+      "CLASS_LIST",
+      `${vehicleName} is ${vehicleClassLabel(makeListMatch.classCode)}: ${makeListMatch.entry} appears in the product's ${vehicleClassLabel(makeListMatch.classCode)} vehicle list.`,
+    );
+  }
+
+  return {
+    classCode: null,
+    classLabel: null,
+    matchedBy: null,
+    explanation: `No class rule covers ${vehicleName}. Choose the class from the provider's class list.`,
+  };
+}
@@ -0,0 +1,8 @@
+import type { CaptureContractSignaturesInput, ContractSignature } from "./types";
+
+export type ContractSignaturesApi = {
+  listByContract(contractId: string): Promise<ContractSignature[]>;
+  // Signed time, IP address and user agent are stamped by the server, and the content
+  // hash is rejected unless it matches the contract as currently stored.
+  capture(input: CaptureContractSignaturesInput): Promise<ContractSignature[]>;
+};
@@ -0,0 +1,91 @@
+import type { Contract } from "../contracts/types";
+
+import type { ContractSignature, ContractSignatureState, ContractSignerRole, SignatureCapture } from "./types";
+
+export const CONTRACT_SIGNER_ROLES: ContractSignerRole[] = ["CUSTOMER", "DEALER"];
+
+export const CONTRACT_SIGNER_ROLE_LABELS: Record<ContractSignerRole, string> = {
+  CUSTOMER: "Customer",
+  DEALER: "Dealer representative",
+};
+
+// Roughly a 600x200 canvas of handwriting; anything larger is not a signature.
+export const MAX_SIGNATURE_IMAGE_LENGTH = 300_000;
+
+const CONTENT_HEADER = "warrantyhub-contract-signature|v1";
+
+// What a signature vouches for: every contract value printed on the copies, in a fixed
+// order. The contract-signatures edge function hashes the same columns; keep them in sync.
+export const SIGNED_CONTRACT_FIELDS: Array<{ field: keyof Contract; label: string }> = [
+  { field: "contractNumber", label: "Contract number" },
+  { field: "customerName", label: "Customer name" },
+  { field: "customerEmail", label: "Customer email" },
+  { field: "customerPhone", label: "Customer phone" },
+  { field: "customerAddress", label: "Customer address" },
+  { field: "customerCity", label: "Customer city" },
+  { field: "customerProvince", label: "Customer province" },
+  { field: "customerPostalCode", label: "Customer postal code" },
+  { field: "vin", label: "VIN" },
+  { field: "vehicleYear", label: "Vehicle year" },
+  { field: "vehicleMake", label: "Vehicle make" },
+  { field: "vehicleModel", label: "Vehicle model" },
+  { field: "vehicleTrim", label: "Vehicle trim" },
+  { field: "vehicleMileageKm", label: "Mileage (km)" },
+  { field: "productId", label: "Product" },
+  { field: "productPricingVersionId", label: "Pricing version" },
+  { field: "pricingVehicleClass", label: "Vehicle class" },
+  { field: "pricingTermMonths", label: "Term (months)" },
+  { field: "pricingTermKm", label: "Term (km)" },
+  { field: "pricingDeductibleCents", label: "Deductible (cents)" },
+  { field: "pricingBasePriceCents", label: "Retail price (cents)" },
+  { field: "addonTotalRetailCents", label: "Add-on retail (cents)" },
+];
+
+function contentValue(value: unknown) {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "";
+  return String(value).trim();
+}
+
+export function signableContractContent(contract: Contract) {
+  return [CONTENT_HEADER, ...SIGNED_CONTRACT_FIELDS.map(({ field, label }) => `${label}: ${contentValue(contract[field])}`)].join("\n");
+}
+
+export async function hashContractContent(contract: Contract) {
+  const data = new TextEncoder().encode(signableContractContent(contract));
+  const hashBuffer = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function signatureCaptureProblem(signatures: SignatureCapture[]): string | null {
+  if (signatures.length === 0) return "At least one signature is required";
+  const roles = new Set<string>();
+  for (const s of signatures) {
+    if (!CONTRACT_SIGNER_ROLES.includes(s.role)) return "Unknown signer role";
+    if (roles.has(s.role)) return `${CONTRACT_SIGNER_ROLE_LABELS[s.role]} signed twice`;
+    roles.add(s.role);
+    if (!s.signerName.trim()) return `${CONTRACT_SIGNER_ROLE_LABELS[s.role]} name is required`;
+    if (!s.imageDataUrl.startsWith("data:image/png;base64,")) return `${CONTRACT_SIGNER_ROLE_LABELS[s.role]} signature is missing`;
+    if (s.imageDataUrl.length > MAX_SIGNATURE_IMAGE_LENGTH) return `${CONTRACT_SIGNER_ROLE_LABELS[s.role]} signature is too large`;
+  }
+  return null;
+}
+
+// Most recent signature per role; re-signing after a change supersedes the earlier one.
+export function latestSignatures(signatures: ContractSignature[]): Partial<Record<ContractSignerRole, ContractSignature>> {
+  const latest: Partial<Record<ContractSignerRole, ContractSignature>> = {};
+  for (const s of signatures) {
+    const current = latest[s.role];
+    if (!current || s.signedAt > current.signedAt) latest[s.role] = s;
+  }
+  return latest;
+}
+
+export function contractSignatureState(signatures: ContractSignature[], currentHash: string): ContractSignatureState {
+  const latest = Object.values(latestSignatures(signatures));
+  if (latest.length === 0) return "UNSIGNED";
+  if (latest.some((s) => s.contentHash !== currentHash)) return "OUTDATED";
+  return latest.length === CONTRACT_SIGNER_ROLES.length ? "SIGNED" : "PARTIAL";
+}
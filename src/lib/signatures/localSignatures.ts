@@ -0,0 +1,85 @@
+import { logAuditEvent } from "../auditLog";
+import { localContractsApi } from "../contracts/localContracts";
+
+import type { ContractSignaturesApi } from "./api";
+import { hashContractContent, signatureCaptureProblem } from "./content";
+import type { CaptureContractSignaturesInput, ContractSignature, ContractSignerRole } from "./types";
+
+const STORAGE_KEY = "warrantyhub.local.contract_signatures";
+
+function read(): ContractSignature[] {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<ContractSignature>[];
+    return (Array.isArray(parsed) ? parsed : [])
+      .map((s): ContractSignature => ({
+        id: typeof s.id === "string" ? s.id : crypto.randomUUID(),
+        contractId: typeof s.contractId === "string" ? s.contractId : "",
+        role: (s.role === "DEALER" ? "DEALER" : "CUSTOMER") as ContractSignerRole,
+        signerName: typeof s.signerName === "string" ? s.signerName : "",
+        signerUserId: typeof s.signerUserId === "string" ? s.signerUserId : undefined,
+        imageDataUrl: typeof s.imageDataUrl === "string" ? s.imageDataUrl : "",
+        contentHash: typeof s.contentHash === "string" ? s.contentHash : "",
+        ipAddress: typeof s.ipAddress === "string" ? s.ipAddress : undefined,
+        userAgent: typeof s.userAgent === "string" ? s.userAgent : undefined,
+        signedAt: typeof s.signedAt === "string" ? s.signedAt : new Date().toISOString(),
+      }))
+      .filter((s) => s.contractId.trim());
+  } catch {
+    return [];
+  }
+}
+
+function write(items: ContractSignature[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+export const localContractSignaturesApi: ContractSignaturesApi = {
+  async listByContract(contractId: string) {
+    return read()
+      .filter((s) => s.contractId === contractId)
+      .sort((a, b) => a.signedAt.localeCompare(b.signedAt));
+  },
+
+  // Local mode has no server to see the client's IP address, so it is left blank.
+  async capture(input: CaptureContractSignaturesInput) {
+    const problem = signatureCaptureProblem(input.signatures);
+    if (problem) throw new Error(problem);
+
+    const contract = await localContractsApi.get(input.contractId);
+    if (!contract) throw new Error("Contract not found");
+    if ((await hashContractContent(contract)) !== input.contentHash) {
+      throw new Error("The contract changed since it was displayed; review it and sign again");
+    }
+
+    const signedAt = new Date().toISOString();
+    const created = input.signatures.map(
+      (s): ContractSignature => ({
+        id: crypto.randomUUID(),
+        contractId: input.contractId,
+        role: s.role,
+        signerName: s.signerName.trim(),
+        signerUserId: s.role === "DEALER" ? input.actorUserId : undefined,
+        imageDataUrl: s.imageDataUrl,
+        contentHash: input.contentHash,
+        userAgent: typeof navigator !== "undefined" ? navigator.userAgent : undefined,
+        signedAt,
+      }),
+    );
+
+    write([...read(), ...created]);
+
+    logAuditEvent({
+      kind: "CONTRACT_SIGNED",
+      actorUserId: input.actorUserId,
+      dealerId: contract.dealerId,
+      entityType: "contract",
+      entityId: contract.id,
+      message: `Signed by ${created.map((s) => s.signerName).join(", ")}`,
+      meta: { roles: created.map((s) => s.role), contentHash: input.contentHash },
+    });
+
+    return created;
+  },
+};
@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { ContractSignaturesApi } from "./api";
+import { localContractSignaturesApi } from "./localSignatures";
+import { supabaseContractSignaturesApi } from "./supabaseSignatures";
+
+export function getContractSignaturesApi(): ContractSignaturesApi {
+  return getAppMode() === "supabase" ? supabaseContractSignaturesApi : localContractSignaturesApi;
+}
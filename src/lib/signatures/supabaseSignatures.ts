@@ -0,0 +1,63 @@
+import { getSupabaseClient } from "../supabase/client";
+import { invokeEdgeFunction } from "../supabase/functions";
+
+import type { ContractSignaturesApi } from "./api";
+import { signatureCaptureProblem } from "./content";
+import type { CaptureContractSignaturesInput, ContractSignature, ContractSignerRole } from "./types";
+
+type ContractSignaturesRow = {
+  id: string;
+  contract_id: string;
+  role: string;
+  signer_name: string;
+  signer_user_id?: string | null;
+  image_data_url: string;
+  content_hash: string;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  signed_at: string;
+};
+
+function toSignature(r: ContractSignaturesRow): ContractSignature {
+  return {
+    id: r.id,
+    contractId: r.contract_id,
+    role: r.role as ContractSignerRole,
+    signerName: r.signer_name,
+    signerUserId: r.signer_user_id ?? undefined,
+    imageDataUrl: r.image_data_url,
+    contentHash: r.content_hash,
+    ipAddress: r.ip_address ?? undefined,
+    userAgent: r.user_agent ?? undefined,
+    signedAt: r.signed_at,
+  };
+}
+
+export const supabaseContractSignaturesApi: ContractSignaturesApi = {
+  async listByContract(contractId: string) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("contract_signatures")
+      .select("*")
+      .eq("contract_id", contractId)
+      .order("signed_at", { ascending: true });
+
+    if (error) throw error;
+    return (data as ContractSignaturesRow[]).map(toSignature);
+  },
+
+  async capture(input: CaptureContractSignaturesInput) {
+    const problem = signatureCaptureProblem(input.signatures);
+    if (problem) throw new Error(problem);
+
+    const res = await invokeEdgeFunction<{ signatures: ContractSignaturesRow[] }>("contract-signatures", {
+      contractId: input.contractId,
+      contentHash: input.contentHash,
+      signatures: input.signatures,
+    });
+    if (!Array.isArray(res?.signatures)) throw new Error("Failed to save signatures");
+    return res.signatures.map(toSignature);
+  },
+};
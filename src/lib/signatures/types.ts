@@ -0,0 +1,34 @@
+export type ContractSignerRole = "CUSTOMER" | "DEALER";
+
+export type ContractSignature = {
+  id: string;
+  contractId: string;
+  role: ContractSignerRole;
+  signerName: string;
+  signerUserId?: string;
+  // PNG data URL of the strokes drawn on screen.
+  imageDataUrl: string;
+  // SHA-256 (hex) of the contract content the signer was shown; see content.ts.
+  contentHash: string;
+  ipAddress?: string;
+  userAgent?: string;
+  signedAt: string;
+};
+
+export type SignatureCapture = {
+  role: ContractSignerRole;
+  signerName: string;
+  imageDataUrl: string;
+};
+
+export type CaptureContractSignaturesInput = {
+  contractId: string;
+  contentHash: string;
+  signatures: SignatureCapture[];
+  // Local mode only; Supabase takes the signer from the session.
+  actorUserId?: string;
+};
+
+// UNSIGNED: nobody has signed. PARTIAL: one party signed the current content.
+// SIGNED: both parties signed the current content. OUTDATED: the contract changed after a signature.
+export type ContractSignatureState = "UNSIGNED" | "PARTIAL" | "SIGNED" | "OUTDATED";
@@ -0,0 +1,218 @@
+// Minimal readers for provider rate sheets. Both return the first sheet as rows of trimmed cell text;
+// row i of the result is spreadsheet row i + 1, so validation messages can point at the provider's own row numbers.
+
+export type SheetRows = string[][];
+
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  if (firstLine.includes("\t")) return "\t";
+  if (!firstLine.includes(",") && firstLine.includes(";")) return ";";
+  return ",";
+}
+
+// RFC 4180: quoted cells may contain delimiters, doubled quotes and line breaks.
+export function parseCsv(input: string): SheetRows {
+  const text = (input ?? "").replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i]!;
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i += 1;
+        } else {
+          quoted = false;
+        }
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && !cell.trim()) {
+      quoted = true;
+      cell = "";
+    } else if (ch === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+
+  if (quoted) throw new Error("CSV has an unterminated quoted cell.");
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1]!.every((c) => !c)) rows.pop();
+  return rows;
+}
+
+type ZipEntry = { name: string; method: number; compressedSize: number; localHeaderOffset: number };
+
+function zipEntries(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i -= 1) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("File is not a valid .xlsx workbook.");
+
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const out: ZipEntry[] = [];
+  for (let i = 0; i < count; i += 1) {
+    if (view.getUint32(p, true) !== 0x02014b50) throw new Error("File is not a valid .xlsx workbook.");
+    const nameLen = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const commentLen = view.getUint16(p + 32, true);
+    out.push({
+      name: decoder.decode(bytes.subarray(p + 46, p + 46 + nameLen)),
+      method: view.getUint16(p + 10, true),
+      compressedSize: view.getUint32(p + 20, true),
+      localHeaderOffset: view.getUint32(p + 42, true),
+    });
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+  return out;
+}
+
+async function inflateRaw(data: Uint8Array) {
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  }).pipeThrough(new DecompressionStream("deflate-raw") as unknown as ReadableWritablePair<Uint8Array, Uint8Array>);
+
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    total += value.length;
+  }
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+}
+
+async function readZipText(bytes: Uint8Array, entry: ZipEntry) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const p = entry.localHeaderOffset;
+  if (view.getUint32(p, true) !== 0x04034b50) throw new Error("File is not a valid .xlsx workbook.");
+  const start = p + 30 + view.getUint16(p + 26, true) + view.getUint16(p + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method === 8) return new TextDecoder().decode(await inflateRaw(data));
+  throw new Error(`Unsupported .xlsx compression (method ${entry.method}).`);
+}
+
+function parseXml(text: string) {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error("File is not a valid .xlsx workbook.");
+  return doc;
+}
+
+function columnIndex(ref: string) {
+  const letters = (ref.match(/^[A-Z]+/i)?.[0] ?? "").toUpperCase();
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+// Excel stores 0.1 + 0.2 style floats; 15 significant digits is what Excel itself displays.
+function numericCellText(v: string) {
+  const n = Number(v);
+  return Number.isFinite(n) ? String(Number(n.toPrecision(15))) : v;
+}
+
+function firstSheetPath(workbookXml: string | null, relsXml: string | null) {
+  if (!workbookXml || !relsXml) return "xl/worksheets/sheet1.xml";
+  const sheet = parseXml(workbookXml).getElementsByTagName("sheet")[0];
+  const relId = sheet?.getAttribute("r:id") ?? "";
+  const rels = Array.from(parseXml(relsXml).getElementsByTagName("Relationship"));
+  const target = rels.find((r) => r.getAttribute("Id") === relId)?.getAttribute("Target") ?? "";
+  if (!target) return "xl/worksheets/sheet1.xml";
+  return target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+}
+
+export async function parseXlsx(buffer: ArrayBuffer): Promise<SheetRows> {
+  const bytes = new Uint8Array(buffer);
+  const entries = zipEntries(bytes);
+  const byName = new Map(entries.map((e) => [e.name, e]));
+  const text = async (name: string) => {
+    const e = byName.get(name);
+    return e ? readZipText(bytes, e) : null;
+  };
+
+  const sheetPath = firstSheetPath(await text("xl/workbook.xml"), await text("xl/_rels/workbook.xml.rels"));
+  const sheetXml = await text(sheetPath);
+  if (sheetXml === null) throw new Error("Workbook has no worksheets.");
+
+  const sharedXml = await text("xl/sharedStrings.xml");
+  const shared = sharedXml
+    ? Array.from(parseXml(sharedXml).getElementsByTagName("si")).map((si) =>
+        Array.from(si.getElementsByTagName("t"))
+          .filter((t) => t.parentElement?.tagName !== "rPh")
+          .map((t) => t.textContent ?? "")
+          .join(""),
+      )
+    : [];
+
+  const rows: SheetRows = [];
+  for (const rowEl of Array.from(parseXml(sheetXml).getElementsByTagName("row"))) {
+    const rowIndex = Number(rowEl.getAttribute("r") ?? rows.length + 1) - 1;
+    const cells: string[] = [];
+    for (const c of Array.from(rowEl.getElementsByTagName("c"))) {
+      const ref = c.getAttribute("r");
+      const col = ref ? columnIndex(ref) : cells.length;
+      const type = c.getAttribute("t");
+      const v = c.getElementsByTagName("v")[0]?.textContent ?? "";
+      let value: string;
+      if (type === "s") value = shared[Number(v)] ?? "";
+      else if (type === "inlineStr") value = c.getElementsByTagName("t")[0]?.textContent ?? "";
+      else if (type === "b") value = v === "1" ? "TRUE" : "FALSE";
+      else if (type === "str" || type === "e") value = v;
+      else value = v ? numericCellText(v) : "";
+      while (cells.length < col) cells.push("");
+      cells[col] = value.trim();
+    }
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = cells;
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1]!.every((c) => !c)) rows.pop();
+  return rows;
+}
+
+export async function readSpreadsheetFile(file: File): Promise<SheetRows> {
+  const name = (file.name ?? "").toLowerCase();
+  if (name.endsWith(".xlsx")) return parseXlsx(await file.arrayBuffer());
+  if (name.endsWith(".xls")) throw new Error("Legacy .xls files aren't supported. Save the sheet as .xlsx or .csv.");
+  return parseCsv(await file.text());
+}
@@ -1,5 +1,6 @@
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
+import { readOnlyFetch } from "../impersonation/session";
 import { hasSupabaseEnv } from "../runtime";
 
 let supabase: SupabaseClient | null = null;
@@ -15,6 +16,9 @@ export function getSupabaseClient(): SupabaseClient | null {
     auth: {
       detectSessionInUrl: true,
     },
+    global: {
+      fetch: readOnlyFetch,
+    },
   });
 
   return supabase;
@@ -0,0 +1,151 @@
+import { getSupabaseClient } from "../supabase/client";
+
+export const SUPPORT_ATTACHMENTS_BUCKET = "support-attachments";
+
+export const SUPPORT_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const SUPPORT_ATTACHMENT_MAX_FILES = 5;
+
+const ALLOWED_EXTENSIONS = ["pdf", "png", "jpg", "jpeg", "gif", "webp", "heic", "txt", "csv", "doc", "docx", "xls", "xlsx"];
+
+export type SupportAttachment = {
+  id: string;
+  messageId: string;
+  conversationId: string;
+  fileName: string;
+  mimeType?: string;
+  sizeBytes?: number;
+  storagePath: string;
+  createdAt: string;
+};
+
+type SupportAttachmentRow = {
+  id: string;
+  message_id: string;
+  conversation_id: string;
+  file_name: string;
+  mime_type?: string | null;
+  size_bytes?: number | null;
+  storage_path: string;
+  created_at: string;
+};
+
+function toSupportAttachment(r: SupportAttachmentRow): SupportAttachment {
+  return {
+    id: r.id,
+    messageId: r.message_id,
+    conversationId: r.conversation_id,
+    fileName: r.file_name,
+    mimeType: r.mime_type ?? undefined,
+    sizeBytes: r.size_bytes ?? undefined,
+    storagePath: r.storage_path,
+    createdAt: r.created_at,
+  };
+}
+
+function sanitizeFilename(name: string) {
+  return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+function extensionOf(name: string) {
+  const dot = name.lastIndexOf(".");
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+// Returns a user-facing reason the file can't be attached, or null when it's fine.
+export function supportAttachmentProblem(file: { name: string; size: number }) {
+  if (!ALLOWED_EXTENSIONS.includes(extensionOf(file.name))) return `${file.name}: unsupported file type`;
+  if (file.size <= 0) return `${file.name}: file is empty`;
+  if (file.size > SUPPORT_ATTACHMENT_MAX_BYTES) return `${file.name}: larger than ${formatAttachmentSize(SUPPORT_ATTACHMENT_MAX_BYTES)}`;
+  return null;
+}
+
+export function isImageAttachment(a: { fileName: string; mimeType?: string }) {
+  if (a.mimeType) return a.mimeType.startsWith("image/");
+  return ["png", "jpg", "jpeg", "gif", "webp"].includes(extensionOf(a.fileName));
+}
+
+export function formatAttachmentSize(bytes?: number) {
+  if (typeof bytes !== "number") return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Files go under the conversation id so the storage policies can check access from the path alone.
+export function supportAttachmentPath(conversationId: string, fileName: string, id: string = crypto.randomUUID()) {
+  return `${conversationId}/${id}-${sanitizeFilename(fileName)}`;
+}
+
+export function groupSupportAttachments(attachments: SupportAttachment[]) {
+  const byMessage = new Map<string, SupportAttachment[]>();
+  for (const a of attachments) byMessage.set(a.messageId, [...(byMessage.get(a.messageId) ?? []), a]);
+  return byMessage;
+}
+
+export function assertSupportAttachments(files: File[]) {
+  if (files.length > SUPPORT_ATTACHMENT_MAX_FILES) throw new Error(`Attach up to ${SUPPORT_ATTACHMENT_MAX_FILES} files per message`);
+  const problem = files.map(supportAttachmentProblem).find(Boolean);
+  if (problem) throw new Error(problem);
+}
+
+export async function uploadSupportAttachments(input: {
+  conversationId: string;
+  messageId: string;
+  userId: string;
+  files: File[];
+}): Promise<void> {
+  if (input.files.length === 0) return;
+  const supabase = getSupabaseClient();
+  if (!supabase) throw new Error("Supabase is not configured");
+
+  const rows = [];
+  for (const file of input.files) {
+    const objectName = supportAttachmentPath(input.conversationId, file.name);
+    const uploadRes = await supabase.storage.from(SUPPORT_ATTACHMENTS_BUCKET).upload(objectName, file, {
+      upsert: false,
+      contentType: file.type || undefined,
+    });
+    if (uploadRes.error) throw uploadRes.error;
+
+    rows.push({
+      message_id: input.messageId,
+      conversation_id: input.conversationId,
+      uploaded_by_user_id: input.userId,
+      file_name: file.name,
+      mime_type: file.type || null,
+      size_bytes: file.size,
+      storage_path: objectName,
+    });
+  }
+
+  const { error } = await supabase.from("support_message_attachments").insert(rows);
+  if (error) throw error;
+}
+
+export async function listSupportAttachments(conversationId: string): Promise<SupportAttachment[]> {
+  const supabase = getSupabaseClient();
+  if (!supabase) throw new Error("Supabase is not configured");
+
+  const { data, error } = await supabase
+    .from("support_message_attachments")
+    .select("id, message_id, conversation_id, file_name, mime_type, size_bytes, storage_path, created_at")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as SupportAttachmentRow[]).map(toSupportAttachment);
+}
+
+export async function getSupportAttachmentUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+  const supabase = getSupabaseClient();
+  if (!supabase) throw new Error("Supabase is not configured");
+
+  const { data, error } = await supabase.storage.from(SUPPORT_ATTACHMENTS_BUCKET).createSignedUrls(paths, 60 * 5);
+  if (error) throw error;
+
+  const urls: Record<string, string> = {};
+  for (const item of data ?? []) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  }
+  return urls;
+}
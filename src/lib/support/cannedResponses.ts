@@ -0,0 +1,31 @@
+export type SupportCannedResponse = {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  updatedAt: string;
+};
+
+export type CannedResponseVariable = "dealer_name" | "user_name" | "user_email" | "contract_number" | "admin_name";
+
+export const CANNED_RESPONSE_VARIABLES: Array<{ key: CannedResponseVariable; label: string }> = [
+  { key: "dealer_name", label: "Dealer / company name" },
+  { key: "user_name", label: "Customer contact name" },
+  { key: "user_email", label: "Contact email" },
+  { key: "contract_number", label: "Contract number" },
+  { key: "admin_name", label: "Your name" },
+];
+
+// Fills {{variable}} placeholders. Unknown or empty variables are left in place
+// so the admin sees what still needs filling before sending.
+export function renderCannedResponse(body: string, values: Partial<Record<CannedResponseVariable, string | null | undefined>>) {
+  return body.replace(/\{\{\s*([a-z_]+)\s*\}\}/gi, (match, name: string) => {
+    const value = (values as Record<string, string | null | undefined>)[name.toLowerCase()];
+    return typeof value === "string" && value.trim() ? value.trim() : match;
+  });
+}
+
+export function unfilledCannedResponseVariables(text: string) {
+  const names = [...text.matchAll(/\{\{\s*([a-z_]+)\s*\}\}/gi)].map((m) => m[1]!.toLowerCase());
+  return [...new Set(names)];
+}
@@ -0,0 +1,29 @@
+export type SupportReferenceType = "CONTRACT" | "REMITTANCE_BATCH";
+
+export type SupportReference = {
+  type: SupportReferenceType;
+  id: string;
+};
+
+export const SUPPORT_REFERENCE_LABELS: Record<SupportReferenceType, string> = {
+  CONTRACT: "Contract",
+  REMITTANCE_BATCH: "Remittance",
+};
+
+export function toSupportReference(type: string | null | undefined, id: string | null | undefined): SupportReference | null {
+  const t = (type ?? "").trim().toUpperCase();
+  const refId = (id ?? "").trim();
+  if (!refId) return null;
+  if (t !== "CONTRACT" && t !== "REMITTANCE_BATCH") return null;
+  return { type: t, id: refId };
+}
+
+// Where the referenced record lives for the person looking at the message. Admins land on their
+// list with the record highlighted; dealers go straight to the record.
+export function supportReferenceHref(ref: SupportReference, audience: "admin" | "dealer") {
+  const id = encodeURIComponent(ref.id);
+  if (audience === "admin") {
+    return ref.type === "CONTRACT" ? `/admin/contracts?contract=${id}` : `/admin-remittances?batch=${id}`;
+  }
+  return ref.type === "CONTRACT" ? `/dealer-contracts/${id}` : `/dealer-remittances/batches/${id}/print`;
+}
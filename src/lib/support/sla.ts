@@ -0,0 +1,81 @@
+export type SupportPriority = "LOW" | "NORMAL" | "HIGH" | "URGENT";
+
+export const SUPPORT_PRIORITIES: SupportPriority[] = ["URGENT", "HIGH", "NORMAL", "LOW"];
+
+export const SUPPORT_PRIORITY_LABELS: Record<SupportPriority, string> = {
+  URGENT: "Urgent",
+  HIGH: "High",
+  NORMAL: "Normal",
+  LOW: "Low",
+};
+
+// Wall-clock hours from the user's first message in a cycle.
+export const SUPPORT_SLA_TARGETS: Record<SupportPriority, { firstResponseHours: number; resolutionHours: number }> = {
+  URGENT: { firstResponseHours: 1, resolutionHours: 8 },
+  HIGH: { firstResponseHours: 4, resolutionHours: 24 },
+  NORMAL: { firstResponseHours: 8, resolutionHours: 72 },
+  LOW: { firstResponseHours: 24, resolutionHours: 120 },
+};
+
+// A running timer is "at risk" once less than this share of its target is left.
+const AT_RISK_SHARE = 0.25;
+
+export type SlaTimerState = "none" | "running" | "at_risk" | "breached" | "met" | "met_late";
+
+export type SlaTimer = {
+  state: SlaTimerState;
+  dueAt: string | null;
+  // Time left before the deadline (negative once breached); null when the timer has stopped.
+  remainingMs: number | null;
+};
+
+export type SupportSlaInput = {
+  priority?: string | null;
+  slaStartedAt?: string | null;
+  firstRespondedAt?: string | null;
+  resolvedAt?: string | null;
+};
+
+export function toSupportPriority(value: string | null | undefined): SupportPriority {
+  const v = (value ?? "").trim().toUpperCase();
+  return v === "LOW" || v === "HIGH" || v === "URGENT" ? v : "NORMAL";
+}
+
+function timer(startMs: number, targetHours: number, stoppedAt: string | null | undefined, nowMs: number): SlaTimer {
+  const targetMs = targetHours * 60 * 60 * 1000;
+  const dueMs = startMs + targetMs;
+  const dueAt = new Date(dueMs).toISOString();
+  const stoppedMs = stoppedAt ? new Date(stoppedAt).getTime() : NaN;
+  if (Number.isFinite(stoppedMs)) {
+    return { state: stoppedMs <= dueMs ? "met" : "met_late", dueAt, remainingMs: null };
+  }
+  const remainingMs = dueMs - nowMs;
+  if (remainingMs < 0) return { state: "breached", dueAt, remainingMs };
+  return { state: remainingMs < targetMs * AT_RISK_SHARE ? "at_risk" : "running", dueAt, remainingMs };
+}
+
+export function supportSlaStatus(c: SupportSlaInput, now: Date = new Date()): { firstResponse: SlaTimer; resolution: SlaTimer } {
+  const startMs = c.slaStartedAt ? new Date(c.slaStartedAt).getTime() : NaN;
+  if (!Number.isFinite(startMs)) {
+    const none: SlaTimer = { state: "none", dueAt: null, remainingMs: null };
+    return { firstResponse: none, resolution: none };
+  }
+  const targets = SUPPORT_SLA_TARGETS[toSupportPriority(c.priority)];
+  return {
+    firstResponse: timer(startMs, targets.firstResponseHours, c.firstRespondedAt ?? c.resolvedAt, now.getTime()),
+    resolution: timer(startMs, targets.resolutionHours, c.resolvedAt, now.getTime()),
+  };
+}
+
+export function isSlaBreached(status: { firstResponse: SlaTimer; resolution: SlaTimer }) {
+  return status.firstResponse.state === "breached" || status.resolution.state === "breached";
+}
+
+export function formatSlaRemaining(ms: number) {
+  const abs = Math.abs(ms);
+  const minutes = Math.floor(abs / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  const text = days > 0 ? `${days}d ${hours % 24}h` : hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+  return ms < 0 ? `${text} overdue` : `${text} left`;
+}
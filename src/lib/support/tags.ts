@@ -0,0 +1,22 @@
+// Tags are free text typed by admins; store them lower-case and hyphenated so
+// "Billing", " billing " and "billing" report as one topic.
+export function normalizeSupportTag(value: string) {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function parseSupportTags(text: string) {
+  const tags = text.split(/[,\n]/).map(normalizeSupportTag).filter(Boolean);
+  return [...new Set(tags)];
+}
+
+export function countSupportTags(conversations: Array<{ tags?: string[] | null }>) {
+  const counts = new Map<string, number>();
+  for (const c of conversations) {
+    for (const tag of c.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
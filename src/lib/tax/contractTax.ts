@@ -0,0 +1,56 @@
+import type { Contract } from "../contracts/types";
+import type { ProductType } from "../products/types";
+
+import { calculateSalesTax, resolveTaxProvince } from "./salesTax";
+import type { SalesTaxBreakdown, TaxableLine } from "./types";
+
+type ContractAmounts = Pick<
+  Contract,
+  "pricingBasePriceCents" | "pricingDealerCostCents" | "addonSnapshot" | "addonTotalRetailCents" | "addonTotalCostCents"
+>;
+
+function snapshotAddons(snapshot: unknown, basis: "retail" | "cost"): TaxableLine[] {
+  if (!Array.isArray(snapshot)) return [];
+  return snapshot
+    .map((a: any): TaxableLine | null => {
+      const cents = basis === "retail" ? a?.chosenPriceCents : a?.basePriceCents;
+      if (typeof cents !== "number" || !Number.isFinite(cents)) return null;
+      return { label: (a?.name ?? "Add-on").toString(), amountCents: cents };
+    })
+    .filter((l): l is TaxableLine => l !== null);
+}
+
+// Retail lines are what the customer pays; cost lines are what the dealer remits to the provider.
+export function contractTaxableLines(contract: ContractAmounts, basis: "retail" | "cost", productName?: string): TaxableLine[] {
+  const baseCents =
+    basis === "retail"
+      ? contract.pricingBasePriceCents
+      : typeof contract.pricingDealerCostCents === "number"
+        ? contract.pricingDealerCostCents
+        : contract.pricingBasePriceCents;
+  const lines: TaxableLine[] = [];
+  if (typeof baseCents === "number") lines.push({ label: productName || "Product", amountCents: baseCents });
+
+  const addonTotal = (basis === "retail" ? contract.addonTotalRetailCents : contract.addonTotalCostCents) ?? 0;
+  const addons = snapshotAddons(contract.addonSnapshot, basis);
+  const itemized = addons.reduce((sum, l) => sum + l.amountCents, 0);
+  if (addons.length > 0 && itemized === addonTotal) lines.push(...addons);
+  else if (addonTotal > 0) lines.push({ label: "Add-ons", amountCents: addonTotal });
+
+  return lines;
+}
+
+export function contractSalesTax(input: {
+  contract: ContractAmounts & Pick<Contract, "customerProvince">;
+  basis: "retail" | "cost";
+  productType?: ProductType;
+  productName?: string;
+  dealershipProvince?: string | null;
+  extraLines?: TaxableLine[];
+}): SalesTaxBreakdown {
+  return calculateSalesTax({
+    province: resolveTaxProvince(input.contract.customerProvince, input.dealershipProvince),
+    productType: input.productType,
+    lines: [...contractTaxableLines(input.contract, input.basis, input.productName), ...(input.extraLines ?? [])],
+  });
+}
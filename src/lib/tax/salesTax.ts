@@ -0,0 +1,168 @@
+import type { ProductType } from "../products/types";
+
+import type {
+  ProvinceCode,
+  SalesTaxBreakdown,
+  SalesTaxComponent,
+  SalesTaxLine,
+  SalesTaxTotals,
+  TaxableLine,
+  TaxedLine,
+} from "./types";
+
+const GST: SalesTaxComponent = { kind: "GST", label: "GST 5%", rate: 0.05 };
+
+function hst(province: ProvinceCode, rate: number): SalesTaxComponent {
+  return { kind: "HST", label: `HST (${province}) ${+(rate * 100).toFixed(3)}%`, rate };
+}
+
+function pst(province: ProvinceCode, name: string, rate: number): SalesTaxComponent {
+  return { kind: "PST", label: `${name} (${province}) ${+(rate * 100).toFixed(3)}%`, rate };
+}
+
+function insurance(province: ProvinceCode, rate: number): SalesTaxComponent {
+  return { kind: "INSURANCE", label: `Insurance premium tax (${province}) ${+(rate * 100).toFixed(3)}%`, rate };
+}
+
+// Service contracts (warranty, tire & rim, appearance) are taxable supplies everywhere.
+export const SERVICE_CONTRACT_TAX: Record<ProvinceCode, SalesTaxComponent[]> = {
+  AB: [GST],
+  BC: [GST, pst("BC", "PST", 0.07)],
+  MB: [GST, pst("MB", "RST", 0.07)],
+  NB: [hst("NB", 0.15)],
+  NL: [hst("NL", 0.15)],
+  NS: [hst("NS", 0.14)],
+  NT: [GST],
+  NU: [GST],
+  ON: [hst("ON", 0.13)],
+  PE: [hst("PE", 0.15)],
+  QC: [GST, { kind: "QST", label: "QST 9.975%", rate: 0.09975 }],
+  SK: [GST, pst("SK", "PST", 0.06)],
+  YT: [GST],
+};
+
+// GAP is insurance: exempt from GST/HST, but several provinces levy their own tax on the premium.
+export const GAP_TAX: Record<ProvinceCode, SalesTaxComponent[]> = {
+  AB: [],
+  BC: [],
+  MB: [insurance("MB", 0.07)],
+  NB: [],
+  NL: [insurance("NL", 0.15)],
+  NS: [],
+  NT: [],
+  NU: [],
+  ON: [insurance("ON", 0.08)],
+  PE: [],
+  QC: [insurance("QC", 0.09)],
+  SK: [insurance("SK", 0.06)],
+  YT: [],
+};
+
+const PROVINCE_NAMES: Record<string, ProvinceCode> = {
+  ALBERTA: "AB",
+  "BRITISH COLUMBIA": "BC",
+  "COLOMBIE-BRITANNIQUE": "BC",
+  MANITOBA: "MB",
+  "NEW BRUNSWICK": "NB",
+  "NOUVEAU-BRUNSWICK": "NB",
+  "NEWFOUNDLAND AND LABRADOR": "NL",
+  "NEWFOUNDLAND & LABRADOR": "NL",
+  NEWFOUNDLAND: "NL",
+  "TERRE-NEUVE-ET-LABRADOR": "NL",
+  "NOVA SCOTIA": "NS",
+  "NOUVELLE-ECOSSE": "NS",
+  "NORTHWEST TERRITORIES": "NT",
+  "TERRITOIRES DU NORD-OUEST": "NT",
+  NUNAVUT: "NU",
+  ONTARIO: "ON",
+  "PRINCE EDWARD ISLAND": "PE",
+  "ILE-DU-PRINCE-EDOUARD": "PE",
+  QUEBEC: "QC",
+  SASKATCHEWAN: "SK",
+  YUKON: "YT",
+  "YUKON TERRITORY": "YT",
+};
+
+export function normalizeProvince(raw: string | null | undefined): ProvinceCode | null {
+  const t = (raw ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\./g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toUpperCase();
+  if (!t) return null;
+  if (t in SERVICE_CONTRACT_TAX) return t as ProvinceCode;
+  if (t === "PEI") return "PE";
+  if (t === "NF" || t === "NFLD") return "NL";
+  return PROVINCE_NAMES[t] ?? null;
+}
+
+// Tax follows where the customer lives; fall back to the selling dealership when we don't know.
+export function resolveTaxProvince(customerProvince?: string | null, dealershipProvince?: string | null) {
+  return normalizeProvince(customerProvince) ?? normalizeProvince(dealershipProvince);
+}
+
+export function salesTaxComponents(province: ProvinceCode | null, productType?: ProductType): SalesTaxComponent[] {
+  if (!province) return [];
+  return productType === "GAP" ? GAP_TAX[province] : SERVICE_CONTRACT_TAX[province];
+}
+
+function taxLine(line: TaxableLine, components: SalesTaxComponent[]): TaxedLine {
+  // Negative lines (refunds, reversals) carry negative tax so they net out in totals.
+  const amountCents = Math.round(line.amountCents);
+  const taxes = components.map(
+    (c): SalesTaxLine => ({ ...c, taxableCents: amountCents, taxCents: Math.round(amountCents * c.rate) }),
+  );
+  const taxCents = taxes.reduce((sum, t) => sum + t.taxCents, 0);
+  return { label: line.label, amountCents, taxes, taxCents, totalCents: amountCents + taxCents };
+}
+
+// Groups tax lines that share a label (same tax, same rate) so totals read like an invoice.
+function groupTaxes(lines: SalesTaxLine[]): SalesTaxLine[] {
+  const byLabel = new Map<string, SalesTaxLine>();
+  for (const t of lines) {
+    const prev = byLabel.get(t.label);
+    byLabel.set(
+      t.label,
+      prev ? { ...prev, taxableCents: prev.taxableCents + t.taxableCents, taxCents: prev.taxCents + t.taxCents } : { ...t },
+    );
+  }
+  return Array.from(byLabel.values());
+}
+
+export function calculateSalesTax(input: {
+  province: ProvinceCode | null;
+  productType?: ProductType;
+  lines: TaxableLine[];
+}): SalesTaxBreakdown {
+  const components = salesTaxComponents(input.province, input.productType);
+  const lines = input.lines.map((l) => taxLine(l, components));
+  const subtotalCents = lines.reduce((sum, l) => sum + l.amountCents, 0);
+  const taxCents = lines.reduce((sum, l) => sum + l.taxCents, 0);
+  return {
+    province: input.province,
+    lines,
+    subtotalCents,
+    taxes: groupTaxes(lines.flatMap((l) => l.taxes)),
+    taxCents,
+    totalCents: subtotalCents + taxCents,
+  };
+}
+
+export function combineSalesTax(breakdowns: SalesTaxTotals[]): SalesTaxTotals {
+  const subtotalCents = breakdowns.reduce((sum, b) => sum + b.subtotalCents, 0);
+  const taxCents = breakdowns.reduce((sum, b) => sum + b.taxCents, 0);
+  return {
+    subtotalCents,
+    taxes: groupTaxes(breakdowns.flatMap((b) => b.taxes)),
+    taxCents,
+    totalCents: subtotalCents + taxCents,
+  };
+}
+
+// Blended rate kept on batches for older screens that only know a single rate.
+export function effectiveTaxRate(totals: Pick<SalesTaxTotals, "subtotalCents" | "taxCents">) {
+  if (totals.subtotalCents <= 0) return 0;
+  return Math.round((totals.taxCents / totals.subtotalCents) * 1_000_000) / 1_000_000;
+}
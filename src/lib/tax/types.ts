@@ -0,0 +1,37 @@
+export type ProvinceCode = "AB" | "BC" | "MB" | "NB" | "NL" | "NS" | "NT" | "NU" | "ON" | "PE" | "QC" | "SK" | "YT";
+
+export type SalesTaxKind = "GST" | "HST" | "PST" | "QST" | "INSURANCE";
+
+export type SalesTaxComponent = {
+  kind: SalesTaxKind;
+  label: string;
+  rate: number;
+};
+
+export type SalesTaxLine = SalesTaxComponent & {
+  taxableCents: number;
+  taxCents: number;
+};
+
+export type TaxableLine = {
+  label: string;
+  amountCents: number;
+};
+
+export type TaxedLine = TaxableLine & {
+  taxes: SalesTaxLine[];
+  taxCents: number;
+  totalCents: number;
+};
+
+export type SalesTaxTotals = {
+  subtotalCents: number;
+  taxes: SalesTaxLine[];
+  taxCents: number;
+  totalCents: number;
+};
+
+export type SalesTaxBreakdown = SalesTaxTotals & {
+  province: ProvinceCode | null;
+  lines: TaxedLine[];
+};
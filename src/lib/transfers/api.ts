@@ -0,0 +1,7 @@
+import type { ContractTransfer, CreateContractTransferInput } from "./types";
+
+export type ContractTransfersApi = {
+  list(): Promise<ContractTransfer[]>;
+  listByContract(contractId: string): Promise<ContractTransfer[]>;
+  create(input: CreateContractTransferInput): Promise<ContractTransfer>;
+};
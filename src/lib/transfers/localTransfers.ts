@@ -0,0 +1,147 @@
+import { recordLocalContractChange } from "../contractHistory/localContractHistory";
+
+import type { ContractTransfersApi } from "./api";
+import type { ContractOwner, ContractTransfer, CreateContractTransferInput, TransferSaleType } from "./types";
+
+const STORAGE_KEY = "warrantyhub.local.contract_transfers";
+const CONTRACTS_KEY = "warrantyhub.local.contracts";
+
+function asString(v: unknown) {
+  return typeof v === "string" ? v : undefined;
+}
+
+function asOwner(v: unknown): ContractOwner {
+  const o = (typeof v === "object" && v !== null ? v : {}) as Partial<Record<keyof ContractOwner, unknown>>;
+  return {
+    name: asString(o.name) ?? "",
+    email: asString(o.email),
+    phone: asString(o.phone),
+    address: asString(o.address),
+    city: asString(o.city),
+    province: asString(o.province),
+    postalCode: asString(o.postalCode),
+  };
+}
+
+function isSaleType(v: unknown): v is TransferSaleType {
+  return v === "PRIVATE_SALE" || v === "DEALER_SALE" || v === "FAMILY";
+}
+
+function read(): ContractTransfer[] {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<ContractTransfer>[];
+    return (Array.isArray(parsed) ? parsed : [])
+      .map((t): ContractTransfer => {
+        const createdAt = typeof t.createdAt === "string" ? t.createdAt : new Date().toISOString();
+        return {
+          id: typeof t.id === "string" ? t.id : crypto.randomUUID(),
+          contractId: typeof t.contractId === "string" ? t.contractId : "",
+          transferDate: typeof t.transferDate === "string" ? t.transferDate : createdAt.slice(0, 10),
+          odometerKm: typeof t.odometerKm === "number" && Number.isFinite(t.odometerKm) ? t.odometerKm : undefined,
+          saleType: isSaleType(t.saleType) ? t.saleType : "PRIVATE_SALE",
+          previousOwner: asOwner(t.previousOwner),
+          newOwner: asOwner(t.newOwner),
+          transferFeeCents: typeof t.transferFeeCents === "number" && Number.isFinite(t.transferFeeCents) ? t.transferFeeCents : 0,
+          notes: asString(t.notes),
+          createdByUserId: asString(t.createdByUserId),
+          createdByEmail: asString(t.createdByEmail),
+          createdAt,
+        };
+      })
+      .filter((t) => t.contractId.trim());
+  } catch {
+    return [];
+  }
+}
+
+function write(items: ContractTransfer[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+}
+
+// Sold contracts are locked in the contracts API, so the new owner is written to the stored row directly.
+function applyNewOwner(contractId: string, newOwner: ContractOwner): ContractOwner | null {
+  const raw = localStorage.getItem(CONTRACTS_KEY);
+  if (!raw) return null;
+  try {
+    const contracts = JSON.parse(raw) as Record<string, unknown>[];
+    if (!Array.isArray(contracts)) return null;
+    const idx = contracts.findIndex((c) => c?.id === contractId);
+    if (idx < 0) return null;
+
+    const current = contracts[idx]!;
+    const previousOwner = asOwner({
+      name: current.customerName,
+      email: current.customerEmail,
+      phone: current.customerPhone,
+      address: current.customerAddress,
+      city: current.customerCity,
+      province: current.customerProvince,
+      postalCode: current.customerPostalCode,
+    });
+    contracts[idx] = {
+      ...current,
+      customerName: newOwner.name,
+      customerEmail: newOwner.email,
+      customerPhone: newOwner.phone,
+      customerAddress: newOwner.address,
+      customerCity: newOwner.city,
+      customerProvince: newOwner.province,
+      customerPostalCode: newOwner.postalCode,
+      updatedAt: new Date().toISOString(),
+    };
+    localStorage.setItem(CONTRACTS_KEY, JSON.stringify(contracts));
+    return previousOwner;
+  } catch {
+    return null;
+  }
+}
+
+export const localContractTransfersApi: ContractTransfersApi = {
+  async list() {
+    return read().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  async listByContract(contractId: string) {
+    return read()
+      .filter((t) => t.contractId === contractId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  async create(input: CreateContractTransferInput) {
+    if (!input.newOwner.name.trim()) throw new Error("New owner name is required");
+
+    const items = read();
+    const previousOwner = applyNewOwner(input.contractId, input.newOwner) ?? input.previousOwner;
+    const item: ContractTransfer = {
+      id: crypto.randomUUID(),
+      ...input,
+      previousOwner,
+      createdAt: new Date().toISOString(),
+    };
+
+    write([item, ...items]);
+
+    // The Supabase contract_changes trigger records the owner change; mirror it here.
+    const ownerFields: Array<[keyof ContractOwner, string]> = [
+      ["name", "customerName"],
+      ["email", "customerEmail"],
+      ["phone", "customerPhone"],
+      ["address", "customerAddress"],
+      ["city", "customerCity"],
+      ["province", "customerProvince"],
+      ["postalCode", "customerPostalCode"],
+    ];
+    recordLocalContractChange({
+      contractId: item.contractId,
+      changedAt: item.createdAt,
+      actorUserId: item.createdByUserId,
+      actorEmail: item.createdByEmail,
+      changes: ownerFields
+        .filter(([k]) => (previousOwner[k] ?? "") !== (item.newOwner[k] ?? ""))
+        .map(([k, field]) => ({ field, before: previousOwner[k] ?? null, after: item.newOwner[k] ?? null })),
+    });
+    return item;
+  },
+};
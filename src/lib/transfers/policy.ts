@@ -0,0 +1,80 @@
+import { addMonths, format } from "date-fns";
+
+import type { TransferPolicy, TransferSaleType } from "./types";
+
+// Products without an explicit policy follow the standard contract wording: one transfer, to a private buyer.
+export const DEFAULT_TRANSFER_POLICY: TransferPolicy = "ORIGINAL_OWNER_PRIVATE_SALE";
+
+export const TRANSFER_POLICY_LABELS: Record<TransferPolicy, string> = {
+  NOT_TRANSFERABLE: "Not transferable",
+  ORIGINAL_OWNER_PRIVATE_SALE: "Once, original owner to a private buyer",
+  PRIVATE_SALE: "Private sales only",
+  ANY: "Any new owner",
+};
+
+export const TRANSFER_SALE_TYPE_LABELS: Record<TransferSaleType, string> = {
+  PRIVATE_SALE: "Private sale",
+  DEALER_SALE: "Sold or traded to a dealer",
+  FAMILY: "Family transfer",
+};
+
+export type TransferCheckInput = {
+  policy: TransferPolicy | null | undefined;
+  saleType: TransferSaleType;
+  priorTransferCount: number;
+  contractStatus: string;
+  cancelled: boolean;
+  startDate: string;
+  transferDate: string;
+  termMonths: number | null | undefined;
+  termKm: number | null | undefined;
+  startOdometerKm: number | null | undefined;
+  transferOdometerKm: number | null | undefined;
+};
+
+export type TransferCheckResult = {
+  allowed: boolean;
+  reasons: string[];
+};
+
+function dateOnly(value: string) {
+  return new Date(`${value.slice(0, 10)}T00:00:00`);
+}
+
+export function checkTransferEligibility(input: TransferCheckInput): TransferCheckResult {
+  const reasons: string[] = [];
+  const policy = input.policy ?? DEFAULT_TRANSFER_POLICY;
+
+  if (input.contractStatus === "DRAFT") reasons.push("Only sold contracts can be transferred.");
+  if (input.cancelled) reasons.push("This contract has been cancelled.");
+
+  if (policy === "NOT_TRANSFERABLE") {
+    reasons.push("This plan is not transferable.");
+  } else if (policy === "ORIGINAL_OWNER_PRIVATE_SALE" && input.priorTransferCount > 0) {
+    reasons.push("This plan can only be transferred once, by the original owner.");
+  }
+  if ((policy === "ORIGINAL_OWNER_PRIVATE_SALE" || policy === "PRIVATE_SALE") && input.saleType !== "PRIVATE_SALE") {
+    reasons.push("This plan can only be transferred on a private sale.");
+  }
+
+  const start = dateOnly(input.startDate);
+  const transfer = dateOnly(input.transferDate);
+  if (transfer < start) {
+    reasons.push("The transfer date is before the contract was sold.");
+  } else if (typeof input.termMonths === "number" && input.termMonths > 0) {
+    const expires = addMonths(start, input.termMonths);
+    if (transfer >= expires) reasons.push(`The contract expired on ${format(expires, "yyyy-MM-dd")}.`);
+  }
+
+  const km = input.transferOdometerKm;
+  const startKm = input.startOdometerKm;
+  if (typeof km === "number" && typeof startKm === "number") {
+    if (km < startKm) {
+      reasons.push("The odometer is lower than it was at sale.");
+    } else if (typeof input.termKm === "number" && input.termKm > 0 && km - startKm >= input.termKm) {
+      reasons.push(`The vehicle has passed the contract's ${input.termKm.toLocaleString()} km limit.`);
+    }
+  }
+
+  return { allowed: reasons.length === 0, reasons };
+}
@@ -0,0 +1,136 @@
+import { getSupabaseClient } from "../supabase/client";
+
+import type { ContractTransfersApi } from "./api";
+import type { ContractOwner, ContractTransfer, CreateContractTransferInput, TransferSaleType } from "./types";
+
+type ContractTransfersRow = {
+  id: string;
+  contract_id: string;
+  transfer_date: string;
+  odometer_km?: number | null;
+  sale_type: string;
+  previous_owner_name: string;
+  previous_owner_email?: string | null;
+  previous_owner_phone?: string | null;
+  previous_owner_address?: string | null;
+  previous_owner_city?: string | null;
+  previous_owner_province?: string | null;
+  previous_owner_postal_code?: string | null;
+  new_owner_name: string;
+  new_owner_email?: string | null;
+  new_owner_phone?: string | null;
+  new_owner_address?: string | null;
+  new_owner_city?: string | null;
+  new_owner_province?: string | null;
+  new_owner_postal_code?: string | null;
+  transfer_fee_cents: number;
+  fee_remittance_id?: string | null;
+  notes?: string | null;
+  created_by_user_id?: string | null;
+  created_by_email?: string | null;
+  created_at: string;
+};
+
+function toTransfer(r: ContractTransfersRow): ContractTransfer {
+  return {
+    id: r.id,
+    contractId: r.contract_id,
+    transferDate: r.transfer_date,
+    odometerKm: r.odometer_km ?? undefined,
+    saleType: r.sale_type as TransferSaleType,
+    previousOwner: {
+      name: r.previous_owner_name,
+      email: r.previous_owner_email ?? undefined,
+      phone: r.previous_owner_phone ?? undefined,
+      address: r.previous_owner_address ?? undefined,
+      city: r.previous_owner_city ?? undefined,
+      province: r.previous_owner_province ?? undefined,
+      postalCode: r.previous_owner_postal_code ?? undefined,
+    },
+    newOwner: {
+      name: r.new_owner_name,
+      email: r.new_owner_email ?? undefined,
+      phone: r.new_owner_phone ?? undefined,
+      address: r.new_owner_address ?? undefined,
+      city: r.new_owner_city ?? undefined,
+      province: r.new_owner_province ?? undefined,
+      postalCode: r.new_owner_postal_code ?? undefined,
+    },
+    transferFeeCents: r.transfer_fee_cents,
+    feeRemittanceId: r.fee_remittance_id ?? undefined,
+    notes: r.notes ?? undefined,
+    createdByUserId: r.created_by_user_id ?? undefined,
+    createdByEmail: r.created_by_email ?? undefined,
+    createdAt: r.created_at,
+  };
+}
+
+function ownerColumns(prefix: "previous_owner" | "new_owner", o: ContractOwner) {
+  return {
+    [`${prefix}_name`]: o.name,
+    [`${prefix}_email`]: o.email ?? null,
+    [`${prefix}_phone`]: o.phone ?? null,
+    [`${prefix}_address`]: o.address ?? null,
+    [`${prefix}_city`]: o.city ?? null,
+    [`${prefix}_province`]: o.province ?? null,
+    [`${prefix}_postal_code`]: o.postalCode ?? null,
+  };
+}
+
+export const supabaseContractTransfersApi: ContractTransfersApi = {
+  async list() {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("contract_transfers")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return (data as ContractTransfersRow[]).map(toTransfer);
+  },
+
+  async listByContract(contractId: string) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+
+    const { data, error } = await supabase
+      .from("contract_transfers")
+      .select("*")
+      .eq("contract_id", contractId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data as ContractTransfersRow[]).map(toTransfer);
+  },
+
+  async create(input: CreateContractTransferInput) {
+    const supabase = getSupabaseClient();
+    if (!supabase) throw new Error("Supabase is not configured");
+    if (!input.newOwner.name.trim()) throw new Error("New owner name is required");
+
+    // The insert trigger re-snapshots the previous owner from the contract row, moves the contract to the
+    // new owner and posts the fee as a V2 remittance line, so providers can record a transfer without
+    // write access to contracts.
+    const { data, error } = await supabase
+      .from("contract_transfers")
+      .insert({
+        contract_id: input.contractId,
+        transfer_date: input.transferDate,
+        odometer_km: input.odometerKm ?? null,
+        sale_type: input.saleType,
+        ...ownerColumns("previous_owner", input.previousOwner),
+        ...ownerColumns("new_owner", input.newOwner),
+        transfer_fee_cents: input.transferFeeCents,
+        notes: input.notes ?? null,
+        created_by_user_id: input.createdByUserId ?? null,
+        created_by_email: input.createdByEmail ?? null,
+      })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return toTransfer(data as ContractTransfersRow);
+  },
+};
@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { ContractTransfersApi } from "./api";
+import { localContractTransfersApi } from "./localTransfers";
+import { supabaseContractTransfersApi } from "./supabaseTransfers";
+
+export function getContractTransfersApi(): ContractTransfersApi {
+  return getAppMode() === "supabase" ? supabaseContractTransfersApi : localContractTransfersApi;
+}
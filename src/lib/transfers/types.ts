@@ -0,0 +1,45 @@
+import type { TransferPolicy } from "../products/types";
+
+export type { TransferPolicy };
+
+export type TransferSaleType = "PRIVATE_SALE" | "DEALER_SALE" | "FAMILY";
+
+export type ContractOwner = {
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  city?: string;
+  province?: string;
+  postalCode?: string;
+};
+
+// Transfers are append-only: the previous owner is snapshotted here before the contract's customer is replaced.
+export type ContractTransfer = {
+  id: string;
+  contractId: string;
+  transferDate: string;
+  odometerKm?: number;
+  saleType: TransferSaleType;
+  previousOwner: ContractOwner;
+  newOwner: ContractOwner;
+  transferFeeCents: number;
+  feeRemittanceId?: string;
+  notes?: string;
+  createdByUserId?: string;
+  createdByEmail?: string;
+  createdAt: string;
+};
+
+export type CreateContractTransferInput = {
+  contractId: string;
+  transferDate: string;
+  odometerKm?: number;
+  saleType: TransferSaleType;
+  previousOwner: ContractOwner;
+  newOwner: ContractOwner;
+  transferFeeCents: number;
+  notes?: string;
+  createdByUserId?: string;
+  createdByEmail?: string;
+};
@@ -5,6 +5,14 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
+// YYYY-MM-DD in the browser's time zone (toISOString would give the UTC date).
+export function localDateString(d: Date = new Date()) {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
 export function sanitizeDigitsOnly(value: string) {
   return value.replace(/[^0-9]/g, "");
 }
@@ -0,0 +1,7 @@
+import type { VerificationResult } from "./types";
+
+export type ContractVerificationApi = {
+  // Signs a token for the contract as it stands now; callers must be able to read the contract.
+  issueToken(contractId: string): Promise<string>;
+  verify(token: string): Promise<VerificationResult>;
+};
@@ -0,0 +1,79 @@
+import { localContractCancellationsApi } from "../cancellations/localCancellations";
+import { localContractsApi } from "../contracts/localContracts";
+import { isCustomerVisibleStatus } from "../customerPortal/summary";
+
+import type { ContractVerificationApi } from "./api";
+import {
+  buildVerificationPayload,
+  generateVerificationKeyPair,
+  importVerificationPrivateKey,
+  importVerificationPublicKey,
+  signVerificationPayload,
+  verifyVerificationToken,
+} from "./token";
+
+const KEYS_KEY = "warrantyhub.local.verification_keys";
+const PRODUCTS_KEY = "warrantyhub.local.products";
+
+type StoredKeys = { publicKey: JsonWebKey; privateKey: JsonWebKey };
+
+function readKeys(): StoredKeys | null {
+  const raw = localStorage.getItem(KEYS_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredKeys>;
+    return parsed.publicKey && parsed.privateKey ? (parsed as StoredKeys) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Local mode has no server, so the browser holds the signing key it generated on first use.
+async function ensureKeys(): Promise<StoredKeys> {
+  const existing = readKeys();
+  if (existing) return existing;
+  const created = await generateVerificationKeyPair();
+  localStorage.setItem(KEYS_KEY, JSON.stringify(created));
+  return created;
+}
+
+function readProductName(productId: string | undefined) {
+  if (!productId) return "";
+  const raw = localStorage.getItem(PRODUCTS_KEY);
+  if (!raw) return "";
+  try {
+    const parsed = JSON.parse(raw) as { id?: string; name?: string }[];
+    return (Array.isArray(parsed) ? parsed : []).find((p) => p?.id === productId)?.name ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export const localContractVerificationApi: ContractVerificationApi = {
+  async issueToken(contractId) {
+    const contract = await localContractsApi.get(contractId);
+    if (!contract) throw new Error("Contract not found");
+    if (!isCustomerVisibleStatus(contract.status)) throw new Error("Only sold contracts can be verified");
+
+    const cancellation = await localContractCancellationsApi.getByContract(contract.id);
+    const keys = await ensureKeys();
+    const payload = buildVerificationPayload({
+      warrantyId: contract.warrantyId,
+      contractNumber: contract.contractNumber,
+      productName: readProductName(contract.productId),
+      soldAt: contract.soldAt,
+      createdAt: contract.createdAt,
+      termMonths: contract.pricingTermMonths,
+      termKm: contract.pricingTermKm,
+      vin: contract.vin,
+      cancelled: Boolean(cancellation),
+    });
+    return signVerificationPayload(payload, await importVerificationPrivateKey(keys.privateKey));
+  },
+
+  async verify(token) {
+    const keys = readKeys();
+    if (!keys) return { valid: false, reason: "This code was not issued by this system." };
+    return verifyVerificationToken(token, await importVerificationPublicKey(keys.publicKey));
+  },
+};
@@ -0,0 +1,27 @@
+import { invokeEdgeFunction } from "../supabase/functions";
+
+import type { ContractVerificationApi } from "./api";
+import { importVerificationPublicKey, verifyVerificationToken } from "./token";
+
+// Public half of the signing key held by the contract-verification-token edge function, as a JWK.
+function readPublicKeyJwk(): JsonWebKey {
+  const raw = (import.meta.env.VITE_CONTRACT_VERIFICATION_PUBLIC_KEY ?? "").toString().trim();
+  if (!raw) throw new Error("Contract verification is not configured");
+  try {
+    return JSON.parse(raw) as JsonWebKey;
+  } catch {
+    throw new Error("Contract verification is not configured");
+  }
+}
+
+export const supabaseContractVerificationApi: ContractVerificationApi = {
+  async issueToken(contractId) {
+    const res = await invokeEdgeFunction<{ token: string }>("contract-verification-token", { contractId });
+    if (!res?.token) throw new Error("Failed to sign verification code");
+    return res.token;
+  },
+
+  async verify(token) {
+    return verifyVerificationToken(token, await importVerificationPublicKey(readPublicKeyJwk()));
+  },
+};
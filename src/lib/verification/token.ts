@@ -0,0 +1,152 @@
+import { format } from "date-fns";
+
+import { coverageTermEndDate } from "../customerPortal/summary";
+
+import type { VerificationPayload, VerificationResult, VerificationStatus } from "./types";
+
+// Token = base64url(payload) "." base64url(ECDSA P-256 / SHA-256 signature over the payload bytes).
+// The payload is a pipe-separated list rather than JSON to keep the QR code small.
+// supabase/functions/contract-verification-token builds the same format server-side.
+const TOKEN_VERSION = "1";
+const SIGN_ALGORITHM = { name: "ECDSA", hash: "SHA-256" } as const;
+const KEY_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+
+const STATUS_CODES: Record<VerificationStatus, string> = { ACTIVE: "A", CANCELLED: "C", EXPIRED: "E" };
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+function field(v: string | number | null | undefined) {
+  return (v ?? "").toString().replace(/\|/g, "/").trim();
+}
+
+export function encodeVerificationPayload(p: VerificationPayload) {
+  return [
+    TOKEN_VERSION,
+    p.warrantyId,
+    p.contractNumber,
+    STATUS_CODES[p.status],
+    p.productName,
+    p.startDate,
+    p.termEndDate,
+    p.termMonths,
+    p.termKm,
+    p.vin,
+    p.issuedAt,
+  ]
+    .map(field)
+    .join("|");
+}
+
+export function decodeVerificationPayload(raw: string): VerificationPayload | null {
+  const parts = raw.split("|");
+  if (parts.length !== 11 || parts[0] !== TOKEN_VERSION) return null;
+  const status = (Object.keys(STATUS_CODES) as VerificationStatus[]).find((s) => STATUS_CODES[s] === parts[3]);
+  if (!status) return null;
+  const num = (v: string) => (v && Number.isFinite(Number(v)) ? Number(v) : null);
+  return {
+    warrantyId: parts[1],
+    contractNumber: parts[2],
+    status,
+    productName: parts[4],
+    startDate: parts[5],
+    termEndDate: parts[6] || null,
+    termMonths: num(parts[7]),
+    termKm: num(parts[8]),
+    vin: parts[9],
+    issuedAt: parts[10],
+  };
+}
+
+export function buildVerificationPayload(input: {
+  warrantyId: string;
+  contractNumber: string;
+  productName?: string | null;
+  soldAt?: string | null;
+  createdAt: string;
+  termMonths?: number | null;
+  termKm?: number | null;
+  vin?: string | null;
+  cancelled: boolean;
+  now?: Date;
+}): VerificationPayload {
+  const now = input.now ?? new Date();
+  const startDate = (input.soldAt ?? input.createdAt).slice(0, 10);
+  const termMonths = typeof input.termMonths === "number" ? input.termMonths : null;
+  const termEndDate = coverageTermEndDate(startDate, termMonths);
+  const today = format(now, "yyyy-MM-dd");
+  return {
+    warrantyId: input.warrantyId,
+    contractNumber: input.contractNumber,
+    status: input.cancelled ? "CANCELLED" : termEndDate && termEndDate <= today ? "EXPIRED" : "ACTIVE",
+    productName: (input.productName ?? "").trim(),
+    startDate,
+    termEndDate,
+    termMonths,
+    termKm: typeof input.termKm === "number" ? input.termKm : null,
+    vin: (input.vin ?? "").trim().toUpperCase(),
+    issuedAt: today,
+  };
+}
+
+export async function signVerificationPayload(payload: VerificationPayload, privateKey: CryptoKey) {
+  const bytes = new TextEncoder().encode(encodeVerificationPayload(payload));
+  const sig = new Uint8Array(await crypto.subtle.sign(SIGN_ALGORITHM, privateKey, bytes));
+  return `${toBase64Url(bytes)}.${toBase64Url(sig)}`;
+}
+
+// A token only proves what was true when it was printed; expiry is re-checked against today.
+export async function verifyVerificationToken(token: string, publicKey: CryptoKey, now = new Date()): Promise<VerificationResult> {
+  const [body, sig, extra] = token.trim().split(".");
+  if (!body || !sig || extra !== undefined) return { valid: false, reason: "This code is not a contract verification code." };
+
+  let bytes: Uint8Array;
+  let signature: Uint8Array;
+  try {
+    bytes = fromBase64Url(body);
+    signature = fromBase64Url(sig);
+  } catch {
+    return { valid: false, reason: "This code is not a contract verification code." };
+  }
+
+  const ok = await crypto.subtle.verify(SIGN_ALGORITHM, publicKey, signature as BufferSource, bytes as BufferSource);
+  if (!ok) return { valid: false, reason: "The signature does not match. This copy may have been altered." };
+
+  const payload = decodeVerificationPayload(new TextDecoder().decode(bytes));
+  if (!payload) return { valid: false, reason: "This code is not a contract verification code." };
+
+  const today = format(now, "yyyy-MM-dd");
+  const status: VerificationStatus =
+    payload.status === "CANCELLED" ? "CANCELLED" : payload.termEndDate && payload.termEndDate <= today ? "EXPIRED" : payload.status;
+  return { valid: true, payload, status };
+}
+
+export function importVerificationPublicKey(jwk: JsonWebKey) {
+  return crypto.subtle.importKey("jwk", jwk, KEY_ALGORITHM, false, ["verify"]);
+}
+
+export function importVerificationPrivateKey(jwk: JsonWebKey) {
+  return crypto.subtle.importKey("jwk", jwk, KEY_ALGORITHM, false, ["sign"]);
+}
+
+export async function generateVerificationKeyPair() {
+  const pair = (await crypto.subtle.generateKey(KEY_ALGORITHM, true, ["sign", "verify"])) as CryptoKeyPair;
+  return {
+    publicKey: await crypto.subtle.exportKey("jwk", pair.publicKey),
+    privateKey: await crypto.subtle.exportKey("jwk", pair.privateKey),
+  };
+}
+
+export function verificationUrl(origin: string, token: string) {
+  // The token travels in the fragment so it never reaches server logs.
+  return `${origin.replace(/\/+$/, "")}/verify#${token}`;
+}
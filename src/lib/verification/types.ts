@@ -0,0 +1,19 @@
+export type VerificationStatus = "ACTIVE" | "CANCELLED" | "EXPIRED";
+
+// What a printed contract vouches for. Kept short: every character grows the QR code.
+export type VerificationPayload = {
+  warrantyId: string;
+  contractNumber: string;
+  status: VerificationStatus;
+  productName: string;
+  startDate: string;
+  termEndDate: string | null;
+  termMonths: number | null;
+  termKm: number | null;
+  vin: string;
+  issuedAt: string;
+};
+
+export type VerificationResult =
+  | { valid: true; payload: VerificationPayload; status: VerificationStatus }
+  | { valid: false; reason: string };
@@ -0,0 +1,9 @@
+import { getAppMode } from "../runtime";
+
+import type { ContractVerificationApi } from "./api";
+import { localContractVerificationApi } from "./localVerification";
+import { supabaseContractVerificationApi } from "./supabaseVerification";
+
+export function getContractVerificationApi(): ContractVerificationApi {
+  return getAppMode() === "supabase" ? supabaseContractVerificationApi : localContractVerificationApi;
+}
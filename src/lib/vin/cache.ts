@@ -0,0 +1,74 @@
+import type { VinDecoded } from "./decodeVin";
+
+// Where online decodes are remembered so a VIN seen once resolves again without network.
+export type VinDecodeCache = {
+  get(vin: string): VinDecoded | null;
+  set(vin: string, decoded: VinDecoded): void;
+};
+
+const STORAGE_KEY = "warrantyhub.local.vin_decode_cache";
+const MAX_ENTRIES = 500;
+
+type StoredEntry = { decoded: VinDecoded; savedAt: string };
+
+function read(): Record<string, StoredEntry> {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Partial<StoredEntry>>;
+    const out: Record<string, StoredEntry> = {};
+    for (const [vin, e] of Object.entries(parsed ?? {})) {
+      if (!e?.decoded || typeof e.decoded !== "object" || e.decoded.vin !== vin) continue;
+      out[vin] = { decoded: e.decoded, savedAt: e.savedAt ?? new Date(0).toISOString() };
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+function write(items: Record<string, StoredEntry>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch {
+    // Storage full or unavailable: the cache is an optimisation, so decoding carries on without it.
+  }
+}
+
+export const localStorageVinCache: VinDecodeCache = {
+  get(vin) {
+    return read()[vin]?.decoded ?? null;
+  },
+  set(vin, decoded) {
+    const items = read();
+    items[vin] = { decoded, savedAt: new Date().toISOString() };
+    const keys = Object.keys(items);
+    if (keys.length > MAX_ENTRIES) {
+      keys
+        .sort((a, b) => items[a]!.savedAt.localeCompare(items[b]!.savedAt))
+        .slice(0, keys.length - MAX_ENTRIES)
+        .forEach((k) => delete items[k]);
+    }
+    write(items);
+  },
+};
+
+export function createMemoryVinCache(): VinDecodeCache {
+  const items = new Map<string, VinDecoded>();
+  return {
+    get: (vin) => items.get(vin) ?? null,
+    set: (vin, decoded) => {
+      items.set(vin, decoded);
+    },
+  };
+}
+
+let activeCache: VinDecodeCache = localStorageVinCache;
+
+export function getVinDecodeCache() {
+  return activeCache;
+}
+
+export function setVinDecodeCache(cache: VinDecodeCache) {
+  activeCache = cache;
+}
@@ -1,5 +1,15 @@
+import { getVinDecodeCache, type VinDecodeCache } from "./cache";
+import { validateVin, vinModelYear } from "./vin";
+import { wmiCountry, wmiManufacturer } from "./wmi";
+
+// offline: check digit, model year and WMI tables only; vpic: enriched from NHTSA; cache: an earlier vpic decode.
+export type VinDecodeSource = "offline" | "cache" | "vpic";
+
 export type VinDecoded = {
   vin: string;
+  source?: VinDecodeSource;
+  // Set when the decode is partial, e.g. offline only or vPIC flagged the VIN.
+  decodeWarning?: string;
   vehicleYear?: string;
   vehicleMake?: string;
   vehicleModel?: string;
@@ -13,6 +23,7 @@ export type VinDecoded = {
   vehicleEngine?: string;
   vehicleBodyClass?: string;
   vehicleBodyStyle?: string;
+  vehicleType?: string;
   vehicleTransmission?: string;
   manufacturedIn?: string;
   tires?: string;
@@ -20,10 +31,6 @@ export type VinDecoded = {
   msrp?: string;
 };
 
-function clean(vin: string) {
-  return vin.trim().toUpperCase().replace(/[^A-Z0-9]/g, "");
-}
-
 function pickFirst(...vals: Array<string | null | undefined>) {
   for (const v of vals) {
     if (!v) continue;
@@ -66,11 +73,22 @@ function derivePowertrainType(input: { fuelTypePrimary?: string; fuelTypeSeconda
   return "UNKNOWN";
 }
 
-export async function decodeVin(vinRaw: string): Promise<VinDecoded> {
-  const vin = clean(vinRaw);
-  if (!vin) throw new Error("VIN is required");
-  if (vin.length < 10) throw new Error("VIN is too short");
+// Decodes what the VIN itself encodes, without network. Throws when the VIN is malformed or fails its check digit.
+export function decodeVinOffline(vinRaw: string, now: Date = new Date()): VinDecoded {
+  const check = validateVin(vinRaw);
+  if (!check.ok) throw new Error(check.reason);
 
+  const year = vinModelYear(check.vin, now);
+  return {
+    vin: check.vin,
+    source: "offline",
+    vehicleYear: year ? String(year) : undefined,
+    vehicleMake: wmiManufacturer(check.vin) ?? undefined,
+    manufacturedIn: wmiCountry(check.vin) ?? undefined,
+  };
+}
+
+async function decodeVinOnline(vin: string): Promise<VinDecoded> {
   const url = `https://vpic.nhtsa.dot.gov/api/vehicles/DecodeVinValuesExtended/${encodeURIComponent(vin)}?format=json`;
   const res = await fetch(url);
   if (!res.ok) {
@@ -89,6 +107,7 @@ export async function decodeVin(vinRaw: string): Promise<VinDecoded> {
   const vehicleTrim = pickFirst(row.Trim, row.Series);
   const vehicleBodyStyle = pickFirst(row.BodyClass);
   const vehicleBodyClass = vehicleBodyStyle;
+  const vehicleType = pickFirst(row.VehicleType);
 
   const fuelTypePrimary = pickFirst((row as any).FuelTypePrimary, (row as any).FuelTypePrimary2);
   const fuelTypeSecondary = pickFirst((row as any).FuelTypeSecondary, (row as any).FuelTypeSecondary2);
@@ -116,8 +135,18 @@ export async function decodeVin(vinRaw: string): Promise<VinDecoded> {
   const msrp = pickFirst(row.MSRP, row.BasePrice);
   const warranty = pickFirst(row.Warranty);
 
+  const errorCode = pickFirst(row.ErrorCode) ?? "0";
+  const decodeWarning =
+    errorCode === "0"
+      ? undefined
+      : vehicleMake || vehicleModel
+        ? "Some VIN details couldn't be verified, but year/make/model were decoded successfully."
+        : pickFirst(row.ErrorText) ?? "Partial decode — some details may be incomplete.";
+
   return {
     vin,
+    source: "vpic",
+    decodeWarning,
     vehicleYear,
     vehicleMake,
     vehicleModel,
@@ -131,6 +160,7 @@ export async function decodeVin(vinRaw: string): Promise<VinDecoded> {
     vehicleEngine: engine,
     vehicleBodyClass,
     vehicleBodyStyle,
+    vehicleType,
     vehicleTransmission,
     manufacturedIn,
     tires,
@@ -138,3 +168,38 @@ export async function decodeVin(vinRaw: string): Promise<VinDecoded> {
     msrp,
   };
 }
+
+function withoutEmpty(decoded: VinDecoded) {
+  return Object.fromEntries(Object.entries(decoded).filter(([, v]) => v !== undefined && v !== "")) as VinDecoded;
+}
+
+export type DecodeVinOptions = {
+  cache?: VinDecodeCache;
+  // false skips vPIC entirely (test environments, known-offline devices).
+  online?: boolean;
+};
+
+// Offline decode first (so a bad VIN fails fast with a clear reason), then the cache, then vPIC as enrichment.
+// When vPIC can't be reached the offline decode is returned with a warning rather than failing.
+export async function decodeVin(vinRaw: string, options: DecodeVinOptions = {}): Promise<VinDecoded> {
+  const offline = decodeVinOffline(vinRaw);
+  const cache = options.cache ?? getVinDecodeCache();
+
+  const cached = cache.get(offline.vin);
+  if (cached) return { ...cached, source: "cache" };
+  if (options.online === false) return offline;
+
+  let online: VinDecoded;
+  try {
+    online = await decodeVinOnline(offline.vin);
+  } catch {
+    return {
+      ...offline,
+      decodeWarning: "Couldn't reach the VIN decode service. Year and make were decoded offline; enter the model and trim manually.",
+    };
+  }
+
+  const merged: VinDecoded = { ...offline, ...withoutEmpty(online), source: "vpic" };
+  if (merged.vehicleModel || online.vehicleMake) cache.set(merged.vin, merged);
+  return merged;
+}
@@ -0,0 +1,62 @@
+export function normalizeVin(vin: string) {
+  return (vin ?? "").trim().toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// 49 CFR 565 transliteration; I, O and Q never appear in a VIN.
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+function charValue(ch: string) {
+  if (ch >= "0" && ch <= "9") return Number(ch);
+  return TRANSLITERATION[ch];
+}
+
+export function vinCheckDigit(vin: string) {
+  let sum = 0;
+  for (let i = 0; i < 17; i += 1) {
+    const v = charValue(vin[i] ?? "");
+    if (v === undefined) return null;
+    sum += v * WEIGHTS[i]!;
+  }
+  const r = sum % 11;
+  return r === 10 ? "X" : String(r);
+}
+
+export type VinValidation = { ok: true; vin: string; reason: null } | { ok: false; vin: string; reason: string };
+
+export function validateVin(raw: string): VinValidation {
+  const vin = normalizeVin(raw);
+  if (!vin) return { ok: false, vin, reason: "VIN is required" };
+  if (vin.length !== 17) return { ok: false, vin, reason: "VIN must be 17 characters." };
+  if (/[IOQ]/.test(vin)) return { ok: false, vin, reason: "VINs never contain the letters I, O or Q." };
+
+  const expected = vinCheckDigit(vin);
+  if (expected !== vin[8]) {
+    return {
+      ok: false,
+      vin,
+      reason: `VIN check digit doesn't match (position 9 is ${vin[8]}, expected ${expected}). Re-check the VIN for a typo.`,
+    };
+  }
+  return { ok: true, vin, reason: null };
+}
+
+const YEAR_CODES = "ABCDEFGHJKLMNPRSTVWXY123456789";
+
+// Position 10 cycles every 30 years. For cars and light trucks a letter in position 7 marks the 2010+ cycle;
+// a year more than one model year ahead is pulled back a cycle.
+export function vinModelYear(vin: string, now: Date = new Date()): number | null {
+  const code = vin[9] ?? "";
+  const idx = YEAR_CODES.indexOf(code);
+  if (idx < 0) return null;
+
+  const latest = now.getFullYear() + 1;
+  let year = 1980 + idx + (/[A-Z]/.test(vin[6] ?? "") ? 30 : 0);
+  while (year > latest) year -= 30;
+  return year;
+}
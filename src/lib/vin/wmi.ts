@@ -0,0 +1,230 @@
+// World Manufacturer Identifiers (VIN positions 1-3) for the makes dealers see on Canadian lots.
+// Not exhaustive: unknown WMIs still decode a country and model year, and vPIC fills in the rest when online.
+export const WMI_MANUFACTURERS: Record<string, string> = {
+  // Acura / Honda
+  "19U": "Acura",
+  "19X": "Honda",
+  "1HG": "Honda",
+  "2HG": "Honda",
+  "2HJ": "Honda",
+  "2HK": "Honda",
+  "2HN": "Acura",
+  "5FN": "Honda",
+  "5FP": "Honda",
+  "5J6": "Honda",
+  "5J8": "Acura",
+  "JH4": "Acura",
+  "JHL": "Honda",
+  "JHM": "Honda",
+  "SHH": "Honda",
+  "SHS": "Honda",
+  // Audi / Volkswagen / Porsche
+  "WA1": "Audi",
+  "WAU": "Audi",
+  "WUA": "Audi",
+  "1V2": "Volkswagen",
+  "1VW": "Volkswagen",
+  "3VV": "Volkswagen",
+  "3VW": "Volkswagen",
+  "WVG": "Volkswagen",
+  "WVW": "Volkswagen",
+  "WP0": "Porsche",
+  "WP1": "Porsche",
+  // BMW / Mini
+  "4US": "BMW",
+  "5UX": "BMW",
+  "5YM": "BMW",
+  "WBA": "BMW",
+  "WBS": "BMW",
+  "WBX": "BMW",
+  "WBY": "BMW",
+  "WMW": "Mini",
+  // Mercedes-Benz
+  "4JG": "Mercedes-Benz",
+  "55S": "Mercedes-Benz",
+  "W1K": "Mercedes-Benz",
+  "W1N": "Mercedes-Benz",
+  "W1V": "Mercedes-Benz",
+  "WD3": "Mercedes-Benz",
+  "WDC": "Mercedes-Benz",
+  "WDD": "Mercedes-Benz",
+  // Stellantis
+  "1C3": "Chrysler",
+  "2C3": "Chrysler",
+  "1C4": "Jeep",
+  "1J4": "Jeep",
+  "1J8": "Jeep",
+  "3C4": "Chrysler",
+  "2C4": "Chrysler",
+  "1B3": "Dodge",
+  "2B3": "Dodge",
+  "1C6": "Ram",
+  "1D7": "Ram",
+  "3C6": "Ram",
+  "3D7": "Ram",
+  "ZAC": "Jeep",
+  "ZFA": "Fiat",
+  "3C3": "Fiat",
+  "ZAR": "Alfa Romeo",
+  // Ford / Lincoln
+  "1FA": "Ford",
+  "1FB": "Ford",
+  "1FD": "Ford",
+  "1FM": "Ford",
+  "1FT": "Ford",
+  "1ZV": "Ford",
+  "2FA": "Ford",
+  "2FM": "Ford",
+  "2FT": "Ford",
+  "3FA": "Ford",
+  "3FM": "Ford",
+  "3FT": "Ford",
+  "1LN": "Lincoln",
+  "5LM": "Lincoln",
+  "2LM": "Lincoln",
+  // General Motors
+  "1G1": "Chevrolet",
+  "1GC": "Chevrolet",
+  "1GN": "Chevrolet",
+  "2G1": "Chevrolet",
+  "2GN": "Chevrolet",
+  "3G1": "Chevrolet",
+  "3GC": "Chevrolet",
+  "3GN": "Chevrolet",
+  "KL7": "Chevrolet",
+  "KL8": "Chevrolet",
+  "1GT": "GMC",
+  "1GK": "GMC",
+  "2GK": "GMC",
+  "3GK": "GMC",
+  "3GT": "GMC",
+  "1G4": "Buick",
+  "2G4": "Buick",
+  "KL4": "Buick",
+  "LRB": "Buick",
+  "1G6": "Cadillac",
+  "1GY": "Cadillac",
+  "LRE": "Cadillac",
+  // Hyundai / Kia / Genesis
+  "5NM": "Hyundai",
+  "5NP": "Hyundai",
+  "KM8": "Hyundai",
+  "KMH": "Hyundai",
+  "KMU": "Genesis",
+  "KNA": "Kia",
+  "KND": "Kia",
+  "5XX": "Kia",
+  "5XY": "Kia",
+  "3KP": "Kia",
+  // Mazda
+  "3MZ": "Mazda",
+  "3MV": "Mazda",
+  "JM1": "Mazda",
+  "JM3": "Mazda",
+  "7MM": "Mazda",
+  // Mitsubishi
+  "4A3": "Mitsubishi",
+  "JA3": "Mitsubishi",
+  "JA4": "Mitsubishi",
+  "ML3": "Mitsubishi",
+  // Nissan / Infiniti
+  "1N4": "Nissan",
+  "1N6": "Nissan",
+  "3N1": "Nissan",
+  "3N6": "Nissan",
+  "5N1": "Nissan",
+  "JN1": "Nissan",
+  "JN8": "Nissan",
+  "5N3": "Infiniti",
+  "JNK": "Infiniti",
+  "JNR": "Infiniti",
+  // Subaru
+  "4S3": "Subaru",
+  "4S4": "Subaru",
+  "JF1": "Subaru",
+  "JF2": "Subaru",
+  // Toyota / Lexus
+  "2T1": "Toyota",
+  "2T2": "Lexus",
+  "2T3": "Toyota",
+  "4T1": "Toyota",
+  "4T3": "Toyota",
+  "5TD": "Toyota",
+  "5TF": "Toyota",
+  "JT2": "Toyota",
+  "JT3": "Toyota",
+  "JTD": "Toyota",
+  "JTE": "Toyota",
+  "JTH": "Lexus",
+  "JTJ": "Lexus",
+  "JTM": "Toyota",
+  "JTN": "Toyota",
+  "58A": "Lexus",
+  // Electric and others
+  "5YJ": "Tesla",
+  "7SA": "Tesla",
+  "LRW": "Tesla",
+  "XP7": "Tesla",
+  "7FC": "Rivian",
+  "7PD": "Rivian",
+  "YV1": "Volvo",
+  "YV4": "Volvo",
+  "7JR": "Volvo",
+  "LYV": "Volvo",
+  "LPS": "Polestar",
+  "SAJ": "Jaguar",
+  "SAL": "Land Rover",
+  "SCA": "Rolls-Royce",
+  "SCB": "Bentley",
+  "SCF": "Aston Martin",
+  "ZFF": "Ferrari",
+  "ZHW": "Lamborghini",
+  "ZAM": "Maserati",
+};
+
+// VIN position 1-2 ranges assigned by SAE to each country.
+const COUNTRY_RANGES: Array<{ from: string; to: string; country: string }> = [
+  { from: "1A", to: "19", country: "United States" },
+  { from: "2A", to: "29", country: "Canada" },
+  { from: "3A", to: "3W", country: "Mexico" },
+  { from: "4A", to: "49", country: "United States" },
+  { from: "5A", to: "59", country: "United States" },
+  { from: "6A", to: "6W", country: "Australia" },
+  { from: "7A", to: "7E", country: "New Zealand" },
+  { from: "7F", to: "79", country: "United States" },
+  { from: "9A", to: "9E", country: "Brazil" },
+  { from: "JA", to: "J9", country: "Japan" },
+  { from: "KL", to: "KR", country: "South Korea" },
+  { from: "LA", to: "L9", country: "China" },
+  { from: "MA", to: "ME", country: "India" },
+  { from: "ML", to: "MR", country: "Thailand" },
+  { from: "SA", to: "SM", country: "United Kingdom" },
+  { from: "TM", to: "TV", country: "Czech Republic" },
+  { from: "VF", to: "VR", country: "France" },
+  { from: "VS", to: "VW", country: "Spain" },
+  { from: "WA", to: "W9", country: "Germany" },
+  { from: "XL", to: "XR", country: "Netherlands" },
+  { from: "YA", to: "YE", country: "Belgium" },
+  { from: "YF", to: "YK", country: "Finland" },
+  { from: "YS", to: "YW", country: "Sweden" },
+  { from: "ZA", to: "ZR", country: "Italy" },
+];
+
+// SAE orders the second position A-Z then 1-9, 0.
+const POSITION_2_ORDER = "ABCDEFGHJKLMNPRSTUVWXYZ1234567890";
+
+function rank(code: string) {
+  return POSITION_2_ORDER.indexOf(code[1] ?? "");
+}
+
+export function wmiManufacturer(vin: string) {
+  return WMI_MANUFACTURERS[vin.slice(0, 3)] ?? null;
+}
+
+export function wmiCountry(vin: string) {
+  const first = vin[0] ?? "";
+  const r = rank(vin);
+  if (r < 0) return null;
+  const range = COUNTRY_RANGES.find((c) => c.from[0] === first && r >= rank(c.from) && r <= rank(c.to));
+  return range?.country ?? null;
+}
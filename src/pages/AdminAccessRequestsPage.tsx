@@ -4,8 +4,11 @@ import { Link } from "react-router-dom";
 import { ShieldCheck, CheckCircle, XCircle, Clock, ArrowRight, User, Building2 } from "lucide-react";
 
 import { PageShell } from "../components/PageShell";
+import { OnboardingReviewPanel } from "../components/onboarding/OnboardingReviewPanel";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
+import { onboardingProgress } from "../lib/onboarding/checklist";
+import { getOnboardingApi } from "../lib/onboarding/onboarding";
 import { getAppMode } from "../lib/runtime";
 import { getSupabaseClient } from "../lib/supabase/client";
 import type { Role } from "../lib/auth/types";
@@ -86,6 +89,11 @@ function writeLocal(items: AccessRequest[]) {
   localStorage.setItem(LOCAL_KEY, JSON.stringify(items));
 }
 
+function provinceFromMessage(message?: string) {
+  const match = /^Province:\s*(.+)$/m.exec(message ?? "");
+  return match ? match[1].trim() : null;
+}
+
 function toErrorMessage(err: unknown) {
   if (err instanceof Error) return err.message;
   if (typeof err === "string") return err;
@@ -619,7 +627,19 @@ export function AdminAccessRequestsPage() {
                               void (async () => {
                                 const company = assigned.company.trim();
                                 if (!company) return;
-                                if (!(await confirmProceed(`Approve access request for ${r.email}?`))) return;
+                                let incomplete = false;
+                                if (r.requestType === "DEALER" && r.requesterId && assigned.role === "DEALER_ADMIN") {
+                                  try {
+                                    const items = await getOnboardingApi().listForApplicant(r.requesterId);
+                                    incomplete = !onboardingProgress(items, { province: provinceFromMessage(r.message) }).complete;
+                                  } catch {
+                                    incomplete = true;
+                                  }
+                                }
+                                const prompt = incomplete
+                                  ? `Dealer verification is not complete for ${r.email}. Approve anyway?`
+                                  : `Approve access request for ${r.email}?`;
+                                if (!(await confirmProceed(prompt))) return;
                                 updateStatusMutation.mutate({
                                   id: r.id,
                                   status: "APPROVED",
@@ -667,6 +687,16 @@ export function AdminAccessRequestsPage() {
                   </div>
                 )}
 
+                {r.requestType === "DEALER" && r.requesterId && !isRejected && (
+                  <div className="mt-4 ml-11">
+                    <OnboardingReviewPanel
+                      applicantUserId={r.requesterId}
+                      province={provinceFromMessage(r.message)}
+                      reviewerEmail={user?.email}
+                    />
+                  </div>
+                )}
+
                 {r.rejectionMessage && isRejected && (
                   <div className="mt-4 ml-11 text-sm rounded-xl border border-red-200 bg-red-50 dark:bg-red-950/30 p-4">
                     <div className="text-xs font-medium text-red-700 dark:text-red-400 mb-1">Rejection reason</div>
@@ -5,7 +5,8 @@ import { Building2, DollarSign, LifeBuoy, Store, FileText, Users, Activity, Aler
 
 import { Button } from "../components/ui/button";
 import { getBatchesApi } from "../lib/batches/batches";
-import type { Batch, RemittanceWorkflowStatus } from "../lib/batches/types";
+import type { Batch } from "../lib/batches/types";
+import { remittanceWorkflowStatus } from "../lib/batches/workflow";
 import { getSupabaseClient } from "../lib/supabase/client";
 import { getAppMode } from "../lib/runtime";
 
@@ -66,15 +67,7 @@ export function AdminDashboardPage() {
   const batches = (batchesQuery.data ?? []) as Batch[];
   const remittances = batches.filter((b) => Array.isArray(b.contractIds) && b.contractIds.length > 0);
 
-  const derivedWorkflow = (b: Batch): RemittanceWorkflowStatus => {
-    const s = b.remittanceStatus;
-    if (s) return s;
-    if (b.paymentStatus === "PAID") return "PAID";
-    if (b.status === "CLOSED") return "SUBMITTED";
-    return "DRAFT";
-  };
-
-  const awaitingReview = remittances.filter((r) => derivedWorkflow(r) === "SUBMITTED");
+  const awaitingReview = remittances.filter((r) => remittanceWorkflowStatus(r) === "SUBMITTED");
 
   const supportCount = openSupportQuery.data ?? 0;
   const providersCount = providersCountQuery.data ?? 0;
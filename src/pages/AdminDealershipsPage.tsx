@@ -5,6 +5,7 @@ import { Building2, Users, ChevronRight, ArrowLeft, Mail, Shield, UserCog, UserX
 
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
+import { ViewAsButton } from "../components/impersonation/ViewAsButton";
 import { PageShell } from "../components/PageShell";
 import { getAppMode } from "../lib/runtime";
 import { getSupabaseClient } from "../lib/supabase/client";
@@ -459,27 +460,30 @@ export function AdminDealershipsPage() {
                             </div>
                           </div>
                         </div>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          className="text-destructive hover:text-destructive hover:bg-destructive/10 gap-1"
-                          disabled={busy}
-                          onClick={() => {
-                            void (async () => {
-                              if (
-                                !(await confirmProceed(
-                                  `Remove ${email || userId} from this dealership? This permanently deletes their login account.`,
-                                  "Remove",
-                                ))
-                              )
-                                return;
-                              removeMemberMutation.mutate(m.id);
-                            })();
-                          }}
-                        >
-                          <UserX className="w-4 h-4" />
-                          Remove
-                        </Button>
+                        <div className="flex items-center gap-2">
+                          {m.status === "ACTIVE" ? <ViewAsButton userId={userId} email={email || undefined} disabled={busy} /> : null}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10 gap-1"
+                            disabled={busy}
+                            onClick={() => {
+                              void (async () => {
+                                if (
+                                  !(await confirmProceed(
+                                    `Remove ${email || userId} from this dealership? This permanently deletes their login account.`,
+                                    "Remove",
+                                  ))
+                                )
+                                  return;
+                                removeMemberMutation.mutate(m.id);
+                              })();
+                            }}
+                          >
+                            <UserX className="w-4 h-4" />
+                            Remove
+                          </Button>
+                        </div>
                       </div>
 
                       <div className="mt-4 grid grid-cols-1 sm:grid-cols-12 gap-3 items-end">
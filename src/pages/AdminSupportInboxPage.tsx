@@ -2,9 +2,32 @@ import { useEffect, useMemo, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 import { PageShell } from "../components/PageShell";
+import { CannedResponsesPanel } from "../components/support/CannedResponsesPanel";
+import { SupportAttachmentList } from "../components/support/SupportAttachmentList";
+import { SupportAttachmentPicker } from "../components/support/SupportAttachmentPicker";
+import { SupportReferenceCard } from "../components/support/SupportReferenceCard";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { getAppMode } from "../lib/runtime";
+import {
+  assertSupportAttachments,
+  groupSupportAttachments,
+  listSupportAttachments,
+  uploadSupportAttachments,
+} from "../lib/support/attachments";
+import { renderCannedResponse, unfilledCannedResponseVariables, type SupportCannedResponse } from "../lib/support/cannedResponses";
+import {
+  SUPPORT_PRIORITIES,
+  SUPPORT_PRIORITY_LABELS,
+  formatSlaRemaining,
+  isSlaBreached,
+  supportSlaStatus,
+  toSupportPriority,
+  type SlaTimer,
+  type SupportPriority,
+} from "../lib/support/sla";
+import { toSupportReference } from "../lib/support/references";
+import { countSupportTags, parseSupportTags } from "../lib/support/tags";
 import { getSupabaseClient } from "../lib/supabase/client";
 import { useAuth } from "../providers/AuthProvider";
 
@@ -23,6 +46,12 @@ type ConversationRow = {
   created_at: string;
   updated_at: string;
   last_message_at?: string | null;
+  assigned_admin_id?: string | null;
+  priority?: string | null;
+  tags?: string[] | null;
+  sla_started_at?: string | null;
+  first_responded_at?: string | null;
+  resolved_at?: string | null;
   user?: {
     email?: string | null;
     display_name?: string | null;
@@ -31,12 +60,28 @@ type ConversationRow = {
   } | null;
 };
 
+type AdminRow = {
+  id: string;
+  email?: string | null;
+  display_name?: string | null;
+};
+
+type CannedResponseRow = {
+  id: string;
+  title: string;
+  body: string;
+  tags?: string[] | null;
+  updated_at: string;
+};
+
 type MessageRow = {
   id: string;
   conversation_id: string;
   sender_user_id: string;
   sender_type: "USER" | "ADMIN";
   body: string;
+  ref_type?: string | null;
+  ref_id?: string | null;
   created_at: string;
 };
 
@@ -80,6 +125,41 @@ function displayUserLabel(c: ConversationRow) {
   return c.user_id.slice(0, 8);
 }
 
+function slaFor(c: ConversationRow, now: Date) {
+  return supportSlaStatus(
+    {
+      priority: c.priority,
+      slaStartedAt: c.sla_started_at,
+      firstRespondedAt: c.first_responded_at,
+      resolvedAt: c.resolved_at,
+    },
+    now,
+  );
+}
+
+const SLA_STATE_CLASSES: Record<SlaTimer["state"], string> = {
+  none: "text-muted-foreground",
+  running: "text-foreground",
+  at_risk: "text-amber-700",
+  breached: "text-destructive font-semibold",
+  met: "text-emerald-700",
+  met_late: "text-amber-700",
+};
+
+function slaLabel(t: SlaTimer) {
+  if (t.state === "none") return "—";
+  if (t.state === "met") return "Met";
+  if (t.state === "met_late") return "Met late";
+  return formatSlaRemaining(t.remainingMs ?? 0);
+}
+
+const PRIORITY_CLASSES: Record<SupportPriority, string> = {
+  URGENT: "bg-destructive text-destructive-foreground",
+  HIGH: "bg-amber-100 text-amber-800",
+  NORMAL: "bg-muted text-muted-foreground",
+  LOW: "bg-muted text-muted-foreground",
+};
+
 function isUnreadForAdmin(c: ConversationRow) {
   if (c.last_sender_type !== "USER") return false;
   if (!c.last_message_at) return false;
@@ -95,8 +175,22 @@ export function AdminSupportInboxPage() {
   const [selectedId, setSelectedId] = useState<string>("");
   const [search, setSearch] = useState("");
   const [reply, setReply] = useState("");
+  const [replyFiles, setReplyFiles] = useState<File[]>([]);
   const [roleFilter, setRoleFilter] = useState<"ALL" | "DEALER" | "PROVIDER">("ALL");
   const [statusFilter, setStatusFilter] = useState<"ALL" | ConversationStatus>("ALL");
+  const [assigneeFilter, setAssigneeFilter] = useState<"ALL" | "MINE" | "UNASSIGNED">("ALL");
+  const [priorityFilter, setPriorityFilter] = useState<"ALL" | SupportPriority>("ALL");
+  const [tagFilter, setTagFilter] = useState("");
+  const [tagsDraft, setTagsDraft] = useState<{ id: string; text: string } | null>(null);
+  const [contractNumber, setContractNumber] = useState("");
+  const [showCannedManager, setShowCannedManager] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  // SLA countdowns move on their own; refresh them once a minute.
+  useEffect(() => {
+    const t = window.setInterval(() => setNow(new Date()), 60_000);
+    return () => window.clearInterval(t);
+  }, []);
 
   const conversationsQuery = useQuery({
     queryKey: ["admin-support-conversations", mode],
@@ -108,7 +202,7 @@ export function AdminSupportInboxPage() {
       const { data, error } = await supabase
         .from("support_conversations")
         .select(
-          "id, user_id, user_email, user_role, user_company_name, last_sender_type, admin_last_read_at, user_last_read_at, status, created_at, updated_at, last_message_at, user:profiles(email, display_name, company_name, role)",
+          "id, user_id, user_email, user_role, user_company_name, last_sender_type, admin_last_read_at, user_last_read_at, status, created_at, updated_at, last_message_at, assigned_admin_id, priority, tags, sla_started_at, first_responded_at, resolved_at, user:profiles!support_conversations_user_id_fkey(email, display_name, company_name, role)",
         )
         .order("last_message_at", { ascending: false, nullsFirst: false })
         .order("updated_at", { ascending: false });
@@ -120,6 +214,55 @@ export function AdminSupportInboxPage() {
 
   const conversations = conversationsQuery.data ?? [];
 
+  const adminsQuery = useQuery({
+    queryKey: ["admin-support-admins", mode],
+    enabled: mode === "supabase",
+    queryFn: async (): Promise<AdminRow[]> => {
+      const supabase = getSupabaseClient();
+      if (!supabase) throw new Error("Supabase is not configured");
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, email, display_name")
+        .in("role", ["ADMIN", "SUPER_ADMIN"])
+        .order("email", { ascending: true });
+      if (error) throw error;
+      return (data as AdminRow[]) ?? [];
+    },
+  });
+
+  const admins = adminsQuery.data ?? [];
+  const adminLabel = (id: string | null | undefined) => {
+    if (!id) return "Unassigned";
+    const a = admins.find((x) => x.id === id);
+    return (a?.display_name ?? "").trim() || (a?.email ?? "").trim() || id.slice(0, 8);
+  };
+
+  const cannedQueryKey = ["admin-support-canned-responses", mode] as const;
+  const cannedQuery = useQuery({
+    queryKey: cannedQueryKey,
+    enabled: mode === "supabase",
+    queryFn: async (): Promise<SupportCannedResponse[]> => {
+      const supabase = getSupabaseClient();
+      if (!supabase) throw new Error("Supabase is not configured");
+      const { data, error } = await supabase
+        .from("support_canned_responses")
+        .select("id, title, body, tags, updated_at")
+        .order("title", { ascending: true });
+      if (error) throw error;
+      return ((data as CannedResponseRow[]) ?? []).map((r) => ({
+        id: r.id,
+        title: r.title,
+        body: r.body,
+        tags: r.tags ?? [],
+        updatedAt: r.updated_at,
+      }));
+    },
+  });
+
+  const cannedResponses = cannedQuery.data ?? [];
+  const topicCounts = countSupportTags(conversations);
+  const breachedCount = conversations.filter((c) => c.status !== "CLOSED" && isSlaBreached(slaFor(c, now))).length;
+
   const q = search.trim().toLowerCase();
   const filtered = conversations.filter((c) => {
     if (roleFilter !== "ALL") {
@@ -134,6 +277,10 @@ export function AdminSupportInboxPage() {
     if (statusFilter !== "ALL") {
       if (c.status !== statusFilter) return false;
     }
+    if (assigneeFilter === "MINE" && c.assigned_admin_id !== user?.id) return false;
+    if (assigneeFilter === "UNASSIGNED" && c.assigned_admin_id) return false;
+    if (priorityFilter !== "ALL" && toSupportPriority(c.priority) !== priorityFilter) return false;
+    if (tagFilter && !(c.tags ?? []).includes(tagFilter)) return false;
     if (!q) return true;
     const hay = `${c.user?.email ?? ""} ${c.user?.company_name ?? ""} ${c.user?.display_name ?? ""}`.toLowerCase();
     return hay.includes(q);
@@ -150,7 +297,7 @@ export function AdminSupportInboxPage() {
 
       const { data, error } = await supabase
         .from("support_messages")
-        .select("id, conversation_id, sender_user_id, sender_type, body, created_at")
+        .select("id, conversation_id, sender_user_id, sender_type, body, ref_type, ref_id, created_at")
         .eq("conversation_id", effectiveSelectedId)
         .order("created_at", { ascending: true });
 
@@ -159,6 +306,14 @@ export function AdminSupportInboxPage() {
     },
   });
 
+  const attachmentsQuery = useQuery({
+    queryKey: ["admin-support-attachments", mode, effectiveSelectedId],
+    enabled: mode === "supabase" && Boolean(effectiveSelectedId),
+    queryFn: () => listSupportAttachments(effectiveSelectedId),
+  });
+
+  const attachmentsByMessage = useMemo(() => groupSupportAttachments(attachmentsQuery.data ?? []), [attachmentsQuery.data]);
+
   const updateStatusMutation = useMutation({
     mutationFn: async (status: ConversationStatus) => {
       if (!effectiveSelectedId) return;
@@ -176,6 +331,23 @@ export function AdminSupportInboxPage() {
     },
   });
 
+  const updateTriageMutation = useMutation({
+    mutationFn: async (patch: { assigned_admin_id?: string | null; priority?: SupportPriority; tags?: string[] }) => {
+      if (!effectiveSelectedId) return;
+      const supabase = getSupabaseClient();
+      if (!supabase) throw new Error("Supabase is not configured");
+      const res = await supabase
+        .from("support_conversations")
+        .update({ ...patch, updated_at: new Date().toISOString() })
+        .eq("id", effectiveSelectedId);
+      if (res.error) throw res.error;
+    },
+    onSuccess: async () => {
+      setTagsDraft(null);
+      await qc.invalidateQueries({ queryKey: ["admin-support-conversations", mode] });
+    },
+  });
+
   const sendReplyMutation = useMutation({
     mutationFn: async () => {
       if (mode !== "supabase") throw new Error("Support chat requires Supabase configuration");
@@ -183,20 +355,32 @@ export function AdminSupportInboxPage() {
       if (!effectiveSelectedId) throw new Error("No conversation selected");
 
       const text = reply.trim();
-      if (!text) throw new Error("Message is required");
+      if (!text && replyFiles.length === 0) throw new Error("Message is required");
+      assertSupportAttachments(replyFiles);
 
       const supabase = getSupabaseClient();
       if (!supabase) throw new Error("Supabase is not configured");
 
-      const insertMsg = await supabase.from("support_messages").insert({
-        conversation_id: effectiveSelectedId,
-        sender_user_id: user.id,
-        sender_type: "ADMIN",
-        body: text,
-      });
+      const insertMsg = await supabase
+        .from("support_messages")
+        .insert({
+          conversation_id: effectiveSelectedId,
+          sender_user_id: user.id,
+          sender_type: "ADMIN",
+          body: text,
+        })
+        .select("id")
+        .single();
 
       if (insertMsg.error) throw insertMsg.error;
 
+      await uploadSupportAttachments({
+        conversationId: effectiveSelectedId,
+        messageId: (insertMsg.data as any).id as string,
+        userId: user.id,
+        files: replyFiles,
+      });
+
       const now = new Date().toISOString();
       const bump = await supabase
         .from("support_conversations")
@@ -213,12 +397,30 @@ export function AdminSupportInboxPage() {
     },
     onSuccess: async () => {
       setReply("");
+      setReplyFiles([]);
       await qc.invalidateQueries({ queryKey: ["admin-support-messages", mode, effectiveSelectedId] });
+      await qc.invalidateQueries({ queryKey: ["admin-support-attachments", mode, effectiveSelectedId] });
       await qc.invalidateQueries({ queryKey: ["admin-support-conversations", mode] });
     },
   });
 
   const selected = conversations.find((c) => c.id === effectiveSelectedId);
+  const selectedSla = selected ? slaFor(selected, now) : null;
+  const tagsText = tagsDraft && tagsDraft.id === effectiveSelectedId ? tagsDraft.text : (selected?.tags ?? []).join(", ");
+  const replyPlaceholders = unfilledCannedResponseVariables(reply);
+
+  const insertCannedResponse = (id: string) => {
+    const r = cannedResponses.find((x) => x.id === id);
+    if (!r || !selected) return;
+    const text = renderCannedResponse(r.body, {
+      dealer_name: selected.user?.company_name ?? selected.user_company_name,
+      user_name: selected.user?.display_name,
+      user_email: selected.user?.email ?? selected.user_email,
+      contract_number: contractNumber,
+      admin_name: adminLabel(user?.id),
+    });
+    setReply((prev) => (prev.trim() ? `${prev.trimEnd()}\n\n${text}` : text));
+  };
   const busy = conversationsQuery.isLoading || messagesQuery.isLoading || sendReplyMutation.isPending;
 
   useEffect(() => {
@@ -272,20 +474,73 @@ export function AdminSupportInboxPage() {
                 <option value="PENDING">Pending</option>
                 <option value="CLOSED">Closed</option>
               </select>
+
+              <select
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                value={assigneeFilter}
+                onChange={(e) => setAssigneeFilter(e.target.value as any)}
+              >
+                <option value="ALL">Anyone</option>
+                <option value="MINE">Assigned to me</option>
+                <option value="UNASSIGNED">Unassigned</option>
+              </select>
+
+              <select
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                value={priorityFilter}
+                onChange={(e) => setPriorityFilter(e.target.value as any)}
+              >
+                <option value="ALL">All Priorities</option>
+                {SUPPORT_PRIORITIES.map((p) => (
+                  <option key={p} value={p}>
+                    {SUPPORT_PRIORITY_LABELS[p]}
+                  </option>
+                ))}
+              </select>
             </div>
+
+            {breachedCount > 0 ? (
+              <div className="mt-3 text-xs text-destructive font-medium">
+                {breachedCount} open conversation{breachedCount === 1 ? "" : "s"} past SLA
+              </div>
+            ) : null}
+
+            {topicCounts.length > 0 ? (
+              <div className="mt-3">
+                <div className="text-xs text-muted-foreground">Topics</div>
+                <div className="mt-1 flex flex-wrap gap-1.5">
+                  {topicCounts.map(([tag, count]) => (
+                    <button
+                      key={tag}
+                      type="button"
+                      className={
+                        tagFilter === tag
+                          ? "text-[11px] rounded-full bg-primary text-primary-foreground px-2 py-0.5"
+                          : "text-[11px] rounded-full border px-2 py-0.5 hover:bg-accent/20"
+                      }
+                      onClick={() => setTagFilter((t) => (t === tag ? "" : tag))}
+                    >
+                      #{tag} · {count}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : null}
           </div>
 
           <div className="divide-y max-h-[65vh] overflow-auto">
             {filtered.map((c) => {
               const active = c.id === effectiveSelectedId;
               const unread = isUnreadForAdmin(c);
+              const priority = toSupportPriority(c.priority);
+              const breached = c.status !== "CLOSED" && isSlaBreached(slaFor(c, now));
               return (
                 <button
                   key={c.id}
                   className={
-                    active
-                      ? "w-full text-left px-6 py-4 bg-accent/20"
-                      : "w-full text-left px-6 py-4 hover:bg-accent/10"
+                    `${breached ? "border-l-4 border-l-destructive " : ""}${
+                      active ? "w-full text-left px-6 py-4 bg-accent/20" : "w-full text-left px-6 py-4 hover:bg-accent/10"
+                    }`
                   }
                   onClick={() => setSelectedId(c.id)}
                 >
@@ -298,6 +553,18 @@ export function AdminSupportInboxPage() {
                   <div className="text-xs text-muted-foreground mt-1">
                     {c.status} • Updated {new Date(c.updated_at).toLocaleString()}
                   </div>
+                  <div className="mt-1.5 flex flex-wrap items-center gap-1.5 text-[11px]">
+                    {priority !== "NORMAL" ? (
+                      <span className={`rounded-full px-2 py-0.5 ${PRIORITY_CLASSES[priority]}`}>{SUPPORT_PRIORITY_LABELS[priority]}</span>
+                    ) : null}
+                    {breached ? <span className="rounded-full bg-destructive/10 text-destructive px-2 py-0.5 font-medium">SLA breached</span> : null}
+                    <span className="text-muted-foreground">{adminLabel(c.assigned_admin_id)}</span>
+                    {(c.tags ?? []).map((t) => (
+                      <span key={t} className="text-muted-foreground">
+                        #{t}
+                      </span>
+                    ))}
+                  </div>
                 </button>
               );
             })}
@@ -320,6 +587,17 @@ export function AdminSupportInboxPage() {
               <div className="font-semibold">Conversation</div>
               <div className="text-sm text-muted-foreground mt-1">{selected ? displayUserLabel(selected) : "—"}</div>
               <div className="text-xs text-muted-foreground mt-1">Status: {selected?.status ?? "—"}</div>
+              {selectedSla ? (
+                <div className="text-xs mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                  <span>
+                    First response:{" "}
+                    <span className={SLA_STATE_CLASSES[selectedSla.firstResponse.state]}>{slaLabel(selectedSla.firstResponse)}</span>
+                  </span>
+                  <span>
+                    Resolution: <span className={SLA_STATE_CLASSES[selectedSla.resolution.state]}>{slaLabel(selectedSla.resolution)}</span>
+                  </span>
+                </div>
+              ) : null}
             </div>
             <div className="flex gap-2">
               <Button
@@ -341,6 +619,57 @@ export function AdminSupportInboxPage() {
             </div>
           </div>
 
+          {selected ? (
+            <div className="px-6 py-3 border-b grid grid-cols-1 md:grid-cols-3 gap-2">
+              <select
+                className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+                value={selected.assigned_admin_id ?? ""}
+                disabled={updateTriageMutation.isPending}
+                onChange={(e) => updateTriageMutation.mutate({ assigned_admin_id: e.target.value || null })}
+                aria-label="Assignee"
+              >
+                <option value="">Unassigned</option>
+                {admins.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {adminLabel(a.id)}
+                    {a.id === user?.id ? " (me)" : ""}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+                value={toSupportPriority(selected.priority)}
+                disabled={updateTriageMutation.isPending}
+                onChange={(e) => updateTriageMutation.mutate({ priority: toSupportPriority(e.target.value) })}
+                aria-label="Priority"
+              >
+                {SUPPORT_PRIORITIES.map((p) => (
+                  <option key={p} value={p}>
+                    {SUPPORT_PRIORITY_LABELS[p]} priority
+                  </option>
+                ))}
+              </select>
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  updateTriageMutation.mutate({ tags: parseSupportTags(tagsText) });
+                }}
+              >
+                <Input
+                  className="h-9"
+                  value={tagsText}
+                  onChange={(e) => setTagsDraft({ id: selected.id, text: e.target.value })}
+                  placeholder="Tags (comma separated)"
+                  disabled={updateTriageMutation.isPending}
+                />
+                <Button type="submit" size="sm" variant="outline" disabled={updateTriageMutation.isPending || !tagsDraft}>
+                  Save
+                </Button>
+              </form>
+            </div>
+          ) : null}
+
           <div className="px-6 py-6">
             {messagesQuery.isError ? (
               <div className="text-sm text-destructive">{toErrorMessage(messagesQuery.error)}</div>
@@ -349,6 +678,7 @@ export function AdminSupportInboxPage() {
             <div className="space-y-3 max-h-[45vh] overflow-auto pr-2">
               {(messagesQuery.data ?? []).map((m) => {
                 const fromAdmin = m.sender_type === "ADMIN";
+                const ref = toSupportReference(m.ref_type, m.ref_id);
                 return (
                   <div key={m.id} className={fromAdmin ? "flex justify-end" : "flex justify-start"}>
                     <div
@@ -361,7 +691,9 @@ export function AdminSupportInboxPage() {
                       <div className={fromAdmin ? "text-primary-foreground/90 text-xs" : "text-muted-foreground text-xs"}>
                         {fromAdmin ? "Admin" : "User"} • {new Date(m.created_at).toLocaleString()}
                       </div>
-                      <div className="mt-1 whitespace-pre-wrap break-words">{m.body}</div>
+                      {m.body ? <div className="mt-1 whitespace-pre-wrap break-words">{m.body}</div> : null}
+                      {ref ? <SupportReferenceCard reference={ref} audience="admin" /> : null}
+                      <SupportAttachmentList attachments={attachmentsByMessage.get(m.id) ?? []} inverted={fromAdmin} />
                     </div>
                   </div>
                 );
@@ -373,6 +705,36 @@ export function AdminSupportInboxPage() {
             </div>
 
             <div className="mt-6 grid grid-cols-1 gap-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+                  value=""
+                  onChange={(e) => insertCannedResponse(e.target.value)}
+                  disabled={busy || !selected || cannedResponses.length === 0}
+                  aria-label="Insert canned response"
+                >
+                  <option value="">{cannedResponses.length === 0 ? "No canned responses" : "Insert canned response…"}</option>
+                  {cannedResponses.map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {r.title}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  className="h-9 w-44"
+                  value={contractNumber}
+                  onChange={(e) => setContractNumber(e.target.value)}
+                  placeholder="Contract # (for templates)"
+                />
+                <Button size="sm" variant="ghost" onClick={() => setShowCannedManager((v) => !v)}>
+                  {showCannedManager ? "Hide canned responses" : "Manage canned responses"}
+                </Button>
+              </div>
+
+              {showCannedManager ? (
+                <CannedResponsesPanel responses={cannedResponses} queryKey={cannedQueryKey} userId={user?.id} />
+              ) : null}
+
               <textarea
                 className="min-h-[110px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
                 value={reply}
@@ -380,9 +742,19 @@ export function AdminSupportInboxPage() {
                 placeholder="Write a reply…"
                 disabled={busy || !effectiveSelectedId || mode !== "supabase"}
               />
-              <div className="flex justify-end">
-                <Button
+              {replyPlaceholders.length > 0 ? (
+                <div className="text-xs text-amber-700">
+                  Fill in before sending: {replyPlaceholders.map((v) => `{{${v}}}`).join(", ")}
+                </div>
+              ) : null}
+              <div className="flex items-start justify-between gap-3">
+                <SupportAttachmentPicker
+                  files={replyFiles}
+                  onChange={setReplyFiles}
                   disabled={busy || !effectiveSelectedId || mode !== "supabase"}
+                />
+                <Button
+                  disabled={busy || !effectiveSelectedId || mode !== "supabase" || replyPlaceholders.length > 0}
                   onClick={() => {
                     sendReplyMutation.mutate();
                   }}
@@ -397,6 +769,9 @@ export function AdminSupportInboxPage() {
               {updateStatusMutation.isError ? (
                 <div className="text-sm text-destructive">{toErrorMessage(updateStatusMutation.error)}</div>
               ) : null}
+              {updateTriageMutation.isError ? (
+                <div className="text-sm text-destructive">{toErrorMessage(updateTriageMutation.error)}</div>
+              ) : null}
             </div>
           </div>
         </div>
@@ -6,6 +6,7 @@ import { Users, Search, ShieldCheck, ArrowRight, User, Building2, ChevronDown, C
 import { PageShell } from "../components/PageShell";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
+import { ViewAsButton } from "../components/impersonation/ViewAsButton";
 import { getAppMode } from "../lib/runtime";
 import { getSupabaseClient } from "../lib/supabase/client";
 import { confirmProceed, sanitizeWordsOnly } from "../lib/utils";
@@ -505,16 +506,19 @@ export function AdminUsersPage() {
                                           </div>
                                         </div>
                                       </div>
-                                      <select
-                                        value={p.role}
-                                        disabled={busy}
-                                        onChange={(e) => handleRoleChange(p.id, p.email, e.target.value as Role)}
-                                        className="h-7 rounded-md border border-input bg-background px-2 text-xs shadow-sm"
-                                      >
-                                        <option value="DEALER_ADMIN">Dealer Admin</option>
-                                        <option value="DEALER_EMPLOYEE">Dealer Employee</option>
-                                        <option value="PROVIDER">Provider</option>
-                                      </select>
+                                      <div className="flex items-center gap-2">
+                                        <ViewAsButton userId={p.id} email={p.email} disabled={busy} />
+                                        <select
+                                          value={p.role}
+                                          disabled={busy}
+                                          onChange={(e) => handleRoleChange(p.id, p.email, e.target.value as Role)}
+                                          className="h-7 rounded-md border border-input bg-background px-2 text-xs shadow-sm"
+                                        >
+                                          <option value="DEALER_ADMIN">Dealer Admin</option>
+                                          <option value="DEALER_EMPLOYEE">Dealer Employee</option>
+                                          <option value="PROVIDER">Provider</option>
+                                        </select>
+                                      </div>
                                     </div>
                                   </div>
                                 ))}
@@ -539,16 +543,19 @@ export function AdminUsersPage() {
                                               </div>
                                             </div>
                                           </div>
-                                          <select
-                                            value={p.role}
-                                            disabled={busy}
-                                            onChange={(e) => handleRoleChange(p.id, p.email, e.target.value as Role)}
-                                            className="h-7 rounded-md border border-input bg-background px-2 text-xs shadow-sm"
-                                          >
-                                            <option value="DEALER_EMPLOYEE">Dealer Employee</option>
-                                            <option value="DEALER_ADMIN">Dealer Admin</option>
-                                            <option value="PROVIDER">Provider</option>
-                                          </select>
+                                          <div className="flex items-center gap-2">
+                                            <ViewAsButton userId={p.id} email={p.email} disabled={busy} />
+                                            <select
+                                              value={p.role}
+                                              disabled={busy}
+                                              onChange={(e) => handleRoleChange(p.id, p.email, e.target.value as Role)}
+                                              className="h-7 rounded-md border border-input bg-background px-2 text-xs shadow-sm"
+                                            >
+                                              <option value="DEALER_EMPLOYEE">Dealer Employee</option>
+                                              <option value="DEALER_ADMIN">Dealer Admin</option>
+                                              <option value="PROVIDER">Provider</option>
+                                            </select>
+                                          </div>
                                         </div>
                                       </div>
                                     ))}
@@ -629,16 +636,19 @@ export function AdminUsersPage() {
                                           {p.displayName && <div className="text-xs text-muted-foreground mt-1">{p.displayName}</div>}
                                         </div>
                                       </div>
-                                      <select
-                                        value={p.role}
-                                        disabled={busy}
-                                        onChange={(e) => handleRoleChange(p.id, p.email, e.target.value as Role)}
-                                        className="h-7 rounded-md border border-input bg-background px-2 text-xs shadow-sm"
-                                      >
-                                        <option value="PROVIDER">Provider</option>
-                                        <option value="DEALER_EMPLOYEE">Dealer Employee</option>
-                                        <option value="DEALER_ADMIN">Dealer Admin</option>
-                                      </select>
+                                      <div className="flex items-center gap-2">
+                                        <ViewAsButton userId={p.id} email={p.email} disabled={busy} />
+                                        <select
+                                          value={p.role}
+                                          disabled={busy}
+                                          onChange={(e) => handleRoleChange(p.id, p.email, e.target.value as Role)}
+                                          className="h-7 rounded-md border border-input bg-background px-2 text-xs shadow-sm"
+                                        >
+                                          <option value="PROVIDER">Provider</option>
+                                          <option value="DEALER_EMPLOYEE">Dealer Employee</option>
+                                          <option value="DEALER_ADMIN">Dealer Admin</option>
+                                        </select>
+                                      </div>
                                     </div>
                                   </div>
                                 ))}
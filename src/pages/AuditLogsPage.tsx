@@ -1,9 +1,59 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Link } from "react-router-dom";
+import { ChevronLeft, ChevronRight, ShieldCheck } from "lucide-react";
 
 import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
 import { PageShell } from "../components/PageShell";
+import { listAuditEvents, verifyAuditChain, type ListAuditEventsOptions } from "../lib/auditLog";
+import { getAppMode } from "../lib/runtime";
+
+const PAGE_SIZE = 50;
+
+type AuditFilters = Pick<ListAuditEventsOptions, "entityType" | "entityId" | "actorEmail" | "kind" | "from" | "to">;
+
+const EMPTY_FILTERS: AuditFilters = { entityType: "", entityId: "", actorEmail: "", kind: "", from: "", to: "" };
+
+function formatTimestamp(iso: string) {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
 
 export function AuditLogsPage() {
+  const mode = getAppMode();
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(0);
+
+  const eventsQuery = useQuery({
+    queryKey: ["audit-events", "platform", mode, filters, page],
+    queryFn: () => listAuditEvents({ ...filters, offset: page * PAGE_SIZE, limit: PAGE_SIZE }),
+  });
+
+  const verifyMutation = useMutation({ mutationFn: () => verifyAuditChain() });
+
+  const events = eventsQuery.data?.data ?? [];
+  const total = eventsQuery.data?.total ?? null;
+  const pageCount = total === null ? null : Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasNext = pageCount === null ? events.length === PAGE_SIZE : page + 1 < pageCount;
+
+  const applyFilters = () => {
+    setFilters(draft);
+    setPage(0);
+  };
+
+  const clearFilters = () => {
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+    setPage(0);
+  };
+
+  const setField = (key: keyof AuditFilters) => (e: { target: { value: string } }) =>
+    setDraft((prev) => ({ ...prev, [key]: e.target.value }));
+
+  const verification = verifyMutation.data;
+
   return (
     <PageShell
       badge="Super Admin"
@@ -16,13 +66,128 @@ export function AuditLogsPage() {
       }
     >
       <div className="rounded-2xl border bg-card/80 backdrop-blur-sm shadow-sm overflow-hidden">
-        <div className="px-6 py-4 border-b bg-gradient-to-r from-blue-500/10 via-transparent to-transparent">
-          <div className="text-sm font-medium">Audit log feed</div>
-          <div className="text-xs text-muted-foreground mt-1">Events (access approvals, role changes, critical system activity).</div>
+        <div className="px-6 py-4 border-b bg-gradient-to-r from-blue-500/10 via-transparent to-transparent flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <div className="text-sm font-medium">Audit log feed</div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {mode === "supabase"
+                ? "Server-side events, newest first. Each event is hash-linked to the one before it."
+                : "Local mode: events recorded in this browser only."}
+            </div>
+          </div>
+          {mode === "supabase" ? (
+            <div className="flex flex-col items-end gap-1">
+              <Button size="sm" variant="outline" className="gap-2" disabled={verifyMutation.isPending} onClick={() => verifyMutation.mutate()}>
+                <ShieldCheck className="w-4 h-4" />
+                {verifyMutation.isPending ? "Verifying…" : "Verify chain"}
+              </Button>
+              {verifyMutation.isError ? (
+                <div className="text-xs text-destructive">
+                  {verifyMutation.error instanceof Error ? verifyMutation.error.message : "Verification failed"}
+                </div>
+              ) : null}
+              {verification ? (
+                verification.firstBrokenSeq === null ? (
+                  <div className="text-xs text-emerald-700">Chain intact ({verification.checked.toLocaleString()} events checked).</div>
+                ) : (
+                  <div className="text-xs text-destructive">
+                    Chain broken at event #{verification.firstBrokenSeq} ({verification.checked.toLocaleString()} events verified before it).
+                  </div>
+                )
+              ) : null}
+            </div>
+          ) : null}
         </div>
-        <div className="p-6">
-          <div className="text-sm text-muted-foreground">
-            Audit log events (access approvals, role changes, critical system events) will appear here.
+
+        <form
+          className="px-6 py-4 border-b grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyFilters();
+          }}
+        >
+          <Input placeholder="Entity type (e.g. contract)" value={draft.entityType} onChange={setField("entityType")} />
+          <Input placeholder="Entity ID" value={draft.entityId} onChange={setField("entityId")} />
+          <Input placeholder="Actor email" value={draft.actorEmail} onChange={setField("actorEmail")} />
+          <Input placeholder="Kind (e.g. CONTRACT_CREATED)" value={draft.kind} onChange={setField("kind")} />
+          <Input type="date" aria-label="From date" value={draft.from} onChange={setField("from")} />
+          <Input type="date" aria-label="To date" value={draft.to} onChange={setField("to")} />
+          <div className="md:col-span-3 lg:col-span-6 flex items-center justify-end gap-2">
+            <Button type="button" size="sm" variant="ghost" onClick={clearFilters}>
+              Clear
+            </Button>
+            <Button type="submit" size="sm">
+              Apply filters
+            </Button>
+          </div>
+        </form>
+
+        {eventsQuery.isError ? (
+          <div className="p-6 text-sm text-destructive">
+            {eventsQuery.error instanceof Error ? eventsQuery.error.message : "Failed to load audit events"}
+          </div>
+        ) : eventsQuery.isLoading ? (
+          <div className="p-6 text-sm text-muted-foreground">Loading audit events…</div>
+        ) : events.length === 0 ? (
+          <div className="p-6 text-sm text-muted-foreground">No audit events match these filters.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">#</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Time</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Kind</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Actor</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Entity</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Details</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Hash</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {events.map((e) => (
+                  <tr key={e.id} className="align-top">
+                    <td className="px-4 py-3 text-xs text-muted-foreground tabular-nums">{e.seq ?? "—"}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">{formatTimestamp(e.createdAt)}</td>
+                    <td className="px-4 py-3">
+                      <div className="font-medium">{e.kind}</div>
+                      {e.source ? <div className="text-xs text-muted-foreground">{e.source}</div> : null}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div>{e.actorEmail ?? e.actorUserId ?? "System"}</div>
+                      {e.actorRole ? <div className="text-xs text-muted-foreground">{e.actorRole}</div> : null}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div>{e.entityType ?? "—"}</div>
+                      {e.entityId ? <div className="text-xs text-muted-foreground break-all">{e.entityId}</div> : null}
+                    </td>
+                    <td className="px-4 py-3 max-w-md">
+                      {e.message ? <div>{e.message}</div> : null}
+                      {e.meta ? <div className="text-xs text-muted-foreground break-all font-mono">{JSON.stringify(e.meta)}</div> : null}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-muted-foreground font-mono" title={e.hash}>
+                      {e.hash ? `${e.hash.slice(0, 12)}…` : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="px-6 py-3 border-t flex items-center justify-between gap-3 text-xs text-muted-foreground">
+          <div>
+            {total === null ? `Page ${page + 1}` : `Page ${page + 1} of ${pageCount} · ${total.toLocaleString()} events`}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" disabled={page === 0 || eventsQuery.isFetching} onClick={() => setPage((p) => Math.max(0, p - 1))}>
+              <ChevronLeft className="w-4 h-4" />
+              Previous
+            </Button>
+            <Button size="sm" variant="outline" disabled={!hasNext || eventsQuery.isFetching} onClick={() => setPage((p) => p + 1)}>
+              Next
+              <ChevronRight className="w-4 h-4" />
+            </Button>
           </div>
         </div>
       </div>
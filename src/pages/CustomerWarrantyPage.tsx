@@ -0,0 +1,221 @@
+import { useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useMutation } from "@tanstack/react-query";
+import { Printer, Search, Shield } from "lucide-react";
+
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+import { BRAND } from "../lib/brand";
+import { CANCELLATION_REFUND_METHOD_LABELS } from "../lib/cancellations/refund";
+import { getCustomerPortalApi } from "../lib/customerPortal/customerPortal";
+import type { CustomerContractSummary, CustomerCoverageStatus } from "../lib/customerPortal/types";
+import { TRANSFER_POLICY_LABELS } from "../lib/transfers/policy";
+
+function money(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function termLabel(s: CustomerContractSummary) {
+  const months = typeof s.termMonths === "number" && s.termMonths > 0 ? `${s.termMonths} months` : "Unlimited time";
+  const km = typeof s.termKm === "number" && s.termKm > 0 ? `${s.termKm.toLocaleString()} km` : "unlimited km";
+  return `${months} / ${km}`;
+}
+
+function vehicleLabel(s: CustomerContractSummary) {
+  const v = s.vehicle;
+  const name = [v.year, v.make, v.model, v.trim].filter(Boolean).join(" ");
+  return [name, v.vinLast6 ? `VIN …${v.vinLast6}` : ""].filter(Boolean).join(" • ") || "—";
+}
+
+const STATUS_STYLES: Record<CustomerCoverageStatus, { label: string; className: string }> = {
+  ACTIVE: { label: "Active", className: "bg-emerald-100 text-emerald-800" },
+  EXPIRED: { label: "Expired", className: "bg-slate-200 text-slate-700" },
+  CANCELLED: { label: "Cancelled", className: "bg-red-100 text-red-800" },
+};
+
+function Field(props: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-[11px] uppercase tracking-wide text-slate-500">{props.label}</div>
+      <div className="mt-0.5 text-sm font-medium text-slate-900">{props.value}</div>
+    </div>
+  );
+}
+
+function Section(props: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-xl border bg-white p-5 print:rounded-none print:border-0 print:p-0 print:pt-4">
+      <h2 className="text-sm font-semibold text-slate-900">{props.title}</h2>
+      <div className="mt-3 text-sm leading-relaxed text-slate-700">{props.children}</div>
+    </section>
+  );
+}
+
+function CoverageSummary({ summary }: { summary: CustomerContractSummary }) {
+  const status = STATUS_STYLES[summary.status];
+  const { coverage, transfer, cancellation } = summary;
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-xl border bg-white p-5 print:border-0 print:p-0">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <div className="text-xs text-slate-500">Warranty ID</div>
+            <div className="font-mono text-lg font-semibold">{summary.warrantyId}</div>
+            <div className="text-xs text-slate-500">Contract #{summary.contractNumber}</div>
+          </div>
+          <span className={`rounded-full px-3 py-1 text-xs font-semibold ${status.className}`}>{status.label}</span>
+        </div>
+
+        <div className="mt-5 grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <Field label="Customer" value={summary.customerName || "—"} />
+          <Field label="Vehicle" value={vehicleLabel(summary)} />
+          <Field label="Plan" value={summary.productName ?? "—"} />
+          <Field label="Provider" value={summary.providerName ?? "—"} />
+          <Field label="Coverage started" value={summary.startDate} />
+          <Field label="Coverage ends" value={summary.termEndDate ?? "No end date"} />
+          <Field label="Term" value={termLabel(summary)} />
+          <Field label="Deductible" value={typeof summary.deductibleCents === "number" ? `${money(summary.deductibleCents)} per claim` : "—"} />
+        </div>
+        {typeof summary.termKm === "number" && summary.termKm > 0 && typeof summary.odometerAtSaleKm === "number" ? (
+          <div className="mt-3 text-xs text-slate-500">
+            Kilometre coverage ends at {(summary.odometerAtSaleKm + summary.termKm).toLocaleString()} km on the odometer, or on the end date, whichever comes first.
+          </div>
+        ) : null}
+      </div>
+
+      <Section title="What's covered">
+        {coverage.fullWording ? (
+          <p className="whitespace-pre-line">{coverage.fullWording}</p>
+        ) : (
+          <p>Coverage details are set by the provider. Refer to your contract documents or contact your dealer for the full schedule.</p>
+        )}
+      </Section>
+
+      <Section title="Selling your vehicle">
+        <p>Transfer rule: {TRANSFER_POLICY_LABELS[transfer.policy]}.</p>
+        {transfer.policy !== "NOT_TRANSFERABLE" ? <p>Transfer fee: {transfer.feeCents > 0 ? money(transfer.feeCents) : "none"}.</p> : null}
+        {transfer.eligible ? (
+          <p className="mt-2">
+            This coverage can currently be transferred on a private sale. Ask the dealer who sold the plan to process the transfer; they will confirm the odometer reading.
+          </p>
+        ) : (
+          <ul className="mt-2 list-disc pl-5">
+            {transfer.reasons.map((r) => (
+              <li key={r}>{r}</li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      <Section title="Cancelling">
+        {cancellation.cancelledOn ? (
+          <p>This contract was cancelled on {cancellation.cancelledOn}.</p>
+        ) : (
+          <>
+            <p>
+              You can cancel through the dealer who sold the plan. Refunds are calculated {CANCELLATION_REFUND_METHOD_LABELS[cancellation.refundMethod].toLowerCase()} from
+              the cancellation date and odometer reading.
+            </p>
+            {cancellation.refundMethod === "SHORT_RATE" && cancellation.feeCents > 0 ? (
+              <p className="mt-1">A cancellation fee of {money(cancellation.feeCents)} applies.</p>
+            ) : null}
+          </>
+        )}
+      </Section>
+
+      {summary.termsText ? <Section title="Terms & Conditions">{summary.termsText}</Section> : null}
+      {summary.claimsText ? <Section title="Claims / Repairs">{summary.claimsText}</Section> : null}
+
+      <div className="hidden text-[11px] text-slate-500 print:block">
+        Customer copy generated by {BRAND.name} on {new Date().toISOString().slice(0, 10)}. The provider's contract documents govern coverage.
+      </div>
+    </div>
+  );
+}
+
+// Public lookup for end customers: warranty ID plus a verifier printed on their copy.
+export function CustomerWarrantyPage() {
+  const api = useMemo(() => getCustomerPortalApi(), []);
+  const [searchParams] = useSearchParams();
+
+  const [warrantyId, setWarrantyId] = useState(() => searchParams.get("id") ?? "");
+  const [verifier, setVerifier] = useState("");
+
+  const lookupMutation = useMutation({
+    mutationFn: () => api.lookup({ warrantyId, verifier }),
+  });
+
+  const summary = lookupMutation.data ?? null;
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    lookupMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="border-b bg-white print:hidden">
+        <div className="mx-auto flex max-w-3xl items-center gap-2 px-4 py-4">
+          <Shield className="h-5 w-5 text-primary" />
+          <Link to="/find-insurance" className="font-display text-lg font-semibold">
+            {BRAND.name}
+          </Link>
+          <span className="text-sm text-muted-foreground">• My warranty</span>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-4 py-8 print:max-w-none print:p-0">
+        {!summary ? (
+          <div className="rounded-xl border bg-white p-6">
+            <h1 className="font-display text-2xl font-semibold">Look up your warranty</h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              Enter the warranty ID from your contract, plus the last 6 characters of your VIN or the postal code on the contract.
+            </p>
+
+            <form className="mt-6 space-y-4" onSubmit={onSubmit}>
+              <div className="space-y-2">
+                <label className="text-sm font-medium" htmlFor="warranty-id">
+                  Warranty ID
+                </label>
+                <Input id="warranty-id" value={warrantyId} onChange={(e) => setWarrantyId(e.target.value)} placeholder="WH-XXXXXXXXXXXX" autoComplete="off" required />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium" htmlFor="warranty-verifier">
+                  VIN last 6 or postal code
+                </label>
+                <Input id="warranty-verifier" value={verifier} onChange={(e) => setVerifier(e.target.value)} placeholder="e.g. 123456 or A1A 1A1" autoComplete="off" required />
+              </div>
+
+              {lookupMutation.isError ? (
+                <div className="text-sm text-destructive">{lookupMutation.error instanceof Error ? lookupMutation.error.message : "Lookup failed"}</div>
+              ) : null}
+
+              <Button type="submit" className="w-full gap-2" disabled={lookupMutation.isPending}>
+                <Search className="h-4 w-4" />
+                {lookupMutation.isPending ? "Looking up…" : "View my coverage"}
+              </Button>
+            </form>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3 print:hidden">
+              <Button variant="outline" size="sm" onClick={() => lookupMutation.reset()}>
+                Look up another warranty
+              </Button>
+              <Button size="sm" className="gap-2" onClick={() => window.print()}>
+                <Printer className="h-4 w-4" />
+                Download customer copy
+              </Button>
+            </div>
+            <div className="hidden print:block">
+              <div className="font-display text-xl font-semibold">{BRAND.name}</div>
+              <div className="text-sm text-slate-600">Warranty summary (Customer Copy)</div>
+            </div>
+            <CoverageSummary summary={summary} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import { PageShell } from "../components/PageShell";
 import { getAppMode } from "../lib/runtime";
 import { useAuth } from "../providers/AuthProvider";
 import { getBatchesApi } from "../lib/batches/batches";
+import { remittanceBalanceCents } from "../lib/batches/payments";
 import type { Batch } from "../lib/batches/types";
 import { getContractsApi } from "../lib/contracts/contracts";
 import type { Contract } from "../lib/contracts/types";
@@ -105,8 +106,8 @@ export function DealerAdminPage() {
   }, [soldLike.length, totalSalesCents]);
 
   const outstandingCents = batches
-    .filter((b) => b.status === "CLOSED" && b.paymentStatus === "UNPAID")
-    .reduce((sum, b) => sum + (b.totalCents ?? 0), 0);
+    .filter((b) => b.status === "CLOSED" && b.paymentStatus !== "PAID")
+    .reduce((sum, b) => sum + remittanceBalanceCents(b), 0);
 
   const productPerformance = useMemo(() => {
     const byProduct = new Map<string, { productId: string; sold: number; revenueCents: number }>();
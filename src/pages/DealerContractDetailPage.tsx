@@ -4,14 +4,44 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "../components/ui/tabs";
+import { OpenClaimForm, type OpenClaimDraft } from "../components/claims/OpenClaimForm";
+import { ContractHistoryList } from "../components/contracts/ContractHistoryList";
+import { TransferHistoryList } from "../components/transfers/TransferHistoryList";
+import { TransferOwnershipForm, type TransferOwnershipDraft } from "../components/transfers/TransferOwnershipForm";
+import { ContractSignatureForm } from "../components/signatures/ContractSignatureForm";
+import { SignatureMark } from "../components/signatures/ContractSignatureMarks";
 import { PageShell } from "../components/PageShell";
 import { logAuditEvent } from "../lib/auditLog";
 import { decodeVin } from "../lib/vin/decodeVin";
+import { validateVin } from "../lib/vin/vin";
 import { getContractsApi } from "../lib/contracts/contracts";
+import { getBatchesApi } from "../lib/batches/batches";
+import { creditCancellationOnLockedRemittance } from "../lib/batches/creditNotes";
+import { getContractCancellationsApi } from "../lib/cancellations/cancellations";
+import { CANCELLATION_REFUND_METHOD_LABELS, cancellationAmounts, cancellationProblem, contractCancellationRefund } from "../lib/cancellations/refund";
+import { getClaimsApi } from "../lib/claims/claims";
+import { getContractTransfersApi } from "../lib/transfers/transfers";
+import { getContractHistoryApi } from "../lib/contractHistory/contractHistory";
+import { getContractSignaturesApi } from "../lib/signatures/signatures";
+import { CONTRACT_SIGNER_ROLES, CONTRACT_SIGNER_ROLE_LABELS } from "../lib/signatures/content";
+import type { ContractSignatureState, SignatureCapture } from "../lib/signatures/types";
+import { useContractSignatures } from "../hooks/useContractSignatures";
+import { useDealershipProvinces } from "../hooks/useDealershipProvinces";
+import { contractSalesTax } from "../lib/tax/contractTax";
+import { CLAIM_LIMIT_TYPE_LABELS, CLAIM_STATUS_LABELS, resolveClaimLimit } from "../lib/claims/adjudication";
 import { getMarketplaceApi } from "../lib/marketplace/marketplace";
 import { getProductPricingApi } from "../lib/productPricing/productPricing";
 import { getProductAddonsApi } from "../lib/productAddons/productAddons";
 import { isPricingEligibleForVehicle } from "../lib/productPricing/eligibility";
+import {
+  VEHICLE_POWERTRAIN_LABELS,
+  eligibilityRulesFromProduct,
+  evaluateEligibility,
+  toVehiclePowertrain,
+  type VehiclePowertrain,
+} from "../lib/products/eligibility";
+import { EligibilityChecks } from "../components/EligibilityChecks";
 import { defaultPricingRow } from "../lib/productPricing/defaultRow";
 import {
   costFromProductOrPricing,
@@ -63,6 +93,13 @@ function dealershipUserIds(dealerId: string) {
 
 type WizardStep = "PRICING" | "VEHICLE" | "CUSTOMER" | "CONFIRM";
 
+const SIGNATURE_STATE_STYLES: Record<ContractSignatureState, { label: string; className: string }> = {
+  SIGNED: { label: "Signed", className: "bg-emerald-100 text-emerald-800" },
+  PARTIAL: { label: "Partially signed", className: "bg-amber-100 text-amber-800" },
+  OUTDATED: { label: "Changed since signing", className: "bg-red-100 text-red-800" },
+  UNSIGNED: { label: "Not signed", className: "bg-slate-100 text-slate-700" },
+};
+
 function money(cents?: number) {
   if (typeof cents !== "number") return "—";
   return `$${(cents / 100).toFixed(2)}`;
@@ -93,6 +130,11 @@ export function DealerContractDetailPage() {
   const productPricingApi = useMemo(() => getProductPricingApi(), []);
   const productAddonsApi = useMemo(() => getProductAddonsApi(), []);
   const providersApi = useMemo(() => getProvidersApi(), []);
+  const cancellationsApi = useMemo(() => getContractCancellationsApi(), []);
+  const batchesApi = useMemo(() => getBatchesApi(), []);
+  const claimsApi = useMemo(() => getClaimsApi(), []);
+  const transfersApi = useMemo(() => getContractTransfersApi(), []);
+  const signaturesApi = useMemo(() => getContractSignaturesApi(), []);
   const qc = useQueryClient();
   const navigate = useNavigate();
 
@@ -109,6 +151,37 @@ export function DealerContractDetailPage() {
 
   const contract = contractQuery.data as Contract | null | undefined;
 
+  const cancellationQuery = useQuery({
+    queryKey: ["contract-cancellation", contractId],
+    enabled: !!contractId,
+    queryFn: () => cancellationsApi.getByContract(contractId),
+  });
+
+  const cancellation = cancellationQuery.data ?? null;
+
+  const claimsQuery = useQuery({
+    queryKey: ["claims", contractId],
+    enabled: !!contractId,
+    queryFn: () => claimsApi.listByContract(contractId),
+  });
+
+  const claims = claimsQuery.data ?? [];
+
+  const transfersQuery = useQuery({
+    queryKey: ["contract-transfers", contractId],
+    enabled: !!contractId,
+    queryFn: () => transfersApi.listByContract(contractId),
+  });
+
+  const transfers = transfersQuery.data ?? [];
+
+  const [view, setView] = useState<"contract" | "history">("contract");
+  const historyQuery = useQuery({
+    queryKey: ["contract-history", contractId],
+    enabled: !!contractId && view === "history",
+    queryFn: () => getContractHistoryApi().listByContract(contractId),
+  });
+
   const uid = (user?.id ?? "").trim();
   const uem = (user?.email ?? "").trim().toLowerCase();
   const isMine = (c: Contract) => {
@@ -155,6 +228,7 @@ export function DealerContractDetailPage() {
   const [vehicleClass, setVehicleClass] = useState("");
   const [vehicleEngine, setVehicleEngine] = useState("");
   const [vehicleTransmission, setVehicleTransmission] = useState("");
+  const [vehiclePowertrain, setVehiclePowertrain] = useState<VehiclePowertrain | "">("");
   const [productId, setProductId] = useState("");
   const [pricingId, setPricingId] = useState("");
   const [step, setStepRaw] = useState<WizardStep>(() => {
@@ -208,6 +282,7 @@ export function DealerContractDetailPage() {
     setVehicleClass((contract.pricingVehicleClass ?? "").toString().trim());
     setVehicleEngine(contract.vehicleEngine ?? "");
     setVehicleTransmission(contract.vehicleTransmission ?? "");
+    setVehiclePowertrain(toVehiclePowertrain(contract.vehiclePowertrain) ?? "");
     setProductId(contract.productId ?? "");
     setPricingId(contract.productPricingId ?? "");
 
@@ -248,6 +323,7 @@ export function DealerContractDetailPage() {
 
   type ContractPatch = Parameters<ContractsApi["update"]>[1] & {
     productPricingId?: string | null;
+    productPricingVersionId?: string | null;
     pricingTermMonths?: number | null;
     pricingTermKm?: number | null;
     pricingVehicleMileageMinKm?: number | null;
@@ -264,11 +340,12 @@ export function DealerContractDetailPage() {
   const updateMutation = useMutation({
     mutationFn: async (patch: ContractPatch) => {
       if (!contract) throw new Error("Contract not loaded");
-      return api.update(contract.id, patch);
+      return api.update(contract.id, patch, { actorUserId: user?.id, actorEmail: user?.email });
     },
     onSuccess: async (updated) => {
       await qc.invalidateQueries({ queryKey: ["contracts"] });
       await qc.invalidateQueries({ queryKey: ["contract", updated.id] });
+      await qc.invalidateQueries({ queryKey: ["contract-history", updated.id] });
     },
   });
 
@@ -283,6 +360,7 @@ export function DealerContractDetailPage() {
       setVehicleBodyClass(decoded.vehicleBodyClass ?? "");
       setVehicleEngine(decoded.vehicleEngine ?? "");
       setVehicleTransmission(decoded.vehicleTransmission ?? "");
+      setVehiclePowertrain(toVehiclePowertrain(decoded.powertrainType) ?? "");
 
       if (!contract) return;
       const patch: ContractPatch = { vin: decoded.vin };
@@ -293,6 +371,7 @@ export function DealerContractDetailPage() {
       if (typeof decoded.vehicleBodyClass === "string") patch.vehicleBodyClass = decoded.vehicleBodyClass;
       if (typeof decoded.vehicleEngine === "string") patch.vehicleEngine = decoded.vehicleEngine;
       if (typeof decoded.vehicleTransmission === "string") patch.vehicleTransmission = decoded.vehicleTransmission;
+      if (decoded.powertrainType) patch.vehiclePowertrain = decoded.powertrainType;
       await updateMutation.mutateAsync(patch);
     },
   });
@@ -314,6 +393,7 @@ export function DealerContractDetailPage() {
       vehicleBodyClass,
       vehicleEngine,
       vehicleTransmission,
+      vehiclePowertrain: vehiclePowertrain || undefined,
     });
   };
 
@@ -345,6 +425,9 @@ export function DealerContractDetailPage() {
     if (!hasVin) return alertMissing("Enter a valid 17-character VIN before submission.");
     if (!selectedPlanId) return alertMissing("Select a plan before submission.");
     if (!selectedPriceId) return alertMissing("Select a pricing option before submission.");
+    if (vehicleEligibility && !vehicleEligibility.eligible) {
+      return alertMissing(vehicleEligibility.failures.map((f) => f.message).join(" "), "Plan not eligible for this vehicle");
+    }
 
     if (pricingOptionsQuery.data && pricingOptionsQuery.data.length > 0) {
       const selectedPricing = pricingOptionsQuery.data.find((p) => (p.id ?? "").trim() === selectedPriceId);
@@ -444,6 +527,7 @@ export function DealerContractDetailPage() {
     setVehicleClass((row.vehicleClass ?? "").toString().trim());
     await updateMutation.mutateAsync({
       productPricingId: row.id,
+      productPricingVersionId: row.versionId ?? null,
       pricingTermMonths: row.termMonths,
       pricingTermKm: row.termKm,
       pricingVehicleMileageMinKm: typeof row.vehicleMileageMinKm === "number" ? row.vehicleMileageMinKm : null,
@@ -474,6 +558,18 @@ export function DealerContractDetailPage() {
     return marketplaceProducts.find((p) => p.id === id) ?? null;
   }, [marketplaceProducts, selectedProductId]);
 
+  const vehicleEligibility = useMemo(() => {
+    if (!selectedProduct) return null;
+    return evaluateEligibility(eligibilityRulesFromProduct(selectedProduct), {
+      year: Number.isFinite(parsedVehicleYear) && parsedVehicleYear > 0 ? parsedVehicleYear : null,
+      make: vehicleMake,
+      model: vehicleModel,
+      trim: vehicleTrim,
+      mileageKm: parsedMileage,
+      powertrain: vehiclePowertrain || null,
+    });
+  }, [parsedMileage, parsedVehicleYear, selectedProduct, vehicleMake, vehicleModel, vehiclePowertrain, vehicleTrim]);
+
   const pricingOptionsQuery = useQuery({
     queryKey: ["product-pricing-public", selectedProductId],
     enabled: Boolean(selectedProductId),
@@ -610,6 +706,7 @@ export function DealerContractDetailPage() {
       setPricingId(row.id);
       await updateMutation.mutateAsync({
         productPricingId: row.id,
+        productPricingVersionId: row.versionId ?? null,
         pricingTermMonths: row.termMonths,
         pricingTermKm: row.termKm,
         pricingVehicleMileageMinKm: typeof row.vehicleMileageMinKm === "number" ? row.vehicleMileageMinKm : null,
@@ -639,6 +736,240 @@ export function DealerContractDetailPage() {
     return pricingOptions.find((r) => r.id === id) ?? null;
   }, [pricingOptions, selectedPricingId]);
 
+  const dealershipProvinces = useDealershipProvinces([contract?.dealershipId]);
+
+  const contractTax = useMemo(() => {
+    if (!contract) return null;
+    return contractSalesTax({
+      contract,
+      basis: "retail",
+      productType: selectedProduct?.productType,
+      productName: selectedProduct?.name,
+      dealershipProvince: dealershipProvinces.get(contract.dealershipId ?? ""),
+    });
+  }, [contract, dealershipProvinces, selectedProduct]);
+
+  const [cancellationDate, setCancellationDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [cancellationOdometerKm, setCancellationOdometerKm] = useState("");
+  const [cancellationReason, setCancellationReason] = useState("");
+
+  const parsedCancellationOdometerKm = (() => {
+    const raw = cancellationOdometerKm.trim();
+    if (!raw) return undefined;
+    const n = Number(raw);
+    return Number.isFinite(n) && n >= 0 ? n : undefined;
+  })();
+
+  const cancellationPreview = useMemo(() => {
+    if (!contract || contract.status === "DRAFT") return null;
+    if (typeof parsedCancellationOdometerKm !== "number") return null;
+    return contractCancellationRefund(contract, selectedProduct, { cancellationDate, odometerKm: parsedCancellationOdometerKm });
+  }, [cancellationDate, contract, parsedCancellationOdometerKm, selectedProduct]);
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      if (!contract) throw new Error("Contract not loaded");
+      if (!user) throw new Error("Not authenticated");
+      if (!cancellationPreview || typeof parsedCancellationOdometerKm !== "number") throw new Error("Enter the odometer reading at cancellation");
+      const input = {
+        contractId: contract.id,
+        cancellationDate,
+        odometerKm: parsedCancellationOdometerKm,
+        reason: cancellationReason.trim() || undefined,
+      };
+      const problem = cancellationProblem(contract, input);
+      if (problem) throw new Error(problem);
+
+      const created = await cancellationsApi.cancel(input, user);
+      // The cancellation is recorded by now. A failed credit note must not be reported as a
+      // failed cancellation, so it is surfaced on its own once the cancellation succeeds.
+      let creditError: string | null = null;
+      try {
+        await creditCancellationOnLockedRemittance(batchesApi, created, user);
+      } catch (err) {
+        creditError = err instanceof Error ? err.message : "Unknown error";
+      }
+      return { created, creditError };
+    },
+    onSuccess: async ({ created, creditError }) => {
+      logAuditEvent({
+        kind: "CONTRACT_CANCELLED",
+        actorUserId: user?.id,
+        actorEmail: user?.email,
+        actorRole: user?.role,
+        dealerId: (user?.dealerId ?? "").trim() || undefined,
+        entityType: "contract",
+        entityId: created.contractId,
+        message: `Cancelled contract ${contract?.contractNumber ?? ""}`.trim(),
+        meta: {
+          refundMethod: created.refundMethod,
+          customerRefundCents: created.customerRefundCents,
+          providerRefundCents: created.providerRefundCents,
+        },
+      });
+      await qc.invalidateQueries({ queryKey: ["contract-cancellation", created.contractId] });
+      await qc.invalidateQueries({ queryKey: ["contract-cancellations"] });
+      await qc.invalidateQueries({ queryKey: ["contracts"] });
+      await qc.invalidateQueries({ queryKey: ["remittance-credit-notes"] });
+      if (creditError) {
+        alertMissing(
+          `The contract was cancelled, but the ${money(created.providerRefundCents)} credit note for the provider's refund could not be issued (${creditError}). Issue it from Remittances.`,
+        );
+      }
+    },
+  });
+
+  const onCancelContract = async () => {
+    if (!cancellationPreview) return alertMissing("Enter the odometer reading at cancellation.");
+    if (
+      !(await confirmProceed(
+        `Cancel this contract? The customer will be refunded ${money(cancellationPreview.customerRefundCents)}. This cannot be undone.`,
+      ))
+    )
+      return;
+    try {
+      await cancelMutation.mutateAsync();
+    } catch (err) {
+      alertMissing(err instanceof Error ? err.message : "Failed to cancel contract.");
+    }
+  };
+
+  const transferMutation = useMutation({
+    mutationFn: async (draft: TransferOwnershipDraft) => {
+      if (!contract) throw new Error("Contract not loaded");
+      return transfersApi.create({
+        contractId: contract.id,
+        transferDate: draft.transferDate,
+        odometerKm: draft.odometerKm,
+        saleType: draft.saleType,
+        previousOwner: {
+          name: contract.customerName,
+          email: contract.customerEmail,
+          phone: contract.customerPhone,
+          address: contract.customerAddress,
+          city: contract.customerCity,
+          province: contract.customerProvince,
+          postalCode: contract.customerPostalCode,
+        },
+        newOwner: draft.newOwner,
+        transferFeeCents: selectedProduct?.transferFeeCents ?? 0,
+        notes: draft.notes,
+        createdByUserId: user?.id,
+        createdByEmail: user?.email,
+      });
+    },
+    onSuccess: async (created) => {
+      logAuditEvent({
+        kind: "CONTRACT_TRANSFERRED",
+        actorUserId: user?.id,
+        actorEmail: user?.email,
+        actorRole: user?.role,
+        dealerId: (user?.dealerId ?? "").trim() || undefined,
+        entityType: "contract",
+        entityId: created.contractId,
+        message: `Transferred contract ${contract?.contractNumber ?? ""} to ${created.newOwner.name}`.replace(/\s+/g, " ").trim(),
+        meta: {
+          saleType: created.saleType,
+          transferFeeCents: created.transferFeeCents,
+        },
+      });
+      await qc.invalidateQueries({ queryKey: ["contract-transfers", created.contractId] });
+      await qc.invalidateQueries({ queryKey: ["contract-history", created.contractId] });
+      await qc.invalidateQueries({ queryKey: ["contract", created.contractId] });
+      await qc.invalidateQueries({ queryKey: ["contracts"] });
+    },
+  });
+
+  const onTransferContract = async (draft: TransferOwnershipDraft) => {
+    const fee = selectedProduct?.transferFeeCents ?? 0;
+    if (
+      !(await confirmProceed(
+        `Transfer this contract to ${draft.newOwner.name}?${fee > 0 ? ` A ${money(fee)} transfer fee applies.` : ""} The current owner is kept in the transfer history.`,
+      ))
+    )
+      throw new Error("Transfer not confirmed");
+    try {
+      await transferMutation.mutateAsync(draft);
+    } catch (err) {
+      alertMissing(err instanceof Error ? err.message : "Failed to transfer contract.");
+      throw err;
+    }
+  };
+
+  const signatures = useContractSignatures(contract);
+  const [signing, setSigning] = useState(false);
+
+  const signMutation = useMutation({
+    mutationFn: async (captured: SignatureCapture[]) => {
+      if (!contract || !signatures.contentHash) throw new Error("Contract not loaded");
+      return signaturesApi.capture({
+        contractId: contract.id,
+        contentHash: signatures.contentHash,
+        signatures: captured,
+        actorUserId: user?.id,
+      });
+    },
+    onSuccess: async () => {
+      setSigning(false);
+      await qc.invalidateQueries({ queryKey: ["contract-signatures", contractId] });
+    },
+  });
+
+  const onSignContract = async (captured: SignatureCapture[]) => {
+    try {
+      await signMutation.mutateAsync(captured);
+    } catch (err) {
+      alertMissing(err instanceof Error ? err.message : "Failed to save signatures.");
+    }
+  };
+
+  const openClaimMutation = useMutation({
+    mutationFn: async (draft: OpenClaimDraft) => {
+      if (!contract) throw new Error("Contract not loaded");
+      const limit = resolveClaimLimit({
+        pricing: selectedPricing,
+        contractRetailCents: cancellationAmounts(contract).retailCents,
+        vehicleValueCents: draft.vehicleValueCents,
+      });
+      return claimsApi.create({
+        contractId: contract.id,
+        productId: contract.productId,
+        lossDate: draft.lossDate,
+        odometerKm: draft.odometerKm,
+        complaint: draft.complaint,
+        lines: draft.lines,
+        deductibleCents: contract.pricingDeductibleCents ?? selectedPricing?.deductibleCents ?? 0,
+        ...limit,
+        openedByRole: "DEALER",
+        openedByUserId: user?.id,
+        openedByEmail: user?.email,
+      });
+    },
+    onSuccess: async (created) => {
+      logAuditEvent({
+        kind: "CLAIM_OPENED",
+        actorUserId: user?.id,
+        actorEmail: user?.email,
+        actorRole: user?.role,
+        dealerId: (user?.dealerId ?? "").trim() || undefined,
+        entityType: "claim",
+        entityId: created.id,
+        message: `Opened claim ${created.claimNumber} on contract ${contract?.contractNumber ?? ""}`.trim(),
+        meta: { contractId: created.contractId, requestedCents: created.requestedCents },
+      });
+      await qc.invalidateQueries({ queryKey: ["claims", created.contractId] });
+    },
+  });
+
+  const onOpenClaim = async (draft: OpenClaimDraft) => {
+    try {
+      await openClaimMutation.mutateAsync(draft);
+    } catch (err) {
+      alertMissing(err instanceof Error ? err.message : "Failed to open claim.");
+      throw err;
+    }
+  };
+
   useEffect(() => {
     if (!selectedPricingId) return;
     if (typeof parsedMileage !== "number") return;
@@ -647,7 +978,7 @@ export function DealerContractDetailPage() {
   }, [eligiblePricingOptions, parsedMileage, selectedPricingId]);
 
   const vinNormalized = vin.trim().replace(/[^a-z0-9]/gi, "").toUpperCase();
-  const vinError = canEdit && vinNormalized.length > 0 && vinNormalized.length !== 17 ? "VIN must be 17 characters." : null;
+  const vinError = canEdit && vinNormalized.length > 0 ? validateVin(vinNormalized).reason : null;
 
   const stepItems: Array<{ key: WizardStep; label: string; enabled: boolean }> = [
     { key: "VEHICLE", label: "Vehicle", enabled: true },
@@ -699,6 +1030,25 @@ export function DealerContractDetailPage() {
         ) : null}
 
         {contract ? (
+          <Tabs value={view} onValueChange={(v) => setView(v === "history" ? "history" : "contract")} className="mt-6">
+            <TabsList>
+              <TabsTrigger value="contract">Contract</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        ) : null}
+
+        {contract && view === "history" ? (
+          <div className="mt-6 rounded-2xl border bg-white p-4 shadow-sm">
+            <div className="font-semibold">History</div>
+            <div className="text-sm text-muted-foreground mt-1">Every saved edit with the values before and after.</div>
+            <div className="mt-4">
+              <ContractHistoryList changes={historyQuery.data ?? []} isLoading={historyQuery.isLoading} />
+            </div>
+          </div>
+        ) : null}
+
+        {contract && view === "contract" ? (
           <div className="mt-6 grid grid-cols-1 gap-6">
             <div className="rounded-2xl border bg-white shadow-sm p-5">
               <div className="flex items-center justify-between gap-4 flex-wrap mb-5">
@@ -706,8 +1056,12 @@ export function DealerContractDetailPage() {
                   <h2 className="font-semibold text-slate-900">Contract Setup</h2>
                   <p className="text-sm text-slate-500 mt-0.5">Complete each step to create the contract.</p>
                 </div>
-                <span className={`text-xs font-semibold px-2.5 py-1 rounded-full ${canEdit ? "bg-amber-100 text-amber-700" : "bg-emerald-100 text-emerald-700"}`}>
-                  {canEdit ? "Draft" : "Locked"}
+                <span
+                  className={`text-xs font-semibold px-2.5 py-1 rounded-full ${
+                    cancellation ? "bg-red-100 text-red-700" : canEdit ? "bg-amber-100 text-amber-700" : "bg-emerald-100 text-emerald-700"
+                  }`}
+                >
+                  {cancellation ? "Cancelled" : canEdit ? "Draft" : "Locked"}
                 </span>
               </div>
 
@@ -879,7 +1233,7 @@ export function DealerContractDetailPage() {
                         if (e.key !== "Enter") return;
                         e.preventDefault();
                         if (!canEdit) return;
-                        if (vinNormalized.length !== 17) return;
+                        if (vinNormalized.length !== 17 || vinError) return;
                         decodeVinMutation.mutate(vinNormalized);
                       }}
                       placeholder="VIN"
@@ -925,10 +1279,20 @@ export function DealerContractDetailPage() {
                     {typeof vehicleAgeYears === "number" ? `Vehicle age: ${vehicleAgeYears} yr` : "Vehicle age: —"}
                     {" • "}
                     {parsedMileage ? `Mileage: ${parsedMileage.toLocaleString()} km` : "Mileage: —"}
+                    {" • "}
+                    {`Powertrain: ${vehiclePowertrain ? VEHICLE_POWERTRAIN_LABELS[vehiclePowertrain] : "—"}`}
                   </div>
+                  {vehicleEligibility ? <EligibilityChecks result={vehicleEligibility} className="mt-3" /> : null}
                 </div>
 
-                {decodeVinMutation.isError ? <div className="mt-3 text-xs text-destructive">Failed to decode VIN.</div> : null}
+                {decodeVinMutation.isError ? (
+                  <div className="mt-3 text-xs text-destructive">
+                    {decodeVinMutation.error instanceof Error ? decodeVinMutation.error.message : "Failed to decode VIN."}
+                  </div>
+                ) : null}
+                {decodeVinMutation.data?.decodeWarning ? (
+                  <div className="mt-3 text-xs text-amber-700">{decodeVinMutation.data.decodeWarning}</div>
+                ) : null}
 
                 <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-3">
                   <Input
@@ -974,6 +1338,19 @@ export function DealerContractDetailPage() {
                     placeholder="Transmission"
                     disabled={!canEdit}
                   />
+                  <select
+                    value={canEdit ? vehiclePowertrain : toVehiclePowertrain(contract.vehiclePowertrain) ?? ""}
+                    onChange={(e) => setVehiclePowertrain(toVehiclePowertrain(e.target.value) ?? "")}
+                    className="h-10 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
+                    disabled={!canEdit}
+                  >
+                    <option value="">Powertrain (unknown)</option>
+                    {(["ICE", "HEV", "PHEV", "BEV"] as const).map((pt) => (
+                      <option key={pt} value={pt}>
+                        {VEHICLE_POWERTRAIN_LABELS[pt]}
+                      </option>
+                    ))}
+                  </select>
                 </div>
 
                 <div className="mt-4 flex gap-2 flex-wrap">
@@ -1307,10 +1684,41 @@ export function DealerContractDetailPage() {
                       </div>
                       <div className="text-right">
                         <div className="text-xs text-muted-foreground">Status</div>
-                        <div className="text-sm font-medium mt-1">{contract.status}</div>
+                        <div className="text-sm font-medium mt-1">{cancellation ? "CANCELLED" : contract.status}</div>
                       </div>
                     </div>
                   </div>
+                  {contractTax && contractTax.lines.length > 0 ? (
+                    <div className="rounded-xl border p-4 md:col-span-2">
+                      <div className="text-xs text-muted-foreground">
+                        Sales tax{contractTax.province ? ` · ${contractTax.province}` : ""}
+                      </div>
+                      {contractTax.province ? (
+                        <div className="mt-2 space-y-2 text-sm">
+                          {contractTax.lines.map((l, idx) => (
+                            <div key={`${l.label}-${idx}`} className="flex items-start justify-between gap-4">
+                              <div>
+                                <div className="font-medium">{l.label}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {l.taxes.length > 0 ? l.taxes.map((t) => `${t.label} ${money(t.taxCents)}`).join(" · ") : "Tax exempt"}
+                                </div>
+                              </div>
+                              <div className="text-right tabular-nums">
+                                <div>{money(l.amountCents)}</div>
+                                <div className="text-xs text-muted-foreground">+{money(l.taxCents)}</div>
+                              </div>
+                            </div>
+                          ))}
+                          <div className="flex items-center justify-between gap-4 border-t pt-2 font-semibold">
+                            <span>Total incl. tax</span>
+                            <span className="tabular-nums">{money(contractTax.totalCents)}</span>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="text-sm text-muted-foreground mt-1">Add the customer's province to calculate sales tax.</div>
+                      )}
+                    </div>
+                  ) : null}
                 </div>
 
                 {contract.status === "DRAFT" ? (
@@ -1353,6 +1761,247 @@ export function DealerContractDetailPage() {
               </div>
             ) : null}
 
+            <div className="rounded-2xl border bg-white p-6 shadow-sm">
+              <div className="flex items-center justify-between gap-3 flex-wrap">
+                <div className="font-semibold">Signatures</div>
+                <span className={`text-xs font-semibold px-2.5 py-1 rounded-full ${SIGNATURE_STATE_STYLES[signatures.state].className}`}>
+                  {SIGNATURE_STATE_STYLES[signatures.state].label}
+                </span>
+              </div>
+              <div className="text-sm text-muted-foreground mt-1">
+                {signatures.state === "OUTDATED"
+                  ? "The contract was edited after it was signed. Have both parties review and sign again."
+                  : "Customer and dealer sign on screen; each signature is bound to a hash of the contract content and printed on every copy."}
+              </div>
+
+              {signatures.state !== "UNSIGNED" ? (
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {CONTRACT_SIGNER_ROLES.map((role) => {
+                    const s = signatures.latest[role];
+                    return (
+                      <div key={role} className="rounded-xl border p-4">
+                        <div className="text-xs text-muted-foreground">{CONTRACT_SIGNER_ROLE_LABELS[role]}</div>
+                        {s ? (
+                          <>
+                            <SignatureMark signature={s} className="mt-2" />
+                            <div className="mt-2 text-xs text-muted-foreground break-all">
+                              IP {s.ipAddress || "not recorded"} · {s.userAgent || "Unknown device"}
+                            </div>
+                            {s.contentHash !== signatures.contentHash ? (
+                              <div className="mt-1 text-xs text-red-700">Signed an earlier version of this contract.</div>
+                            ) : null}
+                          </>
+                        ) : (
+                          <div className="mt-2 text-sm text-muted-foreground">Not signed</div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : null}
+
+              {signatures.contentHash ? (
+                <div className="mt-3 text-xs text-muted-foreground">
+                  Content hash (SHA-256): <span className="font-mono break-all">{signatures.contentHash}</span>
+                </div>
+              ) : null}
+
+              {signatures.state !== "SIGNED" && !cancellation ? (
+                signing ? (
+                  <div className="mt-4">
+                    <ContractSignatureForm
+                      defaultCustomerName={contract.customerName}
+                      defaultDealerName={user?.email}
+                      isSubmitting={signMutation.isPending}
+                      onSubmit={onSignContract}
+                    />
+                  </div>
+                ) : (
+                  <div className="mt-4">
+                    <Button variant="outline" onClick={() => setSigning(true)} disabled={!signatures.isLoaded}>
+                      Sign on screen
+                    </Button>
+                  </div>
+                )
+              ) : null}
+            </div>
+
+            {contract.status !== "DRAFT" ? (
+              <div className="rounded-2xl border bg-white p-6 shadow-sm">
+                <div className="font-semibold">Cancellation</div>
+                {cancellation ? (
+                  <>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      Cancelled {new Date(`${cancellation.cancellationDate}T00:00:00`).toLocaleDateString()} at{" "}
+                      {cancellation.odometerKm.toLocaleString()} km · {CANCELLATION_REFUND_METHOD_LABELS[cancellation.refundMethod]}
+                    </div>
+                    {cancellation.reason ? <div className="text-sm mt-2">{cancellation.reason}</div> : null}
+                    <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div className="rounded-xl border p-4">
+                        <div className="text-xs text-muted-foreground">Customer refund</div>
+                        <div className="text-sm font-semibold mt-1">{money(cancellation.customerRefundCents)}</div>
+                      </div>
+                      <div className="rounded-xl border p-4">
+                        <div className="text-xs text-muted-foreground">Dealer markup refunded</div>
+                        <div className="text-sm font-semibold mt-1">{money(cancellation.dealerRefundCents)}</div>
+                      </div>
+                      <div className="rounded-xl border p-4">
+                        <div className="text-xs text-muted-foreground">Provider net refunded</div>
+                        <div className="text-sm font-semibold mt-1">{money(cancellation.providerRefundCents)}</div>
+                      </div>
+                      <div className="rounded-xl border p-4">
+                        <div className="text-xs text-muted-foreground">Cancellation fee</div>
+                        <div className="text-sm font-semibold mt-1">{money(cancellation.cancellationFeeCents)}</div>
+                      </div>
+                    </div>
+                  </>
+                ) : isEmployee ? (
+                  <div className="text-sm text-muted-foreground mt-1">Only a dealer admin can cancel a contract.</div>
+                ) : (
+                  <>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      Refund method: {CANCELLATION_REFUND_METHOD_LABELS[selectedProduct?.cancellationRefundMethod ?? "PRO_RATA_TIME"]}
+                      {selectedProduct?.cancellationRefundMethod === "SHORT_RATE" && typeof selectedProduct.cancellationFeeCents === "number"
+                        ? ` · ${money(selectedProduct.cancellationFeeCents)} cancellation fee`
+                        : ""}
+                    </div>
+
+                    <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-2">
+                      <Input type="date" value={cancellationDate} onChange={(e) => setCancellationDate(e.target.value)} />
+                      <Input
+                        value={cancellationOdometerKm}
+                        onChange={(e) => setCancellationOdometerKm(sanitizeDigitsOnly(e.target.value))}
+                        placeholder="Odometer at cancellation (km)"
+                        inputMode="numeric"
+                      />
+                      <Input value={cancellationReason} onChange={(e) => setCancellationReason(e.target.value)} placeholder="Reason (optional)" />
+                    </div>
+
+                    {cancellationPreview ? (
+                      <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div className="rounded-xl border p-4">
+                          <div className="text-xs text-muted-foreground">Customer refund</div>
+                          <div className="text-sm font-semibold mt-1">{money(cancellationPreview.customerRefundCents)}</div>
+                          <div className="text-xs text-muted-foreground mt-1">{Math.round(cancellationPreview.refundFraction * 100)}% unearned</div>
+                        </div>
+                        <div className="rounded-xl border p-4">
+                          <div className="text-xs text-muted-foreground">Dealer markup refunded</div>
+                          <div className="text-sm font-semibold mt-1">{money(cancellationPreview.dealerRefundCents)}</div>
+                        </div>
+                        <div className="rounded-xl border p-4">
+                          <div className="text-xs text-muted-foreground">Provider net refunded</div>
+                          <div className="text-sm font-semibold mt-1">{money(cancellationPreview.providerRefundCents)}</div>
+                        </div>
+                        <div className="rounded-xl border p-4">
+                          <div className="text-xs text-muted-foreground">Cancellation fee</div>
+                          <div className="text-sm font-semibold mt-1">{money(cancellationPreview.cancellationFeeCents)}</div>
+                        </div>
+                      </div>
+                    ) : null}
+
+                    <div className="mt-4">
+                      <Button
+                        variant="outline"
+                        className="border-red-200 text-red-700 hover:bg-red-50"
+                        onClick={() => void onCancelContract()}
+                        disabled={!cancellationPreview || cancelMutation.isPending}
+                      >
+                        Cancel contract
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ) : null}
+
+            {contract.status !== "DRAFT" ? (
+              <div className="rounded-2xl border bg-white p-6 shadow-sm">
+                <div className="font-semibold">Ownership transfer</div>
+                <div className="text-sm text-muted-foreground mt-1">
+                  Record a sale of the vehicle to a new owner. Previous owners stay in the history below.
+                </div>
+
+                {transfers.length > 0 ? (
+                  <div className="mt-4">
+                    <TransferHistoryList
+                      transfers={transfers}
+                      onPrintEndorsement={(t) => navigate(`/dealer-contracts/${contractId}/print/customer?endorsement=${t.id}`)}
+                    />
+                  </div>
+                ) : null}
+
+                {isEmployee ? (
+                  <div className="text-sm text-muted-foreground mt-3">Only a dealer admin can transfer a contract.</div>
+                ) : (
+                  <div className="mt-4">
+                    <TransferOwnershipForm
+                      rules={{
+                        policy: selectedProduct?.transferPolicy,
+                        priorTransferCount: transfers.length,
+                        contractStatus: contract.status,
+                        cancelled: Boolean(cancellation),
+                        startDate: contract.soldAt ?? contract.createdAt,
+                        termMonths: contract.pricingTermMonths,
+                        termKm: contract.pricingTermKm,
+                        startOdometerKm: contract.vehicleMileageKm,
+                      }}
+                      transferFeeCents={selectedProduct?.transferFeeCents ?? 0}
+                      isSubmitting={transferMutation.isPending}
+                      onSubmit={onTransferContract}
+                    />
+                  </div>
+                )}
+              </div>
+            ) : null}
+
+            {contract.status !== "DRAFT" ? (
+              <div className="rounded-2xl border bg-white p-6 shadow-sm">
+                <div className="font-semibold">Claims</div>
+                <div className="text-sm text-muted-foreground mt-1">
+                  Deductible {money(contract.pricingDeductibleCents ?? selectedPricing?.deductibleCents)}
+                  {selectedPricing?.claimLimitType ? ` · ${CLAIM_LIMIT_TYPE_LABELS[selectedPricing.claimLimitType]} limit` : ""}
+                </div>
+
+                {claims.length > 0 ? (
+                  <div className="mt-4 divide-y rounded-xl border">
+                    {claims.map((c) => (
+                      <div key={c.id} className="p-4 flex flex-wrap items-center justify-between gap-2">
+                        <div>
+                          <div className="text-sm font-medium">{c.claimNumber}</div>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Loss {new Date(`${c.lossDate}T00:00:00`).toLocaleDateString()} · {c.odometerKm.toLocaleString()} km · {c.lines.length}{" "}
+                            line{c.lines.length === 1 ? "" : "s"}
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className="text-sm font-medium">{CLAIM_STATUS_LABELS[c.status]}</div>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Requested {money(c.requestedCents)}
+                            {c.status !== "SUBMITTED" ? ` · Payable ${money(c.payableCents)}` : ""}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+
+                {cancellation ? (
+                  <div className="text-sm text-muted-foreground mt-4">New claims cannot be opened on a cancelled contract.</div>
+                ) : (
+                  <div className="mt-4">
+                    <OpenClaimForm
+                      coverageItems={selectedProduct?.coverageDetails?.items ?? []}
+                      minOdometerKm={contract.vehicleMileageKm}
+                      minLossDate={(contract.soldAt ?? contract.createdAt).slice(0, 10)}
+                      askVehicleValue={selectedPricing?.claimLimitType === "FMV"}
+                      isSubmitting={openClaimMutation.isPending}
+                      onSubmit={onOpenClaim}
+                    />
+                  </div>
+                )}
+              </div>
+            ) : null}
+
             <div className="rounded-2xl border bg-white p-6 shadow-sm">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
@@ -1361,7 +2010,7 @@ export function DealerContractDetailPage() {
                 </div>
                 <div>
                   <div className="text-sm text-muted-foreground">Status</div>
-                  <div className="text-lg font-semibold mt-1">{contract.status}</div>
+                  <div className="text-lg font-semibold mt-1">{cancellation ? "CANCELLED" : contract.status}</div>
                 </div>
                 <div>
                   <div className="text-sm text-muted-foreground">Created</div>
@@ -1,6 +1,6 @@
 import { useEffect, useMemo } from "react";
 
-import { useParams } from "react-router-dom";
+import { useParams, useSearchParams } from "react-router-dom";
 
 import { useQuery } from "@tanstack/react-query";
 
@@ -28,6 +28,22 @@ import { useAuth } from "../providers/AuthProvider";
 
 import { generateCoverageWording } from "../lib/contracts/coverageWording";
 
+import { contractSalesTax } from "../lib/tax/contractTax";
+
+import { getContractTransfersApi } from "../lib/transfers/transfers";
+
+import { TransferEndorsement } from "../components/transfers/TransferEndorsement";
+
+import { getContractVerificationApi } from "../lib/verification/verification";
+
+import { ContractVerificationStamp } from "../components/verification/ContractVerificationStamp";
+
+import { ElectronicSignatureNote, SignatureMark } from "../components/signatures/ContractSignatureMarks";
+
+import { useContractSignatures } from "../hooks/useContractSignatures";
+
+import { useDealershipProvinces } from "../hooks/useDealershipProvinces";
+
 
 
 const bridgeWarrantyLogoUrl = new URL("../../images/Bridge Warranty_White Background.png", import.meta.url).href;
@@ -384,6 +400,10 @@ export function DealerContractPrintPage() {
 
   const type = (copyType ?? "dealer") as CopyType;
 
+  const [searchParams] = useSearchParams();
+
+  const endorsementId = (searchParams.get("endorsement") ?? "").trim();
+
 
 
   const mode = useMemo(() => getAppMode(), []);
@@ -400,6 +420,10 @@ export function DealerContractPrintPage() {
 
   const productPricingApi = useMemo(() => getProductPricingApi(), []);
 
+  const transfersApi = useMemo(() => getContractTransfersApi(), []);
+
+  const verificationApi = useMemo(() => getContractVerificationApi(), []);
+
 
 
   const contractQuery = useQuery({
@@ -428,6 +452,10 @@ export function DealerContractPrintPage() {
 
 
 
+  const dealershipProvinces = useDealershipProvinces([contract?.dealershipId]);
+
+
+
   const products = (productsQuery.data ?? []) as MarketplaceProduct[];
 
   const productById = new Map(products.map((p) => [p.id, p] as const));
@@ -602,9 +630,53 @@ export function DealerContractPrintPage() {
 
 
 
+  const transfersQuery = useQuery({
+
+    queryKey: ["contract-transfers", contractId],
+
+    enabled: !!contractId,
+
+    queryFn: () => transfersApi.listByContract(contractId),
+
+  });
+
+
+
+  const transfers = transfersQuery.data ?? [];
+
+  const transfersLoaded = !transfersQuery.isLoading;
+
+
+
+  const verificationQuery = useQuery({
+
+    queryKey: ["contract-verification-token", contractId],
+
+    enabled: !!contractId && !!contract && contract.status !== "DRAFT",
+
+    queryFn: () => verificationApi.issueToken(contractId),
+
+    retry: false,
+
+  });
+
+  const verificationLoaded = !verificationQuery.isLoading;
+
+
+
+  const signatures = useContractSignatures(contract);
+
+  const signaturesLoaded = signatures.isLoaded;
+
+  // Signatures taken against an earlier version of the contract are not reproduced on the copy.
+
+  const showSignatures = signatures.state === "SIGNED" || signatures.state === "PARTIAL";
+
+
+
   useEffect(() => {
 
-    if (!contract) return;
+    if (!contract || !transfersLoaded || !verificationLoaded || !signaturesLoaded) return;
 
     const t = window.setTimeout(() => {
 
@@ -614,7 +686,7 @@ export function DealerContractPrintPage() {
 
     return () => window.clearTimeout(t);
 
-  }, [contract]);
+  }, [contract, transfersLoaded, verificationLoaded, signaturesLoaded]);
 
 
 
@@ -686,6 +758,14 @@ export function DealerContractPrintPage() {
 
   const deductibleLabel = money(contract.pricingDeductibleCents ?? undefined);
 
+  const salesTax = contractSalesTax({
+    contract,
+    basis: type === "provider" ? "cost" : "retail",
+    productType: selectedProduct?.productType,
+    productName: selectedProduct?.name,
+    dealershipProvince: dealershipProvinces.get(contract.dealershipId ?? ""),
+  });
+
   const productName = (selectedProduct?.name ?? "—").toString();
 
   const coverageWording = generateCoverageWording(selectedProduct?.coverageDetails ?? null);
@@ -696,6 +776,40 @@ export function DealerContractPrintPage() {
     ? `The following components are NOT covered under this warranty: ${coverageWording.excludedComponents}.`
     : "Exclusions are set by the Provider and may include normal wear and tear, routine maintenance, cosmetic items, and damage caused by misuse or neglect.";
 
+  const endorsement = endorsementId ? transfers.find((t) => t.id === endorsementId) ?? null : null;
+
+
+
+  if (endorsement) {
+
+    return (
+
+      <div className="print-contract-root min-h-screen bg-white text-slate-900">
+
+        <div className="max-w-4xl mx-auto p-10">
+
+          <TransferEndorsement
+
+            contract={contract}
+
+            transfer={endorsement}
+
+            productName={productName}
+
+            providerName={providerDisplay(selectedProduct?.providerId ?? contract.providerId)}
+
+          />
+
+        </div>
+
+      </div>
+
+    );
+
+  }
+
+
+
   const providerTerms = renderProviderTerms({
 
     providerTermsText: providerForContract?.termsText,
@@ -899,6 +1013,13 @@ export function DealerContractPrintPage() {
         <GapRow key="gap-deductible" label="Deductible Coverage" value={money(contract.pricingDeductibleCents)} />
 
       ) : null,
+      salesTax.province && salesTax.lines.length > 0 ? (
+        <GapRow key="gap-price" label="Price" value={money(salesTax.subtotalCents)} />
+      ) : null,
+      ...(salesTax.province ? salesTax.taxes.map((t) => <GapRow key={`gap-tax-${t.label}`} label={t.label} value={money(t.taxCents)} />) : []),
+      salesTax.province && salesTax.lines.length > 0 ? (
+        <GapRow key="gap-total" label="Total incl. tax" value={money(salesTax.totalCents)} />
+      ) : null,
 
       typeof contract.pricingTermMonths === "number" ? (
 
@@ -1411,7 +1532,11 @@ export function DealerContractPrintPage() {
 
                       <div className="w-44">Customer Signature:</div>
 
-                      <div className="flex-1 border-b contract-hr" />
+                      <div className="flex-1 border-b contract-hr">
+
+                        <SignatureMark signature={showSignatures ? signatures.latest.CUSTOMER : undefined} />
+
+                      </div>
 
                     </div>
 
@@ -1419,12 +1544,18 @@ export function DealerContractPrintPage() {
 
                       <div className="w-44">Dealer Representative:</div>
 
-                      <div className="flex-1 border-b contract-hr" />
+                      <div className="flex-1 border-b contract-hr">
+
+                        <SignatureMark signature={showSignatures ? signatures.latest.DEALER : undefined} />
+
+                      </div>
 
                     </div>
 
                   </div>
 
+                  <ElectronicSignatureNote state={signatures.state} contentHash={signatures.contentHash} className="mt-2 text-[10px] text-slate-500" />
+
                 </div>
 
                 <div className="text-right text-[11px] text-slate-500">
@@ -1475,6 +1606,8 @@ export function DealerContractPrintPage() {
 
                   <div className="text-[12px] text-slate-500 mt-2">Contract #{contract.contractNumber}</div>
 
+                  <ContractVerificationStamp token={verificationQuery.data} className="mt-3 flex flex-col items-end" />
+
                 </div>
 
               </div>
@@ -1675,6 +1808,54 @@ export function DealerContractPrintPage() {
 
 
 
+                {salesTax.province && salesTax.lines.length > 0 ? (
+                  <div className="contract-section border-t contract-hr pt-5 mt-6">
+                    <div className="text-[11px] font-bold uppercase tracking-widest text-slate-700">Sales Tax ({salesTax.province})</div>
+                    <div className="mt-3 border-b contract-hr" />
+                    <table className="mt-4 w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-slate-600">
+                          <th className="font-normal pb-2">Item</th>
+                          <th className="font-normal pb-2">Tax</th>
+                          <th className="font-normal pb-2 text-right">Amount</th>
+                          <th className="font-normal pb-2 text-right">Tax</th>
+                          <th className="font-normal pb-2 text-right">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {salesTax.lines.map((l, idx) => (
+                          <tr key={`${l.label}-${idx}`} className="border-t contract-hr">
+                            <td className="py-1.5 font-medium">{l.label}</td>
+                            <td className="py-1.5 text-slate-600">{l.taxes.length > 0 ? l.taxes.map((t) => t.label).join(" + ") : "Exempt"}</td>
+                            <td className="py-1.5 text-right">{money(l.amountCents)}</td>
+                            <td className="py-1.5 text-right">{money(l.taxCents)}</td>
+                            <td className="py-1.5 text-right">{money(l.totalCents)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        {salesTax.taxes.map((t) => (
+                          <tr key={t.label} className="border-t contract-hr text-slate-600">
+                            <td className="py-1.5" colSpan={3}>
+                              {t.label}
+                            </td>
+                            <td className="py-1.5 text-right">{money(t.taxCents)}</td>
+                            <td />
+                          </tr>
+                        ))}
+                        <tr className="border-t contract-hr font-semibold">
+                          <td className="py-1.5" colSpan={2}>
+                            Total incl. tax
+                          </td>
+                          <td className="py-1.5 text-right">{money(salesTax.subtotalCents)}</td>
+                          <td className="py-1.5 text-right">{money(salesTax.taxCents)}</td>
+                          <td className="py-1.5 text-right">{money(salesTax.totalCents)}</td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  </div>
+                ) : null}
+
                 <div className="contract-section border-t contract-hr pt-5 mt-6">
 
                   <div className="text-[11px] font-bold uppercase tracking-widest text-slate-700">Vehicle Information</div>
@@ -1754,7 +1935,7 @@ export function DealerContractPrintPage() {
 
                         <div className="min-w-0">Name / Title:</div>
 
-                        <div className="flex-1 border-b contract-hr" />
+                        <div className="flex-1 border-b contract-hr">{showSignatures ? signatures.latest.DEALER?.signerName : null}</div>
 
                       </div>
 
@@ -1762,7 +1943,11 @@ export function DealerContractPrintPage() {
 
                         <div className="min-w-0">Signature:</div>
 
-                        <div className="flex-1 border-b contract-hr" />
+                        <div className="flex-1 border-b contract-hr">
+
+                          <SignatureMark signature={showSignatures ? signatures.latest.DEALER : undefined} />
+
+                        </div>
 
                       </div>
 
@@ -1784,7 +1969,11 @@ export function DealerContractPrintPage() {
 
                         <div className="min-w-0">Signature:</div>
 
-                        <div className="flex-1 border-b contract-hr" />
+                        <div className="flex-1 border-b contract-hr">
+
+                          <SignatureMark signature={showSignatures ? signatures.latest.CUSTOMER : undefined} />
+
+                        </div>
 
                       </div>
 
@@ -1792,7 +1981,11 @@ export function DealerContractPrintPage() {
 
                         <div className="min-w-0">Date:</div>
 
-                        <div className="flex-1 border-b contract-hr" />
+                        <div className="flex-1 border-b contract-hr">
+
+                          {showSignatures && signatures.latest.CUSTOMER ? new Date(signatures.latest.CUSTOMER.signedAt).toLocaleDateString() : null}
+
+                        </div>
 
                       </div>
 
@@ -1800,6 +1993,16 @@ export function DealerContractPrintPage() {
 
                   </div>
 
+                  <ElectronicSignatureNote
+
+                    state={signatures.state}
+
+                    contentHash={signatures.contentHash}
+
+                    className="md:col-span-2 text-[10px] text-slate-500"
+
+                  />
+
                 </div>
 
               </div>
@@ -1852,6 +2055,28 @@ export function DealerContractPrintPage() {
 
               </div>
 
+
+
+              {transfers.map((t) => (
+
+                <div key={t.id} className="mt-7">
+
+                  <TransferEndorsement
+
+                    contract={contract}
+
+                    transfer={t}
+
+                    productName={productName}
+
+                    providerName={providerDisplay(selectedProduct?.providerId ?? contract.providerId)}
+
+                  />
+
+                </div>
+
+              ))}
+
             </div>
 
 
@@ -1860,6 +2085,16 @@ export function DealerContractPrintPage() {
 
               Generated by {BRAND.name} • Keep this copy for your records.
 
+              {type === "customer" ? (
+
+                <div className="mt-1">
+
+                  View your coverage any time at {window.location.origin}/my-warranty with warranty ID {contract.warrantyId} and your VIN's last 6 characters or postal code.
+
+                </div>
+
+              ) : null}
+
             </div>
 
           </div>
@@ -294,6 +294,7 @@ export function DealerContractsPage() {
         productId: selectedProduct.id,
         providerId: selectedProduct.providerId,
         productPricingId: defaultPricing?.id,
+        productPricingVersionId: defaultPricing?.versionId,
         pricingTermMonths: defaultPricing ? defaultPricing.termMonths : undefined,
         pricingTermKm: defaultPricing ? defaultPricing.termKm : undefined,
         pricingVehicleMileageMinKm:
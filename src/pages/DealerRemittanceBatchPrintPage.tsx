@@ -2,8 +2,12 @@ import { useEffect, useMemo } from "react";
 import { Navigate, useParams } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 
+import { RemittanceCreditNotesPrint } from "../components/remittances/RemittanceCreditNotesPrint";
 import { getBatchesApi } from "../lib/batches/batches";
-import type { Batch } from "../lib/batches/types";
+import { creditNotesAppliedTo } from "../lib/batches/creditNotes";
+import { paymentsForBatch, remittanceBalanceCents } from "../lib/batches/payments";
+import type { Batch, RemittanceCreditNote, RemittancePayment, RemittanceWorkflowStatus } from "../lib/batches/types";
+import { remittanceWorkflowStatus } from "../lib/batches/workflow";
 import { getContractsApi } from "../lib/contracts/contracts";
 import type { Contract } from "../lib/contracts/types";
 import { getMarketplaceApi } from "../lib/marketplace/marketplace";
@@ -13,7 +17,13 @@ import { getAppMode } from "../lib/runtime";
 import { useAuth } from "../providers/AuthProvider";
 
 function money(cents: number) {
-  return `$${(cents / 100).toFixed(2)}`;
+  return `${cents < 0 ? "-" : ""}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+function statusLabel(status: RemittanceWorkflowStatus) {
+  if (status === "DRAFT") return "Pending";
+  if (status === "PARTIALLY_PAID") return "Partially paid";
+  return status.charAt(0) + status.slice(1).toLowerCase();
 }
 
 const LOCAL_DEALER_MEMBERSHIPS_KEY = "warrantyhub.local.dealer_memberships";
@@ -71,9 +81,25 @@ export function DealerRemittanceBatchPrintPage() {
     queryFn: () => marketplaceApi.listPublishedProducts(),
   });
 
-  const batch = ((batchesQuery.data ?? []) as Batch[]).find((b) => b.id === batchId);
+  const paymentsQuery = useQuery({
+    queryKey: ["remittance-payments", mode],
+    enabled: isDealerAdmin,
+    queryFn: () => batchesApi.listPayments(),
+  });
+
+  const creditNotesQuery = useQuery({
+    queryKey: ["remittance-credit-notes"],
+    enabled: isDealerAdmin,
+    queryFn: () => batchesApi.listCreditNotes(),
+  });
+
+  const batches = (batchesQuery.data ?? []) as Batch[];
+  const batch = batches.find((b) => b.id === batchId);
+  const creditNotes = (creditNotesQuery.data ?? []) as RemittanceCreditNote[];
+  const appliedCreditCents = batch ? creditNotesAppliedTo(creditNotes, batch.id).reduce((sum, n) => sum + n.totalCents, 0) : 0;
   const contracts = (contractsQuery.data ?? []) as Contract[];
   const products = (productsQuery.data ?? []) as MarketplaceProduct[];
+  const payments = batch ? paymentsForBatch((paymentsQuery.data ?? []) as RemittancePayment[], batch.id) : [];
 
   const uid = (user?.id ?? "").trim();
   const uem = (user?.email ?? "").trim().toLowerCase();
@@ -139,7 +165,7 @@ export function DealerRemittanceBatchPrintPage() {
   if (!user) return <Navigate to="/sign-in" replace />;
   if (!isDealerAdmin) return <Navigate to="/dealer-dashboard" replace />;
 
-  if (batchesQuery.isLoading || contractsQuery.isLoading || productsQuery.isLoading) {
+  if (batchesQuery.isLoading || contractsQuery.isLoading || productsQuery.isLoading || paymentsQuery.isLoading || creditNotesQuery.isLoading) {
     return <div className="container mx-auto px-4 py-10 text-sm text-muted-foreground">Loading…</div>;
   }
 
@@ -148,6 +174,7 @@ export function DealerRemittanceBatchPrintPage() {
   }
 
   const createdAt = new Date(batch.createdAt).toLocaleString();
+  const workflow = remittanceWorkflowStatus(batch);
 
   return (
     <div className="min-h-screen bg-white text-slate-900">
@@ -173,10 +200,42 @@ export function DealerRemittanceBatchPrintPage() {
               <div className="rounded-lg border p-4">
                 <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">Remittance Amount</div>
                 <div className="mt-3 space-y-2 text-sm">
+                  {batch.taxBreakdown.length > 0 ? (
+                    <>
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="text-slate-600">Subtotal</div>
+                        <div className="font-medium">{money(batch.subtotalCents)}</div>
+                      </div>
+                      {batch.taxBreakdown.map((t) => (
+                        <div key={t.label} className="flex items-center justify-between gap-3">
+                          <div className="text-slate-600">{t.label}</div>
+                          <div className="font-medium">{money(t.taxCents)}</div>
+                        </div>
+                      ))}
+                    </>
+                  ) : null}
+                  {appliedCreditCents < 0 ? (
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="text-slate-600">Includes credit notes</div>
+                      <div className="font-medium">{money(appliedCreditCents)}</div>
+                    </div>
+                  ) : null}
                   <div className="flex items-center justify-between gap-3">
-                    <div className="text-slate-600">Amount</div>
+                    <div className="text-slate-600">{batch.taxBreakdown.length > 0 ? "Total" : "Amount"}</div>
                     <div className="font-semibold">{money(batch.totalCents)}</div>
                   </div>
+                  {batch.paidCents > 0 ? (
+                    <>
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="text-slate-600">Paid to date</div>
+                        <div className="font-medium">{money(batch.paidCents)}</div>
+                      </div>
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="text-slate-600">Balance outstanding</div>
+                        <div className="font-semibold">{money(remittanceBalanceCents(batch))}</div>
+                      </div>
+                    </>
+                  ) : null}
                 </div>
               </div>
 
@@ -185,7 +244,7 @@ export function DealerRemittanceBatchPrintPage() {
                 <div className="mt-3 space-y-2 text-sm">
                   <div className="flex items-center justify-between gap-3">
                     <div className="text-slate-600">Remittance status</div>
-                    <div className="font-medium">{batch.status === "CLOSED" ? "Submitted" : "Pending"}</div>
+                    <div className="font-medium">{statusLabel(workflow)}</div>
                   </div>
                 </div>
               </div>
@@ -224,6 +283,34 @@ export function DealerRemittanceBatchPrintPage() {
                 {lines.length === 0 ? <div className="px-4 py-6 text-sm text-slate-500">No contracts in this batch.</div> : null}
               </div>
             </div>
+
+            <RemittanceCreditNotesPrint batch={batch} batches={batches} notes={creditNotes} />
+
+            {payments.length > 0 ? (
+              <div className="mt-6 border rounded-xl overflow-hidden">
+                <div className="grid grid-cols-12 gap-2 px-4 py-3 border-b text-[11px] uppercase tracking-wide text-slate-500">
+                  <div className="col-span-3">Payment Date</div>
+                  <div className="col-span-2">Method</div>
+                  <div className="col-span-5">Reference</div>
+                  <div className="col-span-2 text-right">Amount</div>
+                </div>
+
+                <div className="divide-y">
+                  {payments.map((p) => (
+                    <div key={p.id} className="grid grid-cols-12 gap-2 px-4 py-3 text-sm items-center">
+                      <div className="col-span-3">{p.paymentDate}</div>
+                      <div className="col-span-2">{p.method === "CHEQUE" ? "Cheque" : "EFT"}</div>
+                      <div className="col-span-5 text-slate-600">{p.reference ?? "—"}</div>
+                      <div className="col-span-2 text-right font-medium">{money(p.amountCents)}</div>
+                    </div>
+                  ))}
+                  <div className="grid grid-cols-12 gap-2 px-4 py-3 text-sm items-center">
+                    <div className="col-span-10 text-slate-600">Balance outstanding</div>
+                    <div className="col-span-2 text-right font-semibold">{money(remittanceBalanceCents(batch))}</div>
+                  </div>
+                </div>
+              </div>
+            ) : null}
           </div>
 
           <div className="px-6 py-4 border-t text-[11px] text-slate-500">
@@ -7,16 +7,24 @@ import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { PageShell } from "../components/PageShell";
 import { getBatchesApi } from "../lib/batches/batches";
+import { creditNoteSalesTax, creditNotesIssuedAgainst, openCreditNotes } from "../lib/batches/creditNotes";
+import { isAwaitingPayment, remittanceBalanceCents } from "../lib/batches/payments";
 import type { Batch, RemittanceWorkflowStatus } from "../lib/batches/types";
+import { canIssueCreditNote, isRemittanceEditable, remittanceWorkflowStatus } from "../lib/batches/workflow";
 import { getContractsApi } from "../lib/contracts/contracts";
+import { getContractCancellationsApi } from "../lib/cancellations/cancellations";
 import type { Contract } from "../lib/contracts/types";
+import { getMarketplaceApi } from "../lib/marketplace/marketplace";
+import { contractSalesTax } from "../lib/tax/contractTax";
+import { combineSalesTax, effectiveTaxRate } from "../lib/tax/salesTax";
 import { getAppMode } from "../lib/runtime";
 import { alertMissing, confirmProceed } from "../lib/utils";
 import { logAuditEvent } from "../lib/auditLog";
+import { useDealershipProvinces } from "../hooks/useDealershipProvinces";
 import { useAuth } from "../providers/AuthProvider";
 
 function money(cents: number) {
-  return `$${(cents / 100).toFixed(2)}`;
+  return `${cents < 0 ? "-" : ""}$${(Math.abs(cents) / 100).toFixed(2)}`;
 }
 
 function providerShort(id: string | undefined) {
@@ -35,6 +43,7 @@ function remittanceTabLabel(t: RemittanceTabKey) {
   if (t === "SUBMITTED") return "Submitted";
   if (t === "APPROVED") return "Approved";
   if (t === "REJECTED") return "Rejected";
+  if (t === "PARTIALLY_PAID") return "Partially paid";
   return "Paid";
 }
 
@@ -66,6 +75,8 @@ function dealershipUserIds(dealerId: string) {
 export function DealerRemittancesPage() {
   const contractsApi = useMemo(() => getContractsApi(), []);
   const batchesApi = useMemo(() => getBatchesApi(), []);
+  const cancellationsApi = useMemo(() => getContractCancellationsApi(), []);
+  const marketplaceApi = useMemo(() => getMarketplaceApi(), []);
   const qc = useQueryClient();
   const { user } = useAuth();
 
@@ -79,6 +90,11 @@ export function DealerRemittancesPage() {
   const [remittanceTab, setRemittanceTab] = useState<RemittanceTabKey>("DRAFT");
   const [contractPickerView, setContractPickerView] = useState<ContractPickerView>("READY");
   const [remittanceSearch, setRemittanceSearch] = useState("");
+  const [selectedCredits, setSelectedCredits] = useState<Record<string, boolean>>({});
+  const [creditBatchId, setCreditBatchId] = useState<string | null>(null);
+  const [creditContractId, setCreditContractId] = useState("");
+  const [creditAmount, setCreditAmount] = useState("");
+  const [creditReason, setCreditReason] = useState("");
 
   const contractsQuery = useQuery({
     queryKey: ["contracts"],
@@ -92,6 +108,32 @@ export function DealerRemittancesPage() {
     queryFn: () => batchesApi.list(),
   });
 
+  const cancellationsQuery = useQuery({
+    queryKey: ["contract-cancellations"],
+    enabled: isDealerAdmin,
+    queryFn: () => cancellationsApi.list(),
+  });
+
+  const creditNotesQuery = useQuery({
+    queryKey: ["remittance-credit-notes"],
+    enabled: isDealerAdmin,
+    queryFn: () => batchesApi.listCreditNotes(),
+  });
+
+  const productsQuery = useQuery({
+    queryKey: ["marketplace-products"],
+    enabled: isDealerAdmin,
+    queryFn: () => marketplaceApi.listPublishedProducts(),
+  });
+
+  const productById = useMemo(() => new Map((productsQuery.data ?? []).map((p) => [p.id, p] as const)), [productsQuery.data]);
+
+  // A contract cancelled before it is remitted only owes the provider the earned share.
+  const providerRefundByContractId = useMemo(
+    () => new Map((cancellationsQuery.data ?? []).map((c) => [c.contractId, c.providerRefundCents] as const)),
+    [cancellationsQuery.data],
+  );
+
   const allContracts = useMemo(() => (contractsQuery.data ?? []) as Contract[], [contractsQuery.data]);
   const uid = (user?.id ?? "").trim();
   const uem = (user?.email ?? "").trim().toLowerCase();
@@ -141,8 +183,12 @@ export function DealerRemittancesPage() {
       const cents = calculatedTotalCents;
       await batchesApi.update(created.id, {
         contractIds: selectedIds,
+        subtotalCents: remittanceTax.subtotalCents,
+        taxCents: remittanceTax.taxCents,
+        taxRate: effectiveTaxRate(remittanceTax),
+        taxBreakdown: remittanceTax.taxes,
         totalCents: cents,
-        remittanceStatus: "DRAFT",
+        creditNoteIds: selectedCreditIds,
         dealerUserId: user?.id,
         dealerEmail: user?.email,
         providerId,
@@ -157,7 +203,7 @@ export function DealerRemittancesPage() {
         entityType: "remittance",
         entityId: created.id,
         message: `Created remittance ${r}`,
-        meta: { totalCents: cents, contractCount: selectedIds.length, providerId },
+        meta: { totalCents: cents, contractCount: selectedIds.length, providerId, creditNoteIds: selectedCreditIds },
       });
 
       return created;
@@ -166,28 +212,56 @@ export function DealerRemittancesPage() {
       setRemittanceNumber("");
       setAmount("");
       setSelected({});
+      setSelectedCredits({});
       await qc.invalidateQueries({ queryKey: ["batches"] });
       await qc.invalidateQueries({ queryKey: ["contracts"] });
+      await qc.invalidateQueries({ queryKey: ["remittance-credit-notes"] });
+    },
+  });
+
+  const issueCreditNoteMutation = useMutation({
+    mutationFn: async () => {
+      const batch = allBatches.find((b) => b.id === creditBatchId);
+      if (!batch) throw new Error("Choose a remittance");
+      const contract = visibleContracts.find((c) => c.id === creditContractId);
+      if (!contract) throw new Error("Choose a contract");
+      const cents = Math.round(Number(creditAmount) * 100);
+      if (!Number.isFinite(cents) || cents <= 0) throw new Error("Credit amount must be greater than zero");
+
+      const note = await batchesApi.issueCreditNote(
+        {
+          contractId: contract.id,
+          originalBatchId: batch.id,
+          reason: creditReason,
+          subtotalCents: -cents,
+        },
+        user ?? undefined,
+      );
+
+      logAuditEvent({
+        kind: "REMITTANCE_CREDIT_NOTE_ISSUED",
+        actorUserId: user?.id,
+        actorEmail: user?.email,
+        actorRole: user?.role,
+        dealerId: (user?.dealerId ?? "").trim() || undefined,
+        entityType: "remittance",
+        entityId: batch.id,
+        message: `Issued credit note ${note.creditNoteNumber} against remittance ${batch.batchNumber}`,
+        meta: { creditNoteId: note.id, contractId: contract.id, totalCents: note.totalCents },
+      });
+    },
+    onSuccess: async () => {
+      setCreditBatchId(null);
+      setCreditContractId("");
+      setCreditAmount("");
+      setCreditReason("");
+      await qc.invalidateQueries({ queryKey: ["remittance-credit-notes"] });
     },
   });
 
   const submitRemittanceMutation = useMutation({
     mutationFn: async (remittanceId: string) => {
-      const now = new Date().toISOString();
-      const all = await batchesApi.list();
-      const r = (all as Batch[]).find((x) => x.id === remittanceId);
-      if (!r) throw new Error("Remittance not found");
-      const workflow = (r.remittanceStatus ?? (r.status === "CLOSED" ? "SUBMITTED" : "DRAFT")) as RemittanceWorkflowStatus;
-      if (workflow !== "DRAFT") throw new Error("Remittance is already submitted");
-      if (!Array.isArray(r.contractIds) || r.contractIds.length === 0) throw new Error("No contracts linked");
-
-      await batchesApi.update(remittanceId, {
-        status: "CLOSED",
-        remittanceStatus: "SUBMITTED",
-        submittedAt: now,
-        dealerUserId: user?.id,
-        dealerEmail: user?.email,
-      });
+      const r = await batchesApi.transition(remittanceId, { to: "SUBMITTED" }, user ?? undefined);
 
       logAuditEvent({
         kind: "REMITTANCE_SUBMITTED",
@@ -199,15 +273,6 @@ export function DealerRemittancesPage() {
         entityId: remittanceId,
         message: `Submitted remittance ${r.batchNumber}`,
       });
-
-      for (const id of r.contractIds) {
-        await contractsApi.update(id, {
-          status: "REMITTED",
-          remittedByUserId: user?.id,
-          remittedByEmail: user?.email,
-          remittedAt: now,
-        });
-      }
     },
     onSuccess: async () => {
       await qc.invalidateQueries({ queryKey: ["batches"] });
@@ -215,7 +280,7 @@ export function DealerRemittancesPage() {
     },
   });
 
-  const busy = createRemittanceMutation.isPending || submitRemittanceMutation.isPending;
+  const busy = createRemittanceMutation.isPending || submitRemittanceMutation.isPending || issueCreditNoteMutation.isPending;
 
   const allBatches = useMemo(() => (batchesQuery.data ?? []) as Batch[], [batchesQuery.data]);
   const myRemittances = useMemo(
@@ -270,18 +335,41 @@ export function DealerRemittancesPage() {
     return "__multiple__";
   }, [selectedContracts]);
 
-  const calculatedTotalCents = useMemo(() => {
-    return selectedContracts.reduce((sum, c) => {
-      const cost =
-        typeof c.pricingDealerCostCents === "number"
-          ? c.pricingDealerCostCents
-          : typeof c.pricingBasePriceCents === "number"
-            ? c.pricingBasePriceCents
-            : 0;
-      const addonCost = typeof c.addonTotalCostCents === "number" ? c.addonTotalCostCents : 0;
-      return sum + cost + addonCost;
-    }, 0);
-  }, [selectedContracts]);
+  const creditNotes = useMemo(() => creditNotesQuery.data ?? [], [creditNotesQuery.data]);
+  const myRemittanceIds = useMemo(() => new Set(myRemittances.map((b) => b.id)), [myRemittances]);
+
+  // Open credit notes on this dealer's remittances can be carried by a new remittance to the same provider.
+  const availableCredits = useMemo(() => {
+    if (!selectedProviderId || selectedProviderId === "__multiple__") return [];
+    return openCreditNotes(creditNotes, selectedProviderId).filter((n) => myRemittanceIds.has(n.originalBatchId));
+  }, [creditNotes, myRemittanceIds, selectedProviderId]);
+
+  const selectedCreditNotes = useMemo(() => availableCredits.filter((n) => selectedCredits[n.id]), [availableCredits, selectedCredits]);
+  const selectedCreditIds = useMemo(() => selectedCreditNotes.map((n) => n.id), [selectedCreditNotes]);
+
+  const dealershipProvinces = useDealershipProvinces(selectedContracts.map((c) => c.dealershipId));
+
+  // Each contract is taxed by its own province and product type, then the batch sums the tax lines.
+  // Credit notes carry their own tax reversal and are summed in as negative lines.
+  const remittanceTax = useMemo(() => {
+    return combineSalesTax([
+      ...selectedContracts.map((c) => {
+        const product = productById.get((c.productId ?? "").trim());
+        const reversal = providerRefundByContractId.get(c.id) ?? 0;
+        return contractSalesTax({
+          contract: c,
+          basis: "cost",
+          productType: product?.productType,
+          productName: product?.name,
+          dealershipProvince: dealershipProvinces.get(c.dealershipId ?? ""),
+          extraLines: reversal > 0 ? [{ label: "Cancellation refund", amountCents: -reversal }] : [],
+        });
+      }),
+      ...selectedCreditNotes.map(creditNoteSalesTax),
+    ]);
+  }, [dealershipProvinces, productById, providerRefundByContractId, selectedContracts, selectedCreditNotes]);
+
+  const calculatedTotalCents = remittanceTax.totalCents;
 
   useEffect(() => {
     if (selectedIds.length === 0) {
@@ -291,19 +379,12 @@ export function DealerRemittancesPage() {
     setAmount((calculatedTotalCents / 100).toFixed(2));
   }, [calculatedTotalCents, selectedIds.length]);
 
-  const derivedWorkflow = (b: Batch): RemittanceWorkflowStatus => {
-    const s = b.remittanceStatus;
-    if (s) return s;
-    if (b.paymentStatus === "PAID") return "PAID";
-    if (b.status === "CLOSED") return "SUBMITTED";
-    return "DRAFT";
-  };
-
-  const pending = useMemo(() => myRemittances.filter((r) => derivedWorkflow(r) === "DRAFT"), [myRemittances]);
-  const submitted = useMemo(() => myRemittances.filter((r) => derivedWorkflow(r) === "SUBMITTED"), [myRemittances]);
-  const approved = useMemo(() => myRemittances.filter((r) => derivedWorkflow(r) === "APPROVED"), [myRemittances]);
-  const rejected = useMemo(() => myRemittances.filter((r) => derivedWorkflow(r) === "REJECTED"), [myRemittances]);
-  const paid = useMemo(() => myRemittances.filter((r) => derivedWorkflow(r) === "PAID"), [myRemittances]);
+  const pending = useMemo(() => myRemittances.filter((r) => remittanceWorkflowStatus(r) === "DRAFT"), [myRemittances]);
+  const submitted = useMemo(() => myRemittances.filter((r) => remittanceWorkflowStatus(r) === "SUBMITTED"), [myRemittances]);
+  const approved = useMemo(() => myRemittances.filter((r) => remittanceWorkflowStatus(r) === "APPROVED"), [myRemittances]);
+  const rejected = useMemo(() => myRemittances.filter((r) => remittanceWorkflowStatus(r) === "REJECTED"), [myRemittances]);
+  const partiallyPaid = useMemo(() => myRemittances.filter((r) => remittanceWorkflowStatus(r) === "PARTIALLY_PAID"), [myRemittances]);
+  const paid = useMemo(() => myRemittances.filter((r) => remittanceWorkflowStatus(r) === "PAID"), [myRemittances]);
 
   const remittanceCounts = useMemo(() => {
     return {
@@ -312,19 +393,21 @@ export function DealerRemittancesPage() {
       SUBMITTED: submitted.length,
       APPROVED: approved.length,
       REJECTED: rejected.length,
+      PARTIALLY_PAID: partiallyPaid.length,
       PAID: paid.length,
     };
-  }, [approved.length, myRemittances.length, paid.length, pending.length, rejected.length, submitted.length]);
+  }, [approved.length, myRemittances.length, paid.length, partiallyPaid.length, pending.length, rejected.length, submitted.length]);
 
   const statusBadge = (status: RemittanceWorkflowStatus) => {
     if (status === "PAID") return "inline-flex items-center text-xs px-2.5 py-1 rounded-full border bg-emerald-50 text-emerald-700 border-emerald-200";
+    if (status === "PARTIALLY_PAID") return "inline-flex items-center text-xs px-2.5 py-1 rounded-full border bg-violet-50 text-violet-700 border-violet-200";
     if (status === "APPROVED") return "inline-flex items-center text-xs px-2.5 py-1 rounded-full border bg-sky-50 text-sky-800 border-sky-200";
     if (status === "REJECTED") return "inline-flex items-center text-xs px-2.5 py-1 rounded-full border bg-rose-50 text-rose-700 border-rose-200";
     if (status === "SUBMITTED") return "inline-flex items-center text-xs px-2.5 py-1 rounded-full border bg-amber-50 text-amber-800 border-amber-200";
     return "inline-flex items-center text-xs px-2.5 py-1 rounded-full border bg-slate-50 text-slate-700 border-slate-200";
   };
 
-  const remittanceTabs: RemittanceTabKey[] = ["DRAFT", "SUBMITTED", "APPROVED", "REJECTED", "PAID"];
+  const remittanceTabs: RemittanceTabKey[] = ["DRAFT", "SUBMITTED", "APPROVED", "REJECTED", "PARTIALLY_PAID", "PAID"];
   const remittancePrintUrl = (id: string) => `/dealer-remittances/batches/${id}/print`;
 
   const remittancesForTab = useMemo(() => {
@@ -339,7 +422,9 @@ export function DealerRemittancesPage() {
               ? approved
               : remittanceTab === "REJECTED"
                 ? rejected
-                : paid;
+                : remittanceTab === "PARTIALLY_PAID"
+                  ? partiallyPaid
+                  : paid;
 
     const q = remittanceSearch.trim().toLowerCase();
     if (!q) return list;
@@ -349,7 +434,7 @@ export function DealerRemittancesPage() {
         .join(" ");
       return hay.includes(q);
     });
-  }, [approved, myRemittances, paid, pending, rejected, remittanceSearch, remittanceTab, submitted]);
+  }, [approved, myRemittances, paid, partiallyPaid, pending, rejected, remittanceSearch, remittanceTab, submitted]);
 
   if (!user) return <Navigate to="/sign-in" replace />;
   if (!isDealerAdmin) return <Navigate to="/dealer-dashboard" replace />;
@@ -462,11 +547,48 @@ export function DealerRemittancesPage() {
                     {selectedProviderId === "__multiple__" ? " • Multiple providers" : ""}
                   </div>
                 </div>
-                <div className="text-sm font-semibold">Provider total {money(calculatedTotalCents)}</div>
+                <div className="text-right">
+                  <div className="text-sm font-semibold">Provider total {money(calculatedTotalCents)}</div>
+                  {remittanceTax.taxes.length > 0 ? (
+                    <div className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                      <div>Subtotal {money(remittanceTax.subtotalCents)}</div>
+                      {remittanceTax.taxes.map((t) => (
+                        <div key={t.label}>
+                          {t.label} {money(t.taxCents)}
+                        </div>
+                      ))}
+                    </div>
+                  ) : null}
+                </div>
               </div>
               {selectedProviderId === "__multiple__" ? (
                 <div className="mt-2 text-sm text-destructive">A remittance can only include contracts from one provider. Uncheck contracts to continue.</div>
               ) : null}
+              {availableCredits.length > 0 ? (
+                <div className="mt-3 border-t pt-3 space-y-2">
+                  <div className="text-xs text-muted-foreground">Open credit notes for this provider</div>
+                  {availableCredits.map((n) => (
+                    <button
+                      key={n.id}
+                      type="button"
+                      disabled={busy}
+                      onClick={() => setSelectedCredits((s) => ({ ...s, [n.id]: !s[n.id] }))}
+                      className="flex w-full items-center gap-3 text-left text-sm"
+                    >
+                      {selectedCredits[n.id] ? (
+                        <CheckSquare className="h-5 w-5 text-blue-600" />
+                      ) : (
+                        <Square className="h-5 w-5 text-muted-foreground" />
+                      )}
+                      <span className="font-medium">{n.creditNoteNumber}</span>
+                      <span className="flex-1 truncate text-muted-foreground">
+                        {n.contractNumber ?? n.contractId.slice(0, 8)} • {n.reason}
+                      </span>
+                      <span className="font-medium">{money(n.totalCents)}</span>
+                    </button>
+                  ))}
+                </div>
+              ) : null}
             </div>
 
             <div className="rounded-xl border overflow-hidden">
@@ -542,7 +664,12 @@ export function DealerRemittancesPage() {
                               : typeof c.pricingBasePriceCents === "number"
                                 ? c.pricingBasePriceCents
                                 : 0;
-                          return money(cost);
+                          const reversal = providerRefundByContractId.get(c.id) ?? 0;
+                          return reversal > 0 ? (
+                            <span title={`Cancelled — ${money(reversal)} provider refund reversed`}>{money(cost - reversal)}</span>
+                          ) : (
+                            money(cost)
+                          );
                         })()}
                       </div>
                     </div>
@@ -612,6 +739,94 @@ export function DealerRemittancesPage() {
             </div>
           </div>
 
+          {creditBatchId ? (
+            (() => {
+              const batch = myRemittances.find((b) => b.id === creditBatchId);
+              if (!batch) return null;
+              const issued = creditNotesIssuedAgainst(creditNotes, batch.id);
+              return (
+                <div className="mx-5 my-3 rounded-xl border bg-slate-50 p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="text-sm font-semibold">Issue credit note against {batch.batchNumber}</div>
+                    <Button size="sm" variant="outline" disabled={busy} onClick={() => setCreditBatchId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                  {issued.length > 0 ? (
+                    <div className="text-xs text-muted-foreground">
+                      Already credited: {issued.map((n) => `${n.creditNoteNumber} (${money(n.totalCents)})`).join(", ")}
+                    </div>
+                  ) : null}
+                  <div className="flex items-center gap-3 flex-wrap">
+                    <select
+                      value={creditContractId}
+                      onChange={(e) => setCreditContractId(e.target.value)}
+                      disabled={busy}
+                      className="h-10 rounded-md border border-input bg-background/70 px-3 text-sm shadow-sm"
+                    >
+                      <option value="">Contract…</option>
+                      {batch.contractIds.map((id) => {
+                        const c = visibleContracts.find((x) => x.id === id);
+                        return (
+                          <option key={id} value={id}>
+                            {c ? `${c.warrantyId} • ${c.customerName}` : id.slice(0, 8)}
+                          </option>
+                        );
+                      })}
+                    </select>
+                    <div className="w-[140px]">
+                      <Input
+                        value={creditAmount}
+                        onChange={(e) => setCreditAmount(e.target.value)}
+                        placeholder="Amount before tax"
+                        inputMode="decimal"
+                        disabled={busy}
+                        className="h-10"
+                      />
+                    </div>
+                    <div className="flex-1 min-w-[200px]">
+                      <Input
+                        value={creditReason}
+                        onChange={(e) => setCreditReason(e.target.value)}
+                        placeholder="Reason"
+                        disabled={busy}
+                        className="h-10"
+                      />
+                    </div>
+                    <Button
+                      className="bg-yellow-400 text-black hover:bg-yellow-300 h-10"
+                      disabled={busy || !creditContractId || !creditAmount.trim() || !creditReason.trim()}
+                      onClick={() => {
+                        void (async () => {
+                          if (!(await confirmProceed(`Issue a $${creditAmount} credit note against ${batch.batchNumber}?`))) return;
+                          issueCreditNoteMutation.mutate();
+                        })();
+                      }}
+                    >
+                      Issue Credit Note
+                    </Button>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Tax is reversed at the contract&apos;s own rates. The credit is deducted from the next remittance to this provider.
+                  </div>
+                  {issueCreditNoteMutation.isError ? (
+                    <p className="text-sm text-destructive">
+                      {issueCreditNoteMutation.error instanceof Error ? issueCreditNoteMutation.error.message : "Failed to issue credit note"}
+                    </p>
+                  ) : null}
+                </div>
+              );
+            })()
+          ) : null}
+
+          {submitRemittanceMutation.isError ? (
+            <div className="mx-5 my-3 rounded-lg border border-destructive/20 bg-destructive/5 p-3">
+              <p className="text-sm text-destructive">
+                {submitRemittanceMutation.error instanceof Error ? submitRemittanceMutation.error.message : "Failed to submit remittance"}
+              </p>
+            </div>
+          ) : null}
+
           <div className="overflow-auto">
             <table className="w-full text-sm">
               <thead className="bg-slate-50">
@@ -620,6 +835,7 @@ export function DealerRemittancesPage() {
                   <th className="px-5 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Provider</th>
                   <th className="px-5 py-3 text-center text-xs font-semibold text-slate-500 uppercase tracking-wider">Contracts</th>
                   <th className="px-5 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider">Batch Total</th>
+                  <th className="px-5 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider">Balance</th>
                   <th className="px-5 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Status</th>
                   <th className="px-5 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Date</th>
                   <th className="px-5 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider">Actions</th>
@@ -627,15 +843,32 @@ export function DealerRemittancesPage() {
               </thead>
               <tbody className="divide-y divide-slate-100">
                 {remittancesForTab.map((r) => {
-                  const workflow = derivedWorkflow(r);
+                  const workflow = remittanceWorkflowStatus(r);
                   return (
                     <tr key={r.id} className="hover:bg-slate-50/60 transition-colors">
                       <td className="px-5 py-3.5 font-medium">{r.batchNumber}</td>
                       <td className="px-5 py-3.5 text-muted-foreground">{providerShort(r.providerId)}</td>
                       <td className="px-5 py-3.5 text-center">{Array.isArray(r.contractIds) ? r.contractIds.length : 0}</td>
                       <td className="px-5 py-3.5 text-right font-medium">{money(r.totalCents)}</td>
+                      <td className="px-5 py-3.5 text-right">
+                        {isAwaitingPayment(r) || workflow === "PAID" ? (
+                          <>
+                            <div className={remittanceBalanceCents(r) > 0 ? "font-medium text-amber-700" : "text-muted-foreground"}>
+                              {money(remittanceBalanceCents(r))}
+                            </div>
+                            {r.paidCents > 0 && remittanceBalanceCents(r) > 0 ? (
+                              <div className="text-xs text-muted-foreground">{money(r.paidCents)} paid</div>
+                            ) : null}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
                       <td className="px-5 py-3.5">
                         <span className={statusBadge(workflow)}>{remittanceTabLabel(workflow)}</span>
+                        {workflow === "REJECTED" && r.rejectionReason ? (
+                          <div className="mt-1 text-xs text-muted-foreground">{r.rejectionReason}</div>
+                        ) : null}
                       </td>
                       <td className="px-5 py-3.5 text-muted-foreground">
                         {new Date((r.submittedAt ?? r.createdAt) as string).toLocaleDateString()}
@@ -648,20 +881,35 @@ export function DealerRemittancesPage() {
                               Download
                             </Link>
                           </Button>
-                          {workflow === "DRAFT" ? (
+                          {isRemittanceEditable(workflow) ? (
                             <Button
                               size="sm"
                               className="bg-yellow-400 text-black hover:bg-yellow-300"
                               onClick={() => {
                                 void (async () => {
-                                  if (!(await confirmProceed(`Submit remittance ${r.batchNumber}?`))) return;
+                                  if (!(await confirmProceed(`${workflow === "REJECTED" ? "Resubmit" : "Submit"} remittance ${r.batchNumber}?`))) return;
                                   submitRemittanceMutation.mutate(r.id);
                                 })();
                               }}
                               disabled={submitRemittanceMutation.isPending}
                             >
                               <RefreshCw className="h-3.5 w-3.5 mr-1" />
-                              Submit
+                              {workflow === "REJECTED" ? "Resubmit" : "Submit"}
+                            </Button>
+                          ) : user && canIssueCreditNote(user) ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busy}
+                              onClick={() => {
+                                issueCreditNoteMutation.reset();
+                                setCreditBatchId(r.id);
+                                setCreditContractId("");
+                                setCreditAmount("");
+                                setCreditReason("");
+                              }}
+                            >
+                              Credit
                             </Button>
                           ) : null}
                         </div>
@@ -672,21 +920,21 @@ export function DealerRemittancesPage() {
 
                 {batchesQuery.isLoading ? (
                   <tr>
-                    <td className="px-5 py-8 text-sm text-muted-foreground text-center" colSpan={7}>
+                    <td className="px-5 py-8 text-sm text-muted-foreground text-center" colSpan={8}>
                       Loading…
                     </td>
                   </tr>
                 ) : null}
                 {!batchesQuery.isLoading && remittancesForTab.length === 0 ? (
                   <tr>
-                    <td className="px-5 py-10 text-sm text-muted-foreground text-center" colSpan={7}>
+                    <td className="px-5 py-10 text-sm text-muted-foreground text-center" colSpan={8}>
                       No remittances found.
                     </td>
                   </tr>
                 ) : null}
                 {batchesQuery.isError ? (
                   <tr>
-                    <td className="px-5 py-8 text-sm text-destructive text-center" colSpan={7}>
+                    <td className="px-5 py-8 text-sm text-destructive text-center" colSpan={8}>
                       Failed to load remittances.
                     </td>
                   </tr>
@@ -8,6 +8,7 @@ import { Input } from "../components/ui/input";
 import { PageShell } from "../components/PageShell";
 import { listAuditEvents } from "../lib/auditLog";
 import { getBatchesApi } from "../lib/batches/batches";
+import { remittanceBalanceCents } from "../lib/batches/payments";
 import type { Batch } from "../lib/batches/types";
 import { getContractsApi } from "../lib/contracts/contracts";
 import type { Contract, ContractStatus } from "../lib/contracts/types";
@@ -280,8 +281,8 @@ export function DealerReportingPage() {
 
   const outstandingCents = useMemo(() => {
     return batches
-      .filter((b) => b.status === "CLOSED" && b.paymentStatus === "UNPAID")
-      .reduce((sum, b) => sum + (b.totalCents ?? 0), 0);
+      .filter((b) => b.status === "CLOSED" && b.paymentStatus !== "PAID")
+      .reduce((sum, b) => sum + remittanceBalanceCents(b), 0);
   }, [batches]);
 
   const bySeller = useMemo(() => {
@@ -308,7 +309,13 @@ export function DealerReportingPage() {
     return Array.from(new Set(bySeller.map((x) => x.email))).sort();
   }, [bySeller]);
 
-  const audit = useMemo(() => listAuditEvents({ dealerId, limit: 500 }), [dealerId]);
+  const auditQuery = useQuery({
+    queryKey: ["audit-events", "dealer", dealerId],
+    enabled: isDealerAdmin && Boolean(dealerId),
+    queryFn: () => listAuditEvents({ dealerId, limit: 500 }),
+  });
+
+  const audit = auditQuery.data?.data ?? [];
 
   const exportContractsCsv = () => {
     const header = [
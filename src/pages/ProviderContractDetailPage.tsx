@@ -1,13 +1,23 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { Link, useNavigate, useParams } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 import { Button } from "../components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "../components/ui/tabs";
+import { ContractHistoryList } from "../components/contracts/ContractHistoryList";
 import { PageShell } from "../components/PageShell";
+import { TransferHistoryList } from "../components/transfers/TransferHistoryList";
+import { TransferOwnershipForm, type TransferOwnershipDraft } from "../components/transfers/TransferOwnershipForm";
+import { logAuditEvent } from "../lib/auditLog";
+import { getContractCancellationsApi } from "../lib/cancellations/cancellations";
+import { getContractHistoryApi } from "../lib/contractHistory/contractHistory";
 import { getContractsApi } from "../lib/contracts/contracts";
 import type { Contract } from "../lib/contracts/types";
 import { getProductsApi } from "../lib/products/products";
 import type { Product } from "../lib/products/types";
+import { getContractTransfersApi } from "../lib/transfers/transfers";
+import { alertMissing, confirmProceed } from "../lib/utils";
+import { useAuth } from "../providers/AuthProvider";
 
 function formatDateTime(iso?: string) {
   if (!iso) return "—";
@@ -36,9 +46,13 @@ export function ProviderContractDetailPage() {
   const { id } = useParams();
   const contractId = id ?? "";
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const qc = useQueryClient();
 
   const api = useMemo(() => getContractsApi(), []);
   const productsApi = useMemo(() => getProductsApi(), []);
+  const cancellationsApi = useMemo(() => getContractCancellationsApi(), []);
+  const transfersApi = useMemo(() => getContractTransfersApi(), []);
 
   const contractQuery = useQuery({
     queryKey: ["provider-contract", contractId],
@@ -55,6 +69,85 @@ export function ProviderContractDetailPage() {
 
   const products = (productsQuery.data ?? []) as Product[];
   const productById = new Map(products.map((p) => [p.id, p] as const));
+  const product = contract?.productId ? productById.get(contract.productId) ?? null : null;
+
+  const cancellationQuery = useQuery({
+    queryKey: ["contract-cancellation", contractId],
+    enabled: Boolean(contractId),
+    queryFn: () => cancellationsApi.getByContract(contractId),
+  });
+
+  const transfersQuery = useQuery({
+    queryKey: ["contract-transfers", contractId],
+    enabled: Boolean(contractId),
+    queryFn: () => transfersApi.listByContract(contractId),
+  });
+
+  const transfers = transfersQuery.data ?? [];
+
+  const [view, setView] = useState<"contract" | "history">("contract");
+  const historyQuery = useQuery({
+    queryKey: ["contract-history", contractId],
+    enabled: Boolean(contractId) && view === "history",
+    queryFn: () => getContractHistoryApi().listByContract(contractId),
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async (draft: TransferOwnershipDraft) => {
+      if (!contract) throw new Error("Contract not loaded");
+      return transfersApi.create({
+        contractId: contract.id,
+        transferDate: draft.transferDate,
+        odometerKm: draft.odometerKm,
+        saleType: draft.saleType,
+        previousOwner: {
+          name: contract.customerName,
+          email: contract.customerEmail,
+          phone: contract.customerPhone,
+          address: contract.customerAddress,
+          city: contract.customerCity,
+          province: contract.customerProvince,
+          postalCode: contract.customerPostalCode,
+        },
+        newOwner: draft.newOwner,
+        transferFeeCents: product?.transferFeeCents ?? 0,
+        notes: draft.notes,
+        createdByUserId: user?.id,
+        createdByEmail: user?.email,
+      });
+    },
+    onSuccess: async (created) => {
+      logAuditEvent({
+        kind: "CONTRACT_TRANSFERRED",
+        actorUserId: user?.id,
+        actorEmail: user?.email,
+        actorRole: user?.role,
+        providerId: (user?.id ?? "").trim() || undefined,
+        entityType: "contract",
+        entityId: created.contractId,
+        message: `Transferred contract ${contract?.contractNumber ?? ""} to ${created.newOwner.name}`.replace(/\s+/g, " ").trim(),
+        meta: {
+          saleType: created.saleType,
+          transferFeeCents: created.transferFeeCents,
+        },
+      });
+      await qc.invalidateQueries({ queryKey: ["contract-transfers", created.contractId] });
+      await qc.invalidateQueries({ queryKey: ["provider-contract", created.contractId] });
+      await qc.invalidateQueries({ queryKey: ["contract-history", created.contractId] });
+    },
+  });
+
+  const onTransferContract = async (draft: TransferOwnershipDraft) => {
+    if (!(await confirmProceed(`Approve the transfer of this contract to ${draft.newOwner.name}? The current owner is kept in the transfer history.`))) {
+      throw new Error("Transfer not confirmed");
+    }
+    try {
+      await transferMutation.mutateAsync(draft);
+    } catch (err) {
+      alertMissing(err instanceof Error ? err.message : "Failed to transfer contract.");
+      throw err;
+    }
+  };
 
   const vehicleLine = [contract?.vehicleYear, contract?.vehicleMake, contract?.vehicleModel, contract?.vehicleTrim]
     .filter(Boolean)
@@ -73,7 +166,7 @@ export function ProviderContractDetailPage() {
     <PageShell
       badge="Provider Portal"
       title={contract ? `Contract ${contract.contractNumber}` : "Contract"}
-      subtitle="Contracts are created by dealers. Providers have read-only access for support."
+      subtitle="Contracts are created by dealers. Providers have read-only access for support and approve ownership transfers."
       actions={
         <div className="flex gap-2 flex-wrap">
           <Button variant="outline" asChild>
@@ -101,6 +194,27 @@ export function ProviderContractDetailPage() {
         ) : null}
 
         {contract ? (
+          <Tabs value={view} onValueChange={(v) => setView(v === "history" ? "history" : "contract")} className="mt-6">
+            <TabsList>
+              <TabsTrigger value="contract">Contract</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        ) : null}
+
+        {contract && view === "history" ? (
+          <div className="mt-6 rounded-2xl border bg-card p-6 shadow-card">
+            <div className="font-semibold">History</div>
+            <div className="text-sm text-muted-foreground mt-1">
+              Every edit the dealer saved, with the values before and after. Pricing changes after sale carry the dealer&apos;s reason.
+            </div>
+            <div className="mt-4">
+              <ContractHistoryList changes={historyQuery.data ?? []} isLoading={historyQuery.isLoading} />
+            </div>
+          </div>
+        ) : null}
+
+        {contract && view === "contract" ? (
           <div className="mt-6 grid grid-cols-1 gap-6">
             <div className="rounded-2xl border bg-card p-6 shadow-card">
               <div className="flex items-start justify-between gap-4 flex-wrap">
@@ -108,7 +222,7 @@ export function ProviderContractDetailPage() {
                   <div className="text-sm text-muted-foreground">Read-only</div>
                   <div className="text-lg font-semibold mt-1">Created by Dealer: {dealerLabel(contract)}</div>
                   <div className="text-xs text-muted-foreground mt-1">
-                    Providers can view contracts for support but cannot edit, delete, or change pricing.
+                    Providers can view contracts for support and approve ownership transfers, but cannot edit, delete, or change pricing.
                   </div>
                 </div>
                 <div className="text-right">
@@ -179,6 +293,42 @@ export function ProviderContractDetailPage() {
                 </div>
               </div>
             </div>
+
+            {contract.status !== "DRAFT" ? (
+              <div className="rounded-2xl border bg-card p-6 shadow-card">
+                <div className="font-semibold">Ownership transfer</div>
+                <div className="text-sm text-muted-foreground mt-1">
+                  Approve a sale of the vehicle to a new owner. Previous owners stay in the history below.
+                </div>
+
+                {transfers.length > 0 ? (
+                  <div className="mt-4">
+                    <TransferHistoryList
+                      transfers={transfers}
+                      onPrintEndorsement={(t) => navigate(`/provider-contracts/${contractId}/print?endorsement=${t.id}`)}
+                    />
+                  </div>
+                ) : null}
+
+                <div className="mt-4">
+                  <TransferOwnershipForm
+                    rules={{
+                      policy: product?.transferPolicy,
+                      priorTransferCount: transfers.length,
+                      contractStatus: contract.status,
+                      cancelled: Boolean(cancellationQuery.data),
+                      startDate: contract.soldAt ?? contract.createdAt,
+                      termMonths: contract.pricingTermMonths,
+                      termKm: contract.pricingTermKm,
+                      startOdometerKm: contract.vehicleMileageKm,
+                    }}
+                    transferFeeCents={product?.transferFeeCents ?? 0}
+                    isSubmitting={transferMutation.isPending}
+                    onSubmit={onTransferContract}
+                  />
+                </div>
+              </div>
+            ) : null}
           </div>
         ) : null}
       </div>
@@ -1,5 +1,5 @@
 import { useEffect, useMemo } from "react";
-import { useParams } from "react-router-dom";
+import { useParams, useSearchParams } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 
 import { getContractsApi } from "../lib/contracts/contracts";
@@ -10,6 +10,12 @@ import type { ProviderPublic } from "../lib/providers/types";
 import { getProductsApi } from "../lib/products/products";
 import type { Product } from "../lib/products/types";
 import { generateCoverageWording } from "../lib/contracts/coverageWording";
+import { getContractTransfersApi } from "../lib/transfers/transfers";
+import { TransferEndorsement } from "../components/transfers/TransferEndorsement";
+import { getContractVerificationApi } from "../lib/verification/verification";
+import { ContractVerificationStamp } from "../components/verification/ContractVerificationStamp";
+import { ElectronicSignatureNote, SignatureMark } from "../components/signatures/ContractSignatureMarks";
+import { useContractSignatures } from "../hooks/useContractSignatures";
 
 const bridgeWarrantyLogoUrl = new URL("../../images/Bridge Warranty_White Background.png", import.meta.url).href;
 
@@ -159,10 +165,14 @@ function renderProviderTerms(input: {
 export function ProviderContractPrintPage() {
   const { id } = useParams();
   const contractId = id ?? "";
+  const [searchParams] = useSearchParams();
+  const endorsementId = (searchParams.get("endorsement") ?? "").trim();
 
   const api = useMemo(() => getContractsApi(), []);
   const providersApi = useMemo(() => getProvidersApi(), []);
   const productsApi = useMemo(() => getProductsApi(), []);
+  const transfersApi = useMemo(() => getContractTransfersApi(), []);
+  const verificationApi = useMemo(() => getContractVerificationApi(), []);
 
   const contractQuery = useQuery({
     queryKey: ["provider-contract", contractId],
@@ -191,13 +201,34 @@ export function ProviderContractPrintPage() {
 
   const provider = myProfileQuery.data as ProviderPublic | null | undefined;
 
+  const transfersQuery = useQuery({
+    queryKey: ["contract-transfers", contractId],
+    enabled: !!contractId,
+    queryFn: () => transfersApi.listByContract(contractId),
+  });
+
+  const transfers = transfersQuery.data ?? [];
+  const transfersLoaded = !transfersQuery.isLoading;
+
+  const verificationQuery = useQuery({
+    queryKey: ["contract-verification-token", contractId],
+    enabled: !!contractId && !!contract && contract.status !== "DRAFT",
+    queryFn: () => verificationApi.issueToken(contractId),
+    retry: false,
+  });
+
+  const verificationLoaded = !verificationQuery.isLoading;
+
+  const signatures = useContractSignatures(contract);
+  const signaturesLoaded = signatures.isLoaded;
+
   useEffect(() => {
-    if (!contract) return;
+    if (!contract || !transfersLoaded || !verificationLoaded || !signaturesLoaded) return;
     const t = window.setTimeout(() => {
       window.print();
     }, 250);
     return () => window.clearTimeout(t);
-  }, [contract]);
+  }, [contract, transfersLoaded, verificationLoaded, signaturesLoaded]);
 
   if (contractQuery.isLoading) {
     return <div className="container mx-auto px-4 py-10 text-sm text-muted-foreground">Loading…</div>;
@@ -239,6 +270,19 @@ export function ProviderContractPrintPage() {
   const exclusionsText = coverageWording.excludedComponents
     ? `The following components are NOT covered under this warranty: ${coverageWording.excludedComponents}.`
     : "Exclusions are set by the Provider and may include normal wear and tear, routine maintenance, cosmetic items, and damage caused by misuse or neglect.";
+  const providerName = (provider?.companyName ?? provider?.displayName ?? "").trim() || "Provider";
+  const endorsement = endorsementId ? transfers.find((t) => t.id === endorsementId) ?? null : null;
+
+  if (endorsement) {
+    return (
+      <div className="print-contract-root min-h-screen bg-white text-slate-900">
+        <div className="max-w-4xl mx-auto p-8">
+          <TransferEndorsement contract={contract} transfer={endorsement} productName={productName} providerName={providerName} />
+        </div>
+      </div>
+    );
+  }
+
   const providerTerms = renderProviderTerms({
     providerTermsText: provider?.termsText,
     productName,
@@ -272,6 +316,7 @@ export function ProviderContractPrintPage() {
                 <div className="text-[11px] uppercase tracking-wide text-slate-500">Warranty ID</div>
                 <div className="text-sm font-semibold">{contract.warrantyId}</div>
                 <div className="text-[11px] text-slate-500 mt-1">Contract #{contract.contractNumber}</div>
+                <ContractVerificationStamp token={verificationQuery.data} className="mt-3 flex flex-col items-end" />
               </div>
             </div>
           </div>
@@ -361,7 +406,7 @@ export function ProviderContractPrintPage() {
                 <div className="mt-3">
                   <ProviderTermsSections
                     platformName={BRAND.name}
-                    providerName={(provider?.companyName ?? provider?.displayName ?? "").trim() || "Provider"}
+                    providerName={providerName}
                     productName={productName}
                     termMonthsLabel={termMonthsLabel}
                     termKmLabel={termKmLabel}
@@ -379,6 +424,31 @@ export function ProviderContractPrintPage() {
                 <div className="mt-3 text-sm whitespace-pre-wrap leading-relaxed">{providerTerms}</div>
               )}
             </div>
+
+            {transfers.map((t) => (
+              <div key={t.id} className="mt-6">
+                <TransferEndorsement contract={contract} transfer={t} productName={productName} providerName={providerName} />
+              </div>
+            ))}
+
+            {signatures.state !== "UNSIGNED" ? (
+              <div className="mt-6 rounded-lg border p-4">
+                <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">Signatures</div>
+                {signatures.state !== "OUTDATED" ? (
+                  <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+                    <div>
+                      <div className="text-[11px] text-slate-500">Customer</div>
+                      <SignatureMark signature={signatures.latest.CUSTOMER} className="mt-1" />
+                    </div>
+                    <div>
+                      <div className="text-[11px] text-slate-500">Dealer Representative</div>
+                      <SignatureMark signature={signatures.latest.DEALER} className="mt-1" />
+                    </div>
+                  </div>
+                ) : null}
+                <ElectronicSignatureNote state={signatures.state} contentHash={signatures.contentHash} className="mt-3 text-[11px] text-slate-500" />
+              </div>
+            ) : null}
           </div>
 
           <div className="px-6 py-4 border-t text-[11px] text-slate-500">
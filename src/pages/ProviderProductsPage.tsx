@@ -8,13 +8,41 @@ import { PageShell } from "../components/PageShell";
 import { getDocumentsApi } from "../lib/documents/documents";
 import type { ProductDocument } from "../lib/documents/types";
 import { getProductsApi } from "../lib/products/products";
+import { parseVehicleClassMap, resolveVehicleClass, vehicleClassLabel } from "../lib/products/vehicleClass";
+import { describeEligibilityRules, eligibilityRulesFromProduct } from "../lib/products/eligibility";
+import { EV_COVERAGE_COMPONENTS, isEvCoverageItem, withEvCoverageItems } from "../lib/products/evCoverage";
 import { getProductPricingApi } from "../lib/productPricing/productPricing";
 import { getProductAddonsApi } from "../lib/productAddons/productAddons";
 import { sanitizeDigitsOnly, sanitizeMoney, sanitizeWordsOnly } from "../lib/utils";
-import type { CreateProductInput, Product, ProductType, PricingStructure } from "../lib/products/types";
-import type { ClaimLimitType, ProductPricing } from "../lib/productPricing/types";
+import type {
+  CancellationRefundMethod,
+  CreateProductInput,
+  Product,
+  ProductType,
+  PricingStructure,
+  TransferPolicy,
+  VehicleClassRule,
+} from "../lib/products/types";
+import { CANCELLATION_REFUND_METHOD_LABELS } from "../lib/cancellations/refund";
+import { DEFAULT_TRANSFER_POLICY, TRANSFER_POLICY_LABELS } from "../lib/transfers/policy";
+import type { ClaimLimitType, ProductPricing, ProductPricingVersion } from "../lib/productPricing/types";
+import { pricingDateKey, pricingVersionInEffect, pricingVersionStatusLabel } from "../lib/productPricing/versions";
 import type { ProductAddon } from "../lib/productAddons/types";
 import { defaultPricingRow } from "../lib/productPricing/defaultRow";
+import { validatePricingHealth } from "../lib/productPricing/health";
+import {
+  diffAddonRows,
+  diffRateCard,
+  normalizeAddonPricingType,
+  normalizeClaimLimitTypeLabel,
+  normalizeVehicleClassLabel,
+  parseRateCardSheet,
+  rateCardImportHasErrors,
+  type ImportedPricingRow,
+  type RateCardImport,
+  type RateCardImportKind,
+} from "../lib/productPricing/rateCardImport";
+import { readSpreadsheetFile } from "../lib/spreadsheet";
 
 const FINANCE_TERMS = [24, 36, 48, 60, 72, 84, 96] as const;
 type FinanceTermMonths = (typeof FINANCE_TERMS)[number];
@@ -115,12 +143,7 @@ function statusBadge(published: boolean) {
 }
 
 function eligibilitySummary(p: Product) {
-  const parts: string[] = [];
-  if (typeof p.eligibilityMaxVehicleAgeYears === "number") parts.push(`≤${p.eligibilityMaxVehicleAgeYears}y`);
-  if (typeof p.eligibilityMaxMileageKm === "number") parts.push(`≤${p.eligibilityMaxMileageKm}km`);
-  if (p.eligibilityMakeAllowlist && p.eligibilityMakeAllowlist.length > 0) parts.push(`${p.eligibilityMakeAllowlist.length} makes`);
-  if (p.eligibilityModelAllowlist && p.eligibilityModelAllowlist.length > 0) parts.push(`${p.eligibilityModelAllowlist.length} models`);
-  if (p.eligibilityTrimAllowlist && p.eligibilityTrimAllowlist.length > 0) parts.push(`${p.eligibilityTrimAllowlist.length} trims`);
+  const parts = describeEligibilityRules(eligibilityRulesFromProduct(p));
   return parts.length > 0 ? parts.join(" • ") : "All";
 }
 
@@ -132,86 +155,6 @@ function isWarrantyCoverageDoc(d: Pick<ProductDocument, "title">) {
   return t === "warranty coverage" || t === "warranty coverage image" || t === "brochure";
 }
 
-function pricingUniqKey(r: {
-  termMonths: number | null;
-  termKm: number | null;
-  vehicleMileageMinKm?: number;
-  vehicleMileageMaxKm?: number | null;
-  vehicleClass?: string;
-  deductibleCents: number;
-  claimLimitCents?: number;
-  loanAmountMinCents?: number;
-  loanAmountMaxCents?: number;
-  financeTermMonths?: number;
-}) {
-  const termMonths = r.termMonths;
-  const termKm = r.termKm;
-  const mileageMin = typeof r.vehicleMileageMinKm === "number" ? r.vehicleMileageMinKm : null;
-  const mileageMax = r.vehicleMileageMaxKm === null ? null : typeof r.vehicleMileageMaxKm === "number" ? r.vehicleMileageMaxKm : null;
-  const vehicleClass = typeof r.vehicleClass === "string" && r.vehicleClass.trim() ? r.vehicleClass.trim() : null;
-  const claimLimit = typeof r.claimLimitCents === "number" ? r.claimLimitCents : null;
-  const loanAmountMin = typeof r.loanAmountMinCents === "number" ? r.loanAmountMinCents : null;
-  const loanAmountMax = typeof r.loanAmountMaxCents === "number" ? r.loanAmountMaxCents : null;
-  const financeTermMonths = typeof r.financeTermMonths === "number" ? r.financeTermMonths : null;
-  return JSON.stringify([
-    termMonths,
-    termKm,
-    mileageMin,
-    mileageMax,
-    vehicleClass,
-    r.deductibleCents,
-    claimLimit,
-    loanAmountMin,
-    loanAmountMax,
-    financeTermMonths,
-  ]);
-}
-
-function validatePricingHealth(rows: ProductPricing[]) {
-  if (!Array.isArray(rows) || rows.length === 0) {
-    return { ok: false, reason: "Published products require at least one valid pricing row.", primary: null as ProductPricing | null };
-  }
-
-  const defaults = rows.filter((r) => r.isDefault);
-  if (defaults.length !== 1) {
-    return { ok: false, reason: "Exactly one default pricing row is required.", primary: defaultPricingRow(rows) };
-  }
-
-  const seen = new Set<string>();
-  for (const r of rows) {
-    const key = pricingUniqKey(r);
-    if (seen.has(key)) {
-      return { ok: false, reason: "Duplicate pricing variants detected.", primary: defaultPricingRow(rows) };
-    }
-    seen.add(key);
-
-    if (r.termMonths !== null && (!Number.isFinite(r.termMonths) || r.termMonths <= 0)) {
-      return { ok: false, reason: "Invalid unlimited usage.", primary: defaultPricingRow(rows) };
-    }
-    if (r.termKm !== null && (!Number.isFinite(r.termKm) || r.termKm <= 0)) {
-      return { ok: false, reason: "Invalid unlimited usage.", primary: defaultPricingRow(rows) };
-    }
-
-    if (!Number.isFinite(r.basePriceCents) || r.basePriceCents <= 0) {
-      return { ok: false, reason: "Missing required fields.", primary: defaultPricingRow(rows) };
-    }
-    if (!Number.isFinite(r.deductibleCents) || r.deductibleCents < 0) {
-      return { ok: false, reason: "Missing required fields.", primary: defaultPricingRow(rows) };
-    }
-    if (typeof r.vehicleMileageMinKm === "number" && r.vehicleMileageMinKm < 0) {
-      return { ok: false, reason: "Invalid mileage bands.", primary: defaultPricingRow(rows) };
-    }
-    if (typeof r.vehicleMileageMaxKm === "number" && r.vehicleMileageMaxKm < 0) {
-      return { ok: false, reason: "Invalid mileage bands.", primary: defaultPricingRow(rows) };
-    }
-    if (typeof r.vehicleMileageMinKm === "number" && typeof r.vehicleMileageMaxKm === "number" && r.vehicleMileageMaxKm < r.vehicleMileageMinKm) {
-      return { ok: false, reason: "Invalid mileage bands.", primary: defaultPricingRow(rows) };
-    }
-  }
-
-  return { ok: true, reason: null as string | null, primary: defaults[0] ?? defaultPricingRow(rows) };
-}
-
 type EditorState = {
   id?: string;
   name: string;
@@ -221,6 +164,7 @@ type EditorState = {
   pricingVariesByMileageBand: boolean;
   pricingVariesByVehicleClass: boolean;
   classVehicleTypes: Array<{ key: string; classCode: string; vehicleTypes: string }>;
+  vehicleClassMap: Array<{ key: string; classCode: string; make: string; model: string }>;
   financeBands: FinanceBand[];
   financeDefaultBandId: string;
   financeDefaultTermMonths: FinanceTermMonths;
@@ -250,9 +194,17 @@ type EditorState = {
   eligibilityMakeAllowlist: string;
   eligibilityModelAllowlist: string;
   eligibilityTrimAllowlist: string;
+  eligibilityMakeDenylist: string;
+  eligibilityModelDenylist: string;
+  eligibilityTrimDenylist: string;
+  eligibilityMaxMonthsInService: string;
   keyBenefits: string;
   coverageMaxLtvPercent: string;
-  coverageItems: Array<{ id: string; name: string; status: "included" | "not_included" | "term_specific" }>;
+  cancellationRefundMethod: CancellationRefundMethod;
+  cancellationFee: string;
+  transferPolicy: TransferPolicy;
+  transferFee: string;
+  coverageItems: Array<{ id: string; name: string; status: "included" | "not_included" | "term_specific"; ev?: boolean }>;
   internalNotes: string;
   shortDescription: string;
   isMostPopular: boolean;
@@ -310,6 +262,7 @@ function emptyEditor(): EditorState {
         vehicleTypes: "",
       },
     ],
+    vehicleClassMap: [],
     financeBands: [
       {
         id: crypto.randomUUID(),
@@ -348,8 +301,16 @@ function emptyEditor(): EditorState {
     eligibilityMakeAllowlist: "",
     eligibilityModelAllowlist: "",
     eligibilityTrimAllowlist: "",
+    eligibilityMakeDenylist: "",
+    eligibilityModelDenylist: "",
+    eligibilityTrimDenylist: "",
+    eligibilityMaxMonthsInService: "",
     keyBenefits: "",
     coverageMaxLtvPercent: "",
+    cancellationRefundMethod: "PRO_RATA_TIME",
+    cancellationFee: "",
+    transferPolicy: DEFAULT_TRANSFER_POLICY,
+    transferFee: "",
     coverageItems: [],
     internalNotes: "",
     shortDescription: "",
@@ -425,6 +386,12 @@ function editorFromProduct(p: Product): EditorState {
     pricingVariesByMileageBand: false,
     pricingVariesByVehicleClass: false,
     classVehicleTypes: toClassVehicleTypes(),
+    vehicleClassMap: parseVehicleClassMap(p.vehicleClassMap).map((r) => ({
+      key: crypto.randomUUID(),
+      classCode: r.classCode,
+      make: r.make,
+      model: r.model ?? "",
+    })),
     financeBands: [
       {
         id: crypto.randomUUID(),
@@ -451,6 +418,11 @@ function editorFromProduct(p: Product): EditorState {
     eligibilityMakeAllowlist: allowlistToString(p.eligibilityMakeAllowlist),
     eligibilityModelAllowlist: allowlistToString(p.eligibilityModelAllowlist),
     eligibilityTrimAllowlist: allowlistToString(p.eligibilityTrimAllowlist),
+    eligibilityMakeDenylist: allowlistToString(p.eligibilityMakeDenylist),
+    eligibilityModelDenylist: allowlistToString(p.eligibilityModelDenylist),
+    eligibilityTrimDenylist: allowlistToString(p.eligibilityTrimDenylist),
+    eligibilityMaxMonthsInService:
+      typeof p.eligibilityMaxMonthsInService === "number" ? String(p.eligibilityMaxMonthsInService) : "",
     keyBenefits: (p.keyBenefits ?? "").trim(),
     coverageMaxLtvPercent:
       p.coverageMaxLtvPercent === null
@@ -458,10 +430,15 @@ function editorFromProduct(p: Product): EditorState {
         : typeof p.coverageMaxLtvPercent === "number"
           ? String(p.coverageMaxLtvPercent)
           : "",
+    cancellationRefundMethod: p.cancellationRefundMethod ?? "PRO_RATA_TIME",
+    cancellationFee: centsToDollars(p.cancellationFeeCents),
+    transferPolicy: p.transferPolicy ?? DEFAULT_TRANSFER_POLICY,
+    transferFee: centsToDollars(p.transferFeeCents),
     coverageItems: (p.coverageDetails?.items || []).map((item) => ({
       id: item.id || crypto.randomUUID(),
       name: item.name,
       status: item.status,
+      ...(isEvCoverageItem(item) ? { ev: true } : {}),
     })),
     internalNotes: p.internalNotes ?? "",
     shortDescription: p.shortDescription ?? "",
@@ -472,6 +449,10 @@ function editorFromProduct(p: Product): EditorState {
   };
 }
 
+function vehicleClassMapFromEditor(editor: EditorState): VehicleClassRule[] {
+  return parseVehicleClassMap(editor.vehicleClassMap);
+}
+
 function textareaClassName() {
   return "flex min-h-[90px] w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50";
 }
@@ -493,27 +474,6 @@ function asClaimLimitType(v: string | undefined): ClaimLimitType | undefined {
   return undefined;
 }
 
-function normalizeClaimLimitTypeLabel(v: string | undefined): ClaimLimitType | undefined {
-  const t = (v ?? "").trim().toUpperCase();
-  if (!t) return undefined;
-  if (t === "PER_CLAIM" || t === "PER CLAIM") return "PER_CLAIM";
-  if (t === "TOTAL_COVERAGE" || t === "TOTAL COVERAGE") return "TOTAL_COVERAGE";
-  if (t === "FMV" || t === "FAIR MARKET VALUE") return "FMV";
-  if (t === "MAX_RETAIL" || t === "MAX RETAIL") return "MAX_RETAIL";
-  return undefined;
-}
-
-function normalizeVehicleClassLabel(v: string | undefined): string {
-  const t = (v ?? "").trim().toUpperCase();
-  if (!t || t === "ALL" || t === "ALL CLASSES") return "ALL";
-  if (t === "CLASS_1" || t === "CLASS 1" || t === "1") return "CLASS_1";
-  if (t === "CLASS_2" || t === "CLASS 2" || t === "2") return "CLASS_2";
-  if (t === "CLASS_3" || t === "CLASS 3" || t === "3") return "CLASS_3";
-  if (t === "CLASS_4" || t === "CLASS 4" || t === "4") return "CLASS_4";
-  if (t === "CLASS_5" || t === "CLASS 5" || t === "5") return "CLASS_5";
-  return "ALL";
-}
-
 function splitTableRow(line: string): string[] {
   if (line.includes("\t")) return line.split("\t").map((x) => x.trim());
   return line.split(",").map((x) => x.trim());
@@ -579,15 +539,6 @@ function parseFinanceMatrixPaste(rawText: string): FinanceBand[] {
   return out;
 }
 
-function normalizeAddonPricingType(v: string | undefined): PendingAddon["pricingType"] {
-  const t = (v ?? "").trim().toUpperCase();
-  if (!t) return "FIXED";
-  if (t === "FIXED" || t === "1X" || t === "ONE_TIME" || t === "ONE TIME") return "FIXED";
-  if (t === "PER_TERM" || t === "PER TERM") return "PER_TERM";
-  if (t === "PER_CLAIM" || t === "PER CLAIM") return "PER_CLAIM";
-  return "FIXED";
-}
-
 function parseAddonsPaste(rawText: string): Array<{
   name: string;
   description: string;
@@ -682,6 +633,58 @@ function parseAddonsPaste(rawText: string): Array<{
   return out;
 }
 
+function moneyInputFromCents(cents: number | undefined) {
+  return typeof cents === "number" ? (cents / 100).toFixed(2).replace(/\.00$/, "") : "";
+}
+
+function editorRowFromImport(r: ImportedPricingRow): EditorState["pricingRows"][number] {
+  return {
+    key: crypto.randomUUID(),
+    isDefault: r.isDefault,
+    termMonths: r.termMonths === null ? "" : String(r.termMonths),
+    termMonthsUnlimited: r.termMonths === null,
+    termKm: r.termKm === null ? "" : String(r.termKm),
+    termKmUnlimited: r.termKm === null,
+    vehicleMileageMinKm: typeof r.vehicleMileageMinKm === "number" ? String(r.vehicleMileageMinKm) : "",
+    vehicleMileageMaxKm: typeof r.vehicleMileageMaxKm === "number" ? String(r.vehicleMileageMaxKm) : "",
+    vehicleMileageMaxUnlimited: r.vehicleMileageMaxKm === null,
+    vehicleClass: r.vehicleClass ?? "ALL",
+    loanAmountMin: "",
+    loanAmountMax: "",
+    financeTermMonths: "",
+    claimLimitType: r.claimLimitType ?? "",
+    claimLimitAmount: moneyInputFromCents(r.claimLimitAmountCents),
+    deductible: moneyInputFromCents(r.deductibleCents),
+    providerCost: moneyInputFromCents(r.basePriceCents),
+    suggestedRetailPrice: moneyInputFromCents(r.suggestedRetailPriceCents),
+  };
+}
+
+function financeBandsFromImport(rows: ImportedPricingRow[]): FinanceBand[] {
+  const byBand = new Map<string, FinanceBand>();
+  for (const r of rows) {
+    const term = r.financeTermMonths;
+    if (typeof term !== "number" || !isAllowedFinanceTermMonths(term)) continue;
+    const k = `${r.loanAmountMinCents}|${r.loanAmountMaxCents}`;
+    const band = byBand.get(k) ?? {
+      id: crypto.randomUUID(),
+      loanAmountMin: moneyInputFromCents(r.loanAmountMinCents),
+      loanAmountMax: moneyInputFromCents(r.loanAmountMaxCents),
+      pricesByTermMonths: {},
+    };
+    band.pricesByTermMonths[term as FinanceTermMonths] = moneyInputFromCents(r.providerNetCostCents ?? r.basePriceCents);
+    byBand.set(k, band);
+  }
+  return Array.from(byBand.values());
+}
+
+function diffStatusClassName(status: string) {
+  if (status === "ADDED") return "text-emerald-700";
+  if (status === "CHANGED") return "text-amber-700";
+  if (status === "REMOVED") return "text-destructive";
+  return "text-muted-foreground";
+}
+
 export function ProviderProductsPage() {
   const api = useMemo(() => getProductsApi(), []);
   const pricingApi = useMemo(() => getProductPricingApi(), []);
@@ -707,6 +710,9 @@ export function ProviderProductsPage() {
   const [pasteAddonsOpen, setPasteAddonsOpen] = useState(false);
   const [pasteAddonsText, setPasteAddonsText] = useState("");
 
+  const [rateSheetImport, setRateSheetImport] = useState<(RateCardImport & { fileName: string }) | null>(null);
+  const [classPreview, setClassPreview] = useState({ make: "", model: "" });
+
   const [pendingAddons, setPendingAddons] = useState<PendingAddon[]>([]);
   const [activeAddonTermTab, setActiveAddonTermTab] = useState<string>("ALL");
 
@@ -715,6 +721,12 @@ export function ProviderProductsPage() {
 
   const editorProductId = (editor.id ?? "").trim();
 
+  // Rate card the Pricing tab edits; null is the unversioned card from before pricing versions.
+  const [pricingVersionId, setPricingVersionId] = useState<string | null>(null);
+  const [newVersionLabel, setNewVersionLabel] = useState("");
+  const [newVersionFrom, setNewVersionFrom] = useState(() => pricingDateKey());
+  const [versionError, setVersionError] = useState<string | null>(null);
+
   const uploadBrochureMutation = useMutation({
     mutationFn: async (file: File) => {
       const productId = editorProductId;
@@ -739,10 +751,29 @@ export function ProviderProductsPage() {
     },
   });
 
-  const pricingRowsQuery = useQuery({
-    queryKey: ["provider-product-pricing", editorProductId],
+  const pricingVersionsQuery = useQuery({
+    queryKey: ["provider-product-pricing-versions", editorProductId],
     enabled: showEditor && !!editorProductId,
-    queryFn: () => pricingApi.list({ productId: editorProductId }),
+    queryFn: () => pricingApi.listVersions(editorProductId),
+  });
+
+  const pricingVersions = useMemo(() => (pricingVersionsQuery.data ?? []) as ProductPricingVersion[], [pricingVersionsQuery.data]);
+  const editingPricingVersion = pricingVersions.find((v) => v.id === pricingVersionId) ?? null;
+  const pricingLocked = editingPricingVersion?.status === "PUBLISHED";
+
+  useEffect(() => {
+    if (!showEditor || !editorProductId || !pricingVersionsQuery.isSuccess) return;
+    setPricingVersionId((current) => {
+      if (current && pricingVersions.some((v) => v.id === current)) return current;
+      const draft = pricingVersions.find((v) => v.status === "DRAFT");
+      return draft?.id ?? pricingVersionInEffect(pricingVersions)?.id ?? null;
+    });
+  }, [editorProductId, pricingVersions, pricingVersionsQuery.isSuccess, showEditor]);
+
+  const pricingRowsQuery = useQuery({
+    queryKey: ["provider-product-pricing", editorProductId, pricingVersionId],
+    enabled: showEditor && !!editorProductId && pricingVersionsQuery.isSuccess,
+    queryFn: () => pricingApi.list({ productId: editorProductId, versionId: pricingVersionId }),
   });
 
   const pricingRowsFromApi = useMemo(() => (pricingRowsQuery.data ?? []) as ProductPricing[], [pricingRowsQuery.data]);
@@ -1006,6 +1037,245 @@ export function ProviderProductsPage() {
       setActiveAddonTermTab("ALL");
     }
   }, [activeAddonTermTab, showEditor, uniqueAddonScopeOptions]);
+
+  // Places parsed add-on rows on a pricing scope: explicit term/km when it matches one, else the active term tab.
+  const pendingAddonsFromParsed = (parsed: ReturnType<typeof parseAddonsPaste>): PendingAddon[] => {
+    const defaultScope = activeAddonTermTab === "INVALID" ? "ALL" : activeAddonTermTab;
+    const validScopes = new Set(uniqueAddonScopeOptions.map((s) => s.scopeKey));
+
+    return parsed.map((p): PendingAddon => {
+      const rawTerm = (p.termMonths ?? "").trim();
+      const rawKm = (p.termKm ?? "").trim();
+      const upperTerm = rawTerm.toUpperCase();
+
+      const isAll = !rawTerm
+        ? defaultScope === "ALL"
+        : upperTerm === "ALL" || upperTerm === "ALLTERMS" || upperTerm === "ALL_TERMS";
+
+      if (isAll) {
+        return {
+          key: crypto.randomUUID(),
+          name: p.name,
+          description: p.description,
+          pricingType: p.pricingType,
+          price: p.price,
+          appliesToAllPricingRows: true,
+          applicableTermMonths: [],
+        };
+      }
+
+      const normMonths = /^UNLIMITED$/i.test(rawTerm)
+        ? "UNL"
+        : (() => {
+            const n = rawTerm ? Number(rawTerm) : NaN;
+            return Number.isFinite(n) && n > 0 ? String(Math.round(n)) : null;
+          })();
+
+      const normKm = /^UNLIMITED$/i.test(rawKm)
+        ? "UNL"
+        : (() => {
+            const n = rawKm ? Number(rawKm) : NaN;
+            return Number.isFinite(n) && n > 0 ? String(Math.round(n)) : null;
+          })();
+
+      if (normMonths && normKm) {
+        const scopeKey = `${normMonths}|${normKm}`;
+        if (validScopes.has(scopeKey)) {
+          return {
+            key: crypto.randomUUID(),
+            name: p.name,
+            description: p.description,
+            pricingType: p.pricingType,
+            price: p.price,
+            appliesToAllPricingRows: false,
+            applicableTermMonths: [],
+            applicablePricingScopeKeys: [scopeKey],
+          };
+        }
+      }
+
+      if (validScopes.has(defaultScope)) {
+        return {
+          key: crypto.randomUUID(),
+          name: p.name,
+          description: p.description,
+          pricingType: p.pricingType,
+          price: p.price,
+          appliesToAllPricingRows: false,
+          applicableTermMonths: [],
+          applicablePricingScopeKeys: [defaultScope],
+        };
+      }
+
+      const fallbackMonthsNum = Number(rawTerm);
+      const fallbackMonths = Number.isFinite(fallbackMonthsNum) && fallbackMonthsNum > 0 ? String(Math.round(fallbackMonthsNum)) : null;
+
+      return {
+        key: crypto.randomUUID(),
+        name: p.name,
+        description: p.description,
+        pricingType: p.pricingType,
+        price: p.price,
+        appliesToAllPricingRows: !fallbackMonths,
+        applicableTermMonths: fallbackMonths ? [fallbackMonths] : [],
+      };
+    });
+  };
+
+  useEffect(() => {
+    setRateSheetImport(null);
+  }, [editorProductId, showEditor]);
+
+  const savedAddonScopeKey = (a: ProductAddon) => {
+    if (a.appliesToAllPricingRows !== false) return "ALL";
+    const ids = Array.isArray(a.applicablePricingRowIds) ? a.applicablePricingRowIds : [];
+    for (const id of ids) {
+      const k = pricingRowScopeKeyById.get(id);
+      if (k) return k;
+    }
+    return "ALL";
+  };
+
+  const rateSheetDiff = (() => {
+    if (!rateSheetImport) return [];
+    if (rateSheetImport.kind === "ADDONS") {
+      const current = addons.map((a) => ({
+        name: a.name,
+        scopeKey: savedAddonScopeKey(a),
+        pricingType: a.pricingType ?? "FIXED",
+        priceCents: typeof a.dealerCostCents === "number" ? a.dealerCostCents : a.basePriceCents,
+      }));
+      return diffAddonRows(current, rateSheetImport.addons);
+    }
+    const finance = rateSheetImport.kind === "FINANCE";
+    const current = pricingRowsFromApi.filter((r) => (typeof r.financeTermMonths === "number") === finance);
+    return diffRateCard(current, rateSheetImport.rows);
+  })();
+
+  const importRateSheet = (file: File, kind: RateCardImportKind) => {
+    setError(null);
+    void readSpreadsheetFile(file)
+      .then((sheet) => setRateSheetImport({ ...parseRateCardSheet(sheet, kind), fileName: file.name }))
+      .catch((e) => {
+        setRateSheetImport(null);
+        setError(formatUnknownError(e));
+      });
+  };
+
+  // Loads a clean import into the editor; nothing is persisted until the product is saved.
+  const applyRateSheetImport = () => {
+    const result = rateSheetImport;
+    if (!result || rateCardImportHasErrors(result)) return;
+
+    if (result.kind === "ADDONS") {
+      const parsed = result.addons.map((a) => ({
+        name: a.name,
+        description: a.description,
+        pricingType: a.pricingType,
+        price: formatMoneyInput(moneyInputFromCents(a.priceCents)),
+        termMonths: a.termMonths.replace(/,/g, "").replace(/^UNL$/i, "Unlimited") || undefined,
+        termKm: a.termKm.replace(/,/g, "").replace(/^UNL$/i, "Unlimited") || undefined,
+      }));
+      setPendingAddons(pendingAddonsFromParsed(parsed));
+    } else if (result.kind === "FINANCE") {
+      const bands = financeBandsFromImport(result.rows);
+      setEditor((s) => ({
+        ...s,
+        pricingStructure: "FINANCE_MATRIX",
+        pricingVariesByMileageBand: false,
+        pricingVariesByVehicleClass: false,
+        financeBands: bands,
+        financeDefaultBandId: bands[0]?.id ?? "",
+        financeDefaultTermMonths: 24,
+      }));
+    } else {
+      const rows = result.rows.map(editorRowFromImport);
+      setEditor((s) => ({
+        ...s,
+        pricingRows: rows,
+        pricingVariesByMileageBand: rows.some((r) => r.vehicleMileageMinKm.trim() || r.vehicleMileageMaxUnlimited || r.vehicleMileageMaxKm.trim()),
+        pricingVariesByVehicleClass: rows.some((r) => r.vehicleClass !== "ALL"),
+      }));
+    }
+    setRateSheetImport(null);
+  };
+
+  const renderRateSheetImport = () => {
+    if (!rateSheetImport) return null;
+    const errors = rateSheetImport.issues.filter((i) => i.severity === "error").length;
+    const warnings = rateSheetImport.issues.length - errors;
+    const count = (status: string) => rateSheetDiff.filter((d) => d.status === status).length;
+    const imported = rateSheetImport.kind === "ADDONS" ? rateSheetImport.addons.length : rateSheetImport.rows.length;
+
+    return (
+      <div className="mt-3 rounded-lg border p-3 space-y-3">
+        <div className="flex items-start justify-between gap-3 flex-wrap">
+          <div>
+            <div className="text-sm font-medium">{rateSheetImport.fileName}</div>
+            <div className="text-xs text-muted-foreground">
+              {imported} row{imported === 1 ? "" : "s"} read • {errors} error{errors === 1 ? "" : "s"} • {warnings} warning
+              {warnings === 1 ? "" : "s"}
+              {rateSheetImport.health?.ok ? " • Passes pricing checks" : ""}
+            </div>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {count("ADDED")} added • {count("CHANGED")} changed • {count("REMOVED")} removed • {count("UNCHANGED")} unchanged
+          </div>
+        </div>
+
+        {rateSheetImport.issues.length > 0 ? (
+          <div className="max-h-48 overflow-auto rounded-md border divide-y text-xs">
+            {rateSheetImport.issues.map((i, idx) => (
+              <div key={idx} className="px-3 py-1.5 flex gap-3">
+                <span className="w-14 shrink-0 text-muted-foreground">{i.row > 0 ? `Row ${i.row}` : "Sheet"}</span>
+                <span className={i.severity === "error" ? "text-destructive" : "text-amber-700"}>{i.message}</span>
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        {rateSheetDiff.length > 0 ? (
+          <div className="max-h-72 overflow-auto rounded-md border">
+            <table className="w-full text-xs">
+              <thead className="bg-muted/40 text-left">
+                <tr>
+                  <th className="px-3 py-1.5 font-medium">Change</th>
+                  <th className="px-3 py-1.5 font-medium">Row</th>
+                  <th className="px-3 py-1.5 font-medium">Variant</th>
+                  <th className="px-3 py-1.5 font-medium">Current</th>
+                  <th className="px-3 py-1.5 font-medium">Imported</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {rateSheetDiff.map((d) => (
+                  <tr key={`${d.status}-${d.key}-${d.row ?? ""}`}>
+                    <td className={"px-3 py-1.5 " + diffStatusClassName(d.status)}>{d.status.toLowerCase()}</td>
+                    <td className="px-3 py-1.5 text-muted-foreground">{d.row ?? "—"}</td>
+                    <td className="px-3 py-1.5">{d.label}</td>
+                    <td className="px-3 py-1.5">{d.before ?? "—"}</td>
+                    <td className="px-3 py-1.5">{d.after ?? "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+
+        <div className="text-xs text-muted-foreground">
+          Applying replaces the rows in the editor. Nothing is saved until you save the product.
+        </div>
+        <div className="flex gap-2 flex-wrap">
+          <Button type="button" disabled={busy || errors > 0} onClick={applyRateSheetImport}>
+            Apply to Editor
+          </Button>
+          <Button type="button" variant="outline" disabled={busy} onClick={() => setRateSheetImport(null)}>
+            Discard
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
   useEffect(() => {
     if (!showEditor) return;
     if (!editorProductId) return;
@@ -1180,7 +1450,15 @@ export function ProviderProductsPage() {
       const productId = (id ?? "").trim();
       if (!productId) return;
 
-      const existing = await pricingApi.list({ productId });
+      const versions = await pricingApi.listVersions(productId);
+      if (versions.some((v) => v.status === "PUBLISHED")) {
+        throw new Error("This product has published rate cards that contracts may reference. Unpublish it instead of deleting.");
+      }
+      for (const v of versions) {
+        await pricingApi.removeVersion(v.id);
+      }
+
+      const existing = await pricingApi.list({ productId, versionId: null });
       for (const r of existing) {
         await pricingApi.remove(r.id);
       }
@@ -1192,6 +1470,43 @@ export function ProviderProductsPage() {
     },
   });
 
+  const createVersionMutation = useMutation({
+    mutationFn: () =>
+      pricingApi.createVersion({
+        productId: editorProductId,
+        label: newVersionLabel,
+        effectiveFrom: newVersionFrom,
+        copyFromVersionId: pricingVersionId,
+      }),
+    onSuccess: async (v) => {
+      setNewVersionLabel("");
+      setPricingVersionId(v.id);
+      await qc.invalidateQueries({ queryKey: ["provider-product-pricing-versions", editorProductId] });
+    },
+  });
+
+  const publishVersionMutation = useMutation({
+    mutationFn: (id: string) => pricingApi.publishVersion(id),
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["provider-product-pricing-versions", editorProductId] });
+      await qc.invalidateQueries({ queryKey: ["provider-product-pricing-health", editorProductId] });
+      await qc.invalidateQueries({ queryKey: ["marketplace-products"] });
+    },
+  });
+
+  const removeVersionMutation = useMutation({
+    mutationFn: (id: string) => pricingApi.removeVersion(id),
+    onSuccess: async () => {
+      setPricingVersionId(null);
+      await qc.invalidateQueries({ queryKey: ["provider-product-pricing-versions", editorProductId] });
+    },
+  });
+
+  const runVersionAction = (action: () => Promise<unknown>) => {
+    setVersionError(null);
+    void action().catch((e) => setVersionError(formatUnknownError(e)));
+  };
+
   const products = useMemo(() => (productsQuery.data ?? []) as Product[], [productsQuery.data]);
 
   const pricingHealthProductIds = useMemo(() => {
@@ -1242,6 +1557,8 @@ export function ProviderProductsPage() {
 
   const beginNew = () => {
     setError(null);
+    setPricingVersionId(null);
+    setVersionError(null);
     setEditor(emptyEditor());
     setActiveTab("OVERVIEW");
     setWizardStep(1);
@@ -1251,6 +1568,8 @@ export function ProviderProductsPage() {
 
   const beginEdit = (p: Product) => {
     setError(null);
+    setPricingVersionId(null);
+    setVersionError(null);
     setEditor(editorFromProduct(p));
     setActiveTab("OVERVIEW");
     setWizardStep(1);
@@ -1260,6 +1579,8 @@ export function ProviderProductsPage() {
 
   const beginEditTab = (p: Product, tab: ProductEditorTab) => {
     setError(null);
+    setPricingVersionId(null);
+    setVersionError(null);
     setEditor(editorFromProduct(p));
     setActiveTab(tab);
     const stepMap: Record<ProductEditorTab, WizardStep> = {
@@ -1386,11 +1707,16 @@ export function ProviderProductsPage() {
               .filter((x) => x.classCode && x.vehicleTypes)
               .map((x) => [x.classCode, x.vehicleTypes])
           ),
+          vehicleClassMap: vehicleClassMapFromEditor(editor),
           eligibilityMaxVehicleAgeYears: parseOptionalInt(editor.eligibilityMaxVehicleAgeYears),
           eligibilityMaxMileageKm: parseOptionalInt(editor.eligibilityMaxMileageKm),
           eligibilityMakeAllowlist: parseAllowlist(editor.eligibilityMakeAllowlist),
           eligibilityModelAllowlist: parseAllowlist(editor.eligibilityModelAllowlist),
           eligibilityTrimAllowlist: parseAllowlist(editor.eligibilityTrimAllowlist),
+          eligibilityMakeDenylist: parseAllowlist(editor.eligibilityMakeDenylist),
+          eligibilityModelDenylist: parseAllowlist(editor.eligibilityModelDenylist),
+          eligibilityTrimDenylist: parseAllowlist(editor.eligibilityTrimDenylist),
+          eligibilityMaxMonthsInService: parseOptionalInt(editor.eligibilityMaxMonthsInService),
         };
 
         const overviewExtrasPatch = {
@@ -1400,12 +1726,19 @@ export function ProviderProductsPage() {
           isMostPopular: editor.isMostPopular,
           isTopPick: editor.isTopPick,
           displayOrder: editor.displayOrder.trim() ? Number(editor.displayOrder) : undefined,
+          cancellationRefundMethod: editor.cancellationRefundMethod,
+          cancellationFeeCents: dollarsToCents(editor.cancellationFee) ?? 0,
+          transferPolicy: editor.transferPolicy,
+          transferFeeCents: dollarsToCents(editor.transferFee) ?? 0,
         };
 
         const allowlistsForUpdate = {
           eligibilityMakeAllowlist: parseAllowlist(editor.eligibilityMakeAllowlist) ?? [],
           eligibilityModelAllowlist: parseAllowlist(editor.eligibilityModelAllowlist) ?? [],
           eligibilityTrimAllowlist: parseAllowlist(editor.eligibilityTrimAllowlist) ?? [],
+          eligibilityMakeDenylist: parseAllowlist(editor.eligibilityMakeDenylist) ?? [],
+          eligibilityModelDenylist: parseAllowlist(editor.eligibilityModelDenylist) ?? [],
+          eligibilityTrimDenylist: parseAllowlist(editor.eligibilityTrimDenylist) ?? [],
         };
 
         let savedProduct: Product | null = null;
@@ -1427,19 +1760,21 @@ export function ProviderProductsPage() {
               coverageMaxLtvPercent: input.coverageMaxLtvPercent ?? null,
               coverageDetails: input.coverageDetails,
               classVehicleTypes: input.classVehicleTypes ?? {},
+              vehicleClassMap: input.vehicleClassMap ?? [],
               ...overviewExtrasPatch,
               ...(input.coverageMaxLtvPercent === null ? { coverageMaxLtvPercent: null } : {}),
               eligibilityMaxVehicleAgeYears: parseOptionalIntOrNull(editor.eligibilityMaxVehicleAgeYears),
               eligibilityMaxMileageKm: parseOptionalIntOrNull(editor.eligibilityMaxMileageKm),
+              eligibilityMaxMonthsInService: parseOptionalIntOrNull(editor.eligibilityMaxMonthsInService),
               ...allowlistsForUpdate,
             },
           })) as Product;
         }
 
         const productId = (savedProduct?.id ?? editor.id ?? "").trim();
-        if (productId) {
+        if (productId && !pricingLocked) {
           saveStep = "Delete existing pricing";
-          const existing = await pricingApi.list({ productId });
+          const existing = await pricingApi.list({ productId, versionId: pricingVersionId });
           for (const r of existing) await pricingApi.remove(r.id);
 
           const defaultBand = editor.financeBands.find((b) => b.id === editor.financeDefaultBandId) ?? null;
@@ -1455,6 +1790,7 @@ export function ProviderProductsPage() {
                 const isDefault = defaultBand?.id === band.id && editor.financeDefaultTermMonths === term;
                 toCreate.push({
                   productId,
+                  versionId: pricingVersionId ?? undefined,
                   isDefault,
                   termMonths: null,
                   termKm: null,
@@ -1748,6 +2084,7 @@ export function ProviderProductsPage() {
           .filter((x) => x.classCode && x.vehicleTypes)
           .map((x) => [x.classCode, x.vehicleTypes])
       ),
+      vehicleClassMap: vehicleClassMapFromEditor(editor),
       termMonths: primary && typeof primary.termMonths === "number" ? primary.termMonths : undefined,
       termKm: primary && typeof primary.termKm === "number" ? primary.termKm : undefined,
       deductibleCents: primary && typeof primary.deductibleCents === "number" ? primary.deductibleCents : undefined,
@@ -1756,6 +2093,10 @@ export function ProviderProductsPage() {
       eligibilityMakeAllowlist: parseAllowlist(editor.eligibilityMakeAllowlist),
       eligibilityModelAllowlist: parseAllowlist(editor.eligibilityModelAllowlist),
       eligibilityTrimAllowlist: parseAllowlist(editor.eligibilityTrimAllowlist),
+      eligibilityMakeDenylist: parseAllowlist(editor.eligibilityMakeDenylist),
+      eligibilityModelDenylist: parseAllowlist(editor.eligibilityModelDenylist),
+      eligibilityTrimDenylist: parseAllowlist(editor.eligibilityTrimDenylist),
+      eligibilityMaxMonthsInService: parseOptionalInt(editor.eligibilityMaxMonthsInService),
       basePriceCents: primary ? primary.providerCostCents : undefined,
       dealerCostCents: primary ? primary.providerCostCents : undefined,
     };
@@ -1763,12 +2104,19 @@ export function ProviderProductsPage() {
     const overviewExtrasPatch = {
       programCode: editor.programCode.trim() || "",
       internalNotes: editor.internalNotes.trim() || "",
+      cancellationRefundMethod: editor.cancellationRefundMethod,
+      cancellationFeeCents: dollarsToCents(editor.cancellationFee) ?? 0,
+      transferPolicy: editor.transferPolicy,
+      transferFeeCents: dollarsToCents(editor.transferFee) ?? 0,
     };
 
     const allowlistsForUpdate = {
       eligibilityMakeAllowlist: parseAllowlist(editor.eligibilityMakeAllowlist) ?? [],
       eligibilityModelAllowlist: parseAllowlist(editor.eligibilityModelAllowlist) ?? [],
       eligibilityTrimAllowlist: parseAllowlist(editor.eligibilityTrimAllowlist) ?? [],
+      eligibilityMakeDenylist: parseAllowlist(editor.eligibilityMakeDenylist) ?? [],
+      eligibilityModelDenylist: parseAllowlist(editor.eligibilityModelDenylist) ?? [],
+      eligibilityTrimDenylist: parseAllowlist(editor.eligibilityTrimDenylist) ?? [],
     };
 
     const normalizedAddons = pendingAddons
@@ -1858,12 +2206,14 @@ export function ProviderProductsPage() {
             coverageMaxLtvPercent: input.coverageMaxLtvPercent ?? null,
             coverageDetails: input.coverageDetails ?? null,
             classVehicleTypes: input.classVehicleTypes ?? {},
+            vehicleClassMap: input.vehicleClassMap ?? [],
             ...overviewExtrasPatch,
             ...(typeof input.termMonths === "number" ? { termMonths: input.termMonths } : {}),
             ...(typeof input.termKm === "number" ? { termKm: input.termKm } : {}),
             ...(typeof input.deductibleCents === "number" ? { deductibleCents: input.deductibleCents } : {}),
             eligibilityMaxVehicleAgeYears: parseOptionalIntOrNull(editor.eligibilityMaxVehicleAgeYears),
             eligibilityMaxMileageKm: parseOptionalIntOrNull(editor.eligibilityMaxMileageKm),
+            eligibilityMaxMonthsInService: parseOptionalIntOrNull(editor.eligibilityMaxMonthsInService),
             ...allowlistsForUpdate,
             basePriceCents: input.basePriceCents,
             dealerCostCents: input.dealerCostCents,
@@ -1872,8 +2222,8 @@ export function ProviderProductsPage() {
       }
 
       const productId = (savedProduct?.id ?? editor.id ?? "").trim();
-      if (productId) {
-        const existing = await pricingApi.list({ productId });
+      if (productId && !pricingLocked) {
+        const existing = await pricingApi.list({ productId, versionId: pricingVersionId });
 
         const normalizedRowsWithDefault = (() => {
           const arr = rowsWithDefault.slice();
@@ -1896,6 +2246,7 @@ export function ProviderProductsPage() {
 
         const toCreateInput = (r: (typeof normalizedRowsWithDefault)[number]) => ({
           productId,
+          versionId: pricingVersionId ?? undefined,
           isDefault: r.isDefault === true,
           ...(editor.pricingStructure === "FINANCE_MATRIX"
             ? {
@@ -1928,6 +2279,7 @@ export function ProviderProductsPage() {
 
         const restoreInputs = existing.map((r) => ({
           productId,
+          versionId: r.versionId,
           isDefault: r.isDefault === true,
           termMonths: r.termMonths ?? undefined,
           termKm: r.termKm ?? undefined,
@@ -1999,7 +2351,8 @@ export function ProviderProductsPage() {
 
       if (productId) {
         try {
-          const latestPricing = (await pricingApi.list({ productId })) as ProductPricing[];
+          // Add-ons follow term scopes, so they must keep matching rows on every rate card, not just the one being edited.
+          const latestPricing = (await pricingApi.list({ productId, allVersions: true })) as ProductPricing[];
           const idsByScope = (() => {
             const map = new Map<string, string[]>();
             for (const pr of latestPricing) {
@@ -2143,7 +2496,7 @@ export function ProviderProductsPage() {
         const productId = (savedProduct?.id ?? editor.id ?? "").trim();
         if (productId) {
           if (desiredPublished) {
-            const check = await pricingApi.list({ productId });
+            const check = await pricingApi.list({ productId, allVersions: true });
             if (!Array.isArray(check) || check.length === 0) {
               setActiveTab("PRICING");
               throw new Error(
@@ -2173,6 +2526,9 @@ export function ProviderProductsPage() {
 
   const busy =
     saveInFlight ||
+    createVersionMutation.isPending ||
+    publishVersionMutation.isPending ||
+    removeVersionMutation.isPending ||
     createMutation.isPending ||
     updateMutation.isPending ||
     removeMutation.isPending ||
@@ -2371,6 +2727,64 @@ export function ProviderProductsPage() {
                       </div>
                     ) : null}
 
+                    <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <div className="text-sm font-medium">Cancellation refund method</div>
+                        <select
+                          value={editor.cancellationRefundMethod}
+                          onChange={(e) => setEditor((s) => ({ ...s, cancellationRefundMethod: e.target.value as CancellationRefundMethod }))}
+                          className="h-10 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
+                          disabled={busy}
+                        >
+                          {(Object.keys(CANCELLATION_REFUND_METHOD_LABELS) as CancellationRefundMethod[]).map((m) => (
+                            <option key={m} value={m}>
+                              {CANCELLATION_REFUND_METHOD_LABELS[m]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {editor.cancellationRefundMethod === "SHORT_RATE" ? (
+                        <div className="space-y-2">
+                          <div className="text-sm font-medium">Cancellation fee <span className="text-muted-foreground font-normal">(short-rate only)</span></div>
+                          <Input
+                            value={editor.cancellationFee}
+                            onChange={(e) => setEditor((s) => ({ ...s, cancellationFee: sanitizeMoney(e.target.value) }))}
+                            placeholder="Example: 75"
+                            disabled={busy}
+                          />
+                        </div>
+                      ) : null}
+                    </div>
+
+                    <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <div className="text-sm font-medium">Transfer policy</div>
+                        <select
+                          value={editor.transferPolicy}
+                          onChange={(e) => setEditor((s) => ({ ...s, transferPolicy: e.target.value as TransferPolicy }))}
+                          className="h-10 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
+                          disabled={busy}
+                        >
+                          {(Object.keys(TRANSFER_POLICY_LABELS) as TransferPolicy[]).map((m) => (
+                            <option key={m} value={m}>
+                              {TRANSFER_POLICY_LABELS[m]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {editor.transferPolicy !== "NOT_TRANSFERABLE" ? (
+                        <div className="space-y-2">
+                          <div className="text-sm font-medium">Transfer fee</div>
+                          <Input
+                            value={editor.transferFee}
+                            onChange={(e) => setEditor((s) => ({ ...s, transferFee: sanitizeMoney(e.target.value) }))}
+                            placeholder="Example: 50"
+                            disabled={busy}
+                          />
+                        </div>
+                      ) : null}
+                    </div>
+
                     <div className="mt-4 space-y-2">
                       <div className="text-sm font-medium">Short description <span className="text-muted-foreground font-normal">(optional — shown on marketplace cards)</span></div>
                       <Input
@@ -2475,29 +2889,48 @@ export function ProviderProductsPage() {
                   <div className="space-y-2">
                         <div className="flex items-center justify-between mb-3">
                           <div className="text-sm font-semibold">Coverage Items</div>
-                          <Button
-                            type="button"
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              setEditor((s) => ({
-                                ...s,
-                                coverageItems: [
-                                  ...s.coverageItems,
-                                  { id: crypto.randomUUID(), name: "", status: "included" },
-                                ],
-                              }));
-                            }}
-                            disabled={busy}
-                          >
-                            + Add Item
-                          </Button>
+                          <div className="flex gap-2">
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEditor((s) => ({ ...s, coverageItems: withEvCoverageItems(s.coverageItems) }))}
+                              disabled={busy || EV_COVERAGE_COMPONENTS.every((c) => editor.coverageItems.some((i) => i.id === c.id))}
+                            >
+                              + EV Components
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                setEditor((s) => ({
+                                  ...s,
+                                  coverageItems: [
+                                    ...s.coverageItems,
+                                    { id: crypto.randomUUID(), name: "", status: "included" },
+                                  ],
+                                }));
+                              }}
+                              disabled={busy}
+                            >
+                              + Add Item
+                            </Button>
+                          </div>
                         </div>
+                        {editor.powertrainEligibility === "ICE" && editor.coverageItems.some((i) => i.ev) ? (
+                          <div className="text-xs text-amber-700">
+                            This product is limited to gas / diesel vehicles, so its EV component items will never apply.
+                          </div>
+                        ) : null}
                         {editor.coverageItems.length === 0 ? (
                           <div className="text-sm text-muted-foreground text-center py-4">No coverage items. Click "+ Add Item" to define what is covered under this warranty.</div>
                         ) : (
                           editor.coverageItems.map((item) => (
                             <div key={item.id} className="flex items-center gap-2">
+                              {item.ev ? (
+                                <span className="text-[10px] px-2 py-0.5 rounded-md border bg-emerald-50 text-emerald-700 border-emerald-200">EV</span>
+                              ) : null}
                               <Input
                                 value={item.name}
                                 onChange={(e) => {
@@ -2636,10 +3069,21 @@ export function ProviderProductsPage() {
                         />
                       </div>
                     </div>
+                    <div className="space-y-2">
+                      <div className="text-sm font-medium">Max months since in-service</div>
+                      <Input
+                        value={editor.eligibilityMaxMonthsInService}
+                        onChange={(e) => setEditor((s) => ({ ...s, eligibilityMaxMonthsInService: sanitizeDigitsOnly(e.target.value) }))}
+                        placeholder="Months (leave blank for no limit)"
+                        inputMode="numeric"
+                        disabled={busy}
+                      />
+                    </div>
                     {(() => {
                       const openAge = !editor.eligibilityMaxVehicleAgeYears.trim();
                       const openKm = !editor.eligibilityMaxMileageKm.trim();
-                      if (!(openAge && openKm)) return null;
+                      const openMonths = !editor.eligibilityMaxMonthsInService.trim();
+                      if (!(openAge && openKm && openMonths)) return null;
                       return <div className="text-sm text-emerald-600 font-medium">✓ Fully Open - All vehicles eligible</div>;
                     })()}
                   </div>
@@ -2650,7 +3094,9 @@ export function ProviderProductsPage() {
                     <div className="flex items-center justify-center w-8 h-8 rounded-full bg-blue-600 text-white font-bold text-sm">3</div>
                     <div>
                       <div className="font-semibold">Make / Model / Trim Allowlists</div>
-                      <div className="text-sm text-muted-foreground">Optional - leave blank to allow all makes, models, and trims</div>
+                      <div className="text-sm text-muted-foreground">
+                        Optional - leave blank to allow all makes, models, and trims. Excluded entries win over allowed ones.
+                      </div>
                     </div>
                   </div>
 
@@ -2682,6 +3128,33 @@ export function ProviderProductsPage() {
                         disabled={busy}
                       />
                     </div>
+                    <div className="space-y-2">
+                      <div className="text-sm font-medium">Excluded makes</div>
+                      <Input
+                        value={editor.eligibilityMakeDenylist}
+                        onChange={(e) => setEditor((s) => ({ ...s, eligibilityMakeDenylist: e.target.value }))}
+                        placeholder="Comma-separated. Example: Tesla, Polestar"
+                        disabled={busy}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <div className="text-sm font-medium">Excluded models</div>
+                      <Input
+                        value={editor.eligibilityModelDenylist}
+                        onChange={(e) => setEditor((s) => ({ ...s, eligibilityModelDenylist: e.target.value }))}
+                        placeholder="Comma-separated. Example: Sprinter, Transit"
+                        disabled={busy}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <div className="text-sm font-medium">Excluded trims</div>
+                      <Input
+                        value={editor.eligibilityTrimDenylist}
+                        onChange={(e) => setEditor((s) => ({ ...s, eligibilityTrimDenylist: e.target.value }))}
+                        placeholder="Comma-separated. Example: TRD Pro, Raptor"
+                        disabled={busy}
+                      />
+                    </div>
                   </div>
                 </div>
 
@@ -2764,6 +3237,126 @@ export function ProviderProductsPage() {
                         Add class
                       </Button>
                     </div>
+
+                    <div className="mt-6 space-y-3">
+                      <div>
+                        <div className="text-sm font-medium">Make / model class table</div>
+                        <div className="text-xs text-muted-foreground">
+                          Dealers get the class from the decoded VIN. A model row overrides the row for its make; leave the model blank to cover every model.
+                        </div>
+                      </div>
+                      {editor.vehicleClassMap.map((row) => (
+                        <div key={row.key} className="grid grid-cols-1 md:grid-cols-12 gap-2">
+                          <div className="md:col-span-3">
+                            <select
+                              value={row.classCode}
+                              onChange={(e) =>
+                                setEditor((s) => ({
+                                  ...s,
+                                  vehicleClassMap: s.vehicleClassMap.map((x) => (x.key === row.key ? { ...x, classCode: e.target.value } : x)),
+                                }))
+                              }
+                              className="h-10 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-sm"
+                              disabled={busy}
+                            >
+                              {Array.from(new Set([row.classCode, ...editor.classVehicleTypes.map((x) => (x.classCode ?? "").trim())].filter(Boolean)))
+                                .sort((a, b) => a.localeCompare(b))
+                                .map((code) => (
+                                  <option key={code} value={code}>
+                                    {vehicleClassLabel(code)}
+                                  </option>
+                                ))}
+                            </select>
+                          </div>
+                          <div className="md:col-span-4">
+                            <Input
+                              value={row.make}
+                              onChange={(e) =>
+                                setEditor((s) => ({
+                                  ...s,
+                                  vehicleClassMap: s.vehicleClassMap.map((x) => (x.key === row.key ? { ...x, make: e.target.value } : x)),
+                                }))
+                              }
+                              placeholder="Make (example: Lexus)"
+                              disabled={busy}
+                            />
+                          </div>
+                          <div className="md:col-span-4">
+                            <Input
+                              value={row.model}
+                              onChange={(e) =>
+                                setEditor((s) => ({
+                                  ...s,
+                                  vehicleClassMap: s.vehicleClassMap.map((x) => (x.key === row.key ? { ...x, model: e.target.value } : x)),
+                                }))
+                              }
+                              placeholder="Model (blank = all models)"
+                              disabled={busy}
+                            />
+                          </div>
+                          <div className="md:col-span-1 flex">
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              className="h-10 w-full"
+                              disabled={busy}
+                              onClick={() =>
+                                setEditor((s) => ({
+                                  ...s,
+                                  vehicleClassMap: s.vehicleClassMap.filter((x) => x.key !== row.key),
+                                }))
+                              }
+                            >
+                              Remove
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+
+                      <Button
+                        type="button"
+                        variant="outline"
+                        disabled={busy}
+                        onClick={() =>
+                          setEditor((s) => ({
+                            ...s,
+                            vehicleClassMap: [
+                              ...s.vehicleClassMap,
+                              { key: crypto.randomUUID(), classCode: s.classVehicleTypes[0]?.classCode || "CLASS_1", make: "", model: "" },
+                            ],
+                          }))
+                        }
+                      >
+                        Add make / model
+                      </Button>
+
+                      <div className="rounded-lg border bg-muted/30 p-3 space-y-2">
+                        <div className="text-xs font-medium text-muted-foreground">Check a vehicle</div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                          <Input
+                            value={classPreview.make}
+                            onChange={(e) => setClassPreview((s) => ({ ...s, make: e.target.value }))}
+                            placeholder="Make"
+                          />
+                          <Input
+                            value={classPreview.model}
+                            onChange={(e) => setClassPreview((s) => ({ ...s, model: e.target.value }))}
+                            placeholder="Model"
+                          />
+                        </div>
+                        {classPreview.make.trim() ? (
+                          <div className="text-xs">
+                            {
+                              resolveVehicleClass(classPreview, {
+                                vehicleClassMap: vehicleClassMapFromEditor(editor),
+                                classVehicleTypes: Object.fromEntries(editor.classVehicleTypes.map((x) => [x.classCode, x.vehicleTypes])),
+                              }).explanation
+                            }
+                          </div>
+                        ) : null}
+                      </div>
+                    </div>
                   </div>
                 ) : null}
 
@@ -2812,27 +3405,24 @@ export function ProviderProductsPage() {
                       <label className="text-sm">
                         <input
                           type="file"
-                          accept=".csv,text/csv,.tsv,text/tab-separated-values"
+                          accept=".csv,text/csv,.tsv,text/tab-separated-values,.xlsx"
                           disabled={busy}
                           onChange={(e) => {
                             const file = e.target.files?.[0];
+                            e.target.value = "";
                             if (!file) return;
-                            const reader = new FileReader();
-                            reader.onload = () => {
-                              const text = typeof reader.result === "string" ? reader.result : "";
-                              setPasteAddonsText(text);
-                              setPasteAddonsOpen(true);
-                            };
-                            reader.readAsText(file);
+                            importRateSheet(file, "ADDONS");
                           }}
                           className="hidden"
                         />
                         <Button type="button" variant="outline" size="sm" disabled={busy} asChild>
-                          <span>Upload CSV</span>
+                          <span>Import CSV / XLSX</span>
                         </Button>
                       </label>
                     </div>
 
+                    {rateSheetImport?.kind === "ADDONS" ? renderRateSheetImport() : null}
+
                     {pasteAddonsOpen ? (
                       <div className="rounded-lg border p-3 space-y-3">
                         <textarea
@@ -2859,87 +3449,7 @@ export function ProviderProductsPage() {
                               setError(null);
                               try {
                                 const parsed = parseAddonsPaste(pasteAddonsText);
-                                const defaultScope = activeAddonTermTab === "INVALID" ? "ALL" : activeAddonTermTab;
-                                const validScopes = new Set(uniqueAddonScopeOptions.map((s) => s.scopeKey));
-
-                                const rows: PendingAddon[] = parsed.map((p) => {
-                                  const rawTerm = (p.termMonths ?? "").trim();
-                                  const rawKm = (p.termKm ?? "").trim();
-                                  const upperTerm = rawTerm.toUpperCase();
-
-                                  const isAll = !rawTerm
-                                    ? defaultScope === "ALL"
-                                    : upperTerm === "ALL" || upperTerm === "ALLTERMS" || upperTerm === "ALL_TERMS";
-
-                                  if (isAll) {
-                                    return {
-                                      key: crypto.randomUUID(),
-                                      name: p.name,
-                                      description: p.description,
-                                      pricingType: p.pricingType,
-                                      price: p.price,
-                                      appliesToAllPricingRows: true,
-                                      applicableTermMonths: [],
-                                    };
-                                  }
-
-                                  const normMonths = /^UNLIMITED$/i.test(rawTerm)
-                                    ? "UNL"
-                                    : (() => {
-                                        const n = rawTerm ? Number(rawTerm) : NaN;
-                                        return Number.isFinite(n) && n > 0 ? String(Math.round(n)) : null;
-                                      })();
-
-                                  const normKm = /^UNLIMITED$/i.test(rawKm)
-                                    ? "UNL"
-                                    : (() => {
-                                        const n = rawKm ? Number(rawKm) : NaN;
-                                        return Number.isFinite(n) && n > 0 ? String(Math.round(n)) : null;
-                                      })();
-
-                                  if (normMonths && normKm) {
-                                    const scopeKey = `${normMonths}|${normKm}`;
-                                    if (validScopes.has(scopeKey)) {
-                                      return {
-                                        key: crypto.randomUUID(),
-                                        name: p.name,
-                                        description: p.description,
-                                        pricingType: p.pricingType,
-                                        price: p.price,
-                                        appliesToAllPricingRows: false,
-                                        applicableTermMonths: [],
-                                        applicablePricingScopeKeys: [scopeKey],
-                                      };
-                                    }
-                                  }
-
-                                  if (validScopes.has(defaultScope)) {
-                                    return {
-                                      key: crypto.randomUUID(),
-                                      name: p.name,
-                                      description: p.description,
-                                      pricingType: p.pricingType,
-                                      price: p.price,
-                                      appliesToAllPricingRows: false,
-                                      applicableTermMonths: [],
-                                      applicablePricingScopeKeys: [defaultScope],
-                                    };
-                                  }
-
-                                  const fallbackMonthsNum = Number(rawTerm);
-                                  const fallbackMonths = Number.isFinite(fallbackMonthsNum) && fallbackMonthsNum > 0 ? String(Math.round(fallbackMonthsNum)) : null;
-
-                                  return {
-                                    key: crypto.randomUUID(),
-                                    name: p.name,
-                                    description: p.description,
-                                    pricingType: p.pricingType,
-                                    price: p.price,
-                                    appliesToAllPricingRows: !fallbackMonths,
-                                    applicableTermMonths: fallbackMonths ? [fallbackMonths] : [],
-                                  };
-                                });
-
+                                const rows = pendingAddonsFromParsed(parsed);
                                 setPendingAddons((s) => [...s, ...rows]);
                                 setPasteAddonsOpen(false);
                               } catch (e) {
@@ -3135,6 +3645,96 @@ export function ProviderProductsPage() {
 
             {activeTab === "PRICING" && wizardStep === 4 ? (
               <div className="space-y-4">
+                {editorProductId ? (
+                  <div className="rounded-2xl border bg-background/40 p-6">
+                    <div className="flex items-start justify-between gap-4 flex-wrap">
+                      <div>
+                        <div className="font-semibold">Rate Card Versions</div>
+                        <div className="text-sm text-muted-foreground">
+                          Draft rate changes, then publish them with an effective date. Contracts keep the rate card they were priced from.
+                        </div>
+                      </div>
+                      <select
+                        value={pricingVersionId ?? ""}
+                        onChange={(e) => setPricingVersionId(e.target.value || null)}
+                        className="h-9 rounded-md border border-input bg-background px-3 text-sm"
+                        disabled={busy}
+                      >
+                        <option value="">Original rate card</option>
+                        {pricingVersions.map((v) => (
+                          <option key={v.id} value={v.id}>
+                            {v.label} ({pricingVersionStatusLabel(v)})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {pricingVersions.length > 0 ? (
+                      <div className="mt-4 divide-y rounded-xl border">
+                        {pricingVersions.map((v) => (
+                          <div key={v.id} className="px-4 py-2 flex items-center justify-between gap-3 text-sm">
+                            <div>
+                              <span className="font-medium">{v.label}</span>
+                              <span className="ml-2 text-muted-foreground">
+                                {v.effectiveFrom} – {v.effectiveTo ?? "open-ended"}
+                              </span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <span className="text-xs rounded-full border px-2 py-0.5">{pricingVersionStatusLabel(v)}</span>
+                              {v.status === "DRAFT" ? (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    onClick={() => {
+                                      if (!window.confirm(`Publish "${v.label}" effective ${v.effectiveFrom}? Published rate cards can't be edited.`)) return;
+                                      runVersionAction(() => publishVersionMutation.mutateAsync(v.id));
+                                    }}
+                                    disabled={busy}
+                                  >
+                                    Publish
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => {
+                                      if (!window.confirm(`Delete draft "${v.label}"?`)) return;
+                                      runVersionAction(() => removeVersionMutation.mutateAsync(v.id));
+                                    }}
+                                    disabled={busy}
+                                  >
+                                    Delete
+                                  </Button>
+                                </>
+                              ) : null}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : null}
+
+                    <div className="mt-4 grid grid-cols-1 sm:grid-cols-[1fr_180px_auto] gap-2 items-end">
+                      <div>
+                        <div className="text-xs text-muted-foreground mb-1">New draft label</div>
+                        <Input value={newVersionLabel} onChange={(e) => setNewVersionLabel(e.target.value)} placeholder="e.g. 2027 rates" disabled={busy} />
+                      </div>
+                      <div>
+                        <div className="text-xs text-muted-foreground mb-1">Effective from</div>
+                        <Input type="date" value={newVersionFrom} min={pricingDateKey()} onChange={(e) => setNewVersionFrom(e.target.value)} disabled={busy} />
+                      </div>
+                      <Button variant="outline" onClick={() => runVersionAction(() => createVersionMutation.mutateAsync())} disabled={busy || !newVersionFrom}>
+                        New draft from selected card
+                      </Button>
+                    </div>
+
+                    {pricingLocked ? (
+                      <div className="mt-3 text-sm text-amber-700">
+                        This rate card is published and read-only. Pricing edits below won't be saved — start a new draft to change rates.
+                      </div>
+                    ) : null}
+                    {versionError ? <div className="mt-3 text-sm text-destructive">{versionError}</div> : null}
+                  </div>
+                ) : null}
+
                 <div className="rounded-2xl border bg-background/40 p-6">
                   <div className="flex items-center gap-3 mb-4">
                     <div className="flex items-center justify-center w-8 h-8 rounded-full bg-blue-600 text-white font-bold text-sm">4</div>
@@ -3277,8 +3877,28 @@ export function ProviderProductsPage() {
                         Paste Rate Sheet
                       </Button>
                     ) : null}
+
+                    <label className="ml-2 text-sm">
+                      <input
+                        type="file"
+                        accept=".csv,text/csv,.tsv,text/tab-separated-values,.xlsx"
+                        disabled={busy || pricingLocked}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = "";
+                          if (!file) return;
+                          importRateSheet(file, editor.pricingStructure === "FINANCE_MATRIX" ? "FINANCE" : "RATES");
+                        }}
+                        className="hidden"
+                      />
+                      <Button type="button" variant="outline" size="sm" disabled={busy || pricingLocked} asChild>
+                        <span>Import CSV / XLSX</span>
+                      </Button>
+                    </label>
                   </div>
 
+                  {rateSheetImport && rateSheetImport.kind !== "ADDONS" ? renderRateSheetImport() : null}
+
                   {editor.pricingStructure === "FINANCE_MATRIX" && pasteFinanceOpen ? (
                     <div className="mt-3 rounded-lg border p-3 space-y-3">
                       <textarea
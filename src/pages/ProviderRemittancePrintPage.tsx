@@ -2,13 +2,17 @@ import { useEffect, useMemo } from "react";
 import { useParams } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 
+import { RemittanceCreditNotesPrint } from "../components/remittances/RemittanceCreditNotesPrint";
 import { BRAND } from "../lib/brand";
 import { getBatchesApi } from "../lib/batches/batches";
-import type { Batch, RemittanceWorkflowStatus } from "../lib/batches/types";
+import { creditNotesAppliedTo } from "../lib/batches/creditNotes";
+import type { Batch } from "../lib/batches/types";
+import { remittanceBalanceCents } from "../lib/batches/payments";
+import { remittanceWorkflowStatus } from "../lib/batches/workflow";
 
 function money(cents?: number) {
   if (typeof cents !== "number") return "—";
-  return `$${(cents / 100).toFixed(2)}`;
+  return `${cents < 0 ? "-" : ""}$${(Math.abs(cents) / 100).toFixed(2)}`;
 }
 
 export function ProviderRemittancePrintPage() {
@@ -17,24 +21,21 @@ export function ProviderRemittancePrintPage() {
 
   const api = useMemo(() => getBatchesApi(), []);
 
-  const remittanceQuery = useQuery({
-    queryKey: ["provider-remittance", remittanceId],
+  const batchesQuery = useQuery({
+    queryKey: ["batches"],
     enabled: !!remittanceId,
-    queryFn: async () => {
-      const all = (await api.list()) as Batch[];
-      return all.find((r) => r.id === remittanceId) ?? null;
-    },
+    queryFn: () => api.list(),
   });
 
-  const remittance = remittanceQuery.data as Batch | null | undefined;
+  const creditNotesQuery = useQuery({
+    queryKey: ["remittance-credit-notes"],
+    enabled: !!remittanceId,
+    queryFn: () => api.listCreditNotes(),
+  });
 
-  const derivedWorkflow = (b: Batch): RemittanceWorkflowStatus => {
-    const s = b.remittanceStatus;
-    if (s) return s;
-    if (b.paymentStatus === "PAID") return "PAID";
-    if (b.status === "CLOSED") return "SUBMITTED";
-    return "DRAFT";
-  };
+  const batches = (batchesQuery.data ?? []) as Batch[];
+  const remittance = batchesQuery.data ? (batches.find((r) => r.id === remittanceId) ?? null) : undefined;
+  const creditNotes = creditNotesQuery.data ?? [];
 
   useEffect(() => {
     if (!remittance) return;
@@ -44,7 +45,7 @@ export function ProviderRemittancePrintPage() {
     return () => window.clearTimeout(t);
   }, [remittance]);
 
-  if (remittanceQuery.isLoading) {
+  if (batchesQuery.isLoading || creditNotesQuery.isLoading) {
     return <div className="container mx-auto px-4 py-10 text-sm text-muted-foreground">Loading…</div>;
   }
 
@@ -52,7 +53,8 @@ export function ProviderRemittancePrintPage() {
     return <div className="container mx-auto px-4 py-10 text-sm text-muted-foreground">Remittance not found.</div>;
   }
 
-  const status = derivedWorkflow(remittance);
+  const status = remittanceWorkflowStatus(remittance);
+  const appliedCreditCents = creditNotesAppliedTo(creditNotes, remittance.id).reduce((sum, n) => sum + n.totalCents, 0);
 
   return (
     <div className="min-h-screen bg-white text-slate-900">
@@ -80,10 +82,23 @@ export function ProviderRemittancePrintPage() {
               <div className="rounded-lg border p-4">
                 <div className="text-[11px] uppercase tracking-wide text-slate-500">Amount</div>
                 <div className="text-lg font-semibold mt-1">{money(remittance.totalCents)}</div>
+                {remittance.taxBreakdown.length > 0 ? (
+                  <div className="mt-2 space-y-0.5 text-xs text-slate-500">
+                    <div>Subtotal {money(remittance.subtotalCents)}</div>
+                    {remittance.taxBreakdown.map((t) => (
+                      <div key={t.label}>
+                        {t.label} {money(t.taxCents)}
+                      </div>
+                    ))}
+                  </div>
+                ) : null}
+                {appliedCreditCents < 0 ? (
+                  <div className="mt-1 text-xs text-slate-500">Includes credit notes {money(appliedCreditCents)}</div>
+                ) : null}
               </div>
               <div className="rounded-lg border p-4">
                 <div className="text-[11px] uppercase tracking-wide text-slate-500">Status</div>
-                <div className="text-lg font-semibold mt-1">{status}</div>
+                <div className="text-lg font-semibold mt-1">{status.replace("_", " ")}</div>
               </div>
               <div className="rounded-lg border p-4">
                 <div className="text-[11px] uppercase tracking-wide text-slate-500">Last Updated</div>
@@ -108,10 +123,14 @@ export function ProviderRemittancePrintPage() {
                   Date: {(remittance.paymentDate ?? "—").toString()}
                   <br />
                   Ref: {(remittance.paymentReference ?? "—").toString()}
+                  <br />
+                  Paid: {money(remittance.paidCents)} • Balance: {money(remittanceBalanceCents(remittance))}
                 </div>
               </div>
             </div>
 
+            <RemittanceCreditNotesPrint batch={remittance} batches={batches} notes={creditNotes} />
+
             <div className="mt-6 rounded-lg border p-4">
               <div className="text-xs font-semibold uppercase tracking-wide text-slate-600">Read-only notice</div>
               <div className="mt-2 text-sm text-slate-600">
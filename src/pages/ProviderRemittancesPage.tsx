@@ -5,8 +5,14 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "../components/ui/button";
 import { PageShell } from "../components/PageShell";
 import { Input } from "../components/ui/input";
+import { BankReconciliationPanel } from "../components/remittances/BankReconciliationPanel";
+import { getBankReconciliationApi } from "../lib/bankReconciliation/bankReconciliation";
+import type { BankDepositMatch } from "../lib/bankReconciliation/types";
 import { getBatchesApi } from "../lib/batches/batches";
-import type { Batch, PaymentMethod, RemittanceWorkflowStatus } from "../lib/batches/types";
+import { allocatePayment, isAwaitingPayment, paymentsForBatch, remittanceBalanceCents } from "../lib/batches/payments";
+import type { Batch, PaymentMethod, RecordRemittancePaymentInput, RemittancePayment, RemittanceWorkflowStatus } from "../lib/batches/types";
+import { remittanceWorkflowStatus } from "../lib/batches/workflow";
+import { getAppMode } from "../lib/runtime";
 import { alertMissing, confirmProceed } from "../lib/utils";
 import { useAuth } from "../providers/AuthProvider";
 
@@ -15,7 +21,17 @@ function money(cents?: number) {
   return `$${(cents / 100).toFixed(2)}`;
 }
 
+// Dollars typed into a payment field; null when it isn't a usable amount.
+function centsFromInput(raw: string) {
+  const cleaned = raw.trim().replace(/[$,]/g, "");
+  if (!cleaned) return null;
+  const n = Number(cleaned);
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return Math.round(n * 100);
+}
+
 function statusBadge(status: RemittanceWorkflowStatus) {
+  if (status === "PARTIALLY_PAID") return "inline-flex items-center text-xs px-2 py-1 rounded-md border bg-violet-50 text-violet-700 border-violet-200";
   if (status === "PAID") return "inline-flex items-center text-xs px-2 py-1 rounded-md border bg-emerald-50 text-emerald-700 border-emerald-200";
   if (status === "APPROVED") return "inline-flex items-center text-xs px-2 py-1 rounded-md border bg-sky-50 text-sky-800 border-sky-200";
   if (status === "REJECTED") return "inline-flex items-center text-xs px-2 py-1 rounded-md border bg-rose-50 text-rose-700 border-rose-200";
@@ -23,8 +39,37 @@ function statusBadge(status: RemittanceWorkflowStatus) {
   return "inline-flex items-center text-xs px-2 py-1 rounded-md border bg-muted text-muted-foreground";
 }
 
+// The bank statement line a remittance was reconciled against, if it was paid that way.
+function DepositEvidence({ deposit }: { deposit: BankDepositMatch | undefined }) {
+  if (!deposit) return null;
+  const { line } = deposit;
+  return (
+    <div className="text-xs text-muted-foreground mt-1">
+      Bank deposit {money(line.amountCents)} on {line.postedDate} • {line.description || line.reference || "—"} • {deposit.statementFileName}
+      {deposit.shortfallCents > 0 ? <span className="text-amber-700"> • short {money(deposit.shortfallCents)}</span> : null}
+    </div>
+  );
+}
+
+function PaymentLedger({ payments }: { payments: RemittancePayment[] }) {
+  if (payments.length === 0) return null;
+  return (
+    <div className="mt-2 space-y-0.5">
+      {payments.map((p) => (
+        <div key={p.id} className="text-xs text-muted-foreground">
+          {p.paymentDate} • {p.method === "CHEQUE" ? "Cheque" : "EFT"}
+          {p.reference ? ` • ${p.reference}` : ""} • <span className="text-foreground">{money(p.amountCents)}</span>
+          {p.bankDepositId ? " • bank deposit" : ""}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function ProviderRemittancesPage() {
   const api = useMemo(() => getBatchesApi(), []);
+  const depositsApi = useMemo(() => getBankReconciliationApi(), []);
+  const mode = useMemo(() => getAppMode(), []);
   const qc = useQueryClient();
   const { user } = useAuth();
 
@@ -33,59 +78,71 @@ export function ProviderRemittancesPage() {
     queryFn: () => api.list(),
   });
 
+  const depositsQuery = useQuery({
+    queryKey: ["bank-deposits", mode],
+    queryFn: () => depositsApi.listDeposits(),
+  });
+
+  const paymentsQuery = useQuery({
+    queryKey: ["remittance-payments", mode],
+    queryFn: () => api.listPayments(),
+  });
+
+  const depositByBatchId = useMemo(() => {
+    const out = new Map<string, BankDepositMatch>();
+    for (const d of depositsQuery.data ?? []) for (const id of d.batchIds) out.set(id, d);
+    return out;
+  }, [depositsQuery.data]);
+
   const myProviderId = (user?.id ?? "").trim();
   const all = (listQuery.data ?? []) as Batch[];
 
-  const derivedWorkflow = (b: Batch): RemittanceWorkflowStatus => {
-    const s = b.remittanceStatus;
-    if (s) return s;
-    if (b.paymentStatus === "PAID") return "PAID";
-    if (b.status === "CLOSED") return "SUBMITTED";
-    return "DRAFT";
-  };
-
   const rows = all
     .filter((b) => Array.isArray(b.contractIds) && b.contractIds.length > 0)
     .filter((b) => (b.providerId ?? "").trim() && (b.providerId ?? "").trim() === myProviderId)
     .sort((a, b) => (b.submittedAt ?? b.createdAt).localeCompare(a.submittedAt ?? a.createdAt));
 
-  const approved = rows.filter((b) => derivedWorkflow(b) === "APPROVED");
-  const paid = rows.filter((b) => derivedWorkflow(b) === "PAID");
+  const awaiting = rows.filter(isAwaitingPayment);
+  const paid = rows.filter((b) => remittanceWorkflowStatus(b) === "PAID");
 
   const [paymentMethodById, setPaymentMethodById] = useState<Record<string, PaymentMethod | undefined>>({});
   const [paymentReferenceById, setPaymentReferenceById] = useState<Record<string, string>>({});
   const [paymentDateById, setPaymentDateById] = useState<Record<string, string>>({});
+  const [paymentAmountById, setPaymentAmountById] = useState<Record<string, string>>({});
 
-  const markPaidMutation = useMutation({
-    mutationFn: async (batchId: string) => {
-      const current = rows.find((r) => r.id === batchId);
-      if (!current) throw new Error("Remittance not found");
-      if (derivedWorkflow(current) !== "APPROVED") throw new Error("Only approved remittances can be marked paid");
-
-      const method = paymentMethodById[batchId] ?? current.paymentMethod;
-      const reference = (paymentReferenceById[batchId] ?? current.paymentReference ?? "").toString().trim();
-      const date = (paymentDateById[batchId] ?? current.paymentDate ?? "").toString().trim();
-      if (!method) throw new Error("Payment method is required");
-      if (!date) throw new Error("Payment date is required");
-
-      const now = new Date().toISOString();
-      await api.update(batchId, {
-        remittanceStatus: "PAID",
-        paymentStatus: "PAID",
-        paidAt: now,
-        paymentMethod: method,
-        paymentReference: reference || undefined,
-        paymentDate: date,
-        paidByUserId: user?.id,
-        paidByEmail: user?.email,
-      });
+  const [splitMethod, setSplitMethod] = useState<PaymentMethod | undefined>(undefined);
+  const [splitReference, setSplitReference] = useState("");
+  const [splitDate, setSplitDate] = useState("");
+  const [splitAmount, setSplitAmount] = useState("");
+  const [splitBatchIds, setSplitBatchIds] = useState<string[]>([]);
+
+  const splitCents = centsFromInput(splitAmount);
+  const splitAllocation = allocatePayment(splitCents ?? 0, awaiting.filter((b) => splitBatchIds.includes(b.id)));
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: async ({ input }: { input: RecordRemittancePaymentInput; split?: boolean }) => {
+      await api.recordPayment(input, user ?? undefined);
     },
-    onSuccess: async () => {
+    onSuccess: async (_data, { input, split }) => {
+      if (split) {
+        setSplitAmount("");
+        setSplitReference("");
+        setSplitBatchIds([]);
+      }
+      setPaymentAmountById((p) => {
+        const next = { ...p };
+        for (const a of input.allocations) delete next[a.batchId];
+        return next;
+      });
       await qc.invalidateQueries({ queryKey: ["provider-remittances"] });
+      await qc.invalidateQueries({ queryKey: ["remittance-payments"] });
       await qc.invalidateQueries({ queryKey: ["batches"] });
+      await qc.invalidateQueries({ queryKey: ["contracts"] });
     },
   });
 
+  const busy = recordPaymentMutation.isPending;
+
   return (
     <PageShell
       badge="Provider Portal"
@@ -97,108 +154,242 @@ export function ProviderRemittancesPage() {
         </Button>
       }
     >
+      <BankReconciliationPanel remittances={awaiting} />
+
       <div className="mt-8 rounded-2xl border bg-card shadow-card overflow-hidden">
         <div className="px-6 py-4 border-b">
-          <div className="font-semibold">Approved Remittances</div>
-          <div className="text-sm text-muted-foreground mt-1">Mark approved remittances as paid when payment is issued.</div>
+          <div className="font-semibold">Awaiting Payment</div>
+          <div className="text-sm text-muted-foreground mt-1">
+            Record each payment as it arrives. A remittance stays partially paid until its balance reaches zero.
+          </div>
         </div>
 
         <div className="divide-y">
-          {approved.map((r) => (
-            <div key={r.id} className="px-6 py-4">
-              <div className="flex items-start justify-between gap-4 flex-wrap">
-                <div>
-                  <div className="text-sm font-medium text-foreground">Remittance {r.batchNumber}</div>
-                  <div className="text-xs text-muted-foreground mt-1">
-                    {r.contractIds.length} contract(s) • Total {money(r.totalCents)} • Dealer {(r.dealerEmail ?? "—").trim() || "—"}
+          {awaiting.map((r) => {
+            const workflow = remittanceWorkflowStatus(r);
+            const balance = remittanceBalanceCents(r);
+            return (
+              <div key={r.id} className="px-6 py-4">
+                <div className="flex items-start justify-between gap-4 flex-wrap">
+                  <div>
+                    <div className="text-sm font-medium text-foreground">Remittance {r.batchNumber}</div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {r.contractIds.length} contract(s) • Total {money(r.totalCents)} • Paid {money(r.paidCents)} • Dealer{" "}
+                      {(r.dealerEmail ?? "—").trim() || "—"}
+                    </div>
+                    <PaymentLedger payments={paymentsForBatch(paymentsQuery.data ?? [], r.id)} />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="text-sm font-medium">{money(balance)} outstanding</div>
+                    <span className={statusBadge(workflow)}>{workflow === "PARTIALLY_PAID" ? "Partially paid" : "Approved"}</span>
                   </div>
                 </div>
-                <div className="flex items-center gap-2">
-                  <span className={statusBadge("APPROVED")}>Approved</span>
-                </div>
-              </div>
 
-              <div className="mt-3 grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
-                <div className="md:col-span-3">
-                  <div className="text-xs text-muted-foreground mb-1">Payment Method</div>
-                  <select
-                    className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
-                    value={(paymentMethodById[r.id] ?? r.paymentMethod ?? "") as string}
-                    onChange={(e) => {
-                      const v = (e.target.value ?? "").toString().trim();
-                      setPaymentMethodById((p) => ({ ...p, [r.id]: (v ? (v as PaymentMethod) : undefined) }));
-                    }}
-                    disabled={markPaidMutation.isPending}
-                  >
-                    <option value="">Select</option>
-                    <option value="EFT">EFT</option>
-                    <option value="CHEQUE">Cheque</option>
-                  </select>
-                </div>
+                <div className="mt-3 grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+                  <div className="md:col-span-2">
+                    <div className="text-xs text-muted-foreground mb-1">Payment Method</div>
+                    <select
+                      className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                      value={(paymentMethodById[r.id] ?? r.paymentMethod ?? "") as string}
+                      onChange={(e) => {
+                        const v = (e.target.value ?? "").toString().trim();
+                        setPaymentMethodById((p) => ({ ...p, [r.id]: (v ? (v as PaymentMethod) : undefined) }));
+                      }}
+                      disabled={busy}
+                    >
+                      <option value="">Select</option>
+                      <option value="EFT">EFT</option>
+                      <option value="CHEQUE">Cheque</option>
+                    </select>
+                  </div>
 
-                <div className="md:col-span-4">
-                  <div className="text-xs text-muted-foreground mb-1">Payment Reference (optional)</div>
-                  <Input
-                    value={paymentReferenceById[r.id] ?? r.paymentReference ?? ""}
-                    onChange={(e) => {
-                      setPaymentReferenceById((p) => ({ ...p, [r.id]: e.target.value }));
-                    }}
-                    placeholder="e.g. EFT confirmation #"
-                    disabled={markPaidMutation.isPending}
-                  />
-                </div>
+                  <div className="md:col-span-3">
+                    <div className="text-xs text-muted-foreground mb-1">Payment Reference (optional)</div>
+                    <Input
+                      value={paymentReferenceById[r.id] ?? ""}
+                      onChange={(e) => {
+                        setPaymentReferenceById((p) => ({ ...p, [r.id]: e.target.value }));
+                      }}
+                      placeholder="e.g. EFT confirmation #"
+                      disabled={busy}
+                    />
+                  </div>
 
-                <div className="md:col-span-3">
-                  <div className="text-xs text-muted-foreground mb-1">Payment Date</div>
-                  <Input
-                    type="date"
-                    value={paymentDateById[r.id] ?? r.paymentDate ?? ""}
-                    onChange={(e) => {
-                      setPaymentDateById((p) => ({ ...p, [r.id]: e.target.value }));
-                    }}
-                    disabled={markPaidMutation.isPending}
-                  />
-                </div>
+                  <div className="md:col-span-2">
+                    <div className="text-xs text-muted-foreground mb-1">Payment Date</div>
+                    <Input
+                      type="date"
+                      value={paymentDateById[r.id] ?? ""}
+                      onChange={(e) => {
+                        setPaymentDateById((p) => ({ ...p, [r.id]: e.target.value }));
+                      }}
+                      disabled={busy}
+                    />
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <div className="text-xs text-muted-foreground mb-1">Amount</div>
+                    <Input
+                      value={paymentAmountById[r.id] ?? (balance / 100).toFixed(2)}
+                      onChange={(e) => {
+                        setPaymentAmountById((p) => ({ ...p, [r.id]: e.target.value }));
+                      }}
+                      inputMode="decimal"
+                      placeholder="0.00"
+                      disabled={busy}
+                    />
+                  </div>
 
-                <div className="md:col-span-2 flex gap-2 md:justify-end">
-                  <Button size="sm" variant="outline" asChild>
-                    <Link to={`/provider-remittances/${r.id}/print`}>Download</Link>
-                  </Button>
-                  <Button
-                    size="sm"
-                    disabled={markPaidMutation.isPending}
-                    onClick={() => {
-                      void (async () => {
-                        const method = paymentMethodById[r.id] ?? r.paymentMethod;
-                        const date = paymentDateById[r.id] ?? r.paymentDate;
-                        if (!method) return alertMissing("Payment method is required.");
-                        if (!(date ?? "").trim()) return alertMissing("Payment date is required.");
-                        if (!(await confirmProceed(`Mark remittance ${r.batchNumber} as paid?`))) return;
-                        markPaidMutation.mutate(r.id);
-                      })();
-                    }}
-                  >
-                    Mark Paid
-                  </Button>
+                  <div className="md:col-span-3 flex gap-2 md:justify-end">
+                    <Button size="sm" variant="outline" asChild>
+                      <Link to={`/provider-remittances/${r.id}/print`}>Download</Link>
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => {
+                        void (async () => {
+                          const method = paymentMethodById[r.id] ?? r.paymentMethod;
+                          const date = (paymentDateById[r.id] ?? "").trim();
+                          const cents = centsFromInput(paymentAmountById[r.id] ?? (balance / 100).toFixed(2));
+                          if (!method) return alertMissing("Payment method is required.");
+                          if (!date) return alertMissing("Payment date is required.");
+                          if (!cents) return alertMissing("Payment amount is required.");
+                          const outcome = cents >= balance ? "settles it" : `leaves ${money(balance - cents)} outstanding`;
+                          if (!(await confirmProceed(`Record ${money(cents)} against remittance ${r.batchNumber}? This ${outcome}.`))) return;
+                          recordPaymentMutation.mutate({
+                            input: {
+                              method,
+                              reference: (paymentReferenceById[r.id] ?? "").trim() || undefined,
+                              paymentDate: date,
+                              allocations: [{ batchId: r.id, amountCents: cents }],
+                            },
+                          });
+                        })();
+                      }}
+                    >
+                      Record Payment
+                    </Button>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
 
-          {markPaidMutation.isError ? (
+          {recordPaymentMutation.isError ? (
             <div className="px-6 py-6 text-sm text-destructive">
-              {markPaidMutation.error instanceof Error ? markPaidMutation.error.message : "Failed to mark paid."}
+              {recordPaymentMutation.error instanceof Error ? recordPaymentMutation.error.message : "Failed to record payment."}
             </div>
           ) : null}
 
           {listQuery.isLoading ? <div className="px-6 py-6 text-sm text-muted-foreground">Loading…</div> : null}
           {listQuery.isError ? <div className="px-6 py-6 text-sm text-destructive">Failed to load remittances.</div> : null}
-          {!listQuery.isLoading && !listQuery.isError && approved.length === 0 ? (
-            <div className="px-6 py-10 text-sm text-muted-foreground">No approved remittances yet.</div>
+          {!listQuery.isLoading && !listQuery.isError && awaiting.length === 0 ? (
+            <div className="px-6 py-10 text-sm text-muted-foreground">No remittances awaiting payment.</div>
           ) : null}
         </div>
       </div>
 
+      {awaiting.length > 1 ? (
+        <div className="mt-8 rounded-2xl border bg-card shadow-card overflow-hidden">
+          <div className="px-6 py-4 border-b">
+            <div className="font-semibold">One Payment, Several Remittances</div>
+            <div className="text-sm text-muted-foreground mt-1">
+              Spread a single cheque or transfer across remittances. The oldest approval is settled first.
+            </div>
+          </div>
+
+          <div className="px-6 py-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+              <div className="md:col-span-3">
+                <div className="text-xs text-muted-foreground mb-1">Payment Method</div>
+                <select
+                  className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                  value={splitMethod ?? ""}
+                  onChange={(e) => {
+                    const v = (e.target.value ?? "").toString().trim();
+                    setSplitMethod(v ? (v as PaymentMethod) : undefined);
+                  }}
+                  disabled={busy}
+                >
+                  <option value="">Select</option>
+                  <option value="EFT">EFT</option>
+                  <option value="CHEQUE">Cheque</option>
+                </select>
+              </div>
+              <div className="md:col-span-3">
+                <div className="text-xs text-muted-foreground mb-1">Payment Reference (optional)</div>
+                <Input value={splitReference} onChange={(e) => setSplitReference(e.target.value)} placeholder="e.g. cheque #" disabled={busy} />
+              </div>
+              <div className="md:col-span-3">
+                <div className="text-xs text-muted-foreground mb-1">Payment Date</div>
+                <Input type="date" value={splitDate} onChange={(e) => setSplitDate(e.target.value)} disabled={busy} />
+              </div>
+              <div className="md:col-span-3">
+                <div className="text-xs text-muted-foreground mb-1">Amount</div>
+                <Input value={splitAmount} onChange={(e) => setSplitAmount(e.target.value)} inputMode="decimal" placeholder="0.00" disabled={busy} />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              {awaiting.map((r) => {
+                const checked = splitBatchIds.includes(r.id);
+                const allocated = splitAllocation.allocations.find((a) => a.batchId === r.id)?.amountCents ?? 0;
+                return (
+                  <label key={r.id} className="flex items-center justify-between gap-3 text-sm rounded-md border px-3 py-2">
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        disabled={busy}
+                        onChange={(e) =>
+                          setSplitBatchIds((ids) => (e.target.checked ? [...ids, r.id] : ids.filter((id) => id !== r.id)))
+                        }
+                      />
+                      {r.batchNumber}
+                      <span className="text-xs text-muted-foreground">{money(remittanceBalanceCents(r))} outstanding</span>
+                    </span>
+                    <span className={checked && allocated > 0 ? "font-medium" : "text-muted-foreground"}>{checked ? money(allocated) : "—"}</span>
+                  </label>
+                );
+              })}
+            </div>
+
+            {splitAllocation.unallocatedCents > 0 ? (
+              <div className="text-xs text-destructive">
+                {money(splitAllocation.unallocatedCents)} is more than the selected remittances owe. Select more remittances or lower the amount.
+              </div>
+            ) : null}
+
+            <div className="flex justify-end">
+              <Button
+                disabled={busy || splitAllocation.allocations.length === 0 || splitAllocation.unallocatedCents > 0}
+                onClick={() => {
+                  void (async () => {
+                    if (!splitMethod) return alertMissing("Payment method is required.");
+                    if (!splitDate.trim()) return alertMissing("Payment date is required.");
+                    if (!splitCents) return alertMissing("Payment amount is required.");
+                    const count = splitAllocation.allocations.length;
+                    if (!(await confirmProceed(`Record ${money(splitCents)} across ${count} remittance(s)?`))) return;
+                    recordPaymentMutation.mutate({
+                      input: {
+                        method: splitMethod,
+                        reference: splitReference.trim() || undefined,
+                        paymentDate: splitDate.trim(),
+                        allocations: splitAllocation.allocations,
+                      },
+                      split: true,
+                    });
+                  })();
+                }}
+              >
+                Record Payment
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+
       <div className="mt-8 rounded-2xl border bg-card shadow-card overflow-hidden">
         <div className="px-6 py-4 border-b">
           <div className="font-semibold">Paid</div>
@@ -210,6 +401,8 @@ export function ProviderRemittancesPage() {
                 <div>
                   <div className="text-sm font-medium text-foreground">Remittance {r.batchNumber}</div>
                   <div className="text-xs text-muted-foreground mt-1">Paid {new Date(r.paidAt ?? r.createdAt).toLocaleDateString()}</div>
+                  <DepositEvidence deposit={depositByBatchId.get(r.id)} />
+                  <PaymentLedger payments={paymentsForBatch(paymentsQuery.data ?? [], r.id)} />
                 </div>
                 <div className="flex items-center gap-2">
                   <div className="text-sm font-medium">{money(r.totalCents)}</div>
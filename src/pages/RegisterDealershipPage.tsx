@@ -6,6 +6,7 @@ import { Shield } from "lucide-react";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { getAuthApi } from "../lib/auth/auth";
+import { onboardingItemDefinitions, regulatorForProvince } from "../lib/onboarding/checklist";
 import type { Role } from "../lib/auth/types";
 import { useAuth } from "../providers/AuthProvider";
 
@@ -67,7 +68,7 @@ export function RegisterDealershipPage() {
     }
 
     if (target >= 2) {
-      if (!oc) return "OMVIC Dealer Certificate is required";
+      if (!oc) return `${regulatorForProvince(pr)} Dealer Certificate is required`;
       if (!hst) return "Tax Number (HST) is required";
     }
 
@@ -331,13 +332,13 @@ export function RegisterDealershipPage() {
                   <div className="space-y-4">
                     <div className="space-y-2">
                       <label className="text-sm font-medium" htmlFor="omvicCertificate">
-                        OMVIC Dealer Certificate
+                        {regulatorForProvince(province)} Dealer Certificate
                       </label>
                       <Input
                         id="omvicCertificate"
                         value={omvicCertificate}
                         onChange={(e) => setOmvicCertificate(e.target.value)}
-                        placeholder="OMVIC certificate #"
+                        placeholder={`${regulatorForProvince(province)} certificate #`}
                         required
                       />
                     </div>
@@ -354,6 +355,16 @@ export function RegisterDealershipPage() {
                         required
                       />
                     </div>
+
+                    <div className="rounded-lg border bg-muted/40 p-3">
+                      <div className="text-xs font-medium">After you sign up we&apos;ll ask you to upload:</div>
+                      <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                        {onboardingItemDefinitions(province).map((d) => (
+                          <li key={d.key}>• {d.label}</li>
+                        ))}
+                      </ul>
+                      <div className="mt-2 text-[11px] text-muted-foreground">You can track verification progress while your application is reviewed.</div>
+                    </div>
                   </div>
                 ) : null}
 
@@ -1,10 +1,13 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
 
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
 import { getBatchesApi } from "../lib/batches/batches";
+import { isAwaitingPayment, remittanceBalanceCents } from "../lib/batches/payments";
 import type { Batch, RemittanceWorkflowStatus } from "../lib/batches/types";
+import { remittanceWorkflowStatus } from "../lib/batches/workflow";
 import { alertMissing, confirmProceed } from "../lib/utils";
 import { useAuth } from "../providers/AuthProvider";
 
@@ -12,32 +15,28 @@ export function RemittancesPage({ title }: { title: string }) {
   const api = useMemo(() => getBatchesApi(), []);
   const qc = useQueryClient();
   const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  // Deep links (e.g. from the support inbox) highlight one remittance.
+  const highlightId = searchParams.get("batch") ?? "";
 
   const listQuery = useQuery({
     queryKey: ["batches"],
     queryFn: () => api.list(),
   });
 
+  useEffect(() => {
+    if (!listQuery.data || !highlightId) return;
+    document.getElementById(`remittance-${highlightId}`)?.scrollIntoView({ block: "center" });
+  }, [listQuery.data, highlightId]);
+
+  const rowClass = (id: string, base: string) => (id === highlightId ? `${base} bg-amber-50` : base);
+
   const [adminNotesById, setAdminNotesById] = useState<Record<string, string>>({});
   const [rejectionReasonById, setRejectionReasonById] = useState<Record<string, string>>({});
 
   const approveMutation = useMutation({
     mutationFn: async (batchId: string) => {
-      const all = (await api.list()) as Batch[];
-      const b = all.find((x) => x.id === batchId);
-      if (!b) throw new Error("Remittance not found");
-      const workflow = (b.remittanceStatus ?? (b.status === "CLOSED" ? "SUBMITTED" : "DRAFT")) as RemittanceWorkflowStatus;
-      if (workflow !== "SUBMITTED") throw new Error("Remittance is not awaiting review");
-
-      const now = new Date().toISOString();
-      await api.update(batchId, {
-        remittanceStatus: "APPROVED",
-        reviewedAt: now,
-        reviewedByUserId: user?.id,
-        reviewedByEmail: user?.email,
-        rejectionReason: undefined,
-        adminNotes: (adminNotesById[batchId] ?? "").trim() || undefined,
-      });
+      await api.transition(batchId, { to: "APPROVED", adminNotes: adminNotesById[batchId] }, user ?? undefined);
     },
     onSuccess: async () => {
       await qc.invalidateQueries({ queryKey: ["batches"] });
@@ -49,44 +48,25 @@ export function RemittancesPage({ title }: { title: string }) {
       const reason = (rejectionReasonById[batchId] ?? "").trim();
       if (!reason) throw new Error("Rejection reason is required");
 
-      const all = (await api.list()) as Batch[];
-      const b = all.find((x) => x.id === batchId);
-      if (!b) throw new Error("Remittance not found");
-      const workflow = (b.remittanceStatus ?? (b.status === "CLOSED" ? "SUBMITTED" : "DRAFT")) as RemittanceWorkflowStatus;
-      if (workflow !== "SUBMITTED") throw new Error("Remittance is not awaiting review");
-
-      const now = new Date().toISOString();
-      await api.update(batchId, {
-        remittanceStatus: "REJECTED",
-        reviewedAt: now,
-        reviewedByUserId: user?.id,
-        reviewedByEmail: user?.email,
-        rejectionReason: reason,
-        adminNotes: (adminNotesById[batchId] ?? "").trim() || undefined,
-      });
+      await api.transition(batchId, { to: "REJECTED", rejectionReason: reason, adminNotes: adminNotesById[batchId] }, user ?? undefined);
     },
     onSuccess: async () => {
       await qc.invalidateQueries({ queryKey: ["batches"] });
+      await qc.invalidateQueries({ queryKey: ["contracts"] });
     },
   });
 
   const allBatches = (listQuery.data ?? []) as Batch[];
   const remittances = allBatches.filter((b) => Array.isArray(b.contractIds) && b.contractIds.length > 0);
 
-  const derivedWorkflow = (b: Batch): RemittanceWorkflowStatus => {
-    const s = b.remittanceStatus;
-    if (s) return s;
-    if (b.paymentStatus === "PAID") return "PAID";
-    if (b.status === "CLOSED") return "SUBMITTED";
-    return "DRAFT";
-  };
-
-  const awaitingReview = remittances.filter((r) => derivedWorkflow(r) === "SUBMITTED");
-  const approved = remittances.filter((r) => derivedWorkflow(r) === "APPROVED");
-  const rejected = remittances.filter((r) => derivedWorkflow(r) === "REJECTED");
-  const paid = remittances.filter((r) => derivedWorkflow(r) === "PAID");
+  const awaitingReview = remittances.filter((r) => remittanceWorkflowStatus(r) === "SUBMITTED");
+  // Approved remittances stay here, partially paid, until their balance is settled.
+  const approved = remittances.filter(isAwaitingPayment);
+  const rejected = remittances.filter((r) => remittanceWorkflowStatus(r) === "REJECTED");
+  const paid = remittances.filter((r) => remittanceWorkflowStatus(r) === "PAID");
 
   const statusBadge = (status: RemittanceWorkflowStatus) => {
+    if (status === "PARTIALLY_PAID") return "inline-flex items-center text-xs px-2 py-1 rounded-md border bg-violet-50 text-violet-700 border-violet-200";
     if (status === "PAID") return "inline-flex items-center text-xs px-2 py-1 rounded-md border bg-emerald-50 text-emerald-700 border-emerald-200";
     if (status === "APPROVED") return "inline-flex items-center text-xs px-2 py-1 rounded-md border bg-sky-50 text-sky-800 border-sky-200";
     if (status === "REJECTED") return "inline-flex items-center text-xs px-2 py-1 rounded-md border bg-rose-50 text-rose-700 border-rose-200";
@@ -112,7 +92,7 @@ export function RemittancesPage({ title }: { title: string }) {
         </div>
         <div className="divide-y">
           {awaitingReview.map((r) => (
-            <div key={r.id} className="px-4 py-4">
+            <div key={r.id} id={`remittance-${r.id}`} className={rowClass(r.id, "px-4 py-4")}>
               <div className="flex items-start justify-between gap-4 flex-wrap">
                 <div>
                   <div className="text-sm font-medium">Remittance {r.batchNumber}</div>
@@ -212,13 +192,20 @@ export function RemittancesPage({ title }: { title: string }) {
           </div>
           <div className="divide-y">
             {approved.map((r) => (
-              <div key={r.id} className="px-4 py-3 text-sm">
+              <div key={r.id} id={`remittance-${r.id}`} className={rowClass(r.id, "px-4 py-3 text-sm")}>
                 <div className="flex items-start justify-between gap-3">
                   <div>
                     <div className="font-medium">{r.batchNumber}</div>
-                    <div className="text-xs text-muted-foreground mt-1">Total ${(r.totalCents / 100).toFixed(2)}</div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Total ${(r.totalCents / 100).toFixed(2)}
+                      {r.paidCents > 0 ? ` • Balance $${(remittanceBalanceCents(r) / 100).toFixed(2)}` : ""}
+                    </div>
                   </div>
-                  <span className={statusBadge("APPROVED")}>Approved</span>
+                  {remittanceWorkflowStatus(r) === "PARTIALLY_PAID" ? (
+                    <span className={statusBadge("PARTIALLY_PAID")}>Partially paid</span>
+                  ) : (
+                    <span className={statusBadge("APPROVED")}>Approved</span>
+                  )}
                 </div>
               </div>
             ))}
@@ -234,7 +221,7 @@ export function RemittancesPage({ title }: { title: string }) {
           </div>
           <div className="divide-y">
             {rejected.map((r) => (
-              <div key={r.id} className="px-4 py-3 text-sm">
+              <div key={r.id} id={`remittance-${r.id}`} className={rowClass(r.id, "px-4 py-3 text-sm")}>
                 <div className="flex items-start justify-between gap-3">
                   <div>
                     <div className="font-medium">{r.batchNumber}</div>
@@ -256,7 +243,7 @@ export function RemittancesPage({ title }: { title: string }) {
           </div>
           <div className="divide-y">
             {paid.map((r) => (
-              <div key={r.id} className="px-4 py-3 text-sm">
+              <div key={r.id} id={`remittance-${r.id}`} className={rowClass(r.id, "px-4 py-3 text-sm")}>
                 <div className="flex items-start justify-between gap-3">
                   <div>
                     <div className="font-medium">{r.batchNumber}</div>
@@ -3,8 +3,11 @@ import { useNavigate } from "react-router-dom";
 
 import { Bell, Clock, Mail, ShieldCheck } from "lucide-react";
 
+import { OnboardingChecklist } from "../components/onboarding/OnboardingChecklist";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
+import { regulatorForProvince } from "../lib/onboarding/checklist";
+import type { OnboardingItemKey } from "../lib/onboarding/types";
 import { getAppMode } from "../lib/runtime";
 import { getSupabaseClient } from "../lib/supabase/client";
 import { confirmProceed, sanitizeLettersOnly, sanitizeWordsOnly } from "../lib/utils";
@@ -52,6 +55,8 @@ export function RequestAccessPage() {
   const [loadingMyRequest, setLoadingMyRequest] = useState(false);
   const [status, setStatus] = useState<"idle" | "submitting" | "success" | "error">("idle");
   const [error, setError] = useState<string | null>(null);
+  const [onboardingProvince, setOnboardingProvince] = useState<string | null>(null);
+  const [onboardingInitialValues, setOnboardingInitialValues] = useState<Partial<Record<OnboardingItemKey, string>>>({});
 
   useEffect(() => {
     setEmail((user?.email ?? "").trim());
@@ -61,6 +66,11 @@ export function RequestAccessPage() {
     try {
       const v = localStorage.getItem(SIGNUP_INTENT_KEY);
       setSignupIntent((prev) => prev ?? v);
+      setOnboardingProvince((localStorage.getItem(SIGNUP_DEALERSHIP_PROVINCE_KEY) ?? "").trim() || null);
+      setOnboardingInitialValues({
+        REGULATOR_REGISTRATION: (localStorage.getItem(SIGNUP_DEALERSHIP_OMVIC_CERTIFICATE_KEY) ?? "").trim() || undefined,
+        BUSINESS_NUMBER: (localStorage.getItem(SIGNUP_DEALERSHIP_HST_NUMBER_KEY) ?? "").trim() || undefined,
+      });
       if (v === "DEALERSHIP") {
         setRequestType("DEALER");
         const name = (localStorage.getItem(SIGNUP_DEALERSHIP_NAME_KEY) ?? "").trim();
@@ -79,7 +89,7 @@ export function RequestAccessPage() {
             phone ? `Phone: ${phone}` : null,
             province ? `Province: ${province}` : null,
             businessLicense ? `Ontario Business License: ${businessLicense}` : null,
-            omvicCertificate ? `OMVIC Dealer Certificate: ${omvicCertificate}` : null,
+            omvicCertificate ? `${regulatorForProvince(province)} Dealer Certificate: ${omvicCertificate}` : null,
             hstNumber ? `Tax Number (HST): ${hstNumber}` : null,
           ]
             .filter(Boolean)
@@ -513,6 +523,14 @@ export function RequestAccessPage() {
                 </div>
               </div>
 
+              {user && !loadingMyRequest && myRequest?.requestType === "DEALER" && signupIntent !== "DEALER_EMPLOYEE" ? (
+                <div className="mt-6 flex justify-center">
+                  <div className="w-full max-w-2xl">
+                    <OnboardingChecklist province={onboardingProvince} initialValues={onboardingInitialValues} />
+                  </div>
+                </div>
+              ) : null}
+
               <div className="mt-6 flex justify-center">
                 <div className="w-full max-w-2xl rounded-xl border bg-white shadow-sm p-4 flex items-start gap-3">
                   <div className="h-9 w-9 rounded-lg bg-slate-100 flex items-center justify-center">
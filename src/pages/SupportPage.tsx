@@ -4,8 +4,19 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { PageShell } from "../components/PageShell";
 import { Button } from "../components/ui/button";
 import { SupportFaqs } from "../components/SupportFaqs";
+import { SupportAttachmentList } from "../components/support/SupportAttachmentList";
+import { SupportAttachmentPicker } from "../components/support/SupportAttachmentPicker";
+import { SupportReferenceCard } from "../components/support/SupportReferenceCard";
+import { SupportReferencePicker } from "../components/support/SupportReferencePicker";
 import { getAppMode } from "../lib/runtime";
 import { getSupabaseClient } from "../lib/supabase/client";
+import {
+  assertSupportAttachments,
+  groupSupportAttachments,
+  listSupportAttachments,
+  uploadSupportAttachments,
+} from "../lib/support/attachments";
+import { toSupportReference, type SupportReference } from "../lib/support/references";
 import { useAuth } from "../providers/AuthProvider";
 
 type ConversationStatus = "OPEN" | "PENDING" | "CLOSED";
@@ -28,6 +39,8 @@ type MessageRow = {
   sender_user_id: string;
   sender_type: "USER" | "ADMIN";
   body: string;
+  ref_type?: string | null;
+  ref_id?: string | null;
   created_at: string;
 };
 
@@ -52,6 +65,10 @@ export function SupportPage() {
   const { user } = useAuth();
 
   const [draft, setDraft] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [reference, setReference] = useState<SupportReference | null>(null);
+
+  const canLinkRecords = user?.role === "DEALER_ADMIN" || user?.role === "DEALER_EMPLOYEE";
 
   const getSnapshot = async (supabase: NonNullable<ReturnType<typeof getSupabaseClient>>) => {
     if (!user) throw new Error("Not authenticated");
@@ -103,7 +120,7 @@ export function SupportPage() {
 
       const { data, error } = await supabase
         .from("support_messages")
-        .select("id, conversation_id, sender_user_id, sender_type, body, created_at")
+        .select("id, conversation_id, sender_user_id, sender_type, body, ref_type, ref_id, created_at")
         .eq("conversation_id", conversationId)
         .order("created_at", { ascending: true });
 
@@ -112,6 +129,14 @@ export function SupportPage() {
     },
   });
 
+  const attachmentsQuery = useQuery({
+    queryKey: ["support-attachments", mode, conversationId],
+    enabled: mode === "supabase" && Boolean(conversationId),
+    queryFn: () => listSupportAttachments(conversationId),
+  });
+
+  const attachmentsByMessage = useMemo(() => groupSupportAttachments(attachmentsQuery.data ?? []), [attachmentsQuery.data]);
+
   const realtimeChannelRef = useRef<ReturnType<NonNullable<ReturnType<typeof getSupabaseClient>>["channel"]> | null>(null);
 
   useEffect(() => {
@@ -132,6 +157,7 @@ export function SupportPage() {
         },
         () => {
           void qc.invalidateQueries({ queryKey: ["support-messages", mode, conversationId] });
+          void qc.invalidateQueries({ queryKey: ["support-attachments", mode, conversationId] });
         },
       )
       .on(
@@ -164,7 +190,8 @@ export function SupportPage() {
       if (!user) throw new Error("Not authenticated");
 
       const text = draft.trim();
-      if (!text) throw new Error("Message is required");
+      if (!text && files.length === 0 && !reference) throw new Error("Message is required");
+      assertSupportAttachments(files);
 
       const supabase = getSupabaseClient();
       if (!supabase) throw new Error("Supabase is not configured");
@@ -210,15 +237,28 @@ export function SupportPage() {
         }
       }
 
-      const insertMsg = await supabase.from("support_messages").insert({
-        conversation_id: convId,
-        sender_user_id: user.id,
-        sender_type: "USER",
-        body: text,
-      });
+      const insertMsg = await supabase
+        .from("support_messages")
+        .insert({
+          conversation_id: convId,
+          sender_user_id: user.id,
+          sender_type: "USER",
+          body: text,
+          ref_type: reference?.type ?? null,
+          ref_id: reference?.id ?? null,
+        })
+        .select("id")
+        .single();
 
       if (insertMsg.error) throw insertMsg.error;
 
+      await uploadSupportAttachments({
+        conversationId: convId,
+        messageId: (insertMsg.data as any).id as string,
+        userId: user.id,
+        files,
+      });
+
       const now = new Date().toISOString();
       const bump = await supabase
         .from("support_conversations")
@@ -238,8 +278,11 @@ export function SupportPage() {
     },
     onSuccess: async () => {
       setDraft("");
+      setFiles([]);
+      setReference(null);
       await qc.invalidateQueries({ queryKey: ["support-conversation", mode, user?.id] });
       await qc.invalidateQueries({ queryKey: ["support-messages", mode] });
+      await qc.invalidateQueries({ queryKey: ["support-attachments", mode] });
     },
   });
 
@@ -278,6 +321,7 @@ export function SupportPage() {
           <div className="space-y-3 mt-4">
             {(messagesQuery.data ?? []).map((m) => {
               const mine = m.sender_type === "USER";
+              const ref = toSupportReference(m.ref_type, m.ref_id);
               return (
                 <div key={m.id} className={mine ? "flex justify-end" : "flex justify-start"}>
                   <div
@@ -290,7 +334,9 @@ export function SupportPage() {
                     <div className={mine ? "text-primary-foreground/90 text-xs" : "text-muted-foreground text-xs"}>
                       {mine ? "You" : "Support"} • {new Date(m.created_at).toLocaleString()}
                     </div>
-                    <div className="mt-1 whitespace-pre-wrap break-words">{m.body}</div>
+                    {m.body ? <div className="mt-1 whitespace-pre-wrap break-words">{m.body}</div> : null}
+                    {ref ? <SupportReferenceCard reference={ref} audience="dealer" /> : null}
+                    <SupportAttachmentList attachments={attachmentsByMessage.get(m.id) ?? []} inverted={mine} />
                   </div>
                 </div>
               );
@@ -309,6 +355,15 @@ export function SupportPage() {
               placeholder="Describe your issue or question…"
               disabled={busy || mode !== "supabase"}
             />
+            {canLinkRecords ? (
+              <SupportReferencePicker
+                value={reference}
+                onChange={setReference}
+                disabled={busy || mode !== "supabase"}
+                enabled={mode === "supabase"}
+              />
+            ) : null}
+            <SupportAttachmentPicker files={files} onChange={setFiles} disabled={busy || mode !== "supabase"} />
             <div className="flex justify-end">
               <Button
                 disabled={busy || mode !== "supabase"}
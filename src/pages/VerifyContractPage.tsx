@@ -0,0 +1,109 @@
+import { useMemo } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { CheckCircle2, Shield, XCircle } from "lucide-react";
+
+import { BRAND } from "../lib/brand";
+import { getContractVerificationApi } from "../lib/verification/verification";
+import type { VerificationStatus } from "../lib/verification/types";
+
+const STATUS_STYLES: Record<VerificationStatus, { label: string; className: string }> = {
+  ACTIVE: { label: "Active", className: "bg-emerald-100 text-emerald-800" },
+  EXPIRED: { label: "Expired", className: "bg-slate-200 text-slate-700" },
+  CANCELLED: { label: "Cancelled", className: "bg-red-100 text-red-800" },
+};
+
+function Field(props: { label: string; value: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-[11px] uppercase tracking-wide text-slate-500">{props.label}</div>
+      <div className="mt-0.5 text-sm font-medium text-slate-900 break-all">{props.value}</div>
+    </div>
+  );
+}
+
+// Public landing page for the QR code on printed contracts. The signature is checked in the
+// browser against the published key, so no account or database lookup is involved.
+export function VerifyContractPage() {
+  const api = useMemo(() => getContractVerificationApi(), []);
+  const location = useLocation();
+  const token = decodeURIComponent(location.hash.replace(/^#/, "")).trim();
+
+  const verifyQuery = useQuery({
+    queryKey: ["contract-verification", token],
+    enabled: Boolean(token),
+    queryFn: () => api.verify(token),
+    retry: false,
+  });
+
+  const result = verifyQuery.data;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <header className="border-b bg-white">
+        <div className="mx-auto flex max-w-2xl items-center gap-2 px-4 py-4">
+          <Shield className="h-5 w-5 text-primary" />
+          <Link to="/find-insurance" className="font-display text-lg font-semibold">
+            {BRAND.name}
+          </Link>
+          <span className="text-sm text-muted-foreground">• Contract verification</span>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-2xl px-4 py-8">
+        <div className="rounded-xl border bg-white p-6">
+          {!token ? (
+            <div className="text-sm text-muted-foreground">Scan the QR code printed on a {BRAND.name} contract to verify it.</div>
+          ) : verifyQuery.isLoading ? (
+            <div className="text-sm text-muted-foreground">Checking signature…</div>
+          ) : verifyQuery.isError ? (
+            <div className="text-sm text-destructive">{verifyQuery.error instanceof Error ? verifyQuery.error.message : "Verification failed"}</div>
+          ) : result && !result.valid ? (
+            <div className="flex items-start gap-3">
+              <XCircle className="h-6 w-6 shrink-0 text-red-600" />
+              <div>
+                <div className="font-semibold text-red-700">Not a genuine contract</div>
+                <div className="mt-1 text-sm text-slate-600">{result.reason}</div>
+              </div>
+            </div>
+          ) : result && result.valid ? (
+            <div className="space-y-5">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="flex items-start gap-3">
+                  <CheckCircle2 className="h-6 w-6 shrink-0 text-emerald-600" />
+                  <div>
+                    <div className="font-semibold text-emerald-700">Genuine {BRAND.name} contract</div>
+                    <div className="mt-1 text-sm text-slate-600">The signature matches. Details below are as printed on {result.payload.issuedAt}.</div>
+                  </div>
+                </div>
+                <span className={`rounded-full px-3 py-1 text-xs font-semibold ${STATUS_STYLES[result.status].className}`}>
+                  {STATUS_STYLES[result.status].label}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <Field label="Warranty ID" value={<span className="font-mono">{result.payload.warrantyId}</span>} />
+                <Field label="Contract #" value={result.payload.contractNumber || "—"} />
+                <Field label="Product" value={result.payload.productName || "—"} />
+                <Field label="VIN" value={<span className="font-mono">{result.payload.vin || "—"}</span>} />
+                <Field label="Coverage started" value={result.payload.startDate} />
+                <Field label="Coverage ends" value={result.payload.termEndDate ?? "No end date"} />
+                <Field label="Term (months)" value={result.payload.termMonths ?? "Unlimited"} />
+                <Field label="Term (km)" value={typeof result.payload.termKm === "number" ? result.payload.termKm.toLocaleString() : "Unlimited"} />
+              </div>
+
+              <div className="rounded-lg bg-slate-50 p-3 text-xs text-slate-600">
+                Compare the VIN with the vehicle. A cancellation after {result.payload.issuedAt} is not reflected on this printed copy; the customer can confirm current
+                status at{" "}
+                <Link to={`/my-warranty?id=${encodeURIComponent(result.payload.warrantyId)}`} className="text-primary underline underline-offset-4">
+                  My warranty
+                </Link>
+                .
+              </div>
+            </div>
+          ) : null}
+        </div>
+      </main>
+    </div>
+  );
+}
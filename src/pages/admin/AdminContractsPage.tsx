@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import DashboardLayout, { adminNavItems } from "../../components/dashboard/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../components/ui/table";
@@ -38,6 +39,9 @@ function StatusBadge({ status }: { status: string | null }) {
 export default function AdminContractsPage() {
   const [contracts, setContracts] = useState<Contract[]>([]);
   const [loading, setLoading] = useState(true);
+  const [searchParams] = useSearchParams();
+  // Deep links (e.g. from the support inbox) highlight one contract.
+  const highlightId = searchParams.get("contract") ?? "";
 
   useEffect(() => {
     const fetch = async () => {
@@ -51,6 +55,11 @@ export default function AdminContractsPage() {
     fetch();
   }, []);
 
+  useEffect(() => {
+    if (loading || !highlightId) return;
+    document.getElementById(`contract-${highlightId}`)?.scrollIntoView({ block: "center" });
+  }, [loading, highlightId]);
+
   return (
     <DashboardLayout navItems={adminNavItems} title="Contracts">
       <Card>
@@ -80,7 +89,7 @@ export default function AdminContractsPage() {
                   const customerName = [c.customer_first_name, c.customer_last_name].filter(Boolean).join(" ") || "—";
                   const vehicle = [c.vehicle_year, c.vehicle_make, c.vehicle_model].filter(Boolean).join(" ") || "—";
                   return (
-                    <TableRow key={c.id}>
+                    <TableRow key={c.id} id={`contract-${c.id}`} className={c.id === highlightId ? "bg-amber-50" : undefined}>
                       <TableCell className="font-medium">{customerName}</TableCell>
                       <TableCell className="text-sm text-muted-foreground">{vehicle}</TableCell>
                       <TableCell className="text-sm">
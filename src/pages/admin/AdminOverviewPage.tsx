@@ -1,5 +1,6 @@
 import { useEffect, useState } from "react";
 import DashboardLayout, { adminNavItems } from "../../components/dashboard/DashboardLayout";
+import { RemittanceAgingReport } from "../../components/remittances/RemittanceAgingReport";
 import { Card, CardContent } from "../../components/ui/card";
 import { supabase } from "../../integrations/supabase/client";
 import { Building2, Shield, FileText, Clock, AlertCircle } from "lucide-react";
@@ -79,6 +80,8 @@ export default function AdminOverviewPage() {
             ))}
           </div>
         )}
+
+        <RemittanceAgingReport canRunSweep />
       </div>
     </DashboardLayout>
   );
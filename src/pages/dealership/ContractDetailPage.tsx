@@ -5,10 +5,13 @@ import { Badge } from "../../components/ui/badge";
 import { Button } from "../../components/ui/button";
 import { useToast } from "../../hooks/use-toast";
 import { supabase } from "../../integrations/supabase/client";
+import { CONTRACT_WITH_DEALER_COST_SELECT, withDealerCost } from "../../lib/contracts/dealerCost";
 import { BRAND } from "../../lib/brand";
+import { hasPermission } from "../../lib/permissions/catalog";
 import { cn } from "../../lib/utils";
 import { ArrowLeft, Printer, Loader2, FileText } from "lucide-react";
 import { format } from "date-fns";
+import { useAuth } from "../../providers/AuthProvider";
 
 interface ContractRow {
   id: string;
@@ -84,6 +87,8 @@ export default function ContractDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const canSeeCost = hasPermission(user, "pricing.view_cost");
 
   const [contract, setContract] = useState<ContractRow | null>(null);
   const [product, setProduct] = useState<any>(null);
@@ -97,7 +102,7 @@ export default function ContractDetailPage() {
     (async () => {
       const { data: c, error } = await supabase
         .from("contracts")
-        .select("*")
+        .select(CONTRACT_WITH_DEALER_COST_SELECT)
         .eq("id", id)
         .maybeSingle();
 
@@ -106,7 +111,7 @@ export default function ContractDetailPage() {
         navigate("/dealership/contracts");
         return;
       }
-      setContract(c as ContractRow);
+      setContract(withDealerCost(c) as ContractRow);
 
       // Load product
       if (c.product_id) {
@@ -337,14 +342,14 @@ export default function ContractDetailPage() {
                         <span className="font-semibold">+${addonRetailDollars.toLocaleString()}</span>
                       </div>
                     )}
-                    {(baseDealerDollars != null || addonCostDollars != null || contract.dealer_cost_dollars != null) && (
+                    {canSeeCost && (baseDealerDollars != null || addonCostDollars != null || contract.dealer_cost_dollars != null) && (
                       <div className="flex justify-between text-xs text-muted-foreground border-t pt-2">
                         <span>Dealer Cost</span>
                         <span>${Number(contract.dealer_cost_dollars ?? ((baseDealerDollars || 0) + (addonCostDollars || 0))).toLocaleString()}</span>
                       </div>
                     )}
                   </>
-                ) : contract.dealer_cost_dollars != null && contract.dealer_cost_dollars > 0 ? (
+                ) : canSeeCost && contract.dealer_cost_dollars != null && contract.dealer_cost_dollars > 0 ? (
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Dealer Cost</span>
                     <span className="font-semibold">${Number(contract.dealer_cost_dollars).toLocaleString()}</span>
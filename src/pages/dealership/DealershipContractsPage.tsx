@@ -7,6 +7,7 @@ import { Input } from "../../components/ui/input";
 import { Tabs, TabsList, TabsTrigger } from "../../components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../components/ui/table";
 import { supabase } from "../../integrations/supabase/client";
+import { CONTRACT_WITH_DEALER_COST_SELECT, withDealerCost } from "../../lib/contracts/dealerCost";
 import { useDealership } from "../../hooks/useDealership";
 import { useAuth } from "../../providers/AuthProvider";
 import { Search, Plus, Eye } from "lucide-react";
@@ -57,11 +58,11 @@ export default function DealershipContractsPage() {
     const fetchData = async () => {
       const { data } = await supabase
         .from("contracts")
-        .select("*")
+        .select(CONTRACT_WITH_DEALER_COST_SELECT)
         .eq("dealership_id", dealershipId)
         .order("created_at", { ascending: false });
 
-      const contractData = (data as Contract[]) || [];
+      const contractData = ((data ?? []).map(withDealerCost) as Contract[]);
       setContracts(contractData);
       const productIds = [...new Set(contractData.map((c) => c.product_id))];
       if (productIds.length) {
@@ -6,6 +6,7 @@ import { Badge } from "../../components/ui/badge";
 import { useDealership } from "../../hooks/useDealership";
 import { useAuth } from "../../providers/AuthProvider";
 import { supabase } from "../../integrations/supabase/client";
+import { withDealerCost } from "../../lib/contracts/dealerCost";
 import { Link } from "react-router-dom";
 import {
   AlertCircle, FileText, Users, DollarSign, TrendingUp, Search, BarChart3,
@@ -37,10 +38,11 @@ export default function DealershipOverviewPage() {
     }
 
     const fetchData = async () => {
-      const { data: contracts } = await supabase
+      const { data: costRows } = await supabase
         .from("contracts")
-        .select("id, status, status_new, contract_price, dealer_cost_dollars, created_at, product_id")
+        .select("id, status, status_new, contract_price, contract_dealer_costs(dealer_cost_dollars), created_at, product_id")
         .eq("dealership_id", dealershipId);
+      const contracts = costRows?.map(withDealerCost);
 
       if (contracts && contracts.length > 0) {
         const total = contracts.length;
@@ -7,10 +7,13 @@ import { Tabs, TabsList, TabsTrigger } from "../../components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../components/ui/table";
 import { Checkbox } from "../../components/ui/checkbox";
 import { supabase } from "../../integrations/supabase/client";
+import { withDealerCost } from "../../lib/contracts/dealerCost";
 import { useDealership } from "../../hooks/useDealership";
 import { format } from "date-fns";
 import { Send } from "lucide-react";
 import { useToast } from "../../hooks/use-toast";
+import { hasPermission } from "../../lib/permissions/catalog";
+import { useAuth } from "../../providers/AuthProvider";
 
 interface SoldContract {
   id: string;
@@ -46,6 +49,9 @@ const TABS = ["all", "pending", "submitted", "approved", "paid"];
 export default function DealershipRemittancesPage() {
   const { dealershipId, loading: dLoading } = useDealership();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const canSeeCost = hasPermission(user, "pricing.view_cost");
+  const canSubmit = hasPermission(user, "remittances.submit");
   const [soldContracts, setSoldContracts] = useState<SoldContract[]>([]);
   const [remittances, setRemittances] = useState<Remittance[]>([]);
   const [selected, setSelected] = useState<string[]>([]);
@@ -58,7 +64,7 @@ export default function DealershipRemittancesPage() {
     const fetchData = async () => {
       const { data: contracts } = await supabase
         .from("contracts")
-        .select("id, customer_first_name, customer_last_name, contract_price, dealer_cost_dollars, product_id, provider_entity_id, created_at")
+        .select("id, customer_first_name, customer_last_name, contract_price, contract_dealer_costs(dealer_cost_dollars), product_id, provider_entity_id, created_at")
         .eq("dealership_id", dealershipId)
         .eq("status_new", "submitted");
 
@@ -68,7 +74,7 @@ export default function DealershipRemittancesPage() {
         .order("created_at", { ascending: false });
 
       const remittedContractIds = new Set((rems || []).map((r: any) => r.contract_id));
-      const unremitted = (contracts || []).filter((c: any) => !remittedContractIds.has(c.id));
+      const unremitted = (contracts || []).map((c) => withDealerCost(c) as SoldContract).filter((c: any) => !remittedContractIds.has(c.id));
 
       setSoldContracts(unremitted);
       setRemittances((rems || []) as Remittance[]);
@@ -137,10 +143,10 @@ export default function DealershipRemittancesPage() {
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle className="text-base">Ready to Remit</CardTitle>
-              {selected.length > 0 && (
+              {canSubmit && selected.length > 0 && (
                 <Button size="sm" onClick={handleSubmitRemittance}>
                   <Send className="w-4 h-4 mr-1" />
-                  Submit {selected.length} — ${selectedTotal.toLocaleString()}
+                  Submit {selected.length}{canSeeCost ? ` — $${selectedTotal.toLocaleString()}` : ""}
                 </Button>
               )}
             </div>
@@ -155,7 +161,7 @@ export default function DealershipRemittancesPage() {
                     <TableHead className="w-10" />
                     <TableHead>Customer</TableHead>
                     <TableHead>Contract Price</TableHead>
-                    <TableHead>Dealer Cost</TableHead>
+                    {canSeeCost && <TableHead>Dealer Cost</TableHead>}
                     <TableHead>Date</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -167,7 +173,7 @@ export default function DealershipRemittancesPage() {
                       </TableCell>
                       <TableCell className="font-medium">{c.customer_first_name} {c.customer_last_name}</TableCell>
                       <TableCell>${Number(c.contract_price || 0).toLocaleString()}</TableCell>
-                      <TableCell>${Number(c.dealer_cost_dollars || 0).toLocaleString()}</TableCell>
+                      {canSeeCost && <TableCell>${Number(c.dealer_cost_dollars || 0).toLocaleString()}</TableCell>}
                       <TableCell className="text-sm text-muted-foreground">
                         {format(new Date(c.created_at), "MMM d, yyyy")}
                       </TableCell>
@@ -199,7 +205,7 @@ export default function DealershipRemittancesPage() {
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Amount</TableHead>
+                      {canSeeCost && <TableHead>Amount</TableHead>}
                       <TableHead>Status</TableHead>
                       <TableHead>Due Date</TableHead>
                       <TableHead>Paid Date</TableHead>
@@ -209,7 +215,7 @@ export default function DealershipRemittancesPage() {
                   <TableBody>
                     {filteredRemittances.map((r) => (
                       <TableRow key={r.id}>
-                        <TableCell className="font-medium">${r.amount.toLocaleString()}</TableCell>
+                        {canSeeCost && <TableCell className="font-medium">${r.amount.toLocaleString()}</TableCell>}
                         <TableCell>
                           <Badge className={statusColors[r.status] || ""} variant="secondary">{r.status}</Badge>
                         </TableCell>
@@ -12,11 +12,24 @@ import { cn } from "../../lib/utils";
 import { buildBasePricingRows, resolveCustomerRetailNumber } from "../../lib/pricing/dealerPricing";
 import { compareProductsByConfiguredOrder } from "../../lib/products/defaultProductOrder";
 import { PRODUCT_TYPE_FILTERS, matchesProductTypeFilter } from "../../lib/products/productTypeFilters";
+import { parseVehicleClassMap, resolveVehicleClass, vehicleClassCode } from "../../lib/products/vehicleClass";
+import {
+  VEHICLE_POWERTRAIN_LABELS,
+  describeEligibilityRules,
+  eligibilityRulesFromJson,
+  evaluateEligibility,
+  type EligibilityResult,
+  type VehiclePowertrain,
+} from "../../lib/products/eligibility";
+import { EligibilityChecks } from "../../components/EligibilityChecks";
+import { decodeVin } from "../../lib/vin/decodeVin";
 
 interface VehicleInfo {
   year: number | null;
   make: string | null;
   model: string | null;
+  trim?: string | null;
+  powertrain?: VehiclePowertrain | null;
   bodyClass?: string | null;
   vehicleType?: string | null;
   warning?: string;
@@ -33,6 +46,8 @@ interface Product {
   pricing_json: any;
   coverage_details_json: any;
   eligibility_rules: any;
+  powertrain_eligibility?: string | null;
+  vehicle_class_map: any;
 }
 
 // ─── helpers ────────────────────────────────────────────────────────────────
@@ -64,46 +79,23 @@ const getUniqueTierNames = (pricing: any): string[] => {
 };
 
 /**
- * Returns true if the product's eligibility_rules are satisfied by the decoded vehicle.
- * If no eligibility rules are set, the product is eligible for all vehicles.
+ * Runs the product's eligibility_rules and powertrain restriction against the decoded vehicle.
+ * Returns null until a vehicle has been decoded, so every product is shown.
  */
-function isEligible(eligibilityRules: any, vehicle: VehicleInfo | null, mileageKm: number | null): boolean {
-  if (!vehicle) return true; // no vehicle decoded yet — show all
-  if (!eligibilityRules || Object.keys(eligibilityRules).length === 0) return true;
-
-  // Max age check (vehicle year)
-  if (eligibilityRules.maxAge && vehicle.year) {
-    const currentYear = new Date().getFullYear();
-    const vehicleAge = currentYear - vehicle.year;
-    const maxAge = parseInt(eligibilityRules.maxAge, 10);
-    if (!isNaN(maxAge) && vehicleAge > maxAge) return false;
-  }
-
-  // Max mileage check
-  if (eligibilityRules.maxMileage && mileageKm !== null) {
-    const maxMileage = parseInt(String(eligibilityRules.maxMileage).replace(/[^0-9]/g, ""), 10);
-    if (!isNaN(maxMileage) && mileageKm > maxMileage) return false;
-  }
-
-  // Make restriction
-  if (eligibilityRules.makes && Array.isArray(eligibilityRules.makes) && eligibilityRules.makes.length > 0) {
-    if (vehicle.make) {
-      const makeLower = vehicle.make.toLowerCase();
-      const allowed = eligibilityRules.makes.map((m: string) => m.toLowerCase());
-      if (!allowed.some((a: string) => makeLower.includes(a) || a.includes(makeLower))) return false;
-    }
-  }
-
-  // Model restriction
-  if (eligibilityRules.models && Array.isArray(eligibilityRules.models) && eligibilityRules.models.length > 0) {
-    if (vehicle.model) {
-      const modelLower = vehicle.model.toLowerCase();
-      const allowed = eligibilityRules.models.map((m: string) => m.toLowerCase());
-      if (!allowed.some((a: string) => modelLower.includes(a) || a.includes(modelLower))) return false;
-    }
-  }
-
-  return true;
+function checkEligibility(
+  product: Pick<Product, "eligibility_rules" | "powertrain_eligibility">,
+  vehicle: VehicleInfo | null,
+  deal: { mileageKm: number | null; loanAmountCents: number | null; vehicleValueCents: number | null },
+): EligibilityResult | null {
+  if (!vehicle) return null;
+  return evaluateEligibility(eligibilityRulesFromJson(product.eligibility_rules, product.powertrain_eligibility), {
+    year: vehicle.year,
+    make: vehicle.make,
+    model: vehicle.model,
+    trim: vehicle.trim,
+    powertrain: vehicle.powertrain,
+    ...deal,
+  });
 }
 
 // ─── component ──────────────────────────────────────────────────────────────
@@ -114,6 +106,8 @@ export default function FindProductsPage() {
   const [vin, setVin] = useState("");
   const [mileage, setMileage] = useState("");
   const [loanAmount, setLoanAmount] = useState("");
+  const [vehicleValue, setVehicleValue] = useState("");
+  const [showIneligible, setShowIneligible] = useState(false);
   const [vehicleInfo, setVehicleInfo] = useState<VehicleInfo | null>(null);
   const [vinLoading, setVinLoading] = useState(false);
   const [vinError, setVinError] = useState<string | null>(null);
@@ -132,7 +126,7 @@ export default function FindProductsPage() {
       try {
         const { data: prods, error } = await supabase
           .from("products")
-          .select("id, name, product_type, published, provider_entity_id, provider_id, pricing_json, coverage_details_json, eligibility_rules")
+          .select("id, name, product_type, published, provider_entity_id, provider_id, pricing_json, coverage_details_json, eligibility_rules, powertrain_eligibility, vehicle_class_map")
           .eq("published", true)
           .order("name");
 
@@ -207,7 +201,7 @@ export default function FindProductsPage() {
     })();
   }, [dealershipId]);
 
-  // ── VIN decode via real edge function ─────────────────────────────────
+  // ── VIN decode: offline check digit + WMI, enriched from vPIC when online ──
   const handleDecode = async () => {
     if (vin.length !== 17) return;
     setVinLoading(true);
@@ -215,39 +209,19 @@ export default function FindProductsPage() {
     setVehicleInfo(null);
 
     try {
-      const url = `https://vpic.nhtsa.dot.gov/api/vehicles/DecodeVinValues/${encodeURIComponent(vin)}?format=json`;
-      const res = await fetch(url);
-
-      if (!res.ok) {
-        setVinError("Could not reach VIN decode service. Try again.");
-        return;
-      }
-
-      const data = await res.json();
-      const r = data.Results?.[0];
-
-      if (!r || (!r.Make && !r.ModelYear && !r.Model)) {
-        setVinError("Could not decode this VIN. Check the number and try again.");
-        return;
-      }
-
-      const hasMakeModel = (r.Make && r.Make.trim()) || (r.Model && r.Model.trim());
-      const warningMsg = r.ErrorCode === "0"
-        ? undefined
-        : hasMakeModel
-          ? "Some VIN details couldn't be verified, but year/make/model were decoded successfully."
-          : (r.ErrorText || "Partial decode — some details may be incomplete.");
-
+      const d = await decodeVin(vin);
       setVehicleInfo({
-        year: r.ModelYear ? parseInt(r.ModelYear) : null,
-        make: r.Make || null,
-        model: r.Model || null,
-        bodyClass: r.BodyClass || null,
-        vehicleType: r.VehicleType || null,
-        warning: warningMsg,
+        year: d.vehicleYear ? parseInt(d.vehicleYear) : null,
+        make: d.vehicleMake ?? null,
+        model: d.vehicleModel ?? null,
+        trim: d.vehicleTrim ?? null,
+        powertrain: d.powertrainType ?? null,
+        bodyClass: d.vehicleBodyClass ?? null,
+        vehicleType: d.vehicleType ?? null,
+        warning: d.decodeWarning,
       });
-    } catch {
-      setVinError("Network error — check your connection and try again.");
+    } catch (e) {
+      setVinError(e instanceof Error ? e.message : "Could not decode this VIN. Check the number and try again.");
     } finally {
       setVinLoading(false);
     }
@@ -263,6 +237,12 @@ export default function FindProductsPage() {
   // ── filtered products ─────────────────────────────────────────────────
   const mileageKm = mileage ? parseInt(mileage, 10) : null;
 
+  const eligibilityById = useMemo(() => {
+    const toCents = (v: string) => (v ? Math.round(Number.parseFloat(v) * 100) : null);
+    const deal = { mileageKm, loanAmountCents: toCents(loanAmount), vehicleValueCents: toCents(vehicleValue) };
+    return new Map(products.map((p) => [p.id, checkEligibility(p, vehicleInfo, deal)]));
+  }, [products, vehicleInfo, mileageKm, loanAmount, vehicleValue]);
+
   const filteredProducts = useMemo(() => {
     let list = [...products];
 
@@ -279,15 +259,15 @@ export default function FindProductsPage() {
     }
 
     // Eligibility filter — only applied when a vehicle has been decoded
-    if (vehicleInfo) {
-      list = list.filter((p) => isEligible(p.eligibility_rules, vehicleInfo, mileageKm));
+    if (!showIneligible) {
+      list = list.filter((p) => eligibilityById.get(p.id)?.eligible !== false);
     }
 
     return list.sort((a, b) => compareProductsByConfiguredOrder(a, b, dealerPricing));
-  }, [products, selectedProvider, selectedType, searchQuery, vehicleInfo, mileageKm, dealerPricing]);
+  }, [products, selectedProvider, selectedType, searchQuery, showIneligible, eligibilityById, dealerPricing]);
 
-  const eligibleCount = vehicleInfo ? filteredProducts.length : null;
-  const ineligibleCount = vehicleInfo ? products.filter((p) => !isEligible(p.eligibility_rules, vehicleInfo, mileageKm)).length : null;
+  const eligibleCount = vehicleInfo ? products.filter((p) => eligibilityById.get(p.id)?.eligible).length : null;
+  const ineligibleCount = vehicleInfo ? products.filter((p) => eligibilityById.get(p.id)?.eligible === false).length : null;
 
   // ── render ────────────────────────────────────────────────────────────
   return (
@@ -343,7 +323,7 @@ export default function FindProductsPage() {
             </div>
 
             {/* Row 2: Mileage + Loan Amount (always visible) */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
               <div>
                 <Label htmlFor="mileage" className="text-xs text-muted-foreground">Vehicle Mileage (km) — for eligibility checks</Label>
                 <Input
@@ -369,6 +349,20 @@ export default function FindProductsPage() {
                   className="mt-1"
                 />
               </div>
+              <div>
+                <Label htmlFor="vehicleValue" className="text-xs text-muted-foreground flex items-center gap-1">
+                  <DollarSign className="w-3 h-3" />
+                  Vehicle Value — for LTV limits
+                </Label>
+                <Input
+                  id="vehicleValue"
+                  type="number"
+                  placeholder="e.g. 32000"
+                  value={vehicleValue}
+                  onChange={(e) => setVehicleValue(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
             </div>
 
             {vinError && (
@@ -400,16 +394,23 @@ export default function FindProductsPage() {
                     <p className="text-sm font-semibold text-green-600">{eligibleCount} eligible plan{eligibleCount !== 1 ? "s" : ""}</p>
                   )}
                   {ineligibleCount !== null && ineligibleCount > 0 && (
-                    <p className="text-xs text-muted-foreground">{ineligibleCount} plan{ineligibleCount !== 1 ? "s" : ""} not eligible</p>
+                    <button
+                      type="button"
+                      onClick={() => setShowIneligible((v) => !v)}
+                      className="text-xs text-muted-foreground underline-offset-2 hover:underline"
+                    >
+                      {ineligibleCount} plan{ineligibleCount !== 1 ? "s" : ""} not eligible · {showIneligible ? "hide" : "show why"}
+                    </button>
                   )}
                 </div>
               </div>
-              <div className="grid grid-cols-4 gap-3 text-center">
+              <div className="grid grid-cols-5 gap-3 text-center">
                 {[
                   { label: "Year", value: vehicleInfo.year ?? "—" },
                   { label: "Make", value: vehicleInfo.make ?? "—" },
                   { label: "Model", value: vehicleInfo.model ?? "—" },
                   { label: "Mileage", value: mileage ? `${Number(mileage).toLocaleString()} km` : "—" },
+                  { label: "Powertrain", value: VEHICLE_POWERTRAIN_LABELS[vehicleInfo.powertrain ?? "UNKNOWN"] },
                 ].map((item) => (
                   <div key={item.label} className="bg-card rounded-lg p-3 border border-border">
                     <p className="text-[10px] uppercase tracking-wider text-muted-foreground font-medium">{item.label}</p>
@@ -546,7 +547,18 @@ export default function FindProductsPage() {
             <div className="grid sm:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4 gap-5">
               {filteredProducts.map((product) => {
                 const config = dealerPricing[product.id];
-                const baseRows = buildBasePricingRows(product.pricing_json);
+                const allBaseRows = buildBasePricingRows(product.pricing_json);
+                const classPricing = allBaseRows.some((row) => vehicleClassCode(row.vehicleClass));
+                const classResolution = vehicleInfo && classPricing
+                  ? resolveVehicleClass(vehicleInfo, { vehicleClassMap: parseVehicleClassMap(product.vehicle_class_map) })
+                  : null;
+                // Price the decoded vehicle's class only; rows without a class apply to every vehicle.
+                const baseRows = classResolution?.classCode
+                  ? allBaseRows.filter((row) => {
+                      const code = vehicleClassCode(row.vehicleClass);
+                      return !code || code === classResolution.classCode;
+                    })
+                  : allBaseRows;
                 const customerPrices = baseRows
                   .map((row) => resolveCustomerRetailNumber(row, config))
                   .filter((value) => value > 0);
@@ -555,18 +567,21 @@ export default function FindProductsPage() {
                 const tierChips = getUniqueTierNames(product.pricing_json);
                 const cd = product.coverage_details_json || {};
                 const categories: Array<{ name: string; parts: string[] }> = cd.categories || [];
-                const er = product.eligibility_rules || {};
-                const eligParts: string[] = [];
-                if (er.maxAge) eligParts.push(`up to ${er.maxAge} yrs`);
-                if (er.maxMileage) eligParts.push(`up to ${Number(er.maxMileage).toLocaleString()} km`);
-                const eligText = eligParts.length ? eligParts.join(", ") : "";
+                const eligText = describeEligibilityRules(eligibilityRulesFromJson(product.eligibility_rules, product.powertrain_eligibility)).join(" · ");
+                const eligibility = eligibilityById.get(product.id) ?? null;
                 const isTireRim = ["Tire & Rim", "TIRE_RIM", "tire_rim"].includes(product.product_type);
                 const totalCoverage = categories.length;
                 const visibleCats = categories.slice(0, 5);
                 const hiddenCount = totalCoverage - 5;
 
                 return (
-                  <div key={product.id} className="flex flex-col rounded-2xl bg-white border border-slate-200 shadow-sm hover:shadow-md hover:border-primary/30 transition-all overflow-hidden">
+                  <div
+                    key={product.id}
+                    className={cn(
+                      "flex flex-col rounded-2xl bg-white border border-slate-200 shadow-sm hover:shadow-md hover:border-primary/30 transition-all overflow-hidden",
+                      eligibility?.eligible === false && "opacity-75",
+                    )}
+                  >
                     {/* Colorful accent bar */}
                     <div className={`h-1.5 w-full ${isTireRim ? "bg-gradient-to-r from-teal-500 to-cyan-400" : "bg-gradient-to-r from-primary to-blue-400"}`} />
 
@@ -615,13 +630,29 @@ export default function FindProductsPage() {
                         </div>
                       )}
 
-                      {/* Eligibility box */}
-                      {eligText && (
-                        <div className="rounded-lg bg-slate-50 border border-slate-200 px-3 py-2">
-                          <p className="text-xs text-slate-500">{eligText.charAt(0).toUpperCase() + eligText.slice(1)}</p>
+                      {/* Vehicle class for the decoded vehicle */}
+                      {classResolution && (
+                        <div className={cn(
+                          "rounded-lg border px-3 py-2",
+                          classResolution.classCode ? "bg-primary/5 border-primary/20" : "bg-amber-50 border-amber-200",
+                        )}>
+                          {classResolution.classCode && (
+                            <p className="text-xs font-semibold text-slate-800">{classResolution.classLabel}</p>
+                          )}
+                          <p className={cn("text-xs", classResolution.classCode ? "text-slate-500" : "text-amber-700")}>
+                            {classResolution.explanation}
+                          </p>
                         </div>
                       )}
 
+                      {/* Eligibility box */}
+                      {(eligText || eligibility?.checks.length) ? (
+                        <div className="rounded-lg bg-slate-50 border border-slate-200 px-3 py-2 space-y-1.5">
+                          {eligText && <p className="text-xs text-slate-500">{eligText}</p>}
+                          {eligibility && <EligibilityChecks result={eligibility} />}
+                        </div>
+                      ) : null}
+
                       {/* Coverage count + list */}
                       {totalCoverage > 0 && (
                         <>
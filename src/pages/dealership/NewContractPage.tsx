@@ -2,6 +2,7 @@ import { useState, useEffect, useMemo, useRef } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import DashboardLayout, { dealershipNavItems } from "../../components/dashboard/DashboardLayout";
 import { BridgeWarrantyApplicationContract } from "../../components/contracts/BridgeWarrantyApplicationContract";
+import { ContractSignatureForm } from "../../components/signatures/ContractSignatureForm";
 import { Card, CardContent } from "../../components/ui/card";
 import { Button } from "../../components/ui/button";
 import { Input } from "../../components/ui/input";
@@ -9,12 +10,30 @@ import { Label } from "../../components/ui/label";
 import { Badge } from "../../components/ui/badge";
 import { Checkbox } from "../../components/ui/checkbox";
 import { Tabs, TabsList, TabsTrigger } from "../../components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../components/ui/select";
 import { useToast } from "../../hooks/use-toast";
 import { useDealership } from "../../hooks/useDealership";
 import { supabase } from "../../integrations/supabase/client";
 import { getContractsV2Api } from "../../lib/contracts/contractsV2";
+import { getContractsApi } from "../../lib/contracts/contracts";
+import type { Contract } from "../../lib/contracts/types";
+import { hashContractContent, latestSignatures } from "../../lib/signatures/content";
+import { getContractSignaturesApi } from "../../lib/signatures/signatures";
+import type { ContractSignature, SignatureCapture } from "../../lib/signatures/types";
+import { getProductPricingApi } from "../../lib/productPricing/productPricing";
+import { pricingJsonWithRows } from "../../lib/productPricing/versions";
+import { decodeVin } from "../../lib/vin/decodeVin";
 import { BRAND } from "../../lib/brand";
+import { EligibilityChecks } from "../../components/EligibilityChecks";
+import {
+  VEHICLE_POWERTRAIN_LABELS,
+  eligibilityRulesFromJson,
+  evaluateEligibility,
+  type EligibilityResult,
+  type VehiclePowertrain,
+} from "../../lib/products/eligibility";
 import { compareProductsByConfiguredOrder, type ProductOrderConfig } from "../../lib/products/defaultProductOrder";
+import { parseVehicleClassMap, resolveVehicleClass, vehicleClassCode, vehicleClassLabel } from "../../lib/products/vehicleClass";
 import { cn } from "../../lib/utils";
 import {
   buildAddOnPricingRows,
@@ -45,6 +64,8 @@ interface VehicleInfo {
   year: number | null;
   make: string | null;
   model: string | null;
+  trim?: string | null;
+  powertrain?: VehiclePowertrain | null;
   bodyClass?: string | null;
   warning?: string;
 }
@@ -57,7 +78,9 @@ interface ProductOption {
   providerName: string;
   pricing_json: any;
   eligibility_rules: any;
+  powertrain_eligibility?: string | null;
   coverage_details_json: any;
+  vehicle_class_map: any;
 }
 
 interface PricingRow {
@@ -139,52 +162,21 @@ export function getAddOns(pricing: any, selectedRow: PricingRow | null): AddOn[]
     }));
 }
 
-function checkEligibility(
-  product: ProductOption,
-  year: number | null,
-  mileageKm: number | null,
-): { eligible: boolean; reason: string } {
-  const er = product.eligibility_rules || {};
-  if (year && er.maxAge) {
-    const age = new Date().getFullYear() - year;
-    const maxAge = Number.parseInt(String(er.maxAge).replace(/[^0-9]/g, ""), 10);
-    if (Number.isFinite(maxAge) && age > maxAge)
-      return { eligible: false, reason: `Vehicles ${er.maxAge} yrs or newer only` };
-  }
-  if (mileageKm !== null && er.maxMileage) {
-    const maxMileage = Number.parseInt(String(er.maxMileage).replace(/[^0-9]/g, ""), 10);
-    if (Number.isFinite(maxMileage) && mileageKm > maxMileage)
-      return { eligible: false, reason: `Under ${maxMileage.toLocaleString()} km only` };
-  }
-  return { eligible: true, reason: "" };
-}
-
 function checkVehicleEligibility(
   product: ProductOption,
   vehicle: VehicleInfo | null,
   mileageKm: number | null,
-): { eligible: boolean; reason: string } {
-  const basic = checkEligibility(product, vehicle?.year ?? null, mileageKm);
-  if (!basic.eligible) return basic;
-
-  const er = product.eligibility_rules || {};
-  if (Array.isArray(er.makes) && er.makes.length > 0 && vehicle?.make) {
-    const make = vehicle.make.toLowerCase();
-    const allowed = er.makes.map((m: string) => String(m).toLowerCase());
-    if (!allowed.some((m: string) => make.includes(m) || m.includes(make))) {
-      return { eligible: false, reason: "Vehicle make is not eligible" };
-    }
-  }
-
-  if (Array.isArray(er.models) && er.models.length > 0 && vehicle?.model) {
-    const model = vehicle.model.toLowerCase();
-    const allowed = er.models.map((m: string) => String(m).toLowerCase());
-    if (!allowed.some((m: string) => model.includes(m) || m.includes(model))) {
-      return { eligible: false, reason: "Vehicle model is not eligible" };
-    }
-  }
-
-  return { eligible: true, reason: "" };
+  inServiceDate: string,
+): EligibilityResult {
+  return evaluateEligibility(eligibilityRulesFromJson(product.eligibility_rules, product.powertrain_eligibility), {
+    year: vehicle?.year,
+    make: vehicle?.make,
+    model: vehicle?.model,
+    trim: vehicle?.trim,
+    powertrain: vehicle?.powertrain,
+    mileageKm,
+    inServiceDate,
+  });
 }
 
 function safeDate(dateStr: string): string {
@@ -217,6 +209,7 @@ export default function NewContractPage() {
   const { toast } = useToast();
   const { dealershipId, loading: dLoading } = useDealership();
   const contractsApi = getContractsV2Api();
+  const signaturesApi = getContractSignaturesApi();
 
   // Wizard navigation
   const [currentStep, setCurrentStep] = useState(1);
@@ -226,6 +219,7 @@ export default function NewContractPage() {
   const [vin, setVin] = useState("");
   const [mileage, setMileage] = useState("");
   const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [inServiceDate, setInServiceDate] = useState("");
   const [vehicleInfo, setVehicleInfo] = useState<VehicleInfo | null>(null);
   const [vinLoading, setVinLoading] = useState(false);
   const [vinError, setVinError] = useState<string | null>(null);
@@ -253,18 +247,26 @@ export default function NewContractPage() {
   const [email, setEmail] = useState("");
   const [phone, setPhone] = useState("");
 
+  // Step 4 — Sign (after save)
+  const [savedContract, setSavedContract] = useState<Contract | null>(null);
+  const [savedSignatures, setSavedSignatures] = useState<ContractSignature[]>([]);
+  const [savedContentHash, setSavedContentHash] = useState("");
+  const [signing, setSigning] = useState(false);
+  const [printRequested, setPrintRequested] = useState(false);
+
   // Meta
   const [saving, setSaving] = useState(false);
   const [providerName, setProviderName] = useState("");
   const [dealershipName, setDealershipName] = useState("");
   const lastSelectedProductIdRef = useRef("");
+  const [versionedPricing, setVersionedPricing] = useState<{ productId: string; versionId: string; pricingJson: any } | null>(null);
 
   // ── Load products ──────────────────────────────────────────────────────────
   useEffect(() => {
     (async () => {
       const { data: prods } = await supabase
         .from("products")
-        .select("id, name, product_type, provider_entity_id, pricing_json, eligibility_rules, coverage_details_json")
+        .select("id, name, product_type, provider_entity_id, pricing_json, eligibility_rules, powertrain_eligibility, coverage_details_json, vehicle_class_map")
         .eq("published", true)
         .order("name");
 
@@ -388,15 +390,38 @@ export default function NewContractPage() {
       });
   }, [dealershipId, selectedProductId]);
 
+  // Quote from the provider's dated rate card when one is in effect today; otherwise the product's own pricing.
+  useEffect(() => {
+    setVersionedPricing(null);
+    const product = products.find(p => p.id === selectedProductId);
+    if (!product) return;
+    let cancelled = false;
+    getProductPricingApi()
+      .list({ productId: product.id })
+      .then((rows) => {
+        const versionId = rows.find(r => r.versionId)?.versionId;
+        if (cancelled || !versionId) return;
+        setVersionedPricing({ productId: product.id, versionId, pricingJson: pricingJsonWithRows(product.pricing_json, rows) });
+      })
+      .catch(() => {
+        // Keep quoting from the product's own pricing.
+      });
+    return () => { cancelled = true; };
+  }, [selectedProductId, products]);
+
   // Derived values
   const orderedProducts = useMemo(() => {
     return [...products].sort((a, b) => compareProductsByConfiguredOrder(a, b, dealerProductOrder));
   }, [products, dealerProductOrder]);
-  const selectedProduct = products.find(p => p.id === selectedProductId) ?? null;
+  const selectedProduct = useMemo(() => {
+    const p = products.find(p => p.id === selectedProductId) ?? null;
+    return p && versionedPricing?.productId === p.id ? { ...p, pricing_json: versionedPricing.pricingJson } : p;
+  }, [products, selectedProductId, versionedPricing]);
+  const pricingVersionId = versionedPricing?.productId === selectedProductId ? versionedPricing.versionId : undefined;
   const vehicleMileageKm = mileage ? Number.parseInt(mileage, 10) : null;
   const selectedProductEligibility = selectedProduct
-    ? checkVehicleEligibility(selectedProduct, vehicleInfo, Number.isFinite(vehicleMileageKm) ? vehicleMileageKm : null)
-    : { eligible: true, reason: "" };
+    ? checkVehicleEligibility(selectedProduct, vehicleInfo, Number.isFinite(vehicleMileageKm) ? vehicleMileageKm : null, inServiceDate)
+    : null;
   const quoteMatrix = useMemo(() => selectedProduct ? buildQuotePricingMatrix(selectedProduct.pricing_json) : { tiers: [] }, [selectedProduct]);
   const quoteTierIndex = quoteMatrix.tiers.length ? Math.min(activeQuoteTier, quoteMatrix.tiers.length - 1) : 0;
   const quoteTier = quoteMatrix.tiers[quoteTierIndex];
@@ -412,6 +437,16 @@ export default function NewContractPage() {
     : [];
   const quoteBaseRows = quoteRows.filter((row) => row.isBase);
   const quoteAddOnRows = quoteRows.filter((row) => !row.isBase);
+  const quoteHasClassPricing = quoteMatrix.tiers.some(
+    (tier) => vehicleClassCode(tier.label) || tier.mileageBands?.some((band) => vehicleClassCode(band.label)),
+  );
+  const vehicleClassResolution = useMemo(
+    () => selectedProduct && vehicleInfo
+      ? resolveVehicleClass(vehicleInfo, { vehicleClassMap: parseVehicleClassMap(selectedProduct.vehicle_class_map) })
+      : null,
+    [selectedProduct, vehicleInfo],
+  );
+  const resolvedClassCode = quoteHasClassPricing ? vehicleClassResolution?.classCode ?? null : null;
   const pricingRows: NormalizedPricingRow[] = selectedProduct ? buildBasePricingRows(selectedProduct.pricing_json) : [];
   const chosenRow = pricingRows.find(r => pricingRowKey(r) === selectedPricingKey) ?? (pricingRows.length === 1 ? pricingRows[0] : null);
   const addOns: NormalizedAddOnRow[] = selectedProduct && chosenRow
@@ -442,6 +477,21 @@ export default function NewContractPage() {
     retailKey: row.retailKey,
   }));
   const pricingTermSnapshot = chosenRow ? parseTermSnapshot(chosenRow.term) : {};
+  const chosenClassCode = chosenRow ? vehicleClassCode(chosenRow.vehicleClass) : null;
+  const classMismatch = Boolean(resolvedClassCode && chosenClassCode && chosenClassCode !== resolvedClassCode);
+
+  // Open the quote on the class the decoded vehicle resolves to; the dealer can still look at the others.
+  useEffect(() => {
+    if (!resolvedClassCode) return;
+    const tierIndex = quoteMatrix.tiers.findIndex((tier) => vehicleClassCode(tier.label) === resolvedClassCode);
+    if (tierIndex >= 0) setActiveQuoteTier(tierIndex);
+  }, [resolvedClassCode, quoteMatrix]);
+
+  useEffect(() => {
+    if (!resolvedClassCode) return;
+    const bandIndex = quoteTier?.mileageBands?.findIndex((band) => vehicleClassCode(band.label) === resolvedClassCode) ?? -1;
+    if (bandIndex >= 0) setActiveQuoteBand(bandIndex);
+  }, [resolvedClassCode, quoteTier]);
 
   const selectBaseQuoteCell = (cell: QuoteMatrixCell) => {
     setSelectedPricingKey(pricingRowKey({ term: cell.term, vehicleClass: cell.vehicleClass }));
@@ -469,16 +519,17 @@ export default function NewContractPage() {
     if (vin.length !== 17) return;
     setVinLoading(true); setVinError(null); setVehicleInfo(null);
     try {
-      const res = await fetch(`https://vpic.nhtsa.dot.gov/api/vehicles/DecodeVinValues/${encodeURIComponent(vin)}?format=json`);
-      const data = await res.json();
-      const r = data.Results?.[0];
-      if (!r || (!r.Make && !r.ModelYear)) { setVinError("Could not decode this VIN. Check the number and try again."); return; }
-      const warning = r.ErrorCode === "0" ? undefined
-        : (r.Make?.trim() || r.Model?.trim())
-          ? "Some details couldn't be verified — year/make/model decoded successfully."
-          : r.ErrorText || "Partial decode — some details may be incomplete.";
-      setVehicleInfo({ year: r.ModelYear ? parseInt(r.ModelYear) : null, make: r.Make || null, model: r.Model || null, bodyClass: r.BodyClass || null, warning });
-    } catch { setVinError("Network error — check your connection."); }
+      const d = await decodeVin(vin);
+      setVehicleInfo({
+        year: d.vehicleYear ? parseInt(d.vehicleYear) : null,
+        make: d.vehicleMake ?? null,
+        model: d.vehicleModel ?? null,
+        trim: d.vehicleTrim ?? null,
+        powertrain: d.powertrainType ?? null,
+        bodyClass: d.vehicleBodyClass ?? null,
+        warning: d.decodeWarning,
+      });
+    } catch (e) { setVinError(e instanceof Error ? e.message : "Could not decode this VIN. Check the number and try again."); }
     finally { setVinLoading(false); }
   };
 
@@ -490,11 +541,23 @@ export default function NewContractPage() {
         return true;
       case 2:
         if (!selectedProductId) { toast({ title: "Select a product to continue", variant: "destructive" }); return false; }
-        if (!selectedProductEligibility.eligible) {
-          toast({ title: "Selected product is not eligible", description: selectedProductEligibility.reason, variant: "destructive" });
+        if (selectedProductEligibility && !selectedProductEligibility.eligible) {
+          toast({
+            title: "Selected product is not eligible",
+            description: selectedProductEligibility.failures.map((f) => f.message).join(" "),
+            variant: "destructive",
+          });
           return false;
         }
         if (!chosenRow) { toast({ title: "Select a base quote option to continue", variant: "destructive" }); return false; }
+        if (classMismatch) {
+          toast({
+            title: `This vehicle is ${vehicleClassLabel(resolvedClassCode)}`,
+            description: `The selected price is for ${vehicleClassLabel(chosenClassCode)}. ${vehicleClassResolution?.explanation ?? ""}`.trim(),
+            variant: "destructive",
+          });
+          return false;
+        }
         return true;
       case 3:
         if (!firstName.trim() || !lastName.trim()) { toast({ title: "First and last name are required", variant: "destructive" }); return false; }
@@ -511,12 +574,12 @@ export default function NewContractPage() {
 
   const goBack = () => setCurrentStep(s => Math.max(s - 1, 1));
 
-  // ── Save & Print ───────────────────────────────────────────────────────────
-  const handleSaveAndPrint = async () => {
+  // ── Save, Sign & Print ─────────────────────────────────────────────────────
+  const handleSave = async () => {
     if (!dealershipId) return;
     setSaving(true);
     try {
-      await contractsApi.create({
+      const created = await contractsApi.create({
         dealershipId,
         providerEntityId: selectedProduct?.provider_entity_id ?? "",
         productId: selectedProductId,
@@ -531,6 +594,12 @@ export default function NewContractPage() {
         vehicleMileage: mileage ? parseInt(mileage) : undefined,
         contractPrice: totalRetail || totalDealerCost || undefined,
         dealerCost: totalDealerCost || undefined,
+        productPricingId: chosenRow && pricingVersionId
+          ? (selectedProduct?.pricing_json?.rows ?? []).find(
+              (r: any) => r.productPricingId && r.term === chosenRow.term && (r.vehicleClass ?? "") === chosenRow.vehicleClass,
+            )?.productPricingId
+          : undefined,
+        productPricingVersionId: pricingVersionId,
         pricingVehicleClass: chosenRow?.vehicleClass || undefined,
         pricingTermMonths: pricingTermSnapshot.months,
         pricingTermKm: pricingTermSnapshot.km,
@@ -541,11 +610,11 @@ export default function NewContractPage() {
         addonTotalCostCents: Math.round(addOnDealerTotal * 100),
         startDate: startDate || undefined,
       });
-      toast({ title: "Contract saved", description: "Print the contract or close to view it in your contracts list." });
-      const onAfterPrint = () => navigate("/dealership/contracts");
-      window.addEventListener("afterprint", onAfterPrint, { once: true });
-      setTimeout(() => { window.removeEventListener("afterprint", onAfterPrint); navigate("/dealership/contracts"); }, 30000);
-      window.print();
+      // Signatures are bound to the contract as stored, so read it back in the shape the print copies hash.
+      const stored = await getContractsApi().get(created.id);
+      if (!stored) throw new Error("The saved contract could not be loaded.");
+      setSavedContract(stored);
+      toast({ title: "Contract saved", description: "Have the customer and dealer sign below, then print." });
     } catch (err: any) {
       toast({ title: "Error", description: err.message || "Could not save contract.", variant: "destructive" });
     } finally {
@@ -553,6 +622,33 @@ export default function NewContractPage() {
     }
   };
 
+  const handleSignAndPrint = async (captured: SignatureCapture[]) => {
+    if (!savedContract) return;
+    setSigning(true);
+    try {
+      const contentHash = await hashContractContent(savedContract);
+      const created = await signaturesApi.capture({ contractId: savedContract.id, contentHash, signatures: captured });
+      setSavedSignatures(created);
+      setSavedContentHash(contentHash);
+      toast({ title: "Contract signed", description: "The signed contract is ready to print." });
+      setPrintRequested(true);
+    } catch (err: any) {
+      toast({ title: "Error", description: err.message || "Could not save signatures.", variant: "destructive" });
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  // Printing waits a render so the captured signatures are on the page.
+  useEffect(() => {
+    if (!printRequested) return;
+    setPrintRequested(false);
+    const onAfterPrint = () => navigate("/dealership/contracts");
+    window.addEventListener("afterprint", onAfterPrint, { once: true });
+    setTimeout(() => { window.removeEventListener("afterprint", onAfterPrint); navigate("/dealership/contracts"); }, 30000);
+    window.print();
+  }, [printRequested, navigate]);
+
   // ── Contract data for review ───────────────────────────────────────────────
   const cd = selectedProduct?.coverage_details_json ?? {};
   const pr = selectedProduct?.pricing_json ?? {};
@@ -587,7 +683,8 @@ export default function NewContractPage() {
               const step = i + 1;
               const isDone = completedSteps.has(step) && step !== currentStep;
               const isCurrent = step === currentStep;
-              const isClickable = isDone || step < currentStep;
+              // Once saved, the contract is on file; edits would no longer match what is signed.
+              const isClickable = !savedContract && (isDone || step < currentStep);
               return (
                 <div key={step} className="flex items-center flex-1 last:flex-none">
                   <div className="flex flex-col items-center gap-1.5 min-w-[52px]">
@@ -661,9 +758,23 @@ export default function NewContractPage() {
                     </p>
                     {vehicleInfo.warning && <p className="text-xs text-amber-600 mt-0.5">{vehicleInfo.warning}</p>}
                   </div>
+                  <div className="ml-auto w-44 shrink-0">
+                    <Label className="text-xs text-muted-foreground">Powertrain</Label>
+                    <Select
+                      value={vehicleInfo.powertrain ?? "UNKNOWN"}
+                      onValueChange={(v) => setVehicleInfo((info) => info && { ...info, powertrain: v as VehiclePowertrain })}
+                    >
+                      <SelectTrigger className="mt-1 h-8 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(VEHICLE_POWERTRAIN_LABELS).map(([val, label]) => (
+                          <SelectItem key={val} value={val}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
               )}
-              <div className="grid grid-cols-2 gap-3">
+              <div className="grid grid-cols-3 gap-3">
                 <div>
                   <Label className="text-xs text-muted-foreground">Mileage (km)</Label>
                   <Input type="number" placeholder="e.g. 45000" value={mileage} onChange={e => setMileage(e.target.value)} className="mt-1" />
@@ -672,6 +783,10 @@ export default function NewContractPage() {
                   <Label className="text-xs text-muted-foreground">Start Date</Label>
                   <Input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="mt-1" />
                 </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">In-Service Date</Label>
+                  <Input type="date" value={inServiceDate} onChange={e => setInServiceDate(e.target.value)} className="mt-1" />
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -686,7 +801,7 @@ export default function NewContractPage() {
                   <div className="flex flex-wrap items-center gap-2 mb-1.5">
                     <Badge variant="secondary" className="text-xs">{productTypeBadgeLabel(selectedProduct.product_type)}</Badge>
                     <span className="text-xs bg-accent/10 text-accent border border-accent/20 rounded-full px-2 py-0.5">{selectedProduct.providerName}</span>
-                    {!selectedProductEligibility.eligible && <Badge variant="destructive" className="text-xs">{selectedProductEligibility.reason}</Badge>}
+                    {selectedProductEligibility && !selectedProductEligibility.eligible && <Badge variant="destructive" className="text-xs">Not eligible</Badge>}
                   </div>
                   <p className="font-semibold text-sm">{selectedProduct.name}</p>
                   {categories.length > 0 && (
@@ -694,11 +809,12 @@ export default function NewContractPage() {
                       {categories.slice(0, 5).map(c => <span key={c} className="text-[10px] bg-muted px-1.5 py-0.5 rounded text-muted-foreground">{c}</span>)}
                     </div>
                   )}
-                  {!selectedProductEligibility.eligible && (
+                  {selectedProductEligibility && !selectedProductEligibility.eligible && (
                     <p className="mt-3 text-xs text-destructive">
                       This preselected product is not eligible for the vehicle entered. Choose another product before continuing.
                     </p>
                   )}
+                  {selectedProductEligibility && <EligibilityChecks result={selectedProductEligibility} showPassed className="mt-3" />}
                 </div>
                 <Button variant="outline" size="sm" onClick={() => setShowProductPicker(true)}>
                   Change Product
@@ -721,7 +837,7 @@ export default function NewContractPage() {
             ) : (
               <div className="grid gap-3">
                 {orderedProducts.map(p => {
-                  const elig = checkVehicleEligibility(p, vehicleInfo, Number.isFinite(vehicleMileageKm) ? vehicleMileageKm : null);
+                  const elig = checkVehicleEligibility(p, vehicleInfo, Number.isFinite(vehicleMileageKm) ? vehicleMileageKm : null, inServiceDate);
                   const cats: string[] = (p.coverage_details_json?.categories || []).map((c: any) => c.name).slice(0, 4);
                   const rows = buildBasePricingRows(p.pricing_json);
                   const minRetail = rows.length ? Math.min(...rows.map(r => r.suggestedRetail).filter(Boolean)) : 0;
@@ -746,9 +862,10 @@ export default function NewContractPage() {
                           <div className="flex items-center gap-2 flex-wrap mb-1.5">
                             <Badge variant="secondary" className="text-xs">{productTypeBadgeLabel(p.product_type)}</Badge>
                             <span className="text-xs bg-accent/10 text-accent border border-accent/20 rounded-full px-2 py-0.5">{p.providerName}</span>
-                            {!elig.eligible && <Badge variant="destructive" className="text-xs">{elig.reason}</Badge>}
+                            {!elig.eligible && <Badge variant="destructive" className="text-xs">Not eligible</Badge>}
                           </div>
                           <p className="font-semibold text-sm">{p.name}</p>
+                          <EligibilityChecks result={elig} className="mt-2" />
                           {cats.length > 0 && (
                             <div className="flex flex-wrap gap-1 mt-2">
                               {cats.map(c => <span key={c} className="text-[10px] bg-muted px-1.5 py-0.5 rounded text-muted-foreground">{c}</span>)}
@@ -771,7 +888,7 @@ export default function NewContractPage() {
         )}
 
         {/* ── Step 3: Pricing Tiers ── */}
-        {currentStep === 2 && selectedProductId && selectedProductEligibility.eligible && (
+        {currentStep === 2 && selectedProductId && selectedProductEligibility?.eligible !== false && (
           <div className="space-y-4">
             <div className="flex items-center gap-2 mb-4">
               <DollarSign className="w-5 h-5 text-primary" />
@@ -824,6 +941,25 @@ export default function NewContractPage() {
                       </div>
                     ) : null}
 
+                    {quoteHasClassPricing && vehicleClassResolution ? (
+                      <div
+                        className={cn(
+                          "rounded-lg border px-3 py-2 text-xs",
+                          classMismatch
+                            ? "border-amber-300 bg-amber-50 text-amber-800"
+                            : vehicleClassResolution.classCode
+                              ? "border-primary/20 bg-primary/5 text-foreground"
+                              : "border-border bg-muted/40 text-muted-foreground",
+                        )}
+                      >
+                        {vehicleClassResolution.classCode ? (
+                          <span className="font-semibold">Vehicle class: {vehicleClassResolution.classLabel}. </span>
+                        ) : null}
+                        {vehicleClassResolution.explanation}
+                        {classMismatch ? ` The selected price is for ${vehicleClassLabel(chosenClassCode)}.` : null}
+                      </div>
+                    ) : null}
+
                     <div className="space-y-3">
                       <h4 className="font-semibold text-sm">Base Pricing</h4>
                       <div className="overflow-x-auto border rounded-lg bg-background">
@@ -1204,7 +1340,7 @@ export default function NewContractPage() {
             {/* Printable contract document */}
             <BridgeWarrantyApplicationContract
               brandName={BRAND.name}
-              contractNumber={previewContractNumber}
+              contractNumber={savedContract?.contractNumber ?? previewContractNumber}
               issueDate={format(new Date(), "MMMM d, yyyy")}
               purchaseDate={startDate ? safeDate(startDate) : format(new Date(), "yyyy-MM-dd")}
               customer={{
@@ -1247,18 +1383,45 @@ export default function NewContractPage() {
               }}
               termsSections={termsSections}
               exclusions={exclusions}
+              signatures={savedSignatures.length > 0 ? {
+                customer: latestSignatures(savedSignatures).CUSTOMER,
+                dealer: latestSignatures(savedSignatures).DEALER,
+                contentHash: savedContentHash,
+              } : undefined}
             />
 
             {/* Action bar — hidden on print */}
-            <div className="print:hidden flex items-center justify-between pt-4 mt-2 border-t">
-              <Button variant="outline" onClick={goBack}>← Back</Button>
-              <Button onClick={handleSaveAndPrint} disabled={saving}>
-                {saving
-                  ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Saving...</>
-                  : <><FileText className="w-4 h-4 mr-2" /> Save & Print Contract</>
-                }
-              </Button>
-            </div>
+            {savedContract ? (
+              <Card className="print:hidden">
+                <CardContent className="pt-6 space-y-4">
+                  <div>
+                    <h3 className="font-semibold">Sign contract {savedContract.contractNumber}</h3>
+                    <p className="text-sm text-muted-foreground">The customer and a dealer representative sign on this screen before the contract is printed.</p>
+                  </div>
+                  <ContractSignatureForm
+                    defaultCustomerName={savedContract.customerName}
+                    submitLabel="Sign & Print Contract"
+                    isSubmitting={signing}
+                    onSubmit={handleSignAndPrint}
+                  />
+                  <div className="flex justify-start border-t pt-4">
+                    <Button variant="ghost" onClick={() => setPrintRequested(true)} disabled={signing}>
+                      Print for wet signatures instead
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="print:hidden flex items-center justify-between pt-4 mt-2 border-t">
+                <Button variant="outline" onClick={goBack}>← Back</Button>
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving
+                    ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Saving...</>
+                    : <><FileText className="w-4 h-4 mr-2" /> Save & Sign Contract</>
+                  }
+                </Button>
+              </div>
+            )}
           </>
         )}
 
@@ -14,6 +14,8 @@ import { useAuth } from "../../../providers/AuthProvider";
 import { useToast } from "../../../hooks/use-toast";
 import { generateTemporaryPassword } from "../../../lib/auth/temporaryPassword";
 import { invokeEdgeFunction } from "../../../lib/supabase/functions";
+import { MemberRoleTemplateSelect } from "../../../components/permissions/MemberRoleTemplateSelect";
+import { RoleTemplatesPanel } from "../../../components/permissions/RoleTemplatesPanel";
 import { format } from "date-fns";
 import { Check, Copy, Eye, KeyRound, Plus, Trash2, Users, Shield, UserCog } from "lucide-react";
 
@@ -80,6 +82,8 @@ export default function TeamManagementPage() {
   const [passwordCopied, setPasswordCopied] = useState(false);
 
   const isAdmin = memberRole === "admin";
+  // Employees can be granted team.manage through their role template; only admins manage other admins.
+  const canManageTeam = isAdmin || (user?.permissions ?? []).includes("team.manage");
 
   const enrichMembers = useCallback(async (rows: TeamMember[]) => {
     if (rows.length === 0) {
@@ -359,7 +363,7 @@ export default function TeamManagementPage() {
 
   const handleDeleteMember = async (member: TeamMember) => {
     if (!member.user_id) return;
-    if (!isAdmin) {
+    if (!canManageTeam || (!isAdmin && member.role === "admin")) {
       toast({ title: "Admin Required", description: "Only dealership admins can delete team members.", variant: "destructive" });
       return;
     }
@@ -462,7 +466,7 @@ export default function TeamManagementPage() {
                 Manage dealership access and staff permissions.
               </p>
             </div>
-            {isAdmin && (
+            {canManageTeam && (
               <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
                 <DialogTrigger asChild>
                   <Button size="sm" className="shrink-0 gap-2">
@@ -494,7 +498,7 @@ export default function TeamManagementPage() {
                       <Select value={newMember.role} onValueChange={(v) => setNewMember({ ...newMember, role: v })}>
                         <SelectTrigger><SelectValue /></SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="admin">Admin</SelectItem>
+                          {isAdmin && <SelectItem value="admin">Admin</SelectItem>}
                           <SelectItem value="employee">Employee</SelectItem>
                         </SelectContent>
                       </Select>
@@ -523,11 +527,12 @@ export default function TeamManagementPage() {
                 <Table className="min-w-[1120px]">
                 <TableHeader className="bg-muted/40">
                   <TableRow>
-                    <TableHead className="w-[32%] px-4">Profile</TableHead>
-                    <TableHead className="w-[12%] px-4">Role</TableHead>
-                    <TableHead className="w-[15%] px-4">Phone</TableHead>
-                    <TableHead className="w-[13%] px-4">Joined</TableHead>
-                    {isAdmin && <TableHead className="w-[28%] px-4 text-right">Actions</TableHead>}
+                    <TableHead className="w-[28%] px-4">Profile</TableHead>
+                    <TableHead className="w-[10%] px-4">Role</TableHead>
+                    <TableHead className="w-[14%] px-4">Access</TableHead>
+                    <TableHead className="w-[12%] px-4">Phone</TableHead>
+                    <TableHead className="w-[10%] px-4">Joined</TableHead>
+                    {canManageTeam && <TableHead className="w-[26%] px-4 text-right">Actions</TableHead>}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -559,11 +564,20 @@ export default function TeamManagementPage() {
                           {formatMemberRole(m.role)}
                         </Badge>
                       </TableCell>
+                      <TableCell className="px-4 py-3">
+                        {m.role === "admin" ? (
+                          <span className="text-sm text-muted-foreground">Full access</span>
+                        ) : dealershipId && m.source === "dealership" && !m.id.startsWith("pending:") ? (
+                          <MemberRoleTemplateSelect scope="DEALERSHIP" ownerId={dealershipId} userId={m.user_id} disabled={!canManageTeam} />
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Default</span>
+                        )}
+                      </TableCell>
                       <TableCell className="px-4 py-3 text-sm text-muted-foreground">{m.profile?.phone || "Not provided"}</TableCell>
                       <TableCell className="px-4 py-3 text-sm text-muted-foreground">
                         {format(new Date(m.created_at), "MMM d, yyyy")}
                       </TableCell>
-                      {isAdmin && (
+                      {canManageTeam && (
                         <TableCell className="px-4 py-3">
                           <div className="flex items-center justify-end gap-2">
                             <Button
@@ -599,7 +613,7 @@ export default function TeamManagementPage() {
                               {deletingUserId === m.user_id ? "Deleting..." : "Delete"}
                             </Button>
                             <Select value={m.role} onValueChange={(v) => handleRoleChange(m, v)}>
-                              <SelectTrigger className="h-9 w-32 bg-background">
+                              <SelectTrigger className="h-9 w-32 bg-background" disabled={!isAdmin}>
                                 <SelectValue labels={{ admin: "Admin", employee: "Employee" }} />
                               </SelectTrigger>
                               <SelectContent className="w-32">
@@ -619,6 +633,8 @@ export default function TeamManagementPage() {
           </CardContent>
         </Card>
 
+        {dealershipId && <RoleTemplatesPanel scope="DEALERSHIP" ownerId={dealershipId} canManage={canManageTeam} />}
+
         <Dialog open={Boolean(selectedMember)} onOpenChange={(open) => { if (!open) setSelectedMember(null); }}>
           <DialogContent>
             <DialogHeader>
@@ -671,7 +687,7 @@ export default function TeamManagementPage() {
                   </div>
                 </div>
 
-                {isAdmin && (
+                {canManageTeam && (
                   <div className="flex justify-end gap-2 border-t pt-4">
                     <Button
                       type="button"
@@ -0,0 +1,596 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { Link, useParams } from "react-router-dom";
+import DashboardLayout, { providerNavItems } from "../../components/dashboard/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "../../components/ui/card";
+import { Badge } from "../../components/ui/badge";
+import { Button } from "../../components/ui/button";
+import { Input } from "../../components/ui/input";
+import { Textarea } from "../../components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../components/ui/table";
+import { ClaimCoverageBadge, OpenClaimForm, type OpenClaimDraft } from "../../components/claims/OpenClaimForm";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { supabase } from "../../integrations/supabase/client";
+import { useToast } from "../../hooks/use-toast";
+import { useAuth } from "../../providers/AuthProvider";
+import { logAuditEvent } from "../../lib/auditLog";
+import { getClaimsApi } from "../../lib/claims/claims";
+import {
+  CLAIM_LIMIT_TYPE_LABELS,
+  CLAIM_STATUS_LABELS,
+  calculateClaimTotals,
+  claimLineRequestedCents,
+  claimStatusFromLines,
+  defaultLineDecision,
+  isAggregateClaimLimit,
+  priorPaidCents,
+  resolveClaimLimit,
+} from "../../lib/claims/adjudication";
+import type { Claim, ClaimLine, ClaimLineDecision } from "../../lib/claims/types";
+import { getProductsApi } from "../../lib/products/products";
+import type { Product } from "../../lib/products/types";
+import { getProductPricingApi } from "../../lib/productPricing/productPricing";
+import { defaultPricingRow } from "../../lib/productPricing/defaultRow";
+import type { ProductPricing } from "../../lib/productPricing/types";
+import { sanitizeMoney } from "../../lib/utils";
+
+interface ContractSummary {
+  id: string;
+  contractNumber: string;
+  dealershipName: string;
+  customerName: string;
+  vehicle: string;
+  vin: string;
+  productId: string | null;
+  productPricingId: string | null;
+  pricingTermMonths: number | null;
+  pricingTermKm: number | null;
+  pricingVehicleClass: string | null;
+  deductibleCents: number | null;
+  retailCents: number;
+  mileageKm: number | null;
+  status: string;
+  soldAt: string;
+}
+
+type LineEdit = {
+  decision: ClaimLineDecision;
+  approved: string;
+  denialReason: string;
+};
+
+const statusColors: Record<string, string> = {
+  draft: "bg-muted text-muted-foreground",
+  submitted: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+  active: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  expired: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  cancelled: "bg-destructive/10 text-destructive",
+};
+
+const claimStatusColors: Record<string, string> = {
+  SUBMITTED: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+  APPROVED: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  PARTIALLY_APPROVED: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  DENIED: "bg-destructive/10 text-destructive",
+};
+
+const legacyStatusMap: Record<string, string> = { DRAFT: "draft", SOLD: "submitted", REMITTED: "active", PAID: "active" };
+
+function money(cents: number | null | undefined) {
+  if (typeof cents !== "number") return "—";
+  return `$${(cents / 100).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function centsToInput(cents: number) {
+  return (cents / 100).toFixed(2);
+}
+
+function inputToCents(raw: string) {
+  const n = Number(raw.trim() || "0");
+  return Number.isFinite(n) && n >= 0 ? Math.round(n * 100) : 0;
+}
+
+function initialLineEdits(claim: Claim): Record<string, LineEdit> {
+  const edits: Record<string, LineEdit> = {};
+  for (const line of claim.lines) {
+    const decision = line.decision === "PENDING" ? defaultLineDecision(line.coverage) : line.decision;
+    const approvedCents = line.decision === "PENDING" ? claimLineRequestedCents(line) : line.approvedCents;
+    edits[line.id] = {
+      decision,
+      approved: decision === "APPROVED" ? centsToInput(approvedCents) : "",
+      denialReason: line.denialReason ?? (line.coverage === "not_included" ? "Component not covered" : ""),
+    };
+  }
+  return edits;
+}
+
+function matchPricingRow(rows: ProductPricing[], contract: ContractSummary) {
+  if (contract.productPricingId) {
+    const exact = rows.find((r) => r.id === contract.productPricingId);
+    if (exact) return exact;
+  }
+  const byTerm = rows.filter(
+    (r) =>
+      r.termMonths === contract.pricingTermMonths &&
+      (r.termKm ?? null) === (contract.pricingTermKm ?? null) &&
+      (!contract.pricingVehicleClass || !r.vehicleClass || r.vehicleClass === contract.pricingVehicleClass),
+  );
+  return defaultPricingRow(byTerm) ?? defaultPricingRow(rows);
+}
+
+export default function ProviderContractDetailPage2() {
+  const { id } = useParams();
+  const contractId = id ?? "";
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const claimsApi = useMemo(() => getClaimsApi(), []);
+  const productsApi = useMemo(() => getProductsApi(), []);
+  const productPricingApi = useMemo(() => getProductPricingApi(), []);
+
+  const [contract, setContract] = useState<ContractSummary | null>(null);
+  const [product, setProduct] = useState<Product | null>(null);
+  const [pricing, setPricing] = useState<ProductPricing | null>(null);
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [selectedClaimId, setSelectedClaimId] = useState<string | null>(null);
+  const [lineEdits, setLineEdits] = useState<Record<string, LineEdit>>({});
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [opening, setOpening] = useState(false);
+
+  const loadClaims = useCallback(async () => {
+    const rows = await claimsApi.listByContract(contractId);
+    setClaims(rows);
+    return rows;
+  }, [claimsApi, contractId]);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!contractId) { setLoading(false); return; }
+
+      const { data: r } = await supabase.from("contracts").select("*").eq("id", contractId).maybeSingle();
+      if (!r) { setLoading(false); return; }
+      const row = r as any;
+
+      let dealershipName = "—";
+      if (row.dealership_id) {
+        const { data: d } = await supabase.from("dealerships").select("name").eq("id", row.dealership_id).maybeSingle();
+        dealershipName = (d as any)?.name || "Unknown Dealership";
+      }
+
+      const summary: ContractSummary = {
+        id: row.id,
+        contractNumber: row.contract_number ?? "",
+        dealershipName,
+        customerName: [row.customer_first_name, row.customer_last_name].filter(Boolean).join(" ") || row.customer_name || "—",
+        vehicle: [row.vehicle_year, row.vehicle_make, row.vehicle_model].filter(Boolean).join(" ") || "—",
+        vin: row.vin ?? "",
+        productId: row.product_id ?? null,
+        productPricingId: row.product_pricing_id ?? null,
+        pricingTermMonths: row.pricing_term_months ?? null,
+        pricingTermKm: row.pricing_term_km ?? null,
+        pricingVehicleClass: row.pricing_vehicle_class ?? null,
+        deductibleCents: row.pricing_deductible_cents ?? null,
+        retailCents:
+          row.contract_price != null
+            ? Math.round(Number(row.contract_price) * 100)
+            : (row.pricing_base_price_cents ?? 0) + (row.addon_total_retail_cents ?? 0),
+        mileageKm: row.vehicle_mileage_km ?? null,
+        status: row.status_new || legacyStatusMap[row.status] || "draft",
+        soldAt: row.sold_at ?? row.start_date ?? row.created_at,
+      };
+      setContract(summary);
+
+      if (summary.productId) {
+        const [p, rows] = await Promise.all([
+          productsApi.get(summary.productId),
+          productPricingApi.list({ productId: summary.productId }),
+        ]);
+        setProduct(p);
+        setPricing(matchPricingRow(rows, summary));
+      }
+
+      await loadClaims();
+      setLoading(false);
+    };
+    load().catch((err) => {
+      toast({ title: "Error", description: err?.message || "Could not load contract.", variant: "destructive" });
+      setLoading(false);
+    });
+  }, [contractId, loadClaims, productPricingApi, productsApi, toast]);
+
+  // Oldest submitted claims first, then everything already decided.
+  const queue = useMemo(() => {
+    const pending = claims.filter((c) => c.status === "SUBMITTED").sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const decided = claims.filter((c) => c.status !== "SUBMITTED");
+    return [...pending, ...decided];
+  }, [claims]);
+
+  const selectedClaim = useMemo(() => claims.find((c) => c.id === selectedClaimId) ?? null, [claims, selectedClaimId]);
+
+  const selectClaim = (claim: Claim) => {
+    setSelectedClaimId(claim.id);
+    setLineEdits(initialLineEdits(claim));
+    setNotes(claim.adjudicationNotes ?? "");
+  };
+
+  const editedLines = useMemo((): ClaimLine[] => {
+    if (!selectedClaim) return [];
+    return selectedClaim.lines.map((line) => {
+      const edit = lineEdits[line.id];
+      if (!edit) return line;
+      const requested = claimLineRequestedCents(line);
+      return {
+        ...line,
+        decision: edit.decision,
+        approvedCents: edit.decision === "APPROVED" ? Math.min(requested, inputToCents(edit.approved)) : 0,
+        denialReason: edit.decision === "DENIED" ? edit.denialReason.trim() || undefined : undefined,
+      };
+    });
+  }, [lineEdits, selectedClaim]);
+
+  const totals = useMemo(() => {
+    if (!selectedClaim) return null;
+    return calculateClaimTotals({
+      lines: editedLines,
+      deductibleCents: selectedClaim.deductibleCents,
+      claimLimitType: selectedClaim.claimLimitType,
+      claimLimitCents: selectedClaim.claimLimitCents,
+      priorPaidCents: priorPaidCents(claims, selectedClaim.id),
+    });
+  }, [claims, editedLines, selectedClaim]);
+
+  const paidToDateCents = useMemo(() => priorPaidCents(claims), [claims]);
+
+  const contractLimit = useMemo(
+    () => resolveClaimLimit({ pricing, contractRetailCents: contract?.retailCents }),
+    [contract?.retailCents, pricing],
+  );
+
+  const updateLineEdit = (lineId: string, patch: Partial<LineEdit>) => {
+    setLineEdits((prev) => ({ ...prev, [lineId]: { ...prev[lineId]!, ...patch } }));
+  };
+
+  const onSaveAdjudication = async () => {
+    if (!selectedClaim || !totals) return;
+    const status = claimStatusFromLines(editedLines);
+    if (status === "SUBMITTED") {
+      toast({ title: "Undecided lines", description: "Approve or deny every repair line first.", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    try {
+      const updated = await claimsApi.adjudicate(selectedClaim.id, {
+        lines: editedLines,
+        status,
+        approvedCents: totals.approvedCents,
+        payableCents: totals.payableCents,
+        adjudicationNotes: notes.trim() || undefined,
+        adjudicatedByUserId: user?.id,
+        adjudicatedByEmail: user?.email,
+      });
+      logAuditEvent({
+        kind: "CLAIM_ADJUDICATED",
+        actorUserId: user?.id,
+        actorEmail: user?.email,
+        actorRole: user?.role,
+        entityType: "claim",
+        entityId: updated.id,
+        message: `${CLAIM_STATUS_LABELS[updated.status]} claim ${updated.claimNumber}`,
+        meta: { contractId: updated.contractId, approvedCents: updated.approvedCents, payableCents: updated.payableCents },
+      });
+      await loadClaims();
+      setSelectedClaimId(null);
+      toast({ title: "Claim adjudicated", description: `${updated.claimNumber}: ${money(updated.payableCents)} payable.` });
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Could not save adjudication.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onOpenClaim = async (draft: OpenClaimDraft) => {
+    if (!contract) return;
+    setOpening(true);
+    try {
+      const limit = resolveClaimLimit({
+        pricing,
+        contractRetailCents: contract.retailCents,
+        vehicleValueCents: draft.vehicleValueCents,
+      });
+      const created = await claimsApi.create({
+        contractId: contract.id,
+        productId: contract.productId ?? undefined,
+        lossDate: draft.lossDate,
+        odometerKm: draft.odometerKm,
+        complaint: draft.complaint,
+        lines: draft.lines,
+        deductibleCents: contract.deductibleCents ?? pricing?.deductibleCents ?? 0,
+        ...limit,
+        openedByRole: "PROVIDER",
+        openedByUserId: user?.id,
+        openedByEmail: user?.email,
+      });
+      logAuditEvent({
+        kind: "CLAIM_OPENED",
+        actorUserId: user?.id,
+        actorEmail: user?.email,
+        actorRole: user?.role,
+        entityType: "claim",
+        entityId: created.id,
+        message: `Opened claim ${created.claimNumber}`,
+        meta: { contractId: created.contractId, requestedCents: created.requestedCents },
+      });
+      await loadClaims();
+      selectClaim(created);
+    } catch (err: any) {
+      toast({ title: "Error", description: err?.message || "Could not open claim.", variant: "destructive" });
+      throw err;
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const canOpenClaim = contract?.status === "active" || contract?.status === "submitted";
+
+  return (
+    <DashboardLayout navItems={providerNavItems} title="Contract">
+      <div className="space-y-4">
+        <Link to="/provider/contracts" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="w-4 h-4" /> Back to contracts
+        </Link>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !contract ? (
+          <p className="text-center text-muted-foreground py-12">Contract not found.</p>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="text-lg">{contract.contractNumber || contract.id}</CardTitle>
+                  <Badge className={statusColors[contract.status] || ""} variant="secondary">{contract.status}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <div className="text-muted-foreground">Dealership</div>
+                    <div className="font-medium mt-1">{contract.dealershipName}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Customer</div>
+                    <div className="font-medium mt-1">{contract.customerName}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Vehicle</div>
+                    <div className="font-medium mt-1">{contract.vehicle}</div>
+                    {contract.vin ? <div className="text-xs text-muted-foreground font-mono">{contract.vin}</div> : null}
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Product</div>
+                    <div className="font-medium mt-1">{product?.name ?? "—"}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Deductible</div>
+                    <div className="font-medium mt-1">{money(contract.deductibleCents ?? pricing?.deductibleCents)}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Claim limit</div>
+                    <div className="font-medium mt-1">
+                      {contractLimit.claimLimitType
+                        ? `${CLAIM_LIMIT_TYPE_LABELS[contractLimit.claimLimitType]}${
+                            typeof contractLimit.claimLimitCents === "number" ? ` · ${money(contractLimit.claimLimitCents)}` : ""
+                          }`
+                        : "None"}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Paid to date</div>
+                    <div className="font-medium mt-1">{money(paidToDateCents)}</div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Limit remaining</div>
+                    <div className="font-medium mt-1">
+                      {isAggregateClaimLimit(contractLimit.claimLimitType) && typeof contractLimit.claimLimitCents === "number"
+                        ? money(Math.max(0, contractLimit.claimLimitCents - paidToDateCents))
+                        : "Per claim"}
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Claims queue</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {queue.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No claims on this contract.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Claim</TableHead>
+                        <TableHead>Loss</TableHead>
+                        <TableHead>Opened by</TableHead>
+                        <TableHead>Requested</TableHead>
+                        <TableHead>Payable</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {queue.map((c) => (
+                        <TableRow
+                          key={c.id}
+                          className={`cursor-pointer ${c.id === selectedClaimId ? "bg-muted/50" : ""}`}
+                          onClick={() => selectClaim(c)}
+                        >
+                          <TableCell className="font-medium">{c.claimNumber}</TableCell>
+                          <TableCell className="text-sm">
+                            {format(new Date(`${c.lossDate}T00:00:00`), "MMM d, yyyy")} · {c.odometerKm.toLocaleString()} km
+                          </TableCell>
+                          <TableCell className="text-sm capitalize">{c.openedByRole.toLowerCase()}</TableCell>
+                          <TableCell>{money(c.requestedCents)}</TableCell>
+                          <TableCell>{c.status === "SUBMITTED" ? "—" : money(c.payableCents)}</TableCell>
+                          <TableCell>
+                            <Badge className={claimStatusColors[c.status] || ""} variant="secondary">{CLAIM_STATUS_LABELS[c.status]}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {selectedClaim && totals ? (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Adjudicate {selectedClaim.claimNumber}</CardTitle>
+                  <p className="text-sm text-muted-foreground">{selectedClaim.complaint}</p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Repair</TableHead>
+                        <TableHead>Coverage</TableHead>
+                        <TableHead>Requested</TableHead>
+                        <TableHead>Decision</TableHead>
+                        <TableHead>Approved / reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selectedClaim.lines.map((line) => {
+                        const edit = lineEdits[line.id];
+                        if (!edit) return null;
+                        return (
+                          <TableRow key={line.id}>
+                            <TableCell>
+                              <div className="font-medium">{line.description}</div>
+                              {line.coverageItemName ? <div className="text-xs text-muted-foreground">{line.coverageItemName}</div> : null}
+                            </TableCell>
+                            <TableCell><ClaimCoverageBadge coverage={line.coverage} /></TableCell>
+                            <TableCell className="text-sm">
+                              {money(claimLineRequestedCents(line))}
+                              <div className="text-xs text-muted-foreground">
+                                Parts {money(line.partsCents)} · Labour {money(line.laborCents)}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <select
+                                className="rounded-md border bg-background px-2 py-1 text-sm"
+                                value={edit.decision}
+                                onChange={(e) => {
+                                  const decision = e.target.value as ClaimLineDecision;
+                                  updateLineEdit(line.id, {
+                                    decision,
+                                    approved: decision === "APPROVED" && !edit.approved ? centsToInput(claimLineRequestedCents(line)) : edit.approved,
+                                  });
+                                }}
+                              >
+                                <option value="PENDING">Pending</option>
+                                <option value="APPROVED">Approve</option>
+                                <option value="DENIED">Deny</option>
+                              </select>
+                            </TableCell>
+                            <TableCell>
+                              {edit.decision === "APPROVED" ? (
+                                <Input
+                                  className="w-32"
+                                  value={edit.approved}
+                                  onChange={(e) => updateLineEdit(line.id, { approved: sanitizeMoney(e.target.value) })}
+                                  inputMode="decimal"
+                                />
+                              ) : edit.decision === "DENIED" ? (
+                                <Input
+                                  value={edit.denialReason}
+                                  onChange={(e) => updateLineEdit(line.id, { denialReason: e.target.value })}
+                                  placeholder="Denial reason"
+                                />
+                              ) : (
+                                <span className="text-sm text-muted-foreground">—</span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+                    <div className="rounded-lg border p-3">
+                      <div className="text-xs text-muted-foreground">Requested</div>
+                      <div className="font-semibold mt-1">{money(totals.requestedCents)}</div>
+                    </div>
+                    <div className="rounded-lg border p-3">
+                      <div className="text-xs text-muted-foreground">Approved</div>
+                      <div className="font-semibold mt-1">{money(totals.approvedCents)}</div>
+                    </div>
+                    <div className="rounded-lg border p-3">
+                      <div className="text-xs text-muted-foreground">Deductible</div>
+                      <div className="font-semibold mt-1">−{money(totals.deductibleAppliedCents)}</div>
+                    </div>
+                    <div className="rounded-lg border p-3">
+                      <div className="text-xs text-muted-foreground">Payable</div>
+                      <div className="font-semibold mt-1">{money(totals.payableCents)}</div>
+                      {totals.overLimitCents > 0 ? (
+                        <div className="text-xs text-destructive mt-1">{money(totals.overLimitCents)} over limit</div>
+                      ) : null}
+                    </div>
+                    <div className="rounded-lg border p-3">
+                      <div className="text-xs text-muted-foreground">
+                        {selectedClaim.claimLimitType ? `${CLAIM_LIMIT_TYPE_LABELS[selectedClaim.claimLimitType]} remaining` : "Limit remaining"}
+                      </div>
+                      <div className="font-semibold mt-1">{totals.limitRemainingCents === null ? "No limit" : money(totals.limitRemainingCents)}</div>
+                      {totals.limitUsedBeforeCents > 0 ? (
+                        <div className="text-xs text-muted-foreground mt-1">{money(totals.limitUsedBeforeCents)} used by earlier claims</div>
+                      ) : null}
+                    </div>
+                  </div>
+
+                  <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Adjudication notes (optional)" />
+
+                  <div className="flex gap-2">
+                    <Button onClick={() => void onSaveAdjudication()} disabled={saving}>
+                      {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+                      Save decision
+                    </Button>
+                    <Button variant="outline" onClick={() => setSelectedClaimId(null)} disabled={saving}>
+                      Close
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : null}
+
+            {canOpenClaim ? (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Open a claim</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <OpenClaimForm
+                    coverageItems={product?.coverageDetails?.items ?? []}
+                    minOdometerKm={contract.mileageKm ?? undefined}
+                    minLossDate={contract.soldAt.slice(0, 10)}
+                    askVehicleValue={pricing?.claimLimitType === "FMV"}
+                    isSubmitting={opening}
+                    onSubmit={onOpenClaim}
+                  />
+                </CardContent>
+              </Card>
+            ) : null}
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
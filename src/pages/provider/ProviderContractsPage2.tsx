@@ -1,4 +1,5 @@
 import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
 import DashboardLayout, { providerNavItems } from "../../components/dashboard/DashboardLayout";
 import { Card, CardContent, CardHeader } from "../../components/ui/card";
 import { Badge } from "../../components/ui/badge";
@@ -8,6 +9,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from ".
 import { Search, Loader2 } from "lucide-react";
 import { format } from "date-fns";
 import { supabase } from "../../integrations/supabase/client";
+import { withDealerCost } from "../../lib/contracts/dealerCost";
 
 interface Contract {
   id: string;
@@ -39,6 +41,7 @@ export default function ProviderContractsPage2() {
   const [tab, setTab] = useState("all");
   const [contracts, setContracts] = useState<Contract[]>([]);
   const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
 
   useEffect(() => {
     const load = async () => {
@@ -61,7 +64,7 @@ export default function ProviderContractsPage2() {
       // Fetch contracts for this provider
       const { data: rows } = await supabase
         .from("contracts")
-        .select("id, customer_first_name, customer_last_name, vehicle_year, vehicle_make, vehicle_model, contract_price, dealer_cost_dollars, status_new, created_at, product_id, dealership_id")
+        .select("id, customer_first_name, customer_last_name, vehicle_year, vehicle_make, vehicle_model, contract_price, contract_dealer_costs(dealer_cost_dollars), status_new, created_at, product_id, dealership_id")
         .eq("provider_entity_id", providerEntityId)
         .order("created_at", { ascending: false });
 
@@ -83,7 +86,7 @@ export default function ProviderContractsPage2() {
 
       const legacyMap: Record<string, string> = { DRAFT: "draft", SOLD: "submitted", REMITTED: "active", PAID: "active" };
 
-      setContracts(rows.map((r: any) => ({
+      setContracts(rows.map(withDealerCost).map((r: any) => ({
         id: r.id,
         dealershipName: dealMap[r.dealership_id] || "Unknown Dealership",
         customerFirstName: r.customer_first_name || "",
@@ -160,7 +163,7 @@ export default function ProviderContractsPage2() {
                   </TableHeader>
                   <TableBody>
                     {filtered.map((c) => (
-                      <TableRow key={c.id}>
+                      <TableRow key={c.id} className="cursor-pointer" onClick={() => navigate(`/provider/contracts/${c.id}`)}>
                         <TableCell className="font-medium">{c.dealershipName}</TableCell>
                         <TableCell>{c.customerFirstName} {c.customerLastName}</TableCell>
                         <TableCell className="text-sm">{[c.vehicleYear, c.vehicleMake, c.vehicleModel].filter(Boolean).join(" ") || "—"}</TableCell>
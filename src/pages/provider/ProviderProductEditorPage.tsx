@@ -12,6 +12,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../components/ui/ta
 import { Switch } from "../../components/ui/switch";
 import { useToast } from "../../hooks/use-toast";
 import { getProductsV2Api } from "../../lib/products/productsV2";
+import { POWERTRAIN_ELIGIBILITY_LABELS } from "../../lib/products/eligibility";
+import { EV_COVERAGE_CATEGORY, withEvCoverageCategory } from "../../lib/products/evCoverage";
+import type { PowertrainEligibility } from "../../lib/products/types";
 import type { ProductV2, CoverageCategory, PricingRow, Benefit, TermsSection } from "../../lib/products/typesV2";
 import {
   Save, ArrowLeft, Plus, Trash2, Sparkles, Eye,
@@ -31,6 +34,10 @@ interface ProductForm {
   maxMileage: string;
   vehicleTypes: string;
   premiumMakes: string;
+  excludedMakes: string;
+  excludedModels: string;
+  maxMonthsInService: string;
+  powertrainEligibility: PowertrainEligibility;
   deductible: string;
   perClaim: string;
   eligibilityLabel: string;
@@ -60,6 +67,7 @@ const TYPE_LABELS: Record<string, string> = {
 const emptyForm: ProductForm = {
   name: "", type: "VSC", description: "", group: "", slug: "",
   maxAge: "", maxMileage: "", vehicleTypes: "", premiumMakes: "",
+  excludedMakes: "", excludedModels: "", maxMonthsInService: "", powertrainEligibility: "ALL",
   deductible: "", perClaim: "", eligibilityLabel: "",
   coverageCategories: [],
   pricingRows: [],
@@ -111,6 +119,10 @@ function productToForm(product: ProductV2): ProductForm {
     maxMileage: String(er.maxMileage || er.max_mileage || ""),
     vehicleTypes: er.vehicleTypes || er.vehicle_types || "",
     premiumMakes: (er.premiumMakes || er.premium_makes || er.makes || []).join?.(", ") ?? "",
+    excludedMakes: (er.excludedMakes || []).join?.(", ") ?? "",
+    excludedModels: (er.excludedModels || []).join?.(", ") ?? "",
+    maxMonthsInService: String(er.maxMonthsInService || ""),
+    powertrainEligibility: product.powertrainEligibility ?? "ALL",
     deductible: String(pr.deductible || ""),
     perClaim: String(pr.perClaim || pr.per_claim || ""),
     eligibilityLabel: pr.eligibility || "",
@@ -157,6 +169,9 @@ function formToDbFields(form: ProductForm) {
       maxAge: form.maxAge || undefined,
       maxMileage: form.maxMileage || undefined,
       makes: form.premiumMakes.split(",").map(s => s.trim()).filter(Boolean),
+      excludedMakes: form.excludedMakes.split(",").map(s => s.trim()).filter(Boolean),
+      excludedModels: form.excludedModels.split(",").map(s => s.trim()).filter(Boolean),
+      maxMonthsInService: form.maxMonthsInService || undefined,
     },
   };
 }
@@ -291,6 +306,7 @@ export default function ProviderProductEditorPage() {
           coverageDetails: db.coverageDetails as any,
           pricing: db.pricing as any,
           eligibilityRules: db.eligibilityRules as any,
+          powertrainEligibility: form.powertrainEligibility,
         });
         if (publishOnSave) setPublished(true);
       } else {
@@ -302,6 +318,7 @@ export default function ProviderProductEditorPage() {
           coverageDetails: db.coverageDetails as any,
           pricing: db.pricing as any,
           eligibilityRules: db.eligibilityRules as any,
+          powertrainEligibility: form.powertrainEligibility,
         });
         if (publishOnSave !== undefined) setPublished(publishOnSave);
       }
@@ -475,6 +492,25 @@ export default function ProviderProductEditorPage() {
                 </div>
                 <div><Label>Eligible Vehicle Types</Label><Input value={form.vehicleTypes} onChange={(e) => updateForm({ vehicleTypes: e.target.value })} /><p className="text-xs text-muted-foreground mt-1">Comma-separated</p></div>
                 <div><Label>Premium Makes (surcharge applies)</Label><Input value={form.premiumMakes} onChange={(e) => updateForm({ premiumMakes: e.target.value })} /><p className="text-xs text-muted-foreground mt-1">Comma-separated</p></div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div><Label>Excluded Makes</Label><Input value={form.excludedMakes} onChange={(e) => updateForm({ excludedMakes: e.target.value })} /><p className="text-xs text-muted-foreground mt-1">Comma-separated</p></div>
+                  <div><Label>Excluded Models</Label><Input value={form.excludedModels} onChange={(e) => updateForm({ excludedModels: e.target.value })} /><p className="text-xs text-muted-foreground mt-1">Comma-separated</p></div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div><Label>Max Months Since In-Service</Label><Input type="number" value={form.maxMonthsInService} onChange={(e) => updateForm({ maxMonthsInService: e.target.value })} /></div>
+                  <div>
+                    <Label>Eligible Powertrains</Label>
+                    <Select value={form.powertrainEligibility} onValueChange={(v) => updateForm({ powertrainEligibility: v as PowertrainEligibility })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(POWERTRAIN_ELIGIBILITY_LABELS).map(([val, label]) => (
+                          <SelectItem key={val} value={val}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground mt-1">Dealers cannot sell this product on a vehicle outside this list.</p>
+                  </div>
+                </div>
               </CardContent>
             </Card>
           </TabsContent>
@@ -485,7 +521,17 @@ export default function ProviderProductEditorPage() {
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <CardTitle>Coverage Details</CardTitle>
-                  <Button size="sm" variant="outline" onClick={addCoverageCategory}><Plus className="w-3.5 h-3.5 mr-1" /> Add Category</Button>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateForm({ coverageCategories: withEvCoverageCategory(form.coverageCategories) })}
+                      disabled={form.coverageCategories.some((c) => c.name.trim().toLowerCase() === EV_COVERAGE_CATEGORY.toLowerCase())}
+                    >
+                      <Plus className="w-3.5 h-3.5 mr-1" /> EV Components
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={addCoverageCategory}><Plus className="w-3.5 h-3.5 mr-1" /> Add Category</Button>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="space-y-6">
@@ -1,5 +1,6 @@
 import { useState, useEffect, useMemo } from "react";
 import DashboardLayout, { providerNavItems } from "../../components/dashboard/DashboardLayout";
+import { RemittanceAgingReport } from "../../components/remittances/RemittanceAgingReport";
 import { Card, CardContent, CardHeader } from "../../components/ui/card";
 import { Badge } from "../../components/ui/badge";
 import { Button } from "../../components/ui/button";
@@ -170,6 +171,8 @@ export default function ProviderRemittancesPage2() {
           </Card>
         </div>
 
+        <RemittanceAgingReport />
+
         <Card>
           <Tabs value={tab} onValueChange={setTab}>
             <CardHeader className="pb-3">
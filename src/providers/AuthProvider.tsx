@@ -8,9 +8,23 @@ import {
 } from "react";
 
 import { getAppMode, type AppMode } from "../lib/runtime";
+import { logAuditEvent } from "../lib/auditLog";
 import { getAuthApi } from "../lib/auth/auth";
 import type { AuthUser, Role } from "../lib/auth/types";
 import { syncDealerRetailOverridesFromSupabase } from "../lib/dealerProductRetail";
+import { getImpersonationApi } from "../lib/impersonation/impersonation";
+import {
+  impersonationExpired,
+  installLocalWriteGuard,
+  readActiveImpersonation,
+  writeActiveImpersonation,
+} from "../lib/impersonation/session";
+import type {
+  ActiveImpersonation,
+  ImpersonationEndReason,
+  ImpersonationSession,
+  StartImpersonationInput,
+} from "../lib/impersonation/types";
 
 const DEV_BYPASS_KEY = "warrantyhub.dev.bypass_user";
 
@@ -24,6 +38,22 @@ function readDevBypassUser(): AuthUser | null {
   }
 }
 
+// The session stays open on the server until it expires, so a failed stop is reported and
+// left on the audit trail rather than swallowed.
+function reportImpersonationStopFailed(active: ActiveImpersonation, reason: ImpersonationEndReason, err: unknown) {
+  const message = err instanceof Error ? err.message : String(err);
+  console.error("impersonation_stop_failed", { sessionId: active.session.id, reason, message });
+  logAuditEvent({
+    kind: "IMPERSONATION_STOP_FAILED",
+    actorUserId: active.session.adminUserId,
+    actorEmail: active.session.adminEmail,
+    entityType: "user",
+    entityId: active.session.targetUserId,
+    message: `Could not end the session viewing as ${active.session.targetEmail ?? active.session.targetUserId}: ${message}`,
+    meta: { sessionId: active.session.id, reason },
+  });
+}
+
 type AuthContextValue = {
   mode: AppMode;
   user: AuthUser | null;
@@ -34,6 +64,12 @@ type AuthContextValue = {
   signUp(email: string, password: string): Promise<void>;
   signOut(): Promise<void>;
   devSignInAs(role: Role): void;
+  // While an admin views the portal as someone else, `user` is that person and
+  // `realUser` is the signed-in admin.
+  impersonation: ImpersonationSession | null;
+  realUser: AuthUser | null;
+  startImpersonation(input: StartImpersonationInput): Promise<AuthUser>;
+  stopImpersonation(reason?: ImpersonationEndReason): Promise<void>;
 };
 
 const AuthContext = createContext<AuthContextValue | null>(null);
@@ -41,9 +77,16 @@ const AuthContext = createContext<AuthContextValue | null>(null);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [impersonation, setImpersonation] = useState<ActiveImpersonation | null>(null);
+  const [realUser, setRealUser] = useState<AuthUser | null>(null);
   const mode = useMemo(() => getAppMode(), []);
 
   const api = useMemo(() => getAuthApi(), []);
+  const impersonationApi = useMemo(() => getImpersonationApi(), []);
+
+  useEffect(() => {
+    if (mode === "local") installLocalWriteGuard();
+  }, [mode]);
 
   const refreshUser = useCallback(async () => {
     setIsLoading(true);
@@ -56,6 +99,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
       }
       const u = await api.getCurrentUser();
+
+      const active = readActiveImpersonation();
+      if (active && u && active.session.adminUserId === u.id && !impersonationExpired(active)) {
+        setRealUser(u);
+        setImpersonation(active);
+        setUser(active.user);
+        return active.user;
+      }
+      if (active) {
+        writeActiveImpersonation(null);
+        if (u && active.session.adminUserId === u.id) {
+          void impersonationApi.stop(active.session, "EXPIRED").catch((err) => reportImpersonationStopFailed(active, "EXPIRED", err));
+        }
+      }
+
+      setRealUser(null);
+      setImpersonation(null);
       setUser(u);
 
       if (mode === "supabase" && u?.dealerId) {
@@ -69,7 +129,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setIsLoading(false);
     }
-  }, [api, mode]);
+  }, [api, impersonationApi, mode]);
 
   useEffect(() => {
     void refreshUser();
@@ -122,6 +182,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       if (import.meta.env.DEV) {
         localStorage.removeItem(DEV_BYPASS_KEY);
       }
+      const active = readActiveImpersonation();
+      if (active) {
+        writeActiveImpersonation(null);
+        setImpersonation(null);
+        setRealUser(null);
+        try {
+          await impersonationApi.stop(active.session, "ENDED");
+        } catch (err) {
+          reportImpersonationStopFailed(active, "ENDED", err);
+        }
+      }
       setUser(null);
       try {
         await Promise.race([
@@ -135,7 +206,47 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setIsLoading(false);
     }
-  }, [api]);
+  }, [api, impersonationApi]);
+
+  const startImpersonation = useCallback(
+    async (input: StartImpersonationInput) => {
+      if (readActiveImpersonation()) throw new Error("Stop the current view-as session first");
+      const active = await impersonationApi.start(input);
+      writeActiveImpersonation(active);
+      setRealUser(user);
+      setImpersonation(active);
+      setUser(active.user);
+      return active.user;
+    },
+    [impersonationApi, user],
+  );
+
+  const stopImpersonation = useCallback(
+    async (reason: ImpersonationEndReason = "ENDED") => {
+      const active = readActiveImpersonation();
+      writeActiveImpersonation(null);
+      setImpersonation(null);
+      if (active) {
+        try {
+          await impersonationApi.stop(active.session, reason);
+        } catch (err) {
+          reportImpersonationStopFailed(active, reason, err);
+        }
+      }
+      await refreshUser();
+    },
+    [impersonationApi, refreshUser],
+  );
+
+  // Sessions are time-boxed: drop back to the admin's own view when one runs out.
+  useEffect(() => {
+    if (!impersonation) return;
+    const remaining = new Date(impersonation.session.expiresAt).getTime() - Date.now();
+    const timer = window.setTimeout(() => {
+      void stopImpersonation("EXPIRED");
+    }, Math.max(0, remaining));
+    return () => window.clearTimeout(timer);
+  }, [impersonation, stopImpersonation]);
 
   const devSignInAs = useCallback((role: Role) => {
     if (!import.meta.env.DEV) throw new Error("Dev bypass is only available in development");
@@ -170,6 +281,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     signUp,
     signOut,
     devSignInAs,
+    impersonation: impersonation?.session ?? null,
+    realUser,
+    startImpersonation,
+    stopImpersonation,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { auditDateBounds, matchesAuditFilters } from "../lib/audit/filters";
+import { localAuditApi } from "../lib/audit/localAudit";
+import auditMigration from "../../supabase/migrations/20260527010000_audit_events.sql?raw";
+import adminDealerTools from "../../supabase/functions/admin-dealer-tools/index.ts?raw";
+import dealerCreateContract from "../../supabase/functions/dealer-create-contract/index.ts?raw";
+import dealerTeamTools from "../../supabase/functions/dealer-team-tools/index.ts?raw";
+import stripeWebhook from "../../supabase/functions/stripe-webhook/index.ts?raw";
+
+describe("local audit log", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("filters by entity, actor, kind and date and pages newest first", async () => {
+    localAuditApi.log({ kind: "CONTRACT_CREATED", actorEmail: "Ann@dealer.test", entityType: "contract", entityId: "c1", createdAt: "2026-03-01T10:00:00.000Z" });
+    localAuditApi.log({ kind: "CONTRACT_SOLD", actorEmail: "ann@dealer.test", entityType: "contract", entityId: "c1", createdAt: "2026-03-02T10:00:00.000Z" });
+    localAuditApi.log({ kind: "ROLE_CHANGED", actorEmail: "root@platform.test", entityType: "profile", entityId: "u1", createdAt: "2026-03-03T10:00:00.000Z" });
+
+    const contract = await localAuditApi.list({ entityType: "contract", entityId: "c1" });
+    expect(contract.total).toBe(2);
+    expect(contract.data.map((e) => e.kind)).toEqual(["CONTRACT_SOLD", "CONTRACT_CREATED"]);
+
+    expect((await localAuditApi.list({ actorEmail: "ANN@" })).total).toBe(2);
+    expect((await localAuditApi.list({ kind: "ROLE_CHANGED" })).data[0].entityId).toBe("u1");
+    expect((await localAuditApi.list({ from: "2026-03-02T00:00:00.000Z" })).total).toBe(2);
+
+    const page = await localAuditApi.list({ offset: 1, limit: 1 });
+    expect(page.total).toBe(3);
+    expect(page.data.map((e) => e.kind)).toEqual(["CONTRACT_SOLD"]);
+    expect(await localAuditApi.verifyChain()).toBeNull();
+  });
+
+  it("treats a bare date as the whole local day", () => {
+    const { from, to } = auditDateBounds({ from: "2026-03-02", to: "2026-03-02" });
+    expect(new Date(from!).getTime()).toBe(new Date("2026-03-02T00:00:00").getTime());
+    expect(new Date(to!).getTime()).toBe(new Date("2026-03-02T23:59:59.999").getTime());
+
+    const evt = { id: "e1", kind: "X", createdAt: new Date("2026-03-02T18:30:00").toISOString() };
+    expect(matchesAuditFilters(evt, { from: "2026-03-02", to: "2026-03-02" })).toBe(true);
+    expect(matchesAuditFilters(evt, { to: "2026-03-01" })).toBe(false);
+  });
+});
+
+describe("server audit trail", () => {
+  it("hash-chains append-only rows and exposes chain verification", () => {
+    expect(auditMigration).toContain("create table if not exists public.audit_events");
+    expect(auditMigration).toContain("pg_advisory_xact_lock");
+    expect(auditMigration).toContain("new.prev_hash := coalesce(last_hash, repeat('0', 64));");
+    expect(auditMigration).toContain("raise exception 'Audit events are append-only'");
+    expect(auditMigration).toContain("create or replace function public.verify_audit_chain");
+    expect(auditMigration).toMatch(/after insert or update or delete on public\.contracts/);
+    expect(auditMigration).toMatch(/after insert or update or delete on public\.batches/);
+    expect(auditMigration).toMatch(/after insert or update or delete on public\.product_pricing/);
+  });
+
+  it("stamps the role from the session and only files app events under the caller's own tenant", () => {
+    const fn = auditMigration.slice(auditMigration.indexOf("create or replace function public.log_audit_event("));
+    expect(fn).not.toContain("p_actor_role");
+    expect(fn).toContain("(select p.role::text from public.profiles p where p.id = auth.uid())");
+    expect(fn).toContain("raise exception 'Not a member of this dealer'");
+    expect(fn).toContain("raise exception 'Not a member of this provider'");
+  });
+
+  it("records events from every privileged edge function", () => {
+    for (const source of [adminDealerTools, dealerTeamTools, dealerCreateContract, stripeWebhook]) {
+      expect(source).toContain('from "../_shared/audit.ts"');
+    }
+    expect(dealerCreateContract).toContain('kind: "CONTRACT_CREATED"');
+    expect(adminDealerTools).toContain('kind: "DEALER_MEMBER_ADDED"');
+    expect(dealerTeamTools).toContain('kind: "EMPLOYEE_CREATED"');
+    expect(stripeWebhook).toContain('kind: "SUBSCRIPTION_CHECKOUT_COMPLETED"');
+  });
+});
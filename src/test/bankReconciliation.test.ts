@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { localBankReconciliationApi } from "../lib/bankReconciliation/localBankReconciliation";
+import { proposeReconciliationMatches, statementPaymentMethod } from "../lib/bankReconciliation/matching";
+import { parseBankStatement, parseStatementAmount, parseStatementDate } from "../lib/bankReconciliation/statement";
+import type { BankStatementLine } from "../lib/bankReconciliation/types";
+import { localBatchesApi } from "../lib/batches/localBatches";
+import type { Batch } from "../lib/batches/types";
+import type { RemittanceActor } from "../lib/batches/workflow";
+import { localContractsApi } from "../lib/contracts/localContracts";
+import { READ_ONLY_MESSAGE, installLocalWriteGuard, writeActiveImpersonation } from "../lib/impersonation/session";
+
+const provider: RemittanceActor = { id: "provider-1", email: "provider@example.com", role: "PROVIDER" };
+
+function batch(id: string, batchNumber: string, totalCents: number, patch: Partial<Batch> = {}): Batch {
+  return {
+    id,
+    batchNumber,
+    status: "CLOSED",
+    paymentStatus: "UNPAID",
+    remittanceStatus: "APPROVED",
+    contractIds: [`c-${id}`],
+    creditNoteIds: [],
+    subtotalCents: totalCents,
+    taxRate: 0,
+    taxCents: 0,
+    taxBreakdown: [],
+    totalCents,
+    paidCents: 0,
+    providerId: "provider-1",
+    reviewedAt: "2026-06-01T15:00:00.000Z",
+    createdAt: "2026-05-28T10:00:00.000Z",
+    ...patch,
+  };
+}
+
+function line(key: string, amountCents: number, patch: Partial<BankStatementLine> = {}): BankStatementLine {
+  return { key, row: 1, postedDate: "2026-06-05", amountCents, description: "DEPOSIT", ...patch };
+}
+
+describe("bank statement parsing", () => {
+  it("reads CSV exports with a preamble, split credit/debit columns and bank date formats", () => {
+    const csv = [
+      "Account,12345-678",
+      "",
+      "Date,Description,Debit,Credit,Reference",
+      "06/05/2026,EFT DEPOSIT ACME WARRANTY,,\"1,250.00\",REM-1001",
+      "2026-06-06,SERVICE FEE,4.95,,",
+      "31/06/2026,BAD DATE,,10.00,",
+      "06/07/2026,EFT DEPOSIT ACME WARRANTY,,\"1,250.00\",REM-1001",
+    ].join("\n");
+    const statement = parseBankStatement("june.csv", csv);
+    expect(statement.format).toBe("CSV");
+    expect(statement.issues).toEqual([{ row: 6, message: 'Unrecognised date "31/06/2026".' }]);
+    expect(statement.lines.map((l) => [l.row, l.postedDate, l.amountCents, l.reference])).toEqual([
+      [4, "2026-06-05", 125000, "REM-1001"],
+      [5, "2026-06-06", -495, undefined],
+      [7, "2026-06-07", 125000, "REM-1001"],
+    ]);
+    expect(new Set(statement.lines.map((l) => l.key)).size).toBe(3);
+
+    expect(parseStatementDate("20260605120000[-5:EST]")).toBe("2026-06-05");
+    expect(parseStatementDate("5-Jun-2026")).toBe("2026-06-05");
+    expect(parseStatementAmount("(12.50)")).toBe(-1250);
+    expect(parseStatementAmount("1,234.56 DR")).toBe(-123456);
+  });
+
+  it("reads SGML OFX and QFX transactions keyed by FITID", () => {
+    const ofx = [
+      "OFXHEADER:100",
+      "DATA:OFXSGML",
+      "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>",
+      "<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260605<TRNAMT>1250.00<FITID>A1<NAME>ACME WARRANTY<MEMO>REM-1001</STMTTRN>",
+      "<STMTTRN><TRNTYPE>CHECK<DTPOSTED>20260606<TRNAMT>300.00<FITID>A2<CHECKNUM>5521<NAME>CHEQUE DEPOSIT</STMTTRN>",
+      "</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+    ].join("\n");
+    const statement = parseBankStatement("june.qfx", ofx);
+    expect(statement.format).toBe("OFX");
+    expect(statement.lines).toEqual([
+      { key: "ofx:A1", row: 1, postedDate: "2026-06-05", amountCents: 125000, description: "ACME WARRANTY REM-1001", reference: undefined, checkNumber: undefined },
+      { key: "ofx:A2", row: 2, postedDate: "2026-06-06", amountCents: 30000, description: "CHEQUE DEPOSIT", reference: undefined, checkNumber: "5521" },
+    ]);
+    expect(statementPaymentMethod(statement.lines[1]!)).toBe("CHEQUE");
+    expect(statementPaymentMethod(statement.lines[0]!)).toBe("EFT");
+  });
+});
+
+describe("deposit matching", () => {
+  const batches = [
+    batch("b-1", "REM-1001", 125000),
+    batch("b-2", "REM-1002", 40000),
+    batch("b-3", "REM-1003", 60000),
+    batch("b-4", "REM-1004", 90000),
+    batch("b-5", "REM-1005", 77700, { remittanceStatus: "SUBMITTED" }),
+  ];
+
+  it("prefers remittance numbers, then exact amounts, then combinations, and flags short payments", () => {
+    const { proposals, unmatched } = proposeReconciliationMatches(
+      [
+        line("ref", 120000, { reference: "REM-1001" }),
+        line("amount", 90000),
+        line("combined", 100000),
+        line("unknown", 77700),
+        line("withdrawal", -5000),
+        line("old", 90000, { postedDate: "2026-09-30" }),
+      ],
+      batches,
+    );
+    expect(proposals.map((p) => [p.line.key, p.batchIds, p.kind, p.confidence, p.shortfallCents])).toEqual([
+      ["ref", ["b-1"], "SHORT", "MEDIUM", 5000],
+      ["amount", ["b-4"], "EXACT", "MEDIUM", 0],
+      ["combined", ["b-2", "b-3"], "COMBINED", "MEDIUM", 0],
+    ]);
+    expect(unmatched.map((l) => l.key)).toEqual(["unknown", "old"]);
+
+    expect(proposeReconciliationMatches([line("ref", 120000, { reference: "REM-1001" })], batches, { appliedLineKeys: ["ref"] }).proposals).toEqual([]);
+  });
+});
+
+describe("local deposit application", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem(
+      "warrantyhub.local.contracts",
+      JSON.stringify(
+        ["b-1", "b-2"].map((id) => ({
+          id: `c-${id}`,
+          warrantyId: `WH-${id}`,
+          contractNumber: id,
+          customerName: "Jane Doe",
+          status: "REMITTED",
+          createdAt: "2026-05-20T10:00:00.000Z",
+          updatedAt: "2026-05-20T10:00:00.000Z",
+        })),
+      ),
+    );
+    localStorage.setItem("warrantyhub.local.batches", JSON.stringify([batch("b-1", "REM-1001", 125000), batch("b-2", "REM-1002", 40000)]));
+  });
+
+  afterEach(() => {
+    writeActiveImpersonation(null);
+  });
+
+  it("spreads the deposit over the match, records the line once and leaves any shortfall outstanding", async () => {
+    const deposit = line("ofx:A1", 160000, { checkNumber: "5521" });
+    await expect(
+      localBankReconciliationApi.applyDeposit({ statementFileName: "june.ofx", statementFormat: "OFX", line: { ...deposit, amountCents: 170000 }, batchIds: ["b-1", "b-2"] }, provider),
+    ).rejects.toThrow(/more than the \$1650\.00 outstanding/);
+
+    const match = await localBankReconciliationApi.applyDeposit(
+      { statementFileName: "june.ofx", statementFormat: "OFX", line: deposit, batchIds: ["b-1", "b-2"] },
+      provider,
+    );
+    expect(match).toMatchObject({ providerId: "provider-1", paymentMethod: "CHEQUE", shortfallCents: 5000, batchIds: ["b-1", "b-2"] });
+
+    const paid = await localBatchesApi.list();
+    expect(paid.map((b) => [b.id, b.remittanceStatus, b.paidCents])).toEqual([
+      ["b-1", "PAID", 125000],
+      ["b-2", "PARTIALLY_PAID", 35000],
+    ]);
+    expect(paid.every((b) => b.paymentDate === "2026-06-05" && b.paymentReference === "5521")).toBe(true);
+    expect((await localContractsApi.list()).map((c) => c.status)).toEqual(["PAID", "REMITTED"]);
+    expect(await localBankReconciliationApi.listDeposits()).toHaveLength(1);
+    expect((await localBatchesApi.listPayments()).every((p) => p.bankDepositId === match.id)).toBe(true);
+
+    await expect(
+      localBankReconciliationApi.applyDeposit({ statementFileName: "june.ofx", statementFormat: "OFX", line: deposit, batchIds: ["b-1"] }, provider),
+    ).rejects.toThrow(/not awaiting payment/);
+  });
+
+  it("won't record a deposit while an admin is viewing as the provider", async () => {
+    installLocalWriteGuard();
+    writeActiveImpersonation({
+      session: {
+        id: "s-1",
+        adminUserId: "a-1",
+        targetUserId: "provider-1",
+        targetRole: "PROVIDER",
+        reason: "Ticket 42",
+        startedAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      },
+      user: { id: "provider-1", email: "provider@example.com", role: "PROVIDER" },
+    });
+
+    await expect(
+      localBankReconciliationApi.applyDeposit({ statementFileName: "june.ofx", statementFormat: "OFX", line: line("ofx:A1", 125000), batchIds: ["b-1"] }, provider),
+    ).rejects.toThrow(READ_ONLY_MESSAGE);
+    writeActiveImpersonation(null);
+    expect(await localBankReconciliationApi.listDeposits()).toEqual([]);
+    expect((await localBatchesApi.list()).map((b) => b.paidCents)).toEqual([0, 0]);
+  });
+});
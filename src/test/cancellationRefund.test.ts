@@ -0,0 +1,212 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import cancellationsMigration from "../../supabase/migrations/20260519010000_contract_cancellations.sql?raw";
+import { creditCancellationOnLockedRemittance } from "../lib/batches/creditNotes";
+import { localBatchesApi } from "../lib/batches/localBatches";
+import type { RemittanceActor } from "../lib/batches/workflow";
+import { localContractCancellationsApi } from "../lib/cancellations/localCancellations";
+import { calculateCancellationRefund } from "../lib/cancellations/refund";
+import { localContractsApi } from "../lib/contracts/localContracts";
+
+const base = {
+  startDate: "2026-01-01T00:00:00",
+  termMonths: 12,
+  termKm: 20000,
+  startOdometerKm: 50000,
+  retailCents: 200000,
+  providerCostCents: 80000,
+};
+
+describe("contract cancellation refunds", () => {
+  it("refunds the unexpired share of time pro-rata and splits it between dealer and provider", () => {
+    const refund = calculateCancellationRefund({
+      ...base,
+      refundMethod: "PRO_RATA_TIME",
+      cancellationDate: "2026-07-02T00:00:00",
+      cancellationOdometerKm: 52000,
+    });
+
+    expect(refund.timeUsedFraction).toBeCloseTo(182 / 365, 6);
+    expect(refund.customerRefundCents).toBe(Math.round(200000 * (1 - 182 / 365)));
+    expect(refund.providerRefundCents).toBe(Math.round(80000 * (1 - 182 / 365)));
+    expect(refund.dealerRefundCents + refund.providerRefundCents).toBe(refund.customerRefundCents);
+    expect(refund.cancellationFeeCents).toBe(0);
+  });
+
+  it("uses the larger of time and km used when refunding whichever is less", () => {
+    const refund = calculateCancellationRefund({
+      ...base,
+      refundMethod: "PRO_RATA_LESSER",
+      cancellationDate: "2026-04-01T00:00:00",
+      cancellationOdometerKm: 65000,
+    });
+
+    expect(refund.kmUsedFraction).toBe(0.75);
+    expect(refund.refundFraction).toBeCloseTo(0.25, 6);
+    expect(refund.customerRefundCents).toBe(50000);
+    expect(refund.providerRefundCents).toBe(20000);
+  });
+
+  it("falls back to time when a km pro-rata product has an unlimited km term", () => {
+    const refund = calculateCancellationRefund({
+      ...base,
+      termKm: null,
+      refundMethod: "PRO_RATA_KM",
+      cancellationDate: base.startDate,
+      cancellationOdometerKm: 90000,
+    });
+
+    expect(refund.kmUsedFraction).toBeNull();
+    expect(refund.customerRefundCents).toBe(200000);
+  });
+
+  it("takes the short-rate cancellation fee from the dealer share first", () => {
+    const refund = calculateCancellationRefund({
+      ...base,
+      refundMethod: "SHORT_RATE",
+      cancellationFeeCents: 7500,
+      cancellationDate: base.startDate,
+      cancellationOdometerKm: 50000,
+    });
+
+    expect(refund.grossRefundCents).toBe(200000);
+    expect(refund.cancellationFeeCents).toBe(7500);
+    expect(refund.providerRefundCents).toBe(80000);
+    expect(refund.dealerRefundCents).toBe(200000 - 80000 - 7500);
+    expect(refund.customerRefundCents).toBe(200000 - 7500);
+  });
+
+  it("charges only the product's fee on a mid-term short-rate cancellation", () => {
+    const midTerm = { ...base, cancellationDate: "2026-07-02T00:00:00", cancellationOdometerKm: 52000 };
+    const proRata = calculateCancellationRefund({ ...midTerm, refundMethod: "PRO_RATA_TIME", cancellationFeeCents: 7500 });
+    const shortRate = calculateCancellationRefund({ ...midTerm, refundMethod: "SHORT_RATE", cancellationFeeCents: 7500 });
+
+    expect(proRata.cancellationFeeCents).toBe(0);
+    expect(shortRate.refundFraction).toBe(proRata.refundFraction);
+    expect(shortRate.customerRefundCents).toBe(proRata.customerRefundCents - 7500);
+    expect(shortRate.providerRefundCents).toBe(proRata.providerRefundCents);
+  });
+
+  it("never refunds below zero once the term is used up", () => {
+    const refund = calculateCancellationRefund({
+      ...base,
+      refundMethod: "SHORT_RATE",
+      cancellationFeeCents: 7500,
+      cancellationDate: "2027-06-01T00:00:00",
+      cancellationOdometerKm: 80000,
+    });
+
+    expect(refund.refundFraction).toBe(0);
+    expect(refund.cancellationFeeCents).toBe(0);
+    expect(refund.customerRefundCents).toBe(0);
+  });
+});
+
+describe("cancelling a contract", () => {
+  const dealer: RemittanceActor = { id: "dealer-1", email: "dealer@example.com", role: "DEALER_ADMIN" };
+
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem(
+      "warrantyhub.local.contracts",
+      JSON.stringify([
+        {
+          id: "c-1",
+          contractNumber: "CN-1001",
+          customerName: "Jane Doe",
+          customerProvince: "ON",
+          productId: "p-1",
+          status: "REMITTED",
+          soldAt: "2026-01-01T00:00:00",
+          pricingTermMonths: 12,
+          pricingTermKm: 20000,
+          vehicleMileageKm: 50000,
+          pricingBasePriceCents: 200000,
+          pricingDealerCostCents: 80000,
+          createdAt: "2026-01-01T00:00:00",
+        },
+        { id: "c-2", contractNumber: "CN-1002", customerName: "John Doe", status: "DRAFT", createdAt: "2026-01-01T00:00:00" },
+      ]),
+    );
+    localStorage.setItem(
+      "warrantyhub.local.products",
+      JSON.stringify([
+        {
+          id: "p-1",
+          providerId: "provider-1",
+          name: "Powertrain",
+          productType: "EXTENDED_WARRANTY",
+          published: true,
+          cancellationRefundMethod: "SHORT_RATE",
+          cancellationFeeCents: 7500,
+        },
+      ]),
+    );
+    localStorage.setItem(
+      "warrantyhub.local.batches",
+      JSON.stringify([
+        {
+          id: "b-1",
+          batchNumber: "R-1",
+          status: "CLOSED",
+          paymentStatus: "UNPAID",
+          remittanceStatus: "APPROVED",
+          contractIds: ["c-1"],
+          subtotalCents: 200000,
+          taxRate: 0,
+          taxCents: 0,
+          totalCents: 200000,
+          paidCents: 0,
+          providerId: "provider-1",
+          createdAt: "2026-01-02T10:00:00.000Z",
+        },
+      ]),
+    );
+  });
+
+  it("works out the refund from the product and marks the contract cancelled", async () => {
+    const cancellation = await localContractCancellationsApi.cancel({ contractId: "c-1", cancellationDate: "2026-01-01", odometerKm: 50000 }, dealer);
+    expect(cancellation).toMatchObject({
+      refundMethod: "SHORT_RATE",
+      cancellationFeeCents: 7500,
+      customerRefundCents: 192500,
+      providerRefundCents: 80000,
+      createdByUserId: "dealer-1",
+    });
+    expect((await localContractsApi.get("c-1"))?.cancelledAt).toBeTruthy();
+    expect(await localBatchesApi.listCreditNotes()).toEqual([]);
+
+    await expect(localContractCancellationsApi.cancel({ contractId: "c-1", cancellationDate: "2026-02-01", odometerKm: 51000 }, dealer)).rejects.toThrow(
+      "Contract is already cancelled",
+    );
+  });
+
+  it("credits the provider's refund on the locked remittance as a separate step", async () => {
+    const cancellation = await localContractCancellationsApi.cancel({ contractId: "c-1", cancellationDate: "2026-01-01", odometerKm: 50000 }, dealer);
+
+    await expect(
+      creditCancellationOnLockedRemittance(localBatchesApi, cancellation, { ...dealer, role: "DEALER_EMPLOYEE", permissions: [] }),
+    ).resolves.toBeNull();
+    expect(await localBatchesApi.listCreditNotes()).toEqual([]);
+
+    const note = await creditCancellationOnLockedRemittance(localBatchesApi, cancellation, dealer);
+    expect(note).toMatchObject({ contractId: "c-1", originalBatchId: "b-1", subtotalCents: -80000, cancellationId: cancellation.id });
+    expect(await localBatchesApi.listCreditNotes()).toHaveLength(1);
+  });
+
+  it("refuses drafts and impossible odometer readings", async () => {
+    await expect(localContractCancellationsApi.cancel({ contractId: "c-2", cancellationDate: "2026-02-01", odometerKm: 0 }, dealer)).rejects.toThrow(
+      "Only a sold contract can be cancelled",
+    );
+    await expect(localContractCancellationsApi.cancel({ contractId: "c-1", cancellationDate: "2026-02-01", odometerKm: 40000 }, dealer)).rejects.toThrow(
+      "Odometer at cancellation cannot be lower than at sale",
+    );
+  });
+
+  it("cancels through one security definer function on the server", () => {
+    expect(cancellationsMigration).toContain("create or replace function public.cancel_contract(");
+    expect(cancellationsMigration).toContain("set status_new = 'cancelled',");
+    expect(cancellationsMigration).toContain("insert into public.contract_remittances (contract_id, amount, due_date)");
+    expect(cancellationsMigration).not.toMatch(/contract_cancellations_dealer_member"\s+on public\.contract_cancellations\s+for all/);
+  });
+});
@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import claimsMigration from "../../supabase/migrations/20260520010000_claims.sql?raw";
+import {
+  calculateClaimTotals,
+  claimLineCoverage,
+  claimStatusFromLines,
+  priorPaidCents,
+  resolveClaimLimit,
+} from "../lib/claims/adjudication";
+import { localClaimsApi } from "../lib/claims/localClaims";
+import type { Claim } from "../lib/claims/types";
+
+const coverageItems = [
+  { id: "engine", name: "Engine", status: "included" as const },
+  { id: "brakes", name: "Brakes", status: "not_included" as const },
+  { id: "turbo", name: "Turbocharger", status: "term_specific" as const },
+];
+
+function claim(partial: Partial<Claim>): Claim {
+  return {
+    id: "c1",
+    claimNumber: "CLM-1",
+    contractId: "k1",
+    status: "APPROVED",
+    lossDate: "2026-03-01",
+    odometerKm: 60000,
+    complaint: "Noise",
+    lines: [],
+    deductibleCents: 0,
+    requestedCents: 0,
+    approvedCents: 0,
+    payableCents: 0,
+    openedByRole: "DEALER",
+    createdAt: "2026-03-01T00:00:00.000Z",
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    ...partial,
+  };
+}
+
+describe("claim adjudication", () => {
+  it("checks repair lines against the product's coverage items", () => {
+    expect(claimLineCoverage(coverageItems, "engine")).toBe("included");
+    expect(claimLineCoverage(coverageItems, "brakes")).toBe("not_included");
+    expect(claimLineCoverage(coverageItems, "turbo")).toBe("term_specific");
+    expect(claimLineCoverage(coverageItems, "radio")).toBe("unlisted");
+    expect(claimLineCoverage(coverageItems, undefined)).toBe("unlisted");
+  });
+
+  it("takes the deductible off approved lines and caps a per-claim limit", () => {
+    const totals = calculateClaimTotals({
+      lines: [
+        { partsCents: 150000, laborCents: 50000, decision: "APPROVED", approvedCents: 200000 },
+        { partsCents: 30000, laborCents: 10000, decision: "DENIED", approvedCents: 0 },
+      ],
+      deductibleCents: 10000,
+      claimLimitType: "PER_CLAIM",
+      claimLimitCents: 150000,
+      priorPaidCents: 500000,
+    });
+
+    expect(totals.requestedCents).toBe(240000);
+    expect(totals.approvedCents).toBe(200000);
+    expect(totals.deductibleAppliedCents).toBe(10000);
+    expect(totals.limitUsedBeforeCents).toBe(0);
+    expect(totals.payableCents).toBe(150000);
+    expect(totals.overLimitCents).toBe(40000);
+    expect(totals.limitRemainingCents).toBe(0);
+  });
+
+  it("counts earlier payouts against a total coverage limit", () => {
+    const prior = priorPaidCents(
+      [
+        claim({ id: "a", payableCents: 300000 }),
+        claim({ id: "b", status: "DENIED", payableCents: 0 }),
+        claim({ id: "c", status: "SUBMITTED", payableCents: 0 }),
+        claim({ id: "self", payableCents: 99999 }),
+      ],
+      "self",
+    );
+    expect(prior).toBe(300000);
+
+    const totals = calculateClaimTotals({
+      lines: [{ partsCents: 250000, laborCents: 0, decision: "APPROVED", approvedCents: 250000 }],
+      deductibleCents: 0,
+      claimLimitType: "TOTAL_COVERAGE",
+      claimLimitCents: 500000,
+      priorPaidCents: prior,
+    });
+
+    expect(totals.limitUsedBeforeCents).toBe(300000);
+    expect(totals.payableCents).toBe(200000);
+    expect(totals.limitRemainingCents).toBe(0);
+  });
+
+  it("resolves FMV and max retail limits from the vehicle value and the contract price", () => {
+    expect(resolveClaimLimit({ pricing: { claimLimitType: "FMV" }, vehicleValueCents: 1800000 })).toEqual({
+      claimLimitType: "FMV",
+      claimLimitCents: 1800000,
+    });
+    expect(resolveClaimLimit({ pricing: { claimLimitType: "MAX_RETAIL" }, contractRetailCents: 249500 })).toEqual({
+      claimLimitType: "MAX_RETAIL",
+      claimLimitCents: 249500,
+    });
+    expect(resolveClaimLimit({ pricing: { claimLimitCents: 300000 } })).toEqual({
+      claimLimitType: "PER_CLAIM",
+      claimLimitCents: 300000,
+    });
+    expect(resolveClaimLimit({ pricing: null })).toEqual({});
+  });
+
+  it("derives the claim status from line decisions", () => {
+    const line = { partsCents: 10000, laborCents: 0 };
+    expect(claimStatusFromLines([{ ...line, decision: "PENDING", approvedCents: 0 }])).toBe("SUBMITTED");
+    expect(claimStatusFromLines([{ ...line, decision: "DENIED", approvedCents: 0 }])).toBe("DENIED");
+    expect(claimStatusFromLines([{ ...line, decision: "APPROVED", approvedCents: 10000 }])).toBe("APPROVED");
+    expect(
+      claimStatusFromLines([
+        { ...line, decision: "APPROVED", approvedCents: 10000 },
+        { ...line, decision: "DENIED", approvedCents: 0 },
+      ]),
+    ).toBe("PARTIALLY_APPROVED");
+  });
+});
+
+describe("adjudicating a claim", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("keeps the opened lines and terms and recomputes the totals, whatever the client sends", async () => {
+    const opened = await localClaimsApi.create({
+      contractId: "k1",
+      lossDate: "2026-03-01",
+      odometerKm: 60000,
+      complaint: "Noise",
+      lines: [
+        { description: "Engine", coverage: "included", partsCents: 100000, laborCents: 20000 },
+        { description: "Brakes", coverage: "not_included", partsCents: 30000, laborCents: 0 },
+      ],
+      deductibleCents: 10000,
+      claimLimitType: "PER_CLAIM",
+      claimLimitCents: 100000,
+      openedByRole: "PROVIDER",
+    });
+    const [engine, brakes] = opened.lines;
+
+    const adjudicated = await localClaimsApi.adjudicate(opened.id, {
+      lines: [
+        { ...engine!, partsCents: 900000, decision: "APPROVED", approvedCents: 900000 },
+        { ...brakes!, decision: "DENIED", approvedCents: 0, denialReason: "Wear item" },
+        { ...engine!, id: "extra", decision: "APPROVED", approvedCents: 500000 },
+      ],
+      status: "APPROVED",
+      approvedCents: 5_000_000,
+      payableCents: 5_000_000,
+    });
+
+    expect(adjudicated.lines).toHaveLength(2);
+    expect(adjudicated.lines[0]).toMatchObject({ partsCents: 100000, decision: "APPROVED" });
+    expect(adjudicated.lines[1]).toMatchObject({ decision: "DENIED", denialReason: "Wear item" });
+    expect(adjudicated.status).toBe("PARTIALLY_APPROVED");
+    expect(adjudicated.approvedCents).toBe(120000);
+    expect(adjudicated.payableCents).toBe(100000);
+    expect(adjudicated.deductibleCents).toBe(10000);
+    expect(adjudicated.claimLimitCents).toBe(100000);
+  });
+});
+
+describe("claims migration", () => {
+  it("sets a new claim's terms on the server and never lets providers delete claims", () => {
+    expect(claimsMigration).toContain("before insert on public.claims");
+    expect(claimsMigration).toContain("new.deductible_cents := coalesce(_c.pricing_deductible_cents, 0);");
+    expect(claimsMigration).toContain("new.payable_cents := 0;");
+    expect(claimsMigration).not.toContain('create policy "claims_provider_all"');
+    expect(claimsMigration).not.toMatch(/claims_provider_\w+"\s+on public\.claims\s+for (all|delete)/);
+  });
+
+  it("only opens claims on sold contracts that were not cancelled", () => {
+    expect(claimsMigration).toContain("if _c.status not in ('SOLD', 'REMITTED', 'PAID') then");
+    expect(claimsMigration).toContain("select 1 from public.contract_cancellations cc where cc.contract_id = _c.id");
+  });
+
+  it("recomputes adjudicated totals on the server from the snapshotted terms", () => {
+    expect(claimsMigration).toContain("before update on public.claims");
+    for (const column of ["contract_id", "deductible_cents", "claim_limit_type", "claim_limit_cents", "requested_cents"]) {
+      expect(claimsMigration).toContain(`new.${column} := old.${column};`);
+    }
+    expect(claimsMigration).toContain("from jsonb_array_elements(old.lines) with ordinality o(l, ord)");
+    expect(claimsMigration).toContain("new.payable_cents := case");
+  });
+});
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { localContractHistoryApi } from "../lib/contractHistory/localContractHistory";
+import { diffContracts, formatContractFieldValue } from "../lib/contractHistory/diff";
+import { localContractsApi } from "../lib/contracts/localContracts";
+import type { Contract } from "../lib/contracts/types";
+import contractChangesMigration from "../../supabase/migrations/20260528010000_contract_changes.sql?raw";
+
+const actor = { actorUserId: "u1", actorEmail: "dealer@example.com" };
+
+describe("contract change history", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("records a before/after diff with the actor for each saved edit", async () => {
+    const c = await localContractsApi.create({ contractNumber: "C-1", customerName: "Ann Lee" });
+    await localContractsApi.update(c.id, { vin: "1HGCM82633A004352", vehicleMileageKm: 42000 }, actor);
+    await localContractsApi.update(c.id, { vehicleMileageKm: 42000 }, actor);
+
+    const history = await localContractHistoryApi.listByContract(c.id);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ actorEmail: "dealer@example.com" });
+    expect(history[0].changes).toEqual([
+      { field: "vin", before: null, after: "1HGCM82633A004352" },
+      { field: "vehicleMileageKm", before: null, after: 42000 },
+    ]);
+  });
+
+  it("requires a reason to change pricing once the contract is sold", async () => {
+    const c = await localContractsApi.create({ contractNumber: "C-2", customerName: "Bo Chen", pricingVehicleClass: "CLASS_1" });
+    await localContractsApi.update(c.id, { status: "SOLD", soldByUserId: "u1", soldAt: "2026-05-01T12:00:00.000Z" }, actor);
+
+    await expect(localContractsApi.update(c.id, { pricingVehicleClass: "CLASS_2" }, actor)).rejects.toThrow(
+      "Pricing on a sold contract can only be changed with a recorded reason",
+    );
+    await expect(localContractsApi.update(c.id, { customerPhone: "555-0100" }, actor)).rejects.toThrow("Contract is locked");
+
+    await localContractsApi.update(c.id, { pricingVehicleClass: "CLASS_2" }, { ...actor, reason: "Provider reclassified the model" });
+
+    const history = await localContractHistoryApi.listByContract(c.id);
+    expect(history.map((h) => h.changes.map((f) => f.field))).toEqual([["pricingVehicleClass"], ["status"]]);
+    expect(history[0].reason).toBe("Provider reclassified the model");
+  });
+
+  it("lets workflow stamps ride along with a status change on a sold contract", async () => {
+    const c = await localContractsApi.create({ contractNumber: "C-3", customerName: "Cy Diaz" });
+    await localContractsApi.update(c.id, { status: "SOLD" });
+    const remitted = await localContractsApi.update(c.id, { status: "REMITTED", remittedByUserId: "u2", remittedAt: "2026-05-02T12:00:00.000Z" });
+    expect(remitted.status).toBe("REMITTED");
+  });
+
+  it("formats values for the History tab", () => {
+    const before = { id: "x", pricingBasePriceCents: 129900, addonSnapshot: [] } as unknown as Contract;
+    const after = { id: "x", pricingBasePriceCents: 139900, addonSnapshot: [] } as unknown as Contract;
+    const [change] = diffContracts(before, after);
+    expect(formatContractFieldValue(change.field, change.before)).toBe("$1299.00");
+    expect(formatContractFieldValue("addonSnapshot", [{}, {}])).toBe("2 items");
+    expect(formatContractFieldValue("vin", null)).toBe("—");
+  });
+
+  it("enforces the pricing rule in the database trigger", () => {
+    expect(contractChangesMigration).toContain("before update on public.contracts");
+    expect(contractChangesMigration).toContain("raise exception 'Pricing on a sold contract can only be changed with a recorded reason'");
+    expect(contractChangesMigration).toContain("new.change_reason := null;");
+  });
+});
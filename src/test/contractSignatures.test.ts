@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import signaturesFunction from "../../supabase/functions/contract-signatures/index.ts?raw";
+import { localContractsApi } from "../lib/contracts/localContracts";
+import type { Contract } from "../lib/contracts/types";
+import { READ_ONLY_MESSAGE, installLocalWriteGuard, writeActiveImpersonation } from "../lib/impersonation/session";
+import {
+  SIGNED_CONTRACT_FIELDS,
+  contractSignatureState,
+  hashContractContent,
+  latestSignatures,
+  signableContractContent,
+  signatureCaptureProblem,
+} from "../lib/signatures/content";
+import { localContractSignaturesApi } from "../lib/signatures/localSignatures";
+import type { ContractSignature, SignatureCapture } from "../lib/signatures/types";
+
+const PNG = "data:image/png;base64,iVBORw0KGgo=";
+
+const contract: Contract = {
+  id: "c-1",
+  warrantyId: "WH-C1",
+  contractNumber: "C-1001",
+  customerName: "Jane Doe",
+  vin: "1HGCM82633A004352",
+  vehicleYear: "2020",
+  vehicleMileageKm: 42000,
+  pricingTermMonths: 36,
+  pricingTermKm: null,
+  pricingBasePriceCents: 189900,
+  status: "DRAFT",
+  createdAt: "2026-06-01T10:00:00.000Z",
+  updatedAt: "2026-06-01T10:00:00.000Z",
+};
+
+function signature(role: ContractSignature["role"], contentHash: string, signedAt: string): ContractSignature {
+  return { id: `${role}-${signedAt}`, contractId: "c-1", role, signerName: role, imageDataUrl: PNG, contentHash, signedAt };
+}
+
+const bothSigned: SignatureCapture[] = [
+  { role: "CUSTOMER", signerName: "Jane Doe", imageDataUrl: PNG },
+  { role: "DEALER", signerName: "Sam Seller", imageDataUrl: PNG },
+];
+
+describe("signed contract content", () => {
+  it("hashes the printed fields and changes when any of them is edited", async () => {
+    const content = signableContractContent(contract);
+    expect(content.split("\n")[0]).toBe("warrantyhub-contract-signature|v1");
+    expect(content).toContain("Contract number: C-1001");
+    expect(content).toContain("Mileage (km): 42000");
+    expect(content).toContain("Term (km): \n");
+
+    const hash = await hashContractContent(contract);
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashContractContent({ ...contract, updatedAt: "2026-07-01T00:00:00.000Z" })).toBe(hash);
+    expect(await hashContractContent({ ...contract, pricingBasePriceCents: 199900 })).not.toBe(hash);
+    expect(await hashContractContent({ ...contract, customerName: "Jane Doe " })).toBe(hash);
+  });
+
+  it("keeps the edge function hashing the same columns in the same order", () => {
+    expect(signaturesFunction).toContain('const CONTENT_HEADER = "warrantyhub-contract-signature|v1"');
+    let last = -1;
+    for (const { field, label } of SIGNED_CONTRACT_FIELDS) {
+      const column = field.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+      const at = signaturesFunction.indexOf(`["${label}", "${column}"]`);
+      expect(at, `${label} -> ${column}`).toBeGreaterThan(last);
+      last = at;
+    }
+    expect(signaturesFunction).toContain('req.headers.get("x-forwarded-for")');
+    expect(signaturesFunction).toContain('req.headers.get("user-agent")');
+  });
+});
+
+describe("signature rules", () => {
+  it("requires a name and a drawn signature from each party once", () => {
+    expect(signatureCaptureProblem(bothSigned)).toBeNull();
+    expect(signatureCaptureProblem([])).toMatch(/At least one/);
+    expect(signatureCaptureProblem([{ ...bothSigned[0], signerName: " " }])).toMatch(/name is required/);
+    expect(signatureCaptureProblem([{ ...bothSigned[0], imageDataUrl: "" }])).toMatch(/signature is missing/);
+    expect(signatureCaptureProblem([bothSigned[0], bothSigned[0]])).toMatch(/signed twice/);
+  });
+
+  it("tracks whether the latest signatures still cover the current content", () => {
+    expect(contractSignatureState([], "h1")).toBe("UNSIGNED");
+    expect(contractSignatureState([signature("CUSTOMER", "h1", "2026-06-01T10:00:00Z")], "h1")).toBe("PARTIAL");
+
+    const signed = [signature("CUSTOMER", "h1", "2026-06-01T10:00:00Z"), signature("DEALER", "h1", "2026-06-01T10:00:00Z")];
+    expect(contractSignatureState(signed, "h1")).toBe("SIGNED");
+    expect(contractSignatureState(signed, "h2")).toBe("OUTDATED");
+
+    const resigned = [...signed, signature("CUSTOMER", "h2", "2026-06-02T10:00:00Z"), signature("DEALER", "h2", "2026-06-02T10:00:00Z")];
+    expect(latestSignatures(resigned).CUSTOMER?.contentHash).toBe("h2");
+    expect(contractSignatureState(resigned, "h2")).toBe("SIGNED");
+  });
+});
+
+describe("local contract signatures", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem("warrantyhub.local.contracts", JSON.stringify([contract]));
+  });
+
+  afterEach(() => {
+    writeActiveImpersonation(null);
+  });
+
+  it("records signer metadata against the stored contract and rejects stale content", async () => {
+    const stored = await localContractsApi.get("c-1");
+    const contentHash = await hashContractContent(stored as Contract);
+
+    await expect(
+      localContractSignaturesApi.capture({ contractId: "c-1", contentHash: "0".repeat(64), signatures: bothSigned }),
+    ).rejects.toThrow(/changed since it was displayed/);
+
+    const created = await localContractSignaturesApi.capture({ contractId: "c-1", contentHash, signatures: bothSigned, actorUserId: "u-1" });
+    expect(created).toHaveLength(2);
+    expect(created.find((s) => s.role === "DEALER")).toMatchObject({ signerName: "Sam Seller", signerUserId: "u-1", contentHash });
+    expect(created[0].userAgent).toBe(navigator.userAgent);
+    expect(created[0].signedAt).toBeTruthy();
+
+    const listed = await localContractSignaturesApi.listByContract("c-1");
+    expect(contractSignatureState(listed, contentHash)).toBe("SIGNED");
+    expect(await localContractSignaturesApi.listByContract("other")).toEqual([]);
+  });
+
+  it("won't sign for the dealer while an admin is viewing as them", async () => {
+    installLocalWriteGuard();
+    const contentHash = await hashContractContent((await localContractsApi.get("c-1")) as Contract);
+    writeActiveImpersonation({
+      session: {
+        id: "s-1",
+        adminUserId: "a-1",
+        targetUserId: "u-1",
+        targetRole: "DEALER_ADMIN",
+        reason: "Ticket 42",
+        startedAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      },
+      user: { id: "u-1", email: "dealer@example.com", role: "DEALER_ADMIN" },
+    });
+
+    await expect(localContractSignaturesApi.capture({ contractId: "c-1", contentHash, signatures: bothSigned, actorUserId: "u-1" })).rejects.toThrow(
+      READ_ONLY_MESSAGE,
+    );
+    writeActiveImpersonation(null);
+    expect(await localContractSignaturesApi.listByContract("c-1")).toEqual([]);
+  });
+
+  it("refuses an impersonating caller in the edge function before the service-role insert", () => {
+    const check = signaturesFunction.indexOf("if (await isImpersonating(authed)) return json(403, { error: READ_ONLY_MESSAGE });");
+    expect(check).toBeGreaterThan(0);
+    expect(check).toBeLessThan(signaturesFunction.indexOf('.from("contract_signatures")'));
+  });
+});
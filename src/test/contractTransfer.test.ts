@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { checkTransferEligibility, type TransferCheckInput } from "../lib/transfers/policy";
+import { localContractTransfersApi } from "../lib/transfers/localTransfers";
+
+const base: TransferCheckInput = {
+  policy: undefined,
+  saleType: "PRIVATE_SALE",
+  priorTransferCount: 0,
+  contractStatus: "SOLD",
+  cancelled: false,
+  startDate: "2025-03-01T15:30:00.000Z",
+  transferDate: "2026-03-01",
+  termMonths: 36,
+  termKm: 60000,
+  startOdometerKm: 40000,
+  transferOdometerKm: 62000,
+};
+
+describe("contract transfer policy", () => {
+  it("allows the original owner to transfer once on a private sale by default", () => {
+    expect(checkTransferEligibility(base)).toEqual({ allowed: true, reasons: [] });
+    expect(checkTransferEligibility({ ...base, priorTransferCount: 1 }).reasons).toEqual([
+      "This plan can only be transferred once, by the original owner.",
+    ]);
+    expect(checkTransferEligibility({ ...base, saleType: "DEALER_SALE" }).reasons).toEqual([
+      "This plan can only be transferred on a private sale.",
+    ]);
+  });
+
+  it("applies each product policy", () => {
+    expect(checkTransferEligibility({ ...base, policy: "NOT_TRANSFERABLE" }).reasons).toEqual(["This plan is not transferable."]);
+    expect(checkTransferEligibility({ ...base, policy: "PRIVATE_SALE", priorTransferCount: 2 }).allowed).toBe(true);
+    expect(checkTransferEligibility({ ...base, policy: "ANY", saleType: "FAMILY", priorTransferCount: 3 }).allowed).toBe(true);
+  });
+
+  it("blocks draft, cancelled and expired contracts", () => {
+    expect(checkTransferEligibility({ ...base, contractStatus: "DRAFT", cancelled: true }).reasons).toEqual([
+      "Only sold contracts can be transferred.",
+      "This contract has been cancelled.",
+    ]);
+    expect(checkTransferEligibility({ ...base, transferDate: "2028-03-01" }).reasons).toEqual(["The contract expired on 2028-03-01."]);
+    expect(checkTransferEligibility({ ...base, transferOdometerKm: 100000 }).reasons).toEqual([
+      "The vehicle has passed the contract's 60,000 km limit.",
+    ]);
+    expect(checkTransferEligibility({ ...base, transferOdometerKm: 39000 }).reasons).toEqual(["The odometer is lower than it was at sale."]);
+  });
+});
+
+describe("local contract transfers", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem(
+      "warrantyhub.local.contracts",
+      JSON.stringify([{ id: "c-1", status: "SOLD", customerName: "Ada Lovelace", customerEmail: "ada@example.com", customerCity: "Toronto" }]),
+    );
+  });
+
+  it("snapshots the previous owner from the contract and moves the contract to the new owner", async () => {
+    const created = await localContractTransfersApi.create({
+      contractId: "c-1",
+      transferDate: "2026-03-01",
+      odometerKm: 62000,
+      saleType: "PRIVATE_SALE",
+      previousOwner: { name: "stale name" },
+      newOwner: { name: "Grace Hopper", city: "Ottawa" },
+      transferFeeCents: 5000,
+    });
+
+    expect(created.previousOwner).toMatchObject({ name: "Ada Lovelace", email: "ada@example.com", city: "Toronto" });
+    const contracts = JSON.parse(localStorage.getItem("warrantyhub.local.contracts") ?? "[]");
+    expect(contracts[0]).toMatchObject({ customerName: "Grace Hopper", customerCity: "Ottawa" });
+    expect(contracts[0].customerEmail).toBeUndefined();
+
+    await localContractTransfersApi.create({
+      contractId: "c-1",
+      transferDate: "2026-06-01",
+      saleType: "FAMILY",
+      previousOwner: { name: "" },
+      newOwner: { name: "Alan Turing" },
+      transferFeeCents: 0,
+    });
+    const history = await localContractTransfersApi.listByContract("c-1");
+    expect(history.map((t) => `${t.previousOwner.name} -> ${t.newOwner.name}`)).toEqual([
+      "Ada Lovelace -> Grace Hopper",
+      "Grace Hopper -> Alan Turing",
+    ]);
+  });
+
+  it("requires a new owner name", async () => {
+    await expect(
+      localContractTransfersApi.create({
+        contractId: "c-1",
+        transferDate: "2026-03-01",
+        saleType: "PRIVATE_SALE",
+        previousOwner: { name: "Ada Lovelace" },
+        newOwner: { name: "  " },
+        transferFeeCents: 0,
+      }),
+    ).rejects.toThrow("New owner name is required");
+  });
+});
@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import signingFunction from "../../supabase/functions/contract-verification-token/index.ts?raw";
+import { encodeQrCode } from "../lib/verification/qrCode";
+import { localContractVerificationApi } from "../lib/verification/localVerification";
+import {
+  buildVerificationPayload,
+  generateVerificationKeyPair,
+  importVerificationPrivateKey,
+  importVerificationPublicKey,
+  signVerificationPayload,
+  verificationUrl,
+  verifyVerificationToken,
+} from "../lib/verification/token";
+
+// Level M format strings from the QR specification, indexed by mask.
+const FORMAT_M = [
+  "101010000010010",
+  "101000100100101",
+  "101111001111100",
+  "101101101001011",
+  "100010111111001",
+  "100000011001110",
+  "100111110010111",
+  "100101010100000",
+];
+
+function gfMul(x: number, y: number) {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function isVersion1Function(x: number, y: number) {
+  return (x < 9 && y < 9) || (x >= 13 && y < 9) || (x < 9 && y >= 13) || x === 6 || y === 6;
+}
+
+function maskInverts(mask: number, x: number, y: number) {
+  return [
+    (x + y) % 2 === 0,
+    y % 2 === 0,
+    x % 3 === 0,
+    (x + y) % 3 === 0,
+    (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    ((x * y) % 2) + ((x * y) % 3) === 0,
+    (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+    (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+  ][mask];
+}
+
+// Reads the 26 codewords of a version 1 symbol back out in placement order.
+function readVersion1Codewords(modules: boolean[][], mask: number) {
+  const bits: number[] = [];
+  for (let right = 20; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < 21; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = ((right + 1) & 2) === 0 ? 20 - vert : vert;
+        if (!isVersion1Function(x, y)) bits.push(Number(modules[y][x] !== maskInverts(mask, x, y)));
+      }
+    }
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(bits.slice(i, i + 8).reduce((b, bit) => (b << 1) | bit, 0));
+  return bytes;
+}
+
+// Flips the printed status from active to cancelled without re-signing.
+function tamper(body: string) {
+  const padded = body.replace(/-/g, "+").replace(/_/g, "/");
+  const decoded = atob(padded + "=".repeat((4 - (padded.length % 4)) % 4));
+  return btoa(decoded.replace("|A|", "|C|")).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+describe("QR encoder", () => {
+  it("lays out a version 1 symbol with valid format bits and Reed-Solomon codewords", () => {
+    const qr = encodeQrCode("HELLO WORLD");
+    expect(qr.version).toBe(1);
+    expect(qr.size).toBe(21);
+
+    // Finder pattern corners and the always-dark module.
+    expect(qr.modules[0][0] && qr.modules[0][20] && qr.modules[20][0]).toBe(true);
+    expect(qr.modules[1][1]).toBe(false);
+    expect(qr.modules[13][8]).toBe(true);
+
+    let format = 0;
+    for (let i = 0; i <= 5; i++) format |= Number(qr.modules[i][8]) << i;
+    format |= Number(qr.modules[7][8]) << 6;
+    format |= Number(qr.modules[8][8]) << 7;
+    format |= Number(qr.modules[8][7]) << 8;
+    for (let i = 9; i < 15; i++) format |= Number(qr.modules[8][14 - i]) << i;
+    expect(format).toBe(parseInt(FORMAT_M[qr.mask], 2));
+
+    const codewords = readVersion1Codewords(qr.modules, qr.mask);
+    expect(codewords).toHaveLength(26);
+    // Byte mode, 11 characters, then the text.
+    expect(codewords[0] >> 4).toBe(0b0100);
+    expect(((codewords[0] & 0x0f) << 4) | (codewords[1] >> 4)).toBe(11);
+    const text = Array.from({ length: 11 }, (_, i) => ((codewords[i + 1] & 0x0f) << 4) | (codewords[i + 2] >> 4));
+    expect(String.fromCharCode(...text)).toBe("HELLO WORLD");
+
+    // A valid codeword evaluates to zero at every root of the generator polynomial.
+    let alpha = 1;
+    for (let k = 0; k < 10; k++) {
+      const syndrome = codewords.reduce((acc, c) => gfMul(acc, alpha) ^ c, 0);
+      expect(syndrome).toBe(0);
+      alpha = gfMul(alpha, 2);
+    }
+  });
+
+  it("grows the version to fit a verification URL", () => {
+    const qr = encodeQrCode(`https://example.com/verify#${"x".repeat(300)}`);
+    expect(qr.version).toBeGreaterThan(10);
+    expect(qr.modules).toHaveLength(qr.size);
+  });
+});
+
+describe("verification tokens", () => {
+  const payload = buildVerificationPayload({
+    warrantyId: "WH-3F2A9C1E0B7D",
+    contractNumber: "C-1001",
+    productName: "Powertrain | Plus",
+    soldAt: "2026-01-15T10:00:00.000Z",
+    createdAt: "2026-01-15T09:00:00.000Z",
+    termMonths: 36,
+    termKm: 60000,
+    vin: "1hgcm82633a004352",
+    cancelled: false,
+    now: new Date("2026-06-01T12:00:00Z"),
+  });
+
+  it("round-trips a signed payload and re-checks expiry", async () => {
+    const keys = await generateVerificationKeyPair();
+    const token = await signVerificationPayload(payload, await importVerificationPrivateKey(keys.privateKey));
+    const publicKey = await importVerificationPublicKey(keys.publicKey);
+
+    const result = await verifyVerificationToken(token, publicKey, new Date("2026-06-02T00:00:00Z"));
+    expect(result).toMatchObject({
+      valid: true,
+      status: "ACTIVE",
+      payload: { warrantyId: "WH-3F2A9C1E0B7D", productName: "Powertrain / Plus", termEndDate: "2029-01-15", vin: "1HGCM82633A004352" },
+    });
+
+    const later = await verifyVerificationToken(token, publicKey, new Date("2029-02-01T00:00:00Z"));
+    expect(later).toMatchObject({ valid: true, status: "EXPIRED" });
+
+    // Small enough for a QR code that still prints legibly.
+    expect(encodeQrCode(verificationUrl("https://app.example.com", token)).version).toBeLessThanOrEqual(15);
+  });
+
+  it("rejects altered payloads and foreign signatures", async () => {
+    const keys = await generateVerificationKeyPair();
+    const token = await signVerificationPayload(payload, await importVerificationPrivateKey(keys.privateKey));
+    const publicKey = await importVerificationPublicKey(keys.publicKey);
+
+    const [body, sig] = token.split(".");
+    expect(await verifyVerificationToken(`${tamper(body)}.${sig}`, publicKey)).toMatchObject({ valid: false });
+
+    const other = await generateVerificationKeyPair();
+    expect(await verifyVerificationToken(token, await importVerificationPublicKey(other.publicKey))).toMatchObject({ valid: false });
+    expect(await verifyVerificationToken("not-a-token", publicKey)).toMatchObject({ valid: false });
+  });
+});
+
+describe("local contract verification", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem(
+      "warrantyhub.local.contracts",
+      JSON.stringify([
+        { id: "c-sold", contractNumber: "C-1", customerName: "A", status: "SOLD", vin: "VIN00000000123456", pricingTermMonths: 24, createdAt: new Date().toISOString() },
+        { id: "c-draft", contractNumber: "C-2", customerName: "B", status: "DRAFT", createdAt: new Date().toISOString() },
+      ]),
+    );
+  });
+
+  it("signs sold contracts, refuses drafts and reports cancellations", async () => {
+    await expect(localContractVerificationApi.issueToken("c-draft")).rejects.toThrow(/sold contracts/);
+
+    const token = await localContractVerificationApi.issueToken("c-sold");
+    expect(await localContractVerificationApi.verify(token)).toMatchObject({ valid: true, status: "ACTIVE", payload: { vin: "VIN00000000123456" } });
+
+    localStorage.setItem(
+      "warrantyhub.local.contract_cancellations",
+      JSON.stringify([{ id: "x", contractId: "c-sold", cancellationDate: "2026-03-01", createdAt: new Date().toISOString() }]),
+    );
+    const cancelled = await localContractVerificationApi.issueToken("c-sold");
+    expect(await localContractVerificationApi.verify(cancelled)).toMatchObject({ valid: true, status: "CANCELLED" });
+  });
+
+  it("signs on the server from database values only", () => {
+    expect(signingFunction).toContain('Deno.env.get("CONTRACT_VERIFICATION_PRIVATE_KEY")');
+    expect(signingFunction).toContain('const TOKEN_VERSION = "1"');
+    expect(signingFunction).toContain('authed.from("contracts")');
+  });
+});
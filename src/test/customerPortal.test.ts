@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import lookupMigration from "../../supabase/migrations/20260603010000_customer_contract_lookup.sql?raw";
+import { localCustomerPortalApi } from "../lib/customerPortal/localCustomerPortal";
+import { CUSTOMER_LOOKUP_NOT_FOUND, coverageTermEndDate, normalizeWarrantyId, verifierMatches } from "../lib/customerPortal/summary";
+
+const CONTRACT_ID = "3f2a9c1e-0b7d-4e55-9a01-6c2d8e4f1b20";
+const WARRANTY_ID = "WH-3F2A9C1E0B7D";
+
+function seed(overrides: Record<string, unknown> = {}) {
+  localStorage.setItem(
+    "warrantyhub.local.contracts",
+    JSON.stringify([
+      {
+        id: CONTRACT_ID,
+        warrantyId: WARRANTY_ID,
+        contractNumber: "C-1001",
+        customerName: "Jamie Rivera",
+        providerId: "prov-1",
+        productId: "prod-1",
+        pricingTermMonths: 36,
+        pricingTermKm: 60000,
+        pricingDeductibleCents: 10000,
+        pricingBasePriceCents: 180000,
+        pricingDealerCostCents: 95000,
+        vin: "1HGCM82633A004352",
+        vehicleMileageKm: 42000,
+        customerPostalCode: "M5V 2T6",
+        status: "SOLD",
+        soldAt: "2026-01-15T10:00:00.000Z",
+        createdAt: "2026-01-15T09:00:00.000Z",
+        ...overrides,
+      },
+      {
+        id: "9d0c7b6a-1111-4222-8333-944455556666",
+        contractNumber: "C-1002",
+        customerName: "Someone Else",
+        vin: "2T1BURHE5JC004352",
+        status: "SOLD",
+        createdAt: "2026-02-01T09:00:00.000Z",
+      },
+    ]),
+  );
+  localStorage.setItem(
+    "warrantyhub.local.products",
+    JSON.stringify([
+      {
+        id: "prod-1",
+        providerId: "prov-1",
+        name: "Powertrain Plus",
+        productType: "EXTENDED_WARRANTY",
+        coverageDetails: { items: [{ name: "Engine", status: "included" }, { name: "Brakes", status: "not_included" }] },
+        transferPolicy: "PRIVATE_SALE",
+        transferFeeCents: 5000,
+        cancellationRefundMethod: "SHORT_RATE",
+        cancellationFeeCents: 7500,
+      },
+    ]),
+  );
+  localStorage.setItem("warrantyhub.local.provider_profiles", JSON.stringify([{ id: "prov-1", companyName: "Northern Auto Guard" }]));
+}
+
+describe("customer lookup rules", () => {
+  it("accepts the warranty ID with or without its prefix and separators", () => {
+    expect(normalizeWarrantyId(" wh-3f2a9c1e0b7d ")).toBe(WARRANTY_ID);
+    expect(normalizeWarrantyId("3F2A 9C1E 0B7D")).toBe(WARRANTY_ID);
+    expect(normalizeWarrantyId("")).toBe("");
+  });
+
+  it("verifies with the VIN's last 6 or the postal code", () => {
+    const contract = { vin: "1HGCM82633A004352", customerPostalCode: "M5V 2T6" };
+    expect(verifierMatches(contract, "004352")).toBe(true);
+    expect(verifierMatches(contract, "m5v2t6")).toBe(true);
+    expect(verifierMatches(contract, "A004352")).toBe(false);
+    expect(verifierMatches({ vin: "", customerPostalCode: "" }, "")).toBe(false);
+  });
+
+  it("ends coverage after the term", () => {
+    expect(coverageTermEndDate("2026-01-15", 36)).toBe("2029-01-15");
+    expect(coverageTermEndDate("2026-01-15", null)).toBeNull();
+  });
+});
+
+describe("local customer portal", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    seed();
+  });
+
+  it("returns the customer's coverage without dealer pricing", async () => {
+    const summary = await localCustomerPortalApi.lookup({ warrantyId: "wh-3f2a9c1e0b7d", verifier: "004352" });
+
+    expect(summary).toMatchObject({
+      warrantyId: WARRANTY_ID,
+      status: "ACTIVE",
+      providerName: "Northern Auto Guard",
+      productName: "Powertrain Plus",
+      termEndDate: "2029-01-15",
+      deductibleCents: 10000,
+      vehicle: { vinLast6: "004352" },
+      transfer: { policy: "PRIVATE_SALE", feeCents: 5000, eligible: true },
+      cancellation: { refundMethod: "SHORT_RATE", feeCents: 7500, cancelledOn: null },
+    });
+    expect(summary.coverage.coveredWording).toContain("Engine");
+    expect(JSON.stringify(summary)).not.toMatch(/95000|180000|dealerCost|1HGCM82633A/);
+  });
+
+  it("gives the same answer for a wrong verifier, an unknown ID and a draft", async () => {
+    await expect(localCustomerPortalApi.lookup({ warrantyId: WARRANTY_ID, verifier: "999999" })).rejects.toThrow(CUSTOMER_LOOKUP_NOT_FOUND);
+    await expect(localCustomerPortalApi.lookup({ warrantyId: "WH-000000000000", verifier: "004352" })).rejects.toThrow(CUSTOMER_LOOKUP_NOT_FOUND);
+
+    seed({ status: "DRAFT" });
+    await expect(localCustomerPortalApi.lookup({ warrantyId: WARRANTY_ID, verifier: "004352" })).rejects.toThrow(CUSTOMER_LOOKUP_NOT_FOUND);
+  });
+
+  it("shows cancelled contracts as cancelled and not transferable", async () => {
+    localStorage.setItem(
+      "warrantyhub.local.contract_cancellations",
+      JSON.stringify([{ id: "can-1", contractId: CONTRACT_ID, cancellationDate: "2026-03-01", refundMethod: "SHORT_RATE", createdAt: "2026-03-01T00:00:00.000Z" }]),
+    );
+
+    const summary = await localCustomerPortalApi.lookup({ warrantyId: WARRANTY_ID, verifier: "M5V 2T6" });
+    expect(summary.status).toBe("CANCELLED");
+    expect(summary.cancellation.cancelledOn).toBe("2026-03-01");
+    expect(summary.transfer.eligible).toBe(false);
+  });
+});
+
+describe("supabase customer lookup", () => {
+  it("is an anon RPC that returns only customer-safe columns and throttles failed verifications", () => {
+    expect(lookupMigration).toContain("grant execute on function public.customer_contract_lookup(text, text) to anon, authenticated");
+    expect(lookupMigration).toContain("customer_lookup_failures");
+    expect(lookupMigration).toContain("where f.caller = _caller");
+    expect(lookupMigration).toContain("current_setting('request.headers', true)");
+    expect(lookupMigration).toContain("delete from public.customer_lookup_failures where attempted_at <= now() - interval '1 hour';");
+    expect(lookupMigration).not.toMatch(/dealer_cost|base_price/);
+  });
+});
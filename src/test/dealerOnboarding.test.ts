@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import {
+  isValidBusinessNumber,
+  onboardingProgress,
+  onboardingReviewProblem,
+  onboardingSubmissionProblem,
+  regulatorForProvince,
+} from "../lib/onboarding/checklist";
+import { localOnboardingApi } from "../lib/onboarding/localOnboarding";
+import type { OnboardingItem } from "../lib/onboarding/types";
+
+function item(partial: Partial<OnboardingItem> & Pick<OnboardingItem, "key">): OnboardingItem {
+  return {
+    id: `i-${partial.key}`,
+    applicantUserId: "u-1",
+    status: "VERIFIED",
+    submittedAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    ...partial,
+  };
+}
+
+function signInAs(userId: string) {
+  localStorage.setItem("warrantyhub.local.session", JSON.stringify({ userId }));
+}
+
+describe("dealer onboarding checklist", () => {
+  it("names the regulator for the dealer's province", () => {
+    expect(regulatorForProvince("ON")).toBe("OMVIC");
+    expect(regulatorForProvince("Alberta")).toBe("AMVIC");
+    expect(regulatorForProvince("NS")).toBe("Provincial regulator");
+  });
+
+  it("validates business numbers and submissions", () => {
+    expect(isValidBusinessNumber("123456789")).toBe(true);
+    expect(isValidBusinessNumber("123456789 RT0001")).toBe(true);
+    expect(isValidBusinessNumber("12345")).toBe(false);
+
+    expect(onboardingSubmissionProblem({ key: "BUSINESS_NUMBER", value: "abc" })).toMatch(/9 digits/);
+    expect(onboardingSubmissionProblem({ key: "REGULATOR_REGISTRATION", value: "" })).toBe("Registration number is required");
+    expect(onboardingSubmissionProblem({ key: "VOID_CHEQUE" })).toBe("Upload a document");
+    expect(onboardingSubmissionProblem({ key: "VOID_CHEQUE" }, item({ key: "VOID_CHEQUE", dataUrl: "data:," }))).toBeNull();
+  });
+
+  it("requires a note to reject and an expiry to verify expiring items", () => {
+    expect(onboardingReviewProblem("INSURANCE_CERTIFICATE", { status: "REJECTED" })).toMatch(/note/);
+    expect(onboardingReviewProblem("INSURANCE_CERTIFICATE", { status: "VERIFIED" })).toBe("Expiry date is required to verify this item");
+    expect(onboardingReviewProblem("INSURANCE_CERTIFICATE", { status: "VERIFIED", expiresOn: "01/02/2027" })).toMatch(/YYYY-MM-DD/);
+    expect(onboardingReviewProblem("VOID_CHEQUE", { status: "VERIFIED" })).toBeNull();
+  });
+
+  it("tracks progress, upcoming expiries and an expired licence", () => {
+    const items = [
+      item({ key: "REGULATOR_REGISTRATION", expiresOn: "2026-05-31" }),
+      item({ key: "BUSINESS_NUMBER" }),
+      item({ key: "INSURANCE_CERTIFICATE", expiresOn: "2026-06-20" }),
+      item({ key: "VOID_CHEQUE" }),
+    ];
+
+    const current = onboardingProgress(items, { today: "2026-06-01" });
+    expect(current.licenceExpired).toBe(true);
+    expect(current.verified).toBe(3);
+    expect(current.complete).toBe(false);
+    expect(current.rows.find((r) => r.definition.key === "INSURANCE_CERTIFICATE")?.expiringSoon).toBe(true);
+
+    const earlier = onboardingProgress(items, { today: "2026-04-01" });
+    expect(earlier.complete).toBe(true);
+    expect(earlier.licenceExpired).toBe(false);
+    expect(onboardingProgress([], { province: "AB" }).rows[0].definition.label).toMatch(/AMVIC/);
+  });
+});
+
+describe("local dealer onboarding", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem(
+      "warrantyhub.local.users",
+      JSON.stringify([
+        { id: "dealer-1", role: "UNASSIGNED" },
+        { id: "admin-1", role: "ADMIN" },
+      ]),
+    );
+  });
+
+  it("lets the applicant submit, the admin review, and a resubmission go back to review", async () => {
+    signInAs("dealer-1");
+    const submitted = await localOnboardingApi.submit({ key: "BUSINESS_NUMBER", value: "123456789RT0001" });
+    expect(submitted.status).toBe("SUBMITTED");
+    await expect(localOnboardingApi.listForApplicant("dealer-1")).rejects.toThrow("Not authorized");
+
+    signInAs("admin-1");
+    await expect(localOnboardingApi.review(submitted.id, { status: "REJECTED" })).rejects.toThrow(/note/);
+    const verified = await localOnboardingApi.review(submitted.id, { status: "VERIFIED", reviewerEmail: "admin@example.com" });
+    expect(verified.status).toBe("VERIFIED");
+    expect(verified.reviewedByEmail).toBe("admin@example.com");
+
+    signInAs("dealer-1");
+    const resubmitted = await localOnboardingApi.submit({ key: "BUSINESS_NUMBER", value: "987654321" });
+    expect(resubmitted.id).toBe(submitted.id);
+    expect(resubmitted.status).toBe("SUBMITTED");
+    expect(resubmitted.reviewedByEmail).toBeUndefined();
+    expect(await localOnboardingApi.listMine()).toHaveLength(1);
+  });
+});
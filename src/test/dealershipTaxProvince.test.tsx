@@ -0,0 +1,71 @@
+import type { ReactNode } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { renderHook, waitFor } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+
+const rows: Record<string, Record<string, unknown>> = {
+  contracts: {
+    id: "contract-1",
+    contract_number: "CN-1",
+    customer_name: "Ada Lovelace",
+    dealership_id: "dealership-1",
+    pricing_base_price_cents: 100000,
+    status: "SOLD",
+    created_at: "2026-06-01T00:00:00.000Z",
+    updated_at: "2026-06-01T00:00:00.000Z",
+  },
+  dealerships: {
+    id: "dealership-1",
+    name: "Ottawa Auto Sales",
+    province: "ON",
+    admin_code: "ABC123",
+    created_at: "2026-01-01T00:00:00.000Z",
+    updated_at: "2026-01-01T00:00:00.000Z",
+  },
+};
+
+vi.mock("../lib/runtime", () => ({
+  getAppMode: () => "supabase",
+}));
+
+vi.mock("../lib/supabase/client", () => ({
+  getSupabaseClient: () => ({
+    from: (table: string) => {
+      const chain = {
+        select: () => chain,
+        eq: () => chain,
+        maybeSingle: () => Promise.resolve({ data: rows[table] ?? null, error: null }),
+      };
+      return chain;
+    },
+  }),
+}));
+
+import { useDealershipProvinces } from "../hooks/useDealershipProvinces";
+import { getContractsApi } from "../lib/contracts/contracts";
+import { contractSalesTax } from "../lib/tax/contractTax";
+
+function wrapper({ children }: { children: ReactNode }) {
+  const client = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return <QueryClientProvider client={client}>{children}</QueryClientProvider>;
+}
+
+describe("dealership province tax fallback", () => {
+  it("taxes a contract without a customer province in its dealership's province", async () => {
+    const contract = await getContractsApi().get("contract-1");
+    expect(contract?.customerProvince).toBeUndefined();
+    expect(contract?.dealershipId).toBe("dealership-1");
+
+    const { result } = renderHook(() => useDealershipProvinces([contract?.dealershipId]), { wrapper });
+    await waitFor(() => expect(result.current.get("dealership-1")).toBe("ON"));
+
+    const tax = contractSalesTax({
+      contract: contract!,
+      basis: "retail",
+      productType: "EXTENDED_WARRANTY",
+      dealershipProvince: result.current.get(contract!.dealershipId ?? ""),
+    });
+    expect(tax.province).toBe("ON");
+    expect(tax.taxes.map((t) => [t.kind, t.taxCents])).toEqual([["HST", 13000]]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  describeEligibilityRules,
+  eligibilityRulesFromJson,
+  eligibilityRulesFromProduct,
+  evaluateEligibility,
+} from "../lib/products/eligibility";
+import type { Product } from "../lib/products/types";
+
+const now = new Date("2026-06-15T12:00:00");
+
+describe("eligibility rules engine", () => {
+  it("passes a vehicle inside every limit and reports each rule it checked", () => {
+    const rules = eligibilityRulesFromJson({ maxAge: "10", maxMileage: "200,000", makes: ["Toyota", "Honda"] });
+    const result = evaluateEligibility(rules, { year: 2020, make: "TOYOTA", model: "Camry", mileageKm: 85000 }, now);
+    expect(result.eligible).toBe(true);
+    expect(result.checks.map((c) => [c.rule, c.status])).toEqual([
+      ["MAX_AGE", "pass"],
+      ["MAX_MILEAGE", "pass"],
+      ["MAKE", "pass"],
+    ]);
+  });
+
+  it("explains each failed rule", () => {
+    const rules = eligibilityRulesFromJson({ maxAge: 5, maxMileage: 100000, makes: ["Toyota"] });
+    const result = evaluateEligibility(rules, { year: 2018, make: "Ford", model: "F-150", mileageKm: 140000 }, now);
+    expect(result.eligible).toBe(false);
+    expect(result.failures.map((f) => f.message)).toEqual([
+      "A 2018 vehicle is 8 years old; this plan covers vehicles up to 5 years old.",
+      "140,000 km is over this plan's 100,000 km limit.",
+      "Ford is not an eligible make (Toyota).",
+    ]);
+  });
+
+  it("lets an exclusion beat an allow-list and matches models by word prefix", () => {
+    const rules = eligibilityRulesFromJson({ makes: ["Mercedes-Benz"], excludedModels: ["Sprinter"], excludedTrims: ["AMG"] });
+    const van = evaluateEligibility(rules, { make: "MERCEDES BENZ", model: "Sprinter 2500", trim: "Cargo" }, now);
+    expect(van.failures).toEqual([{ rule: "MODEL", status: "fail", message: "Sprinter 2500 is excluded from this plan." }]);
+
+    const amg = evaluateEligibility(rules, { make: "Mercedes-Benz", model: "GLC", trim: "AMG 43" }, now);
+    expect(amg.failures.map((f) => f.rule)).toEqual(["TRIM"]);
+    expect(evaluateEligibility(rules, { make: "Mercedes-Benz", model: "GLC", trim: "300" }, now).eligible).toBe(true);
+  });
+
+  it("checks powertrain, LTV and months in service, and never blocks on missing data", () => {
+    const product = {
+      powertrainEligibility: "ELECTRIFIED",
+      coverageMaxLtvPercent: 125,
+      eligibilityMaxMonthsInService: 36,
+    } as Product;
+    const rules = eligibilityRulesFromProduct(product);
+
+    const hybrid = evaluateEligibility(rules, { powertrain: "HEV", loanAmountCents: 3_000_000, vehicleValueCents: 2_500_000, inServiceDate: "2024-01-10" }, now);
+    expect(hybrid.eligible).toBe(true);
+
+    const gas = evaluateEligibility(rules, { powertrain: "ICE", loanAmountCents: 4_000_000, vehicleValueCents: 2_500_000, inServiceDate: "2022-06-16" }, now);
+    expect(gas.failures.map((f) => f.rule)).toEqual(["POWERTRAIN", "LTV", "IN_SERVICE"]);
+    expect(gas.failures[1].message).toBe("Loan-to-value is 160%; this plan allows up to 125%.");
+    expect(gas.failures[2].message).toMatch(/\(47 months\)/);
+
+    const unknown = evaluateEligibility(rules, {}, now);
+    expect(unknown.eligible).toBe(true);
+    expect(unknown.checks.every((c) => c.status === "unknown")).toBe(true);
+  });
+
+  it("summarises rules for product cards", () => {
+    expect(
+      describeEligibilityRules(eligibilityRulesFromJson({ maxAge: "10", maxMileage: "160000", excludedMakes: "Tesla, Polestar", powertrain: "ICE" })),
+    ).toEqual(["Up to 10 years old", "Up to 160,000 km", "Excludes 2 makes", "Gas / diesel only"]);
+    expect(describeEligibilityRules(eligibilityRulesFromJson(null))).toEqual([]);
+  });
+});
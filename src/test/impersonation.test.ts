@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import adminImpersonation from "../../supabase/functions/admin-impersonation/index.ts?raw";
+import dealerCreateContract from "../../supabase/functions/dealer-create-contract/index.ts?raw";
+import { READ_ONLY_MESSAGE as SERVER_READ_ONLY_MESSAGE, isImpersonating as callerIsImpersonating } from "../../supabase/functions/_shared/impersonation.ts";
+import cancellationsMigration from "../../supabase/migrations/20260519010000_contract_cancellations.sql?raw";
+import impersonationMigration from "../../supabase/migrations/20260602010000_impersonation_sessions.sql?raw";
+import remittanceWorkflowMigration from "../../supabase/migrations/20260605010000_remittance_workflow.sql?raw";
+import bankDepositsMigration from "../../supabase/migrations/20260606010000_remittance_bank_deposits.sql?raw";
+import paymentsMigration from "../../supabase/migrations/20260607010000_remittance_payments.sql?raw";
+import creditNotesMigration from "../../supabase/migrations/20260609010000_remittance_credit_notes.sql?raw";
+import { localImpersonationApi } from "../lib/impersonation/localImpersonation";
+import {
+  MAX_IMPERSONATION_MINUTES,
+  READ_ONLY_MESSAGE,
+  impersonationMinutes,
+  impersonationStartProblem,
+  installLocalWriteGuard,
+  isBlockedWhileImpersonating,
+  readOnlyFetch,
+  writeActiveImpersonation,
+} from "../lib/impersonation/session";
+
+function signInAs(userId: string) {
+  localStorage.setItem("warrantyhub.local.session", JSON.stringify({ userId }));
+}
+
+// Every definition of a security definer RPC, since later migrations replace earlier ones.
+function functionBodies(migration: string, name: string) {
+  return migration
+    .split(`create or replace function public.${name}(`)
+    .slice(1)
+    .map((rest) => rest.slice(0, rest.indexOf("\n$$;")));
+}
+
+function readAuditKinds() {
+  const raw = localStorage.getItem("warrantyhub.local.audit_events");
+  return ((raw ? JSON.parse(raw) : []) as { kind: string }[]).map((e) => e.kind);
+}
+
+describe("impersonation rules", () => {
+  it("only lets admins view dealer and provider users, with a reason", () => {
+    const admin = { id: "a-1", role: "ADMIN" as const };
+    const dealer = { id: "d-1", role: "DEALER_ADMIN" as const };
+    expect(impersonationStartProblem({ targetUserId: "d-1", reason: "Ticket 42" }, admin, dealer)).toBeNull();
+    expect(impersonationStartProblem({ targetUserId: "d-1", reason: " " }, admin, dealer)).toBe("A reason is required");
+    expect(impersonationStartProblem({ targetUserId: "d-1", reason: "x" }, { id: "p-1", role: "PROVIDER" }, dealer)).toMatch(/Only admins/);
+    expect(impersonationStartProblem({ targetUserId: "a-2", reason: "x" }, admin, { id: "a-2", role: "SUPER_ADMIN" })).toMatch(/dealer and provider/);
+    expect(impersonationStartProblem({ targetUserId: "a-1", reason: "x" }, admin, { id: "a-1", role: "ADMIN" })).toMatch(/yourself/);
+  });
+
+  it("time-boxes sessions", () => {
+    expect(impersonationMinutes()).toBe(30);
+    expect(impersonationMinutes(600)).toBe(MAX_IMPERSONATION_MINUTES);
+    expect(impersonationMinutes(-5)).toBe(30);
+  });
+
+  it("blocks writes but keeps reads, auth and ending the session", () => {
+    expect(isBlockedWhileImpersonating("https://x.supabase.co/rest/v1/contracts?id=eq.1", "PATCH")).toBe(true);
+    expect(isBlockedWhileImpersonating("https://x.supabase.co/rest/v1/contracts", "GET")).toBe(false);
+    expect(isBlockedWhileImpersonating("https://x.supabase.co/auth/v1/token?grant_type=refresh_token", "POST")).toBe(false);
+    expect(isBlockedWhileImpersonating("https://x.supabase.co/functions/v1/admin-impersonation", "POST")).toBe(false);
+    expect(isBlockedWhileImpersonating("https://x.supabase.co/functions/v1/dealer-create-contract", "POST")).toBe(true);
+  });
+});
+
+describe("read-only guards", () => {
+  afterEach(() => {
+    writeActiveImpersonation(null);
+    vi.unstubAllGlobals();
+  });
+
+  it("refuses Supabase mutations only while a session is active", async () => {
+    const fetchMock = vi.fn(async () => new Response("[]", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await readOnlyFetch("https://x.supabase.co/rest/v1/contracts", { method: "POST" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    writeActiveImpersonation({
+      session: {
+        id: "s-1",
+        adminUserId: "a-1",
+        targetUserId: "d-1",
+        targetRole: "DEALER_ADMIN",
+        reason: "Ticket 42",
+        startedAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      },
+      user: { id: "d-1", email: "dealer@example.com", role: "DEALER_ADMIN" },
+    });
+
+    const blocked = await readOnlyFetch("https://x.supabase.co/rest/v1/contracts", { method: "POST" });
+    expect(blocked.status).toBe(403);
+    expect((await blocked.json()).message).toBe(READ_ONLY_MESSAGE);
+    await readOnlyFetch("https://x.supabase.co/rest/v1/contracts", { method: "GET" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("local impersonation", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem(
+      "warrantyhub.local.users",
+      JSON.stringify([
+        { id: "admin-1", email: "admin@example.com", passwordHash: "x", role: "ADMIN" },
+        { id: "dealer-1", email: "dealer@example.com", passwordHash: "x", role: "DEALER_ADMIN", dealerId: "dealer-1" },
+      ]),
+    );
+  });
+
+  afterEach(() => {
+    writeActiveImpersonation(null);
+  });
+
+  it("audits start and stop and blocks local writes in between", async () => {
+    installLocalWriteGuard();
+    signInAs("dealer-1");
+    await expect(localImpersonationApi.start({ targetUserId: "admin-1", reason: "x" })).rejects.toThrow(/Only admins/);
+
+    signInAs("admin-1");
+    const active = await localImpersonationApi.start({ targetUserId: "dealer-1", reason: "Dealer can't see contracts", minutes: 15 });
+    expect(active.user).toMatchObject({ id: "dealer-1", role: "DEALER_ADMIN", dealerId: "dealer-1" });
+    expect(new Date(active.session.expiresAt).getTime() - new Date(active.session.startedAt).getTime()).toBe(15 * 60_000);
+
+    writeActiveImpersonation(active);
+    expect(() => localStorage.setItem("warrantyhub.local.contracts", "[]")).toThrow(READ_ONLY_MESSAGE);
+
+    writeActiveImpersonation(null);
+    await localImpersonationApi.stop(active.session, "ENDED");
+    localStorage.setItem("warrantyhub.local.contracts", "[]");
+    expect(readAuditKinds()).toEqual(expect.arrayContaining(["IMPERSONATION_STARTED", "IMPERSONATION_ENDED"]));
+  });
+});
+
+describe("server-side impersonation", () => {
+  it("records sessions and blocks the admin's writes while one is open", () => {
+    expect(adminImpersonation).toContain('kind: "IMPERSONATION_STARTED"');
+    expect(adminImpersonation).toContain('kind: "IMPERSONATION_ENDED"');
+    expect(impersonationMigration).toContain("create or replace function public.is_impersonating()");
+    expect(impersonationMigration).toMatch(/as restrictive for all to authenticated using \(true\) with check \(not public\.is_impersonating\(\)\)/);
+    expect(impersonationMigration).toContain("from pg_tables");
+    expect(impersonationMigration).toContain("and tablename not in ('audit_events', 'impersonation_sessions')");
+  });
+
+  it("refuses writes in the security definer RPCs, which skip RLS", () => {
+    const rpcs: [string, string][] = [
+      [cancellationsMigration, "cancel_contract"],
+      [remittanceWorkflowMigration, "transition_remittance_batch"],
+      [bankDepositsMigration, "apply_bank_deposit"],
+      [paymentsMigration, "apply_bank_deposit"],
+      [paymentsMigration, "record_remittance_payment"],
+      [paymentsMigration, "transition_remittance_batch"],
+      [creditNotesMigration, "issue_remittance_credit_note"],
+    ];
+    for (const [migration, name] of rpcs) {
+      const bodies = functionBodies(migration, name);
+      expect(bodies.length).toBeGreaterThan(0);
+      for (const body of bodies) expect(body).toContain("if public.is_impersonating() then\n    raise exception 'Read-only while viewing as another user';");
+    }
+  });
+});
+
+describe("service-role edge functions", () => {
+  it("ask as the caller whether they are viewing as someone else", async () => {
+    const rpc = vi.fn(async () => ({ data: true, error: null }));
+    await expect(callerIsImpersonating({ rpc })).resolves.toBe(true);
+    expect(rpc).toHaveBeenCalledWith("is_impersonating");
+    await expect(callerIsImpersonating({ rpc: async () => ({ data: false, error: null }) })).resolves.toBe(false);
+    await expect(callerIsImpersonating({ rpc: async () => ({ data: null, error: { message: "JWT expired" } }) })).rejects.toThrow("JWT expired");
+    expect(SERVER_READ_ONLY_MESSAGE).toBe(READ_ONLY_MESSAGE);
+  });
+
+  it("refuses an impersonating caller before dealer-create-contract writes anything", () => {
+    const check = dealerCreateContract.indexOf("if (await isImpersonating(supabase)) return json(403, { error: READ_ONLY_MESSAGE });");
+    expect(check).toBeGreaterThan(0);
+    expect(check).toBeLessThan(dealerCreateContract.indexOf("getServiceSupabaseClient()"));
+  });
+});
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import permissionsMigration from "../../supabase/migrations/20260601010000_role_permissions.sql?raw";
+import dealerCreateContract from "../../supabase/functions/dealer-create-contract/index.ts?raw";
+import dealerTeamTools from "../../supabase/functions/dealer-team-tools/index.ts?raw";
+import {
+  BUILT_IN_ROLE_TEMPLATES,
+  builtInTemplate,
+  hasAllPermissions,
+  hasPermission,
+  permissionsForScope,
+  resolvePermissions,
+  roleTemplateProblem,
+} from "../lib/permissions/catalog";
+import { withDealerCost } from "../lib/contracts/dealerCost";
+import { localPermissionsApi, resolveLocalPermissions } from "../lib/permissions/localPermissions";
+
+function signInAs(userId: string) {
+  localStorage.setItem("warrantyhub.local.session", JSON.stringify({ userId }));
+}
+
+describe("permission catalog", () => {
+  it("gives admins everything and narrows employees to their template", () => {
+    expect(resolvePermissions("SUPER_ADMIN")).toContain("products.manage");
+    expect(resolvePermissions("DEALER_ADMIN")).toEqual(permissionsForScope("DEALERSHIP"));
+    expect(resolvePermissions("DEALER_ADMIN", builtInTemplate("dealership_salesperson"))).toContain("team.manage");
+
+    const salesperson = resolvePermissions("DEALER_EMPLOYEE", builtInTemplate("dealership_salesperson"));
+    expect(salesperson).toContain("contracts.create");
+    expect(salesperson).not.toContain("pricing.view_cost");
+
+    expect(resolvePermissions("DEALER_EMPLOYEE")).toContain("pricing.view_cost");
+    expect(resolvePermissions("DEALER_EMPLOYEE", { permissions: ["contracts.view", "products.manage"] })).toEqual(["contracts.view"]);
+    expect(resolvePermissions("PROVIDER", builtInTemplate("provider_support"))).not.toContain("products.manage");
+    expect(resolvePermissions("UNASSIGNED")).toEqual([]);
+  });
+
+  it("checks permissions on the signed-in user", () => {
+    const seller = { role: "DEALER_EMPLOYEE" as const, permissions: builtInTemplate("dealership_salesperson")?.permissions };
+    expect(hasPermission(seller, "contracts.create")).toBe(true);
+    expect(hasAllPermissions(seller, ["contracts.view", "pricing.view_cost"])).toBe(false);
+    expect(hasPermission({ role: "ADMIN" }, "team.manage")).toBe(true);
+    expect(hasPermission(null, "contracts.view")).toBe(false);
+  });
+
+  it("validates role templates for the team's scope", () => {
+    expect(roleTemplateProblem({ name: " ", permissions: ["contracts.view"] }, "DEALERSHIP")).toBe("Template name is required");
+    expect(roleTemplateProblem({ name: "Desk", permissions: [] }, "DEALERSHIP")).toBe("Choose at least one permission");
+    expect(roleTemplateProblem({ name: "Desk", permissions: ["products.manage"] }, "DEALERSHIP")).toMatch(/not available/);
+    expect(roleTemplateProblem({ name: "Desk", permissions: ["contracts.view"] }, "DEALERSHIP")).toBeNull();
+  });
+});
+
+describe("local role templates", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem(
+      "warrantyhub.local.users",
+      JSON.stringify([
+        { id: "owner-1", role: "DEALER_ADMIN" },
+        { id: "seller-1", role: "DEALER_EMPLOYEE" },
+      ]),
+    );
+  });
+
+  it("lets a team manager create and assign a template that hides dealer cost", async () => {
+    signInAs("owner-1");
+    const template = await localPermissionsApi.saveTemplate({
+      scope: "DEALERSHIP",
+      ownerId: "d-1",
+      name: "Floor sales",
+      permissions: ["contracts.view", "contracts.create"],
+    });
+    await localPermissionsApi.assignTemplate({ scope: "DEALERSHIP", ownerId: "d-1", userId: "seller-1", templateId: template.id });
+
+    expect(await localPermissionsApi.listAssignments("DEALERSHIP", "d-1")).toEqual([{ userId: "seller-1", templateId: template.id }]);
+    await expect(
+      localPermissionsApi.assignTemplate({ scope: "DEALERSHIP", ownerId: "d-2", userId: "seller-2", templateId: template.id }),
+    ).rejects.toThrow("Role template belongs to a different team");
+    expect(resolveLocalPermissions("seller-1", "DEALER_EMPLOYEE")).toEqual(["contracts.view", "contracts.create"]);
+    await expect(localPermissionsApi.deleteTemplate(template.id)).rejects.toThrow(/Reassign/);
+    await expect(localPermissionsApi.deleteTemplate("builtin:dealership_salesperson")).rejects.toThrow(/Built-in/);
+
+    signInAs("seller-1");
+    expect(await localPermissionsApi.getMyPermissions()).not.toContain("pricing.view_cost");
+    await expect(
+      localPermissionsApi.assignTemplate({ scope: "DEALERSHIP", ownerId: "d-1", userId: "seller-1", templateId: null }),
+    ).rejects.toThrow("Not authorized");
+  });
+});
+
+describe("permission enforcement on the server", () => {
+  it("seeds every built-in template and guards writes with has_permission", () => {
+    for (const t of BUILT_IN_ROLE_TEMPLATES) expect(permissionsMigration).toContain(`('${t.key}', '${t.scope}'`);
+    expect(permissionsMigration).toContain("create or replace function public.has_permission");
+    expect(permissionsMigration).toMatch(/contracts_permission_insert[\s\S]*has_permission\('contracts\.create'/);
+    expect(permissionsMigration).toMatch(/remittances_permission_insert[\s\S]*has_permission\('remittances\.submit'/);
+    expect(dealerCreateContract).toContain('hasPermission(supabase, "contracts.create"');
+    expect(dealerTeamTools).toContain('hasPermission(authed, "team.manage"');
+    expect(permissionsMigration).toContain("and (t.key is not null or t.dealership_id = m.dealership_id)");
+    expect(permissionsMigration).toContain("and (t.key is not null or t.dealership_id = dealership_members.dealership_id)");
+  });
+
+  it("keeps dealer cost off the contract row and behind pricing.view_cost", () => {
+    expect(permissionsMigration).toContain("create table if not exists public.contract_dealer_costs (");
+    expect(permissionsMigration).toContain("before insert or update of pricing_dealer_cost_cents, addon_total_cost_cents, dealer_cost_dollars on public.contracts");
+    expect(permissionsMigration).toContain("or public.has_permission('pricing.view_cost', c.dealership_id)");
+    expect(permissionsMigration).toContain("before insert on public.remittances");
+    expect(dealerCreateContract).toContain('hasPermission(supabase, "pricing.view_cost"');
+
+    const row = { id: "c-1", contract_price: 1200, contract_dealer_costs: { dealer_cost_dollars: 800 } };
+    expect(withDealerCost(row)).toEqual({ id: "c-1", contract_price: 1200, dealer_cost_dollars: 800 });
+    expect(withDealerCost({ ...row, contract_dealer_costs: null })).toEqual({ id: "c-1", contract_price: 1200 });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { eligibilityRulesFromJson, evaluateEligibility, toVehiclePowertrain } from "../lib/products/eligibility";
+import { EV_COVERAGE_CATEGORY, isEvCoverageItem, withEvCoverageCategory, withEvCoverageItems } from "../lib/products/evCoverage";
+
+describe("powertrain eligibility", () => {
+  it("blocks an ICE-only plan on an electric vehicle with a clear reason", () => {
+    const rules = eligibilityRulesFromJson({ maxAge: "10" }, "ICE");
+    const result = evaluateEligibility(rules, { year: 2023, powertrain: "BEV" }, new Date("2026-01-01T12:00:00"));
+    expect(result.eligible).toBe(false);
+    expect(result.failures).toEqual([
+      { rule: "POWERTRAIN", status: "fail", message: "This plan is gas / diesel only; the vehicle is electric." },
+    ]);
+  });
+
+  it("lets the products column win over the jsonb and accepts any electrified powertrain", () => {
+    expect(eligibilityRulesFromJson({ powertrain: "BEV" }, "ELECTRIFIED").powertrain).toBe("ELECTRIFIED");
+    expect(eligibilityRulesFromJson({ powertrain: "BEV" }, null).powertrain).toBe("BEV");
+    expect(eligibilityRulesFromJson(null, "PHEV")).toEqual({ powertrain: "PHEV" });
+
+    const rules = eligibilityRulesFromJson({}, "ELECTRIFIED");
+    expect(evaluateEligibility(rules, { powertrain: "PHEV" }).eligible).toBe(true);
+    expect(evaluateEligibility(rules, { powertrain: "HEV" }).eligible).toBe(true);
+    expect(evaluateEligibility(rules, { powertrain: "ICE" }).eligible).toBe(false);
+    expect(evaluateEligibility(rules, { powertrain: "UNKNOWN" }).checks[0].status).toBe("unknown");
+  });
+
+  it("normalises stored powertrain text", () => {
+    expect(toVehiclePowertrain(" bev ")).toBe("BEV");
+    expect(toVehiclePowertrain("UNKNOWN")).toBeNull();
+    expect(toVehiclePowertrain(undefined)).toBeNull();
+  });
+});
+
+describe("EV coverage items", () => {
+  it("adds the missing EV components once and keeps existing rows", () => {
+    const items = withEvCoverageItems([
+      { id: "engine", name: "Engine", status: "included" },
+      { id: "custom", name: "Charging port", status: "not_included" },
+    ]);
+    expect(items.map((i) => i.name)).toEqual([
+      "Engine",
+      "Charging port",
+      "High-voltage battery",
+      "Inverter",
+      "On-board charger",
+      "Electric drive motor",
+    ]);
+    expect(items[1].status).toBe("not_included");
+    expect(items.filter(isEvCoverageItem).map((i) => i.id)).toEqual(["ev-battery", "ev-inverter", "ev-onboard-charger", "ev-drive-motor"]);
+    expect(withEvCoverageItems(items)).toHaveLength(items.length);
+  });
+
+  it("adds one EV category to V2 coverage", () => {
+    const categories = withEvCoverageCategory([{ name: "Engine", parts: ["Block"] }]);
+    expect(categories[1]).toMatchObject({ name: EV_COVERAGE_CATEGORY, parts: expect.arrayContaining(["Inverter", "Charging port"]) });
+    expect(withEvCoverageCategory(categories)).toBe(categories);
+  });
+});
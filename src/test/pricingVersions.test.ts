@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+
+import { buildBasePricingRows } from "../lib/pricing/dealerPricing";
+import type { ProductPricing, ProductPricingVersion } from "../lib/productPricing/types";
+import {
+  planPricingVersionPublish,
+  pricingJsonWithRows,
+  pricingRowsInEffect,
+  pricingVersionInEffect,
+} from "../lib/productPricing/versions";
+
+function version(partial: Partial<ProductPricingVersion>): ProductPricingVersion {
+  return {
+    id: "v1",
+    providerId: "p1",
+    productId: "prod1",
+    label: "2026 rates",
+    status: "PUBLISHED",
+    effectiveFrom: "2026-01-01",
+    effectiveTo: null,
+    createdAt: "2025-12-01T00:00:00.000Z",
+    ...partial,
+  };
+}
+
+function row(partial: Partial<ProductPricing>): ProductPricing {
+  return {
+    id: "r1",
+    providerId: "p1",
+    productId: "prod1",
+    termMonths: 36,
+    termKm: 60000,
+    isDefault: true,
+    deductibleCents: 10000,
+    basePriceCents: 90000,
+    createdAt: "2025-12-01T00:00:00.000Z",
+    ...partial,
+  };
+}
+
+describe("pricing versions", () => {
+  const versions = [
+    version({ id: "v2026", effectiveFrom: "2026-01-01", effectiveTo: "2026-12-31" }),
+    version({ id: "v2027", effectiveFrom: "2027-01-01" }),
+    version({ id: "draft", status: "DRAFT", effectiveFrom: "2026-06-01" }),
+  ];
+
+  it("picks the published rate card covering the date and ignores drafts", () => {
+    expect(pricingVersionInEffect(versions, "2026-06-15")?.id).toBe("v2026");
+    expect(pricingVersionInEffect(versions, "2026-12-31")?.id).toBe("v2026");
+    expect(pricingVersionInEffect(versions, "2027-01-01")?.id).toBe("v2027");
+    expect(pricingVersionInEffect(versions, "2025-12-31")).toBeNull();
+  });
+
+  it("falls back to unversioned rows when no published card is in effect", () => {
+    const rows = [row({ id: "legacy" }), row({ id: "a", versionId: "v2026" }), row({ id: "b", versionId: "draft" })];
+    expect(pricingRowsInEffect(rows, versions, "2026-03-01").map((r) => r.id)).toEqual(["a"]);
+    expect(pricingRowsInEffect(rows, versions, "2025-03-01").map((r) => r.id)).toEqual(["legacy"]);
+  });
+
+  it("ends the current card the day before a new one takes effect", () => {
+    const current = version({ id: "current", effectiveFrom: "2026-01-01" });
+    const draft = version({ id: "next", status: "DRAFT", effectiveFrom: "2026-09-01" });
+    expect(planPricingVersionPublish([current, draft], draft, "2026-08-01")).toEqual({
+      effectiveTo: null,
+      truncate: [{ id: "current", effectiveTo: "2026-08-31" }],
+    });
+  });
+
+  it("slots a draft in before an already scheduled card", () => {
+    const scheduled = version({ id: "scheduled", effectiveFrom: "2026-10-01" });
+    const draft = version({ id: "draft", status: "DRAFT", effectiveFrom: "2026-09-01" });
+    expect(planPricingVersionPublish([scheduled, draft], draft, "2026-08-01").effectiveTo).toBe("2026-09-30");
+  });
+
+  it("rejects backdated or clashing rate cards", () => {
+    const draft = version({ id: "draft", status: "DRAFT", effectiveFrom: "2026-01-01" });
+    expect(() => planPricingVersionPublish([draft], draft, "2026-02-01")).toThrow(/past/);
+    expect(() => planPricingVersionPublish([version({ id: "other" }), draft], draft, "2026-01-01")).toThrow(/already takes effect/);
+  });
+
+  it("renders rate card rows in the catalogue pricing shape", () => {
+    const pricing = pricingJsonWithRows(
+      { rows: [{ term: "Old", dealerCost: 1, suggestedRetail: 2 }, { addonName: "Rental", term: "36 Months / 60,000 km", dealerCost: 50 }] },
+      [row({ id: "r1", vehicleClass: "Class 2", dealerCostCents: 90000, suggestedRetailPriceCents: 149500 })],
+    );
+    expect(buildBasePricingRows(pricing).map((r) => [r.term, r.vehicleClass, r.dealerCost, r.suggestedRetail])).toEqual([
+      ["36 Months / 60,000 km", "Class 2", 900, 1495],
+    ]);
+    expect(pricing.rows.filter((r: any) => r.addonName)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+
+import type { ProductPricing } from "../lib/productPricing/types";
+import { detectRateCardKind, diffAddonRows, diffRateCard, parseRateCardSheet } from "../lib/productPricing/rateCardImport";
+import { parseCsv, parseXlsx } from "../lib/spreadsheet";
+
+// Builds an uncompressed (stored) zip, which is all the reader needs to find the workbook parts.
+function storedZip(files: Record<string, string>) {
+  const enc = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = enc.encode(name);
+    const data = enc.encode(text);
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, eocd];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let p = 0;
+  for (const part of parts) {
+    out.set(part, p);
+    p += part.length;
+  }
+  return out.buffer;
+}
+
+function current(partial: Partial<ProductPricing>): ProductPricing {
+  return {
+    id: "r1",
+    providerId: "p1",
+    productId: "prod1",
+    termMonths: 36,
+    termKm: 60000,
+    isDefault: false,
+    deductibleCents: 10000,
+    basePriceCents: 90000,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    ...partial,
+  };
+}
+
+describe("rate card import", () => {
+  it("parses quoted CSV cells and tab-separated sheets", () => {
+    expect(parseCsv('name,description,price\r\n"Rental, 7 days","Says ""hi""\nthere",150\r\n\r\n')).toEqual([
+      ["name", "description", "price"],
+      ["Rental, 7 days", 'Says "hi"\nthere', "150"],
+    ]);
+    expect(parseCsv("loan_min\tloan_max\n0\t10000")).toEqual([
+      ["loan_min", "loan_max"],
+      ["0", "10000"],
+    ]);
+  });
+
+  it("reads the first worksheet of an .xlsx with shared strings", async () => {
+    const buffer = storedZip({
+      "xl/workbook.xml":
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Rates" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      "xl/_rels/workbook.xml.rels":
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Target="worksheets/rates.xml"/></Relationships>',
+      "xl/sharedStrings.xml":
+        '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><si><t>term_months</t></si><si><r><t>provider</t></r><r><t>_cost</t></r></si></sst>',
+      "xl/worksheets/rates.xml":
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+        '<row r="3"><c r="A3"><v>36</v></c><c r="C3"><v>899.99999999999989</v></c></row>' +
+        "</sheetData></worksheet>",
+    });
+    expect(await parseXlsx(buffer)).toEqual([["term_months", "", "provider_cost"], [], ["36", "", "900"]]);
+  });
+
+  it("detects the sheet kind from its header", () => {
+    expect(detectRateCardKind(["loan_min", "loan_max", "24"])).toBe("FINANCE");
+    expect(detectRateCardKind(["Name", "Price"])).toBe("ADDONS");
+    expect(detectRateCardKind(["Term Months", "Term KM", "Provider Cost"])).toBe("RATES");
+    expect(detectRateCardKind(["foo"])).toBeNull();
+  });
+
+  it("reports bad cells by spreadsheet row and flags mileage band overlaps and gaps", () => {
+    const result = parseRateCardSheet(
+      parseCsv(
+        [
+          "term_months,term_km,mileage_min,mileage_max,vehicle_class,deductible,provider_cost",
+          "36,60000,0,50000,Class 1,100,900",
+          "36,60000,50001,100000,Class 1,100,1100",
+          "36,60000,90000,Unlimited,Class 1,100,1400",
+          "36,60000,0,50000,Class 2,100,950",
+          "36,60000,60000,Unlimited,Class 2,100,1200",
+          "48,abc,,,,100,1000",
+        ].join("\n"),
+      ),
+    );
+    expect(result.kind).toBe("RATES");
+    expect(result.rows).toHaveLength(5);
+    expect(result.rows[0]?.isDefault).toBe(true);
+    expect(result.issues.map((i) => [i.row, i.severity])).toEqual([
+      [4, "error"],
+      [6, "warning"],
+      [7, "error"],
+    ]);
+    expect(result.issues[0]?.message).toMatch(/overlaps row 3/);
+    expect(result.issues[1]?.message).toMatch(/Gap between 50,000 km/);
+    expect(result.health?.ok).toBe(true);
+  });
+
+  it("expands finance bands per term and checks loan band continuity", () => {
+    const result = parseRateCardSheet(
+      parseCsv(
+        [
+          "loan_min,loan_max,24,36,48,60,72,84,96",
+          "0,10000,446,455,464,473,483,503,525",
+          "10000.01,25000,546,555,564,573,583,603,625",
+          "30000,50000,646,655,664,673,683,703,725",
+        ].join("\n"),
+      ),
+    );
+    expect(result.kind).toBe("FINANCE");
+    expect(result.rows).toHaveLength(21);
+    expect(result.rows.filter((r) => r.isDefault)).toHaveLength(1);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ row: 4, severity: "warning" });
+    expect(result.issues[0]?.message).toMatch(/\$25,000\.00/);
+  });
+
+  it("diffs imported rows against the current rate card", () => {
+    const imported = parseRateCardSheet(
+      parseCsv(["term_months,term_km,deductible,provider_cost,default", "36,60000,100,950,yes", "48,80000,100,1200,"].join("\n")),
+    ).rows;
+    const diff = diffRateCard(
+      [current({ id: "a", isDefault: true }), current({ id: "b", termMonths: 60, termKm: 100000, basePriceCents: 150000 })],
+      imported,
+    );
+    expect(diff.map((d) => [d.status, d.row])).toEqual([
+      ["CHANGED", 2],
+      ["ADDED", 3],
+      ["REMOVED", null],
+    ]);
+    expect(diff[0]).toMatchObject({ before: "$900.00 (default)", after: "$950.00 (default)" });
+
+    const addons = parseRateCardSheet(parseCsv("name,price,term_months,term_km\nRental,150,,\nRental,150,36,60000\nRental,90,36,60000"));
+    expect(addons.issues.map((i) => i.row)).toEqual([4]);
+    expect(
+      diffAddonRows([{ name: "rental", scopeKey: "ALL", pricingType: "FIXED", priceCents: 12500 }], addons.addons).map((d) => d.status),
+    ).toEqual(["CHANGED", "ADDED"]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+
+import agingMigration from "../../supabase/migrations/20260608010000_remittance_aging.sql?raw";
+import dealerCreateContract from "../../supabase/functions/dealer-create-contract/index.ts?raw";
+import overdueSweep from "../../supabase/functions/remittance-overdue-sweep/index.ts?raw";
+import { agingBucket, agingByDealership, agingTotals, daysPastDue, isOverdue } from "../lib/contractRemittances/aging";
+import type { OutstandingContractRemittance } from "../lib/contractRemittances/types";
+
+const today = "2026-06-30";
+
+function remittance(id: string, dealershipId: string, amount: number, dueDate: string, patch: Partial<OutstandingContractRemittance> = {}) {
+  return {
+    id,
+    contractId: `c-${id}`,
+    amount,
+    status: "pending",
+    dueDate,
+    createdAt: "2026-01-01T10:00:00.000Z",
+    updatedAt: "2026-01-01T10:00:00.000Z",
+    dealershipId,
+    dealershipName: dealershipId === "d-1" ? "Ottawa Auto Sales" : "Car Club East",
+    ...patch,
+  } satisfies OutstandingContractRemittance;
+}
+
+describe("remittance aging", () => {
+  it("counts days past due and buckets them at 30/60/90", () => {
+    expect(daysPastDue({ dueDate: "2026-07-15" }, today)).toBe(0);
+    expect(daysPastDue({ dueDate: "2026-05-31" }, today)).toBe(30);
+    expect([0, 30, 31, 60, 61, 90, 91].map(agingBucket)).toEqual(["0-30", "0-30", "31-60", "31-60", "61-90", "61-90", "90+"]);
+  });
+
+  it("treats a pending remittance as overdue from the day after it is due", () => {
+    expect(isOverdue({ status: "pending", dueDate: today, amount: 100 }, today)).toBe(false);
+    expect(isOverdue({ status: "pending", dueDate: "2026-06-29", amount: 100 }, today)).toBe(true);
+    expect(isOverdue({ status: "overdue", dueDate: "2026-07-15", amount: 100 }, today)).toBe(true);
+    expect(isOverdue({ status: "paid", dueDate: "2026-01-01", amount: 100 }, today)).toBe(false);
+  });
+
+  it("never treats a cancellation reversal as overdue", () => {
+    expect(isOverdue({ status: "pending", dueDate: "2026-01-01", amount: -100 }, today)).toBe(false);
+  });
+
+  it("totals each dealership's unpaid remittances by bucket, worst dealership first", () => {
+    const rows = agingByDealership(
+      [
+        remittance("r-1", "d-1", 100.1, "2026-07-10"),
+        remittance("r-2", "d-1", 200.2, "2026-05-15", { status: "overdue" }),
+        remittance("r-3", "d-2", 50, "2026-03-01", { status: "overdue" }),
+        remittance("r-4", "d-2", 75, "2026-02-01", { status: "paid" }),
+      ],
+      today,
+    );
+    expect(rows.map((r) => r.dealershipId)).toEqual(["d-2", "d-1"]);
+    expect(rows[1]).toMatchObject({
+      bucketCents: { "0-30": 10010, "31-60": 20020, "61-90": 0, "90+": 0 },
+      totalCents: 30030,
+      remittanceCount: 2,
+      oldestDaysPastDue: 46,
+    });
+    expect(rows[0]).toMatchObject({ bucketCents: { "90+": 5000 }, oldestDaysPastDue: 121 });
+    expect(agingTotals(rows)).toEqual({ bucketCents: { "0-30": 10010, "31-60": 20020, "61-90": 0, "90+": 5000 }, totalCents: 35030 });
+  });
+
+  it("leaves credit lines out of the buckets", () => {
+    const rows = agingByDealership(
+      [
+        remittance("r-1", "d-1", 300, "2026-05-15"),
+        remittance("r-2", "d-1", -300, "2026-03-01"),
+        remittance("r-3", "d-2", -50, "2026-01-01"),
+      ],
+      today,
+    );
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      dealershipId: "d-1",
+      bucketCents: { "0-30": 0, "31-60": 30000, "61-90": 0, "90+": 0 },
+      totalCents: 30000,
+      remittanceCount: 1,
+      oldestDaysPastDue: 46,
+    });
+  });
+});
+
+describe("overdue automation", () => {
+  it("marks overdue remittances in the database, daily where pg_cron is installed", () => {
+    expect(agingMigration).toContain("create or replace function public.mark_overdue_contract_remittances()");
+    expect(agingMigration).toContain("'CONTRACT_REMITTANCES_OVERDUE'");
+    expect(agingMigration).toContain("'select public.mark_overdue_contract_remittances()'");
+    expect(overdueSweep).toContain('rpc("mark_overdue_contract_remittances")');
+  });
+
+  it("only ages charges, so cancellation reversals never block a dealership", () => {
+    const bodies = agingMigration.split("create or replace function public.").slice(1);
+    expect(bodies).toHaveLength(2);
+    for (const body of bodies) expect(body).toContain("amount > 0");
+  });
+
+  it("lets only pg_cron, the service role or an admin run the sweep", () => {
+    expect(agingMigration).not.toContain("auth.uid() is not null and not public.is_admin()");
+    expect(agingMigration).toContain("coalesce(auth.jwt() ->> 'role', '') <> 'service_role'");
+  });
+
+  it("only restricts contract creation when a threshold is configured", () => {
+    expect(agingMigration).toContain("create or replace function public.dealership_overdue_days(_dealership_id uuid)");
+    expect(dealerCreateContract).toContain('Deno.env.get("REMITTANCE_OVERDUE_BLOCK_DAYS")');
+    expect(dealerCreateContract).toContain('svc.rpc("dealership_overdue_days"');
+  });
+});
@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import creditNotesMigration from "../../supabase/migrations/20260609010000_remittance_credit_notes.sql?raw";
+import {
+  creditNoteApplicationProblem,
+  creditNoteProblem,
+  creditNoteSalesTax,
+  creditNoteTax,
+  contractRemittedCents,
+  openCreditNotes,
+} from "../lib/batches/creditNotes";
+import { localBatchesApi } from "../lib/batches/localBatches";
+import type { Batch, IssueCreditNoteInput, RemittanceCreditNote } from "../lib/batches/types";
+import type { RemittanceActor } from "../lib/batches/workflow";
+import { READ_ONLY_MESSAGE, installLocalWriteGuard, writeActiveImpersonation } from "../lib/impersonation/session";
+import { combineSalesTax } from "../lib/tax/salesTax";
+
+const dealer: RemittanceActor = { id: "dealer-1", email: "dealer@example.com", role: "DEALER_ADMIN" };
+const salesperson: RemittanceActor = { id: "sales-1", email: "sales@example.com", role: "DEALER_EMPLOYEE", permissions: ["contracts.view"] };
+
+function batch(id: string, totalCents: number, patch: Partial<Batch> = {}): Batch {
+  return {
+    id,
+    batchNumber: `R-${id}`,
+    status: "CLOSED",
+    paymentStatus: "UNPAID",
+    remittanceStatus: "APPROVED",
+    contractIds: [`c-${id}`],
+    creditNoteIds: [],
+    subtotalCents: totalCents,
+    taxRate: 0,
+    taxCents: 0,
+    taxBreakdown: [],
+    totalCents,
+    paidCents: 0,
+    providerId: "provider-1",
+    createdAt: "2026-05-28T10:00:00.000Z",
+    ...patch,
+  };
+}
+
+// Remitted at $400.00 cost plus 13% HST.
+const contract = { customerProvince: "ON", pricingBasePriceCents: 50000, pricingDealerCostCents: 40000 };
+
+function credit(batchId: string, amountCents: number): IssueCreditNoteInput {
+  return { contractId: `c-${batchId}`, originalBatchId: batchId, reason: "Cancellation", subtotalCents: -amountCents };
+}
+
+function issued(batchId: string, contractId: string, totalCents: number): RemittanceCreditNote {
+  return {
+    id: `n-${contractId}`,
+    creditNoteNumber: `CN-R-${batchId}-1`,
+    contractId,
+    originalBatchId: batchId,
+    originalBatchNumber: `R-${batchId}`,
+    providerId: "provider-1",
+    reason: "Cancellation",
+    subtotalCents: totalCents,
+    taxCents: 0,
+    taxBreakdown: [],
+    totalCents,
+    createdAt: "2026-06-01T10:00:00.000Z",
+  };
+}
+
+describe("credit note rules", () => {
+  it("reverses tax at the contract's rates and nets against contract lines", () => {
+    const tax = creditNoteTax({ contract: { customerProvince: "ON" }, amountCents: 40000, label: "Refund", productType: "EXTENDED_WARRANTY" });
+    expect(tax).toMatchObject({ subtotalCents: -40000, taxCents: -5200, totalCents: -45200 });
+
+    const note = { subtotalCents: tax.subtotalCents, taxCents: tax.taxCents, taxBreakdown: tax.taxes, totalCents: tax.totalCents };
+    const combined = combineSalesTax([
+      { subtotalCents: 100000, taxCents: 13000, totalCents: 113000, taxes: [{ ...tax.taxes[0]!, taxableCents: 100000, taxCents: 13000 }] },
+      creditNoteSalesTax(note),
+    ]);
+    expect(combined).toMatchObject({ subtotalCents: 60000, taxCents: 7800, totalCents: 67800 });
+  });
+
+  it("only credits contracts on locked remittances, within the remittance total", () => {
+    const batches = [batch("b-1", 50000), batch("b-2", 30000, { remittanceStatus: "DRAFT", status: "OPEN" })];
+    expect(creditNoteProblem(batches, [], credit("b-1", 20000), dealer, contract)).toBeNull();
+    expect(creditNoteProblem(batches, [], credit("b-1", 20000), salesperson, contract)).toBe("Not authorized to issue credit notes");
+    expect(creditNoteProblem(batches, [], credit("b-2", 10000), dealer, contract)).toMatch(/can still be edited/);
+    expect(creditNoteProblem(batches, [], { ...credit("b-1", 20000), contractId: "c-b-2" }, dealer, contract)).toBe("Contract is not in remittance R-b-1");
+    expect(creditNoteProblem(batches, [], credit("b-1", 20000), dealer, null)).toBe("Contract not found");
+    expect(creditNoteProblem(batches, [], { ...credit("b-1", 20000), reason: " " }, dealer, contract)).toBe("Reason is required");
+    expect(creditNoteProblem(batches, [], credit("b-1", 45000), dealer, contract)).toMatch(/can't exceed its \$500\.00 total/);
+  });
+
+  it("caps each contract at what was remitted for it, less notes already issued against it", () => {
+    expect(contractRemittedCents(contract)).toBe(45200);
+    expect(contractRemittedCents(contract, "GAP")).toBe(43200);
+
+    const batches = [batch("b-1", 200000, { contractIds: ["c-b-1", "c-other"] })];
+    expect(creditNoteProblem(batches, [], credit("b-1", 40000), dealer, contract)).toBeNull();
+    expect(creditNoteProblem(batches, [], credit("b-1", 40001), dealer, contract)).toMatch(/can't exceed the \$452\.00 it was remitted for/);
+
+    const notes = [issued("b-1", "c-b-1", -22600), issued("b-1", "c-other", -45200)];
+    expect(creditNoteProblem(batches, notes, credit("b-1", 20000), dealer, contract)).toBeNull();
+    expect(creditNoteProblem(batches, notes, credit("b-1", 20001), dealer, contract)).toMatch(/it was remitted for/);
+  });
+
+  it("won't apply a note twice, to its own remittance or past the remittance's contracts", () => {
+    const notes = [{ ...issued("b-1", "c-b-1", -100), id: "n-1" }];
+    expect(creditNoteApplicationProblem(batch("b-3", 900), notes, ["n-1"])).toBeNull();
+    expect(creditNoteApplicationProblem(batch("b-3", 900), notes, ["n-1", "n-1"])).toMatch(/only be applied once/);
+    expect(creditNoteApplicationProblem(batch("b-1", 900), notes, ["n-1"])).toMatch(/remittance it credits/);
+    expect(creditNoteApplicationProblem(batch("b-3", 900, { providerId: "provider-2" }), notes, ["n-1"])).toMatch(/different provider/);
+    expect(creditNoteApplicationProblem(batch("b-3", -100), notes, ["n-1"])).toMatch(/can't exceed/);
+    expect(creditNoteApplicationProblem(batch("b-3", 900), [{ ...notes[0]!, appliedBatchId: "b-4" }], ["n-1"])).toMatch(/already applied/);
+  });
+});
+
+describe("local credit notes", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem(
+      "warrantyhub.local.contracts",
+      JSON.stringify([
+        {
+          id: "c-b-1",
+          warrantyId: "WH-b-1",
+          contractNumber: "CN-1001",
+          customerName: "Jane Doe",
+          customerProvince: "ON",
+          pricingBasePriceCents: 50000,
+          pricingDealerCostCents: 40000,
+          status: "REMITTED",
+          createdAt: "2026-05-20T10:00:00.000Z",
+          updatedAt: "2026-05-20T10:00:00.000Z",
+        },
+      ]),
+    );
+    localStorage.setItem("warrantyhub.local.batches", JSON.stringify([batch("b-1", 50000)]));
+  });
+
+  afterEach(() => {
+    writeActiveImpersonation(null);
+  });
+
+  it("issues a note against a locked remittance and carries it on the next draft", async () => {
+    const note = await localBatchesApi.issueCreditNote(credit("b-1", 20000), dealer);
+    expect(note).toMatchObject({ creditNoteNumber: "CN-R-b-1-1", contractNumber: "CN-1001", totalCents: -22600, providerId: "provider-1" });
+    expect(openCreditNotes(await localBatchesApi.listCreditNotes(), "provider-1").map((n) => n.id)).toEqual([note.id]);
+
+    const draft = await localBatchesApi.createRemittanceBatch({
+      batchNumber: "R-b-2",
+      contractIds: ["c-b-2"],
+      creditNoteIds: [note.id],
+      subtotalCents: 40000,
+      taxCents: 2600,
+      taxBreakdown: [],
+      totalCents: 42600,
+    });
+    expect(draft.creditNoteIds).toEqual([note.id]);
+    expect((await localBatchesApi.listCreditNotes())[0]?.appliedBatchId).toBe(draft.id);
+
+    // Dropping the note from the draft releases it for another remittance.
+    await localBatchesApi.update(draft.id, { creditNoteIds: [] });
+    expect(openCreditNotes(await localBatchesApi.listCreditNotes())).toHaveLength(1);
+
+    await expect(localBatchesApi.issueCreditNote(credit("b-1", 30000), dealer)).rejects.toThrow(/can't exceed/);
+  });
+
+  it("issues no note while an admin is viewing as the dealer", async () => {
+    installLocalWriteGuard();
+    writeActiveImpersonation({
+      session: {
+        id: "s-1",
+        adminUserId: "a-1",
+        targetUserId: "dealer-1",
+        targetRole: "DEALER_ADMIN",
+        reason: "Ticket 42",
+        startedAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      },
+      user: { id: "dealer-1", email: "dealer@example.com", role: "DEALER_ADMIN" },
+    });
+
+    await expect(localBatchesApi.issueCreditNote(credit("b-1", 20000), dealer)).rejects.toThrow(READ_ONLY_MESSAGE);
+    writeActiveImpersonation(null);
+    expect(await localBatchesApi.listCreditNotes()).toEqual([]);
+  });
+});
+
+describe("credit notes migration", () => {
+  it("issues notes through issue_remittance_credit_note and locks them with the remittance", () => {
+    expect(creditNotesMigration).toContain("create table if not exists public.remittance_credit_notes (");
+    expect(creditNotesMigration).toContain("create or replace function public.issue_remittance_credit_note(");
+    expect(creditNotesMigration).toContain("new.contract_ids, new.credit_note_ids");
+    expect(creditNotesMigration).toContain("after insert or update of credit_note_ids, total_cents on public.batches");
+    expect(creditNotesMigration).toContain("Credit notes cannot be changed");
+  });
+
+  it("releases the notes a draft carried when the draft is deleted", () => {
+    const release = creditNotesMigration.slice(creditNotesMigration.indexOf("create or replace function public.release_batch_credit_notes()"));
+    expect(release).toContain("perform set_config('warrantyhub.credit_note_apply', 'on', true);");
+    expect(release).toContain("where applied_batch_id = old.id;");
+    expect(creditNotesMigration).toContain("before delete on public.batches");
+  });
+
+  it("works out the tax reversal and the per-contract cap on the server", () => {
+    expect(creditNotesMigration).toContain("create or replace function public.sales_tax_components(_province text, _product_type text)");
+    expect(creditNotesMigration).toContain("_tax_breakdown := public.sales_tax_lines(_subtotal_cents, _components);");
+    expect(creditNotesMigration).toContain("it was remitted for");
+    expect(creditNotesMigration).not.toContain("_tax_cents integer,");
+  });
+});
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import paymentsMigration from "../../supabase/migrations/20260607010000_remittance_payments.sql?raw";
+import { localBatchesApi } from "../lib/batches/localBatches";
+import { allocatePayment, remittanceBalanceCents, remittancePaymentProblem } from "../lib/batches/payments";
+import type { Batch } from "../lib/batches/types";
+import type { RemittanceActor } from "../lib/batches/workflow";
+import { localContractsApi } from "../lib/contracts/localContracts";
+import { READ_ONLY_MESSAGE, installLocalWriteGuard, writeActiveImpersonation } from "../lib/impersonation/session";
+
+const provider: RemittanceActor = { id: "provider-1", email: "provider@example.com", role: "PROVIDER" };
+const otherProvider: RemittanceActor = { id: "provider-2", email: "other@example.com", role: "PROVIDER" };
+
+function batch(id: string, totalCents: number, patch: Partial<Batch> = {}): Batch {
+  return {
+    id,
+    batchNumber: `R-${id}`,
+    status: "CLOSED",
+    paymentStatus: "UNPAID",
+    remittanceStatus: "APPROVED",
+    contractIds: [`c-${id}`],
+    creditNoteIds: [],
+    subtotalCents: totalCents,
+    taxRate: 0,
+    taxCents: 0,
+    taxBreakdown: [],
+    totalCents,
+    paidCents: 0,
+    providerId: "provider-1",
+    reviewedAt: "2026-06-01T10:00:00.000Z",
+    createdAt: "2026-05-28T10:00:00.000Z",
+    ...patch,
+  };
+}
+
+async function contractStatuses() {
+  return Object.fromEntries((await localContractsApi.list()).map((c) => [c.id, c.status]));
+}
+
+describe("remittance payment rules", () => {
+  it("allocates a payment to the oldest approvals first and reports what is left over", () => {
+    const batches = [
+      batch("b-2", 30000, { reviewedAt: "2026-06-03T10:00:00.000Z" }),
+      batch("b-1", 50000, { paidCents: 20000, paymentStatus: "PARTIALLY_PAID", remittanceStatus: "PARTIALLY_PAID" }),
+    ];
+    expect(remittanceBalanceCents(batches[1]!)).toBe(30000);
+    expect(allocatePayment(40000, batches)).toEqual({
+      allocations: [
+        { batchId: "b-1", amountCents: 30000 },
+        { batchId: "b-2", amountCents: 10000 },
+      ],
+      unallocatedCents: 0,
+    });
+    expect(allocatePayment(70000, batches).unallocatedCents).toBe(10000);
+  });
+
+  it("rejects payments beyond the balance, for the wrong provider or for unapproved remittances", () => {
+    const batches = [batch("b-1", 50000), batch("b-2", 30000, { remittanceStatus: "SUBMITTED" })];
+    const input = { method: "EFT" as const, paymentDate: "2026-06-10", allocations: [{ batchId: "b-1", amountCents: 20000 }] };
+    expect(remittancePaymentProblem(batches, input, provider)).toBeNull();
+    expect(remittancePaymentProblem(batches, input, otherProvider)).toMatch(/provider can record payments/);
+    expect(remittancePaymentProblem(batches, { ...input, allocations: [{ batchId: "b-1", amountCents: 50001 }] }, provider)).toMatch(
+      /more than the \$500\.00 outstanding/,
+    );
+    expect(remittancePaymentProblem(batches, { ...input, allocations: [{ batchId: "b-2", amountCents: 100 }] }, provider)).toMatch(
+      /not awaiting payment/,
+    );
+    expect(remittancePaymentProblem(batches, { ...input, paymentDate: "" }, provider)).toBe("Payment date is required");
+  });
+});
+
+describe("local payment ledger", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem(
+      "warrantyhub.local.contracts",
+      JSON.stringify(
+        ["b-1", "b-2"].map((id) => ({
+          id: `c-${id}`,
+          warrantyId: `WH-${id}`,
+          contractNumber: id,
+          customerName: "Jane Doe",
+          status: "REMITTED",
+          createdAt: "2026-05-20T10:00:00.000Z",
+          updatedAt: "2026-05-20T10:00:00.000Z",
+        })),
+      ),
+    );
+    localStorage.setItem("warrantyhub.local.batches", JSON.stringify([batch("b-1", 50000), batch("b-2", 30000)]));
+  });
+
+  afterEach(() => {
+    writeActiveImpersonation(null);
+  });
+
+  it("keeps a remittance partially paid through instalments and pays its contracts once settled", async () => {
+    await localBatchesApi.recordPayment(
+      { method: "CHEQUE", reference: "1001", paymentDate: "2026-06-10", allocations: [{ batchId: "b-1", amountCents: 20000 }] },
+      provider,
+    );
+    let [b1] = (await localBatchesApi.list()).filter((b) => b.id === "b-1");
+    expect(b1).toMatchObject({ remittanceStatus: "PARTIALLY_PAID", paymentStatus: "PARTIALLY_PAID", paidCents: 20000, paymentReference: "1001" });
+    expect(b1?.paidAt).toBeUndefined();
+    expect(await contractStatuses()).toEqual({ "c-b-1": "REMITTED", "c-b-2": "REMITTED" });
+
+    // One cheque settles the rest of b-1 and part of b-2.
+    const entries = await localBatchesApi.recordPayment(
+      {
+        method: "CHEQUE",
+        reference: "1002",
+        paymentDate: "2026-06-20",
+        allocations: [
+          { batchId: "b-1", amountCents: 30000 },
+          { batchId: "b-2", amountCents: 10000 },
+        ],
+      },
+      provider,
+    );
+    expect(new Set(entries.map((e) => e.paymentId)).size).toBe(1);
+    [b1] = (await localBatchesApi.list()).filter((b) => b.id === "b-1");
+    expect(b1).toMatchObject({ remittanceStatus: "PAID", paidCents: 50000, paidByUserId: "provider-1" });
+    expect(await contractStatuses()).toEqual({ "c-b-1": "PAID", "c-b-2": "REMITTED" });
+
+    // Marking paid settles whatever is still owing as one more ledger entry.
+    const settled = await localBatchesApi.transition("b-2", { to: "PAID", paymentMethod: "EFT", paymentDate: "2026-06-25" }, provider);
+    expect(settled).toMatchObject({ remittanceStatus: "PAID", paidCents: 30000 });
+    const ledger = await localBatchesApi.listPayments();
+    expect(ledger.filter((p) => p.batchId === "b-2").map((p) => p.amountCents).sort((a, b) => a - b)).toEqual([10000, 20000]);
+    expect(await contractStatuses()).toEqual({ "c-b-1": "PAID", "c-b-2": "PAID" });
+
+    await expect(
+      localBatchesApi.recordPayment({ method: "EFT", paymentDate: "2026-06-30", allocations: [{ batchId: "b-1", amountCents: 1 }] }, provider),
+    ).rejects.toThrow(/not awaiting payment/);
+  });
+
+  it("records no payment while an admin is viewing as the provider", async () => {
+    installLocalWriteGuard();
+    writeActiveImpersonation({
+      session: {
+        id: "s-1",
+        adminUserId: "a-1",
+        targetUserId: "provider-1",
+        targetRole: "PROVIDER",
+        reason: "Ticket 42",
+        startedAt: new Date().toISOString(),
+        expiresAt: new Date(Date.now() + 60_000).toISOString(),
+      },
+      user: { id: "provider-1", email: "provider@example.com", role: "PROVIDER" },
+    });
+
+    await expect(
+      localBatchesApi.recordPayment({ method: "EFT", paymentDate: "2026-06-10", allocations: [{ batchId: "b-1", amountCents: 20000 }] }, provider),
+    ).rejects.toThrow(READ_ONLY_MESSAGE);
+    await expect(localBatchesApi.transition("b-2", { to: "PAID", paymentMethod: "EFT", paymentDate: "2026-06-10" }, provider)).rejects.toThrow(READ_ONLY_MESSAGE);
+
+    writeActiveImpersonation(null);
+    expect(await localBatchesApi.listPayments()).toEqual([]);
+    expect((await localBatchesApi.list()).map((b) => [b.remittanceStatus, b.paidCents])).toEqual([
+      ["APPROVED", 0],
+      ["APPROVED", 0],
+    ]);
+  });
+});
+
+describe("remittance payments migration", () => {
+  it("keeps the ledger and balances behind record_remittance_payment", () => {
+    expect(paymentsMigration).toContain("create table if not exists public.remittance_payments (");
+    expect(paymentsMigration).toContain("create or replace function public.record_remittance_payment(");
+    expect(paymentsMigration).toContain("'PARTIALLY_PAID'");
+    expect(paymentsMigration).toContain("new.paid_cents, new.paid_at");
+    expect(paymentsMigration).toContain("Remittance payments cannot be changed");
+  });
+});
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import workflowMigration from "../../supabase/migrations/20260605010000_remittance_workflow.sql?raw";
+import { localBatchesApi } from "../lib/batches/localBatches";
+import type { Batch } from "../lib/batches/types";
+import { REMITTANCE_TRANSITIONS, remittanceTransitionProblem, remittanceWorkflowStatus, type RemittanceActor } from "../lib/batches/workflow";
+import { localContractsApi } from "../lib/contracts/localContracts";
+import type { Contract } from "../lib/contracts/types";
+
+const dealer: RemittanceActor = { id: "dealer-1", email: "dealer@example.com", role: "DEALER_ADMIN" };
+const salesperson: RemittanceActor = { id: "sales-1", email: "sales@example.com", role: "DEALER_EMPLOYEE", permissions: ["contracts.view", "contracts.create"] };
+const admin: RemittanceActor = { id: "admin-1", email: "admin@example.com", role: "ADMIN" };
+const provider: RemittanceActor = { id: "provider-1", email: "provider@example.com", role: "PROVIDER" };
+const otherProvider: RemittanceActor = { id: "provider-2", email: "other@example.com", role: "PROVIDER" };
+
+function contract(id: string, status: Contract["status"]): Contract {
+  return {
+    id,
+    warrantyId: `WH-${id}`,
+    contractNumber: id,
+    customerName: "Jane Doe",
+    status,
+    providerId: "provider-1",
+    createdAt: "2026-06-01T10:00:00.000Z",
+    updatedAt: "2026-06-01T10:00:00.000Z",
+  };
+}
+
+function batch(patch: Partial<Batch> = {}): Batch {
+  return {
+    id: "b-1",
+    batchNumber: "R-1",
+    status: "OPEN",
+    paymentStatus: "UNPAID",
+    remittanceStatus: "DRAFT",
+    contractIds: ["c-1"],
+    creditNoteIds: [],
+    subtotalCents: 10000,
+    taxRate: 0,
+    taxCents: 0,
+    taxBreakdown: [],
+    totalCents: 10000,
+    paidCents: 0,
+    providerId: "provider-1",
+    createdAt: "2026-06-01T10:00:00.000Z",
+    ...patch,
+  };
+}
+
+async function contractStatuses() {
+  return Object.fromEntries((await localContractsApi.list()).map((c) => [c.id, c.status]));
+}
+
+describe("remittance transition rules", () => {
+  it("derives the workflow status of batches saved before it was tracked", () => {
+    expect(remittanceWorkflowStatus({ status: "OPEN", paymentStatus: "UNPAID" })).toBe("DRAFT");
+    expect(remittanceWorkflowStatus({ status: "CLOSED", paymentStatus: "UNPAID" })).toBe("SUBMITTED");
+    expect(remittanceWorkflowStatus({ status: "CLOSED", paymentStatus: "PAID" })).toBe("PAID");
+    expect(remittanceWorkflowStatus({ status: "CLOSED", paymentStatus: "UNPAID", remittanceStatus: "APPROVED" })).toBe("APPROVED");
+  });
+
+  it("allows only the documented moves, each for the right role", () => {
+    expect(REMITTANCE_TRANSITIONS.PAID).toEqual([]);
+    expect(remittanceTransitionProblem(batch(), { to: "APPROVED" }, admin)).toMatch(/draft remittance cannot be moved to approved/);
+    expect(remittanceTransitionProblem(batch(), { to: "SUBMITTED" }, null)).toBe("Not authenticated");
+
+    expect(remittanceTransitionProblem(batch(), { to: "SUBMITTED" }, dealer)).toBeNull();
+    expect(remittanceTransitionProblem(batch(), { to: "SUBMITTED" }, salesperson)).toMatch(/Not authorized/);
+    expect(remittanceTransitionProblem(batch({ contractIds: [] }), { to: "SUBMITTED" }, dealer)).toBe("No contracts linked");
+
+    const submitted = batch({ remittanceStatus: "SUBMITTED", status: "CLOSED" });
+    expect(remittanceTransitionProblem(submitted, { to: "APPROVED" }, dealer)).toMatch(/Only an administrator/);
+    expect(remittanceTransitionProblem(submitted, { to: "APPROVED" }, admin)).toBeNull();
+    expect(remittanceTransitionProblem(submitted, { to: "REJECTED", rejectionReason: " " }, admin)).toBe("Rejection reason is required");
+
+    const approved = batch({ remittanceStatus: "APPROVED", status: "CLOSED" });
+    const payment = { to: "PAID" as const, paymentMethod: "EFT" as const, paymentDate: "2026-06-10" };
+    expect(remittanceTransitionProblem(approved, payment, provider)).toBeNull();
+    expect(remittanceTransitionProblem(approved, payment, otherProvider)).toMatch(/provider can mark it paid/);
+    expect(remittanceTransitionProblem(approved, { ...payment, paymentDate: "" }, provider)).toBe("Payment date is required");
+  });
+});
+
+describe("local remittance workflow", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem("warrantyhub.local.contracts", JSON.stringify([contract("c-1", "SOLD"), contract("c-2", "SOLD")]));
+    localStorage.setItem("warrantyhub.local.batches", JSON.stringify([batch({ contractIds: ["c-1", "c-2"] })]));
+  });
+
+  it("moves contracts with the remittance and locks its contents once submitted", async () => {
+    const submitted = await localBatchesApi.transition("b-1", { to: "SUBMITTED" }, dealer);
+    expect(submitted).toMatchObject({ remittanceStatus: "SUBMITTED", status: "CLOSED", dealerUserId: "dealer-1" });
+    expect(await contractStatuses()).toEqual({ "c-1": "REMITTED", "c-2": "REMITTED" });
+    expect((await localContractsApi.get("c-1"))?.remittedByEmail).toBe("dealer@example.com");
+
+    await expect(localBatchesApi.update("b-1", { contractIds: ["c-1"] })).rejects.toThrow(/locked/);
+    await expect(localBatchesApi.update("b-1", { totalCents: 1 })).rejects.toThrow(/locked/);
+
+    const rejected = await localBatchesApi.transition("b-1", { to: "REJECTED", rejectionReason: "Wrong totals" }, admin);
+    expect(rejected).toMatchObject({ remittanceStatus: "REJECTED", rejectionReason: "Wrong totals", reviewedByUserId: "admin-1" });
+    expect(await contractStatuses()).toEqual({ "c-1": "SOLD", "c-2": "SOLD" });
+
+    await localBatchesApi.update("b-1", { contractIds: ["c-1"], totalCents: 5000 });
+    await localBatchesApi.transition("b-1", { to: "SUBMITTED" }, dealer);
+    await localBatchesApi.transition("b-1", { to: "APPROVED" }, admin);
+    await expect(localBatchesApi.transition("b-1", { to: "PAID", paymentMethod: "EFT", paymentDate: "2026-06-10" }, otherProvider)).rejects.toThrow(
+      /provider can mark it paid/,
+    );
+
+    const paid = await localBatchesApi.transition("b-1", { to: "PAID", paymentMethod: "EFT", paymentDate: "2026-06-10" }, provider);
+    expect(paid).toMatchObject({ remittanceStatus: "PAID", paymentStatus: "PAID", paidByUserId: "provider-1" });
+    expect(await contractStatuses()).toEqual({ "c-1": "PAID", "c-2": "SOLD" });
+    await expect(localBatchesApi.transition("b-1", { to: "SUBMITTED" }, dealer)).rejects.toThrow(/paid remittance cannot be moved/);
+  });
+
+  it("starts remittances created with their contracts as drafts", async () => {
+    const created = await localBatchesApi.createRemittanceBatch({
+      batchNumber: "R-2",
+      contractIds: ["c-2"],
+      subtotalCents: 100,
+      taxCents: 0,
+      taxBreakdown: [],
+      totalCents: 100,
+    });
+    expect(created).toMatchObject({ remittanceStatus: "DRAFT", status: "OPEN" });
+  });
+});
+
+describe("remittance workflow migration", () => {
+  it("routes workflow columns through the transition function", () => {
+    expect(workflowMigration).toContain("create or replace function public.transition_remittance_batch(");
+    expect(workflowMigration).toContain("set_config('warrantyhub.batch_transition', 'on', true)");
+    expect(workflowMigration).toContain("Remittance is locked (submitted remittances cannot be edited)");
+    expect(workflowMigration).toContain("Rejection reason is required");
+    expect(workflowMigration).toContain("where c.id = any(_b.contract_ids)");
+    expect(workflowMigration).toContain("or c.dealer_id is distinct from _b.dealer_id");
+    expect(workflowMigration).toContain("or c.provider_id is distinct from _b.provider_id");
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import { contractSalesTax } from "../lib/tax/contractTax";
+import { calculateSalesTax, combineSalesTax, effectiveTaxRate, normalizeProvince, resolveTaxProvince } from "../lib/tax/salesTax";
+
+describe("sales tax", () => {
+  it("normalizes province codes and names", () => {
+    expect(normalizeProvince("on")).toBe("ON");
+    expect(normalizeProvince(" Québec ")).toBe("QC");
+    expect(normalizeProvince("British  Columbia")).toBe("BC");
+    expect(normalizeProvince("P.E.I.")).toBe("PE");
+    expect(normalizeProvince("Nouvelle-Écosse")).toBe("NS");
+    expect(normalizeProvince("Texas")).toBeNull();
+    expect(normalizeProvince(undefined)).toBeNull();
+    expect(resolveTaxProvince("", "Alberta")).toBe("AB");
+    expect(resolveTaxProvince("QC", "ON")).toBe("QC");
+  });
+
+  it("charges HST in Ontario and GST + QST in Quebec", () => {
+    const on = calculateSalesTax({ province: "ON", productType: "EXTENDED_WARRANTY", lines: [{ label: "Warranty", amountCents: 100000 }] });
+    expect(on.taxCents).toBe(13000);
+    expect(on.totalCents).toBe(113000);
+    expect(on.taxes.map((t) => t.kind)).toEqual(["HST"]);
+
+    const qc = calculateSalesTax({ province: "QC", productType: "EXTENDED_WARRANTY", lines: [{ label: "Warranty", amountCents: 100000 }] });
+    expect(qc.taxes.map((t) => [t.kind, t.taxCents])).toEqual([
+      ["GST", 5000],
+      ["QST", 9975],
+    ]);
+    expect(qc.totalCents).toBe(114975);
+  });
+
+  it("exempts GAP from GST/HST but applies provincial insurance premium tax", () => {
+    const ab = calculateSalesTax({ province: "AB", productType: "GAP", lines: [{ label: "GAP", amountCents: 80000 }] });
+    expect(ab.taxCents).toBe(0);
+    expect(ab.taxes).toEqual([]);
+
+    const on = calculateSalesTax({ province: "ON", productType: "GAP", lines: [{ label: "GAP", amountCents: 80000 }] });
+    expect(on.taxes.map((t) => [t.kind, t.taxCents])).toEqual([["INSURANCE", 6400]]);
+  });
+
+  it("nets refund lines against the original tax", () => {
+    const b = calculateSalesTax({
+      province: "ON",
+      lines: [
+        { label: "Warranty", amountCents: 100000 },
+        { label: "Cancellation refund", amountCents: -40000 },
+      ],
+    });
+    expect(b.subtotalCents).toBe(60000);
+    expect(b.taxCents).toBe(7800);
+    expect(b.taxes[0]?.taxableCents).toBe(60000);
+  });
+
+  it("combines contracts from different provinces by tax line", () => {
+    const combined = combineSalesTax([
+      calculateSalesTax({ province: "ON", lines: [{ label: "A", amountCents: 100000 }] }),
+      calculateSalesTax({ province: "ON", lines: [{ label: "B", amountCents: 50000 }] }),
+      calculateSalesTax({ province: "AB", lines: [{ label: "C", amountCents: 100000 }] }),
+    ]);
+    expect(combined.subtotalCents).toBe(250000);
+    expect(combined.taxes.map((t) => [t.kind, t.taxableCents, t.taxCents])).toEqual([
+      ["HST", 150000, 19500],
+      ["GST", 100000, 5000],
+    ]);
+    expect(effectiveTaxRate(combined)).toBe(0.098);
+  });
+
+  it("itemizes contract add-ons on the chosen basis", () => {
+    const b = contractSalesTax({
+      contract: {
+        customerProvince: "BC",
+        pricingBasePriceCents: 150000,
+        pricingDealerCostCents: 90000,
+        addonSnapshot: [{ name: "Rental", chosenPriceCents: 20000, basePriceCents: 10000 }],
+        addonTotalRetailCents: 20000,
+        addonTotalCostCents: 10000,
+      },
+      basis: "cost",
+      productName: "Powertrain",
+    });
+    expect(b.lines.map((l) => [l.label, l.amountCents])).toEqual([
+      ["Powertrain", 90000],
+      ["Rental", 10000],
+    ]);
+    expect(b.taxCents).toBe(12000);
+  });
+});
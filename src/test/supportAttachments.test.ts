@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  assertSupportAttachments,
+  formatAttachmentSize,
+  isImageAttachment,
+  SUPPORT_ATTACHMENT_MAX_BYTES,
+  supportAttachmentPath,
+  supportAttachmentProblem,
+} from "../lib/support/attachments";
+import { supportReferenceHref, toSupportReference } from "../lib/support/references";
+
+const file = (name: string, size = 2048) => new File([new Uint8Array(size)], name);
+
+describe("support attachments", () => {
+  it("accepts documents and images and explains what it rejects", () => {
+    expect(supportAttachmentProblem({ name: "Remittance.PDF", size: 1200 })).toBeNull();
+    expect(supportAttachmentProblem({ name: "photo.jpeg", size: 1200 })).toBeNull();
+    expect(supportAttachmentProblem({ name: "setup.exe", size: 1200 })).toBe("setup.exe: unsupported file type");
+    expect(supportAttachmentProblem({ name: "empty.txt", size: 0 })).toBe("empty.txt: file is empty");
+    expect(supportAttachmentProblem({ name: "scan.pdf", size: SUPPORT_ATTACHMENT_MAX_BYTES + 1 })).toBe("scan.pdf: larger than 10.0 MB");
+  });
+
+  it("limits the number of files per message", () => {
+    expect(() => assertSupportAttachments([file("a.pdf"), file("b.png")])).not.toThrow();
+    expect(() => assertSupportAttachments(["1", "2", "3", "4", "5", "6"].map((n) => file(`${n}.pdf`)))).toThrow(
+      "Attach up to 5 files per message",
+    );
+    expect(() => assertSupportAttachments([file("notes.zip")])).toThrow("notes.zip: unsupported file type");
+  });
+
+  it("stores files under the conversation with a safe name", () => {
+    expect(supportAttachmentPath("conv-1", "Bill of sale (2).pdf", "abc")).toBe("conv-1/abc-Bill_of_sale__2_.pdf");
+  });
+
+  it("detects images and formats sizes", () => {
+    expect(isImageAttachment({ fileName: "x.bin", mimeType: "image/png" })).toBe(true);
+    expect(isImageAttachment({ fileName: "dash.WEBP" })).toBe(true);
+    expect(isImageAttachment({ fileName: "invoice.pdf", mimeType: "application/pdf" })).toBe(false);
+    expect(formatAttachmentSize(512)).toBe("512 B");
+    expect(formatAttachmentSize(4096)).toBe("4 KB");
+    expect(formatAttachmentSize(3 * 1024 * 1024)).toBe("3.0 MB");
+  });
+});
+
+describe("support record references", () => {
+  it("parses stored references and ignores incomplete ones", () => {
+    expect(toSupportReference("contract", " c-1 ")).toEqual({ type: "CONTRACT", id: "c-1" });
+    expect(toSupportReference("REMITTANCE_BATCH", "b-1")).toEqual({ type: "REMITTANCE_BATCH", id: "b-1" });
+    expect(toSupportReference("CLAIM", "x")).toBeNull();
+    expect(toSupportReference("CONTRACT", null)).toBeNull();
+  });
+
+  it("deep links admins to their lists and dealers to the record", () => {
+    expect(supportReferenceHref({ type: "CONTRACT", id: "c-1" }, "admin")).toBe("/admin/contracts?contract=c-1");
+    expect(supportReferenceHref({ type: "REMITTANCE_BATCH", id: "b-1" }, "admin")).toBe("/admin-remittances?batch=b-1");
+    expect(supportReferenceHref({ type: "CONTRACT", id: "c-1" }, "dealer")).toBe("/dealer-contracts/c-1");
+    expect(supportReferenceHref({ type: "REMITTANCE_BATCH", id: "b-1" }, "dealer")).toBe("/dealer-remittances/batches/b-1/print");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import { renderCannedResponse, unfilledCannedResponseVariables } from "../lib/support/cannedResponses";
+import { formatSlaRemaining, isSlaBreached, supportSlaStatus, toSupportPriority } from "../lib/support/sla";
+import { countSupportTags, parseSupportTags } from "../lib/support/tags";
+
+const started = "2026-06-15T08:00:00.000Z";
+const at = (iso: string) => new Date(iso);
+
+describe("support SLA timers", () => {
+  it("has no timers until a user message starts the clock", () => {
+    const sla = supportSlaStatus({ priority: "HIGH" }, at("2026-06-15T09:00:00Z"));
+    expect(sla.firstResponse.state).toBe("none");
+    expect(sla.resolution.state).toBe("none");
+    expect(isSlaBreached(sla)).toBe(false);
+  });
+
+  it("runs, goes at risk, then breaches against the priority target", () => {
+    const c = { priority: "NORMAL", slaStartedAt: started };
+    expect(supportSlaStatus(c, at("2026-06-15T10:00:00Z")).firstResponse).toMatchObject({
+      state: "running",
+      dueAt: "2026-06-15T16:00:00.000Z",
+    });
+    expect(supportSlaStatus(c, at("2026-06-15T15:00:00Z")).firstResponse.state).toBe("at_risk");
+
+    const late = supportSlaStatus(c, at("2026-06-15T17:30:00Z"));
+    expect(late.firstResponse.state).toBe("breached");
+    expect(late.resolution.state).toBe("running");
+    expect(isSlaBreached(late)).toBe(true);
+    expect(formatSlaRemaining(late.firstResponse.remainingMs!)).toBe("1h 30m overdue");
+  });
+
+  it("stops the clocks on first response and resolution", () => {
+    const onTime = supportSlaStatus(
+      { priority: "URGENT", slaStartedAt: started, firstRespondedAt: "2026-06-15T08:45:00Z" },
+      at("2026-06-15T12:00:00Z"),
+    );
+    expect(onTime.firstResponse.state).toBe("met");
+    expect(onTime.resolution.state).toBe("running");
+
+    const resolvedLate = supportSlaStatus(
+      { priority: "URGENT", slaStartedAt: started, firstRespondedAt: "2026-06-15T10:00:00Z", resolvedAt: "2026-06-16T08:00:00Z" },
+      at("2026-06-20T00:00:00Z"),
+    );
+    expect(resolvedLate.firstResponse.state).toBe("met_late");
+    expect(resolvedLate.resolution.state).toBe("met_late");
+    expect(isSlaBreached(resolvedLate)).toBe(false);
+  });
+
+  it("moves the deadlines when the priority changes", () => {
+    expect(supportSlaStatus({ priority: "LOW", slaStartedAt: started }).resolution.dueAt).toBe("2026-06-20T08:00:00.000Z");
+    expect(supportSlaStatus({ priority: "urgent", slaStartedAt: started }).resolution.dueAt).toBe("2026-06-15T16:00:00.000Z");
+    expect(toSupportPriority("bogus")).toBe("NORMAL");
+  });
+});
+
+describe("canned responses", () => {
+  it("fills known variables and leaves missing ones for the admin", () => {
+    const text = renderCannedResponse("Hi {{user_name}}, contract {{ contract_number }} for {{dealer_name}} is {{status}}.", {
+      user_name: "Sam",
+      dealer_name: "Northside Motors",
+      contract_number: " ",
+    });
+    expect(text).toBe("Hi Sam, contract {{ contract_number }} for Northside Motors is {{status}}.");
+    expect(unfilledCannedResponseVariables(text)).toEqual(["contract_number", "status"]);
+    expect(unfilledCannedResponseVariables("All set.")).toEqual([]);
+  });
+});
+
+describe("support tags", () => {
+  it("normalises, dedupes and counts topics", () => {
+    expect(parseSupportTags(" Billing, billing\nContract Transfer,, ")).toEqual(["billing", "contract-transfer"]);
+    expect(
+      countSupportTags([{ tags: ["billing", "claims"] }, { tags: ["claims"] }, { tags: null }, { tags: ["billing", "access"] }]),
+    ).toEqual([
+      ["billing", 2],
+      ["claims", 2],
+      ["access", 1],
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { isPricingEligibleForVehicle } from "../lib/productPricing/eligibility";
+import type { ProductPricing } from "../lib/productPricing/types";
+import { parseVehicleClassMap, resolveVehicleClass, sameVehicleClass, vehicleClassCode } from "../lib/products/vehicleClass";
+
+const classMap = [
+  { classCode: "CLASS_1", make: "Toyota" },
+  { classCode: "CLASS_2", make: "Lexus" },
+  { classCode: "CLASS_2", make: "Mercedes-Benz" },
+  { classCode: "CLASS_3", make: "Mercedes-Benz", model: "Sprinter" },
+];
+
+describe("vehicle class mapping", () => {
+  it("reads class codes out of provider labels", () => {
+    expect(vehicleClassCode("CLASS_2")).toBe("CLASS_2");
+    expect(vehicleClassCode("Class 3 · Gold - $4,000 Per Claim")).toBe("CLASS_3");
+    expect(vehicleClassCode("Gold - Class 1")).toBe("CLASS_1");
+    expect(vehicleClassCode("Bronze - $1,000 Per Claim")).toBeNull();
+    expect(parseVehicleClassMap([{ classCode: "Class 2", make: " Lexus ", model: "" }, { classCode: "x", make: "Kia" }, "junk"])).toEqual([
+      { classCode: "CLASS_2", make: "Lexus" },
+    ]);
+  });
+
+  it("lets a model rule override its make and explains why", () => {
+    const sprinter = resolveVehicleClass({ make: "MERCEDES-BENZ", model: "Sprinter 2500" }, { vehicleClassMap: classMap });
+    expect(sprinter).toMatchObject({ classCode: "CLASS_3", classLabel: "Class 3", matchedBy: "MODEL_RULE" });
+    expect(sprinter.explanation).toMatch(/overriding the Class 2 rule/);
+
+    const glc = resolveVehicleClass({ make: "Mercedes Benz", model: "GLC" }, { vehicleClassMap: classMap });
+    expect(glc).toMatchObject({ classCode: "CLASS_2", matchedBy: "MAKE_RULE" });
+    expect(glc.explanation).toMatch(/every Mercedes-Benz model without its own rule/);
+  });
+
+  it("falls back to the free-text class lists and reports when nothing matches", () => {
+    const source = {
+      classVehicleTypes: { CLASS_1: "Honda, Toyota and Ford F-150", CLASS_2: "Ford" },
+      class3VehicleTypes: "Land Rover.",
+    };
+    expect(resolveVehicleClass({ make: "FORD", model: "F-150 Lightning" }, source)).toMatchObject({ classCode: "CLASS_1", matchedBy: "CLASS_LIST" });
+    expect(resolveVehicleClass({ make: "Ford", model: "Escape" }, source)).toMatchObject({ classCode: "CLASS_2" });
+    expect(resolveVehicleClass({ make: "LAND ROVER", model: "Defender" }, source)).toMatchObject({ classCode: "CLASS_3" });
+
+    const unknown = resolveVehicleClass({ make: "Kia", model: "Soul" }, source);
+    expect(unknown.classCode).toBeNull();
+    expect(unknown.explanation).toMatch(/No class rule covers Kia Soul/);
+  });
+
+  it("treats equivalent class labels as the same class for pricing eligibility", () => {
+    expect(sameVehicleClass("Class 2", "CLASS_2")).toBe(true);
+    expect(sameVehicleClass("Class 2 · Gold", "Class 2 · Platinum")).toBe(false);
+
+    const pricing = { vehicleClass: "CLASS_2", vehicleMileageMinKm: 0 } as ProductPricing;
+    expect(isPricingEligibleForVehicle({ pricing, vehicleMileageKm: 40000, vehicleClass: "Class 2" })).toBe(true);
+    expect(isPricingEligibleForVehicle({ pricing, vehicleMileageKm: 40000, vehicleClass: "Class 3" })).toBe(false);
+  });
+});
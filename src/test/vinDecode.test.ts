@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createMemoryVinCache } from "../lib/vin/cache";
+import { decodeVin, decodeVinOffline } from "../lib/vin/decodeVin";
+import { validateVin, vinCheckDigit, vinModelYear } from "../lib/vin/vin";
+import { wmiCountry, wmiManufacturer } from "../lib/vin/wmi";
+
+const ACCORD = "1HGCM82633A004352";
+
+describe("VIN decoding", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("validates the ISO 3779 / 49 CFR 565 check digit", () => {
+    expect(vinCheckDigit(ACCORD)).toBe("3");
+    expect(vinCheckDigit("1M8GDM9AXKP042788")).toBe("X");
+    expect(validateVin(" 1hgcm8-2633a004352 ")).toEqual({ ok: true, vin: ACCORD, reason: null });
+    expect(validateVin("1HGCM82633A004353").reason).toMatch(/check digit/);
+    expect(validateVin("1HGCM82633A00435").reason).toMatch(/17 characters/);
+    expect(validateVin("1HGCM82633AO04352").reason).toMatch(/I, O or Q/);
+  });
+
+  it("reads the model year from position 10 using position 7 to pick the cycle", () => {
+    const now = new Date("2026-06-01T00:00:00Z");
+    expect(vinModelYear(ACCORD, now)).toBe(2003);
+    expect(vinModelYear("5YJ3E1EA7KF317000", now)).toBe(2019);
+    expect(vinModelYear("1HGCM8263UA004352", now)).toBeNull();
+  });
+
+  it("resolves manufacturer and country from the WMI", () => {
+    expect(wmiManufacturer(ACCORD)).toBe("Honda");
+    expect(wmiCountry(ACCORD)).toBe("United States");
+    expect(wmiCountry("2T1BURHE0JC000000")).toBe("Canada");
+    expect(wmiCountry("KNADM4A30E6000000")).toBe("South Korea");
+    expect(decodeVinOffline(ACCORD)).toMatchObject({ vin: ACCORD, source: "offline", vehicleYear: "2003", vehicleMake: "Honda" });
+  });
+
+  it("enriches from vPIC, caches the result and serves repeats without network", async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      json: async () => ({ Results: [{ ModelYear: "2003", Make: "HONDA", Model: "Accord", Trim: "EX", ErrorCode: "0" }] }),
+    }));
+    vi.stubGlobal("fetch", fetchMock);
+    const cache = createMemoryVinCache();
+
+    const first = await decodeVin(ACCORD, { cache });
+    expect(first).toMatchObject({ source: "vpic", vehicleMake: "HONDA", vehicleModel: "Accord", manufacturedIn: "United States" });
+    expect(first.decodeWarning).toBeUndefined();
+
+    const again = await decodeVin(ACCORD, { cache });
+    expect(again).toMatchObject({ source: "cache", vehicleModel: "Accord" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the offline decode when vPIC is unreachable and rejects bad check digits before any request", async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError("Failed to fetch");
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const cache = createMemoryVinCache();
+
+    const offline = await decodeVin(ACCORD, { cache });
+    expect(offline).toMatchObject({ source: "offline", vehicleYear: "2003", vehicleMake: "Honda" });
+    expect(offline.decodeWarning).toMatch(/offline/);
+    expect(cache.get(ACCORD)).toBeNull();
+
+    await expect(decodeVin("1HGCM82633A004353", { cache })).rejects.toThrow(/check digit/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL?: string;
   readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_CONTRACT_VERIFICATION_PUBLIC_KEY?: string;
 }
 
 interface ImportMeta {
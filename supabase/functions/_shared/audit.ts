@@ -0,0 +1,37 @@
+import type { getServiceSupabaseClient } from "./supabase.ts";
+
+type ServiceClient = ReturnType<typeof getServiceSupabaseClient>;
+
+export type AuditEventRecord = {
+  kind: string;
+  actorUserId?: string | null;
+  actorEmail?: string | null;
+  actorRole?: string | null;
+  dealerId?: string | null;
+  providerId?: string | null;
+  entityType?: string | null;
+  entityId?: string | null;
+  message?: string | null;
+  meta?: Record<string, unknown> | null;
+};
+
+// seq, created_at and the hash chain are filled in by the audit_events insert trigger.
+// A failed audit write is logged but never fails the action it describes.
+export async function recordAuditEvent(svc: ServiceClient, event: AuditEventRecord) {
+  const res = await svc.from("audit_events").insert({
+    kind: event.kind,
+    actor_user_id: event.actorUserId ?? null,
+    actor_email: event.actorEmail ?? null,
+    actor_role: event.actorRole ?? null,
+    dealer_id: event.dealerId ?? null,
+    provider_id: event.providerId ?? null,
+    entity_type: event.entityType ?? null,
+    entity_id: event.entityId ?? null,
+    message: event.message ?? null,
+    meta: event.meta ?? null,
+    source: "edge",
+    prev_hash: "",
+    hash: "",
+  } as any);
+  if (res.error) console.error("audit_event_insert_error", { kind: event.kind, error: res.error.message });
+}
@@ -0,0 +1,13 @@
+export const READ_ONLY_MESSAGE = "Read-only while viewing as another user";
+
+type RpcClient = {
+  rpc(fn: string): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
+
+// Service-role writes skip RLS, so functions that write on the caller's behalf ask, as the
+// caller, whether they are an admin viewing the portal as someone else.
+export async function isImpersonating(authed: RpcClient) {
+  const { data, error } = await authed.rpc("is_impersonating");
+  if (error) throw new Error(error.message);
+  return data === true;
+}
@@ -0,0 +1,18 @@
+import type { getAuthedSupabaseClient } from "./supabase.ts";
+
+type AuthedClient = ReturnType<typeof getAuthedSupabaseClient>;
+
+// Evaluated as the caller (not the service role) so has_permission sees auth.uid().
+export async function hasPermission(
+  authed: AuthedClient,
+  permission: string,
+  scope: { dealershipId?: string | null; providerId?: string | null },
+) {
+  const { data, error } = await authed.rpc("has_permission", {
+    _permission: permission,
+    _dealership_id: scope.dealershipId ?? null,
+    _provider_id: scope.providerId ?? null,
+  });
+  if (error) throw new Error(error.message);
+  return data === true;
+}
@@ -1,3 +1,4 @@
+import { recordAuditEvent, type AuditEventRecord } from "../_shared/audit.ts";
 import { corsHeaders } from "../_shared/cors.ts";
 import { getAuthedSupabaseClient, getServiceSupabaseClient } from "../_shared/supabase.ts";
 
@@ -130,12 +131,13 @@ async function assertSuperAdmin(jwt: string) {
   if (uerr) throw new Error(uerr.message);
   const userId = (u.user?.id ?? "").toString();
   if (!userId) throw new Error("Not authenticated");
+  const userEmail = (u.user?.email ?? "").toString() || null;
 
   const svc = getServiceSupabaseClient();
   const profile = await svc.from("profiles").select("role").eq("id", userId).maybeSingle();
   if (profile.error) throw new Error(profile.error.message);
   const role = ((profile.data as any)?.role ?? "").toString();
-  if (role === "SUPER_ADMIN") return { userId, svc };
+  if (role === "SUPER_ADMIN") return { userId, userEmail, svc };
 
   const v2Role = await svc
     .from("user_roles")
@@ -145,7 +147,7 @@ async function assertSuperAdmin(jwt: string) {
     .maybeSingle();
   if (v2Role.error) throw new Error(v2Role.error.message);
   const userRole = ((v2Role.data as any)?.role ?? "").toString();
-  if (userRole === "super_admin") return { userId, svc };
+  if (userRole === "super_admin") return { userId, userEmail, svc };
 
   throw new Error("Forbidden");
 }
@@ -158,7 +160,9 @@ Deno.serve(async (req: Request) => {
     const jwt = getJwt(req);
     if (!jwt) return json(401, { error: "Missing Authorization bearer token" });
 
-    const { svc } = await assertSuperAdmin(jwt);
+    const { userId: actorUserId, userEmail: actorEmail, svc } = await assertSuperAdmin(jwt);
+    const audit = (event: Omit<AuditEventRecord, "actorUserId" | "actorEmail" | "actorRole">) =>
+      recordAuditEvent(svc, { ...event, actorUserId, actorEmail, actorRole: "SUPER_ADMIN" });
 
     const body = (await req.json()) as Partial<Body>;
     const action = (body as any)?.action as Action | undefined;
@@ -200,6 +204,8 @@ Deno.serve(async (req: Request) => {
         if (insertProfile.error) return json(500, { error: insertProfile.error.message });
       }
 
+      await audit({ kind: "USER_INVITED", entityType: "user", entityId: userId ?? null, message: `Invited ${email}` });
+
       return json(200, { user: (res.data as any)?.user ?? null });
     }
 
@@ -215,6 +221,8 @@ Deno.serve(async (req: Request) => {
       const profUpd = await svc.from("profiles").update({ email }).eq("id", userId);
       if (profUpd.error) return json(500, { error: profUpd.error.message });
 
+      await audit({ kind: "USER_EMAIL_UPDATED", entityType: "user", entityId: userId, message: `Changed login email to ${email}` });
+
       return json(200, { user: (upd.data as any)?.user ?? null });
     }
 
@@ -232,6 +240,8 @@ Deno.serve(async (req: Request) => {
 
       if (link.error) return json(400, { error: link.error.message });
 
+      await audit({ kind: "PASSWORD_RESET_LINK_GENERATED", entityType: "user", message: `Generated a password reset link for ${email}` });
+
       return json(200, {
         action_link: (link.data as any)?.properties?.action_link ?? null,
       });
@@ -251,6 +261,8 @@ Deno.serve(async (req: Request) => {
       const profUpd = await svc.from("profiles").update({ is_active: !disabled }).eq("id", userId);
       if (profUpd.error) return json(500, { error: profUpd.error.message });
 
+      await audit({ kind: disabled ? "USER_DISABLED" : "USER_ENABLED", entityType: "user", entityId: userId });
+
       return json(200, { user: (upd.data as any)?.user ?? null });
     }
 
@@ -283,6 +295,14 @@ Deno.serve(async (req: Request) => {
         if (v2Upd.error) return json(400, { error: v2Upd.error.message });
       }
 
+      await audit({
+        kind: "DEALER_UPDATED",
+        dealerId,
+        entityType: "dealer",
+        entityId: dealerId,
+        meta: { changed: Object.keys(updateRow).filter((k) => k !== "updated_at") },
+      });
+
       return json(200, { ok: true });
     }
 
@@ -379,6 +399,15 @@ Deno.serve(async (req: Request) => {
         .upsert({ user_id: userId, role: v2UserRole(role) } as any, { onConflict: "user_id,role" });
       if (userRole.error) return json(400, { error: userRole.error.message });
 
+      await audit({
+        kind: "DEALER_MEMBER_ADDED",
+        dealerId,
+        entityType: "dealer_member",
+        entityId: (insert.data as any)?.id ?? null,
+        message: `Added ${email} as ${role}`,
+        meta: { userId, role, status },
+      });
+
       return json(200, { dealerMemberId: (insert.data as any)?.id ?? null, userId });
     }
 
@@ -429,6 +458,14 @@ Deno.serve(async (req: Request) => {
         if (delUser.error) return json(400, { error: delUser.error.message });
       }
 
+      await audit({
+        kind: "DEALER_MEMBER_REMOVED",
+        dealerId: dealerId || null,
+        entityType: "dealer_member",
+        entityId: dealerMemberId,
+        meta: { userId, userDeleted: !hasRemainingMemberships },
+      });
+
       return json(200, { ok: true, userId });
     }
 
@@ -494,6 +531,14 @@ Deno.serve(async (req: Request) => {
         }
       }
 
+      await audit({
+        kind: "DEALER_MEMBER_UPDATED",
+        dealerId: dealerId || null,
+        entityType: "dealer_member",
+        entityId: dealerMemberId,
+        meta: { userId, ...updateRow },
+      });
+
       return json(200, { ok: true });
     }
 
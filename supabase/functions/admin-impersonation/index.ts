@@ -0,0 +1,279 @@
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getAuthedSupabaseClient, getServiceSupabaseClient } from "../_shared/supabase.ts";
+
+type Body =
+  | { action: "start"; targetUserId: string; reason: string; minutes?: number }
+  | { action: "stop"; sessionId: string; reason?: "ENDED" | "EXPIRED" };
+
+const DEFAULT_MINUTES = 30;
+const MAX_MINUTES = 60;
+
+const V2_TO_V1_ROLE: Record<string, string> = {
+  super_admin: "SUPER_ADMIN",
+  dealership_admin: "DEALER_ADMIN",
+  dealership_employee: "DEALER_EMPLOYEE",
+  provider: "PROVIDER",
+};
+
+class HttpError extends Error {
+  status: number;
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function getJwt(req: Request) {
+  const h = req.headers.get("authorization") ?? "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m?.[1] ?? "";
+}
+
+function safeTrim(v: unknown) {
+  return (v ?? "").toString().trim();
+}
+
+function clampMinutes(v: unknown) {
+  const n = typeof v === "number" && Number.isFinite(v) ? Math.round(v) : DEFAULT_MINUTES;
+  return Math.min(Math.max(n, 1), MAX_MINUTES);
+}
+
+type ServiceClient = ReturnType<typeof getServiceSupabaseClient>;
+
+async function effectiveRole(svc: ServiceClient, userId: string) {
+  const v2 = await svc.from("user_roles").select("role").eq("user_id", userId).limit(1);
+  if (v2.error) throw new Error(v2.error.message);
+  const mapped = V2_TO_V1_ROLE[safeTrim((v2.data as any[] | null)?.[0]?.role)];
+
+  const profile = await svc.from("profiles").select("email, role, is_active").eq("id", userId).maybeSingle();
+  if (profile.error) throw new Error(profile.error.message);
+  const p = profile.data as any;
+  const raw = safeTrim(p?.role);
+  const role = mapped ?? (raw === "DEALER" ? "DEALER_ADMIN" : raw || "UNASSIGNED");
+  return { role, email: safeTrim(p?.email) || null, isActive: p ? p.is_active !== false : true };
+}
+
+async function assertAdmin(jwt: string) {
+  const authed = getAuthedSupabaseClient(jwt);
+  const { data: u, error: uerr } = await authed.auth.getUser();
+  if (uerr) throw new HttpError(401, uerr.message);
+  const userId = safeTrim(u.user?.id);
+  if (!userId) throw new HttpError(401, "Not authenticated");
+
+  const svc = getServiceSupabaseClient();
+  const { role } = await effectiveRole(svc, userId);
+  if (role !== "ADMIN" && role !== "SUPER_ADMIN") throw new HttpError(403, "Forbidden");
+  return { svc, userId, userEmail: safeTrim(u.user?.email) || null, role };
+}
+
+// Builds the user the portal is rendered as, mirroring what the client resolves at sign-in.
+async function targetAuthUser(svc: ServiceClient, userId: string, role: string, email: string | null) {
+  const user: Record<string, unknown> = { id: userId, email: email ?? "", role };
+  let dealerId: string | null = null;
+  let providerId: string | null = null;
+
+  if (role === "DEALER_ADMIN" || role === "DEALER_EMPLOYEE") {
+    const legacy = await svc
+      .from("dealer_members")
+      .select("dealer_id")
+      .eq("user_id", userId)
+      .eq("status", "ACTIVE")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (legacy.error) throw new Error(legacy.error.message);
+    dealerId = safeTrim((legacy.data as any)?.dealer_id) || null;
+
+    const member = await svc
+      .from("dealership_members")
+      .select("dealership_id, role_template_id")
+      .eq("user_id", userId)
+      .limit(1)
+      .maybeSingle();
+    if (member.error) throw new Error(member.error.message);
+    const dealershipId = safeTrim((member.data as any)?.dealership_id);
+    if (!dealerId && dealershipId) {
+      const ds = await svc.from("dealerships").select("legacy_dealer_id").eq("id", dealershipId).maybeSingle();
+      if (ds.error) throw new Error(ds.error.message);
+      dealerId = safeTrim((ds.data as any)?.legacy_dealer_id) || null;
+    }
+
+    if (dealerId) {
+      const dealer = await svc
+        .from("dealers")
+        .select("name, subscription_status, subscription_plan_key, subscription_current_period_end, subscription_trial_end, contract_fee_cents")
+        .eq("id", dealerId)
+        .maybeSingle();
+      if (dealer.error) throw new Error(dealer.error.message);
+      const d = dealer.data as any;
+      Object.assign(user, {
+        dealerId,
+        companyName: safeTrim(d?.name) || undefined,
+        dealerSubscriptionStatus: safeTrim(d?.subscription_status) || undefined,
+        dealerSubscriptionPlanKey: safeTrim(d?.subscription_plan_key).toUpperCase() || null,
+        dealerSubscriptionCurrentPeriodEnd: d?.subscription_current_period_end ?? null,
+        dealerSubscriptionTrialEnd: d?.subscription_trial_end ?? null,
+        dealerContractFeeCents: typeof d?.contract_fee_cents === "number" ? d.contract_fee_cents : null,
+      });
+    }
+
+    const templateId = safeTrim((member.data as any)?.role_template_id);
+    if (role === "DEALER_EMPLOYEE" && templateId) {
+      const template = await svc.from("role_templates").select("permissions").eq("id", templateId).maybeSingle();
+      if (template.error) throw new Error(template.error.message);
+      user.permissions = (template.data as any)?.permissions ?? undefined;
+    }
+  }
+
+  if (role === "PROVIDER") {
+    const member = await svc
+      .from("provider_members")
+      .select("provider_id, role, role_template_id")
+      .eq("user_id", userId)
+      .limit(1)
+      .maybeSingle();
+    if (member.error) throw new Error(member.error.message);
+    providerId = safeTrim((member.data as any)?.provider_id) || null;
+    const templateId = safeTrim((member.data as any)?.role_template_id);
+    if (safeTrim((member.data as any)?.role) !== "admin" && templateId) {
+      const template = await svc.from("role_templates").select("permissions").eq("id", templateId).maybeSingle();
+      if (template.error) throw new Error(template.error.message);
+      user.permissions = (template.data as any)?.permissions ?? undefined;
+    }
+  }
+
+  return { user, dealerId, providerId };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const jwt = getJwt(req);
+    if (!jwt) return json(401, { error: "Missing Authorization bearer token" });
+
+    const { svc, userId: actorUserId, userEmail: actorEmail, role: actorRole } = await assertAdmin(jwt);
+
+    const body = (await req.json()) as Partial<Body>;
+    const action = safeTrim((body as any)?.action);
+
+    if (action === "start") {
+      const targetUserId = safeTrim((body as any)?.targetUserId);
+      const reason = safeTrim((body as any)?.reason);
+      if (!targetUserId) return json(400, { error: "targetUserId is required" });
+      if (!reason) return json(400, { error: "A reason is required" });
+      if (targetUserId === actorUserId) return json(400, { error: "You cannot view as yourself" });
+
+      const target = await effectiveRole(svc, targetUserId);
+      if (!target.isActive) return json(400, { error: "User is disabled" });
+      if (!["DEALER_ADMIN", "DEALER_EMPLOYEE", "PROVIDER"].includes(target.role)) {
+        return json(400, { error: "Only dealer and provider users can be viewed" });
+      }
+
+      // One open session per admin: starting a new one closes any earlier view.
+      const closePrevious = await svc
+        .from("impersonation_sessions")
+        .update({ ended_at: new Date().toISOString(), end_reason: "ENDED" })
+        .eq("admin_user_id", actorUserId)
+        .is("ended_at", null);
+      if (closePrevious.error) return json(500, { error: closePrevious.error.message });
+
+      const { user, dealerId, providerId } = await targetAuthUser(svc, targetUserId, target.role, target.email);
+      const startedAt = new Date();
+      const expiresAt = new Date(startedAt.getTime() + clampMinutes((body as any)?.minutes) * 60_000);
+
+      const inserted = await svc
+        .from("impersonation_sessions")
+        .insert({
+          admin_user_id: actorUserId,
+          admin_email: actorEmail,
+          target_user_id: targetUserId,
+          target_email: target.email,
+          target_role: target.role,
+          reason,
+          started_at: startedAt.toISOString(),
+          expires_at: expiresAt.toISOString(),
+        })
+        .select("id")
+        .single();
+      if (inserted.error) return json(500, { error: inserted.error.message });
+      const sessionId = safeTrim((inserted.data as any)?.id);
+
+      await recordAuditEvent(svc, {
+        kind: "IMPERSONATION_STARTED",
+        actorUserId,
+        actorEmail,
+        actorRole,
+        dealerId,
+        providerId,
+        entityType: "user",
+        entityId: targetUserId,
+        message: `Viewing as ${target.email ?? targetUserId}`,
+        meta: { sessionId, reason, expiresAt: expiresAt.toISOString() },
+      });
+
+      return json(200, {
+        session: {
+          id: sessionId,
+          adminUserId: actorUserId,
+          adminEmail: actorEmail ?? undefined,
+          targetUserId,
+          targetEmail: target.email ?? undefined,
+          targetRole: target.role,
+          reason,
+          startedAt: startedAt.toISOString(),
+          expiresAt: expiresAt.toISOString(),
+        },
+        user,
+      });
+    }
+
+    if (action === "stop") {
+      const sessionId = safeTrim((body as any)?.sessionId);
+      const endReason = safeTrim((body as any)?.reason) === "EXPIRED" ? "EXPIRED" : "ENDED";
+      if (!sessionId) return json(400, { error: "sessionId is required" });
+
+      const updated = await svc
+        .from("impersonation_sessions")
+        .update({ ended_at: new Date().toISOString(), end_reason: endReason })
+        .eq("id", sessionId)
+        .eq("admin_user_id", actorUserId)
+        .is("ended_at", null)
+        .select("target_user_id, target_email")
+        .maybeSingle();
+      if (updated.error) return json(500, { error: updated.error.message });
+      if (!updated.data) return json(200, { ok: true });
+
+      const targetUserId = safeTrim((updated.data as any).target_user_id);
+      const targetEmail = safeTrim((updated.data as any).target_email) || targetUserId;
+      await recordAuditEvent(svc, {
+        kind: "IMPERSONATION_ENDED",
+        actorUserId,
+        actorEmail,
+        actorRole,
+        entityType: "user",
+        entityId: targetUserId,
+        message: endReason === "EXPIRED" ? `Session viewing as ${targetEmail} expired` : `Stopped viewing as ${targetEmail}`,
+        meta: { sessionId, reason: endReason },
+      });
+
+      return json(200, { ok: true });
+    }
+
+    return json(400, { error: "Unsupported action" });
+  } catch (e) {
+    const err = e instanceof Error ? e : new Error(String(e));
+    const status = err instanceof HttpError ? err.status : 500;
+    if (status === 500) console.error("admin-impersonation error", { message: err.message, stack: err.stack });
+    return json(status, { error: err.message || "Unknown error" });
+  }
+});
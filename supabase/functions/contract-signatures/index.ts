@@ -0,0 +1,186 @@
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { corsHeaders } from "../_shared/cors.ts";
+import { READ_ONLY_MESSAGE, isImpersonating } from "../_shared/impersonation.ts";
+import { hasPermission } from "../_shared/permissions.ts";
+import { getAuthedSupabaseClient, getServiceSupabaseClient } from "../_shared/supabase.ts";
+
+// Records on-screen customer and dealer signatures. The content hash is recomputed here
+// from the stored contract so a signature can only be bound to what is actually on file,
+// and the signed time, IP address and user agent come from the request, not the body.
+// Content format must match src/lib/signatures/content.ts.
+
+const CONTENT_HEADER = "warrantyhub-contract-signature|v1";
+const MAX_SIGNATURE_IMAGE_LENGTH = 300_000;
+
+const SIGNED_CONTRACT_COLUMNS: Array<[label: string, column: string]> = [
+  ["Contract number", "contract_number"],
+  ["Customer name", "customer_name"],
+  ["Customer email", "customer_email"],
+  ["Customer phone", "customer_phone"],
+  ["Customer address", "customer_address"],
+  ["Customer city", "customer_city"],
+  ["Customer province", "customer_province"],
+  ["Customer postal code", "customer_postal_code"],
+  ["VIN", "vin"],
+  ["Vehicle year", "vehicle_year"],
+  ["Vehicle make", "vehicle_make"],
+  ["Vehicle model", "vehicle_model"],
+  ["Vehicle trim", "vehicle_trim"],
+  ["Mileage (km)", "vehicle_mileage_km"],
+  ["Product", "product_id"],
+  ["Pricing version", "product_pricing_version_id"],
+  ["Vehicle class", "pricing_vehicle_class"],
+  ["Term (months)", "pricing_term_months"],
+  ["Term (km)", "pricing_term_km"],
+  ["Deductible (cents)", "pricing_deductible_cents"],
+  ["Retail price (cents)", "pricing_base_price_cents"],
+  ["Add-on retail (cents)", "addon_total_retail_cents"],
+];
+
+type SignatureInput = { role?: string; signerName?: string; imageDataUrl?: string };
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function getJwt(req: Request) {
+  const h = req.headers.get("authorization") ?? "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m?.[1] ?? "";
+}
+
+function safeTrim(v: unknown) {
+  return (v ?? "").toString().trim();
+}
+
+function contentValue(v: unknown) {
+  if (v === undefined || v === null) return "";
+  if (typeof v === "number") return Number.isFinite(v) ? String(v) : "";
+  return String(v).trim();
+}
+
+async function hashContract(c: Record<string, unknown>) {
+  const text = [CONTENT_HEADER, ...SIGNED_CONTRACT_COLUMNS.map(([label, column]) => `${label}: ${contentValue(c[column])}`)].join("\n");
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function clientIp(req: Request) {
+  const forwarded = safeTrim(req.headers.get("x-forwarded-for")).split(",")[0]?.trim();
+  return forwarded || safeTrim(req.headers.get("cf-connecting-ip")) || safeTrim(req.headers.get("x-real-ip")) || null;
+}
+
+function signaturesProblem(signatures: SignatureInput[]) {
+  if (signatures.length === 0) return "At least one signature is required";
+  const roles = new Set<string>();
+  for (const s of signatures) {
+    const role = safeTrim(s.role);
+    if (role !== "CUSTOMER" && role !== "DEALER") return "Unknown signer role";
+    if (roles.has(role)) return "Each party can only sign once";
+    roles.add(role);
+    if (!safeTrim(s.signerName)) return "Signer name is required";
+    const image = safeTrim(s.imageDataUrl);
+    if (!image.startsWith("data:image/png;base64,")) return "Signature image is missing";
+    if (image.length > MAX_SIGNATURE_IMAGE_LENGTH) return "Signature image is too large";
+  }
+  return null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const jwt = getJwt(req);
+    if (!jwt) return json(401, { error: "Missing Authorization bearer token" });
+
+    const body = (await req.json()) as { contractId?: string; contentHash?: string; signatures?: SignatureInput[] };
+    const contractId = safeTrim(body?.contractId);
+    const contentHash = safeTrim(body?.contentHash).toLowerCase();
+    const signatures = Array.isArray(body?.signatures) ? body.signatures : [];
+    if (!contractId) return json(400, { error: "contractId is required" });
+    if (!/^[0-9a-f]{64}$/.test(contentHash)) return json(400, { error: "contentHash is required" });
+    const problem = signaturesProblem(signatures);
+    if (problem) return json(400, { error: problem });
+
+    const authed = getAuthedSupabaseClient(jwt);
+    const { data: u, error: uerr } = await authed.auth.getUser();
+    if (uerr) return json(401, { error: uerr.message });
+    const userId = u.user?.id;
+    if (!userId) return json(401, { error: "Not authenticated" });
+    // Signatures are written with the service role, which skips RLS, so an admin viewing as
+    // the dealer is refused here.
+    if (await isImpersonating(authed)) return json(403, { error: READ_ONLY_MESSAGE });
+
+    // Reading through the caller's client means RLS decides who can see the contract at all.
+    const contract = await authed.from("contracts").select("*").eq("id", contractId).maybeSingle();
+    if (contract.error) return json(500, { error: contract.error.message });
+    const c = contract.data as Record<string, unknown> | null;
+    if (!c) return json(404, { error: "Contract not found" });
+
+    // Only the selling side signs: dealership sellers on V2 contracts, active dealer members on V1.
+    const svc = getServiceSupabaseClient();
+    const dealershipId = safeTrim(c.dealership_id);
+    const dealerId = safeTrim(c.dealer_id);
+    if (dealershipId) {
+      if (!(await hasPermission(authed, "contracts.create", { dealershipId }))) return json(403, { error: "Not authorized" });
+    } else {
+      const member = dealerId
+        ? await svc
+            .from("dealer_members")
+            .select("id")
+            .eq("dealer_id", dealerId)
+            .eq("user_id", userId)
+            .eq("status", "ACTIVE")
+            .maybeSingle()
+        : null;
+      if (member?.error) return json(500, { error: member.error.message });
+      if (!member?.data) return json(403, { error: "Not authorized" });
+    }
+
+    if ((await hashContract(c)) !== contentHash) {
+      return json(409, { error: "The contract changed since it was displayed; review it and sign again" });
+    }
+
+    const ipAddress = clientIp(req);
+    const userAgent = safeTrim(req.headers.get("user-agent")) || null;
+    const inserted = await svc
+      .from("contract_signatures")
+      .insert(
+        signatures.map((s) => ({
+          contract_id: contractId,
+          role: safeTrim(s.role),
+          signer_name: safeTrim(s.signerName),
+          signer_user_id: safeTrim(s.role) === "DEALER" ? userId : null,
+          image_data_url: safeTrim(s.imageDataUrl),
+          content_hash: contentHash,
+          ip_address: ipAddress,
+          user_agent: userAgent,
+        })),
+      )
+      .select("*");
+    if (inserted.error) return json(500, { error: inserted.error.message });
+
+    await recordAuditEvent(svc, {
+      kind: "CONTRACT_SIGNED",
+      actorUserId: userId,
+      actorEmail: u.user?.email ?? null,
+      dealerId: dealerId || null,
+      entityType: "contract",
+      entityId: contractId,
+      message: `Signed by ${signatures.map((s) => safeTrim(s.signerName)).join(", ")}`,
+      meta: { roles: signatures.map((s) => safeTrim(s.role)), contentHash, ipAddress },
+    });
+
+    return json(200, { signatures: inserted.data });
+  } catch (e) {
+    const err = e instanceof Error ? e : new Error(String(e));
+    console.error("contract-signatures error", { message: err.message, stack: err.stack });
+    return json(500, { error: err.message || "Unknown error" });
+  }
+});
@@ -0,0 +1,127 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { getAuthedSupabaseClient, getServiceSupabaseClient } from "../_shared/supabase.ts";
+
+// Signs the QR verification token printed on contract copies. The payload is built here from
+// the database, never from the request, and signed with an ECDSA P-256 key so the public
+// /verify page can check it offline against VITE_CONTRACT_VERIFICATION_PUBLIC_KEY.
+// Format must match src/lib/verification/token.ts.
+
+const TOKEN_VERSION = "1";
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function getJwt(req: Request) {
+  const h = req.headers.get("authorization") ?? "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m?.[1] ?? "";
+}
+
+function safeTrim(v: unknown) {
+  return (v ?? "").toString().trim();
+}
+
+function field(v: unknown) {
+  return safeTrim(v).replace(/\|/g, "/");
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function warrantyIdFromContractId(id: string) {
+  return `WH-${id.replace(/-/g, "").toUpperCase().slice(0, 12)}`;
+}
+
+function termEndDate(startDate: string, termMonths: number | null) {
+  if (typeof termMonths !== "number" || termMonths <= 0) return "";
+  const d = new Date(`${startDate}T00:00:00Z`);
+  if (Number.isNaN(d.getTime())) return "";
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + termMonths);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d.toISOString().slice(0, 10);
+}
+
+async function getSigningKey() {
+  const raw = safeTrim(Deno.env.get("CONTRACT_VERIFICATION_PRIVATE_KEY"));
+  if (!raw) throw new Error("Missing CONTRACT_VERIFICATION_PRIVATE_KEY");
+  return crypto.subtle.importKey("jwk", JSON.parse(raw), { name: "ECDSA", namedCurve: "P-256" }, false, ["sign"]);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const jwt = getJwt(req);
+    if (!jwt) return json(401, { error: "Missing Authorization bearer token" });
+
+    const body = (await req.json()) as { contractId?: string };
+    const contractId = safeTrim(body?.contractId);
+    if (!contractId) return json(400, { error: "contractId is required" });
+
+    const authed = getAuthedSupabaseClient(jwt);
+    const { data: u, error: uerr } = await authed.auth.getUser();
+    if (uerr) return json(401, { error: uerr.message });
+    if (!u.user?.id) return json(401, { error: "Not authenticated" });
+
+    // Reading through the caller's client means RLS decides who may stamp which contract.
+    const contract = await authed.from("contracts").select("*").eq("id", contractId).maybeSingle();
+    if (contract.error) return json(500, { error: contract.error.message });
+    const c = contract.data as Record<string, unknown> | null;
+    if (!c) return json(404, { error: "Contract not found" });
+
+    const status = safeTrim(c.status).toUpperCase();
+    if (status !== "SOLD" && status !== "REMITTED" && status !== "PAID") {
+      return json(400, { error: "Only sold contracts can be verified" });
+    }
+
+    const svc = getServiceSupabaseClient();
+    const productId = safeTrim(c.product_id);
+    const product = productId ? await svc.from("products").select("name").eq("id", productId).maybeSingle() : null;
+    if (product?.error) return json(500, { error: product.error.message });
+
+    const cancellation = await svc.from("contract_cancellations").select("id").eq("contract_id", contractId).limit(1).maybeSingle();
+    if (cancellation.error) return json(500, { error: cancellation.error.message });
+
+    const startDate = safeTrim(c.sold_at ?? c.created_at).slice(0, 10);
+    const termMonths = typeof c.pricing_term_months === "number" ? c.pricing_term_months : null;
+    const endDate = termEndDate(startDate, termMonths);
+    const today = new Date().toISOString().slice(0, 10);
+    const code = cancellation.data ? "C" : endDate && endDate <= today ? "E" : "A";
+
+    const payload = [
+      TOKEN_VERSION,
+      safeTrim(c.warranty_id) || warrantyIdFromContractId(contractId),
+      c.contract_number,
+      code,
+      (product?.data as { name?: string } | null)?.name ?? "",
+      startDate,
+      endDate,
+      termMonths ?? "",
+      typeof c.pricing_term_km === "number" ? c.pricing_term_km : "",
+      safeTrim(c.vin).toUpperCase(),
+      today,
+    ]
+      .map(field)
+      .join("|");
+
+    const bytes = new TextEncoder().encode(payload);
+    const sig = new Uint8Array(await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, await getSigningKey(), bytes));
+
+    return json(200, { token: `${toBase64Url(bytes)}.${toBase64Url(sig)}` });
+  } catch (e) {
+    const err = e instanceof Error ? e : new Error(String(e));
+    console.error("contract-verification-token error", { message: err.message, stack: err.stack });
+    return json(500, { error: err.message || "Unknown error" });
+  }
+});
@@ -1,4 +1,7 @@
+import { recordAuditEvent } from "../_shared/audit.ts";
 import { corsHeaders } from "../_shared/cors.ts";
+import { READ_ONLY_MESSAGE, isImpersonating } from "../_shared/impersonation.ts";
+import { hasPermission } from "../_shared/permissions.ts";
 import { getStripe } from "../_shared/stripe.ts";
 import { getAuthedSupabaseClient, getServiceSupabaseClient } from "../_shared/supabase.ts";
 
@@ -40,6 +43,7 @@ Deno.serve(async (req: Request) => {
     const userId = (u.user?.id ?? "").toString();
     const userEmail = (u.user?.email ?? "").toString();
     if (!userId) return json(401, { error: "Not authenticated" });
+    if (await isImpersonating(supabase)) return json(403, { error: READ_ONLY_MESSAGE });
 
     const svc = getServiceSupabaseClient();
 
@@ -70,6 +74,10 @@ Deno.serve(async (req: Request) => {
       ? (membership.data as any).dealership_id
       : dealerId;
 
+    if (membership.data && !(await hasPermission(supabase, "contracts.create", { dealershipId }))) {
+      return json(403, { error: "Not authorized" });
+    }
+
     // Load dealer billing state — try dealerships (V2) then dealers (V1)
     let dealerRow: any = null;
     const v2Dealer = await svc
@@ -117,6 +125,19 @@ Deno.serve(async (req: Request) => {
       return json(402, { error: "Subscription required" });
     }
 
+    // Optional: pause new contracts while a remittance is this many days past due.
+    const overdueBlockDays = Number((Deno.env.get("REMITTANCE_OVERDUE_BLOCK_DAYS") ?? "").trim());
+    if (Number.isInteger(overdueBlockDays) && overdueBlockDays > 0) {
+      const overdue = await svc.rpc("dealership_overdue_days", { _dealership_id: dealershipId });
+      if (overdue.error) return json(500, { error: overdue.error.message });
+      const overdueDays = Number(overdue.data ?? 0) || 0;
+      if (overdueDays >= overdueBlockDays) {
+        return json(403, {
+          error: `New contracts are paused: a remittance is ${overdueDays} days overdue (limit ${overdueBlockDays})`,
+        });
+      }
+    }
+
     // Charge per contract for Standard
     const feeCents = Number((dealerRow as any).contract_fee_cents ?? 0) || 0;
     const customerId = ((dealerRow as any).stripe_customer_id ?? "").toString().trim();
@@ -198,6 +219,7 @@ Deno.serve(async (req: Request) => {
       provider_id: (input.providerId ?? null) as any,
       product_id: (input.productId ?? null) as any,
       product_pricing_id: (input.productPricingId ?? null) as any,
+      product_pricing_version_id: (input.productPricingVersionId ?? null) as any,
       pricing_term_months: (input.pricingTermMonths ?? null) as any,
       pricing_term_km: (input.pricingTermKm ?? null) as any,
       pricing_vehicle_mileage_min_km: (input.pricingVehicleMileageMinKm ?? null) as any,
@@ -233,7 +255,11 @@ Deno.serve(async (req: Request) => {
       processing_fee_paid_at: paymentIntentId ? nowIso : null,
     };
 
-    const created = await svc.from("contracts").insert(insert).select("*").single();
+    const created = await svc
+      .from("contracts")
+      .insert(insert)
+      .select("*, contract_dealer_costs(pricing_dealer_cost_cents, addon_total_cost_cents, dealer_cost_dollars)")
+      .single();
     if (created.error) {
       console.error("contract_insert_error", {
         dealerId,
@@ -259,7 +285,24 @@ Deno.serve(async (req: Request) => {
       return json(500, { error: created.error.message });
     }
 
-    return json(200, { contract: created.data });
+    await recordAuditEvent(svc, {
+      kind: "CONTRACT_CREATED",
+      actorUserId: userId,
+      actorEmail: userEmail || null,
+      actorRole: "DEALER",
+      dealerId,
+      providerId: (created.data as any)?.provider_id ?? null,
+      entityType: "contract",
+      entityId: (created.data as any)?.id ?? null,
+      message: `Created contract ${insert.contract_number}`,
+      meta: { planKey, processingFeeCents: insert.contract_processing_fee_cents, paymentIntentId },
+    });
+
+    // The row is read with the service role, so cost has to be withheld here
+    // from members RLS would hide it from.
+    const { contract_dealer_costs: dealerCost, ...contract } = created.data as any;
+    const canViewCost = !membership.data || (await hasPermission(supabase, "pricing.view_cost", { dealershipId }));
+    return json(200, { contract: canViewCost ? { ...contract, ...(dealerCost ?? {}) } : contract });
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
     return json(500, { error: msg || "Unknown error" });
@@ -1,4 +1,6 @@
+import { recordAuditEvent, type AuditEventRecord } from "../_shared/audit.ts";
 import { corsHeaders } from "../_shared/cors.ts";
+import { hasPermission } from "../_shared/permissions.ts";
 import { getAuthedSupabaseClient, getServiceSupabaseClient } from "../_shared/supabase.ts";
 
 declare const Deno: any;
@@ -130,6 +132,7 @@ async function assertDealerAdmin(jwt: string) {
   if (uerr) throw new HttpError(401, uerr.message);
   const userId = (u.user?.id ?? "").toString();
   if (!userId) throw new HttpError(401, "Not authenticated");
+  const userEmail = (u.user?.email ?? "").toString() || null;
 
   const svc = getServiceSupabaseClient();
   const membership = await svc
@@ -147,7 +150,7 @@ async function assertDealerAdmin(jwt: string) {
   if (dealerId && role === "DEALER_ADMIN") {
     const ds = await svc.from("dealerships").select("id").eq("legacy_dealer_id", dealerId).maybeSingle();
     if (ds.error) throw new Error(ds.error.message);
-    return { svc, dealerId, dealershipId: safeTrim((ds.data as any)?.id), userId };
+    return { svc, dealerId, dealershipId: safeTrim((ds.data as any)?.id), userId, userEmail, isAdmin: true };
   }
 
   const dealershipMembership = await svc
@@ -162,12 +165,27 @@ async function assertDealerAdmin(jwt: string) {
   const dealershipRole = safeTrim(dm?.role);
 
   if (!dealerId && !dealershipId) throw new HttpError(403, "No dealership assigned");
-  if (dealershipRole !== "admin") throw new HttpError(403, "Forbidden");
+  // Employees whose role template grants team.manage can run the team tools too,
+  // but only dealership admins can create or promote other admins.
+  const isAdmin = dealershipRole === "admin";
+  if (!isAdmin && !(await hasPermission(authed, "team.manage", { dealershipId }))) throw new HttpError(403, "Forbidden");
 
   const ds = await svc.from("dealerships").select("legacy_dealer_id").eq("id", dealershipId).maybeSingle();
   if (ds.error) throw new Error(ds.error.message);
 
-  return { svc, dealerId: safeTrim((ds.data as any)?.legacy_dealer_id), dealershipId, userId };
+  return { svc, dealerId: safeTrim((ds.data as any)?.legacy_dealer_id), dealershipId, userId, userEmail, isAdmin };
+}
+
+async function assertCanManageMember(svc: ReturnType<typeof getServiceSupabaseClient>, isAdmin: boolean, dealershipId: string, targetUserId: string) {
+  if (isAdmin || !targetUserId) return;
+  const target = await svc
+    .from("dealership_members")
+    .select("role")
+    .eq("dealership_id", dealershipId)
+    .eq("user_id", targetUserId)
+    .maybeSingle();
+  if (target.error) throw new Error(target.error.message);
+  if (safeTrim((target.data as any)?.role) === "admin") throw new HttpError(403, "Only dealership admins can manage admin accounts");
 }
 
 Deno.serve(async (req: Request) => {
@@ -178,7 +196,9 @@ Deno.serve(async (req: Request) => {
     const jwt = getJwt(req);
     if (!jwt) return json(401, { error: "Missing Authorization bearer token" });
 
-    const { svc, dealerId, dealershipId, userId: actorUserId } = await assertDealerAdmin(jwt);
+    const { svc, dealerId, dealershipId, userId: actorUserId, userEmail: actorEmail, isAdmin } = await assertDealerAdmin(jwt);
+    const audit = (event: Omit<AuditEventRecord, "actorUserId" | "actorEmail" | "actorRole" | "dealerId">) =>
+      recordAuditEvent(svc, { ...event, actorUserId, actorEmail, actorRole: isAdmin ? "DEALER_ADMIN" : "DEALER_EMPLOYEE", dealerId: dealerId || dealershipId || null });
 
     const body = (await req.json()) as Partial<Body>;
     const action = (body as any)?.action as Action | undefined;
@@ -197,6 +217,7 @@ Deno.serve(async (req: Request) => {
       if (!lastName) return json(400, { error: "lastName is required" });
       if (!email) return json(400, { error: "email is required" });
       if (!role) return json(400, { error: "role is required" });
+      if (role === "DEALER_ADMIN" && !isAdmin) return json(403, { error: "Only dealership admins can assign the admin role" });
 
       const created = await svc.auth.admin.createUser({
         email,
@@ -284,6 +305,14 @@ Deno.serve(async (req: Request) => {
       const userRoleUpsert = await svc.from("user_roles").upsert({ user_id: newUserId, role: v2Role } as any, { onConflict: "user_id,role" });
       if (userRoleUpsert.error) return json(400, { error: userRoleUpsert.error.message });
 
+      await audit({
+        kind: "EMPLOYEE_CREATED",
+        entityType: "user",
+        entityId: newUserId,
+        message: `Created ${email} as ${role}`,
+        meta: { dealerMemberId, role },
+      });
+
       return json(200, {
         dealerMemberId,
         userId: newUserId,
@@ -305,6 +334,7 @@ Deno.serve(async (req: Request) => {
       if (!lastName) return json(400, { error: "lastName is required" });
       if (!email) return json(400, { error: "email is required" });
       if (!role) return json(400, { error: "role is required" });
+      if (role === "DEALER_ADMIN" && !isAdmin) return json(403, { error: "Only dealership admins can assign the admin role" });
 
       const currentMember = await svc
         .from("dealer_members")
@@ -318,6 +348,7 @@ Deno.serve(async (req: Request) => {
       if (safeTrim(m.dealer_id) !== dealerId) return json(403, { error: "Forbidden" });
 
       const targetUserId = safeTrim(m.user_id);
+      await assertCanManageMember(svc, isAdmin, dealershipId, targetUserId);
       if (!targetUserId) return json(400, { error: "Member has no user" });
 
       const updUser = await svc.auth.admin.updateUserById(targetUserId, {
@@ -348,6 +379,8 @@ Deno.serve(async (req: Request) => {
       const memberUpd = await svc.from("dealer_members").update({ role } as any).eq("id", dealerMemberId);
       if (memberUpd.error) return json(400, { error: memberUpd.error.message });
 
+      await audit({ kind: "EMPLOYEE_UPDATED", entityType: "user", entityId: targetUserId, meta: { dealerMemberId, email, role } });
+
       return json(200, { ok: true });
     }
 
@@ -372,16 +405,25 @@ Deno.serve(async (req: Request) => {
       if (upd.error) return json(400, { error: upd.error.message });
 
       const userId = safeTrim(m.user_id);
+      await assertCanManageMember(svc, isAdmin, dealershipId, userId);
       if (userId) {
         const profUpd = await svc.from("profiles").update({ is_active: status === "ACTIVE" } as any).eq("id", userId);
         if (profUpd.error) return json(500, { error: profUpd.error.message });
       }
 
+      await audit({
+        kind: status === "ACTIVE" ? "EMPLOYEE_ENABLED" : "EMPLOYEE_DISABLED",
+        entityType: "user",
+        entityId: userId || null,
+        meta: { dealerMemberId },
+      });
+
       return json(200, { ok: true });
     }
 
     if (action === "generate_temporary_password") {
       const targetUserId = safeTrim((body as any)?.userId);
+      await assertCanManageMember(svc, isAdmin, dealershipId, targetUserId);
       if (!targetUserId) return json(400, { error: "userId is required" });
 
       let isTeamMember = false;
@@ -417,11 +459,14 @@ Deno.serve(async (req: Request) => {
       } as any);
       if (updUser.error) return json(400, { error: updUser.error.message });
 
+      await audit({ kind: "EMPLOYEE_TEMPORARY_PASSWORD_SET", entityType: "user", entityId: targetUserId });
+
       return json(200, { temporaryPassword });
     }
 
     if (action === "delete_employee") {
       const targetUserId = safeTrim((body as any)?.userId);
+      await assertCanManageMember(svc, isAdmin, dealershipId, targetUserId);
       const dealerMemberId = safeTrim((body as any)?.dealerMemberId);
       const dealershipMemberId = safeTrim((body as any)?.dealershipMemberId);
 
@@ -511,6 +556,8 @@ Deno.serve(async (req: Request) => {
         if (delUser.error) return json(400, { error: delUser.error.message });
       }
 
+      await audit({ kind: "EMPLOYEE_DELETED", entityType: "user", entityId: targetUserId, meta: { deletedUser: !hasRemainingMemberships } });
+
       return json(200, { ok: true, deletedUser: !hasRemainingMemberships });
     }
 
@@ -0,0 +1,43 @@
+import { corsHeaders } from "../_shared/cors.ts";
+import { getAuthedSupabaseClient, getServiceSupabaseClient } from "../_shared/supabase.ts";
+
+// Flips past-due pending contract remittances to overdue. pg_cron runs the same SQL
+// function daily where it is installed; this lets an external scheduler (called with
+// the service role key) or a super admin run it on demand.
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function getJwt(req: Request) {
+  const h = req.headers.get("authorization") ?? "";
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m?.[1] ?? "";
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json(405, { error: "Method not allowed" });
+
+  try {
+    const jwt = getJwt(req);
+    if (!jwt) return json(401, { error: "Missing Authorization bearer token" });
+
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? Deno.env.get("SERVICE_ROLE_KEY") ?? "";
+    // Signed-in callers go through their own session so the function's admin check applies.
+    const client = serviceKey && jwt === serviceKey ? getServiceSupabaseClient() : getAuthedSupabaseClient(jwt);
+
+    const { data, error } = await client.rpc("mark_overdue_contract_remittances");
+    if (error) return json(error.message === "Not authorized" ? 403 : 400, { error: error.message });
+
+    const marked = Number(data ?? 0) || 0;
+    console.log("remittance_overdue_sweep", { marked });
+    return json(200, { marked });
+  } catch (e) {
+    const err = e instanceof Error ? e : new Error(String(e));
+    console.error("remittance-overdue-sweep error", { message: err.message, stack: err.stack });
+    return json(500, { error: err.message || "Unknown error" });
+  }
+});
@@ -1,3 +1,4 @@
+import { recordAuditEvent } from "../_shared/audit.ts";
 import { corsHeaders } from "../_shared/cors.ts";
 import { getServiceSupabaseClient } from "../_shared/supabase.ts";
 import { getStripe, getStripeWebhookSecret, planKeyFromPriceId } from "../_shared/stripe.ts";
@@ -113,6 +114,14 @@ Deno.serve(async (req: Request) => {
             })
             .eq("id", dealerId);
           if (upd.error) throw new Error(upd.error.message);
+          await recordAuditEvent(svc, {
+            kind: "SUBSCRIPTION_CHECKOUT_COMPLETED",
+            actorRole: "STRIPE",
+            dealerId,
+            entityType: "dealer",
+            entityId: dealerId,
+            meta: { stripeEventId: event.id, customerId: customerId || null, subscriptionId: subId || null },
+          });
         }
         break;
       }
@@ -137,6 +146,20 @@ Deno.serve(async (req: Request) => {
         }
 
         await upsertDealerFromSubscription(sub);
+        const subDealerId = (sub?.metadata?.dealer_id ?? "").toString().trim() || null;
+        await recordAuditEvent(svc, {
+          kind: `SUBSCRIPTION_${event.type.slice("customer.subscription.".length).toUpperCase()}`,
+          actorRole: "STRIPE",
+          dealerId: subDealerId,
+          entityType: "dealer",
+          entityId: subDealerId,
+          meta: {
+            stripeEventId: event.id,
+            subscriptionId: (sub?.id ?? "").toString() || null,
+            customerId: (sub?.customer ?? "").toString() || null,
+            status: (sub?.status ?? "").toString() || null,
+          },
+        });
         break;
       }
       default:
@@ -0,0 +1,268 @@
+-- Contract cancellations: per-product refund method plus a record of what the
+-- customer, dealer and provider are owed when a contract is cancelled mid-term.
+
+alter table public.products
+  add column if not exists cancellation_refund_method text
+  check (cancellation_refund_method in ('PRO_RATA_TIME','PRO_RATA_KM','PRO_RATA_LESSER','SHORT_RATE'));
+
+alter table public.products
+  add column if not exists cancellation_fee_cents integer;
+
+alter table public.contracts
+  add column if not exists cancelled_at timestamptz;
+
+create table if not exists public.contract_cancellations (
+  id uuid primary key default gen_random_uuid(),
+  contract_id uuid not null unique references public.contracts(id) on delete cascade,
+  cancellation_date date not null,
+  odometer_km integer not null,
+  refund_method text not null
+    check (refund_method in ('PRO_RATA_TIME','PRO_RATA_KM','PRO_RATA_LESSER','SHORT_RATE')),
+  time_used_fraction numeric(7,6),
+  km_used_fraction numeric(7,6),
+  refund_fraction numeric(7,6) not null,
+  retail_cents integer not null,
+  provider_cost_cents integer not null,
+  cancellation_fee_cents integer not null default 0,
+  customer_refund_cents integer not null,
+  dealer_refund_cents integer not null,
+  provider_refund_cents integer not null,
+  reason text,
+  reversal_remittance_id uuid references public.contract_remittances(id) on delete set null,
+  created_by_user_id text,
+  created_by_email text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.contract_cancellations enable row level security;
+
+drop policy if exists "contract_cancellations_admin_all" on public.contract_cancellations;
+create policy "contract_cancellations_admin_all"
+  on public.contract_cancellations
+  for all
+  to authenticated
+  using (public.is_admin() or public.has_role(auth.uid(), 'super_admin'))
+  with check (public.is_admin() or public.has_role(auth.uid(), 'super_admin'));
+
+-- Dealers read their cancellations; they are written only by cancel_contract.
+drop policy if exists "contract_cancellations_dealer_member" on public.contract_cancellations;
+create policy "contract_cancellations_dealer_member"
+  on public.contract_cancellations
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        public.is_active_dealer_member(c.dealer_id)
+        or public.is_dealership_member(auth.uid(), c.dealership_id)
+      )
+    )
+  );
+
+drop policy if exists "contract_cancellations_provider_read" on public.contract_cancellations;
+create policy "contract_cancellations_provider_read"
+  on public.contract_cancellations
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        c.provider_id = auth.uid()
+        or public.is_provider_member(auth.uid(), c.provider_entity_id)
+      )
+    )
+  );
+
+create or replace function public.can_cancel_contract(_contract public.contracts)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin()
+    or public.has_role(auth.uid(), 'super_admin')
+    or public.is_active_dealer_member(_contract.dealer_id)
+    or public.is_dealership_member(auth.uid(), _contract.dealership_id);
+$$;
+
+-- What the provider was paid for the contract: dealer cost when recorded, else the base price.
+create or replace function public.contract_provider_cost_cents(_contract public.contracts)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(_contract.pricing_dealer_cost_cents, _contract.pricing_base_price_cents, 0)
+    + coalesce(_contract.addon_total_cost_cents, 0);
+$$;
+
+revoke all on function public.can_cancel_contract(public.contracts) from public;
+revoke all on function public.contract_provider_cost_cents(public.contracts) from public;
+
+-- Cancels a sold contract in one transaction: the refund is worked out here from the
+-- contract and its product's cancellation terms (mirroring calculateCancellationRefund),
+-- then the cancellation, the contract's status and, for dealership contracts, the
+-- provider's negative remittance line are written together.
+create or replace function public.cancel_contract(
+  _contract_id uuid,
+  _cancellation_date date,
+  _odometer_km integer,
+  _reason text default null
+)
+returns public.contract_cancellations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _uid uuid := auth.uid();
+  _email text := nullif(auth.jwt() ->> 'email', '');
+  _c public.contracts;
+  _method text;
+  _fee integer;
+  _start date;
+  _term_days integer;
+  _time_used numeric;
+  _km_used numeric;
+  _fraction numeric;
+  _retail integer;
+  _cost integer;
+  _gross integer;
+  _gross_provider integer;
+  _gross_dealer integer;
+  _fee_from_dealer integer;
+  _reversal_id uuid;
+  _row public.contract_cancellations;
+begin
+  if _uid is null then
+    raise exception 'Not authenticated';
+  end if;
+  if public.is_impersonating() then
+    raise exception 'Read-only while viewing as another user';
+  end if;
+
+  select * into _c from public.contracts where id = _contract_id for update;
+  if not found then
+    raise exception 'Contract not found';
+  end if;
+  if not public.can_cancel_contract(_c) then
+    raise exception 'Not authorized to cancel this contract';
+  end if;
+  if coalesce(_c.status, 'DRAFT') = 'DRAFT' then
+    raise exception 'Only a sold contract can be cancelled';
+  end if;
+  if exists (select 1 from public.contract_cancellations cc where cc.contract_id = _contract_id) then
+    raise exception 'Contract is already cancelled';
+  end if;
+  if _cancellation_date is null or _odometer_km is null or _odometer_km < 0 then
+    raise exception 'Enter the odometer reading at cancellation';
+  end if;
+
+  _start := coalesce(_c.sold_at, _c.created_at)::date;
+  if _cancellation_date < _start then
+    raise exception 'Cancellation date cannot be before the contract was sold';
+  end if;
+  if _c.vehicle_mileage_km is not null and _odometer_km < _c.vehicle_mileage_km then
+    raise exception 'Odometer at cancellation cannot be lower than at sale';
+  end if;
+
+  select p.cancellation_refund_method, p.cancellation_fee_cents
+  into _method, _fee
+  from public.products p
+  where p.id = _c.product_id;
+  _method := coalesce(_method, 'PRO_RATA_TIME');
+
+  if coalesce(_c.pricing_term_months, 0) > 0 then
+    _term_days := (_start + make_interval(months => _c.pricing_term_months))::date - _start;
+    _time_used := least(1, greatest(0, (_cancellation_date - _start)::numeric / _term_days));
+  end if;
+  if coalesce(_c.pricing_term_km, 0) > 0 then
+    _km_used := least(1, greatest(0, (_odometer_km - coalesce(_c.vehicle_mileage_km, 0))::numeric / _c.pricing_term_km));
+  end if;
+
+  -- Unlimited terms have no denominator; fall back to whichever axis is measurable.
+  _fraction := case _method
+    when 'PRO_RATA_KM' then 1 - coalesce(_km_used, _time_used, 0)
+    when 'PRO_RATA_LESSER' then 1 - greatest(coalesce(_time_used, 0), coalesce(_km_used, 0))
+    else 1 - coalesce(_time_used, _km_used, 0)
+  end;
+  _fraction := least(1, greatest(0, _fraction));
+
+  _retail := greatest(0, coalesce(_c.pricing_base_price_cents, 0) + coalesce(_c.addon_total_retail_cents, 0));
+  _cost := least(greatest(0, public.contract_provider_cost_cents(_c)), _retail);
+  _gross := round(_retail * _fraction);
+  _gross_provider := round(_cost * _fraction);
+  _gross_dealer := _gross - _gross_provider;
+
+  -- The short-rate fee is retained by the dealer first; only the excess reduces the provider's share.
+  _fee := case when _method = 'SHORT_RATE' then least(greatest(coalesce(_fee, 0), 0), _gross) else 0 end;
+  _fee_from_dealer := least(_fee, _gross_dealer);
+
+  insert into public.contract_cancellations (
+    contract_id,
+    cancellation_date,
+    odometer_km,
+    refund_method,
+    time_used_fraction,
+    km_used_fraction,
+    refund_fraction,
+    retail_cents,
+    provider_cost_cents,
+    cancellation_fee_cents,
+    customer_refund_cents,
+    dealer_refund_cents,
+    provider_refund_cents,
+    reason,
+    created_by_user_id,
+    created_by_email
+  )
+  values (
+    _contract_id,
+    _cancellation_date,
+    _odometer_km,
+    _method,
+    round(_time_used, 6),
+    round(_km_used, 6),
+    round(_fraction, 6),
+    _retail,
+    _cost,
+    _fee,
+    _gross - _fee,
+    _gross_dealer - _fee_from_dealer,
+    _gross_provider - (_fee - _fee_from_dealer),
+    nullif(trim(_reason), ''),
+    _uid::text,
+    _email
+  )
+  returning * into _row;
+
+  update public.contracts
+  set status_new = 'cancelled',
+      cancelled_at = now()
+  where id = _contract_id;
+
+  -- Dealership contracts carry per-contract remittance lines; the provider's share of the
+  -- refund goes on as a negative line so remittance balances net it out.
+  if _c.dealership_id is not null and _row.provider_refund_cents > 0 then
+    insert into public.contract_remittances (contract_id, amount, due_date)
+    values (_contract_id, -(_row.provider_refund_cents / 100.0), _cancellation_date)
+    returning id into _reversal_id;
+
+    update public.contract_cancellations
+    set reversal_remittance_id = _reversal_id
+    where id = _row.id
+    returning * into _row;
+  end if;
+
+  return _row;
+end;
+$$;
+
+revoke all on function public.cancel_contract(uuid, date, integer, text) from public;
+grant execute on function public.cancel_contract(uuid, date, integer, text) to authenticated;
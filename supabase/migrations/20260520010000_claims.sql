@@ -0,0 +1,314 @@
+-- Claims: repair claims opened against a sold contract, with per-line coverage
+-- checks and the provider's adjudication. Deductible and claim limit are
+-- snapshotted from the contract's pricing row when the claim is opened.
+
+create table if not exists public.claims (
+  id uuid primary key default gen_random_uuid(),
+  claim_number text not null unique,
+  contract_id uuid not null references public.contracts(id) on delete cascade,
+  product_id uuid references public.products(id) on delete set null,
+  status text not null default 'SUBMITTED'
+    check (status in ('SUBMITTED','APPROVED','PARTIALLY_APPROVED','DENIED')),
+  loss_date date not null,
+  odometer_km integer not null,
+  complaint text not null,
+  lines jsonb not null default '[]'::jsonb,
+  deductible_cents integer not null default 0,
+  claim_limit_type text
+    check (claim_limit_type in ('PER_CLAIM','TOTAL_COVERAGE','FMV','MAX_RETAIL')),
+  claim_limit_cents integer,
+  requested_cents integer not null default 0,
+  approved_cents integer not null default 0,
+  payable_cents integer not null default 0,
+  opened_by_role text not null check (opened_by_role in ('DEALER','PROVIDER')),
+  opened_by_user_id text,
+  opened_by_email text,
+  adjudicated_by_user_id text,
+  adjudicated_by_email text,
+  adjudicated_at timestamptz,
+  adjudication_notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists claims_contract_id_idx on public.claims(contract_id);
+
+alter table public.claims enable row level security;
+
+drop policy if exists "claims_admin_all" on public.claims;
+create policy "claims_admin_all"
+  on public.claims
+  for all
+  to authenticated
+  using (public.is_admin() or public.has_role(auth.uid(), 'super_admin'))
+  with check (public.is_admin() or public.has_role(auth.uid(), 'super_admin'));
+
+-- Dealers can open and follow claims on their own contracts but never adjudicate them.
+drop policy if exists "claims_dealer_select" on public.claims;
+create policy "claims_dealer_select"
+  on public.claims
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        public.is_active_dealer_member(c.dealer_id)
+        or public.is_dealership_member(auth.uid(), c.dealership_id)
+      )
+    )
+  );
+
+drop policy if exists "claims_dealer_insert" on public.claims;
+create policy "claims_dealer_insert"
+  on public.claims
+  for insert
+  to authenticated
+  with check (
+    status = 'SUBMITTED'
+    and opened_by_role = 'DEALER'
+    and exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        public.is_active_dealer_member(c.dealer_id)
+        or public.is_dealership_member(auth.uid(), c.dealership_id)
+      )
+    )
+  );
+
+-- Providers follow, open and adjudicate claims on their contracts; claims are never deleted.
+drop policy if exists "claims_provider_all" on public.claims;
+drop policy if exists "claims_provider_select" on public.claims;
+create policy "claims_provider_select"
+  on public.claims
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        c.provider_id = auth.uid()
+        or public.is_provider_member(auth.uid(), c.provider_entity_id)
+      )
+    )
+  );
+
+drop policy if exists "claims_provider_insert" on public.claims;
+create policy "claims_provider_insert"
+  on public.claims
+  for insert
+  to authenticated
+  with check (
+    status = 'SUBMITTED'
+    and opened_by_role = 'PROVIDER'
+    and exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        c.provider_id = auth.uid()
+        or public.is_provider_member(auth.uid(), c.provider_entity_id)
+      )
+    )
+  );
+
+drop policy if exists "claims_provider_update" on public.claims;
+create policy "claims_provider_update"
+  on public.claims
+  for update
+  to authenticated
+  using (
+    exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        c.provider_id = auth.uid()
+        or public.is_provider_member(auth.uid(), c.provider_entity_id)
+      )
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        c.provider_id = auth.uid()
+        or public.is_provider_member(auth.uid(), c.provider_entity_id)
+      )
+    )
+  );
+
+-- Whatever the client sends, a new claim on a sold, uncancelled contract starts
+-- unadjudicated, with the contract's
+-- deductible and the claim limit from its pricing row. An FMV limit depends on the
+-- vehicle's value at the loss, which only the claimant knows, so that value can only
+-- lower the pricing row's limit.
+create or replace function public.snapshot_claim_terms()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _c public.contracts;
+  _limit_type text;
+  _limit_cents integer;
+begin
+  select * into _c from public.contracts where id = new.contract_id;
+  if not found then
+    raise exception 'Contract not found';
+  end if;
+  if _c.status not in ('SOLD', 'REMITTED', 'PAID') then
+    raise exception 'Claims can only be opened on a sold contract';
+  end if;
+  if exists (select 1 from public.contract_cancellations cc where cc.contract_id = _c.id) then
+    raise exception 'Claims cannot be opened on a cancelled contract';
+  end if;
+
+  select pp.claim_limit_type, coalesce(pp.claim_limit_amount_cents, pp.claim_limit_cents)
+  into _limit_type, _limit_cents
+  from public.product_pricing pp
+  where pp.id = _c.product_pricing_id;
+  _limit_type := coalesce(_limit_type, case when _limit_cents is not null then 'PER_CLAIM' end);
+
+  new.product_id := _c.product_id;
+  new.status := 'SUBMITTED';
+  new.deductible_cents := coalesce(_c.pricing_deductible_cents, 0);
+  new.claim_limit_type := _limit_type;
+  new.claim_limit_cents := case _limit_type
+    when 'FMV' then least(_limit_cents, new.claim_limit_cents)
+    when 'MAX_RETAIL' then coalesce(_limit_cents, coalesce(_c.pricing_base_price_cents, 0) + coalesce(_c.addon_total_retail_cents, 0))
+    else _limit_cents
+  end;
+
+  new.lines := coalesce(
+    (select jsonb_agg(l || jsonb_build_object('decision', 'PENDING', 'approvedCents', 0)) from jsonb_array_elements(new.lines) l),
+    '[]'::jsonb
+  );
+  new.requested_cents := coalesce(
+    (
+      select sum(greatest(round(coalesce((l ->> 'partsCents')::numeric, 0)), 0) + greatest(round(coalesce((l ->> 'laborCents')::numeric, 0)), 0))
+      from jsonb_array_elements(new.lines) l
+    ),
+    0
+  );
+  new.approved_cents := 0;
+  new.payable_cents := 0;
+  new.adjudicated_by_user_id := null;
+  new.adjudicated_by_email := null;
+  new.adjudicated_at := null;
+  new.adjudication_notes := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists snapshot_claim_terms on public.claims;
+create trigger snapshot_claim_terms
+  before insert on public.claims
+  for each row execute function public.snapshot_claim_terms();
+
+-- Adjudication only decides each line. The claim's terms and repair lines stay as
+-- they were opened, and the totals and status are worked out here the same way as
+-- calculateClaimTotals and claimStatusFromLines, whatever the client sends.
+create or replace function public.adjudicate_claim_totals()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _approved integer;
+  _after_deductible integer;
+  _limit integer;
+  _prior_paid integer := 0;
+begin
+  new.claim_number := old.claim_number;
+  new.contract_id := old.contract_id;
+  new.product_id := old.product_id;
+  new.loss_date := old.loss_date;
+  new.odometer_km := old.odometer_km;
+  new.complaint := old.complaint;
+  new.deductible_cents := old.deductible_cents;
+  new.claim_limit_type := old.claim_limit_type;
+  new.claim_limit_cents := old.claim_limit_cents;
+  new.requested_cents := old.requested_cents;
+  new.opened_by_role := old.opened_by_role;
+  new.opened_by_user_id := old.opened_by_user_id;
+  new.opened_by_email := old.opened_by_email;
+  new.created_at := old.created_at;
+
+  -- Keep the opened lines; take only the decision, approved amount and denial reason
+  -- sent for each line id.
+  new.lines := coalesce(
+    (
+      select jsonb_agg(
+        (o.l - 'denialReason')
+          || jsonb_build_object(
+            'decision', case when d.l ->> 'decision' in ('APPROVED', 'DENIED') then d.l ->> 'decision' else 'PENDING' end,
+            'approvedCents', greatest(round(coalesce((d.l ->> 'approvedCents')::numeric, 0)), 0)
+          )
+          || case when d.l ? 'denialReason' then jsonb_build_object('denialReason', d.l -> 'denialReason') else '{}'::jsonb end
+        order by o.ord
+      )
+      from jsonb_array_elements(old.lines) with ordinality o(l, ord)
+      cross join lateral (
+        select coalesce(
+          (select n from jsonb_array_elements(new.lines) n where n ->> 'id' = o.l ->> 'id' limit 1),
+          o.l
+        ) as l
+      ) d
+    ),
+    '[]'::jsonb
+  );
+
+  select coalesce(sum(least(
+    greatest(round(coalesce((l ->> 'partsCents')::numeric, 0)), 0) + greatest(round(coalesce((l ->> 'laborCents')::numeric, 0)), 0),
+    (l ->> 'approvedCents')::integer
+  )), 0)
+  into _approved
+  from jsonb_array_elements(new.lines) l
+  where l ->> 'decision' = 'APPROVED';
+
+  _after_deductible := _approved - least(_approved, greatest(new.deductible_cents, 0));
+  -- greatest() skips nulls, so a claim with no limit has to stay null here.
+  _limit := case when new.claim_limit_cents is not null then greatest(new.claim_limit_cents, 0) end;
+  if new.claim_limit_type in ('TOTAL_COVERAGE', 'MAX_RETAIL') then
+    select coalesce(sum(c.payable_cents), 0)
+    into _prior_paid
+    from public.claims c
+    where c.contract_id = new.contract_id
+      and c.id <> new.id
+      and c.status in ('APPROVED', 'PARTIALLY_APPROVED');
+  end if;
+
+  new.approved_cents := _approved;
+  new.payable_cents := case
+    when _limit is null then _after_deductible
+    else least(_after_deductible, greatest(_limit - _prior_paid, 0))
+  end;
+
+  new.status := case
+    when jsonb_array_length(new.lines) = 0
+      or exists (select 1 from jsonb_array_elements(new.lines) l where l ->> 'decision' = 'PENDING')
+      then 'SUBMITTED'
+    when not exists (select 1 from jsonb_array_elements(new.lines) l where l ->> 'decision' <> 'DENIED')
+      then 'DENIED'
+    when not exists (
+      select 1 from jsonb_array_elements(new.lines) l
+      where l ->> 'decision' <> 'APPROVED'
+        or (l ->> 'approvedCents')::integer
+          < greatest(round(coalesce((l ->> 'partsCents')::numeric, 0)), 0) + greatest(round(coalesce((l ->> 'laborCents')::numeric, 0)), 0)
+    )
+      then 'APPROVED'
+    else 'PARTIALLY_APPROVED'
+  end;
+  return new;
+end;
+$$;
+
+drop trigger if exists adjudicate_claim_totals on public.claims;
+create trigger adjudicate_claim_totals
+  before update on public.claims
+  for each row execute function public.adjudicate_claim_totals();
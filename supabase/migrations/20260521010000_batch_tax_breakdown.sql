@@ -0,0 +1,5 @@
+-- Remittance batches: keep the per-tax breakdown (GST/HST/PST/QST, insurance
+-- premium tax) alongside the totals. tax_rate stays as the blended rate.
+
+alter table public.batches
+  add column if not exists tax_breakdown jsonb not null default '[]'::jsonb;
@@ -0,0 +1,177 @@
+-- Pricing versions: dated provider rate cards. Rows are drafted under a
+-- version, published with an effective window, and never edited afterwards.
+-- Rows with no version_id are the pre-versioning card and stay the fallback.
+
+create table if not exists public.product_pricing_versions (
+  id uuid primary key default gen_random_uuid(),
+  provider_id uuid not null references public.profiles(id) on delete cascade,
+  product_id uuid not null references public.products(id) on delete cascade,
+  label text,
+  status text not null default 'DRAFT' check (status in ('DRAFT','PUBLISHED')),
+  effective_from date not null,
+  effective_to date,
+  published_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (effective_to is null or effective_to >= effective_from)
+);
+
+create index if not exists product_pricing_versions_product_id_idx
+  on public.product_pricing_versions(product_id, effective_from desc);
+
+alter table public.product_pricing
+  add column if not exists version_id uuid references public.product_pricing_versions(id) on delete cascade;
+
+create index if not exists product_pricing_version_id_idx on public.product_pricing(version_id);
+
+-- Uniqueness and the single default row are per rate card, not per product.
+do $$
+declare
+  r record;
+begin
+  for r in
+    select conname from pg_constraint
+    where conrelid = 'public.product_pricing'::regclass and contype = 'u'
+  loop
+    execute format('alter table public.product_pricing drop constraint %I', r.conname);
+  end loop;
+end $$;
+
+drop index if exists public.product_pricing_one_default_per_product;
+create unique index if not exists product_pricing_one_default_per_version
+  on public.product_pricing (product_id, coalesce(version_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  where is_default;
+
+drop index if exists public.product_pricing_unique_row_coalesced;
+create unique index if not exists product_pricing_unique_row_coalesced
+  on public.product_pricing (
+    product_id,
+    coalesce(version_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    coalesce(term_months, -1),
+    coalesce(term_km, -1),
+    coalesce(vehicle_mileage_min_km, -1),
+    coalesce(vehicle_mileage_max_km, -1),
+    coalesce(vehicle_class, ''),
+    deductible_cents,
+    coalesce(claim_limit_cents, -1),
+    coalesce(claim_limit_type, ''),
+    coalesce(claim_limit_amount_cents, -1)
+  );
+
+alter table public.contracts
+  add column if not exists product_pricing_version_id uuid references public.product_pricing_versions(id) on delete set null;
+
+-- Published rate cards are frozen: rows can't be added, changed or removed.
+create or replace function public.product_pricing_guard_published()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_version uuid := coalesce(new.version_id, old.version_id);
+begin
+  if tg_op = 'DELETE' and not exists (select 1 from public.products p where p.id = old.product_id) then
+    return old;
+  end if;
+  if tg_op = 'UPDATE' and old.version_id is distinct from new.version_id then
+    raise exception 'Pricing rows cannot move between rate cards';
+  end if;
+  if v_version is not null and exists (
+    select 1 from public.product_pricing_versions v where v.id = v_version and v.status = 'PUBLISHED'
+  ) then
+    raise exception 'Published rate cards cannot be changed';
+  end if;
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists product_pricing_guard_published on public.product_pricing;
+create trigger product_pricing_guard_published
+  before insert or update or delete on public.product_pricing
+  for each row execute function public.product_pricing_guard_published();
+
+create or replace function public.product_pricing_versions_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' then
+    if old.status = 'PUBLISHED' and exists (select 1 from public.products p where p.id = old.product_id) then
+      raise exception 'Published rate cards cannot be deleted';
+    end if;
+    return old;
+  end if;
+  if old.status = 'PUBLISHED' and (
+    new.status <> 'PUBLISHED'
+    or new.effective_from <> old.effective_from
+    or new.product_id <> old.product_id
+    or (new.effective_to is not null and (old.effective_to is null or new.effective_to > old.effective_to))
+  ) then
+    raise exception 'Published rate cards can only be ended earlier';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists product_pricing_versions_guard on public.product_pricing_versions;
+create trigger product_pricing_versions_guard
+  before update or delete on public.product_pricing_versions
+  for each row execute function public.product_pricing_versions_guard();
+
+-- Dealers only ever see published rate cards; drafts stay with the provider.
+drop policy if exists "product_pricing_select_published_dealer" on public.product_pricing;
+create policy "product_pricing_select_published_dealer"
+  on public.product_pricing
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.products pr
+      where pr.id = product_pricing.product_id
+        and pr.published = true
+    )
+    and (
+      product_pricing.version_id is null
+      or exists (
+        select 1 from public.product_pricing_versions v
+        where v.id = product_pricing.version_id and v.status = 'PUBLISHED'
+      )
+    )
+    and exists (
+      select 1 from public.profiles p
+      where p.id = auth.uid() and p.role in ('DEALER','DEALER_ADMIN','DEALER_EMPLOYEE','ADMIN','SUPER_ADMIN')
+    )
+  );
+
+alter table public.product_pricing_versions enable row level security;
+
+drop policy if exists "product_pricing_versions_provider_own" on public.product_pricing_versions;
+create policy "product_pricing_versions_provider_own"
+  on public.product_pricing_versions
+  for all
+  to authenticated
+  using (provider_id = auth.uid())
+  with check (provider_id = auth.uid());
+
+drop policy if exists "product_pricing_versions_select_published" on public.product_pricing_versions;
+create policy "product_pricing_versions_select_published"
+  on public.product_pricing_versions
+  for select
+  to authenticated
+  using (
+    status = 'PUBLISHED'
+    and exists (
+      select 1 from public.products pr
+      where pr.id = product_pricing_versions.product_id
+        and pr.published = true
+    )
+  );
+
+drop policy if exists "product_pricing_versions_select_admin_all" on public.product_pricing_versions;
+create policy "product_pricing_versions_select_admin_all"
+  on public.product_pricing_versions
+  for select
+  to authenticated
+  using (public.is_admin() or public.has_role(auth.uid(), 'super_admin'));
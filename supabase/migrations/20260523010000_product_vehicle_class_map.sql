@@ -0,0 +1,50 @@
+-- Structured make/model -> vehicle class table per product. Replaces hand-picking
+-- the class against the free-text class lists; a rule with no model covers the whole make.
+
+alter table public.products
+  add column if not exists vehicle_class_map jsonb not null default '[]'::jsonb;
+
+-- Global Warranty publishes its class makes in the terms; seed the table from them.
+update public.products
+set vehicle_class_map = $json$
+  [
+    { "classCode": "CLASS_1", "make": "Buick" },
+    { "classCode": "CLASS_1", "make": "Chevrolet" },
+    { "classCode": "CLASS_1", "make": "Chrysler" },
+    { "classCode": "CLASS_1", "make": "Dodge" },
+    { "classCode": "CLASS_1", "make": "Fiat" },
+    { "classCode": "CLASS_1", "make": "Ford" },
+    { "classCode": "CLASS_1", "make": "GMC" },
+    { "classCode": "CLASS_1", "make": "Honda" },
+    { "classCode": "CLASS_1", "make": "Hyundai" },
+    { "classCode": "CLASS_1", "make": "Jeep" },
+    { "classCode": "CLASS_1", "make": "Kia" },
+    { "classCode": "CLASS_1", "make": "Mazda" },
+    { "classCode": "CLASS_1", "make": "Mitsubishi" },
+    { "classCode": "CLASS_1", "make": "Nissan" },
+    { "classCode": "CLASS_1", "make": "Ram" },
+    { "classCode": "CLASS_1", "make": "Subaru" },
+    { "classCode": "CLASS_1", "make": "Toyota" },
+    { "classCode": "CLASS_1", "make": "Volkswagen" },
+    { "classCode": "CLASS_2", "make": "Acura" },
+    { "classCode": "CLASS_2", "make": "Cadillac" },
+    { "classCode": "CLASS_2", "make": "Genesis" },
+    { "classCode": "CLASS_2", "make": "Infiniti" },
+    { "classCode": "CLASS_2", "make": "Lexus" },
+    { "classCode": "CLASS_2", "make": "Lincoln" },
+    { "classCode": "CLASS_2", "make": "Mini" },
+    { "classCode": "CLASS_2", "make": "Volvo" },
+    { "classCode": "CLASS_3", "make": "Alfa Romeo" },
+    { "classCode": "CLASS_3", "make": "Audi" },
+    { "classCode": "CLASS_3", "make": "BMW" },
+    { "classCode": "CLASS_3", "make": "Jaguar" },
+    { "classCode": "CLASS_3", "make": "Land Rover" },
+    { "classCode": "CLASS_3", "make": "Maserati" },
+    { "classCode": "CLASS_3", "make": "Mercedes-Benz" },
+    { "classCode": "CLASS_3", "make": "Porsche" },
+    { "classCode": "CLASS_3", "make": "Tesla" }
+  ]
+  $json$::jsonb
+where provider_entity_id = '9ca091d9-9f15-426e-88ea-d034a85d3114'
+  and name = 'Ultimate Automotive Protection'
+  and vehicle_class_map = '[]'::jsonb;
@@ -0,0 +1,9 @@
+-- Eligibility rules engine: deny-lists next to the existing allow-lists and a
+-- limit on how long after the in-service date a plan can still be sold.
+
+alter table public.products
+  add column if not exists eligibility_make_denylist text[],
+  add column if not exists eligibility_model_denylist text[],
+  add column if not exists eligibility_trim_denylist text[],
+  add column if not exists eligibility_max_months_in_service integer
+    check (eligibility_max_months_in_service is null or eligibility_max_months_in_service > 0);
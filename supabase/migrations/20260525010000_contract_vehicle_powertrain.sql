@@ -0,0 +1,6 @@
+-- Powertrain eligibility: keep the decoded powertrain on the contract so a
+-- gas-only plan cannot be submitted for an electrified vehicle.
+
+alter table public.contracts
+  add column if not exists vehicle_powertrain text
+    check (vehicle_powertrain is null or vehicle_powertrain in ('ICE','HEV','PHEV','BEV','UNKNOWN'));
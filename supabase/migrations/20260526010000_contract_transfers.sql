@@ -0,0 +1,185 @@
+-- Contract transfers: per-product transfer policy and fee, plus an append-only
+-- ownership history. Inserting a transfer moves the contract to the new owner.
+
+alter table public.products
+  add column if not exists transfer_policy text
+  check (transfer_policy in ('NOT_TRANSFERABLE','ORIGINAL_OWNER_PRIVATE_SALE','PRIVATE_SALE','ANY'));
+
+alter table public.products
+  add column if not exists transfer_fee_cents integer;
+
+create table if not exists public.contract_transfers (
+  id uuid primary key default gen_random_uuid(),
+  contract_id uuid not null references public.contracts(id) on delete cascade,
+  transfer_date date not null,
+  odometer_km integer,
+  sale_type text not null
+    check (sale_type in ('PRIVATE_SALE','DEALER_SALE','FAMILY')),
+  previous_owner_name text not null,
+  previous_owner_email text,
+  previous_owner_phone text,
+  previous_owner_address text,
+  previous_owner_city text,
+  previous_owner_province text,
+  previous_owner_postal_code text,
+  new_owner_name text not null check (length(trim(new_owner_name)) > 0),
+  new_owner_email text,
+  new_owner_phone text,
+  new_owner_address text,
+  new_owner_city text,
+  new_owner_province text,
+  new_owner_postal_code text,
+  transfer_fee_cents integer not null default 0,
+  fee_remittance_id uuid references public.contract_remittances(id) on delete set null,
+  notes text,
+  created_by_user_id text,
+  created_by_email text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists contract_transfers_contract_id_idx on public.contract_transfers(contract_id, created_at);
+
+-- Snapshot the outgoing owner from the contract itself (not the client), then hand the
+-- contract to the new owner and post the transfer fee on V2 dealership contracts.
+create or replace function public.apply_contract_transfer()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  c public.contracts%rowtype;
+begin
+  select * into c from public.contracts where id = new.contract_id for update;
+  if not found then
+    raise exception 'Contract not found';
+  end if;
+
+  new.previous_owner_name := coalesce(nullif(trim(c.customer_name), ''), trim(concat_ws(' ', c.customer_first_name, c.customer_last_name)));
+  new.previous_owner_email := c.customer_email;
+  new.previous_owner_phone := c.customer_phone;
+  new.previous_owner_address := c.customer_address;
+  new.previous_owner_city := c.customer_city;
+  new.previous_owner_province := c.customer_province;
+  new.previous_owner_postal_code := c.customer_postal_code;
+
+  update public.contracts
+  set
+    customer_name = trim(new.new_owner_name),
+    customer_first_name = split_part(trim(new.new_owner_name), ' ', 1),
+    customer_last_name = nullif(regexp_replace(trim(new.new_owner_name), '^\S+\s*', '', ''), ''),
+    customer_email = new.new_owner_email,
+    customer_phone = new.new_owner_phone,
+    customer_address = new.new_owner_address,
+    customer_city = new.new_owner_city,
+    customer_province = new.new_owner_province,
+    customer_postal_code = new.new_owner_postal_code
+  where id = new.contract_id;
+
+  if c.dealership_id is not null and new.transfer_fee_cents > 0 then
+    insert into public.contract_remittances (contract_id, amount, due_date)
+    values (new.contract_id, new.transfer_fee_cents / 100.0, new.transfer_date)
+    returning id into new.fee_remittance_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists apply_contract_transfer on public.contract_transfers;
+create trigger apply_contract_transfer
+  before insert on public.contract_transfers
+  for each row execute function public.apply_contract_transfer();
+
+create or replace function public.prevent_contract_transfer_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Contract transfers cannot be changed';
+end;
+$$;
+
+drop trigger if exists prevent_contract_transfer_update on public.contract_transfers;
+create trigger prevent_contract_transfer_update
+  before update on public.contract_transfers
+  for each row execute function public.prevent_contract_transfer_update();
+
+alter table public.contract_transfers enable row level security;
+
+-- Select and insert only: there are no update or delete policies, so history cannot be rewritten.
+drop policy if exists "contract_transfers_admin_read" on public.contract_transfers;
+create policy "contract_transfers_admin_read"
+  on public.contract_transfers
+  for select
+  to authenticated
+  using (public.is_admin() or public.has_role(auth.uid(), 'super_admin'));
+
+drop policy if exists "contract_transfers_admin_insert" on public.contract_transfers;
+create policy "contract_transfers_admin_insert"
+  on public.contract_transfers
+  for insert
+  to authenticated
+  with check (public.is_admin() or public.has_role(auth.uid(), 'super_admin'));
+
+drop policy if exists "contract_transfers_dealer_read" on public.contract_transfers;
+create policy "contract_transfers_dealer_read"
+  on public.contract_transfers
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        public.is_active_dealer_member(c.dealer_id)
+        or public.is_dealership_member(auth.uid(), c.dealership_id)
+      )
+    )
+  );
+
+drop policy if exists "contract_transfers_dealer_insert" on public.contract_transfers;
+create policy "contract_transfers_dealer_insert"
+  on public.contract_transfers
+  for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        public.is_active_dealer_member(c.dealer_id)
+        or public.is_dealership_member(auth.uid(), c.dealership_id)
+      )
+    )
+  );
+
+drop policy if exists "contract_transfers_provider_read" on public.contract_transfers;
+create policy "contract_transfers_provider_read"
+  on public.contract_transfers
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        c.provider_id = auth.uid()
+        or public.is_provider_member(auth.uid(), c.provider_entity_id)
+      )
+    )
+  );
+
+drop policy if exists "contract_transfers_provider_insert" on public.contract_transfers;
+create policy "contract_transfers_provider_insert"
+  on public.contract_transfers
+  for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        c.provider_id = auth.uid()
+        or public.is_provider_member(auth.uid(), c.provider_entity_id)
+      )
+    )
+  );
@@ -0,0 +1,329 @@
+-- Server-side audit trail replacing the per-browser localStorage log. Every row
+-- carries the hash of the row before it, so editing, deleting or re-ordering
+-- rows breaks verify_audit_chain() from that point on.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.audit_events (
+  id uuid primary key default gen_random_uuid(),
+  seq bigint not null unique,
+  created_at timestamptz not null default now(),
+  kind text not null,
+  actor_user_id uuid,
+  actor_email text,
+  actor_role text,
+  dealer_id uuid,
+  provider_id uuid,
+  entity_type text,
+  entity_id text,
+  message text,
+  meta jsonb,
+  source text not null default 'app' check (source in ('app','edge','db')),
+  prev_hash text not null,
+  hash text not null
+);
+
+create index if not exists audit_events_created_at_idx on public.audit_events(created_at desc);
+create index if not exists audit_events_entity_idx on public.audit_events(entity_type, entity_id);
+create index if not exists audit_events_actor_idx on public.audit_events(actor_user_id);
+create index if not exists audit_events_kind_idx on public.audit_events(kind);
+create index if not exists audit_events_dealer_idx on public.audit_events(dealer_id);
+create index if not exists audit_events_provider_idx on public.audit_events(provider_id);
+
+create or replace function public.try_uuid(_value text)
+returns uuid
+language sql immutable
+as $$
+  select case
+    when _value ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then _value::uuid
+  end
+$$;
+
+-- Canonical text of a row: every column except id and hash, in a fixed order.
+create or replace function public.audit_event_hash(e public.audit_events)
+returns text
+language sql immutable set search_path = public, extensions
+as $$
+  select encode(
+    extensions.digest(
+      concat_ws(
+        '|',
+        e.prev_hash,
+        e.seq::text,
+        to_char(e.created_at at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+        e.kind,
+        coalesce(e.actor_user_id::text, ''),
+        coalesce(e.actor_email, ''),
+        coalesce(e.actor_role, ''),
+        coalesce(e.dealer_id::text, ''),
+        coalesce(e.provider_id::text, ''),
+        coalesce(e.entity_type, ''),
+        coalesce(e.entity_id, ''),
+        coalesce(e.message, ''),
+        coalesce(e.meta::text, ''),
+        e.source
+      ),
+      'sha256'
+    ),
+    'hex'
+  )
+$$;
+
+-- Inserts are serialised so each row links to exactly one predecessor.
+create or replace function public.chain_audit_event()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  last_seq bigint;
+  last_hash text;
+begin
+  perform pg_advisory_xact_lock(hashtext('public.audit_events'));
+
+  select a.seq, a.hash into last_seq, last_hash
+  from public.audit_events a
+  order by a.seq desc
+  limit 1;
+
+  new.seq := coalesce(last_seq, 0) + 1;
+  new.prev_hash := coalesce(last_hash, repeat('0', 64));
+  new.created_at := clock_timestamp();
+  new.hash := public.audit_event_hash(new);
+  return new;
+end;
+$$;
+
+drop trigger if exists chain_audit_event on public.audit_events;
+create trigger chain_audit_event
+  before insert on public.audit_events
+  for each row execute function public.chain_audit_event();
+
+create or replace function public.prevent_audit_event_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Audit events are append-only';
+end;
+$$;
+
+drop trigger if exists prevent_audit_event_change on public.audit_events;
+create trigger prevent_audit_event_change
+  before update or delete on public.audit_events
+  for each row execute function public.prevent_audit_event_change();
+
+alter table public.audit_events enable row level security;
+
+-- No insert, update or delete policies: rows arrive through log_audit_event(),
+-- the table triggers below, or the service role in edge functions.
+drop policy if exists "audit_events_admin_read" on public.audit_events;
+create policy "audit_events_admin_read"
+  on public.audit_events
+  for select
+  to authenticated
+  using (public.is_admin() or public.has_role(auth.uid(), 'super_admin'));
+
+drop policy if exists "audit_events_dealer_read" on public.audit_events;
+create policy "audit_events_dealer_read"
+  on public.audit_events
+  for select
+  to authenticated
+  using (
+    dealer_id is not null
+    and (
+      public.is_active_dealer_member(dealer_id)
+      or public.is_dealership_member(auth.uid(), dealer_id)
+    )
+  );
+
+drop policy if exists "audit_events_provider_read" on public.audit_events;
+create policy "audit_events_provider_read"
+  on public.audit_events
+  for select
+  to authenticated
+  using (
+    provider_id is not null
+    and (
+      provider_id = auth.uid()
+      or public.is_provider_member(auth.uid(), provider_id)
+    )
+  );
+
+drop policy if exists "audit_events_own_read" on public.audit_events;
+create policy "audit_events_own_read"
+  on public.audit_events
+  for select
+  to authenticated
+  using (actor_user_id = auth.uid());
+
+-- Browser entry point. The actor and their role are taken from the session, never from the
+-- caller, and events can only be filed under a dealer or provider the caller belongs to.
+create or replace function public.log_audit_event(
+  p_kind text,
+  p_dealer_id text default null,
+  p_provider_id text default null,
+  p_entity_type text default null,
+  p_entity_id text default null,
+  p_message text default null,
+  p_meta jsonb default null
+)
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+  new_id uuid;
+  _is_admin boolean := public.is_admin() or public.has_role(auth.uid(), 'super_admin');
+  _dealer_id uuid := public.try_uuid(p_dealer_id);
+  _provider_id uuid := public.try_uuid(p_provider_id);
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  if coalesce(trim(p_kind), '') = '' then
+    raise exception 'kind is required';
+  end if;
+  if _dealer_id is not null and not _is_admin
+    and not (public.is_active_dealer_member(_dealer_id) or public.is_dealership_member(auth.uid(), _dealer_id)) then
+    raise exception 'Not a member of this dealer';
+  end if;
+  if _provider_id is not null and not _is_admin
+    and not (_provider_id = auth.uid() or public.is_provider_member(auth.uid(), _provider_id)) then
+    raise exception 'Not a member of this provider';
+  end if;
+
+  insert into public.audit_events (
+    kind, actor_user_id, actor_email, actor_role, dealer_id, provider_id,
+    entity_type, entity_id, message, meta, source, prev_hash, hash
+  )
+  values (
+    trim(p_kind),
+    auth.uid(),
+    nullif(auth.jwt() ->> 'email', ''),
+    (select p.role::text from public.profiles p where p.id = auth.uid()),
+    _dealer_id,
+    _provider_id,
+    p_entity_type,
+    p_entity_id,
+    p_message,
+    p_meta,
+    'app',
+    '',
+    ''
+  )
+  returning id into new_id;
+
+  return new_id;
+end;
+$$;
+
+grant execute on function public.log_audit_event(text, text, text, text, text, text, jsonb) to authenticated;
+
+-- Walks the chain in order and reports the first row whose link or hash does not match.
+create or replace function public.verify_audit_chain(p_from_seq bigint default 1)
+returns table (checked bigint, first_broken_seq bigint)
+language plpgsql stable security definer set search_path = public
+as $$
+declare
+  r public.audit_events;
+  expected_prev text;
+  expected_seq bigint;
+begin
+  if not (public.is_admin() or public.has_role(auth.uid(), 'super_admin')) then
+    raise exception 'Forbidden';
+  end if;
+
+  checked := 0;
+  first_broken_seq := null;
+
+  select a.hash into expected_prev from public.audit_events a where a.seq = p_from_seq - 1;
+  expected_prev := coalesce(expected_prev, repeat('0', 64));
+  expected_seq := p_from_seq;
+
+  for r in select * from public.audit_events a where a.seq >= p_from_seq order by a.seq loop
+    if r.seq <> expected_seq or r.prev_hash <> expected_prev or r.hash <> public.audit_event_hash(r) then
+      first_broken_seq := least(r.seq, expected_seq);
+      return next;
+      return;
+    end if;
+    checked := checked + 1;
+    expected_prev := r.hash;
+    expected_seq := r.seq + 1;
+  end loop;
+
+  return next;
+end;
+$$;
+
+grant execute on function public.verify_audit_chain(bigint) to authenticated;
+
+-- Contract, batch and pricing writes are audited in the database, so they are
+-- recorded whichever client or edge function made them. Updates list the
+-- columns that changed; updated_at alone is not an event.
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  entity text := tg_argv[0];
+  row_new jsonb := case when tg_op = 'DELETE' then null else to_jsonb(new) end;
+  row_old jsonb := case when tg_op = 'INSERT' then null else to_jsonb(old) end;
+  row_any jsonb := coalesce(row_new, row_old);
+  changed jsonb;
+  event_meta jsonb;
+begin
+  if tg_op = 'UPDATE' then
+    select coalesce(jsonb_agg(n.key order by n.key), '[]'::jsonb) into changed
+    from jsonb_each(row_new) n
+    join jsonb_each(row_old) o using (key)
+    where n.value is distinct from o.value
+      and n.key not in ('updated_at');
+    if jsonb_array_length(changed) = 0 then
+      return null;
+    end if;
+    event_meta := jsonb_build_object('changed', changed);
+    if row_new ? 'status' and (row_new -> 'status') is distinct from (row_old -> 'status') then
+      event_meta := event_meta || jsonb_build_object('status', jsonb_build_object('from', row_old -> 'status', 'to', row_new -> 'status'));
+    end if;
+  end if;
+
+  insert into public.audit_events (
+    kind, actor_user_id, actor_email, dealer_id, provider_id,
+    entity_type, entity_id, message, meta, source, prev_hash, hash
+  )
+  values (
+    upper(entity) || case tg_op when 'INSERT' then '_INSERTED' when 'UPDATE' then '_UPDATED' else '_DELETED' end,
+    auth.uid(),
+    nullif(auth.jwt() ->> 'email', ''),
+    public.try_uuid(coalesce(row_any ->> 'dealer_id', row_any ->> 'dealership_id')),
+    public.try_uuid(row_any ->> 'provider_id'),
+    entity,
+    row_any ->> 'id',
+    null,
+    event_meta,
+    'db',
+    '',
+    ''
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists audit_contracts_change on public.contracts;
+create trigger audit_contracts_change
+  after insert or update or delete on public.contracts
+  for each row execute function public.audit_row_change('contract');
+
+drop trigger if exists audit_batches_change on public.batches;
+create trigger audit_batches_change
+  after insert or update or delete on public.batches
+  for each row execute function public.audit_row_change('batch');
+
+drop trigger if exists audit_product_pricing_change on public.product_pricing;
+create trigger audit_product_pricing_change
+  after insert or update or delete on public.product_pricing
+  for each row execute function public.audit_row_change('product_pricing');
+
+drop trigger if exists audit_dealership_product_pricing_change on public.dealership_product_pricing;
+create trigger audit_dealership_product_pricing_change
+  after insert or update or delete on public.dealership_product_pricing
+  for each row execute function public.audit_row_change('dealership_product_pricing');
@@ -0,0 +1,126 @@
+-- Field-level change history for contracts. A before-update trigger diffs the
+-- tracked columns, stores the before/after values with the actor, and refuses
+-- pricing edits on a sold contract unless the update carries a change_reason.
+
+alter table public.contracts add column if not exists change_reason text;
+
+create table if not exists public.contract_changes (
+  id uuid primary key default gen_random_uuid(),
+  contract_id uuid not null references public.contracts(id) on delete cascade,
+  changed_at timestamptz not null default now(),
+  actor_user_id uuid,
+  actor_email text,
+  reason text,
+  changes jsonb not null default '[]'::jsonb
+);
+
+create index if not exists contract_changes_contract_idx on public.contract_changes(contract_id, changed_at desc);
+
+-- Column -> contract field name used by the app, and whether it is a pricing field.
+create or replace function public.contract_history_columns()
+returns table (column_name text, field text, is_pricing boolean)
+language sql immutable
+as $$
+  values
+    ('status', 'status', false),
+    ('customer_name', 'customerName', false),
+    ('customer_email', 'customerEmail', false),
+    ('customer_phone', 'customerPhone', false),
+    ('customer_address', 'customerAddress', false),
+    ('customer_city', 'customerCity', false),
+    ('customer_province', 'customerProvince', false),
+    ('customer_postal_code', 'customerPostalCode', false),
+    ('vin', 'vin', false),
+    ('vehicle_year', 'vehicleYear', false),
+    ('vehicle_make', 'vehicleMake', false),
+    ('vehicle_model', 'vehicleModel', false),
+    ('vehicle_trim', 'vehicleTrim', false),
+    ('vehicle_mileage_km', 'vehicleMileageKm', false),
+    ('vehicle_body_class', 'vehicleBodyClass', false),
+    ('vehicle_engine', 'vehicleEngine', false),
+    ('vehicle_transmission', 'vehicleTransmission', false),
+    ('vehicle_powertrain', 'vehiclePowertrain', false),
+    ('provider_id', 'providerId', true),
+    ('product_id', 'productId', true),
+    ('product_pricing_id', 'productPricingId', true),
+    ('product_pricing_version_id', 'productPricingVersionId', true),
+    ('pricing_term_months', 'pricingTermMonths', true),
+    ('pricing_term_km', 'pricingTermKm', true),
+    ('pricing_vehicle_mileage_min_km', 'pricingVehicleMileageMinKm', true),
+    ('pricing_vehicle_mileage_max_km', 'pricingVehicleMileageMaxKm', true),
+    ('pricing_vehicle_class', 'pricingVehicleClass', true),
+    ('pricing_deductible_cents', 'pricingDeductibleCents', true),
+    ('pricing_base_price_cents', 'pricingBasePriceCents', true),
+    ('pricing_dealer_cost_cents', 'pricingDealerCostCents', true),
+    ('addon_snapshot', 'addonSnapshot', true),
+    ('addon_total_retail_cents', 'addonTotalRetailCents', true),
+    ('addon_total_cost_cents', 'addonTotalCostCents', true),
+    ('contract_price', 'contractPrice', true),
+    ('dealer_cost_dollars', 'dealerCostDollars', true)
+$$;
+
+create or replace function public.record_contract_changes()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  row_old jsonb := to_jsonb(old);
+  row_new jsonb := to_jsonb(new);
+  reason text := nullif(trim(coalesce(new.change_reason, '')), '');
+  diff jsonb;
+  pricing_changed boolean;
+begin
+  select
+    coalesce(jsonb_agg(jsonb_build_object('field', h.field, 'before', row_old -> h.column_name, 'after', row_new -> h.column_name)), '[]'::jsonb),
+    coalesce(bool_or(h.is_pricing), false)
+  into diff, pricing_changed
+  from public.contract_history_columns() h
+  where row_new ? h.column_name
+    and (row_new -> h.column_name) is distinct from (row_old -> h.column_name);
+
+  new.change_reason := null;
+
+  if jsonb_array_length(diff) = 0 then
+    return new;
+  end if;
+
+  if pricing_changed and coalesce(old.status, 'DRAFT') <> 'DRAFT' and reason is null then
+    raise exception 'Pricing on a sold contract can only be changed with a recorded reason';
+  end if;
+
+  insert into public.contract_changes (contract_id, actor_user_id, actor_email, reason, changes)
+  values (new.id, auth.uid(), nullif(auth.jwt() ->> 'email', ''), reason, diff);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists record_contract_changes on public.contracts;
+create trigger record_contract_changes
+  before update on public.contracts
+  for each row execute function public.record_contract_changes();
+
+create or replace function public.prevent_contract_change_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Contract history is append-only';
+end;
+$$;
+
+drop trigger if exists prevent_contract_change_update on public.contract_changes;
+create trigger prevent_contract_change_update
+  before update on public.contract_changes
+  for each row execute function public.prevent_contract_change_update();
+
+alter table public.contract_changes enable row level security;
+
+-- Anyone who can read the contract can read its history; rows are only ever
+-- written by the trigger above.
+drop policy if exists "contract_changes_select_visible_contract" on public.contract_changes;
+create policy "contract_changes_select_visible_contract"
+  on public.contract_changes
+  for select
+  to authenticated
+  using (exists (select 1 from public.contracts c where c.id = contract_changes.contract_id));
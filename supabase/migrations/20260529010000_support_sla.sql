@@ -0,0 +1,111 @@
+-- Support inbox ownership and timing: assignment to an admin, priority, topic
+-- tags, SLA clock timestamps and a shared library of canned responses.
+--
+-- A conversation is reused for the life of the account, so each "ticket" is a
+-- cycle that starts when the user writes into a closed (or never-started)
+-- conversation. Due times are derived in the app from sla_started_at and the
+-- priority's targets, so a priority change moves the deadlines immediately.
+
+alter table public.support_conversations
+  add column if not exists assigned_admin_id uuid references public.profiles(id) on delete set null,
+  add column if not exists priority text not null default 'NORMAL',
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists sla_started_at timestamptz,
+  add column if not exists first_responded_at timestamptz,
+  add column if not exists resolved_at timestamptz;
+
+do $$
+begin
+  alter table public.support_conversations
+    drop constraint if exists support_conversations_priority_check;
+
+  alter table public.support_conversations
+    add constraint support_conversations_priority_check
+    check (priority in ('LOW','NORMAL','HIGH','URGENT'));
+exception
+  when duplicate_object then null;
+end $$;
+
+create index if not exists support_conversations_assigned_idx on public.support_conversations(assigned_admin_id);
+create index if not exists support_conversations_tags_idx on public.support_conversations using gin (tags);
+
+-- Users can update their own conversation (status bumps, read markers), so the
+-- admin-managed columns are pinned unless an admin made the change or it came
+-- from the SLA triggers below.
+create or replace function public.guard_support_conversation_admin_fields()
+returns trigger
+language plpgsql
+as $$
+begin
+  if pg_trigger_depth() > 1 or public.is_admin() then
+    if new.status = 'CLOSED' and old.status <> 'CLOSED' then
+      new.resolved_at := coalesce(new.resolved_at, now());
+    elsif new.status <> 'CLOSED' and old.status = 'CLOSED' and pg_trigger_depth() = 1 then
+      -- Reopened by an admin: the same cycle continues.
+      new.resolved_at := null;
+    end if;
+    return new;
+  end if;
+
+  new.assigned_admin_id := old.assigned_admin_id;
+  new.priority := old.priority;
+  new.tags := old.tags;
+  new.sla_started_at := old.sla_started_at;
+  new.first_responded_at := old.first_responded_at;
+  new.resolved_at := old.resolved_at;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_support_conversation_admin_fields on public.support_conversations;
+create trigger guard_support_conversation_admin_fields
+  before update on public.support_conversations
+  for each row execute function public.guard_support_conversation_admin_fields();
+
+create or replace function public.track_support_sla()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if new.sender_type = 'USER' then
+    update public.support_conversations c
+    set sla_started_at = new.created_at,
+        first_responded_at = null,
+        resolved_at = null
+    where c.id = new.conversation_id
+      and (c.sla_started_at is null or c.resolved_at is not null or c.status = 'CLOSED');
+  else
+    update public.support_conversations c
+    set first_responded_at = new.created_at
+    where c.id = new.conversation_id
+      and c.sla_started_at is not null
+      and c.first_responded_at is null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists track_support_sla on public.support_messages;
+create trigger track_support_sla
+  after insert on public.support_messages
+  for each row execute function public.track_support_sla();
+
+create table if not exists public.support_canned_responses (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  body text not null,
+  tags text[] not null default '{}',
+  created_by_user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.support_canned_responses enable row level security;
+
+drop policy if exists "support_canned_responses_admin_all" on public.support_canned_responses;
+create policy "support_canned_responses_admin_all"
+  on public.support_canned_responses
+  for all
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
@@ -0,0 +1,168 @@
+-- Support message attachments and record references.
+--
+-- Files live in the private support-attachments bucket under
+-- <conversation_id>/<uuid>-<file name>, with one metadata row per file (same
+-- split as product-documents / product_documents). A message can also point at
+-- one contract or remittance batch so the inbox can show its live status.
+
+alter table public.support_messages
+  add column if not exists ref_type text,
+  add column if not exists ref_id uuid;
+
+do $$
+begin
+  alter table public.support_messages
+    drop constraint if exists support_messages_ref_check;
+
+  alter table public.support_messages
+    add constraint support_messages_ref_check
+    check (
+      (ref_type is null and ref_id is null)
+      or (ref_type in ('CONTRACT','REMITTANCE_BATCH') and ref_id is not null)
+    );
+exception
+  when duplicate_object then null;
+end $$;
+
+create index if not exists support_messages_ref_idx on public.support_messages(ref_type, ref_id);
+
+-- Runs as the sender, so the lookup goes through RLS: users can only reference
+-- records they can already see.
+create or replace function public.check_support_message_reference()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.ref_type is null or public.is_admin() then
+    return new;
+  end if;
+
+  if new.ref_type = 'CONTRACT' and not exists (select 1 from public.contracts c where c.id = new.ref_id) then
+    raise exception 'Contract not found';
+  end if;
+
+  if new.ref_type = 'REMITTANCE_BATCH' and not exists (select 1 from public.batches b where b.id = new.ref_id) then
+    raise exception 'Remittance not found';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_support_message_reference on public.support_messages;
+create trigger check_support_message_reference
+  before insert on public.support_messages
+  for each row
+  execute function public.check_support_message_reference();
+
+create table if not exists public.support_message_attachments (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references public.support_messages(id) on delete cascade,
+  conversation_id uuid not null references public.support_conversations(id) on delete cascade,
+  uploaded_by_user_id uuid not null references public.profiles(id) on delete cascade,
+  file_name text not null,
+  mime_type text,
+  size_bytes bigint,
+  storage_path text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists support_message_attachments_message_idx on public.support_message_attachments(message_id);
+create index if not exists support_message_attachments_conversation_idx on public.support_message_attachments(conversation_id);
+
+alter table public.support_message_attachments enable row level security;
+
+drop policy if exists "support_message_attachments_select" on public.support_message_attachments;
+create policy "support_message_attachments_select"
+  on public.support_message_attachments
+  for select
+  to authenticated
+  using (
+    public.is_admin()
+    or exists (
+      select 1
+      from public.support_conversations c
+      where c.id = support_message_attachments.conversation_id
+        and c.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "support_message_attachments_insert" on public.support_message_attachments;
+create policy "support_message_attachments_insert"
+  on public.support_message_attachments
+  for insert
+  to authenticated
+  with check (
+    uploaded_by_user_id = auth.uid()
+    and exists (
+      select 1
+      from public.support_messages m
+      where m.id = support_message_attachments.message_id
+        and m.conversation_id = support_message_attachments.conversation_id
+        and m.sender_user_id = auth.uid()
+    )
+    and (
+      public.is_admin()
+      or exists (
+        select 1
+        from public.support_conversations c
+        where c.id = support_message_attachments.conversation_id
+          and c.user_id = auth.uid()
+      )
+    )
+  );
+
+do $$
+begin
+  execute $sql$
+    insert into storage.buckets (id, name, public)
+    values ('support-attachments', 'support-attachments', false)
+    on conflict (id) do nothing;
+  $sql$;
+
+  execute $sql$
+    drop policy if exists "support_attachments_storage_select" on storage.objects;
+  $sql$;
+
+  execute $sql$
+    create policy "support_attachments_storage_select"
+      on storage.objects
+      for select
+      to authenticated
+      using (
+        bucket_id = 'support-attachments'
+        and (
+          public.is_admin()
+          or exists (
+            select 1
+            from public.support_conversations c
+            where c.id::text = (storage.foldername(name))[1]
+              and c.user_id = auth.uid()
+          )
+        )
+      );
+  $sql$;
+
+  execute $sql$
+    drop policy if exists "support_attachments_storage_insert" on storage.objects;
+  $sql$;
+
+  execute $sql$
+    create policy "support_attachments_storage_insert"
+      on storage.objects
+      for insert
+      to authenticated
+      with check (
+        bucket_id = 'support-attachments'
+        and (
+          public.is_admin()
+          or exists (
+            select 1
+            from public.support_conversations c
+            where c.id::text = (storage.foldername(name))[1]
+              and c.user_id = auth.uid()
+          )
+        )
+      );
+  $sql$;
+end $$;
@@ -0,0 +1,221 @@
+-- Dealer onboarding (KYC) checklist: regulator registration, business number,
+-- insurance certificate and void cheque, each uploaded by the applicant and
+-- verified by an admin with an expiry date where one applies.
+--
+-- Items belong to the applicant's user id because they are uploaded before the
+-- access request is approved and the dealership exists; once approved, the
+-- dealership is found through its admin members.
+
+create table if not exists public.dealer_onboarding_items (
+  id uuid primary key default gen_random_uuid(),
+  applicant_user_id uuid not null references public.profiles(id) on delete cascade,
+  item_key text not null check (item_key in ('REGULATOR_REGISTRATION','BUSINESS_NUMBER','INSURANCE_CERTIFICATE','VOID_CHEQUE')),
+  value text,
+  file_name text,
+  mime_type text,
+  size_bytes bigint,
+  storage_path text,
+  status text not null default 'SUBMITTED' check (status in ('SUBMITTED','VERIFIED','REJECTED')),
+  expires_on date,
+  review_note text,
+  reviewed_at timestamptz,
+  reviewed_by_user_id uuid references public.profiles(id) on delete set null,
+  reviewed_by_email text,
+  submitted_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (applicant_user_id, item_key)
+);
+
+create index if not exists dealer_onboarding_items_expiry_idx
+  on public.dealer_onboarding_items(expires_on)
+  where status = 'VERIFIED';
+
+alter table public.dealer_onboarding_items enable row level security;
+
+drop policy if exists "dealer_onboarding_items_select" on public.dealer_onboarding_items;
+create policy "dealer_onboarding_items_select"
+  on public.dealer_onboarding_items
+  for select
+  to authenticated
+  using (applicant_user_id = auth.uid() or public.is_admin());
+
+drop policy if exists "dealer_onboarding_items_insert_own" on public.dealer_onboarding_items;
+create policy "dealer_onboarding_items_insert_own"
+  on public.dealer_onboarding_items
+  for insert
+  to authenticated
+  with check (applicant_user_id = auth.uid());
+
+drop policy if exists "dealer_onboarding_items_update" on public.dealer_onboarding_items;
+create policy "dealer_onboarding_items_update"
+  on public.dealer_onboarding_items
+  for update
+  to authenticated
+  using (applicant_user_id = auth.uid() or public.is_admin())
+  with check (applicant_user_id = auth.uid() or public.is_admin());
+
+-- Applicants can only (re)submit: anything they write goes back to the review
+-- queue. Admin updates are stamped with the reviewer.
+create or replace function public.guard_dealer_onboarding_item()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+
+  if not public.is_admin() then
+    new.status := 'SUBMITTED';
+    new.expires_on := null;
+    new.review_note := null;
+    new.reviewed_at := null;
+    new.reviewed_by_user_id := null;
+    new.reviewed_by_email := null;
+    new.submitted_at := now();
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+    and (new.status is distinct from old.status
+      or new.expires_on is distinct from old.expires_on
+      or new.review_note is distinct from old.review_note) then
+    new.reviewed_at := now();
+    new.reviewed_by_user_id := auth.uid();
+    new.reviewed_by_email := nullif(auth.jwt() ->> 'email', '');
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_dealer_onboarding_item on public.dealer_onboarding_items;
+create trigger guard_dealer_onboarding_item
+  before insert or update on public.dealer_onboarding_items
+  for each row
+  execute function public.guard_dealer_onboarding_item();
+
+-- Suspends approved dealerships whose newest verified regulator registration
+-- (across the dealership's admins) has expired. Returns how many were suspended.
+create or replace function public.suspend_expired_dealer_licences()
+returns integer
+language plpgsql security definer set search_path = public
+as $$
+declare
+  d record;
+  suspended_count integer := 0;
+begin
+  if auth.uid() is not null and not public.is_admin() then
+    raise exception 'Not authorized';
+  end if;
+
+  for d in
+    select ds.id, ds.name, lic.expires_on
+    from public.dealerships ds
+    join lateral (
+      select max(i.expires_on) as expires_on
+      from public.dealership_members m
+      join public.dealer_onboarding_items i on i.applicant_user_id = m.user_id
+      where m.dealership_id = ds.id
+        and m.role = 'admin'
+        and i.item_key = 'REGULATOR_REGISTRATION'
+        and i.status = 'VERIFIED'
+    ) lic on true
+    where ds.status = 'approved'
+      and lic.expires_on < current_date
+  loop
+    update public.dealerships set status = 'suspended' where id = d.id;
+    suspended_count := suspended_count + 1;
+
+    insert into public.audit_events (
+      kind, actor_user_id, actor_email, dealer_id, entity_type, entity_id, message, meta, source, prev_hash, hash
+    )
+    values (
+      'DEALERSHIP_SUSPENDED_LICENCE_EXPIRED',
+      auth.uid(),
+      nullif(auth.jwt() ->> 'email', ''),
+      d.id,
+      'dealership',
+      d.id::text,
+      'Dealer registration expired on ' || d.expires_on::text,
+      jsonb_build_object('name', d.name, 'expires_on', d.expires_on),
+      'db',
+      '',
+      ''
+    );
+  end loop;
+
+  return suspended_count;
+end;
+$$;
+
+revoke all on function public.suspend_expired_dealer_licences() from public;
+grant execute on function public.suspend_expired_dealer_licences() to authenticated, service_role;
+
+-- An admin recording an expiry date that has already passed takes effect immediately;
+-- registrations that lapse later are picked up by the daily job below.
+create or replace function public.enforce_dealer_licence_expiry()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.item_key = 'REGULATOR_REGISTRATION' and new.status = 'VERIFIED' and new.expires_on < current_date then
+    perform public.suspend_expired_dealer_licences();
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists enforce_dealer_licence_expiry on public.dealer_onboarding_items;
+create trigger enforce_dealer_licence_expiry
+  after insert or update of status, expires_on on public.dealer_onboarding_items
+  for each row
+  execute function public.enforce_dealer_licence_expiry();
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'suspend-expired-dealer-licences',
+      '15 6 * * *',
+      'select public.suspend_expired_dealer_licences()'
+    );
+  end if;
+end $$;
+
+do $$
+begin
+  execute $sql$
+    insert into storage.buckets (id, name, public)
+    values ('dealer-onboarding', 'dealer-onboarding', false)
+    on conflict (id) do nothing;
+  $sql$;
+
+  execute $sql$
+    drop policy if exists "dealer_onboarding_storage_select" on storage.objects;
+  $sql$;
+
+  execute $sql$
+    create policy "dealer_onboarding_storage_select"
+      on storage.objects
+      for select
+      to authenticated
+      using (
+        bucket_id = 'dealer-onboarding'
+        and ((storage.foldername(name))[1] = auth.uid()::text or public.is_admin())
+      );
+  $sql$;
+
+  execute $sql$
+    drop policy if exists "dealer_onboarding_storage_insert" on storage.objects;
+  $sql$;
+
+  execute $sql$
+    create policy "dealer_onboarding_storage_insert"
+      on storage.objects
+      for insert
+      to authenticated
+      with check (
+        bucket_id = 'dealer-onboarding'
+        and (storage.foldername(name))[1] = auth.uid()::text
+      );
+  $sql$;
+end $$;
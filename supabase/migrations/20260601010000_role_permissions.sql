@@ -0,0 +1,594 @@
+-- Fine-grained permissions: named permissions grouped into role templates that a
+-- dealership or provider assigns to its members. Built-in templates (key is not
+-- null) are shared by every team; custom templates belong to one dealership or
+-- provider.
+--
+-- Admin members always hold every permission for their scope, so templates only
+-- narrow what employees and provider members can do. Members without a template
+-- fall back to the built-in default for their role.
+--
+-- pricing.view_cost is enforced in the database. RLS cannot hide columns per
+-- user, so dealer cost moves off the contract row (which a salesperson needs to
+-- sell) into contract_dealer_costs, whose rows only members holding the
+-- permission can read. Writers still set the cost columns on contracts; a
+-- trigger moves the values across and clears them on the contract.
+
+create table if not exists public.role_templates (
+  id uuid primary key default gen_random_uuid(),
+  key text unique,
+  scope text not null check (scope in ('DEALERSHIP','PROVIDER')),
+  dealership_id uuid references public.dealerships(id) on delete cascade,
+  provider_id uuid references public.providers(id) on delete cascade,
+  name text not null,
+  description text,
+  permissions text[] not null default '{}',
+  created_by uuid references auth.users(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (
+    key is not null
+    or (scope = 'DEALERSHIP' and dealership_id is not null and provider_id is null)
+    or (scope = 'PROVIDER' and provider_id is not null and dealership_id is null)
+  ),
+  check (
+    case scope
+      when 'DEALERSHIP' then permissions <@ array[
+        'contracts.view','contracts.create','contracts.edit','contracts.void','pricing.view_cost',
+        'pricing.manage','remittances.view','remittances.submit','reports.view','team.manage'
+      ]::text[]
+      else permissions <@ array[
+        'contracts.view','pricing.manage','remittances.view','reports.view','team.manage',
+        'products.manage','claims.manage'
+      ]::text[]
+    end
+  )
+);
+
+create index if not exists role_templates_dealership_idx on public.role_templates(dealership_id);
+create index if not exists role_templates_provider_idx on public.role_templates(provider_id);
+
+-- Keep in step with BUILT_IN_ROLE_TEMPLATES in src/lib/permissions/catalog.ts.
+insert into public.role_templates (key, scope, name, description, permissions)
+values
+  ('dealership_admin', 'DEALERSHIP', 'Dealership admin', 'Full access to the dealership.',
+    array['contracts.view','contracts.create','contracts.edit','contracts.void','pricing.view_cost','pricing.manage','remittances.view','remittances.submit','reports.view','team.manage']),
+  ('dealership_employee', 'DEALERSHIP', 'Employee', 'Sells and remits contracts; cannot change pricing or the team.',
+    array['contracts.view','contracts.create','contracts.edit','contracts.void','pricing.view_cost','remittances.view','remittances.submit','reports.view']),
+  ('dealership_salesperson', 'DEALERSHIP', 'Salesperson', 'Sells contracts at retail without seeing dealer cost.',
+    array['contracts.view','contracts.create','contracts.edit']),
+  ('provider_admin', 'PROVIDER', 'Provider admin', 'Full access to the provider portal.',
+    array['contracts.view','pricing.manage','remittances.view','reports.view','team.manage','products.manage','claims.manage']),
+  ('provider_product_manager', 'PROVIDER', 'Product manager', 'Manages products and pricing.',
+    array['products.manage','pricing.manage','contracts.view','reports.view']),
+  ('provider_support', 'PROVIDER', 'Support', 'Looks up contracts and handles claims.',
+    array['contracts.view','claims.manage','remittances.view'])
+on conflict (key) do update
+  set name = excluded.name,
+      description = excluded.description,
+      permissions = excluded.permissions,
+      updated_at = now();
+
+alter table public.dealership_members
+  add column if not exists role_template_id uuid references public.role_templates(id) on delete set null;
+
+alter table public.provider_members
+  add column if not exists role_template_id uuid references public.role_templates(id) on delete set null;
+
+create or replace function public.has_permission(
+  _permission text,
+  _dealership_id uuid default null,
+  _provider_id uuid default null
+)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  _uid uuid := auth.uid();
+begin
+  if _uid is null then
+    return false;
+  end if;
+
+  if public.is_admin() or public.has_role(_uid, 'super_admin') then
+    return true;
+  end if;
+
+  if _dealership_id is not null then
+    return exists (
+      select 1
+      from public.dealership_members m
+      left join public.role_templates t
+        on t.id = m.role_template_id
+        and t.scope = 'DEALERSHIP'
+        and (t.key is not null or t.dealership_id = m.dealership_id)
+      join public.role_templates d
+        on d.key = case when m.role = 'admin' then 'dealership_admin' else 'dealership_employee' end
+      where m.user_id = _uid
+        and m.dealership_id = _dealership_id
+        and _permission = any(case when m.role = 'admin' then d.permissions else coalesce(t.permissions, d.permissions) end)
+    );
+  end if;
+
+  if _provider_id is not null then
+    return exists (
+      select 1
+      from public.provider_members m
+      left join public.role_templates t
+        on t.id = m.role_template_id
+        and t.scope = 'PROVIDER'
+        and (t.key is not null or t.provider_id = m.provider_id)
+      join public.role_templates d on d.key = 'provider_admin'
+      where m.user_id = _uid
+        and m.provider_id = _provider_id
+        and _permission = any(case when m.role = 'admin' then d.permissions else coalesce(t.permissions, d.permissions) end)
+    );
+  end if;
+
+  return false;
+end;
+$$;
+
+-- Permissions for the signed-in user across every team they belong to; the app
+-- uses this for route guards and navigation.
+create or replace function public.current_user_permissions()
+returns text[]
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  _uid uuid := auth.uid();
+  _result text[];
+begin
+  if _uid is null then
+    return '{}';
+  end if;
+
+  if public.is_admin() or public.has_role(_uid, 'super_admin') then
+    return array(select distinct unnest(permissions) from public.role_templates where key in ('dealership_admin','provider_admin'));
+  end if;
+
+  select coalesce(array_agg(distinct p), '{}') into _result
+  from (
+    select unnest(case when m.role = 'admin' then d.permissions else coalesce(t.permissions, d.permissions) end) as p
+    from public.dealership_members m
+    left join public.role_templates t
+      on t.id = m.role_template_id
+      and t.scope = 'DEALERSHIP'
+      and (t.key is not null or t.dealership_id = m.dealership_id)
+    join public.role_templates d
+      on d.key = case when m.role = 'admin' then 'dealership_admin' else 'dealership_employee' end
+    where m.user_id = _uid
+    union
+    select unnest(case when m.role = 'admin' then d.permissions else coalesce(t.permissions, d.permissions) end)
+    from public.provider_members m
+    left join public.role_templates t
+      on t.id = m.role_template_id
+      and t.scope = 'PROVIDER'
+      and (t.key is not null or t.provider_id = m.provider_id)
+    join public.role_templates d on d.key = 'provider_admin'
+    where m.user_id = _uid
+  ) granted;
+
+  return _result;
+end;
+$$;
+
+grant execute on function public.has_permission(text, uuid, uuid) to authenticated;
+grant execute on function public.current_user_permissions() to authenticated;
+
+alter table public.role_templates enable row level security;
+
+drop policy if exists "role_templates_select" on public.role_templates;
+create policy "role_templates_select"
+  on public.role_templates
+  for select
+  to authenticated
+  using (
+    key is not null
+    or public.is_admin()
+    or (dealership_id is not null and public.is_dealership_member(auth.uid(), dealership_id))
+    or (provider_id is not null and public.is_provider_member(auth.uid(), provider_id))
+  );
+
+drop policy if exists "role_templates_manage" on public.role_templates;
+create policy "role_templates_manage"
+  on public.role_templates
+  for all
+  to authenticated
+  using (
+    key is null
+    and public.has_permission('team.manage', dealership_id, provider_id)
+  )
+  with check (
+    key is null
+    and public.has_permission('team.manage', dealership_id, provider_id)
+  );
+
+-- Team managers may change an employee's template; admin rows and role changes
+-- stay with the existing admin tooling. Only built-in templates and the team's
+-- own custom templates can be assigned, and the permission checks above ignore
+-- anything else.
+drop policy if exists "dealership_members_team_manage" on public.dealership_members;
+create policy "dealership_members_team_manage"
+  on public.dealership_members
+  for update
+  to authenticated
+  using (role = 'employee' and public.has_permission('team.manage', dealership_id))
+  with check (
+    role = 'employee'
+    and public.has_permission('team.manage', dealership_id)
+    and (
+      role_template_id is null
+      or exists (
+        select 1 from public.role_templates t
+        where t.id = role_template_id
+          and t.scope = 'DEALERSHIP'
+          and (t.key is not null or t.dealership_id = dealership_members.dealership_id)
+      )
+    )
+  );
+
+drop policy if exists "provider_members_team_manage" on public.provider_members;
+create policy "provider_members_team_manage"
+  on public.provider_members
+  for update
+  to authenticated
+  using (role = 'member' and public.has_permission('team.manage', null, provider_id))
+  with check (
+    role = 'member'
+    and public.has_permission('team.manage', null, provider_id)
+    and (
+      role_template_id is null
+      or exists (
+        select 1 from public.role_templates t
+        where t.id = role_template_id
+          and t.scope = 'PROVIDER'
+          and (t.key is not null or t.provider_id = provider_members.provider_id)
+      )
+    )
+  );
+
+-- Restrictive policies layer permissions on top of the membership policies:
+-- they only bite for dealership/provider members, so platform admins and the
+-- legacy dealer_members paths keep working unchanged.
+drop policy if exists "contracts_permission_insert" on public.contracts;
+create policy "contracts_permission_insert"
+  on public.contracts
+  as restrictive
+  for insert
+  to authenticated
+  with check (
+    dealership_id is null
+    or not public.is_dealership_member(auth.uid(), dealership_id)
+    or public.has_permission('contracts.create', dealership_id)
+  );
+
+drop policy if exists "contracts_permission_update" on public.contracts;
+create policy "contracts_permission_update"
+  on public.contracts
+  as restrictive
+  for update
+  to authenticated
+  using (
+    dealership_id is null
+    or not public.is_dealership_member(auth.uid(), dealership_id)
+    or public.has_permission('contracts.edit', dealership_id)
+    or public.has_permission('remittances.submit', dealership_id)
+    or public.has_permission('contracts.void', dealership_id)
+  );
+
+drop policy if exists "contracts_permission_delete" on public.contracts;
+create policy "contracts_permission_delete"
+  on public.contracts
+  as restrictive
+  for delete
+  to authenticated
+  using (
+    dealership_id is null
+    or not public.is_dealership_member(auth.uid(), dealership_id)
+    or public.has_permission('contracts.void', dealership_id)
+  );
+
+-- Cancellations are written by cancel_contract, which asks this before cancelling.
+create or replace function public.can_cancel_contract(_contract public.contracts)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin()
+    or public.has_role(auth.uid(), 'super_admin')
+    or public.is_active_dealer_member(_contract.dealer_id)
+    or (
+      public.is_dealership_member(auth.uid(), _contract.dealership_id)
+      and public.has_permission('contracts.void', _contract.dealership_id)
+    );
+$$;
+
+drop policy if exists "remittances_permission_insert" on public.remittances;
+create policy "remittances_permission_insert"
+  on public.remittances
+  as restrictive
+  for insert
+  to authenticated
+  with check (
+    not exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+        and c.dealership_id is not null
+        and public.is_dealership_member(auth.uid(), c.dealership_id)
+        and not public.has_permission('remittances.submit', c.dealership_id)
+    )
+  );
+
+drop policy if exists "contract_remittances_permission_insert" on public.contract_remittances;
+create policy "contract_remittances_permission_insert"
+  on public.contract_remittances
+  as restrictive
+  for insert
+  to authenticated
+  with check (
+    not exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+        and c.dealership_id is not null
+        and public.is_dealership_member(auth.uid(), c.dealership_id)
+        and not public.has_permission('remittances.submit', c.dealership_id)
+    )
+  );
+
+drop policy if exists "dealership_product_pricing_permission_insert" on public.dealership_product_pricing;
+create policy "dealership_product_pricing_permission_insert"
+  on public.dealership_product_pricing
+  as restrictive
+  for insert
+  to authenticated
+  with check (
+    not public.is_dealership_member(auth.uid(), dealership_id)
+    or public.has_permission('pricing.manage', dealership_id)
+  );
+
+drop policy if exists "dealership_product_pricing_permission_update" on public.dealership_product_pricing;
+create policy "dealership_product_pricing_permission_update"
+  on public.dealership_product_pricing
+  as restrictive
+  for update
+  to authenticated
+  using (
+    not public.is_dealership_member(auth.uid(), dealership_id)
+    or public.has_permission('pricing.manage', dealership_id)
+  );
+
+drop policy if exists "dealership_product_pricing_permission_delete" on public.dealership_product_pricing;
+create policy "dealership_product_pricing_permission_delete"
+  on public.dealership_product_pricing
+  as restrictive
+  for delete
+  to authenticated
+  using (
+    not public.is_dealership_member(auth.uid(), dealership_id)
+    or public.has_permission('pricing.manage', dealership_id)
+  );
+
+drop policy if exists "products_permission_update" on public.products;
+create policy "products_permission_update"
+  on public.products
+  as restrictive
+  for update
+  to authenticated
+  using (
+    provider_entity_id is null
+    or not public.is_provider_member(auth.uid(), provider_entity_id)
+    or public.has_permission('products.manage', null, provider_entity_id)
+  );
+
+drop policy if exists "products_permission_insert" on public.products;
+create policy "products_permission_insert"
+  on public.products
+  as restrictive
+  for insert
+  to authenticated
+  with check (
+    provider_entity_id is null
+    or not public.is_provider_member(auth.uid(), provider_entity_id)
+    or public.has_permission('products.manage', null, provider_entity_id)
+  );
+
+drop policy if exists "products_permission_delete" on public.products;
+create policy "products_permission_delete"
+  on public.products
+  as restrictive
+  for delete
+  to authenticated
+  using (
+    provider_entity_id is null
+    or not public.is_provider_member(auth.uid(), provider_entity_id)
+    or public.has_permission('products.manage', null, provider_entity_id)
+  );
+
+create table if not exists public.contract_dealer_costs (
+  contract_id uuid primary key references public.contracts(id) on delete cascade deferrable initially deferred,
+  pricing_dealer_cost_cents integer,
+  addon_total_cost_cents integer,
+  dealer_cost_dollars numeric(10,2),
+  updated_at timestamptz not null default now()
+);
+
+-- Fires before record_contract_changes (triggers run in name order), so cost
+-- never reaches the contract history either.
+create or replace function public.move_contract_dealer_cost()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.pricing_dealer_cost_cents is null and new.addon_total_cost_cents is null and new.dealer_cost_dollars is null then
+    return new;
+  end if;
+
+  insert into public.contract_dealer_costs (contract_id, pricing_dealer_cost_cents, addon_total_cost_cents, dealer_cost_dollars)
+  values (new.id, new.pricing_dealer_cost_cents, new.addon_total_cost_cents, new.dealer_cost_dollars)
+  on conflict (contract_id) do update
+    set pricing_dealer_cost_cents = coalesce(excluded.pricing_dealer_cost_cents, contract_dealer_costs.pricing_dealer_cost_cents),
+        addon_total_cost_cents = coalesce(excluded.addon_total_cost_cents, contract_dealer_costs.addon_total_cost_cents),
+        dealer_cost_dollars = coalesce(excluded.dealer_cost_dollars, contract_dealer_costs.dealer_cost_dollars),
+        updated_at = now();
+
+  new.pricing_dealer_cost_cents := null;
+  new.addon_total_cost_cents := null;
+  new.dealer_cost_dollars := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists move_contract_dealer_cost on public.contracts;
+create trigger move_contract_dealer_cost
+  before insert or update of pricing_dealer_cost_cents, addon_total_cost_cents, dealer_cost_dollars on public.contracts
+  for each row execute function public.move_contract_dealer_cost();
+
+-- Dealer cost no longer lives on contracts, so it drops out of the history.
+create or replace function public.contract_history_columns()
+returns table (column_name text, field text, is_pricing boolean)
+language sql immutable
+as $$
+  values
+    ('status', 'status', false),
+    ('customer_name', 'customerName', false),
+    ('customer_email', 'customerEmail', false),
+    ('customer_phone', 'customerPhone', false),
+    ('customer_address', 'customerAddress', false),
+    ('customer_city', 'customerCity', false),
+    ('customer_province', 'customerProvince', false),
+    ('customer_postal_code', 'customerPostalCode', false),
+    ('vin', 'vin', false),
+    ('vehicle_year', 'vehicleYear', false),
+    ('vehicle_make', 'vehicleMake', false),
+    ('vehicle_model', 'vehicleModel', false),
+    ('vehicle_trim', 'vehicleTrim', false),
+    ('vehicle_mileage_km', 'vehicleMileageKm', false),
+    ('vehicle_body_class', 'vehicleBodyClass', false),
+    ('vehicle_engine', 'vehicleEngine', false),
+    ('vehicle_transmission', 'vehicleTransmission', false),
+    ('vehicle_powertrain', 'vehiclePowertrain', false),
+    ('provider_id', 'providerId', true),
+    ('product_id', 'productId', true),
+    ('product_pricing_id', 'productPricingId', true),
+    ('product_pricing_version_id', 'productPricingVersionId', true),
+    ('pricing_term_months', 'pricingTermMonths', true),
+    ('pricing_term_km', 'pricingTermKm', true),
+    ('pricing_vehicle_mileage_min_km', 'pricingVehicleMileageMinKm', true),
+    ('pricing_vehicle_mileage_max_km', 'pricingVehicleMileageMaxKm', true),
+    ('pricing_vehicle_class', 'pricingVehicleClass', true),
+    ('pricing_deductible_cents', 'pricingDeductibleCents', true),
+    ('pricing_base_price_cents', 'pricingBasePriceCents', true),
+    ('addon_snapshot', 'addonSnapshot', true),
+    ('addon_total_retail_cents', 'addonTotalRetailCents', true),
+    ('contract_price', 'contractPrice', true)
+$$;
+
+create or replace function public.contract_provider_cost_cents(_contract public.contracts)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(cdc.pricing_dealer_cost_cents, _contract.pricing_base_price_cents, 0)
+    + coalesce(cdc.addon_total_cost_cents, 0)
+  from (select 1) one
+  left join public.contract_dealer_costs cdc on cdc.contract_id = _contract.id;
+$$;
+
+insert into public.contract_dealer_costs (contract_id, pricing_dealer_cost_cents, addon_total_cost_cents, dealer_cost_dollars)
+select c.id, c.pricing_dealer_cost_cents, c.addon_total_cost_cents, c.dealer_cost_dollars
+from public.contracts c
+where c.pricing_dealer_cost_cents is not null or c.addon_total_cost_cents is not null or c.dealer_cost_dollars is not null
+on conflict (contract_id) do nothing;
+
+-- Clearing the moved values is not a pricing edit, so the history and workflow
+-- triggers stay out of it.
+alter table public.contracts disable trigger user;
+update public.contracts
+set pricing_dealer_cost_cents = null, addon_total_cost_cents = null, dealer_cost_dollars = null
+where pricing_dealer_cost_cents is not null or addon_total_cost_cents is not null or dealer_cost_dollars is not null;
+alter table public.contracts enable trigger user;
+
+-- Cost changes recorded before the move would still show in the history.
+alter table public.contract_changes disable trigger user;
+update public.contract_changes
+set changes = coalesce((
+  select jsonb_agg(e)
+  from jsonb_array_elements(changes) e
+  where e ->> 'field' not in ('pricingDealerCostCents','addonTotalCostCents','dealerCostDollars')
+), '[]'::jsonb)
+where changes @> '[{"field":"pricingDealerCostCents"}]'
+   or changes @> '[{"field":"addonTotalCostCents"}]'
+   or changes @> '[{"field":"dealerCostDollars"}]';
+alter table public.contract_changes enable trigger user;
+
+drop trigger if exists audit_contract_dealer_costs_change on public.contract_dealer_costs;
+create trigger audit_contract_dealer_costs_change
+  after insert or update or delete on public.contract_dealer_costs
+  for each row execute function public.audit_row_change('contract_dealer_cost');
+
+alter table public.contract_dealer_costs enable row level security;
+
+-- Anyone who can see the contract can see its cost, except dealership members
+-- without pricing.view_cost. Rows are only written by move_contract_dealer_cost.
+drop policy if exists "contract_dealer_costs_read" on public.contract_dealer_costs;
+create policy "contract_dealer_costs_read"
+  on public.contract_dealer_costs
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+        and (
+          c.dealership_id is null
+          or not public.is_dealership_member(auth.uid(), c.dealership_id)
+          or public.has_permission('pricing.view_cost', c.dealership_id)
+        )
+    )
+  );
+
+-- A member who may submit remittances but not see cost can't send the amount,
+-- so it is taken from the contract's cost on the server.
+create or replace function public.set_remittance_amount_from_cost()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _contract_id uuid := (to_jsonb(new) ->> 'contract_id')::uuid;
+  _cost numeric(10,2);
+begin
+  -- Only the per-contract remittances shape carries contract_id/amount.
+  if _contract_id is null or not (to_jsonb(new) ? 'amount') then
+    return new;
+  end if;
+
+  select coalesce(cdc.dealer_cost_dollars, (coalesce(cdc.pricing_dealer_cost_cents, 0) + coalesce(cdc.addon_total_cost_cents, 0)) / 100.0)
+  into _cost
+  from public.contract_dealer_costs cdc
+  where cdc.contract_id = _contract_id;
+
+  if _cost is not null then
+    new.amount := _cost;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_remittance_amount_from_cost on public.remittances;
+create trigger set_remittance_amount_from_cost
+  before insert on public.remittances
+  for each row execute function public.set_remittance_amount_from_cost();
@@ -0,0 +1,85 @@
+-- Admin "view as" sessions: a time-boxed, read-only view of the dealer or provider
+-- portal as a chosen user. Rows are written by the admin-impersonation edge
+-- function with the service role; start and stop are also recorded in
+-- audit_events.
+--
+-- The portal is rendered with the admin's own JWT, so reads go through the
+-- admin's existing access. While a session is open, the restrictive policies
+-- below refuse that admin's direct writes to portal data even if the client-side
+-- guard is bypassed. Security definer RPCs and service-role edge functions skip
+-- RLS, so each of those that writes portal data checks is_impersonating() itself.
+
+create table if not exists public.impersonation_sessions (
+  id uuid primary key default gen_random_uuid(),
+  admin_user_id uuid not null references auth.users(id) on delete cascade,
+  admin_email text,
+  target_user_id uuid not null references auth.users(id) on delete cascade,
+  target_email text,
+  target_role text not null,
+  reason text not null check (length(btrim(reason)) > 0),
+  started_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  ended_at timestamptz,
+  end_reason text check (end_reason in ('ENDED','EXPIRED')),
+  check (expires_at > started_at)
+);
+
+create index if not exists impersonation_sessions_admin_open_idx
+  on public.impersonation_sessions(admin_user_id)
+  where ended_at is null;
+
+alter table public.impersonation_sessions enable row level security;
+
+drop policy if exists "impersonation_sessions_admin_select" on public.impersonation_sessions;
+create policy "impersonation_sessions_admin_select"
+  on public.impersonation_sessions
+  for select
+  to authenticated
+  using (public.is_admin() or public.has_role(auth.uid(), 'super_admin'));
+
+create or replace function public.is_impersonating()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.impersonation_sessions s
+    where s.admin_user_id = auth.uid()
+      and s.ended_at is null
+      and s.expires_at > now()
+  );
+$$;
+
+grant execute on function public.is_impersonating() to authenticated;
+
+-- Every public table is read-only to an impersonating admin, apart from the session and audit
+-- records that track the impersonation itself. Tables added by later migrations add the same
+-- two policies.
+do $$
+declare
+  t text;
+begin
+  for t in
+    select tablename
+    from pg_tables
+    where schemaname = 'public'
+      and tablename not in ('audit_events', 'impersonation_sessions')
+    order by tablename
+  loop
+    execute format('drop policy if exists %I on public.%I', t || '_impersonation_read_only', t);
+    execute format(
+      'create policy %I on public.%I as restrictive for all to authenticated using (true) with check (not public.is_impersonating())',
+      t || '_impersonation_read_only',
+      t
+    );
+    execute format('drop policy if exists %I on public.%I', t || '_impersonation_no_delete', t);
+    execute format(
+      'create policy %I on public.%I as restrictive for delete to authenticated using (not public.is_impersonating())',
+      t || '_impersonation_no_delete',
+      t
+    );
+  end loop;
+end $$;
@@ -0,0 +1,159 @@
+-- Public customer portal: a customer who holds a warranty ID plus the VIN's last
+-- 6 characters or the contract's postal code can read their own coverage
+-- summary. Anonymous callers have no table access, so the lookup is a security
+-- definer function that returns a single, customer-safe row (no dealer cost, no
+-- pricing internals, no other contracts).
+--
+-- Columns are read through to_jsonb() because several contract and profile
+-- columns were added outside migrations and may not exist on every project.
+--
+-- Failed verifications are counted per warranty ID and per caller IP (taken from
+-- the request headers PostgREST passes through). After 10 in an hour against one
+-- ID, or 20 in an hour from one caller, the lookup returns nothing, the same as
+-- a mismatch, so neither a known ID nor a run of guessed IDs can be used to find
+-- a verifier. Failures older than the hour are deleted as new ones arrive.
+
+create table if not exists public.customer_lookup_failures (
+  id bigserial primary key,
+  warranty_id text not null,
+  caller text,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists customer_lookup_failures_warranty_idx
+  on public.customer_lookup_failures(warranty_id, attempted_at desc);
+
+create index if not exists customer_lookup_failures_caller_idx
+  on public.customer_lookup_failures(caller, attempted_at desc);
+
+create index if not exists customer_lookup_failures_attempted_idx
+  on public.customer_lookup_failures(attempted_at);
+
+alter table public.customer_lookup_failures enable row level security;
+
+create or replace function public.customer_contract_lookup(_warranty_id text, _verifier text)
+returns table (
+  contract_id uuid,
+  warranty_id text,
+  contract_number text,
+  customer_name text,
+  status text,
+  sold_at timestamptz,
+  created_at timestamptz,
+  vin_last6 text,
+  vehicle_year text,
+  vehicle_make text,
+  vehicle_model text,
+  vehicle_trim text,
+  vehicle_mileage_km integer,
+  term_months integer,
+  term_km integer,
+  deductible_cents integer,
+  provider_name text,
+  product_name text,
+  product_type text,
+  coverage_details jsonb,
+  transfer_policy text,
+  transfer_fee_cents integer,
+  cancellation_refund_method text,
+  cancellation_fee_cents integer,
+  terms_text text,
+  claims_text text,
+  transfer_count integer,
+  cancelled_on date
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _wid text := upper(btrim(coalesce(_warranty_id, '')));
+  _v text := upper(regexp_replace(coalesce(_verifier, ''), '[^a-zA-Z0-9]', '', 'g'));
+  _headers jsonb := coalesce(nullif(current_setting('request.headers', true), ''), '{}')::jsonb;
+  _caller text := coalesce(
+    nullif(btrim(split_part(coalesce(_headers ->> 'x-forwarded-for', ''), ',', 1)), ''),
+    nullif(btrim(_headers ->> 'cf-connecting-ip'), ''),
+    nullif(btrim(_headers ->> 'x-real-ip'), '')
+  );
+  _c jsonb;
+  _vin text;
+  _postal text;
+begin
+  if _wid = '' or length(_v) < 5 then
+    return;
+  end if;
+
+  if (
+    select count(*)
+    from public.customer_lookup_failures f
+    where f.warranty_id = _wid
+      and f.attempted_at > now() - interval '1 hour'
+  ) >= 10 then
+    return;
+  end if;
+
+  if _caller is not null and (
+    select count(*)
+    from public.customer_lookup_failures f
+    where f.caller = _caller
+      and f.attempted_at > now() - interval '1 hour'
+  ) >= 20 then
+    return;
+  end if;
+
+  select to_jsonb(c) into _c
+  from public.contracts c
+  where upper(coalesce(nullif(to_jsonb(c) ->> 'warranty_id', ''), 'WH-' || substr(replace(c.id::text, '-', ''), 1, 12))) = _wid
+    and upper(coalesce(to_jsonb(c) ->> 'status', '')) in ('SOLD','REMITTED','PAID')
+  limit 1;
+
+  _vin := upper(regexp_replace(coalesce(_c ->> 'vin', ''), '[^a-zA-Z0-9]', '', 'g'));
+  _postal := upper(regexp_replace(coalesce(_c ->> 'customer_postal_code', ''), '[^a-zA-Z0-9]', '', 'g'));
+
+  if _c is null or not (
+    (length(_v) = 6 and length(_vin) >= 6 and right(_vin, 6) = _v)
+    or (_postal <> '' and _postal = _v)
+  ) then
+    delete from public.customer_lookup_failures where attempted_at <= now() - interval '1 hour';
+    insert into public.customer_lookup_failures(warranty_id, caller) values (_wid, _caller);
+    return;
+  end if;
+
+  return query
+  select
+    (_c ->> 'id')::uuid,
+    _wid,
+    _c ->> 'contract_number',
+    _c ->> 'customer_name',
+    upper(_c ->> 'status'),
+    (_c ->> 'sold_at')::timestamptz,
+    (_c ->> 'created_at')::timestamptz,
+    nullif(right(_vin, 6), ''),
+    _c ->> 'vehicle_year',
+    _c ->> 'vehicle_make',
+    _c ->> 'vehicle_model',
+    _c ->> 'vehicle_trim',
+    (_c ->> 'vehicle_mileage_km')::integer,
+    (_c ->> 'pricing_term_months')::integer,
+    (_c ->> 'pricing_term_km')::integer,
+    (_c ->> 'pricing_deductible_cents')::integer,
+    coalesce(nullif(to_jsonb(pr) ->> 'company_name', ''), to_jsonb(pr) ->> 'display_name'),
+    p.name,
+    p.product_type,
+    coalesce(to_jsonb(p) -> 'coverage_details_json', to_jsonb(p) -> 'coverage_details'),
+    to_jsonb(p) ->> 'transfer_policy',
+    (to_jsonb(p) ->> 'transfer_fee_cents')::integer,
+    to_jsonb(p) ->> 'cancellation_refund_method',
+    (to_jsonb(p) ->> 'cancellation_fee_cents')::integer,
+    coalesce(nullif(to_jsonb(pr) ->> 'provider_terms_conditions_text', ''), to_jsonb(pr) ->> 'provider_terms_text'),
+    to_jsonb(pr) ->> 'provider_claims_repairs_text',
+    (select count(*)::integer from public.contract_transfers t where t.contract_id = (_c ->> 'id')::uuid),
+    (select cc.cancellation_date from public.contract_cancellations cc where cc.contract_id = (_c ->> 'id')::uuid limit 1)
+  from (select 1) as one
+  left join public.products p on p.id = (_c ->> 'product_id')::uuid
+  left join public.profiles pr on pr.id = (_c ->> 'provider_id')::uuid;
+end;
+$$;
+
+revoke all on function public.customer_contract_lookup(text, text) from public;
+grant execute on function public.customer_contract_lookup(text, text) to anon, authenticated;
@@ -0,0 +1,56 @@
+-- On-screen customer and dealer signatures. Each row is bound to the SHA-256 of the
+-- contract content the signer was shown (see src/lib/signatures/content.ts). Rows are
+-- written only by the contract-signatures edge function, which stamps the time, IP
+-- address and user agent itself; clients can read but never insert or change them.
+
+create table if not exists public.contract_signatures (
+  id uuid primary key default gen_random_uuid(),
+  contract_id uuid not null references public.contracts(id) on delete cascade,
+  role text not null check (role in ('CUSTOMER','DEALER')),
+  signer_name text not null check (length(trim(signer_name)) > 0),
+  signer_user_id uuid,
+  image_data_url text not null check (image_data_url like 'data:image/png;base64,%'),
+  content_hash text not null check (content_hash ~ '^[0-9a-f]{64}$'),
+  ip_address text,
+  user_agent text,
+  signed_at timestamptz not null default now()
+);
+
+create index if not exists contract_signatures_contract_id_idx on public.contract_signatures(contract_id, signed_at);
+
+create or replace function public.prevent_contract_signature_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Contract signatures cannot be changed';
+end;
+$$;
+
+drop trigger if exists prevent_contract_signature_update on public.contract_signatures;
+create trigger prevent_contract_signature_update
+  before update on public.contract_signatures
+  for each row execute function public.prevent_contract_signature_update();
+
+alter table public.contract_signatures enable row level security;
+
+-- Anyone who can see the contract can see its signatures; there are no write policies.
+drop policy if exists "contract_signatures_read" on public.contract_signatures;
+create policy "contract_signatures_read"
+  on public.contract_signatures
+  for select
+  to authenticated
+  using (
+    public.is_admin()
+    or public.has_role(auth.uid(), 'super_admin')
+    or exists (
+      select 1 from public.contracts c
+      where c.id = contract_id
+      and (
+        public.is_active_dealer_member(c.dealer_id)
+        or public.is_dealership_member(auth.uid(), c.dealership_id)
+        or c.provider_id = auth.uid()
+        or public.is_provider_member(auth.uid(), c.provider_entity_id)
+      )
+    )
+  );
@@ -0,0 +1,249 @@
+-- Remittance workflow (DRAFT -> SUBMITTED -> APPROVED/REJECTED -> PAID) enforced in the
+-- database. Workflow columns change only through transition_remittance_batch, which
+-- checks the caller's role for each move and moves the remittance's contracts with it
+-- (SOLD -> REMITTED on submit, back to SOLD on rejection, REMITTED -> PAID on payment).
+-- Contents and totals are locked from submission until the remittance is rejected.
+-- Mirrors src/lib/batches/workflow.ts.
+
+alter table public.batches
+  add column if not exists remittance_status text not null default 'DRAFT'
+  check (remittance_status in ('DRAFT','SUBMITTED','APPROVED','REJECTED','PAID'));
+
+alter table public.batches
+  add column if not exists dealer_user_id text,
+  add column if not exists dealer_email text,
+  add column if not exists submitted_at timestamptz,
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists reviewed_by_user_id text,
+  add column if not exists reviewed_by_email text,
+  add column if not exists rejection_reason text,
+  add column if not exists admin_notes text,
+  add column if not exists payment_method text check (payment_method in ('EFT','CHEQUE')),
+  add column if not exists payment_reference text,
+  add column if not exists payment_date date,
+  add column if not exists paid_by_user_id text,
+  add column if not exists paid_by_email text;
+
+update public.batches
+set remittance_status = case
+  when payment_status = 'PAID' then 'PAID'
+  when status = 'CLOSED' then 'SUBMITTED'
+  else 'DRAFT'
+end
+where remittance_status = 'DRAFT';
+
+create or replace function public.guard_batch_workflow()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(current_setting('warrantyhub.batch_transition', true), '') = 'on' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.remittance_status <> 'DRAFT' or new.status <> 'OPEN' or new.payment_status <> 'UNPAID' then
+      raise exception 'New remittances start as drafts';
+    end if;
+    new.submitted_at := null;
+    new.reviewed_at := null;
+    new.reviewed_by_user_id := null;
+    new.reviewed_by_email := null;
+    new.rejection_reason := null;
+    new.payment_method := null;
+    new.payment_reference := null;
+    new.payment_date := null;
+    new.paid_at := null;
+    new.paid_by_user_id := null;
+    new.paid_by_email := null;
+    new.dealer_user_id := coalesce(new.dealer_user_id, auth.uid()::text);
+    new.dealer_email := coalesce(new.dealer_email, nullif(auth.jwt() ->> 'email', ''));
+    if new.dealer_id is null then
+      select dm.dealer_id into new.dealer_id
+      from public.dealer_members dm
+      where dm.user_id = auth.uid() and dm.status = 'ACTIVE'
+      limit 1;
+    end if;
+    return new;
+  end if;
+
+  if (new.status, new.remittance_status, new.payment_status, new.paid_at, new.submitted_at, new.reviewed_at,
+      new.reviewed_by_user_id, new.reviewed_by_email, new.rejection_reason, new.admin_notes, new.payment_method,
+      new.payment_reference, new.payment_date, new.paid_by_user_id, new.paid_by_email)
+    is distinct from
+     (old.status, old.remittance_status, old.payment_status, old.paid_at, old.submitted_at, old.reviewed_at,
+      old.reviewed_by_user_id, old.reviewed_by_email, old.rejection_reason, old.admin_notes, old.payment_method,
+      old.payment_reference, old.payment_date, old.paid_by_user_id, old.paid_by_email) then
+    raise exception 'Remittance status can only change through transition_remittance_batch';
+  end if;
+
+  if old.remittance_status not in ('DRAFT','REJECTED')
+    and (new.contract_ids, new.subtotal_cents, new.tax_rate, new.tax_cents, new.tax_breakdown, new.total_cents, new.provider_id)
+      is distinct from
+        (old.contract_ids, old.subtotal_cents, old.tax_rate, old.tax_cents, old.tax_breakdown, old.total_cents, old.provider_id) then
+    raise exception 'Remittance is locked (submitted remittances cannot be edited)';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_batch_workflow on public.batches;
+create trigger guard_batch_workflow
+  before insert or update on public.batches
+  for each row execute function public.guard_batch_workflow();
+
+create or replace function public.transition_remittance_batch(
+  _batch_id uuid,
+  _to text,
+  _rejection_reason text default null,
+  _admin_notes text default null,
+  _payment_method text default null,
+  _payment_reference text default null,
+  _payment_date date default null
+)
+returns public.batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _uid uuid := auth.uid();
+  _email text := nullif(auth.jwt() ->> 'email', '');
+  _is_admin boolean := public.is_admin() or public.has_role(auth.uid(), 'super_admin');
+  _b public.batches;
+  _from text;
+  _contract_from text;
+  _contract_to text;
+begin
+  if _uid is null then
+    raise exception 'Not authenticated';
+  end if;
+  if public.is_impersonating() then
+    raise exception 'Read-only while viewing as another user';
+  end if;
+
+  select * into _b from public.batches where id = _batch_id for update;
+  if not found then
+    raise exception 'Batch not found';
+  end if;
+
+  _from := _b.remittance_status;
+  if not (
+    (_from = 'DRAFT' and _to = 'SUBMITTED')
+    or (_from = 'SUBMITTED' and _to in ('APPROVED','REJECTED'))
+    or (_from = 'APPROVED' and _to = 'PAID')
+    or (_from = 'REJECTED' and _to = 'SUBMITTED')
+  ) then
+    raise exception 'A % remittance cannot be moved to %', lower(_from), lower(coalesce(_to, ''));
+  end if;
+
+  if _to = 'SUBMITTED' then
+    if not (
+      _is_admin
+      or ('remittances.submit' = any(public.current_user_permissions())
+        and (public.is_active_dealer_member(_b.dealer_id) or _b.dealer_user_id = _uid::text))
+    ) then
+      raise exception 'Not authorized to submit remittances';
+    end if;
+    if cardinality(_b.contract_ids) = 0 then
+      raise exception 'No contracts linked';
+    end if;
+    -- The contract list is written by the dealer's client, so check it here.
+    if exists (
+      select 1
+      from unnest(_b.contract_ids) as ids(id)
+      left join public.contracts c on c.id = ids.id
+      where c.id is null
+        or c.dealer_id is distinct from _b.dealer_id
+        or c.provider_id is distinct from _b.provider_id
+        or c.status <> 'SOLD'
+    ) then
+      raise exception 'Every contract must be a sold contract of this remittance''s dealer and provider';
+    end if;
+  elsif _to in ('APPROVED','REJECTED') then
+    if not _is_admin then
+      raise exception 'Only an administrator can % remittances', case when _to = 'APPROVED' then 'approve' else 'reject' end;
+    end if;
+    if _to = 'REJECTED' and coalesce(trim(_rejection_reason), '') = '' then
+      raise exception 'Rejection reason is required';
+    end if;
+  elsif _to = 'PAID' then
+    if not (_is_admin or (public.current_role() = 'PROVIDER' and _b.provider_id = _uid)) then
+      raise exception 'Only the remittance''s provider can mark it paid';
+    end if;
+    if _payment_method is null then
+      raise exception 'Payment method is required';
+    end if;
+    if _payment_date is null then
+      raise exception 'Payment date is required';
+    end if;
+  end if;
+
+  perform set_config('warrantyhub.batch_transition', 'on', true);
+
+  if _to = 'SUBMITTED' then
+    update public.batches
+    set status = 'CLOSED',
+        remittance_status = 'SUBMITTED',
+        submitted_at = now(),
+        dealer_user_id = coalesce(dealer_user_id, _uid::text),
+        dealer_email = coalesce(dealer_email, _email)
+    where id = _batch_id
+    returning * into _b;
+    _contract_from := 'SOLD';
+    _contract_to := 'REMITTED';
+  elsif _to in ('APPROVED','REJECTED') then
+    update public.batches
+    set remittance_status = _to,
+        status = case when _to = 'REJECTED' then 'OPEN' else status end,
+        reviewed_at = now(),
+        reviewed_by_user_id = _uid::text,
+        reviewed_by_email = _email,
+        rejection_reason = case when _to = 'REJECTED' then trim(_rejection_reason) else null end,
+        admin_notes = coalesce(nullif(trim(_admin_notes), ''), admin_notes)
+    where id = _batch_id
+    returning * into _b;
+    if _to = 'REJECTED' then
+      _contract_from := 'REMITTED';
+      _contract_to := 'SOLD';
+    end if;
+  else
+    update public.batches
+    set remittance_status = 'PAID',
+        payment_status = 'PAID',
+        paid_at = now(),
+        payment_method = _payment_method,
+        payment_reference = nullif(trim(_payment_reference), ''),
+        payment_date = _payment_date,
+        paid_by_user_id = _uid::text,
+        paid_by_email = _email
+    where id = _batch_id
+    returning * into _b;
+    _contract_from := 'REMITTED';
+    _contract_to := 'PAID';
+  end if;
+
+  if _contract_to is not null then
+    update public.contracts c
+    set status = _contract_to,
+        status_new = case when _contract_to = 'SOLD' then 'submitted' else 'active' end,
+        remitted_by_user_id = case _contract_to when 'REMITTED' then _uid::text when 'SOLD' then null else c.remitted_by_user_id end,
+        remitted_by_email = case _contract_to when 'REMITTED' then _email when 'SOLD' then null else c.remitted_by_email end,
+        remitted_at = case _contract_to when 'REMITTED' then now() when 'SOLD' then null else c.remitted_at end,
+        paid_by_user_id = case when _contract_to = 'PAID' then _uid::text else c.paid_by_user_id end,
+        paid_by_email = case when _contract_to = 'PAID' then _email else c.paid_by_email end,
+        paid_at = case when _contract_to = 'PAID' then now() else c.paid_at end
+    where c.id = any(_b.contract_ids)
+      and c.status = _contract_from;
+  end if;
+
+  perform set_config('warrantyhub.batch_transition', 'off', true);
+
+  return _b;
+end;
+$$;
+
+revoke all on function public.transition_remittance_batch(uuid, text, text, text, text, text, date) from public;
+grant execute on function public.transition_remittance_batch(uuid, text, text, text, text, text, date) to authenticated;
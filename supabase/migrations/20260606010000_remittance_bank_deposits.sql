@@ -0,0 +1,154 @@
+-- Bank reconciliation: a deposit line from a provider's bank statement (CSV or OFX/QFX)
+-- applied to one or more approved remittances. apply_bank_deposit pays each remittance
+-- through transition_remittance_batch, so the usual role checks and contract moves apply,
+-- and keeps the statement line as evidence. A line can only be applied once per provider.
+-- Matching itself happens in the browser; see src/lib/bankReconciliation/matching.ts.
+
+create table if not exists public.remittance_bank_deposits (
+  id uuid primary key default gen_random_uuid(),
+  provider_id uuid references public.profiles(id) on delete set null,
+  statement_file_name text not null,
+  statement_format text not null check (statement_format in ('CSV','OFX')),
+  line_key text not null check (length(trim(line_key)) > 0),
+  posted_date date not null,
+  amount_cents integer not null check (amount_cents > 0),
+  description text not null default '',
+  reference text,
+  check_number text,
+  line jsonb not null,
+  batch_ids uuid[] not null check (cardinality(batch_ids) > 0),
+  payment_method text not null check (payment_method in ('EFT','CHEQUE')),
+  shortfall_cents integer not null default 0 check (shortfall_cents >= 0),
+  matched_by_user_id text,
+  matched_by_email text,
+  matched_at timestamptz not null default now()
+);
+
+create unique index if not exists remittance_bank_deposits_line_key_idx
+  on public.remittance_bank_deposits (coalesce(provider_id, '00000000-0000-0000-0000-000000000000'::uuid), line_key);
+
+create index if not exists remittance_bank_deposits_batch_ids_idx on public.remittance_bank_deposits using gin (batch_ids);
+
+create or replace function public.prevent_bank_deposit_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Bank deposit matches cannot be changed';
+end;
+$$;
+
+drop trigger if exists prevent_bank_deposit_update on public.remittance_bank_deposits;
+create trigger prevent_bank_deposit_update
+  before update on public.remittance_bank_deposits
+  for each row execute function public.prevent_bank_deposit_update();
+
+drop trigger if exists audit_remittance_bank_deposits_change on public.remittance_bank_deposits;
+create trigger audit_remittance_bank_deposits_change
+  after insert or update or delete on public.remittance_bank_deposits
+  for each row execute function public.audit_row_change('remittance_bank_deposit');
+
+alter table public.remittance_bank_deposits enable row level security;
+
+-- Rows are written only by apply_bank_deposit.
+drop policy if exists "remittance_bank_deposits_read" on public.remittance_bank_deposits;
+create policy "remittance_bank_deposits_read"
+  on public.remittance_bank_deposits
+  for select
+  to authenticated
+  using (
+    public.is_admin()
+    or public.has_role(auth.uid(), 'super_admin')
+    or (public.current_role() = 'PROVIDER' and provider_id = auth.uid())
+  );
+
+create or replace function public.apply_bank_deposit(
+  _statement_file_name text,
+  _statement_format text,
+  _line jsonb,
+  _batch_ids uuid[],
+  _payment_method text,
+  _payment_reference text
+)
+returns public.remittance_bank_deposits
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _uid uuid := auth.uid();
+  _amount integer := (_line ->> 'amountCents')::integer;
+  _posted date := (_line ->> 'postedDate')::date;
+  _key text := nullif(trim(_line ->> 'key'), '');
+  _total integer;
+  _count integer;
+  _providers integer;
+  _provider_id uuid;
+  _not_approved text;
+  _id uuid;
+  _row public.remittance_bank_deposits;
+begin
+  if _uid is null then
+    raise exception 'Not authenticated';
+  end if;
+  if public.is_impersonating() then
+    raise exception 'Read-only while viewing as another user';
+  end if;
+  if _key is null or _posted is null or _amount is null then
+    raise exception 'Statement line is incomplete';
+  end if;
+  if _amount <= 0 then
+    raise exception 'Only deposits can be matched to remittances';
+  end if;
+  if cardinality(coalesce(_batch_ids, '{}')) = 0 then
+    raise exception 'Choose at least one remittance';
+  end if;
+
+  select count(*), coalesce(sum(total_cents), 0), count(distinct provider_id), min(provider_id::text)::uuid,
+         min(batch_number) filter (where remittance_status <> 'APPROVED')
+  into _count, _total, _providers, _provider_id, _not_approved
+  from public.batches
+  where id = any(_batch_ids);
+
+  if _count <> cardinality(_batch_ids) then
+    raise exception 'Batch not found';
+  end if;
+  if _not_approved is not null then
+    raise exception 'Remittance % is not awaiting payment', _not_approved;
+  end if;
+  if _providers > 1 then
+    raise exception 'A deposit can only pay remittances for one provider';
+  end if;
+  if _amount > _total then
+    raise exception 'Deposit is more than the remittances total';
+  end if;
+  if exists (
+    select 1 from public.remittance_bank_deposits d
+    where d.line_key = _key and d.provider_id is not distinct from _provider_id
+  ) then
+    raise exception 'This statement line has already been applied';
+  end if;
+
+  for _id in select unnest(_batch_ids) loop
+    perform public.transition_remittance_batch(_id, 'PAID', null, null, _payment_method, _payment_reference, _posted);
+  end loop;
+
+  insert into public.remittance_bank_deposits (
+    provider_id, statement_file_name, statement_format, line_key, posted_date, amount_cents,
+    description, reference, check_number, line, batch_ids, payment_method, shortfall_cents,
+    matched_by_user_id, matched_by_email
+  )
+  values (
+    _provider_id, _statement_file_name, _statement_format, _key, _posted, _amount,
+    coalesce(_line ->> 'description', ''), nullif(_line ->> 'reference', ''), nullif(_line ->> 'checkNumber', ''),
+    _line, _batch_ids, _payment_method, _total - _amount,
+    _uid::text, nullif(auth.jwt() ->> 'email', '')
+  )
+  returning * into _row;
+
+  return _row;
+end;
+$$;
+
+revoke all on function public.apply_bank_deposit(text, text, jsonb, uuid[], text, text) from public;
+grant execute on function public.apply_bank_deposit(text, text, jsonb, uuid[], text, text) to authenticated;
@@ -0,0 +1,548 @@
+-- Remittance payment ledger. Each payment is recorded against one or more approved
+-- remittances (a single cheque can cover several); batches.paid_cents is the ledger total and
+-- the outstanding balance is total_cents - paid_cents. A remittance is PARTIALLY_PAID until
+-- the balance reaches zero, when it and its contracts become PAID. Ledger rows are written
+-- only by record_remittance_payment and are never changed.
+-- Mirrors src/lib/batches/payments.ts.
+
+alter table public.batches drop constraint if exists batches_remittance_status_check;
+alter table public.batches
+  add constraint batches_remittance_status_check
+  check (remittance_status in ('DRAFT','SUBMITTED','APPROVED','REJECTED','PARTIALLY_PAID','PAID'));
+
+alter table public.batches drop constraint if exists batches_payment_status_check;
+alter table public.batches
+  add constraint batches_payment_status_check
+  check (payment_status in ('UNPAID','PARTIALLY_PAID','PAID'));
+
+alter table public.batches
+  add column if not exists paid_cents integer not null default 0 check (paid_cents >= 0);
+
+create table if not exists public.remittance_payments (
+  id uuid primary key default gen_random_uuid(),
+  -- Shared by every row of one payment split across several remittances.
+  payment_id uuid not null,
+  batch_id uuid not null references public.batches(id) on delete restrict,
+  provider_id uuid references public.profiles(id) on delete set null,
+  amount_cents integer not null check (amount_cents > 0),
+  method text not null check (method in ('EFT','CHEQUE')),
+  reference text,
+  payment_date date not null,
+  bank_deposit_id uuid references public.remittance_bank_deposits(id) on delete restrict,
+  recorded_by_user_id text,
+  recorded_by_email text,
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists remittance_payments_batch_id_idx on public.remittance_payments (batch_id);
+create index if not exists remittance_payments_payment_id_idx on public.remittance_payments (payment_id);
+
+-- Remittances paid before the ledger existed were paid in full.
+insert into public.remittance_payments (payment_id, batch_id, provider_id, amount_cents, method, reference, payment_date,
+                                        recorded_by_user_id, recorded_by_email, recorded_at)
+select gen_random_uuid(), b.id, b.provider_id, b.total_cents, coalesce(b.payment_method, 'EFT'), b.payment_reference,
+       coalesce(b.payment_date, b.paid_at::date, b.created_at::date), b.paid_by_user_id, b.paid_by_email, coalesce(b.paid_at, now())
+from public.batches b
+where b.payment_status = 'PAID'
+  and b.total_cents > 0
+  and not exists (select 1 from public.remittance_payments p where p.batch_id = b.id);
+
+update public.batches
+set paid_cents = total_cents
+where payment_status = 'PAID' and paid_cents = 0;
+
+create or replace function public.prevent_remittance_payment_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Remittance payments cannot be changed';
+end;
+$$;
+
+drop trigger if exists prevent_remittance_payment_change on public.remittance_payments;
+create trigger prevent_remittance_payment_change
+  before update or delete on public.remittance_payments
+  for each row execute function public.prevent_remittance_payment_change();
+
+drop trigger if exists audit_remittance_payments_change on public.remittance_payments;
+create trigger audit_remittance_payments_change
+  after insert or update or delete on public.remittance_payments
+  for each row execute function public.audit_row_change('remittance_payment');
+
+alter table public.remittance_payments enable row level security;
+
+-- Anyone who can see the remittance can see its payments.
+drop policy if exists "remittance_payments_read" on public.remittance_payments;
+create policy "remittance_payments_read"
+  on public.remittance_payments
+  for select
+  to authenticated
+  using (exists (select 1 from public.batches b where b.id = batch_id));
+
+-- paid_cents joins the columns only the workflow functions may write.
+create or replace function public.guard_batch_workflow()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(current_setting('warrantyhub.batch_transition', true), '') = 'on' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.remittance_status <> 'DRAFT' or new.status <> 'OPEN' or new.payment_status <> 'UNPAID' then
+      raise exception 'New remittances start as drafts';
+    end if;
+    new.paid_cents := 0;
+    new.submitted_at := null;
+    new.reviewed_at := null;
+    new.reviewed_by_user_id := null;
+    new.reviewed_by_email := null;
+    new.rejection_reason := null;
+    new.payment_method := null;
+    new.payment_reference := null;
+    new.payment_date := null;
+    new.paid_at := null;
+    new.paid_by_user_id := null;
+    new.paid_by_email := null;
+    new.dealer_user_id := coalesce(new.dealer_user_id, auth.uid()::text);
+    new.dealer_email := coalesce(new.dealer_email, nullif(auth.jwt() ->> 'email', ''));
+    if new.dealer_id is null then
+      select dm.dealer_id into new.dealer_id
+      from public.dealer_members dm
+      where dm.user_id = auth.uid() and dm.status = 'ACTIVE'
+      limit 1;
+    end if;
+    return new;
+  end if;
+
+  if (new.status, new.remittance_status, new.payment_status, new.paid_cents, new.paid_at, new.submitted_at, new.reviewed_at,
+      new.reviewed_by_user_id, new.reviewed_by_email, new.rejection_reason, new.admin_notes, new.payment_method,
+      new.payment_reference, new.payment_date, new.paid_by_user_id, new.paid_by_email)
+    is distinct from
+     (old.status, old.remittance_status, old.payment_status, old.paid_cents, old.paid_at, old.submitted_at, old.reviewed_at,
+      old.reviewed_by_user_id, old.reviewed_by_email, old.rejection_reason, old.admin_notes, old.payment_method,
+      old.payment_reference, old.payment_date, old.paid_by_user_id, old.paid_by_email) then
+    raise exception 'Remittance status can only change through transition_remittance_batch';
+  end if;
+
+  if old.remittance_status not in ('DRAFT','REJECTED')
+    and (new.contract_ids, new.subtotal_cents, new.tax_rate, new.tax_cents, new.tax_breakdown, new.total_cents, new.provider_id)
+      is distinct from
+        (old.contract_ids, old.subtotal_cents, old.tax_rate, old.tax_cents, old.tax_breakdown, old.total_cents, old.provider_id) then
+    raise exception 'Remittance is locked (submitted remittances cannot be edited)';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Moves a settled remittance's contracts from REMITTED to PAID. Caller must hold the batch row lock.
+create or replace function public.pay_remittance_contracts(_contract_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.contracts c
+  set status = 'PAID',
+      status_new = 'active',
+      paid_by_user_id = auth.uid()::text,
+      paid_by_email = nullif(auth.jwt() ->> 'email', ''),
+      paid_at = now()
+  where c.id = any(_contract_ids)
+    and c.status = 'REMITTED';
+end;
+$$;
+
+revoke all on function public.pay_remittance_contracts(uuid[]) from public;
+
+-- _allocations is a JSON array of {batchId, amountCents}. Every allocation is checked before
+-- anything is written, so a bad one leaves the ledger untouched.
+create or replace function public.record_remittance_payment(
+  _method text,
+  _reference text,
+  _payment_date date,
+  _allocations jsonb,
+  _bank_deposit_id uuid default null
+)
+returns setof public.remittance_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _uid uuid := auth.uid();
+  _email text := nullif(auth.jwt() ->> 'email', '');
+  _is_admin boolean := public.is_admin() or public.has_role(auth.uid(), 'super_admin');
+  _payment_id uuid := gen_random_uuid();
+  _a jsonb;
+  _batch_id uuid;
+  _amount integer;
+  _b public.batches;
+  _provider_id uuid;
+  _first boolean := true;
+  _paid integer;
+  _settled boolean;
+begin
+  if _uid is null then
+    raise exception 'Not authenticated';
+  end if;
+  if public.is_impersonating() then
+    raise exception 'Read-only while viewing as another user';
+  end if;
+  if _method is null or _method not in ('EFT','CHEQUE') then
+    raise exception 'Payment method is required';
+  end if;
+  if _payment_date is null then
+    raise exception 'Payment date is required';
+  end if;
+  if jsonb_typeof(_allocations) <> 'array' or jsonb_array_length(_allocations) = 0 then
+    raise exception 'Choose at least one remittance';
+  end if;
+  if (select count(distinct a ->> 'batchId') from jsonb_array_elements(_allocations) a) <> jsonb_array_length(_allocations) then
+    raise exception 'Each remittance can only appear once in a payment';
+  end if;
+
+  for _a in select * from jsonb_array_elements(_allocations) loop
+    _batch_id := (_a ->> 'batchId')::uuid;
+    _amount := (_a ->> 'amountCents')::integer;
+
+    select * into _b from public.batches where id = _batch_id for update;
+    if not found then
+      raise exception 'Batch not found';
+    end if;
+    if _b.remittance_status not in ('APPROVED','PARTIALLY_PAID') then
+      raise exception 'Remittance % is not awaiting payment', _b.batch_number;
+    end if;
+    if not (_is_admin or (public.current_role() = 'PROVIDER' and _b.provider_id = _uid)) then
+      raise exception 'Only the remittance''s provider can record payments';
+    end if;
+    if _amount is null or _amount <= 0 then
+      raise exception 'Payment amount for % must be greater than zero', _b.batch_number;
+    end if;
+    if _amount > _b.total_cents - _b.paid_cents then
+      raise exception 'Payment is more than the balance outstanding on %', _b.batch_number;
+    end if;
+    if not _first and _b.provider_id is distinct from _provider_id then
+      raise exception 'A payment can only cover remittances for one provider';
+    end if;
+    _provider_id := _b.provider_id;
+    _first := false;
+  end loop;
+
+  perform set_config('warrantyhub.batch_transition', 'on', true);
+
+  for _a in select * from jsonb_array_elements(_allocations) loop
+    _batch_id := (_a ->> 'batchId')::uuid;
+    _amount := (_a ->> 'amountCents')::integer;
+
+    insert into public.remittance_payments (
+      payment_id, batch_id, provider_id, amount_cents, method, reference, payment_date, bank_deposit_id,
+      recorded_by_user_id, recorded_by_email
+    )
+    values (
+      _payment_id, _batch_id, _provider_id, _amount, _method, nullif(trim(_reference), ''), _payment_date, _bank_deposit_id,
+      _uid::text, _email
+    );
+
+    select paid_cents + _amount, paid_cents + _amount >= total_cents into _paid, _settled
+    from public.batches where id = _batch_id;
+
+    update public.batches
+    set paid_cents = _paid,
+        payment_status = case when _settled then 'PAID' else 'PARTIALLY_PAID' end,
+        remittance_status = case when _settled then 'PAID' else 'PARTIALLY_PAID' end,
+        payment_method = _method,
+        payment_reference = nullif(trim(_reference), ''),
+        payment_date = _payment_date,
+        paid_at = case when _settled then now() else paid_at end,
+        paid_by_user_id = case when _settled then _uid::text else paid_by_user_id end,
+        paid_by_email = case when _settled then _email else paid_by_email end
+    where id = _batch_id
+    returning * into _b;
+
+    if _settled then
+      perform public.pay_remittance_contracts(_b.contract_ids);
+    end if;
+  end loop;
+
+  perform set_config('warrantyhub.batch_transition', 'off', true);
+
+  return query select * from public.remittance_payments where payment_id = _payment_id;
+end;
+$$;
+
+revoke all on function public.record_remittance_payment(text, text, date, jsonb, uuid) from public;
+grant execute on function public.record_remittance_payment(text, text, date, jsonb, uuid) to authenticated;
+
+-- Marking a remittance paid now records its outstanding balance as the final payment, and a
+-- partially paid remittance can be settled the same way.
+create or replace function public.transition_remittance_batch(
+  _batch_id uuid,
+  _to text,
+  _rejection_reason text default null,
+  _admin_notes text default null,
+  _payment_method text default null,
+  _payment_reference text default null,
+  _payment_date date default null
+)
+returns public.batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _uid uuid := auth.uid();
+  _email text := nullif(auth.jwt() ->> 'email', '');
+  _is_admin boolean := public.is_admin() or public.has_role(auth.uid(), 'super_admin');
+  _b public.batches;
+  _from text;
+  _contract_from text;
+  _contract_to text;
+begin
+  if _uid is null then
+    raise exception 'Not authenticated';
+  end if;
+  if public.is_impersonating() then
+    raise exception 'Read-only while viewing as another user';
+  end if;
+
+  select * into _b from public.batches where id = _batch_id for update;
+  if not found then
+    raise exception 'Batch not found';
+  end if;
+
+  _from := _b.remittance_status;
+  if _to = 'PARTIALLY_PAID' and _from = 'APPROVED' then
+    raise exception 'Record a payment to part-pay a remittance';
+  end if;
+  if not (
+    (_from = 'DRAFT' and _to = 'SUBMITTED')
+    or (_from = 'SUBMITTED' and _to in ('APPROVED','REJECTED'))
+    or (_from in ('APPROVED','PARTIALLY_PAID') and _to = 'PAID')
+    or (_from = 'REJECTED' and _to = 'SUBMITTED')
+  ) then
+    raise exception 'A % remittance cannot be moved to %', lower(_from), lower(coalesce(_to, ''));
+  end if;
+
+  if _to = 'SUBMITTED' then
+    if not (
+      _is_admin
+      or ('remittances.submit' = any(public.current_user_permissions())
+        and (public.is_active_dealer_member(_b.dealer_id) or _b.dealer_user_id = _uid::text))
+    ) then
+      raise exception 'Not authorized to submit remittances';
+    end if;
+    if cardinality(_b.contract_ids) = 0 then
+      raise exception 'No contracts linked';
+    end if;
+    -- The contract list is written by the dealer's client, so check it here.
+    if exists (
+      select 1
+      from unnest(_b.contract_ids) as ids(id)
+      left join public.contracts c on c.id = ids.id
+      where c.id is null
+        or c.dealer_id is distinct from _b.dealer_id
+        or c.provider_id is distinct from _b.provider_id
+        or c.status <> 'SOLD'
+    ) then
+      raise exception 'Every contract must be a sold contract of this remittance''s dealer and provider';
+    end if;
+  elsif _to in ('APPROVED','REJECTED') then
+    if not _is_admin then
+      raise exception 'Only an administrator can % remittances', case when _to = 'APPROVED' then 'approve' else 'reject' end;
+    end if;
+    if _to = 'REJECTED' and coalesce(trim(_rejection_reason), '') = '' then
+      raise exception 'Rejection reason is required';
+    end if;
+  elsif _to = 'PAID' then
+    if not (_is_admin or (public.current_role() = 'PROVIDER' and _b.provider_id = _uid)) then
+      raise exception 'Only the remittance''s provider can mark it paid';
+    end if;
+    if _payment_method is null then
+      raise exception 'Payment method is required';
+    end if;
+    if _payment_date is null then
+      raise exception 'Payment date is required';
+    end if;
+  end if;
+
+  if _to = 'PAID' and _b.total_cents > _b.paid_cents then
+    perform public.record_remittance_payment(
+      _payment_method,
+      _payment_reference,
+      _payment_date,
+      jsonb_build_array(jsonb_build_object('batchId', _batch_id, 'amountCents', _b.total_cents - _b.paid_cents))
+    );
+    select * into _b from public.batches where id = _batch_id;
+    return _b;
+  end if;
+
+  perform set_config('warrantyhub.batch_transition', 'on', true);
+
+  if _to = 'SUBMITTED' then
+    update public.batches
+    set status = 'CLOSED',
+        remittance_status = 'SUBMITTED',
+        submitted_at = now(),
+        dealer_user_id = coalesce(dealer_user_id, _uid::text),
+        dealer_email = coalesce(dealer_email, _email)
+    where id = _batch_id
+    returning * into _b;
+    _contract_from := 'SOLD';
+    _contract_to := 'REMITTED';
+  elsif _to in ('APPROVED','REJECTED') then
+    update public.batches
+    set remittance_status = _to,
+        status = case when _to = 'REJECTED' then 'OPEN' else status end,
+        reviewed_at = now(),
+        reviewed_by_user_id = _uid::text,
+        reviewed_by_email = _email,
+        rejection_reason = case when _to = 'REJECTED' then trim(_rejection_reason) else null end,
+        admin_notes = coalesce(nullif(trim(_admin_notes), ''), admin_notes)
+    where id = _batch_id
+    returning * into _b;
+    if _to = 'REJECTED' then
+      _contract_from := 'REMITTED';
+      _contract_to := 'SOLD';
+    end if;
+  else
+    -- Nothing left owing (a zero-value remittance); just close it out.
+    update public.batches
+    set remittance_status = 'PAID',
+        payment_status = 'PAID',
+        paid_at = now(),
+        payment_method = _payment_method,
+        payment_reference = nullif(trim(_payment_reference), ''),
+        payment_date = _payment_date,
+        paid_by_user_id = _uid::text,
+        paid_by_email = _email
+    where id = _batch_id
+    returning * into _b;
+    perform public.pay_remittance_contracts(_b.contract_ids);
+  end if;
+
+  if _contract_to is not null then
+    update public.contracts c
+    set status = _contract_to,
+        status_new = case when _contract_to = 'SOLD' then 'submitted' else 'active' end,
+        remitted_by_user_id = case _contract_to when 'REMITTED' then _uid::text else null end,
+        remitted_by_email = case _contract_to when 'REMITTED' then _email else null end,
+        remitted_at = case _contract_to when 'REMITTED' then now() else null end
+    where c.id = any(_b.contract_ids)
+      and c.status = _contract_from;
+  end if;
+
+  perform set_config('warrantyhub.batch_transition', 'off', true);
+
+  return _b;
+end;
+$$;
+
+-- Deposits are now spread across the chosen remittances' balances, oldest approval first, and
+-- recorded in the payment ledger; a short deposit leaves the last remittance partially paid.
+create or replace function public.apply_bank_deposit(
+  _statement_file_name text,
+  _statement_format text,
+  _line jsonb,
+  _batch_ids uuid[],
+  _payment_method text,
+  _payment_reference text
+)
+returns public.remittance_bank_deposits
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _uid uuid := auth.uid();
+  _amount integer := (_line ->> 'amountCents')::integer;
+  _posted date := (_line ->> 'postedDate')::date;
+  _key text := nullif(trim(_line ->> 'key'), '');
+  _outstanding integer;
+  _count integer;
+  _providers integer;
+  _provider_id uuid;
+  _not_awaiting text;
+  _left integer;
+  _allocations jsonb := '[]'::jsonb;
+  _alloc record;
+  _row public.remittance_bank_deposits;
+begin
+  if _uid is null then
+    raise exception 'Not authenticated';
+  end if;
+  if public.is_impersonating() then
+    raise exception 'Read-only while viewing as another user';
+  end if;
+  if _key is null or _posted is null or _amount is null then
+    raise exception 'Statement line is incomplete';
+  end if;
+  if _amount <= 0 then
+    raise exception 'Only deposits can be matched to remittances';
+  end if;
+  if cardinality(coalesce(_batch_ids, '{}')) = 0 then
+    raise exception 'Choose at least one remittance';
+  end if;
+
+  select count(*), coalesce(sum(total_cents - paid_cents), 0), count(distinct provider_id), min(provider_id::text)::uuid,
+         min(batch_number) filter (where remittance_status not in ('APPROVED','PARTIALLY_PAID'))
+  into _count, _outstanding, _providers, _provider_id, _not_awaiting
+  from public.batches
+  where id = any(_batch_ids);
+
+  if _count <> cardinality(_batch_ids) then
+    raise exception 'Batch not found';
+  end if;
+  if _not_awaiting is not null then
+    raise exception 'Remittance % is not awaiting payment', _not_awaiting;
+  end if;
+  if _providers > 1 then
+    raise exception 'A deposit can only pay remittances for one provider';
+  end if;
+  if _amount > _outstanding then
+    raise exception 'Deposit is more than the outstanding balance';
+  end if;
+  if exists (
+    select 1 from public.remittance_bank_deposits d
+    where d.line_key = _key and d.provider_id is not distinct from _provider_id
+  ) then
+    raise exception 'This statement line has already been applied';
+  end if;
+
+  insert into public.remittance_bank_deposits (
+    provider_id, statement_file_name, statement_format, line_key, posted_date, amount_cents,
+    description, reference, check_number, line, batch_ids, payment_method, shortfall_cents,
+    matched_by_user_id, matched_by_email
+  )
+  values (
+    _provider_id, _statement_file_name, _statement_format, _key, _posted, _amount,
+    coalesce(_line ->> 'description', ''), nullif(_line ->> 'reference', ''), nullif(_line ->> 'checkNumber', ''),
+    _line, _batch_ids, _payment_method, _outstanding - _amount,
+    _uid::text, nullif(auth.jwt() ->> 'email', '')
+  )
+  returning * into _row;
+
+  _left := _amount;
+  for _alloc in
+    select b.id, b.total_cents - b.paid_cents as balance
+    from public.batches b
+    where b.id = any(_batch_ids)
+    order by coalesce(b.reviewed_at, b.submitted_at, b.created_at), array_position(_batch_ids, b.id)
+  loop
+    exit when _left <= 0;
+    if _alloc.balance > 0 then
+      _allocations := _allocations || jsonb_build_object('batchId', _alloc.id, 'amountCents', least(_left, _alloc.balance));
+      _left := _left - least(_left, _alloc.balance);
+    end if;
+  end loop;
+
+  perform public.record_remittance_payment(_payment_method, _payment_reference, _posted, _allocations, _row.id);
+
+  return _row;
+end;
+$$;
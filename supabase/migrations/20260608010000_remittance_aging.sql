@@ -0,0 +1,100 @@
+-- Remittance aging: a daily job flips contract remittances that are past their due
+-- date from pending to overdue, and dealer-create-contract can refuse new contracts
+-- for a dealership whose oldest unpaid remittance is past a configured number of days.
+create index if not exists contract_remittances_unpaid_due_idx
+  on public.contract_remittances(due_date)
+  where status in ('pending', 'overdue');
+
+-- Marks past-due pending remittances overdue, one audit event per dealership.
+-- Only charges (amount > 0) age; the negative reversal lines cancel_contract writes
+-- are credits and never become overdue. Returns how many remittances were marked.
+create or replace function public.mark_overdue_contract_remittances()
+returns integer
+language plpgsql security definer set search_path = public
+as $$
+declare
+  d record;
+  marked_count integer := 0;
+begin
+  -- pg_cron runs outside any API request, so it has no JWT claims; API callers must
+  -- be the service role or an admin.
+  if coalesce(current_setting('request.jwt.claims', true), '') <> ''
+    and coalesce(auth.jwt() ->> 'role', '') <> 'service_role'
+    and not public.is_admin()
+  then
+    raise exception 'Not authorized';
+  end if;
+
+  for d in
+    select c.dealership_id,
+      count(*)::integer as remittance_count,
+      sum(cr.amount) as amount,
+      min(cr.due_date) as oldest_due_date
+    from public.contract_remittances cr
+    join public.contracts c on c.id = cr.contract_id
+    where cr.status = 'pending'
+      and cr.amount > 0
+      and cr.due_date < current_date
+    group by c.dealership_id
+  loop
+    insert into public.audit_events (
+      kind, actor_user_id, actor_email, dealer_id, entity_type, entity_id, message, meta, source, prev_hash, hash
+    )
+    values (
+      'CONTRACT_REMITTANCES_OVERDUE',
+      auth.uid(),
+      nullif(auth.jwt() ->> 'email', ''),
+      d.dealership_id,
+      'dealership',
+      d.dealership_id::text,
+      d.remittance_count::text || ' remittance(s) became overdue',
+      jsonb_build_object('count', d.remittance_count, 'amount', d.amount, 'oldest_due_date', d.oldest_due_date),
+      'db',
+      '',
+      ''
+    );
+  end loop;
+
+  update public.contract_remittances
+  set status = 'overdue'
+  where status = 'pending'
+    and amount > 0
+    and due_date < current_date;
+  get diagnostics marked_count = row_count;
+
+  return marked_count;
+end;
+$$;
+
+revoke all on function public.mark_overdue_contract_remittances() from public;
+grant execute on function public.mark_overdue_contract_remittances() to authenticated, service_role;
+
+-- Days the dealership's oldest unpaid remittance is past due (0 when nothing is).
+-- Counts pending rows past their due date too, so a missed sweep never lets a
+-- dealership through. Credit lines (amount <= 0) are never past due.
+create or replace function public.dealership_overdue_days(_dealership_id uuid)
+returns integer
+language sql stable security definer set search_path = public
+as $$
+  select coalesce(max(current_date - cr.due_date), 0)::integer
+  from public.contract_remittances cr
+  join public.contracts c on c.id = cr.contract_id
+  where c.dealership_id = _dealership_id
+    and cr.status in ('pending', 'overdue')
+    and cr.amount > 0
+    and cr.due_date < current_date;
+$$;
+
+revoke all on function public.dealership_overdue_days(uuid) from public;
+grant execute on function public.dealership_overdue_days(uuid) to service_role;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'mark-overdue-contract-remittances',
+      '30 6 * * *',
+      'select public.mark_overdue_contract_remittances()'
+    );
+  end if;
+end $$;
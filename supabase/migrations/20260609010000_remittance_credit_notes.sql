@@ -0,0 +1,421 @@
+-- Remittance credit notes. A contract in a remittance that can no longer be edited is reversed
+-- with a credit note: negative amounts, with their own tax reversal, that reference the contract
+-- and the remittance it was on. The credit is settled by listing the note in a later draft
+-- remittance's credit_note_ids, whose totals include it as negative lines. Notes are issued only
+-- by issue_remittance_credit_note and never change, apart from applied_batch_id, which follows
+-- the remittance carrying them.
+-- Mirrors src/lib/batches/creditNotes.ts.
+
+alter table public.batches
+  add column if not exists credit_note_ids uuid[] not null default '{}';
+
+create table if not exists public.remittance_credit_notes (
+  id uuid primary key default gen_random_uuid(),
+  credit_note_number text not null unique,
+  contract_id uuid not null references public.contracts(id) on delete restrict,
+  contract_number text,
+  original_batch_id uuid not null references public.batches(id) on delete restrict,
+  original_batch_number text not null,
+  provider_id uuid references public.profiles(id) on delete set null,
+  reason text not null check (length(trim(reason)) > 0),
+  subtotal_cents integer not null check (subtotal_cents < 0),
+  tax_cents integer not null default 0 check (tax_cents <= 0),
+  tax_breakdown jsonb not null default '[]'::jsonb,
+  total_cents integer not null check (total_cents < 0),
+  applied_batch_id uuid references public.batches(id) on delete set null,
+  cancellation_id uuid references public.contract_cancellations(id) on delete set null,
+  created_by_user_id text,
+  created_by_email text,
+  created_at timestamptz not null default now(),
+  check (total_cents = subtotal_cents + tax_cents),
+  check (applied_batch_id is distinct from original_batch_id)
+);
+
+create index if not exists remittance_credit_notes_original_batch_id_idx on public.remittance_credit_notes (original_batch_id);
+create index if not exists remittance_credit_notes_applied_batch_id_idx on public.remittance_credit_notes (applied_batch_id);
+
+-- Only apply_batch_credit_notes may move applied_batch_id; everything else is fixed once issued.
+create or replace function public.guard_remittance_credit_note()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' then
+    raise exception 'Credit notes cannot be changed';
+  end if;
+  if (to_jsonb(new) - 'applied_batch_id') is distinct from (to_jsonb(old) - 'applied_batch_id')
+    or coalesce(current_setting('warrantyhub.credit_note_apply', true), '') <> 'on' then
+    raise exception 'Credit notes cannot be changed';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_remittance_credit_note on public.remittance_credit_notes;
+create trigger guard_remittance_credit_note
+  before update or delete on public.remittance_credit_notes
+  for each row execute function public.guard_remittance_credit_note();
+
+drop trigger if exists audit_remittance_credit_notes_change on public.remittance_credit_notes;
+create trigger audit_remittance_credit_notes_change
+  after insert or update or delete on public.remittance_credit_notes
+  for each row execute function public.audit_row_change('remittance_credit_note');
+
+alter table public.remittance_credit_notes enable row level security;
+
+-- Anyone who can see the remittance a note credits, or the one it is applied to, can see it.
+drop policy if exists "remittance_credit_notes_read" on public.remittance_credit_notes;
+create policy "remittance_credit_notes_read"
+  on public.remittance_credit_notes
+  for select
+  to authenticated
+  using (exists (select 1 from public.batches b where b.id in (original_batch_id, applied_batch_id)));
+
+-- credit_note_ids joins the columns locked once a remittance is submitted.
+create or replace function public.guard_batch_workflow()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(current_setting('warrantyhub.batch_transition', true), '') = 'on' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.remittance_status <> 'DRAFT' or new.status <> 'OPEN' or new.payment_status <> 'UNPAID' then
+      raise exception 'New remittances start as drafts';
+    end if;
+    new.paid_cents := 0;
+    new.submitted_at := null;
+    new.reviewed_at := null;
+    new.reviewed_by_user_id := null;
+    new.reviewed_by_email := null;
+    new.rejection_reason := null;
+    new.payment_method := null;
+    new.payment_reference := null;
+    new.payment_date := null;
+    new.paid_at := null;
+    new.paid_by_user_id := null;
+    new.paid_by_email := null;
+    new.dealer_user_id := coalesce(new.dealer_user_id, auth.uid()::text);
+    new.dealer_email := coalesce(new.dealer_email, nullif(auth.jwt() ->> 'email', ''));
+    if new.dealer_id is null then
+      select dm.dealer_id into new.dealer_id
+      from public.dealer_members dm
+      where dm.user_id = auth.uid() and dm.status = 'ACTIVE'
+      limit 1;
+    end if;
+    return new;
+  end if;
+
+  if (new.status, new.remittance_status, new.payment_status, new.paid_cents, new.paid_at, new.submitted_at, new.reviewed_at,
+      new.reviewed_by_user_id, new.reviewed_by_email, new.rejection_reason, new.admin_notes, new.payment_method,
+      new.payment_reference, new.payment_date, new.paid_by_user_id, new.paid_by_email)
+    is distinct from
+     (old.status, old.remittance_status, old.payment_status, old.paid_cents, old.paid_at, old.submitted_at, old.reviewed_at,
+      old.reviewed_by_user_id, old.reviewed_by_email, old.rejection_reason, old.admin_notes, old.payment_method,
+      old.payment_reference, old.payment_date, old.paid_by_user_id, old.paid_by_email) then
+    raise exception 'Remittance status can only change through transition_remittance_batch';
+  end if;
+
+  if old.remittance_status not in ('DRAFT','REJECTED')
+    and (new.contract_ids, new.credit_note_ids, new.subtotal_cents, new.tax_rate, new.tax_cents, new.tax_breakdown,
+         new.total_cents, new.provider_id)
+      is distinct from
+        (old.contract_ids, old.credit_note_ids, old.subtotal_cents, old.tax_rate, old.tax_cents, old.tax_breakdown,
+         old.total_cents, old.provider_id) then
+    raise exception 'Remittance is locked (submitted remittances cannot be edited)';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Checks the credit notes a remittance carries and points each note's applied_batch_id at it;
+-- notes dropped from the remittance become open again. total_cents already includes the credits.
+create or replace function public.apply_batch_credit_notes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _id uuid;
+  _n public.remittance_credit_notes;
+begin
+  if tg_op = 'UPDATE'
+    and new.credit_note_ids is not distinct from old.credit_note_ids
+    and new.total_cents is not distinct from old.total_cents then
+    return null;
+  end if;
+
+  if (select count(distinct x) from unnest(new.credit_note_ids) x) <> cardinality(new.credit_note_ids) then
+    raise exception 'A credit note can only be applied once';
+  end if;
+
+  foreach _id in array new.credit_note_ids loop
+    select * into _n from public.remittance_credit_notes where id = _id for update;
+    if not found then
+      raise exception 'Credit note not found';
+    end if;
+    if _n.applied_batch_id is not null and _n.applied_batch_id <> new.id then
+      raise exception '% is already applied to another remittance', _n.credit_note_number;
+    end if;
+    if _n.original_batch_id = new.id then
+      raise exception '% cannot be applied to the remittance it credits', _n.credit_note_number;
+    end if;
+    if _n.provider_id is not null and new.provider_id is not null and _n.provider_id <> new.provider_id then
+      raise exception '% is for a different provider', _n.credit_note_number;
+    end if;
+    if (select b.dealer_id from public.batches b where b.id = _n.original_batch_id) is distinct from new.dealer_id then
+      raise exception '% belongs to another dealer', _n.credit_note_number;
+    end if;
+  end loop;
+
+  if cardinality(new.credit_note_ids) > 0 and new.total_cents < 0 then
+    raise exception 'Credit notes can''t exceed the remittance''s contracts';
+  end if;
+
+  perform set_config('warrantyhub.credit_note_apply', 'on', true);
+
+  update public.remittance_credit_notes
+  set applied_batch_id = null
+  where applied_batch_id = new.id
+    and not (id = any(new.credit_note_ids));
+
+  update public.remittance_credit_notes
+  set applied_batch_id = new.id
+  where id = any(new.credit_note_ids)
+    and applied_batch_id is distinct from new.id;
+
+  perform set_config('warrantyhub.credit_note_apply', 'off', true);
+
+  return null;
+end;
+$$;
+
+drop trigger if exists apply_batch_credit_notes on public.batches;
+create trigger apply_batch_credit_notes
+  after insert or update of credit_note_ids, total_cents on public.batches
+  for each row execute function public.apply_batch_credit_notes();
+
+-- Deleting a draft releases the notes it carried before applied_batch_id's on delete set null
+-- reaches them, which guard_remittance_credit_note would otherwise refuse.
+create or replace function public.release_batch_credit_notes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform set_config('warrantyhub.credit_note_apply', 'on', true);
+
+  update public.remittance_credit_notes
+  set applied_batch_id = null
+  where applied_batch_id = old.id;
+
+  perform set_config('warrantyhub.credit_note_apply', 'off', true);
+
+  return old;
+end;
+$$;
+
+drop trigger if exists release_batch_credit_notes on public.batches;
+create trigger release_batch_credit_notes
+  before delete on public.batches
+  for each row execute function public.release_batch_credit_notes();
+
+-- Province codes and sales tax components for credit notes, so the tax reversal is worked out
+-- here rather than trusted from the client. Mirrors normalizeProvince and salesTaxComponents in
+-- src/lib/tax/salesTax.ts.
+create or replace function public.normalize_province(_raw text)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when v in ('AB','BC','MB','NB','NL','NS','NT','NU','ON','PE','QC','SK','YT') then v
+    when v = 'ALBERTA' then 'AB'
+    when v in ('BRITISH COLUMBIA','COLOMBIE-BRITANNIQUE') then 'BC'
+    when v = 'MANITOBA' then 'MB'
+    when v in ('NEW BRUNSWICK','NOUVEAU-BRUNSWICK') then 'NB'
+    when v in ('NF','NFLD','NEWFOUNDLAND','NEWFOUNDLAND AND LABRADOR','NEWFOUNDLAND & LABRADOR','TERRE-NEUVE-ET-LABRADOR') then 'NL'
+    when v in ('NOVA SCOTIA','NOUVELLE-ECOSSE') then 'NS'
+    when v in ('NORTHWEST TERRITORIES','TERRITOIRES DU NORD-OUEST') then 'NT'
+    when v = 'NUNAVUT' then 'NU'
+    when v = 'ONTARIO' then 'ON'
+    when v in ('PEI','PRINCE EDWARD ISLAND','ILE-DU-PRINCE-EDOUARD') then 'PE'
+    when v = 'QUEBEC' then 'QC'
+    when v = 'SASKATCHEWAN' then 'SK'
+    when v in ('YUKON','YUKON TERRITORY') then 'YT'
+  end
+  from (
+    select upper(trim(regexp_replace(replace(translate(coalesce(_raw, ''), 'ÉÈÊéèêÎÏîïÔô', 'EEEeeeIIiiOo'), '.', ''), '\s+', ' ', 'g'))) as v
+  ) t;
+$$;
+
+create or replace function public.sales_tax_components(_province text, _product_type text)
+returns jsonb
+language sql
+immutable
+as $$
+  select case
+    when _product_type = 'GAP' then
+      case _province
+        when 'MB' then '[{"kind":"INSURANCE","label":"Insurance premium tax (MB) 7%","rate":0.07}]'
+        when 'NL' then '[{"kind":"INSURANCE","label":"Insurance premium tax (NL) 15%","rate":0.15}]'
+        when 'ON' then '[{"kind":"INSURANCE","label":"Insurance premium tax (ON) 8%","rate":0.08}]'
+        when 'QC' then '[{"kind":"INSURANCE","label":"Insurance premium tax (QC) 9%","rate":0.09}]'
+        when 'SK' then '[{"kind":"INSURANCE","label":"Insurance premium tax (SK) 6%","rate":0.06}]'
+        else '[]'
+      end
+    else
+      case _province
+        when 'AB' then '[{"kind":"GST","label":"GST 5%","rate":0.05}]'
+        when 'BC' then '[{"kind":"GST","label":"GST 5%","rate":0.05},{"kind":"PST","label":"PST (BC) 7%","rate":0.07}]'
+        when 'MB' then '[{"kind":"GST","label":"GST 5%","rate":0.05},{"kind":"PST","label":"RST (MB) 7%","rate":0.07}]'
+        when 'NB' then '[{"kind":"HST","label":"HST (NB) 15%","rate":0.15}]'
+        when 'NL' then '[{"kind":"HST","label":"HST (NL) 15%","rate":0.15}]'
+        when 'NS' then '[{"kind":"HST","label":"HST (NS) 14%","rate":0.14}]'
+        when 'NT' then '[{"kind":"GST","label":"GST 5%","rate":0.05}]'
+        when 'NU' then '[{"kind":"GST","label":"GST 5%","rate":0.05}]'
+        when 'ON' then '[{"kind":"HST","label":"HST (ON) 13%","rate":0.13}]'
+        when 'PE' then '[{"kind":"HST","label":"HST (PE) 15%","rate":0.15}]'
+        when 'QC' then '[{"kind":"GST","label":"GST 5%","rate":0.05},{"kind":"QST","label":"QST 9.975%","rate":0.09975}]'
+        when 'SK' then '[{"kind":"GST","label":"GST 5%","rate":0.05},{"kind":"PST","label":"PST (SK) 6%","rate":0.06}]'
+        when 'YT' then '[{"kind":"GST","label":"GST 5%","rate":0.05}]'
+        else '[]'
+      end
+  end::jsonb;
+$$;
+
+-- One tax line per component for an amount, rounded like Math.round so negative amounts
+-- reverse exactly what calculateSalesTax charged.
+create or replace function public.sales_tax_lines(_amount_cents integer, _components jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(
+    jsonb_agg(
+      c || jsonb_build_object('taxableCents', _amount_cents, 'taxCents', floor(_amount_cents * (c ->> 'rate')::numeric + 0.5)::integer)
+      order by o
+    ),
+    '[]'::jsonb
+  )
+  from jsonb_array_elements(_components) with ordinality as t(c, o);
+$$;
+
+-- Issues a credit note against a contract on a submitted, approved or paid remittance. The tax
+-- reversal is worked out from the contract's province and product. Notes against one remittance
+-- can't together credit more than its total, nor more for a contract than was remitted for it:
+-- its cost plus tax, as the remittance charged it.
+create or replace function public.issue_remittance_credit_note(
+  _contract_id uuid,
+  _original_batch_id uuid,
+  _reason text,
+  _subtotal_cents integer,
+  _cancellation_id uuid default null
+)
+returns public.remittance_credit_notes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _uid uuid := auth.uid();
+  _email text := nullif(auth.jwt() ->> 'email', '');
+  _is_admin boolean := public.is_admin() or public.has_role(auth.uid(), 'super_admin');
+  _b public.batches;
+  _c public.contracts;
+  _components jsonb;
+  _tax_breakdown jsonb;
+  _tax_cents integer;
+  _cost integer;
+  _remitted integer;
+  _credited integer;
+  _contract_credited integer;
+  _issued integer;
+  _row public.remittance_credit_notes;
+begin
+  if _uid is null then
+    raise exception 'Not authenticated';
+  end if;
+  if public.is_impersonating() then
+    raise exception 'Read-only while viewing as another user';
+  end if;
+
+  select * into _b from public.batches where id = _original_batch_id for update;
+  if not found then
+    raise exception 'Batch not found';
+  end if;
+  if not (
+    _is_admin
+    or ('remittances.submit' = any(public.current_user_permissions())
+      and (public.is_active_dealer_member(_b.dealer_id) or _b.dealer_user_id = _uid::text))
+  ) then
+    raise exception 'Not authorized to issue credit notes';
+  end if;
+  if not (_contract_id = any(_b.contract_ids)) then
+    raise exception 'Contract is not in remittance %', _b.batch_number;
+  end if;
+  select * into _c from public.contracts where id = _contract_id;
+  if not found then
+    raise exception 'Contract not found';
+  end if;
+  if _b.remittance_status in ('DRAFT','REJECTED') then
+    raise exception 'Remittance % can still be edited; change it instead of issuing a credit note', _b.batch_number;
+  end if;
+  if coalesce(trim(_reason), '') = '' then
+    raise exception 'Reason is required';
+  end if;
+  if _subtotal_cents is null or _subtotal_cents >= 0 then
+    raise exception 'Credit amount must be greater than zero';
+  end if;
+  if _cancellation_id is not null and not exists (
+    select 1 from public.contract_cancellations cc where cc.id = _cancellation_id and cc.contract_id = _contract_id
+  ) then
+    raise exception 'Cancellation does not belong to this contract';
+  end if;
+
+  _components := public.sales_tax_components(
+    public.normalize_province(_c.customer_province),
+    (select p.product_type from public.products p where p.id = _c.product_id)
+  );
+  _tax_breakdown := public.sales_tax_lines(_subtotal_cents, _components);
+  select coalesce(sum((t ->> 'taxCents')::integer), 0) into _tax_cents from jsonb_array_elements(_tax_breakdown) t;
+
+  _cost := greatest(public.contract_provider_cost_cents(_c), 0);
+  select _cost + coalesce(sum((t ->> 'taxCents')::integer), 0) into _remitted
+  from jsonb_array_elements(public.sales_tax_lines(_cost, _components)) t;
+
+  select coalesce(-sum(n.total_cents), 0), coalesce(-sum(n.total_cents) filter (where n.contract_id = _contract_id), 0), count(*)
+  into _credited, _contract_credited, _issued
+  from public.remittance_credit_notes n
+  where n.original_batch_id = _b.id;
+
+  if _credited - (_subtotal_cents + _tax_cents) > _b.total_cents then
+    raise exception 'Credit notes on % can''t exceed its $% total', _b.batch_number, to_char(_b.total_cents / 100.0, 'FM999999990.00');
+  end if;
+  if _contract_credited - (_subtotal_cents + _tax_cents) > _remitted then
+    raise exception 'Credit notes for this contract on % can''t exceed the $% it was remitted for',
+      _b.batch_number, to_char(_remitted / 100.0, 'FM999999990.00');
+  end if;
+
+  insert into public.remittance_credit_notes (
+    credit_note_number, contract_id, contract_number, original_batch_id, original_batch_number, provider_id, reason,
+    subtotal_cents, tax_cents, tax_breakdown, total_cents, cancellation_id, created_by_user_id, created_by_email
+  )
+  values (
+    'CN-' || _b.batch_number || '-' || (_issued + 1), _contract_id, _c.contract_number, _b.id, _b.batch_number, _b.provider_id,
+    trim(_reason), _subtotal_cents, _tax_cents, _tax_breakdown, _subtotal_cents + _tax_cents, _cancellation_id, _uid::text, _email
+  )
+  returning * into _row;
+
+  return _row;
+end;
+$$;
+
+revoke all on function public.issue_remittance_credit_note(uuid, uuid, text, integer, uuid) from public;
+grant execute on function public.issue_remittance_credit_note(uuid, uuid, text, integer, uuid) to authenticated;